@@ -37,6 +37,9 @@ import Index from "./pages/Index";
 import Security from "./pages/Security";
 import Performance from "./pages/Performance";
 import GeneralSettings from "./pages/GeneralSettings";
+import KitchenDisplay from "./pages/KitchenDisplay";
+import OrderStatusBoard from "./pages/OrderStatusBoard";
+import TableOrderView from "./pages/TableOrderView";
 
 const App = () => {
   // Initialize cache config when the app starts
@@ -104,8 +107,17 @@ const App = () => {
                 </ProtectedRoute>
               } />
               
+              {/* Kitchen Display - staff only, orders are not readable by the public */}
+              <Route path="/kds/:restaurantSlug" element={
+                <ProtectedRoute>
+                  <KitchenDisplay />
+                </ProtectedRoute>
+              } />
+              
               {/* Public Kiosk Routes */}
               <Route path="/r/:restaurantSlug" element={<KioskView />} />
+              <Route path="/r/:restaurantSlug/status" element={<OrderStatusBoard />} />
+              <Route path="/r/:restaurantSlug/t/:tableToken" element={<TableOrderView />} />
               
               {/* Catch-all Route */}
               <Route path="*" element={<NotFound />} />
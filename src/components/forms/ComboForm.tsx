@@ -0,0 +1,376 @@
+import { useState, useEffect } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ImageUpload from "@/components/ImageUpload";
+import { Loader2, Plus, Trash2, ArrowUp, ArrowDown } from "lucide-react";
+import { ComboWithSlots, MenuCategory, MenuItem } from "@/types/database-types";
+import { ComboSlotInput, getMenuItemsByCategoryIds } from "@/services/kiosk-service";
+
+const percentage = z.string().refine(
+  (value) => value === "" || (!isNaN(Number(value)) && Number(value) >= 0 && Number(value) <= 100),
+  { message: "Tax percentage must be between 0 and 100" }
+);
+
+const formSchema = z.object({
+  name: z.string().min(1, "Combo name is required"),
+  description: z.string().optional(),
+  image: z.string().optional(),
+  price: z.string().min(1, "Price is required").refine(
+    (value) => !isNaN(Number(value)) && Number(value) >= 0,
+    { message: "Price must be a non-negative number" }
+  ),
+  tax_percentage: percentage.optional(),
+  takeaway_tax_percentage: percentage.optional(),
+  display_order: z.string().refine(
+    (val) => !isNaN(Number(val)),
+    { message: "Display order must be a number" }
+  ),
+  in_stock: z.boolean().default(true),
+});
+
+export type ComboFormValues = z.infer<typeof formSchema>;
+
+// Upcharges are typed as text while editing
+type SlotDraft = Omit<ComboSlotInput, "display_order" | "items"> & {
+  items: { menu_item_id: string; upcharge: string }[];
+};
+
+const LISTED_ITEMS_ONLY = "none";
+
+interface ComboFormProps {
+  onSubmit: (values: ComboFormValues, slots: ComboSlotInput[]) => void;
+  combo?: ComboWithSlots | null;
+  categories: MenuCategory[];
+  isLoading?: boolean;
+}
+
+const ComboForm = ({ onSubmit, combo, categories, isLoading }: ComboFormProps) => {
+  const [imageUrl, setImageUrl] = useState<string | undefined>(combo?.image || undefined);
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [slots, setSlots] = useState<SlotDraft[]>(
+    combo?.slots.map(slot => ({
+      name: slot.name,
+      category_id: slot.category_id,
+      items: slot.items.map(item => ({ menu_item_id: item.menu_item_id, upcharge: String(item.upcharge) }))
+    })) || []
+  );
+  const [slotsError, setSlotsError] = useState<string | null>(null);
+
+  const form = useForm<ComboFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: combo?.name || "",
+      description: combo?.description || "",
+      image: combo?.image || "",
+      price: combo ? String(combo.price) : "",
+      tax_percentage: combo?.tax_percentage?.toString() ?? "10",
+      takeaway_tax_percentage: combo?.takeaway_tax_percentage?.toString() ?? "",
+      display_order: combo?.display_order?.toString() || "0",
+      in_stock: combo ? combo.in_stock : true,
+    },
+  });
+
+  useEffect(() => {
+    const fetchMenuItems = async () => {
+      try {
+        setMenuItems(await getMenuItemsByCategoryIds(categories.map(c => c.id)));
+      } catch (error) {
+        console.error("Error fetching menu items for combo slots:", error);
+      }
+    };
+
+    fetchMenuItems();
+  }, [categories]);
+
+  const updateSlot = (index: number, updates: Partial<SlotDraft>) => {
+    setSlots(prev => prev.map((slot, i) => (i === index ? { ...slot, ...updates } : slot)));
+  };
+
+  const moveSlot = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= slots.length) return;
+    const reordered = [...slots];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSlots(reordered);
+  };
+
+  const updateSlotItem = (slotIndex: number, itemIndex: number, updates: Partial<SlotDraft["items"][number]>) => {
+    updateSlot(slotIndex, {
+      items: slots[slotIndex].items.map((item, i) => (i === itemIndex ? { ...item, ...updates } : item))
+    });
+  };
+
+  const handleImageUpload = (url: string) => {
+    setImageUrl(url);
+    form.setValue("image", url);
+  };
+
+  const handleSubmit = (values: ComboFormValues) => {
+    if (slots.length === 0) {
+      setSlotsError("Add at least one slot");
+      return;
+    }
+    if (slots.some(slot => !slot.name.trim())) {
+      setSlotsError("Every slot needs a name");
+      return;
+    }
+    if (slots.some(slot => !slot.category_id && slot.items.filter(i => i.menu_item_id).length === 0)) {
+      setSlotsError("Every slot needs a category or at least one item");
+      return;
+    }
+    if (slots.some(slot => slot.items.some(i => isNaN(Number(i.upcharge)) || Number(i.upcharge) < 0))) {
+      setSlotsError("Upcharges must be non-negative numbers");
+      return;
+    }
+
+    setSlotsError(null);
+    onSubmit(values, slots.map((slot, index) => ({
+      name: slot.name.trim(),
+      category_id: slot.category_id,
+      display_order: index,
+      items: slot.items
+        .filter(item => item.menu_item_id)
+        .map(item => ({ menu_item_id: item.menu_item_id, upcharge: Number(item.upcharge) || 0 }))
+    })));
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Burger Meal" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Burger, side and drink" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="price"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Bundle price</FormLabel>
+              <FormControl>
+                <Input placeholder="9.90" {...field} />
+              </FormControl>
+              <FormDescription>Slot upcharges and the extras chosen for each item are added to it.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="tax_percentage"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tax (%)</FormLabel>
+                <FormControl>
+                  <Input placeholder="10" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="takeaway_tax_percentage"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Takeaway tax (%)</FormLabel>
+                <FormControl>
+                  <Input placeholder="Same as dine-in" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="image"
+          render={() => (
+            <FormItem>
+              <FormLabel>Image</FormLabel>
+              <FormControl>
+                <ImageUpload
+                  value={imageUrl}
+                  onChange={handleImageUpload}
+                  clearable={true}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="display_order"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Display order</FormLabel>
+              <FormControl>
+                <Input type="number" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="in_stock"
+          render={({ field }) => (
+            <FormItem className="flex items-center space-x-2 space-y-0">
+              <FormControl>
+                <Checkbox checked={field.value} onCheckedChange={checked => field.onChange(checked === true)} />
+              </FormControl>
+              <FormLabel>In stock</FormLabel>
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-3">
+          <Label>Slots</Label>
+          <p className="text-xs text-muted-foreground">
+            Customers pick one item per slot, in this order. A slot offers every item of its category at no upcharge,
+            plus the items listed below at their upcharge.
+          </p>
+          {slots.map((slot, slotIndex) => (
+            <div key={slotIndex} className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  placeholder="e.g. Drink"
+                  value={slot.name}
+                  onChange={e => updateSlot(slotIndex, { name: e.target.value })}
+                />
+                <Button type="button" variant="ghost" size="icon" onClick={() => moveSlot(slotIndex, -1)} disabled={slotIndex === 0}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" onClick={() => moveSlot(slotIndex, 1)} disabled={slotIndex === slots.length - 1}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" onClick={() => setSlots(prev => prev.filter((_, i) => i !== slotIndex))}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+              <Select
+                value={slot.category_id || LISTED_ITEMS_ONLY}
+                onValueChange={value => updateSlot(slotIndex, { category_id: value === LISTED_ITEMS_ONLY ? null : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={LISTED_ITEMS_ONLY}>Listed items only</SelectItem>
+                  {categories.map(category => (
+                    <SelectItem key={category.id} value={category.id}>Category: {category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {slot.items.map((item, itemIndex) => (
+                <div key={itemIndex} className="flex items-center gap-2">
+                  <Select value={item.menu_item_id} onValueChange={value => updateSlotItem(slotIndex, itemIndex, { menu_item_id: value })}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Select an item" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {menuItems.map(menuItem => (
+                        <SelectItem key={menuItem.id} value={menuItem.id}>{menuItem.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    className="w-24"
+                    placeholder="+0.00"
+                    value={item.upcharge}
+                    onChange={e => updateSlotItem(slotIndex, itemIndex, { upcharge: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => updateSlot(slotIndex, { items: slot.items.filter((_, i) => i !== itemIndex) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => updateSlot(slotIndex, { items: [...slot.items, { menu_item_id: "", upcharge: "0" }] })}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Item
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setSlots(prev => [...prev, { name: "", category_id: null, items: [] }])}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Slot
+          </Button>
+          {slotsError && <p className="text-sm font-medium text-destructive">{slotsError}</p>}
+        </div>
+
+        <Button type="submit" className="w-full bg-kiosk-primary" disabled={isLoading}>
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save Combo"
+          )}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default ComboForm;
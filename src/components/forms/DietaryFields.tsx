@@ -0,0 +1,82 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ALLERGENS, DIETARY_TAGS, MAX_SPICY_LEVEL } from "@/utils/dietary";
+import { getTranslation, SupportedLanguage } from "@/utils/language-utils";
+
+export type DietaryFieldsValue = {
+  allergens: string[];
+  dietary_tags: string[];
+  spicy_level: string;
+};
+
+interface DietaryFieldsProps {
+  value: DietaryFieldsValue;
+  onChange: (value: DietaryFieldsValue) => void;
+  idPrefix: string; // keeps checkbox ids unique when several forms are mounted
+  language: SupportedLanguage;
+}
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+// Allergens, diet tags and spicy level of a menu item or topping
+export const DietaryFields = ({ value, onChange, idPrefix, language }: DietaryFieldsProps) => {
+  const t = (key: string) => getTranslation(key, language);
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div>
+        <Label className="block mb-2">{t("dietary.allergensLabel")}</Label>
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+          {ALLERGENS.map(allergen => (
+            <div key={allergen} className="flex items-center space-x-2">
+              <Checkbox
+                id={`${idPrefix}-allergen-${allergen}`}
+                checked={value.allergens.includes(allergen)}
+                onCheckedChange={() => onChange({ ...value, allergens: toggle(value.allergens, allergen) })}
+              />
+              <Label htmlFor={`${idPrefix}-allergen-${allergen}`} className="font-normal">
+                {t(`dietary.allergens.${allergen}`)}
+              </Label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-6">
+        <div>
+          <Label className="block mb-2">{t("dietary.dietLabel")}</Label>
+          <div className="flex gap-4">
+            {DIETARY_TAGS.map(tag => (
+              <div key={tag} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${idPrefix}-diet-${tag}`}
+                  checked={value.dietary_tags.includes(tag)}
+                  onCheckedChange={() => onChange({ ...value, dietary_tags: toggle(value.dietary_tags, tag) })}
+                />
+                <Label htmlFor={`${idPrefix}-diet-${tag}`} className="font-normal">{t(`dietary.tags.${tag}`)}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <Label className="block mb-2">{t("dietary.spicyLabel")}</Label>
+          <Select value={value.spicy_level} onValueChange={spicyLevel => onChange({ ...value, spicy_level: spicyLevel })}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: MAX_SPICY_LEVEL + 1 }, (_, level) => (
+                <SelectItem key={level} value={String(level)}>
+                  {level === 0 ? t("dietary.notSpicy") : `${t("dietary.spicy")} ${level}/${MAX_SPICY_LEVEL}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+};
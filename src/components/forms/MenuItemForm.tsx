@@ -27,10 +27,12 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { getToppingCategoriesByRestaurantId } from "@/services/kiosk-service";
+import { getDraftToppingCategories } from "@/services/menu-draft-service";
 import { ToppingCategory } from "@/types/database-types";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { MultiLanguageInput } from "@/components/forms/MultiLanguageInput";
+import { DietaryFields } from "@/components/forms/DietaryFields";
+import { NutritionFields } from "@/components/forms/NutritionFields";
 import { SupportedLanguage } from "@/utils/language-utils";
 import { useRestaurantLanguages } from "@/hooks/useRestaurantLanguages";
 
@@ -73,6 +75,10 @@ const formSchema = z.object({
     (value) => value === "" || (!isNaN(Number(value)) && Number(value) >= 0 && Number(value) <= 100),
     { message: "Tax percentage must be between 0 and 100" }
   ).optional(),
+  takeaway_tax_percentage: z.string().refine(
+    (value) => value === "" || (!isNaN(Number(value)) && Number(value) >= 0 && Number(value) <= 100),
+    { message: "Tax percentage must be between 0 and 100" }
+  ).optional(),
   topping_categories: z.array(z.string()).optional(),
   display_order: z.string().refine(
     (val) => !isNaN(Number(val)),
@@ -81,6 +87,14 @@ const formSchema = z.object({
   available_from: z.string().optional(),
   available_until: z.string().optional(),
   availability_type: z.enum(["always", "time_restricted"]),
+  allergens: z.array(z.string()).optional(),
+  dietary_tags: z.array(z.string()).optional(),
+  spicy_level: z.string().optional(),
+  calories: z.string().optional(),
+  protein: z.string().optional(),
+  carbohydrates: z.string().optional(),
+  fat: z.string().optional(),
+  portion_size: z.string().optional(),
 });
 
 interface MenuItemFormProps {
@@ -183,16 +197,27 @@ const MenuItemForm = ({ onSubmit, initialValues, isLoading, restaurantId }: Menu
       promotion_price: initialValues?.promotion_price || "",
       image: initialValues?.image || "",
       tax_percentage: initialValues?.tax_percentage || "10",
+      takeaway_tax_percentage: initialValues?.takeaway_tax_percentage || "",
       topping_categories: initialValues?.topping_categories || [],
       display_order: initialValues?.display_order || "0",
       available_from: initialValues?.available_from || "",
       available_until: initialValues?.available_until || "",
       availability_type: initialAvailabilityType,
+      allergens: initialValues?.allergens || [],
+      dietary_tags: initialValues?.dietary_tags || [],
+      spicy_level: initialValues?.spicy_level || "0",
+      calories: initialValues?.calories || "",
+      protein: initialValues?.protein || "",
+      carbohydrates: initialValues?.carbohydrates || "",
+      fat: initialValues?.fat || "",
+      portion_size: initialValues?.portion_size || "",
     },
   });
 
   // Watch for availability type changes to conditionally show/hide time fields
   const availabilityType = form.watch("availability_type");
+  const [allergens, dietaryTags, spicyLevel] = form.watch(["allergens", "dietary_tags", "spicy_level"]);
+  const [calories, protein, carbohydrates, fat, portionSize] = form.watch(["calories", "protein", "carbohydrates", "fat", "portion_size"]);
 
   // Reset times when switching to "always available"
   useEffect(() => {
@@ -207,7 +232,7 @@ const MenuItemForm = ({ onSubmit, initialValues, isLoading, restaurantId }: Menu
       if (!restaurantId) return;
       
       try {
-        const data = await getToppingCategoriesByRestaurantId(restaurantId);
+        const data = await getDraftToppingCategories(restaurantId);
         setToppingCategories(data);
         
         // Initialize order values if there are selected categories
@@ -506,6 +531,28 @@ const MenuItemForm = ({ onSubmit, initialValues, isLoading, restaurantId }: Menu
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="takeaway_tax_percentage"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Takeaway Tax Percentage</FormLabel>
+              <FormControl>
+                <Input 
+                  type="number" 
+                  step="0.01" 
+                  placeholder="Same as dine-in" 
+                  {...field} 
+                />
+              </FormControl>
+              <FormDescription>
+                Leave empty when takeaway orders use the same rate
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <FormField
           control={form.control}
           name="availability_type"
@@ -579,6 +626,48 @@ const MenuItemForm = ({ onSubmit, initialValues, isLoading, restaurantId }: Menu
           </div>
         )}
 
+        <FormItem>
+          <FormLabel>Allergens & Diet</FormLabel>
+          <DietaryFields
+            value={{ allergens: allergens || [], dietary_tags: dietaryTags || [], spicy_level: spicyLevel || "0" }}
+            onChange={value => {
+              form.setValue("allergens", value.allergens);
+              form.setValue("dietary_tags", value.dietary_tags);
+              form.setValue("spicy_level", value.spicy_level);
+            }}
+            idPrefix="menu-item"
+            language="en"
+          />
+          <FormDescription>
+            Shown on the kiosk and used by its diet filters. Allergens of selected toppings are added.
+          </FormDescription>
+        </FormItem>
+
+        <FormItem>
+          <FormLabel>Nutrition (per portion)</FormLabel>
+          <NutritionFields
+            value={{
+              calories: calories || "",
+              protein: protein || "",
+              carbohydrates: carbohydrates || "",
+              fat: fat || "",
+              portion_size: portionSize || ""
+            }}
+            onChange={value => {
+              form.setValue("calories", value.calories);
+              form.setValue("protein", value.protein);
+              form.setValue("carbohydrates", value.carbohydrates);
+              form.setValue("fat", value.fat);
+              form.setValue("portion_size", value.portion_size);
+            }}
+            idPrefix="menu-item"
+            language="en"
+          />
+          <FormDescription>
+            Leave calories empty if unknown; the kiosk then shows no calorie count for the item.
+          </FormDescription>
+        </FormItem>
+
         <FormField
           control={form.control}
           name="image"
@@ -0,0 +1,53 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { getTranslation, SupportedLanguage } from "@/utils/language-utils";
+import { NUTRITION_FIELDS } from "@/utils/nutrition";
+
+export type NutritionFieldsValue = {
+  calories: string;
+  protein: string;
+  carbohydrates: string;
+  fat: string;
+  portion_size: string;
+};
+
+interface NutritionFieldsProps {
+  value: NutritionFieldsValue;
+  onChange: (value: NutritionFieldsValue) => void;
+  idPrefix: string;
+  language: SupportedLanguage;
+}
+
+// Nutrition facts per portion; empty fields are saved as unknown
+export const NutritionFields = ({ value, onChange, idPrefix, language }: NutritionFieldsProps) => {
+  const t = (key: string) => getTranslation(key, language);
+
+  return (
+    <div className="grid grid-cols-2 gap-3 rounded-md border p-4 sm:grid-cols-5">
+      {NUTRITION_FIELDS.map(field => (
+        <div key={field} className="space-y-1">
+          <Label htmlFor={`${idPrefix}-${field}`}>
+            {t(`nutrition.${field}`)} ({field === 'calories' ? 'kcal' : 'g'})
+          </Label>
+          <Input
+            id={`${idPrefix}-${field}`}
+            type="number"
+            min="0"
+            step="any"
+            value={value[field]}
+            onChange={e => onChange({ ...value, [field]: e.target.value })}
+          />
+        </div>
+      ))}
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-portion`}>{t("nutrition.portion")}</Label>
+        <Input
+          id={`${idPrefix}-portion`}
+          placeholder="350 g"
+          value={value.portion_size}
+          onChange={e => onChange({ ...value, portion_size: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+};
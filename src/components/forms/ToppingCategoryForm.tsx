@@ -10,7 +10,7 @@ import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Checkbox } from "@/components/ui/checkbox";
 import ImageUpload from "@/components/ImageUpload";
-import { supabase } from "@/integrations/supabase/client";
+import { getDraftToppings } from "@/services/menu-draft-service";
 import { Topping } from "@/types/database-types";
 import { toast } from "@/hooks/use-toast";
 import { MultiLanguageInput } from "@/components/forms/MultiLanguageInput";
@@ -152,38 +152,10 @@ const ToppingCategoryForm = ({
       setLoadingToppings(true);
       try {
         console.log("Fetching toppings for restaurant:", restaurantId);
-        const {
-          data: categories,
-          error: categoriesError
-        } = await supabase.from('topping_categories').select('id').eq('restaurant_id', restaurantId);
-        if (categoriesError) {
-          console.error('Error fetching topping categories:', categoriesError);
-          setLoadingToppings(false);
-          return;
-        }
-        console.log("Fetched categories:", categories);
-        if (!categories || categories.length === 0) {
-          console.log("No categories found");
-          setLoadingToppings(false);
-          return;
-        }
-        const categoryIds = categories.map(cat => cat.id);
-        console.log("Fetching toppings for categories:", categoryIds);
-        const {
-          data,
-          error
-        } = await supabase.from('toppings').select('*').in('category_id', categoryIds);
-        if (error) {
-          console.error('Error fetching toppings:', error);
-          toast({
-            title: "Error",
-            description: "Failed to load toppings",
-            variant: "destructive"
-          });
-        } else {
-          console.log("Fetched toppings:", data);
-          setToppings(data || []);
-        }
+        // Conditions pick from the draft toppings, the ones the category is published with
+        const data = await getDraftToppings(restaurantId);
+        console.log("Fetched toppings:", data);
+        setToppings(data);
       } catch (error) {
         console.error('Error in fetchToppings:', error);
         toast({
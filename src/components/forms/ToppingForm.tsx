@@ -8,6 +8,8 @@ import { Loader2 } from "lucide-react";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { MultiLanguageInput } from "@/components/forms/MultiLanguageInput";
+import { DietaryFields } from "@/components/forms/DietaryFields";
+import { NutritionFields } from "@/components/forms/NutritionFields";
 import { SupportedLanguage } from "@/utils/language-utils";
 import { useRestaurantLanguages } from "@/hooks/useRestaurantLanguages";
 
@@ -30,10 +32,21 @@ const toppingSchema = z.object({
   tax_percentage: z.string().refine((val) => !isNaN(Number(val)) && Number(val) >= 0 && Number(val) <= 100, {
     message: "La TVA doit être un pourcentage entre 0 et 100",
   }),
+  takeaway_tax_percentage: z.string().refine((val) => val === "" || (!isNaN(Number(val)) && Number(val) >= 0 && Number(val) <= 100), {
+    message: "La TVA doit être un pourcentage entre 0 et 100",
+  }).optional(),
   display_order: z.string().refine((val) => !isNaN(Number(val)) && Number(val) >= 0, {
     message: "L'ordre d'affichage doit être un nombre valide supérieur ou égal à 0",
   }),
   in_stock: z.boolean().default(true),
+  allergens: z.array(z.string()).default([]),
+  dietary_tags: z.array(z.string()).default([]),
+  spicy_level: z.string().default("0"),
+  calories: z.string().default(""),
+  protein: z.string().default(""),
+  carbohydrates: z.string().default(""),
+  fat: z.string().default(""),
+  portion_size: z.string().default(""),
 });
 
 export type ToppingFormValues = z.infer<typeof toppingSchema>;
@@ -55,8 +68,17 @@ interface ToppingFormProps {
     name_zh?: string;
     price: string;
     tax_percentage?: string;
+    takeaway_tax_percentage?: string;
     display_order?: string;
     in_stock?: boolean;
+    allergens?: string[];
+    dietary_tags?: string[];
+    spicy_level?: string;
+    calories?: string;
+    protein?: string;
+    carbohydrates?: string;
+    fat?: string;
+    portion_size?: string;
   };
   isLoading?: boolean;
   currency?: string;
@@ -107,11 +129,23 @@ const ToppingForm = ({ onSubmit, initialValues, isLoading = false, currency = "E
       name_zh: initialValues?.name_zh || "",
       price: initialValues?.price || "0",
       tax_percentage: initialValues?.tax_percentage || "10",
+      takeaway_tax_percentage: initialValues?.takeaway_tax_percentage || "",
       display_order: initialValues?.display_order || "0",
       in_stock: initialValues?.in_stock !== undefined ? initialValues.in_stock : true,
+      allergens: initialValues?.allergens || [],
+      dietary_tags: initialValues?.dietary_tags || [],
+      spicy_level: initialValues?.spicy_level || "0",
+      calories: initialValues?.calories || "",
+      protein: initialValues?.protein || "",
+      carbohydrates: initialValues?.carbohydrates || "",
+      fat: initialValues?.fat || "",
+      portion_size: initialValues?.portion_size || "",
     },
   });
 
+  const [allergens, dietaryTags, spicyLevel] = form.watch(["allergens", "dietary_tags", "spicy_level"]);
+  const [calories, protein, carbohydrates, fat, portionSize] = form.watch(["calories", "protein", "carbohydrates", "fat", "portion_size"]);
+
   const handleNameChange = (language: SupportedLanguage, value: string) => {
     setNameValues(prev => ({ ...prev, [language]: value }));
     form.setValue(`name_${language}`, value);
@@ -163,6 +197,20 @@ const ToppingForm = ({ onSubmit, initialValues, isLoading = false, currency = "E
             </FormItem>
           )}
         />
+
+        <FormField
+          control={form.control}
+          name="takeaway_tax_percentage"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>TVA à emporter (%)</FormLabel>
+              <FormControl>
+                <Input placeholder="Identique sur place" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
         
         <FormField
           control={form.control}
@@ -178,6 +226,36 @@ const ToppingForm = ({ onSubmit, initialValues, isLoading = false, currency = "E
           )}
         />
         
+        <FormItem>
+          <FormLabel>Allergènes et régimes</FormLabel>
+          <DietaryFields
+            value={{ allergens, dietary_tags: dietaryTags, spicy_level: spicyLevel }}
+            onChange={value => {
+              form.setValue("allergens", value.allergens);
+              form.setValue("dietary_tags", value.dietary_tags);
+              form.setValue("spicy_level", value.spicy_level);
+            }}
+            idPrefix="topping"
+            language="fr"
+          />
+        </FormItem>
+
+        <FormItem>
+          <FormLabel>Valeurs nutritionnelles (par portion)</FormLabel>
+          <NutritionFields
+            value={{ calories, protein, carbohydrates, fat, portion_size: portionSize }}
+            onChange={value => {
+              form.setValue("calories", value.calories);
+              form.setValue("protein", value.protein);
+              form.setValue("carbohydrates", value.carbohydrates);
+              form.setValue("fat", value.fat);
+              form.setValue("portion_size", value.portion_size);
+            }}
+            idPrefix="topping"
+            language="fr"
+          />
+        </FormItem>
+
         <Button type="submit" className="w-full bg-kiosk-primary" disabled={isLoading}>
           {isLoading ? (
             <>
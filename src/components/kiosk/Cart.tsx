@@ -2,11 +2,13 @@ import React, { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Check, ArrowRight, Loader2, Plus, Minus, X } from "lucide-react";
-import { CartItem } from "@/types/database-types";
+import { CartItem, Promotion, UpsellSuggestion } from "@/types/database-types";
 import OrderSummary from "./OrderSummary";
+import UpsellDialog from "./UpsellDialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Carousel, CarouselContent, CarouselItem } from "@/components/ui/carousel";
 import { calculateCartTotals } from "@/utils/price-utils";
+import { formatCalories, getCartNutrition } from "@/utils/nutrition";
 import { getTranslatedField } from "@/utils/language-utils";
 import { useLanguage } from "@/contexts/LanguageContext";
 interface CartProps {
@@ -28,9 +30,15 @@ interface CartProps {
     location?: string;
     currency?: string;
     ui_language?: string;
+    prices_include_tax?: boolean;
+    timezone?: string;
   } | null;
   orderType?: "dine-in" | "takeaway" | null;
   tableNumber?: string | null;
+  promotions?: Promotion[];
+  upsellSuggestions?: UpsellSuggestion[];
+  onUpsellShown?: (suggestions: UpsellSuggestion[]) => void;
+  onUpsellSelected?: (suggestion: UpsellSuggestion) => void;
   showOrderSummaryOnly?: boolean;
   t: (key: string) => string;
 }
@@ -101,11 +109,18 @@ const Cart: React.FC<CartProps> = ({
   restaurant = null,
   orderType = null,
   tableNumber = null,
+  promotions = [],
+  upsellSuggestions = [],
+  onUpsellShown,
+  onUpsellSelected,
   showOrderSummaryOnly = false,
   t
 }) => {
   const { language: uiLanguage } = useLanguage();
   const [showOrderSummary, setShowOrderSummary] = useState(false);
+  const [showUpsell, setShowUpsell] = useState(false);
+  // Suggestions are offered once per cart, not each time the summary is opened
+  const [upsellOffered, setUpsellOffered] = useState(false);
   const cartItemCount = cart.reduce((total, item) => total + item.quantity, 0);
   const cartRef = useRef<HTMLDivElement>(null);
 
@@ -121,7 +136,7 @@ const Cart: React.FC<CartProps> = ({
   };
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
-      if (isOpen && !showOrderSummary && cartRef.current && !cartRef.current.contains(event.target as Node)) {
+      if (isOpen && !showOrderSummary && !showUpsell && cartRef.current && !cartRef.current.contains(event.target as Node)) {
         onToggleOpen();
       }
     };
@@ -129,8 +144,27 @@ const Cart: React.FC<CartProps> = ({
     return () => {
       document.removeEventListener('mousedown', handleClickOutside);
     };
-  }, [isOpen, onToggleOpen, showOrderSummary]);
+  }, [isOpen, onToggleOpen, showOrderSummary, showUpsell]);
+  useEffect(() => {
+    if (cart.length === 0) {
+      setUpsellOffered(false);
+    }
+  }, [cart.length]);
   const handleShowOrderSummary = () => {
+    if (!upsellOffered && upsellSuggestions.length > 0 && onUpsellSelected) {
+      setUpsellOffered(true);
+      setShowUpsell(true);
+      onUpsellShown?.(upsellSuggestions);
+      return;
+    }
+    setShowOrderSummary(true);
+  };
+  const handleUpsellSelected = (suggestion: UpsellSuggestion) => {
+    setShowUpsell(false);
+    onUpsellSelected?.(suggestion);
+  };
+  const handleUpsellContinue = () => {
+    setShowUpsell(false);
     setShowOrderSummary(true);
   };
   const handleCloseOrderSummary = () => {
@@ -146,8 +180,15 @@ const Cart: React.FC<CartProps> = ({
   const {
     total,
     subtotal,
-    tax
-  } = calculateCartTotals(cart);
+    tax,
+    promotions: appliedPromotions
+  } = calculateCartTotals(cart, {
+    orderType,
+    pricesIncludeTax: restaurant?.prices_include_tax,
+    promotions,
+    timezone: restaurant?.timezone
+  });
+  const nutrition = getCartNutrition(cart);
   const reversedCart = [...cart].reverse();
   const currencySymbol = getCurrencySymbol(restaurant?.currency || "EUR");
   return <>
@@ -182,6 +223,9 @@ const Cart: React.FC<CartProps> = ({
                         <img src={item.menuItem.image || '/placeholder.svg'} alt={item.menuItem.name} className="w-16 h-16 object-cover rounded" />
                         <div className="flex flex-col">
                           <h3 className="text-responsive-body font-bold font-bebas text-lg">{getTranslatedField(item.menuItem, 'name', uiLanguage)}</h3>
+                          {item.comboComponents && <p className="text-xs text-gray-600">
+                              {item.comboComponents.map(component => getTranslatedField(component.menuItem, 'name', uiLanguage)).join(", ")}
+                            </p>}
                           <p className="text-responsive-price text-gray-700">
                             {parseFloat(item.itemPrice.toString()).toFixed(2)} {currencySymbol}
                           </p>
@@ -205,6 +249,10 @@ const Cart: React.FC<CartProps> = ({
 
           <div className="px-4 pb-4">
             <div className="space-y-2">
+              {appliedPromotions.map(promotion => <div key={promotion.promotion_id} className="flex justify-between text-green-700">
+                  <span className="text-responsive-body">{promotion.name}</span>
+                  <span className="text-responsive-body font-medium">-{promotion.amount.toFixed(2)} {currencySymbol}</span>
+                </div>)}
               <div className="flex justify-between">
                 <span className="text-responsive-body text-gray-600">{tCart("totalHT")}</span>
                 <span className="text-responsive-body font-medium">{subtotal.toFixed(2)} {currencySymbol}</span>
@@ -218,6 +266,11 @@ const Cart: React.FC<CartProps> = ({
                 <span>{tCart("totalTTC")}</span>
                 <span>{total.toFixed(2)} {currencySymbol}</span>
               </div>
+              {nutrition && <div className="flex justify-between text-gray-600">
+                  <span className="text-responsive-body">{t("nutrition.cartTotal")}</span>
+                  {/* Items without values are left out of the total */}
+                  <span className="text-responsive-body">{nutrition.complete ? '' : '≥ '}{formatCalories(nutrition.calories)}</span>
+                </div>}
             </div>
 
             <div className="grid grid-cols-2 gap-4 mt-6">
@@ -235,7 +288,9 @@ const Cart: React.FC<CartProps> = ({
         </div>
       </div>
 
-      <OrderSummary isOpen={showOrderSummary} onClose={handleCloseOrderSummary} cart={cart} onPlaceOrder={handlePlaceOrder} placingOrder={placingOrder} calculateSubtotal={calculateSubtotal} calculateTax={calculateTax} getFormattedOptions={getFormattedOptions} getFormattedToppings={getFormattedToppings} restaurant={restaurant} orderType={orderType} tableNumber={tableNumber} />
+      <UpsellDialog isOpen={showUpsell} suggestions={upsellSuggestions} onSelect={handleUpsellSelected} onContinue={handleUpsellContinue} t={t} currencySymbol={currencySymbol} />
+
+      <OrderSummary isOpen={showOrderSummary} onClose={handleCloseOrderSummary} cart={cart} onPlaceOrder={handlePlaceOrder} placingOrder={placingOrder} calculateSubtotal={calculateSubtotal} calculateTax={calculateTax} getFormattedOptions={getFormattedOptions} getFormattedToppings={getFormattedToppings} restaurant={restaurant} orderType={orderType} tableNumber={tableNumber} promotions={promotions} />
     </>;
 };
 export default Cart;
\ No newline at end of file
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { Restaurant } from '@/types/database-types';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { getTranslation } from '@/utils/language-utils';
+import { addDays } from '@/utils/menu-schedule';
+import { NextOpening } from '@/utils/opening-hours';
+
+interface ClosedScreenProps {
+  restaurant: Restaurant;
+  nextOpening: NextOpening | null;
+  today: string; // "YYYY-MM-DD" on the restaurant's clock
+}
+
+const ClosedScreen: React.FC<ClosedScreenProps> = ({
+  restaurant,
+  nextOpening,
+  today
+}) => {
+  const { language: currentLanguage } = useLanguage();
+  const t = (key: string) => getTranslation(key, currentLanguage);
+
+  const formatDay = (date: string) => {
+    if (date === today) return t("closed.today");
+    if (date === addDays(today, 1)) return t("closed.tomorrow");
+
+    const [year, month, day] = date.split('-').map(Number);
+    return new Intl.DateTimeFormat(currentLanguage, {
+      weekday: 'long',
+      day: 'numeric',
+      month: 'long',
+      timeZone: 'UTC'
+    }).format(new Date(Date.UTC(year, month - 1, day)));
+  };
+
+  const renderNextOpening = () => {
+    if (!nextOpening) return null;
+
+    const day = formatDay(nextOpening.date);
+    return nextOpening.time
+      ? t("closed.reopensAt").replace("{day}", day).replace("{time}", nextOpening.time)
+      : t("closed.reopensOn").replace("{day}", day);
+  };
+
+  return <div className="fixed inset-0 flex flex-col bg-cover bg-center" style={{
+    backgroundImage: `linear-gradient(rgba(0, 0, 0, 0.6), rgba(0, 0, 0, 0.75)), url(${restaurant.image_url || "https://images.unsplash.com/photo-1571091718767-18b5b1457add?ixlib=rb-1.2.1&auto=format&fit=crop&w=1920&q=80"})`
+  }}>
+      <div className="flex-1 flex flex-col items-center justify-center px-4 text-center">
+        <h1 className="text-white font-bold mb-6 text-6xl md:text-7xl lg:text-9xl font-bebas tracking-wide">
+          {restaurant.name}
+        </h1>
+        <Clock className="h-20 w-20 text-white/80 mb-8" />
+        <p className="text-white text-3xl md:text-4xl lg:text-6xl font-inter mb-6">
+          {t("closed.title")}
+        </p>
+        <p className="text-white/80 text-xl md:text-2xl lg:text-3xl font-inter mb-4">
+          {t("closed.message")}
+        </p>
+        {nextOpening && <p className="text-white text-2xl md:text-3xl lg:text-4xl font-inter font-semibold">
+            {renderNextOpening()}
+          </p>}
+      </div>
+    </div>;
+};
+export default ClosedScreen;
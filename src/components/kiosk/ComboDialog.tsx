@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from "react";
+import { ArrowLeft, Check } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { CartComboComponent, CartItem, ComboSlotChoice, ComboWithSlots, MenuItemWithOptions } from "@/types/database-types";
+import { getTranslatedField } from "@/utils/language-utils";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { toComboMenuItem } from "@/utils/combo-utils";
+import { getComboComponentPrice, getComboUnitPrice } from "@/utils/price-utils";
+import ItemCustomizationDialog from "./ItemCustomizationDialog";
+
+interface ComboDialogProps {
+  combo: ComboWithSlots | null;
+  restaurantId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onAddToCart: (cartItem: {
+    menuItem: MenuItemWithOptions;
+    quantity: number;
+    selectedOptions: CartItem['selectedOptions'];
+    selectedToppings: CartItem['selectedToppings'];
+    specialInstructions: string;
+    itemPrice: number;
+    comboComponents: CartComboComponent[];
+  }) => void;
+  t: (key: string) => string;
+  currencySymbol: string;
+}
+
+// Builds a combo slot by slot; each pick is customized in ItemCustomizationDialog
+const ComboDialog: React.FC<ComboDialogProps> = ({
+  combo,
+  restaurantId,
+  isOpen,
+  onClose,
+  onAddToCart,
+  t,
+  currencySymbol
+}) => {
+  const { language: uiLanguage } = useLanguage();
+  const [step, setStep] = useState(0);
+  const [components, setComponents] = useState<CartComboComponent[]>([]);
+  const [picking, setPicking] = useState<ComboSlotChoice | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setStep(0);
+      setComponents([]);
+      setPicking(null);
+    }
+  }, [isOpen, combo?.id]);
+
+  if (!combo) return null;
+
+  const slot = combo.slots[step];
+  const isSummary = step >= combo.slots.length;
+
+  const handlePicked = (cartItem: {
+    menuItem: MenuItemWithOptions;
+    selectedOptions: CartItem['selectedOptions'];
+    selectedToppings: CartItem['selectedToppings'];
+    specialInstructions: string;
+  }) => {
+    if (!slot || !picking) return;
+
+    setComponents(prev => [
+      ...prev.slice(0, step),
+      {
+        slotId: slot.id,
+        slotName: slot.name,
+        menuItem: cartItem.menuItem,
+        selectedOptions: cartItem.selectedOptions,
+        selectedToppings: cartItem.selectedToppings,
+        specialInstructions: cartItem.specialInstructions.trim() || undefined,
+        upcharge: picking.upcharge
+      }
+    ]);
+    setPicking(null);
+    setStep(step + 1);
+  };
+
+  const handleAddCombo = () => {
+    onAddToCart({
+      menuItem: toComboMenuItem(combo),
+      quantity: 1,
+      selectedOptions: [],
+      selectedToppings: [],
+      specialInstructions: "",
+      itemPrice: getComboUnitPrice(combo.price, components),
+      comboComponents: components
+    });
+  };
+
+  return <>
+      <Dialog open={isOpen && !picking} onOpenChange={open => !open && !picking && onClose()}>
+        <DialogContent className="w-[85vw] max-w-[85vw] max-h-[80vh] p-4 flex flex-col select-none">
+          <DialogHeader className="pb-2">
+            <DialogTitle className="font-bold text-3xl mx-0 my-0 leading-relaxed">{getTranslatedField(combo, 'name', uiLanguage)}</DialogTitle>
+            <DialogDescription className="text-xl text-gray-800">
+              {isSummary
+                ? t("combo.summary")
+                : `${t("combo.step").replace("{current}", String(step + 1)).replace("{total}", String(combo.slots.length))} - ${slot.name}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="overflow-y-auto pr-2 flex-grow custom-scrollbar">
+            {isSummary ? <div className="space-y-3">
+                {components.map(component => {
+                  const extras = getComboComponentPrice(component);
+                  return <div key={component.slotId} className="flex justify-between items-center p-3 border rounded-md">
+                      <div>
+                        <div className="text-sm text-gray-500">{component.slotName}</div>
+                        <div className="text-xl font-medium">{getTranslatedField(component.menuItem, 'name', uiLanguage)}</div>
+                      </div>
+                      <span className="text-lg">{extras > 0 ? `+${extras.toFixed(2)} ${currencySymbol}` : t("combo.included")}</span>
+                    </div>;
+                })}
+              </div> : <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {slot.choices.map(choice => {
+                  const isSelected = components[step]?.menuItem.id === choice.menuItem.id;
+                  return <div key={choice.menuItem.id} onClick={() => setPicking(choice)} className={`
+                        border rounded-lg overflow-hidden cursor-pointer
+                        ${isSelected ? 'border-kiosk-primary bg-primary/5' : 'border-gray-200 hover:border-gray-300'}
+                      `}>
+                      <img src={choice.menuItem.image || '/placeholder.svg'} alt={choice.menuItem.name} className="w-full h-32 object-cover" />
+                      <div className="p-3 flex justify-between items-center">
+                        <span className="font-medium text-lg">{getTranslatedField(choice.menuItem, 'name', uiLanguage)}</span>
+                        {choice.upcharge > 0 && <span>+{Number(choice.upcharge).toFixed(2)} {currencySymbol}</span>}
+                        {isSelected && <Check className="h-5 w-5 text-kiosk-primary" />}
+                      </div>
+                    </div>;
+                })}
+              </div>}
+          </div>
+
+          <DialogFooter className="mt-3 pt-2">
+            <div className="w-full flex items-center gap-4">
+              <Button variant="outline" className="py-[34px] text-2xl" onClick={() => step > 0 ? setStep(step - 1) : onClose()}>
+                <ArrowLeft className="mr-2 h-6 w-6" />
+                {t("combo.back")}
+              </Button>
+              {isSummary && <Button onClick={handleAddCombo} className="flex-1 bg-kiosk-primary py-[34px] text-3xl">
+                  {t("combo.addCombo")} - {getComboUnitPrice(combo.price, components).toFixed(2)} {currencySymbol}
+                </Button>}
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {picking && <ItemCustomizationDialog
+        itemId={picking.menuItem.id}
+        restaurantId={restaurantId}
+        isOpen={!!picking}
+        onClose={() => setPicking(null)}
+        onAddToCart={handlePicked}
+        t={t}
+        currencySymbol={currencySymbol}
+        comboUpcharge={picking.upcharge}
+      />}
+    </>;
+};
+
+export default ComboDialog;
@@ -0,0 +1,62 @@
+import React from "react";
+import { Bean, Egg, Fish, Flame, Leaf, Milk, Nut, Shell, Vegan, Wheat, type LucideIcon } from "lucide-react";
+import { DietaryInfo } from "@/utils/dietary";
+
+const ALLERGEN_ICONS: Record<string, LucideIcon> = {
+  gluten: Wheat,
+  crustaceans: Shell,
+  eggs: Egg,
+  fish: Fish,
+  peanuts: Nut,
+  soybeans: Bean,
+  milk: Milk,
+  nuts: Nut,
+  molluscs: Shell
+};
+
+const TAG_ICONS: Record<string, LucideIcon> = {
+  vegan: Vegan,
+  vegetarian: Leaf
+};
+
+interface DietaryBadgesProps {
+  info: DietaryInfo;
+  t: (key: string) => string;
+  large?: boolean; // item dialog, rather than a menu card
+}
+
+// Diet tags and spicy level as badges, then the allergens the item contains
+const DietaryBadges: React.FC<DietaryBadgesProps> = ({ info, t, large = false }) => {
+  const iconSize = large ? "h-5 w-5" : "h-3.5 w-3.5";
+  // Vegetarian goes without saying for a vegan item
+  const tags = info.dietaryTags.filter(tag => tag !== 'vegetarian' || !info.dietaryTags.includes('vegan'));
+
+  if (tags.length === 0 && info.spicyLevel === 0 && info.allergens.length === 0) return null;
+
+  return <div className={`flex flex-col ${large ? 'gap-2' : 'gap-1 mt-2'}`}>
+      {(tags.length > 0 || info.spicyLevel > 0) && <div className="flex flex-wrap items-center gap-1">
+          {tags.map(tag => {
+          const Icon = TAG_ICONS[tag];
+          return <span key={tag} className={`inline-flex items-center gap-1 rounded-full bg-green-100 text-green-800 px-2 py-0.5 font-inter ${large ? 'text-base' : 'text-xs'}`}>
+                {Icon && <Icon className={iconSize} />}
+                {t(`dietary.tags.${tag}`)}
+              </span>;
+        })}
+          {info.spicyLevel > 0 && <span className="inline-flex items-center text-red-600" title={t("dietary.spicy")}>
+              {Array.from({ length: info.spicyLevel }, (_, index) => <Flame key={index} className={iconSize} />)}
+            </span>}
+        </div>}
+      {info.allergens.length > 0 && <div className={`flex flex-wrap items-center gap-1 text-gray-600 font-inter ${large ? 'text-base' : 'text-xs'}`}>
+          <span>{t("dietary.contains")}:</span>
+          {info.allergens.map(allergen => {
+          const Icon = ALLERGEN_ICONS[allergen];
+          return <span key={allergen} className="inline-flex items-center gap-0.5 rounded bg-amber-50 border border-amber-200 px-1">
+                {Icon && <Icon className={iconSize} />}
+                {t(`dietary.allergens.${allergen}`)}
+              </span>;
+        })}
+        </div>}
+    </div>;
+};
+
+export default DietaryBadges;
@@ -0,0 +1,69 @@
+import React from "react";
+import { Check, Filter, FilterX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ALLERGENS, DIETARY_TAGS, DietaryFilter, EMPTY_DIETARY_FILTER, isDietaryFilterActive } from "@/utils/dietary";
+
+interface DietaryFilterBarProps {
+  filter: DietaryFilter;
+  onChange: (filter: DietaryFilter) => void;
+  t: (key: string) => string;
+}
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const chipClass = (selected: boolean) =>
+  `rounded-full px-4 py-5 text-lg font-inter ${selected ? 'bg-kiosk-primary text-white hover:bg-kiosk-primary' : 'bg-white text-gray-800'}`;
+
+// Lets the customer hide the dishes that do not suit their diet or allergies
+const DietaryFilterBar: React.FC<DietaryFilterBarProps> = ({ filter, onChange, t }) => {
+  return <div className="flex flex-wrap items-center gap-2 px-4 mb-6 select-none">
+      <Filter className="h-5 w-5 text-gray-500" />
+      {DIETARY_TAGS.map(tag => <Button key={tag} variant="outline" className={chipClass(filter.dietaryTags.includes(tag))} onClick={() => onChange({
+      ...filter,
+      dietaryTags: toggle(filter.dietaryTags, tag)
+    })}>
+          {t(`dietary.tags.${tag}`)}
+        </Button>)}
+      <Button variant="outline" className={chipClass(filter.notSpicy)} onClick={() => onChange({
+      ...filter,
+      notSpicy: !filter.notSpicy
+    })}>
+        {t("dietary.notSpicy")}
+      </Button>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className={chipClass(filter.excludedAllergens.length > 0)}>
+            {t("dietary.allergenFilter")}
+            {filter.excludedAllergens.length > 0 && ` (${filter.excludedAllergens.length})`}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[420px] p-3" align="start">
+          <p className="mb-2 text-sm text-gray-600">{t("dietary.allergenFilterHint")}</p>
+          <div className="grid grid-cols-2 gap-2">
+            {ALLERGENS.map(allergen => {
+            const selected = filter.excludedAllergens.includes(allergen);
+            return <button key={allergen} type="button" className={`flex items-center gap-2 rounded-md border p-2 text-left ${selected ? 'border-kiosk-primary bg-primary/5' : 'border-gray-200'}`} onClick={() => onChange({
+              ...filter,
+              excludedAllergens: toggle(filter.excludedAllergens, allergen)
+            })}>
+                  <span className={`flex h-5 w-5 items-center justify-center rounded ${selected ? 'bg-kiosk-primary text-white' : 'border border-gray-300'}`}>
+                    {selected && <Check className="h-3 w-3" />}
+                  </span>
+                  {t(`dietary.allergens.${allergen}`)}
+                </button>;
+          })}
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {isDietaryFilterActive(filter) && <Button variant="ghost" className="text-lg py-5" onClick={() => onChange(EMPTY_DIETARY_FILTER)}>
+          <FilterX className="mr-2 h-5 w-5" />
+          {t("dietary.clearFilters")}
+        </Button>}
+    </div>;
+};
+
+export default DietaryFilterBar;
@@ -10,6 +10,10 @@ import { useLanguage } from "@/contexts/LanguageContext";
 import { useOptimizedMenuItemDetails } from "@/hooks/useOptimizedMenuItemDetails";
 import { useOptimizedItemCustomization } from "@/hooks/useOptimizedItemCustomization";
 import { canSelectTopping, shouldShowToppingCategory } from "@/utils/topping-utils";
+import { getDietaryInfo } from "@/utils/dietary";
+import { formatCalories, getItemNutrition, getSelectedToppingUnits } from "@/utils/nutrition";
+import { getLowStockCount, getMaxOrderable } from "@/utils/stock";
+import DietaryBadges from "./DietaryBadges";
 import { OptimizedLoadingDialog } from "./OptimizedLoadingDialog";
 import { trackDialogOpen, trackDialogDataLoaded, trackDialogRender } from "@/utils/performance-monitor";
 import { toast } from "sonner";
@@ -30,6 +34,7 @@ interface ItemCustomizationDialogProps {
   t: (key: string) => string;
   currencySymbol: string;
   itemDetails?: MenuItemWithOptions | null; // Optional pre-fetched item details
+  comboUpcharge?: number; // set when picking the item for a combo slot: one unit, priced as what it adds to the combo
 }
 
 // Define alternating background colors for topping categories
@@ -175,6 +180,8 @@ const ToppingCategory = memo(({
         {sortedToppings.map(topping => {
           const isSelected = selectedCategory?.toppingIds.includes(topping.id) || false;
           const quantity = toppingQuantities[topping.id] || 0;
+          const lowStockCount = getLowStockCount(topping);
+          const atStockLimit = quantity >= (getMaxOrderable(topping) ?? Infinity);
           const buttonSize = "h-10 w-10"; // Same size for both states
           
           // Check if this topping can be selected (considering max_selections limit)
@@ -207,6 +214,9 @@ const ToppingCategory = memo(({
           >
               <span className={`flex-1 mr-2 ${isSelected ? 'text-green-700 font-medium' : ''}`}>
                 {getTranslatedField(topping, 'name', uiLanguage)}
+                {lowStockCount !== null && <span className="block text-xs font-semibold text-orange-600">
+                    {t("stock.onlyLeft").replace("{count}", String(lowStockCount))}
+                  </span>}
               </span>
               <div className="flex items-center gap-1 flex-shrink-0 whitespace-nowrap">
                 {topping.price > 0 && <span className="text-sm">
@@ -238,6 +248,7 @@ const ToppingCategory = memo(({
                         variant="outline" 
                         size="icon" 
                         className="h-8 w-8 rounded-full bg-violet-700 text-white hover:bg-violet-600 p-0"
+                        disabled={atStockLimit}
                         onClick={(e) => {
                           e.stopPropagation();
                           // Increment quantity
@@ -315,7 +326,8 @@ const ItemCustomizationDialog: React.FC<ItemCustomizationDialogProps> = ({
   onAddToCart,
   t,
   currencySymbol,
-  itemDetails: providedItemDetails
+  itemDetails: providedItemDetails,
+  comboUpcharge
 }) => {
   
   
@@ -582,15 +594,30 @@ const ItemCustomizationDialog: React.FC<ItemCustomizationDialogProps> = ({
     handleQuantityChange(quantity - 1);
   }, [quantity, handleQuantityChange]);
   
+  // Tracked items cannot be ordered beyond what is left
+  const maxQuantity = getMaxOrderable(itemDetails);
   const handleQuantityIncrease = useCallback(() => {
+    if (maxQuantity !== undefined && quantity >= maxQuantity) return;
     handleQuantityChange(quantity + 1);
-  }, [quantity, handleQuantityChange]);
+  }, [quantity, maxQuantity, handleQuantityChange]);
+
+  // Allergens, diet and nutrition of the item as customised so far
+  const dietaryInfo = getDietaryInfo(itemDetails, getSelectedToppingUnits(itemDetails, selectedToppings).map(unit => unit.topping));
+  const nutrition = getItemNutrition(itemDetails, selectedToppings);
+  const nutritionUnits = comboUpcharge !== undefined ? 1 : quantity;
   
   return <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
       <DialogContent className="w-[85vw] max-w-[85vw] max-h-[80vh] p-4 flex flex-col select-none">
         <DialogHeader className="pb-2">
           <DialogTitle className="font-bold text-3xl mx-0 my-0 leading-relaxed">{getTranslatedField(itemDetails, 'name', uiLanguage)}</DialogTitle>
           {itemDetails.description && <DialogDescription className="text-xl text-gray-800">{getTranslatedField(itemDetails, 'description', uiLanguage)}</DialogDescription>}
+          <DietaryBadges info={dietaryInfo} t={t} large />
+          {nutrition && <div className="text-base text-gray-700 font-inter">
+              <span className="font-bold">{formatCalories(nutrition.calories * nutritionUnits)}</span>
+              {` · ${t("nutrition.protein")} ${Math.round(nutrition.protein * nutritionUnits)} g · ${t("nutrition.carbohydrates")} ${Math.round(nutrition.carbohydrates * nutritionUnits)} g · ${t("nutrition.fat")} ${Math.round(nutrition.fat * nutritionUnits)} g`}
+              {itemDetails.portion_size && ` · ${t("nutrition.portion")} ${itemDetails.portion_size}`}
+              {nutritionUnits > 1 && ` (${t("nutrition.forQuantity").replace("{quantity}", String(nutritionUnits))})`}
+            </div>}
         </DialogHeader>
         
         <div ref={scrollContainerRef} className="space-y-4 overflow-y-auto pr-2 flex-grow select-none custom-scrollbar">
@@ -644,20 +671,24 @@ const ItemCustomizationDialog: React.FC<ItemCustomizationDialogProps> = ({
         </div>
         
         <DialogFooter className="mt-3 pt-2">
-          <div className="w-full flex items-center">
+          {comboUpcharge !== undefined ? <Button onClick={handleAddToCart} className="w-full bg-kiosk-primary py-[34px] text-3xl">
+              {t("combo.choose")}
+              {/* Only the upcharge and extras are added to the bundle price */}
+              {comboUpcharge + calculatePrice() - Number(itemDetails.price) > 0 && ` - +${(comboUpcharge + calculatePrice() - Number(itemDetails.price)).toFixed(2)} ${currencySymbol}`}
+            </Button> : <div className="w-full flex items-center">
             <div className="flex items-center mr-4">
               <Button className="h-12 w-12 text-3xl flex items-center justify-center rounded-full bg-violet-800 hover:bg-violet-700 text-white" onClick={handleQuantityDecrease}>
                 <Minus className="h-6 w-6" />
               </Button>
               <span className="font-medium text-2xl min-w-[40px] text-center">{quantity}</span>
-              <Button className="h-12 w-12 text-3xl flex items-center justify-center rounded-full bg-violet-800 hover:bg-violet-700 text-white" onClick={handleQuantityIncrease}>
+              <Button className="h-12 w-12 text-3xl flex items-center justify-center rounded-full bg-violet-800 hover:bg-violet-700 text-white" onClick={handleQuantityIncrease} disabled={maxQuantity !== undefined && quantity >= maxQuantity}>
                 <Plus className="h-6 w-6" />
               </Button>
             </div>
             <Button onClick={handleAddToCart} className="flex-1 bg-kiosk-primary py-[34px] text-3xl">
               {t("addToCart")} - {(calculatePrice() * quantity).toFixed(2)} {currencySymbol}
             </Button>
-          </div>
+          </div>}
         </DialogFooter>
       </DialogContent>
     </Dialog>;
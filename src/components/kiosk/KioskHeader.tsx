@@ -1,6 +1,6 @@
 
 import React from "react";
-import { Clock, Database, ArrowLeft } from "lucide-react";
+import { Clock, Database, ArrowLeft, CloudOff } from "lucide-react";
 import { Restaurant, OrderType } from "@/types/database-types";
 import { Button } from "@/components/ui/button";
 import { LanguageSelector } from "./LanguageSelector";
@@ -12,6 +12,9 @@ interface KioskHeaderProps {
   t: (key: string) => string;
   onRefresh?: () => void;
   onBack?: () => void;
+  pendingSyncCount?: number;
+  failedSyncCount?: number;
+  onRetrySync?: () => void;
 }
 
 const KioskHeader: React.FC<KioskHeaderProps> = ({
@@ -20,7 +23,10 @@ const KioskHeader: React.FC<KioskHeaderProps> = ({
   tableNumber,
   t,
   onRefresh,
-  onBack
+  onBack,
+  pendingSyncCount = 0,
+  failedSyncCount = 0,
+  onRetrySync
 }) => {
   return (
     <div className="h-full w-full bg-cover bg-center relative" style={{
@@ -46,6 +52,18 @@ const KioskHeader: React.FC<KioskHeaderProps> = ({
       
       {/* Controls in top right corner */}
       <div className="absolute top-4 right-4 z-10 flex items-center gap-2">
+        {/* Orders taken offline that have not reached the server yet */}
+        {pendingSyncCount + failedSyncCount > 0 && (
+          <button
+            type="button"
+            className={`inline-flex items-center gap-1 rounded-full px-3 py-1 text-xs font-semibold text-white ${failedSyncCount > 0 ? 'bg-red-600' : 'bg-amber-500'}`}
+            onClick={failedSyncCount > 0 ? onRetrySync : undefined}
+            aria-label={t("pendingSync")}
+          >
+            <CloudOff className="h-3 w-3" />
+            <span>{t("pendingSync")}: {pendingSyncCount + failedSyncCount}</span>
+          </button>
+        )}
         <LanguageSelector className="bg-white/20 text-white hover:bg-white/30 border-white/30" />
         {onRefresh && (
           <Button 
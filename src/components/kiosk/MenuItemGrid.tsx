@@ -9,6 +9,11 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useLanguage } from '@/contexts/LanguageContext';
 import { MenuItemPreloader } from './MenuItemPreloader';
+import DietaryBadges from './DietaryBadges';
+import DietaryFilterBar from './DietaryFilterBar';
+import { DietaryFilter, getDietaryInfo, isDietaryFilterActive, matchesDietaryFilter } from "@/utils/dietary";
+import { formatCalories } from "@/utils/nutrition";
+import { getLowStockCount, isAvailableToOrder } from "@/utils/stock";
 
 interface MenuItemGridProps {
   items: MenuItem[];
@@ -19,6 +24,8 @@ interface MenuItemGridProps {
   refreshTrigger?: number;
   categories: MenuCategory[];
   activeCategory?: string;
+  dietaryFilter?: DietaryFilter;
+  onDietaryFilterChange?: (filter: DietaryFilter) => void; // shows the filter bar
 }
 
 // Function to check if a menu item is available based on time constraints
@@ -98,6 +105,8 @@ const MenuItemCard = memo(({
     return calculatePromotionPercentage(parseFloat(item.price.toString()), parseFloat(item.promotion_price.toString()));
   }, [item.price, item.promotion_price]);
   const unavailableText = getTranslation('menuItem.unavailable', uiLanguage);
+  const dietaryInfo = useMemo(() => getDietaryInfo(item), [item]);
+  const lowStockCount = getLowStockCount(item);
   const hasPromotion = item.promotion_price && parseFloat(item.promotion_price.toString()) > 0 && parseFloat(item.promotion_price.toString()) < parseFloat(item.price.toString());
   return <Card className={`overflow-hidden hover:shadow-md transition-shadow select-none ${currentAvailabilityStatus ? 'cursor-pointer' : 'cursor-not-allowed'}`} onClick={handleItemClick}>
       <div className="h-40 bg-cover bg-center relative select-none" style={{
@@ -132,6 +141,13 @@ const MenuItemCard = memo(({
             <p className="text-sm text-gray-500 mt-1 line-clamp-2 font-inter">{description}</p>
           );
         })()}
+        {item.calories !== null && item.calories !== undefined && <p className="text-sm text-gray-600 mt-1 font-inter">
+            {formatCalories(Number(item.calories))}{item.portion_size && ` · ${item.portion_size}`}
+          </p>}
+        <DietaryBadges info={dietaryInfo} t={t} />
+        {lowStockCount !== null && <p className="text-sm font-semibold text-orange-600 mt-1 font-inter">
+            {t("stock.onlyLeft").replace("{count}", String(lowStockCount))}
+          </p>}
         {currentAvailabilityStatus ? <Button className="w-full mt-4 bg-kiosk-primary text-xl py-[25px] px-0 font-bebas tracking-wide">
             {t("addToCart")}
             <ChevronRight className="h-4 w-4 ml-2" />
@@ -150,7 +166,9 @@ MenuItemCard.displayName = 'MenuItemCard';
   restaurantId,
   refreshTrigger,
   categories,
-  activeCategory
+  activeCategory,
+  dietaryFilter,
+  onDietaryFilterChange
 }) => {
   const { language: uiLanguage } = useLanguage();
   const {
@@ -166,6 +184,8 @@ MenuItemCard.displayName = 'MenuItemCard';
   const isPreloadingRef = useRef<boolean>(false);
   const availabilityTimerRef = useRef<number | null>(null);
   const realtimeChannelRef = useRef<any>(null);
+  // Stock counts pushed by realtime since the menu was loaded
+  const [liveStock, setLiveStock] = useState<Record<string, Pick<MenuItem, 'in_stock' | 'stock_quantity' | 'ingredients_available'>>>({});
 
   // Group items by category
   const itemsByCategory = useMemo(() => {
@@ -177,12 +197,16 @@ MenuItemCard.displayName = 'MenuItemCard';
       grouped[category.id] = [];
     });
 
-    // Add all in-stock items to their respective category groups
-    items.filter(item => item.in_stock).forEach(item => {
-      if (grouped[item.category_id]) {
-        grouped[item.category_id].push(item);
-      }
-    });
+    // Add all in-stock items matching the customer's diet to their respective category groups,
+    // with the latest stock counts
+    items
+      .map(item => liveStock[item.id] ? { ...item, ...liveStock[item.id] } : item)
+      .filter(item => isAvailableToOrder(item) && (!dietaryFilter || matchesDietaryFilter(item, dietaryFilter)))
+      .forEach(item => {
+        if (grouped[item.category_id]) {
+          grouped[item.category_id].push(item);
+        }
+      });
 
     // Sort items by display_order within each category
     Object.keys(grouped).forEach(categoryId => {
@@ -193,7 +217,10 @@ MenuItemCard.displayName = 'MenuItemCard';
       });
     });
     return grouped;
-  }, [items, categories]);
+  }, [items, categories, dietaryFilter, liveStock]);
+
+  // While filtering, categories left without items are hidden
+  const isFiltering = !!dietaryFilter && isDietaryFilterActive(dietaryFilter);
 
   // Sort categories by putting the active category first, then by display_order
   const sortedCategories = useMemo(() => {
@@ -275,6 +302,18 @@ MenuItemCard.displayName = 'MenuItemCard';
           [updatedItem.id]: isItemAvailable(updatedItem)
         }));
 
+        setLiveStock(prev => ({
+          ...prev,
+          [updatedItem.id]: {
+            in_stock: updatedItem.in_stock,
+            stock_quantity: updatedItem.stock_quantity,
+            ingredients_available: updatedItem.ingredients_available
+          }
+        }));
+
+        // Tracked items are updated by every order, too often to announce
+        if (updatedItem.stock_quantity !== null && updatedItem.stock_quantity !== undefined) return;
+
         // Toast notification for debugging
         toast({
           title: "Menu item updated",
@@ -519,8 +558,17 @@ MenuItemCard.displayName = 'MenuItemCard';
         enabled={Boolean(restaurantId)}
       />
       
+      {onDietaryFilterChange && dietaryFilter && (
+        <DietaryFilterBar filter={dietaryFilter} onChange={onDietaryFilterChange} t={t} />
+      )}
+
       <div className="space-y-8 pb-20">
-        {sortedCategories.map(category => (
+        {isFiltering && sortedCategories.every(category => !itemsByCategory[category.id]?.length) && (
+          <div className="py-8 text-center text-gray-500 font-inter text-xl">
+            {t("dietary.noMatch")}
+          </div>
+        )}
+        {sortedCategories.filter(category => !isFiltering || itemsByCategory[category.id]?.length > 0).map(category => (
           <div key={category.id} id={`category-${category.id}`} className="scroll-mt-20 pt-0 py-0">
             <h2 className="text-2xl font-bebas mb-4 border-b pb-2 tracking-wide pl-4">
               {getTranslatedField(category, 'name', uiLanguage)}
@@ -3,13 +3,14 @@ import React, { useEffect, useState } from "react";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Check, Clock, Receipt, Printer } from "lucide-react";
-import { CartItem } from "@/types/database-types";
+import { CartItem, Promotion } from "@/types/database-types";
 import { calculateCartTotals } from "@/utils/price-utils";
-import { printReceipt } from "@/utils/print-utils";
-import { generatePlainTextReceipt } from "@/utils/receipt-templates";
+import { printReceipt, printHTML, encodePrintContent } from "@/utils/print-utils";
+import { createReceiptTranslator } from "@/utils/receipt-templates";
+import { DEFAULT_RECEIPT_TEMPLATE, renderReceipt } from "@/utils/receipt-renderer";
+import { buildStationPrintJobs, getReceiptTemplate, getPrintSettings, enqueuePrintJobs, NewPrintJob } from "@/services/kiosk-service";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
-import { supabase } from "@/integrations/supabase/client";
 import OrderReceipt from "./OrderReceipt";
 import { useTranslation, SupportedLanguage } from "@/utils/language-utils";
 import { useLanguage } from "@/contexts/LanguageContext";
@@ -19,18 +20,25 @@ interface OrderConfirmationDialogProps {
   onClose: () => void;
   cart: CartItem[];
   orderNumber: string;
+  orderId?: string | null; // null while the order waits in the offline queue
   restaurant: {
     id?: string;
     name: string;
     location?: string;
     currency?: string;
     ui_language?: string;
+    logo_url?: string | null;
+    prices_include_tax?: boolean;
+    timezone?: string;
   } | null;
   orderType: "dine-in" | "takeaway" | null;
   tableNumber: string | null;
   
   getFormattedOptions: (item: CartItem) => string;
   getFormattedToppings: (item: CartItem) => string;
+  pendingSync?: boolean; // order is waiting in the offline queue, orderNumber is provisional
+  paid?: boolean; // paid by card on the kiosk, nothing left to collect at the counter
+  promotions?: Promotion[];
 }
 
 const OrderConfirmationDialog: React.FC<OrderConfirmationDialogProps> = ({
@@ -38,11 +46,15 @@ const OrderConfirmationDialog: React.FC<OrderConfirmationDialogProps> = ({
   onClose,
   cart,
   orderNumber,
+  orderId = null,
   restaurant,
   orderType,
   tableNumber,
   getFormattedOptions,
-  getFormattedToppings
+  getFormattedToppings,
+  pendingSync = false,
+  paid = false,
+  promotions = []
 }) => {
   const { language: uiLanguage } = useLanguage();
   const restaurantLanguage = (restaurant?.ui_language as SupportedLanguage) || 'fr';
@@ -54,11 +66,12 @@ const OrderConfirmationDialog: React.FC<OrderConfirmationDialogProps> = ({
   const [countdown, setCountdown] = useState(10);
   const [isPrinting, setIsPrinting] = useState(false);
   const [hasPrinted, setHasPrinted] = useState(false);
-  const {
-    total,
-    subtotal,
-    tax
-  } = calculateCartTotals(cart);
+  const totals = calculateCartTotals(cart, {
+    orderType,
+    pricesIncludeTax: restaurant?.prices_include_tax,
+    promotions,
+    timezone: restaurant?.timezone
+  });
 
   // Currency symbol helper
   const CURRENCY_SYMBOLS: Record<string, string> = {
@@ -113,19 +126,47 @@ const OrderConfirmationDialog: React.FC<OrderConfirmationDialogProps> = ({
     try {
       setIsPrinting(true);
 
+      // Offline: the print configuration cannot be fetched, print locally
+      if (pendingSync) {
+        if (!isMobile) {
+          setTimeout(() => {
+            try {
+              printReceipt('receipt-content');
+            } catch (printError) {
+              console.error("Error during browser printing");
+            }
+            setIsPrinting(false);
+            setHasPrinted(true);
+          }, 500);
+        } else {
+          setIsPrinting(false);
+        }
+        return;
+      }
+
       // Fetch print configuration
-      const {
-        data: printConfig,
-        error
-      } = await supabase.from('restaurant_print_config').select('api_key, configured_printers, browser_printing_enabled').eq('restaurant_id', restaurant.id).single();
-      if (error) {
+      const printConfig = await getPrintSettings(restaurant.id).catch(() => null);
+      if (!printConfig) {
         console.error("Error fetching print configuration");
         setIsPrinting(false);
         return;
       }
 
+      // The restaurant's receipt layout, used by both browser and PrintNode output
+      const template = await getReceiptTemplate(restaurant.id).catch(() => null);
+      const renderedReceipt = renderReceipt(template || DEFAULT_RECEIPT_TEMPLATE, {
+        restaurant,
+        cart,
+        orderType,
+        tableNumber,
+        orderNumber,
+        totals,
+        t: receiptTranslation,
+        uiLanguage: restaurantLanguage
+      });
+
       // Handle browser printing
-      const shouldUseBrowserPrinting = !isMobile && (printConfig === null || printConfig.browser_printing_enabled !== false);
+      const shouldUseBrowserPrinting = !isMobile && printConfig.browser_printing_enabled !== false;
       if (shouldUseBrowserPrinting) {
         console.log("Using browser printing for receipt");
         toast({
@@ -134,7 +175,7 @@ const OrderConfirmationDialog: React.FC<OrderConfirmationDialogProps> = ({
         });
         setTimeout(() => {
           try {
-            printReceipt('receipt-content');
+            printHTML(renderedReceipt.html);
             console.log("Print receipt triggered successfully");
           } catch (printError) {
             console.error("Error during browser printing");
@@ -151,25 +192,9 @@ const OrderConfirmationDialog: React.FC<OrderConfirmationDialogProps> = ({
         console.log("Browser printing disabled for this device or restaurant");
       }
 
-      // Handle PrintNode printing (if configured)
-      if (printConfig?.api_key && printConfig?.configured_printers) {
-        const printerArray = Array.isArray(printConfig.configured_printers) ? printConfig.configured_printers : [];
-        const printerIds = printerArray.map(id => String(id));
-        if (printerIds.length > 0) {
-          await sendReceiptToPrintNode(printConfig.api_key, printerIds, {
-            restaurant,
-            cart,
-            orderNumber,
-            tableNumber,
-            orderType,
-            subtotal,
-            tax,
-            total,
-            getFormattedOptions,
-            getFormattedToppings,
-            uiLanguage: restaurantLanguage
-          });
-        }
+      // Handle PrintNode printing (if configured): jobs are queued and sent server side
+      if (printConfig.printnode_configured) {
+        await queuePrintNodeJobs(printConfig.configured_printers, renderedReceipt.escpos);
         setIsPrinting(false);
         setHasPrinted(true);
       }
@@ -184,85 +209,41 @@ const OrderConfirmationDialog: React.FC<OrderConfirmationDialogProps> = ({
     }
   };
   
-  const sendReceiptToPrintNode = async (apiKey: string, printerIds: string[], orderData: {
-    restaurant: typeof restaurant;
-    cart: CartItem[];
-    orderNumber: string;
-    tableNumber?: string | null;
-    orderType: "dine-in" | "takeaway" | null;
-    subtotal: number;
-    tax: number;
-    total: number;
-    getFormattedOptions: (item: CartItem) => string;
-    getFormattedToppings: (item: CartItem) => string;
-    uiLanguage?: SupportedLanguage;
-  }) => {
+  const receiptTranslation = createReceiptTranslator(restaurantLanguage);
+
+  // Customer printers get the full receipt, each kitchen station printer only the
+  // items of the categories routed to it
+  const queuePrintNodeJobs = async (printerIds: string[], receipt: string) => {
+    if (!restaurant?.id) return;
     try {
-      // Generate receipt content using restaurant's default language
-      const receiptContent = generatePlainTextReceipt(
-        orderData.cart,
-        orderData.restaurant,
-        orderData.orderType,
-        orderData.tableNumber,
-        orderData.orderNumber,
-        orderData.restaurant?.currency?.toUpperCase() || 'EUR',
-        orderData.total,
-        orderData.subtotal,
-        orderData.tax,
-        10,
-        (key) => {
-          // Simple translation function for the receipt using restaurant language
-          const translations: Record<string, string> = {
-            'receipt.orderNumber': restaurantLanguage === 'fr' ? 'Commande No' : restaurantLanguage === 'tr' ? 'Sipariş No' : 'Order No',
-            'receipt.orderType': restaurantLanguage === 'fr' ? 'Type de commande' : restaurantLanguage === 'tr' ? 'Sipariş Tipi' : 'Order Type',
-            'receipt.dineIn': restaurantLanguage === 'fr' ? 'Sur place' : restaurantLanguage === 'tr' ? 'Masa Servisi' : 'Dine In',
-            'receipt.takeaway': restaurantLanguage === 'fr' ? 'À emporter' : restaurantLanguage === 'tr' ? 'Paket Servisi' : 'Takeaway',
-            'receipt.tableNumber': restaurantLanguage === 'fr' ? 'Table No' : restaurantLanguage === 'tr' ? 'Masa No' : 'Table No',
-            'receipt.subtotal': restaurantLanguage === 'fr' ? 'Sous-total' : restaurantLanguage === 'tr' ? 'Ara Toplam' : 'Subtotal',
-            'receipt.vat': restaurantLanguage === 'fr' ? 'TVA' : restaurantLanguage === 'tr' ? 'KDV' : 'VAT',
-            'receipt.total': restaurantLanguage === 'fr' ? 'Total' : restaurantLanguage === 'tr' ? 'Toplam' : 'Total',
-            'receipt.thankYou': restaurantLanguage === 'fr' ? 'Merci pour votre visite!' : restaurantLanguage === 'tr' ? 'Ziyaretiniz için teşekkürler!' : 'Thank you for your visit!',
-            'receipt.specialInstructions': restaurantLanguage === 'fr' ? 'Instructions spéciales' : restaurantLanguage === 'tr' ? 'Özel Talimatlar' : 'Special Instructions'
-          };
-          return translations[key] || key;
-        },
-        restaurantLanguage
-      );
+      const receiptContent = encodePrintContent(receipt);
 
-      // Encode content for sending
-      const textEncoder = new TextEncoder();
-      const encodedBytes = textEncoder.encode(receiptContent);
-      const encodedContent = btoa(Array.from(encodedBytes).map(byte => String.fromCharCode(byte)).join(''));
-      
-      console.log(`Sending receipt to ${printerIds.length} configured printers`);
-      
-      for (const printerId of printerIds) {
-        console.log(`Sending to printer ID: ${printerId}`);
-        
-        // Make secure API call
-        const response = await fetch('https://api.printnode.com/printjobs', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Basic ${btoa(apiKey + ':')}`
-          },
-          body: JSON.stringify({
-            printer: parseInt(printerId, 10) || printerId,
-            title: `Order #${orderData.orderNumber}`,
-            contentType: "raw_base64",
-            content: encodedContent,
-            source: "Restaurant Kiosk"
-          })
-        });
-        
-        if (!response.ok) {
-          throw new Error(`Error sending print job: ${response.status}`);
-        } else {
-          console.log(`Print receipt sent successfully`);
-        }
-      }
+      const jobs: NewPrintJob[] = printerIds.map(printerId => ({
+        restaurant_id: restaurant.id,
+        order_id: orderId,
+        job_type: 'receipt',
+        printer_id: printerId,
+        title: `Order #${orderNumber}`,
+        content_base64: receiptContent
+      }));
+
+      jobs.push(...await buildStationPrintJobs({
+        restaurantId: restaurant.id,
+        orderId,
+        orderNumber,
+        cart,
+        orderType,
+        tableNumber,
+        language: restaurantLanguage
+      }));
+
+      if (jobs.length === 0) return;
+
+      console.log(`Queuing ${jobs.length} print jobs`);
+      // The scheduled print-worker run sends them; kiosks are not allowed to trigger it
+      await enqueuePrintJobs(jobs);
     } catch (error) {
-      console.error("Error sending receipt to printer");
+      console.error("Error queuing print jobs");
     }
   };
   
@@ -294,14 +275,14 @@ const OrderConfirmationDialog: React.FC<OrderConfirmationDialogProps> = ({
           {/* Payment Section */}
           <div className="bg-blue-50 p-4 rounded-lg w-full">
             <h3 className="font-bold text-blue-800 mb-2 text-3xl">
-              {t("orderConfirmation.payNow")}
+              {paid ? t("orderConfirmation.paid") : t("orderConfirmation.payNow")}
             </h3>
-            <p className="text-xl">{t("orderConfirmation.paymentInstructions")}</p>
+            <p className="text-xl">{paid ? t("orderConfirmation.paidMessage") : t("orderConfirmation.paymentInstructions")}</p>
             
             <div className="mt-4 space-y-2">
               <div className="flex justify-between font-semibold">
                 <span>{t("orderConfirmation.total")}:</span>
-                <span>{total.toFixed(2)} {getCurrencySymbol(restaurant?.currency)}</span>
+                <span>{totals.total.toFixed(2)} {getCurrencySymbol(restaurant?.currency)}</span>
               </div>
               <div className="flex justify-between font-semibold">
                 <span>{t("orderConfirmation.orderNumber")}:</span>
@@ -310,12 +291,22 @@ const OrderConfirmationDialog: React.FC<OrderConfirmationDialogProps> = ({
             </div>
           </div>
           
+          {pendingSync && (
+            <div className="bg-amber-50 p-3 rounded-md w-full">
+              <p className="text-sm text-amber-800">
+                {t("orderConfirmation.pendingSync")}
+              </p>
+            </div>
+          )}
+
           {/* Warning */}
-          <div className="bg-yellow-50 p-3 rounded-md w-full">
-            <p className="text-sm text-yellow-800">
-              {t("orderConfirmation.preparationWarning")}
-            </p>
-          </div>
+          {!paid && (
+            <div className="bg-yellow-50 p-3 rounded-md w-full">
+              <p className="text-sm text-yellow-800">
+                {t("orderConfirmation.preparationWarning")}
+              </p>
+            </div>
+          )}
           
           {/* Thank You Message */}
           <p className="font-medium">{t("orderConfirmation.thankYou")}</p>
@@ -329,7 +320,7 @@ const OrderConfirmationDialog: React.FC<OrderConfirmationDialogProps> = ({
       </DialogContent>
 
       {/* Hidden Receipt Component for Printing */}
-      <OrderReceipt restaurant={restaurant} cart={cart} orderNumber={orderNumber} tableNumber={tableNumber} orderType={orderType} getFormattedOptions={getFormattedOptions} getFormattedToppings={getFormattedToppings} uiLanguage={restaurantLanguage} />
+      <OrderReceipt restaurant={restaurant} cart={cart} orderNumber={orderNumber} tableNumber={tableNumber} orderType={orderType} getFormattedOptions={getFormattedOptions} getFormattedToppings={getFormattedToppings} uiLanguage={restaurantLanguage} pendingSync={pendingSync} promotions={promotions} />
     </Dialog>;
 };
 
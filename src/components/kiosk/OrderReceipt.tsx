@@ -1,7 +1,8 @@
 import React from "react";
-import { CartItem } from "@/types/database-types";
+import { CartItem, Promotion } from "@/types/database-types";
 import { format } from "date-fns";
 import { calculateCartTotals } from "@/utils/price-utils";
+import { expandComboComponents } from "@/utils/combo-utils";
 import { getGroupedToppings, ToppingWithQuantity } from "@/utils/receipt-templates";
 import { useTranslation, SupportedLanguage, getTranslatedField } from "@/utils/language-utils";
 
@@ -39,6 +40,8 @@ interface OrderReceiptProps {
     location?: string;
     currency?: string;
     ui_language?: string;
+    prices_include_tax?: boolean;
+    timezone?: string;
   };
   cart: CartItem[];
   orderNumber: string;
@@ -47,6 +50,8 @@ interface OrderReceiptProps {
   getFormattedOptions: (item: CartItem) => string;
   getFormattedToppings: (item: CartItem) => string;
   uiLanguage?: SupportedLanguage;
+  pendingSync?: boolean;
+  promotions?: Promotion[];
 }
 
 const OrderReceipt: React.FC<OrderReceiptProps> = ({
@@ -58,8 +63,15 @@ const OrderReceipt: React.FC<OrderReceiptProps> = ({
   getFormattedOptions,
   getFormattedToppings,
   uiLanguage = "fr",
+  pendingSync = false,
+  promotions = [],
 }) => {
-  const { total, subtotal, tax } = calculateCartTotals(cart);
+  const { total, subtotal, rates, promotions: appliedPromotions } = calculateCartTotals(cart, {
+    orderType,
+    pricesIncludeTax: restaurant.prices_include_tax,
+    promotions,
+    timezone: restaurant.timezone
+  });
   const currentDate = format(new Date(), "dd/MM/yyyy HH:mm");
   
   const { t } = useTranslation(uiLanguage);
@@ -77,6 +89,7 @@ const OrderReceipt: React.FC<OrderReceiptProps> = ({
             {t("receipt.order")} #{orderNumber}
           </div>
         </div>
+        {pendingSync && <div style={{ fontWeight: "bold" }}>{t("receipt.pendingSync")}</div>}
         {orderType === "dine-in" && <div>{t("receipt.dineIn")}</div>}
         {orderType === "takeaway" && <div>{t("receipt.takeaway")}</div>}
       </div>
@@ -131,6 +144,20 @@ const OrderReceipt: React.FC<OrderReceiptProps> = ({
                 })}
               </div>
             )}
+            {/* Combo components, listed under the combo line */}
+            {item.comboComponents && (
+              <div className="item-details text-xs">
+                {expandComboComponents([item]).map(component => {
+                  const details = [getFormattedOptions(component), getFormattedToppings(component)].filter(Boolean).join(", ");
+                  return (
+                    <div key={component.id} className="item">
+                      <span>- {sanitizeText(getTranslatedField(component.menuItem, 'name', uiLanguage))}{details && ` (${sanitizeText(details)})`}</span>
+                      <span></span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
           </div>
         ))}
       </div>
@@ -138,14 +165,22 @@ const OrderReceipt: React.FC<OrderReceiptProps> = ({
       <div className="divider"></div>
 
       <div className="total-section">
+        {appliedPromotions.map(promotion => (
+          <div key={promotion.promotion_id} className="total-line">
+            <span>{sanitizeText(promotion.name)}</span>
+            <span>-{promotion.amount.toFixed(2)} {currencySymbol}</span>
+          </div>
+        ))}
         <div className="total-line">
           <span>{t("receipt.subtotal")}</span>
           <span>{subtotal.toFixed(2)} {currencySymbol}</span>
         </div>
-        <div className="total-line">
-          <span>{t("receipt.vat")}</span>
-          <span>{tax.toFixed(2)} {currencySymbol}</span>
-        </div>
+        {rates.map(rate => (
+          <div key={rate.rate} className="total-line">
+            <span>{t("receipt.vat")} {rate.rate}%</span>
+            <span>{rate.tax.toFixed(2)} {currencySymbol}</span>
+          </div>
+        ))}
         <div className="divider"></div>
         <div className="total-line grand-total">
           <span>{t("receipt.total")}</span>
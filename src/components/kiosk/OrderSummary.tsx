@@ -4,8 +4,9 @@ import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { ArrowLeft, Check } from "lucide-react";
-import { CartItem } from "@/types/database-types";
-import { calculateCartTotals } from "@/utils/price-utils";
+import { CartItem, Promotion } from "@/types/database-types";
+import { calculateCartTotals, getComboComponentPrice } from "@/utils/price-utils";
+import { expandComboComponents } from "@/utils/combo-utils";
 import { getGroupedToppings, ToppingWithQuantity } from "@/utils/receipt-templates";
 import { useTranslation, SupportedLanguage, getTranslatedField } from "@/utils/language-utils";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -44,9 +45,12 @@ interface OrderSummaryProps {
     location?: string;
     currency?: string;
     ui_language?: string;
+    prices_include_tax?: boolean;
+    timezone?: string;
   } | null;
   orderType?: "dine-in" | "takeaway" | null;
   tableNumber?: string | null;
+  promotions?: Promotion[];
   uiLanguage?: SupportedLanguage;
 }
 
@@ -61,6 +65,8 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({
   restaurant = {
     name: "Restaurant"
   },
+  orderType = null,
+  promotions = [],
   uiLanguage: propUiLanguage
 }) => {
   const { language: contextLanguage } = useLanguage();
@@ -71,8 +77,14 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({
   const {
     total,
     subtotal,
-    tax
-  } = calculateCartTotals(cart);
+    rates,
+    promotions: appliedPromotions
+  } = calculateCartTotals(cart, {
+    orderType,
+    pricesIncludeTax: restaurant?.prices_include_tax,
+    promotions,
+    timezone: restaurant?.timezone
+  });
   const currencySymbol = getCurrencySymbol(restaurant?.currency || "EUR");
 
   // State for animating items
@@ -191,6 +203,21 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({
                 })}
                       </div>)}
                   </div>}
+
+                {/* Combo components, with what each adds to the bundle price */}
+                {item.comboComponents && <div className="pl-6 space-y-1 text-sm text-gray-600">
+                    {expandComboComponents([item]).map((component, idx) => {
+                  const extras = getComboComponentPrice(item.comboComponents![idx]);
+                  const details = [getFormattedOptions(component), getFormattedToppings(component)].filter(Boolean).join(", ");
+                  return <div key={component.id}>
+                          <div className="flex justify-between">
+                            <span>{getTranslatedField(component.menuItem, 'name', uiLanguage)}</span>
+                            <span>{extras > 0 ? "+" + extras.toFixed(2) + " " + currencySymbol : ""}</span>
+                          </div>
+                          {details && <div style={{ paddingLeft: 6 }}>+ {details}</div>}
+                        </div>;
+                })}
+                  </div>}
               </div>)}
           </div>
         </ScrollArea>
@@ -199,14 +226,18 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({
         <div className="p-4 bg-gray-50 border-t flex-shrink-0">
           {/* Totals section */}
           <div className="space-y-2 mb-4">
+            {appliedPromotions.map(promotion => <div key={promotion.promotion_id} className="flex justify-between text-green-700">
+                <span>{promotion.name}:</span>
+                <span>-{promotion.amount.toFixed(2)} {currencySymbol}</span>
+              </div>)}
             <div className="flex justify-between text-gray-600">
               <span>{t("order.subtotal")}:</span>
               <span>{subtotal.toFixed(2)} {currencySymbol}</span>
             </div>
-            <div className="flex justify-between text-gray-600">
-              <span>{t("order.vatWithRate")}:</span>
-              <span>{tax.toFixed(2)} {currencySymbol}</span>
-            </div>
+            {rates.map(rate => <div key={rate.rate} className="flex justify-between text-gray-600">
+                <span>{t("order.vatWithRate")} {rate.rate}%:</span>
+                <span>{rate.tax.toFixed(2)} {currencySymbol}</span>
+              </div>)}
             <Separator className="my-2" />
             <div className="flex justify-between font-bold text-lg">
               <span>{t("order.totalTTC")}:</span>
@@ -1,9 +1,12 @@
 
+import { useState } from "react";
 import { UtensilsCrossed, ShoppingBag } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useTranslation, SupportedLanguage } from "@/utils/language-utils";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { RestaurantTable } from "@/types/database-types";
+import TableSelection from "./TableSelection";
 
 export type OrderType = "dine-in" | "takeaway" | null;
 
@@ -11,24 +14,51 @@ interface OrderTypeSelectionProps {
   isOpen: boolean;
   onClose: () => void;
   onSelectOrderType: (type: OrderType, tableNumber?: string) => void;
+  tables?: RestaurantTable[]; // active tables of the restaurant's table registry
+  tableRequired?: boolean;
 }
 
 const OrderTypeSelection = ({
   isOpen,
   onClose,
-  onSelectOrderType
+  onSelectOrderType,
+  tables = [],
+  tableRequired = false
 }: OrderTypeSelectionProps) => {
   const { language } = useLanguage();
   const { t } = useTranslation(language);
+  const [showTableSelection, setShowTableSelection] = useState(false);
   
+  // Dine-in asks for the table once the restaurant has a table registry or requires one
   const handleSelectDineIn = () => {
+    if (tables.length > 0 || tableRequired) {
+      setShowTableSelection(true);
+      return;
+    }
     onSelectOrderType("dine-in");
   };
+
+  const handleSelectTable = (tableNumber: string | null) => {
+    setShowTableSelection(false);
+    onSelectOrderType("dine-in", tableNumber || undefined);
+  };
   
   const handleSelectTakeaway = () => {
     onSelectOrderType("takeaway");
   };
   
+  if (showTableSelection) {
+    return (
+      <TableSelection
+        isOpen={isOpen}
+        onClose={() => setShowTableSelection(false)}
+        onSelect={handleSelectTable}
+        tables={tables}
+        required={tableRequired}
+      />
+    );
+  }
+
   return (
     <Dialog 
       open={isOpen} 
@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, CreditCard, Loader2, Store, XCircle } from "lucide-react";
+import { Order, PaymentMethod, Restaurant } from "@/types/database-types";
+import { payOrderAtCounter, cancelUnpaidOrder } from "@/services/kiosk-service";
+import { chargeOrderOnTerminal, getPaymentTerminal } from "@/services/payment-terminal";
+import { useTranslation } from "@/utils/language-utils";
+import { useLanguage } from "@/contexts/LanguageContext";
+
+type PaymentStep = "choose" | "processing" | "declined";
+
+interface PaymentDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  restaurant: Pick<Restaurant, "card_payment_enabled" | "cash_payment_enabled" | "payment_terminal" | "currency">;
+  amount: number;
+  currencySymbol: string;
+  isOffline: boolean;
+  // Places the order; null when it was not placed (the kiosk already told the customer why)
+  // or when the kiosk handled it itself, e.g. by queueing it offline
+  onPlaceOrder: (paymentMethod: PaymentMethod) => Promise<Order | null>;
+  // A card order left 'awaiting_payment': paid by card, or moved to the counter after a decline
+  onOrderReleased: (order: Order, paid: boolean) => void;
+}
+
+const PaymentDialog: React.FC<PaymentDialogProps> = ({
+  isOpen,
+  onClose,
+  restaurant,
+  amount,
+  currencySymbol,
+  isOffline,
+  onPlaceOrder,
+  onOrderReleased
+}) => {
+  const { language: uiLanguage } = useLanguage();
+  const { t } = useTranslation(uiLanguage);
+  const [step, setStep] = useState<PaymentStep>("choose");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  // The card order is placed once; retries charge the same order again
+  const [unpaidOrder, setUnpaidOrder] = useState<Order | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      abortRef.current?.abort();
+      setStep("choose");
+      setBusy(false);
+      setMessage(null);
+      setUnpaidOrder(null);
+    }
+  }, [isOpen]);
+
+  const terminal = getPaymentTerminal(restaurant.payment_terminal);
+  const cardEnabled = !!restaurant.card_payment_enabled && !!terminal;
+  // Offline orders are queued and paid at the counter whatever the settings say
+  const counterEnabled = !!restaurant.cash_payment_enabled || isOffline;
+
+  const handleCardPayment = async () => {
+    if (!terminal) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let order = unpaidOrder;
+    setBusy(true);
+    setMessage(null);
+    setStep("processing");
+
+    try {
+      order = order || await onPlaceOrder("card");
+      if (!order) {
+        onClose();
+        return;
+      }
+      setUnpaidOrder(order);
+
+      const { result, order: updatedOrder } = await chargeOrderOnTerminal(
+        order,
+        terminal,
+        restaurant.currency || "EUR",
+        controller.signal
+      );
+
+      if (result.status === "approved") {
+        onOrderReleased(updatedOrder, true);
+        return;
+      }
+
+      setMessage(result.status === "cancelled" ? t("payment.cancelled") : result.message || null);
+      setStep("declined");
+    } catch (error) {
+      console.error("Error during card payment:", error);
+      setMessage(t("payment.error"));
+      setStep(order ? "declined" : "choose");
+    } finally {
+      abortRef.current = null;
+      setBusy(false);
+    }
+  };
+
+  const handleCounterPayment = async () => {
+    setBusy(true);
+    try {
+      if (unpaidOrder) {
+        onOrderReleased(await payOrderAtCounter(unpaidOrder), false);
+        return;
+      }
+
+      await onPlaceOrder("cash");
+      onClose();
+    } catch (error) {
+      console.error("Error switching to counter payment:", error);
+      setMessage(t("payment.error"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancelOrder = async () => {
+    setBusy(true);
+    try {
+      if (unpaidOrder) {
+        await cancelUnpaidOrder(unpaidOrder);
+      }
+    } catch (error) {
+      console.error("Error cancelling unpaid order:", error);
+    } finally {
+      setBusy(false);
+      onClose();
+    }
+  };
+
+  const renderAmount = () => (
+    <div className="flex justify-between text-2xl font-bold">
+      <span>{t("payment.amountDue")}:</span>
+      <span>{Number(unpaidOrder?.total ?? amount).toFixed(2)} {currencySymbol}</span>
+    </div>
+  );
+
+  return <Dialog open={isOpen} onOpenChange={open => !open && step === "choose" && !busy && onClose()}>
+      <DialogContent
+        className="sm:max-w-xl"
+        onPointerDownOutside={e => step !== "choose" && e.preventDefault()}
+        onEscapeKeyDown={e => step !== "choose" && e.preventDefault()}
+      >
+        {step === "choose" && <div className="space-y-6">
+            <div className="flex items-center space-x-2">
+              <Button variant="ghost" size="icon" onClick={onClose} disabled={busy} className="h-8 w-8">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <h2 className="text-2xl font-bold">{t("payment.title")}</h2>
+            </div>
+
+            {renderAmount()}
+
+            <div className="grid gap-4">
+              {cardEnabled && <Button
+                  onClick={handleCardPayment}
+                  disabled={busy || isOffline}
+                  className="h-auto flex-col items-start bg-green-800 hover:bg-green-900 text-white py-6 px-6"
+                >
+                  <span className="flex items-center text-2xl">
+                    <CreditCard className="mr-3 h-7 w-7" />
+                    {t("payment.card")}
+                  </span>
+                  <span className="text-base font-normal opacity-90">
+                    {isOffline ? t("payment.cardUnavailableOffline") : t("payment.cardDescription")}
+                  </span>
+                </Button>}
+
+              {counterEnabled && <Button
+                  onClick={handleCounterPayment}
+                  disabled={busy}
+                  variant="outline"
+                  className="h-auto flex-col items-start py-6 px-6"
+                >
+                  <span className="flex items-center text-2xl">
+                    {busy ? <Loader2 className="mr-3 h-7 w-7 animate-spin" /> : <Store className="mr-3 h-7 w-7" />}
+                    {t("payment.counter")}
+                  </span>
+                  <span className="text-base font-normal text-gray-600">{t("payment.counterDescription")}</span>
+                </Button>}
+            </div>
+
+            {message && <p className="text-center text-red-600">{message}</p>}
+          </div>}
+
+        {step === "processing" && <div className="flex flex-col items-center space-y-6 py-6 text-center">
+            <CreditCard className="h-16 w-16 text-green-700" />
+            {renderAmount()}
+            <p className="text-xl">{t("payment.processing")}</p>
+            <Loader2 className="h-10 w-10 animate-spin text-gray-500" />
+            <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+              {t("payment.cancelPayment")}
+            </Button>
+          </div>}
+
+        {step === "declined" && <div className="flex flex-col items-center space-y-6 py-4 text-center">
+            <XCircle className="h-16 w-16 text-red-600" />
+            <h2 className="text-2xl font-bold">{t("payment.declined")}</h2>
+            <p className="text-lg">{t("payment.declinedMessage")}</p>
+            {message && <p className="text-sm text-gray-500">{message}</p>}
+            {renderAmount()}
+
+            <div className="grid w-full gap-3">
+              <Button onClick={handleCardPayment} disabled={busy} className="bg-green-800 hover:bg-green-900 text-white text-xl py-6">
+                <CreditCard className="mr-2 h-5 w-5" />
+                {t("payment.retry")}
+              </Button>
+              {restaurant.cash_payment_enabled && <Button onClick={handleCounterPayment} disabled={busy} variant="outline" className="text-xl py-6">
+                  <Store className="mr-2 h-5 w-5" />
+                  {t("payment.counter")}
+                </Button>}
+              <Button onClick={handleCancelOrder} disabled={busy} variant="ghost" className="text-red-600">
+                {t("payment.cancelOrder")}
+              </Button>
+            </div>
+          </div>}
+      </DialogContent>
+    </Dialog>;
+};
+
+export default PaymentDialog;
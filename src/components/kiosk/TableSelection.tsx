@@ -1,44 +1,116 @@
-
 import { useState, useEffect } from "react";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { supabase } from "@/integrations/supabase/client";
+import { ArrowLeft, Check } from "lucide-react";
+import { RestaurantTable } from "@/types/database-types";
+import { useTranslation } from "@/utils/language-utils";
+import { useLanguage } from "@/contexts/LanguageContext";
 
 interface TableSelectionProps {
   isOpen: boolean;
   onClose: () => void;
-  onSelect: (tableNumber: string) => void;
+  onSelect: (tableNumber: string | null) => void; // null when the customer skipped an optional table
+  tables: RestaurantTable[]; // active tables; empty lets the customer type any number
+  required: boolean;
 }
 
-const TableSelection = ({ isOpen, onClose, onSelect }: TableSelectionProps) => {
-  const [selectedTable, setSelectedTable] = useState<string | null>(null);
-  const [tables, setTables] = useState([
-    { id: "1", name: "Table 1" },
-    { id: "2", name: "Table 2" },
-    { id: "3", name: "Table 3" },
-    { id: "4", name: "Table 4" },
-    { id: "5", name: "Table 5" },
-    { id: "6", name: "Table 6" },
-    { id: "7", name: "Table 7" },
-    { id: "8", name: "Table 8" },
-  ]);
-  
+// Matches what the customer typed against the registry, the same way place_order does
+const findTable = (tables: RestaurantTable[], tableNumber: string): RestaurantTable | undefined => {
+  const wanted = tableNumber.trim().toLowerCase();
+  return tables.find(table => table.table_number.toLowerCase() === wanted);
+};
+
+const TableSelection = ({ isOpen, onClose, onSelect, tables, required }: TableSelectionProps) => {
+  const { language } = useLanguage();
+  const { t } = useTranslation(language);
+  const [typedNumber, setTypedNumber] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
   useEffect(() => {
-    // This component is now only shown through direct invocation, not through OrderTypeSelection
-    // Force close if shown - this is a safety measure
-    onClose();
-  }, [isOpen, onClose]);
-
-  const handleConfirm = () => {
-    if (selectedTable) {
-      onSelect(selectedTable);
+    if (isOpen) {
+      setTypedNumber("");
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleConfirmTyped = () => {
+    const trimmed = typedNumber.trim();
+    if (!trimmed) return;
+
+    if (tables.length === 0) {
+      onSelect(trimmed);
+      return;
+    }
+
+    const table = findTable(tables, trimmed);
+    if (table) {
+      onSelect(table.table_number);
+    } else {
+      setError(t("tableSelection.unknownTable"));
     }
   };
 
-  // Never render the component - this ensures it won't show up
-  return null;
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-xl md:max-w-2xl lg:max-w-3xl p-8">
+        <DialogHeader>
+          <div className="flex items-center space-x-2">
+            <Button variant="ghost" size="icon" onClick={onClose} className="h-10 w-10">
+              <ArrowLeft className="h-6 w-6" />
+            </Button>
+            <DialogTitle className="font-bold text-4xl">
+              {t("tableSelection.title")}
+            </DialogTitle>
+          </div>
+        </DialogHeader>
+
+        {tables.length > 0 && (
+          <div className="grid grid-cols-3 md:grid-cols-4 gap-4 max-h-[40vh] overflow-y-auto py-2">
+            {tables.map(table => (
+              <Button
+                key={table.id}
+                variant="outline"
+                onClick={() => onSelect(table.table_number)}
+                className="h-20 text-3xl font-semibold hover:bg-primary/10"
+              >
+                {table.table_number}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="kiosk-table-number" className="text-xl">{t("tableSelection.enterNumber")}</Label>
+          <div className="flex gap-2">
+            <Input
+              id="kiosk-table-number"
+              value={typedNumber}
+              placeholder={t("tableSelection.placeholder")}
+              onChange={e => {
+                setTypedNumber(e.target.value);
+                setError(null);
+              }}
+              onKeyDown={e => e.key === "Enter" && handleConfirmTyped()}
+              className="h-14 text-2xl"
+            />
+            <Button onClick={handleConfirmTyped} disabled={!typedNumber.trim()} className="h-14 px-6 text-xl bg-green-800 hover:bg-green-900">
+              <Check className="mr-2 h-5 w-5" />
+              {t("tableSelection.confirm")}
+            </Button>
+          </div>
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+
+        {!required && (
+          <Button variant="ghost" onClick={() => onSelect(null)} className="text-xl">
+            {t("tableSelection.skip")}
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
 };
 
 export default TableSelection;
@@ -0,0 +1,70 @@
+import React from "react";
+import { ArrowRight, Plus } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Carousel, CarouselContent, CarouselItem } from "@/components/ui/carousel";
+import { UpsellSuggestion } from "@/types/database-types";
+import { getTranslatedField } from "@/utils/language-utils";
+import { useLanguage } from "@/contexts/LanguageContext";
+
+interface UpsellDialogProps {
+  isOpen: boolean;
+  suggestions: UpsellSuggestion[];
+  onSelect: (suggestion: UpsellSuggestion) => void;
+  onContinue: () => void;
+  t: (key: string) => string;
+  currencySymbol: string;
+}
+
+// Last chance to add an item, shown once per cart before the order summary
+const UpsellDialog: React.FC<UpsellDialogProps> = ({
+  isOpen,
+  suggestions,
+  onSelect,
+  onContinue,
+  t,
+  currencySymbol
+}) => {
+  const { language: uiLanguage } = useLanguage();
+
+  return <Dialog open={isOpen} onOpenChange={open => !open && onContinue()}>
+      <DialogContent className="w-[85vw] max-w-[85vw] p-4 flex flex-col select-none">
+        <DialogHeader className="pb-2">
+          <DialogTitle className="font-bold text-3xl">{t("upsell.title")}</DialogTitle>
+          <DialogDescription className="text-xl text-gray-800">{t("upsell.subtitle")}</DialogDescription>
+        </DialogHeader>
+
+        <Carousel opts={{
+        align: "start",
+        containScroll: "trimSnaps"
+      }} className="w-full">
+          <CarouselContent className="-ml-3">
+            {suggestions.map(suggestion => <CarouselItem key={suggestion.menuItem.id} className="pl-3 basis-1/2 md:basis-1/3 lg:basis-1/4">
+                <div className="border rounded-lg overflow-hidden h-full flex flex-col">
+                  <img src={suggestion.menuItem.image || '/placeholder.svg'} alt={suggestion.menuItem.name} className="w-full h-36 object-cover" />
+                  <div className="p-3 flex flex-col flex-grow justify-between gap-3">
+                    <div>
+                      <div className="text-xl font-medium">{getTranslatedField(suggestion.menuItem, 'name', uiLanguage)}</div>
+                      <div className="text-lg text-gray-700">{Number(suggestion.menuItem.price).toFixed(2)} {currencySymbol}</div>
+                    </div>
+                    <Button onClick={() => onSelect(suggestion)} className="bg-kiosk-primary py-6 text-xl">
+                      <Plus className="mr-2 h-5 w-5" />
+                      {t("upsell.add")}
+                    </Button>
+                  </div>
+                </div>
+              </CarouselItem>)}
+          </CarouselContent>
+        </Carousel>
+
+        <DialogFooter className="mt-3 pt-2">
+          <Button onClick={onContinue} className="w-full bg-green-800 hover:bg-green-900 text-white py-[34px] text-2xl">
+            {t("upsell.continue")}
+            <ArrowRight className="ml-2 h-6 w-6" />
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>;
+};
+
+export default UpsellDialog;
@@ -0,0 +1,92 @@
+import React from "react";
+import { Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { KitchenOrder } from "@/services/kiosk-service";
+import { OrderStatus } from "@/types/database-types";
+
+// Minutes after which a ticket turns amber, then red
+export const TICKET_WARNING_MINUTES = 5;
+export const TICKET_LATE_MINUTES = 10;
+
+const BUMP_LABELS: Partial<Record<OrderStatus, string>> = {
+  pending: "Start",
+  preparing: "Ready",
+  ready: "Served"
+};
+
+const STATUS_LABELS: Partial<Record<OrderStatus, string>> = {
+  pending: "New",
+  preparing: "Preparing",
+  ready: "Ready"
+};
+
+interface KitchenTicketProps {
+  order: KitchenOrder;
+  now: number;
+  onBump: (order: KitchenOrder) => void;
+}
+
+const getAgeClasses = (minutes: number) => {
+  if (minutes >= TICKET_LATE_MINUTES) return "border-red-600 bg-red-50";
+  if (minutes >= TICKET_WARNING_MINUTES) return "border-amber-500 bg-amber-50";
+  return "border-green-600 bg-white";
+};
+
+const KitchenTicket: React.FC<KitchenTicketProps> = ({ order, now, onBump }) => {
+  const ageMinutes = Math.max(0, Math.floor((now - new Date(order.created_at).getTime()) / 60000));
+
+  return (
+    <div className={`flex flex-col rounded-lg border-4 shadow-md ${getAgeClasses(ageMinutes)}`}>
+      <div className="flex items-start justify-between border-b p-3">
+        <div>
+          <div className="text-3xl font-bold">#{order.order_number || order.id.slice(0, 6)}</div>
+          <div className="text-sm text-gray-600">
+            {order.order_type === "dine-in" ? `Dine in${order.table_number ? ` - Table ${order.table_number}` : ""}` : "Takeaway"}
+          </div>
+        </div>
+        <div className="text-right">
+          <div className="flex items-center justify-end gap-1 text-lg font-semibold">
+            <Clock className="h-5 w-5" />
+            {ageMinutes} min
+          </div>
+          <div className="text-sm uppercase text-gray-600">{STATUS_LABELS[order.status]}</div>
+        </div>
+      </div>
+
+      <div className="flex-1 space-y-3 p-3">
+        {order.items.map(item => (
+          <div key={item.id}>
+            <div className="text-xl font-semibold">
+              {item.quantity}x {item.name}
+            </div>
+            {item.options.map((option, index) => (
+              <div key={`${item.id}-option-${index}`} className="pl-4 text-base">
+                {option.name ? `${option.name}: ` : ""}{option.choice}
+              </div>
+            ))}
+            {item.toppings.map(group => (
+              <div key={`${item.id}-${group.category}`} className="pl-4 text-base">
+                {group.category && <span className="font-medium">{group.category}: </span>}
+                {group.names.join(", ")}
+              </div>
+            ))}
+            {item.special_instructions && (
+              <div className="mt-1 rounded bg-yellow-200 px-2 py-1 text-base font-semibold">
+                {item.special_instructions}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <Button
+        className="m-3 h-16 text-2xl"
+        onClick={() => onBump(order)}
+      >
+        {BUMP_LABELS[order.status]}
+      </Button>
+    </div>
+  );
+};
+
+export default KitchenTicket;
@@ -0,0 +1,299 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, SlidersHorizontal, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Ingredient, IngredientAdjustment, IngredientUnit } from "@/types/database-types";
+import {
+  getIngredientsForRestaurant,
+  createIngredient,
+  deleteIngredient,
+  adjustIngredientStock,
+  getIngredientAdjustments
+} from "@/services/kiosk-service";
+import { clearMenuCache } from "@/services/cache-service";
+
+const UNITS: IngredientUnit[] = ['piece', 'g', 'kg', 'ml', 'l'];
+
+type ManualReason = 'count' | 'delivery' | 'waste' | 'correction';
+
+const REASON_LABELS: Record<IngredientAdjustment['reason'], string> = {
+  count: "Count",
+  delivery: "Delivery",
+  waste: "Waste",
+  correction: "Correction",
+  order: "Order",
+  cancellation: "Cancelled order"
+};
+
+const formatQuantity = (quantity: number, unit: string) =>
+  `${Number(quantity.toFixed(3))} ${unit === 'piece' ? 'pcs' : unit}`;
+
+interface IngredientStockPanelProps {
+  restaurantId: string;
+}
+
+const IngredientStockPanel = ({ restaurantId }: IngredientStockPanelProps) => {
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [unit, setUnit] = useState<IngredientUnit>('piece');
+  const [threshold, setThreshold] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [adjusting, setAdjusting] = useState<Ingredient | null>(null);
+  const [reason, setReason] = useState<ManualReason>('count');
+  const [quantity, setQuantity] = useState("");
+  const [note, setNote] = useState("");
+  const [history, setHistory] = useState<IngredientAdjustment[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const fetchIngredients = async () => {
+      try {
+        setLoading(true);
+        setIngredients(await getIngredientsForRestaurant(restaurantId));
+      } catch (error) {
+        console.error("Error fetching ingredients:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load ingredients",
+          variant: "destructive"
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchIngredients();
+  }, [restaurantId, toast]);
+
+  useEffect(() => {
+    if (!adjusting) return;
+
+    const fetchHistory = async () => {
+      try {
+        setHistory(await getIngredientAdjustments(adjusting.id));
+      } catch (error) {
+        console.error("Error fetching ingredient adjustments:", error);
+        setHistory([]);
+      }
+    };
+
+    fetchHistory();
+  }, [adjusting]);
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    try {
+      setCreating(true);
+      const ingredient = await createIngredient({
+        restaurant_id: restaurantId,
+        name: name.trim(),
+        unit,
+        low_stock_threshold: threshold === "" ? null : Number(threshold)
+      });
+      setIngredients(prev => [...prev, ingredient].sort((a, b) => a.name.localeCompare(b.name)));
+      setName("");
+      setThreshold("");
+    } catch (error) {
+      console.error("Error creating ingredient:", error);
+      toast({
+        title: "Error",
+        description: "Failed to create ingredient",
+        variant: "destructive"
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDelete = async (ingredient: Ingredient) => {
+    if (!window.confirm(`Delete "${ingredient.name}"? It is removed from every recipe.`)) return;
+    try {
+      await deleteIngredient(ingredient.id);
+      setIngredients(prev => prev.filter(i => i.id !== ingredient.id));
+      clearMenuCache(restaurantId);
+    } catch (error) {
+      console.error("Error deleting ingredient:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete ingredient",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const openAdjust = (ingredient: Ingredient) => {
+    setAdjusting(ingredient);
+    setReason('count');
+    setQuantity(String(ingredient.stock_quantity));
+    setNote("");
+  };
+
+  const handleAdjust = async () => {
+    if (!adjusting || quantity === "" || isNaN(Number(quantity))) return;
+    try {
+      setSaving(true);
+      // Waste is entered as the amount thrown away
+      const value = reason === 'waste' ? -Math.abs(Number(quantity)) : Number(quantity);
+      const updated = await adjustIngredientStock(adjusting.id, value, reason, note);
+      setIngredients(prev => prev.map(i => i.id === updated.id ? updated : i));
+      clearMenuCache(restaurantId);
+      setAdjusting(null);
+    } catch (error) {
+      console.error("Error adjusting ingredient stock:", error);
+      toast({
+        title: "Error",
+        description: "Failed to adjust stock",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading ingredients...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Menu items and toppings with a recipe disappear from the kiosk as soon as one of their ingredients runs short.
+            Orders take their ingredients from the stock; use the recipe button on an item or topping to set what it uses.
+          </p>
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="ingredient-name">Ingredient</Label>
+              <Input id="ingredient-name" placeholder="Burger bun" value={name} onChange={e => setName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Unit</Label>
+              <Select value={unit} onValueChange={value => setUnit(value as IngredientUnit)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {UNITS.map(u => <SelectItem key={u} value={u}>{u}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ingredient-threshold">Low at</Label>
+              <Input id="ingredient-threshold" type="number" min="0" step="any" className="w-24" value={threshold} onChange={e => setThreshold(e.target.value)} />
+            </div>
+            <Button onClick={handleCreate} disabled={creating || !name.trim()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add ingredient
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          {ingredients.length > 0 ? ingredients.map(ingredient => {
+            const low = ingredient.low_stock_threshold !== null && ingredient.stock_quantity <= ingredient.low_stock_threshold;
+            return (
+              <div key={ingredient.id} className="flex flex-wrap items-center justify-between gap-4 p-4 border rounded-lg">
+                <div>
+                  <p className="font-medium">{ingredient.name}</p>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground">{formatQuantity(ingredient.stock_quantity, ingredient.unit)}</span>
+                    {ingredient.stock_quantity <= 0 ? (
+                      <Badge variant="destructive">Out</Badge>
+                    ) : low && (
+                      <Badge variant="secondary">Low</Badge>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openAdjust(ingredient)}>
+                    <SlidersHorizontal className="mr-2 h-4 w-4" />
+                    Adjust
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleDelete(ingredient)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          }) : (
+            <div className="text-center py-6 text-muted-foreground">
+              No ingredients yet
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!adjusting} onOpenChange={open => !open && setAdjusting(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Adjust {adjusting?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Reason</Label>
+              <Select value={reason} onValueChange={value => setReason(value as ManualReason)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="count">Count (replaces the stock)</SelectItem>
+                  <SelectItem value="delivery">Delivery (adds)</SelectItem>
+                  <SelectItem value="waste">Waste (removes)</SelectItem>
+                  <SelectItem value="correction">Correction (adds, negative removes)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="adjust-quantity">
+                {reason === 'count' ? "Counted stock" : "Quantity"} ({adjusting?.unit})
+              </Label>
+              <Input id="adjust-quantity" type="number" step="any" value={quantity} onChange={e => setQuantity(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="adjust-note">Note</Label>
+              <Input id="adjust-note" value={note} onChange={e => setNote(e.target.value)} />
+            </div>
+
+            {history.length > 0 && (
+              <div className="space-y-1">
+                <Label>Recent changes</Label>
+                <div className="max-h-48 overflow-y-auto text-sm divide-y border rounded-md">
+                  {history.map(adjustment => (
+                    <div key={adjustment.id} className="flex justify-between gap-2 px-3 py-1">
+                      <span>
+                        {new Date(adjustment.created_at).toLocaleString()} · {REASON_LABELS[adjustment.reason]}
+                        {adjustment.note && <span className="text-muted-foreground"> · {adjustment.note}</span>}
+                      </span>
+                      <span className={adjustment.delta < 0 ? "text-red-600" : "text-green-600"}>
+                        {adjustment.delta > 0 ? "+" : ""}{Number(adjustment.delta.toFixed(3))} → {Number(adjustment.stock_after.toFixed(3))}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAdjusting(null)}>Cancel</Button>
+            <Button onClick={handleAdjust} disabled={saving || quantity === ""}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default IngredientStockPanel;
@@ -0,0 +1,239 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MenuCategory } from "@/types/database-types";
+import {
+  getKitchenStations,
+  createKitchenStation,
+  updateKitchenStation,
+  deleteKitchenStation,
+  setCategoryStation,
+  ensureRestaurantPrinter,
+  getCategoriesByRestaurantId,
+  getPrintSettings,
+  getPrintNodePrinters,
+  KitchenStationWithPrinter
+} from "@/services/kiosk-service";
+import { PrintNodePrinter } from "@/utils/print-utils";
+
+// Radix Select does not accept an empty value
+const NONE = "none";
+
+interface KitchenStationsSettingsProps {
+  restaurantId: string;
+}
+
+const KitchenStationsSettings = ({ restaurantId }: KitchenStationsSettingsProps) => {
+  const [stations, setStations] = useState<KitchenStationWithPrinter[]>([]);
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [printers, setPrinters] = useState<PrintNodePrinter[]>([]);
+  const [newStationName, setNewStationName] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadStations = async () => {
+    setStations(await getKitchenStations(restaurantId));
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        const [stationData, categoryData, printConfig] = await Promise.all([
+          getKitchenStations(restaurantId),
+          getCategoriesByRestaurantId(restaurantId),
+          getPrintSettings(restaurantId)
+        ]);
+        setStations(stationData);
+        setCategories(categoryData);
+
+        if (printConfig.printnode_configured) {
+          setPrinters(await getPrintNodePrinters(restaurantId));
+        }
+      } catch (error) {
+        console.error("Error loading kitchen stations:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [restaurantId]);
+
+  const reportError = (description: string) => {
+    toast({
+      title: "Erreur",
+      description,
+      variant: "destructive"
+    });
+  };
+
+  const handleAddStation = async () => {
+    const name = newStationName.trim();
+    if (!name) return;
+
+    setIsSaving(true);
+    try {
+      await createKitchenStation({
+        restaurant_id: restaurantId,
+        name,
+        printer_id: null,
+        display_order: stations.length
+      });
+      setNewStationName("");
+      await loadStations();
+    } catch (error) {
+      reportError("Impossible de créer le poste.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRenameStation = async (station: KitchenStationWithPrinter, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === station.name) return;
+
+    try {
+      await updateKitchenStation(station.id, { name: trimmed });
+      await loadStations();
+    } catch (error) {
+      reportError("Impossible de renommer le poste.");
+    }
+  };
+
+  const handlePrinterChange = async (station: KitchenStationWithPrinter, printNodeId: string) => {
+    try {
+      let printerId: string | null = null;
+      if (printNodeId !== NONE) {
+        const printer = printers.find(p => p.id === printNodeId);
+        printerId = await ensureRestaurantPrinter(restaurantId, printNodeId, printer?.name || printNodeId);
+      }
+      await updateKitchenStation(station.id, { printer_id: printerId });
+      await loadStations();
+    } catch (error) {
+      reportError("Impossible d'affecter l'imprimante.");
+    }
+  };
+
+  const handleDeleteStation = async (station: KitchenStationWithPrinter) => {
+    try {
+      await deleteKitchenStation(station.id);
+      setCategories(prev => prev.map(c => (c.station_id === station.id ? { ...c, station_id: null } : c)));
+      await loadStations();
+    } catch (error) {
+      reportError("Impossible de supprimer le poste.");
+    }
+  };
+
+  const handleCategoryStationChange = async (category: MenuCategory, stationId: string) => {
+    const value = stationId === NONE ? null : stationId;
+    try {
+      await setCategoryStation(category.id, value);
+      setCategories(prev => prev.map(c => (c.id === category.id ? { ...c, station_id: value } : c)));
+    } catch (error) {
+      reportError("Impossible d'affecter la catégorie.");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Postes de cuisine</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Chaque poste reçoit un ticket ne contenant que ses articles. Les imprimantes PrintNode sélectionnées ci-dessus reçoivent le ticket client complet.
+        </p>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              {stations.map(station => (
+                <div key={station.id} className="flex items-center gap-2">
+                  <Input
+                    defaultValue={station.name}
+                    onBlur={e => handleRenameStation(station, e.target.value)}
+                    className="w-48"
+                  />
+                  <Select
+                    value={station.printer?.printnode_printer_id || NONE}
+                    onValueChange={value => handlePrinterChange(station, value)}
+                  >
+                    <SelectTrigger className="w-56">
+                      <SelectValue placeholder="Imprimante" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Aucune imprimante</SelectItem>
+                      {printers.map(printer => (
+                        <SelectItem key={printer.id} value={printer.id}>
+                          {printer.name}{printer.state === "offline" ? " (hors ligne)" : ""}
+                        </SelectItem>
+                      ))}
+                      {station.printer?.printnode_printer_id && !printers.some(p => p.id === station.printer?.printnode_printer_id) && (
+                        <SelectItem value={station.printer.printnode_printer_id}>{station.printer.name}</SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="ghost" size="icon" onClick={() => handleDeleteStation(station)}>
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+
+              <div className="flex items-center gap-2">
+                <Input
+                  placeholder="Grill, Boissons, Desserts..."
+                  value={newStationName}
+                  onChange={e => setNewStationName(e.target.value)}
+                  onKeyDown={e => e.key === "Enter" && handleAddStation()}
+                  className="w-48"
+                />
+                <Button onClick={handleAddStation} disabled={isSaving || !newStationName.trim()} size="sm">
+                  {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                  Ajouter un poste
+                </Button>
+              </div>
+            </div>
+
+            {stations.length > 0 && categories.length > 0 && (
+              <div className="space-y-2">
+                <Label>Catégories</Label>
+                {categories.map(category => (
+                  <div key={category.id} className="flex items-center justify-between gap-2">
+                    <span className="text-sm">{category.name}</span>
+                    <Select
+                      value={category.station_id || NONE}
+                      onValueChange={value => handleCategoryStationChange(category, value)}
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Aucun poste</SelectItem>
+                        {stations.map(station => (
+                          <SelectItem key={station.id} value={station.id}>{station.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default KitchenStationsSettings;
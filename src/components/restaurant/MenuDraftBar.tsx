@@ -0,0 +1,432 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CalendarClock, Eye, History, Loader2, Rocket, Undo2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Restaurant, MenuVersion, MenuVersionStatus } from "@/types/database-types";
+import {
+  DraftChange,
+  discardMenuDraft,
+  getDraftChanges,
+  getDraftSnapshot,
+  getMenuDraft,
+  getMenuVersions,
+  publishMenuVersion,
+  scheduleMenuDraft,
+  syncGroupMenus
+} from "@/services/menu-draft-service";
+import { getRestaurantGroups } from "@/services/kiosk-service";
+import { clearMenuCache } from "@/services/cache-service";
+import { MenuImportKind, MenuSnapshot } from "@/utils/menu-bundle";
+import { getTranslation, SupportedLanguage } from "@/utils/language-utils";
+import { useLanguage } from "@/contexts/LanguageContext";
+import MenuCategoryList from "@/components/kiosk/MenuCategoryList";
+import MenuItemGrid from "@/components/kiosk/MenuItemGrid";
+
+const KIND_LABELS: Record<MenuImportKind, string> = {
+  category: "Category",
+  item: "Item",
+  topping_category: "Topping category",
+  topping: "Topping"
+};
+
+const ACTION_LABELS: Record<DraftChange['action'], string> = {
+  create: "New",
+  update: "Changed",
+  delete: "Removed"
+};
+
+const STATUS_LABELS: Record<MenuVersionStatus, string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  published: "Live",
+  archived: "Previous"
+};
+
+// Value for a datetime-local input, in the browser's time zone
+const toLocalInputValue = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+interface MenuDraftBarProps {
+  restaurant: Restaurant;
+  currencySymbol: string;
+  revision: number;
+  onChanged: () => void;
+}
+
+// State of the draft menu with its preview, publication, scheduling and version history
+const MenuDraftBar = ({ restaurant, currencySymbol, revision, onChanged }: MenuDraftBarProps) => {
+  const [draft, setDraft] = useState<MenuVersion | null>(null);
+  const [changes, setChanges] = useState<DraftChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [showPublishDialog, setShowPublishDialog] = useState(false);
+  const [showScheduleDialog, setShowScheduleDialog] = useState(false);
+  const [showDiscardDialog, setShowDiscardDialog] = useState(false);
+  const [showHistoryDialog, setShowHistoryDialog] = useState(false);
+  const [showPreviewDialog, setShowPreviewDialog] = useState(false);
+  const [publishAt, setPublishAt] = useState("");
+  const [versions, setVersions] = useState<Omit<MenuVersion, 'content'>[]>([]);
+  const [preview, setPreview] = useState<MenuSnapshot | null>(null);
+  const [previewCategory, setPreviewCategory] = useState<string | null>(null);
+  const { language } = useLanguage();
+  const { toast } = useToast();
+
+  const t = (key: string) => getTranslation(key, language as SupportedLanguage);
+
+  useEffect(() => {
+    const loadDraft = async () => {
+      try {
+        setLoading(true);
+        setChanges(await getDraftChanges(restaurant.id));
+        setDraft(await getMenuDraft(restaurant.id));
+      } catch (error) {
+        console.error("Error loading menu draft:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDraft();
+  }, [restaurant.id, revision]);
+
+  // Runs a draft action, then reloads the menu tab, which reloads this bar too. The action may
+  // replace the success message.
+  const runAction = async (action: () => Promise<unknown>, success: string, failure: string) => {
+    try {
+      setBusy(true);
+      const message = await action();
+      toast({
+        title: "Success",
+        description: typeof message === 'string' ? message : success,
+      });
+      onChanged();
+      return true;
+    } catch (error) {
+      console.error(`Error: ${failure}`, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : failure,
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const publish = async (versionId: string, success: string) => {
+    const published = await runAction(async () => {
+      await publishMenuVersion(restaurant.id, versionId);
+      // Kiosks pick up the new menu with their next load
+      clearMenuCache(restaurant.id);
+
+      // The master restaurant of a group passes its menu on to the other locations
+      const group = restaurant.group_id
+        ? (await getRestaurantGroups()).find(candidate => candidate.id === restaurant.group_id)
+        : undefined;
+      if (group?.master_restaurant_id !== restaurant.id) return;
+
+      const { synced, failed } = await syncGroupMenus(group.id, restaurant.id);
+      return failed.length > 0
+        ? `${success} ${synced} location(s) updated; not updated: ${failed.join(', ')}. Retry from the group view.`
+        : `${success} ${synced} location(s) of ${group.name} updated.`;
+    }, success, "Failed to publish the menu");
+    if (published) {
+      setShowPublishDialog(false);
+      setShowHistoryDialog(false);
+    }
+  };
+
+  const handleSchedule = async () => {
+    const date = new Date(publishAt);
+    if (Number.isNaN(date.getTime()) || date <= new Date()) {
+      toast({
+        title: "Error",
+        description: "Choose a date and time in the future",
+        variant: "destructive"
+      });
+      return;
+    }
+    const scheduled = await runAction(
+      () => scheduleMenuDraft(restaurant.id, date),
+      `The draft will be published on ${date.toLocaleString()}.`,
+      "Failed to schedule the draft"
+    );
+    if (scheduled) setShowScheduleDialog(false);
+  };
+
+  const handleDiscard = async () => {
+    const discarded = await runAction(
+      () => discardMenuDraft(restaurant.id),
+      "The draft has been discarded.",
+      "Failed to discard the draft"
+    );
+    if (discarded) setShowDiscardDialog(false);
+  };
+
+  const openHistory = async () => {
+    setShowHistoryDialog(true);
+    try {
+      setVersions(await getMenuVersions(restaurant.id));
+    } catch (error) {
+      console.error("Error fetching menu versions:", error);
+    }
+  };
+
+  const openPreview = async () => {
+    setShowPreviewDialog(true);
+    setPreview(null);
+    try {
+      const snapshot = await getDraftSnapshot(restaurant.id);
+      setPreview(snapshot);
+      setPreviewCategory([...snapshot.categories].sort((a, b) => (a.display_order || 0) - (b.display_order || 0))[0]?.id || null);
+    } catch (error) {
+      console.error("Error loading menu preview:", error);
+    }
+  };
+
+  const isScheduled = draft?.status === 'scheduled';
+
+  return (
+    <div className="rounded-lg border bg-muted/40 p-3 sm:p-4 space-y-3">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="font-medium">Draft menu</span>
+            {loading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Badge variant={changes.length > 0 ? "default" : "secondary"}>
+                {changes.length > 0 ? `${changes.length} unpublished change(s)` : "Same as live"}
+              </Badge>
+            )}
+            {isScheduled && draft.publish_at && (
+              <Badge variant="outline">Publishes {new Date(draft.publish_at).toLocaleString()}</Badge>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Menu and topping edits are saved to the draft. Kiosks show the live menu until the draft is published.
+          </p>
+          {draft?.content.master && (
+            <p className="text-xs text-muted-foreground">
+              Items marked "Group menu" follow the group master menu: only prices, availability hours and translations
+              can be changed here. Stock levels stay per location.
+            </p>
+          )}
+          {draft?.note && <p className="text-xs text-destructive">{draft.note}</p>}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={openPreview}>
+            <Eye className="mr-2 h-4 w-4" />
+            Preview
+          </Button>
+          <Button size="sm" className="bg-kiosk-primary" onClick={() => setShowPublishDialog(true)} disabled={busy || !draft || changes.length === 0}>
+            <Rocket className="mr-2 h-4 w-4" />
+            Publish
+          </Button>
+          {isScheduled ? (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={busy}
+              onClick={() => runAction(() => scheduleMenuDraft(restaurant.id, null), "The scheduled publication has been cancelled.", "Failed to cancel the schedule")}
+            >
+              <X className="mr-2 h-4 w-4" />
+              Cancel Schedule
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={busy || !draft || changes.length === 0}
+              onClick={() => {
+                setPublishAt(toLocalInputValue(new Date(Date.now() + 60 * 60000)));
+                setShowScheduleDialog(true);
+              }}
+            >
+              <CalendarClock className="mr-2 h-4 w-4" />
+              Schedule
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={openHistory}>
+            <History className="mr-2 h-4 w-4" />
+            History
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setShowDiscardDialog(true)} disabled={busy || !draft || changes.length === 0}>
+            <Undo2 className="mr-2 h-4 w-4" />
+            Discard
+          </Button>
+        </div>
+      </div>
+
+      <Dialog open={showPublishDialog} onOpenChange={setShowPublishDialog}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Publish Menu</DialogTitle>
+            <DialogDescription>
+              All changes go live on the kiosks at once. The current menu is kept in the history for rollback.
+            </DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Fields</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {changes.map((change, index) => (
+                <TableRow key={`${change.kind}-${change.name}-${index}`}>
+                  <TableCell>{KIND_LABELS[change.kind]}</TableCell>
+                  <TableCell>{change.name}</TableCell>
+                  <TableCell>{ACTION_LABELS[change.action]}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{change.changes.join(', ') || '—'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowPublishDialog(false)}>Cancel</Button>
+            <Button className="bg-kiosk-primary" disabled={busy || !draft} onClick={() => publish(draft.id, "The menu has been published.")}>
+              {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Publish Now
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showScheduleDialog} onOpenChange={setShowScheduleDialog}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Schedule Publication</DialogTitle>
+            <DialogDescription>
+              The draft goes live at this time. Edits made until then are published too.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="menu-publish-at">Publish on</Label>
+            <Input
+              id="menu-publish-at"
+              type="datetime-local"
+              value={publishAt}
+              min={toLocalInputValue(new Date())}
+              onChange={e => setPublishAt(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowScheduleDialog(false)}>Cancel</Button>
+            <Button className="bg-kiosk-primary" disabled={busy || !publishAt} onClick={handleSchedule}>
+              {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Schedule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showDiscardDialog} onOpenChange={setShowDiscardDialog}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Discard Draft</DialogTitle>
+            <DialogDescription>
+              The {changes.length} unpublished change(s) are lost and the draft starts again from the live menu.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDiscardDialog(false)}>Cancel</Button>
+            <Button variant="destructive" disabled={busy} onClick={handleDiscard}>
+              {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Discard
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showHistoryDialog} onOpenChange={setShowHistoryDialog}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Menu History</DialogTitle>
+            <DialogDescription>
+              Publishing a previous version puts it back on the kiosks. The draft is kept; discard it to edit from the restored menu.
+            </DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Status</TableHead>
+                <TableHead>Published</TableHead>
+                <TableHead>Note</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions.map(version => (
+                <TableRow key={version.id}>
+                  <TableCell>
+                    <Badge variant={version.status === 'published' ? "default" : "secondary"}>{STATUS_LABELS[version.status]}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {version.published_at
+                      ? new Date(version.published_at).toLocaleString()
+                      : version.publish_at ? `Planned ${new Date(version.publish_at).toLocaleString()}` : '—'}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{version.note || '—'}</TableCell>
+                  <TableCell className="text-right">
+                    {version.status === 'archived' && (
+                      <Button variant="outline" size="sm" disabled={busy} onClick={() => publish(version.id, "The previous menu has been restored.")}>
+                        Roll Back
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showPreviewDialog} onOpenChange={setShowPreviewDialog}>
+        <DialogContent className="max-w-6xl h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Kiosk Preview</DialogTitle>
+            <DialogDescription>The draft menu as customers will see it once published.</DialogDescription>
+          </DialogHeader>
+          {!preview ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <div className="flex flex-1 min-h-0 gap-4">
+              <div className="w-48 shrink-0 overflow-y-auto">
+                <MenuCategoryList
+                  categories={preview.categories}
+                  activeCategory={previewCategory}
+                  setActiveCategory={setPreviewCategory}
+                />
+              </div>
+              <div className="flex-1 overflow-y-auto">
+                <MenuItemGrid
+                  items={preview.items}
+                  handleSelectItem={() => {}}
+                  currencySymbol={currencySymbol}
+                  t={t}
+                  categories={preview.categories}
+                  activeCategory={previewCategory || undefined}
+                />
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default MenuDraftBar;
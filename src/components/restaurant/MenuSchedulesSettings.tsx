@@ -0,0 +1,474 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, Plus, Trash2, Check, Eye } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MenuCategory, MenuSchedule, MenuWithSchedules, Restaurant, RestaurantMenuSchedule } from "@/types/database-types";
+import {
+  getMenuSchedule,
+  getCategoriesByRestaurantId,
+  createMenu,
+  updateMenu,
+  deleteMenu,
+  setMenuSchedules,
+  setMenuCategories,
+  createMenuHolidayOverride,
+  deleteMenuHolidayOverride
+} from "@/services/kiosk-service";
+import { filterCategoriesBySchedule, getActiveMenuIds, getLocalDateTime, toLocalDateTime } from "@/utils/menu-schedule";
+
+// Monday first, as on French calendars; values follow Date.getDay()
+const WEEKDAYS = [
+  { value: 1, label: "Lundi" },
+  { value: 2, label: "Mardi" },
+  { value: 3, label: "Mercredi" },
+  { value: 4, label: "Jeudi" },
+  { value: 5, label: "Vendredi" },
+  { value: 6, label: "Samedi" },
+  { value: 0, label: "Dimanche" }
+];
+
+// Radix Select does not accept an empty value
+const NONE = "none";
+
+type ScheduleDraft = Pick<MenuSchedule, "weekday" | "start_time" | "end_time">;
+
+type MenuDraft = {
+  name: string;
+  schedules: ScheduleDraft[];
+  categoryIds: string[];
+};
+
+const weekdayLabel = (weekday: number) => WEEKDAYS.find(d => d.value === weekday)?.label || "";
+
+const toDraft = (menu: MenuWithSchedules): MenuDraft => ({
+  name: menu.name,
+  schedules: menu.schedules.map(s => ({
+    weekday: s.weekday,
+    start_time: s.start_time.slice(0, 5),
+    end_time: s.end_time.slice(0, 5)
+  })),
+  categoryIds: menu.category_ids
+});
+
+const formatMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+interface MenuSchedulesSettingsProps {
+  restaurant: Restaurant;
+}
+
+const MenuSchedulesSettings = ({ restaurant }: MenuSchedulesSettingsProps) => {
+  const [schedule, setSchedule] = useState<RestaurantMenuSchedule | null>(null);
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, MenuDraft>>({});
+  const [newMenuName, setNewMenuName] = useState("");
+  const [newOverrideDate, setNewOverrideDate] = useState("");
+  const [newOverrideLabel, setNewOverrideLabel] = useState("");
+  const [newOverrideWeekday, setNewOverrideWeekday] = useState(String(0));
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const now = getLocalDateTime(restaurant.timezone);
+  const [previewDate, setPreviewDate] = useState(now.date);
+  const [previewTime, setPreviewTime] = useState(formatMinutes(now.minutes));
+
+  const loadSchedule = async () => {
+    const data = await getMenuSchedule(restaurant.id);
+    setSchedule(data);
+    setDrafts(Object.fromEntries(data.menus.map(menu => [menu.id, toDraft(menu)])));
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        const [scheduleData, categoryData] = await Promise.all([
+          getMenuSchedule(restaurant.id),
+          getCategoriesByRestaurantId(restaurant.id)
+        ]);
+        setSchedule(scheduleData);
+        setDrafts(Object.fromEntries(scheduleData.menus.map(menu => [menu.id, toDraft(menu)])));
+        setCategories(categoryData);
+      } catch (error) {
+        console.error("Error loading menu schedules:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [restaurant.id]);
+
+  const reportError = (description: string) => {
+    toast({
+      title: "Erreur",
+      description,
+      variant: "destructive"
+    });
+  };
+
+  const updateDraft = (menuId: string, updates: Partial<MenuDraft>) => {
+    setDrafts(prev => ({ ...prev, [menuId]: { ...prev[menuId], ...updates } }));
+  };
+
+  const updateDraftSchedule = (menuId: string, index: number, updates: Partial<ScheduleDraft>) => {
+    const draft = drafts[menuId];
+    updateDraft(menuId, {
+      schedules: draft.schedules.map((s, i) => (i === index ? { ...s, ...updates } : s))
+    });
+  };
+
+  const toggleDraftCategory = (menuId: string, categoryId: string, checked: boolean) => {
+    const draft = drafts[menuId];
+    updateDraft(menuId, {
+      categoryIds: checked
+        ? [...draft.categoryIds, categoryId]
+        : draft.categoryIds.filter(id => id !== categoryId)
+    });
+  };
+
+  const handleAddMenu = async () => {
+    const name = newMenuName.trim();
+    if (!name) return;
+
+    setSavingId("new");
+    try {
+      await createMenu({
+        restaurant_id: restaurant.id,
+        name,
+        display_order: schedule?.menus.length || 0
+      });
+      setNewMenuName("");
+      await loadSchedule();
+    } catch (error) {
+      reportError("Impossible de créer le menu.");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleSaveMenu = async (menu: MenuWithSchedules) => {
+    const draft = drafts[menu.id];
+    if (!draft.name.trim()) {
+      reportError("Le menu doit avoir un nom.");
+      return;
+    }
+
+    setSavingId(menu.id);
+    try {
+      await Promise.all([
+        draft.name.trim() !== menu.name ? updateMenu(menu.id, { name: draft.name.trim() }) : Promise.resolve(),
+        setMenuSchedules(menu.id, draft.schedules),
+        setMenuCategories(menu.id, draft.categoryIds)
+      ]);
+      toast({
+        title: "Menu enregistré",
+        description: "Les bornes appliqueront ces horaires au prochain client.",
+      });
+      await loadSchedule();
+    } catch (error) {
+      reportError("Impossible d'enregistrer le menu.");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDeleteMenu = async (menu: MenuWithSchedules) => {
+    if (!window.confirm(`Supprimer le menu ${menu.name} ? Ses catégories seront affichées en permanence.`)) {
+      return;
+    }
+
+    try {
+      await deleteMenu(menu.id);
+      await loadSchedule();
+    } catch (error) {
+      reportError("Impossible de supprimer le menu.");
+    }
+  };
+
+  const handleAddOverride = async () => {
+    if (!newOverrideDate) return;
+
+    if (schedule?.overrides.some(o => o.override_date === newOverrideDate)) {
+      reportError("Cette date a déjà un horaire exceptionnel.");
+      return;
+    }
+
+    setSavingId("override");
+    try {
+      await createMenuHolidayOverride({
+        restaurant_id: restaurant.id,
+        override_date: newOverrideDate,
+        label: newOverrideLabel.trim() || null,
+        schedule_weekday: newOverrideWeekday === NONE ? null : Number(newOverrideWeekday)
+      });
+      setNewOverrideDate("");
+      setNewOverrideLabel("");
+      await loadSchedule();
+    } catch (error) {
+      reportError("Impossible d'ajouter la date.");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDeleteOverride = async (id: string) => {
+    try {
+      await deleteMenuHolidayOverride(id);
+      await loadSchedule();
+    } catch (error) {
+      reportError("Impossible de supprimer la date.");
+    }
+  };
+
+  // What the kiosk shows at the chosen moment, from the saved schedules
+  const renderPreview = () => {
+    if (!schedule || !previewDate || !previewTime) return null;
+
+    const moment = toLocalDateTime(previewDate, previewTime);
+    const activeMenuIds = getActiveMenuIds(schedule, moment);
+    const visibleCategories = filterCategoriesBySchedule(categories, schedule, moment);
+    const override = schedule.overrides.find(o => o.override_date === previewDate);
+
+    return (
+      <div className="space-y-2 rounded-md border p-3 text-sm">
+        <p className="font-medium">
+          {weekdayLabel(moment.weekday)} {previewDate} à {previewTime}
+          {override && ` (${override.label || "horaire exceptionnel"})`}
+        </p>
+        <p>
+          Menus ouverts :{" "}
+          {activeMenuIds.length > 0
+            ? schedule.menus.filter(m => activeMenuIds.includes(m.id)).map(m => m.name).join(", ")
+            : "aucun"}
+        </p>
+        <p>
+          Catégories affichées :{" "}
+          {visibleCategories.length > 0 ? visibleCategories.map(c => c.name).join(", ") : "aucune"}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Menus et horaires</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Regroupez des catégories dans des menus (petit-déjeuner, midi, soirée...) affichés uniquement sur leurs créneaux,
+          à l'heure du restaurant ({restaurant.timezone}). Les catégories hors de tout menu sont toujours affichées.
+        </p>
+
+        {isLoading || !schedule ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            {schedule.menus.map(menu => {
+              const draft = drafts[menu.id];
+              if (!draft) return null;
+
+              return (
+                <div key={menu.id} className="space-y-4 rounded-md border p-4">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={draft.name}
+                      onChange={e => updateDraft(menu.id, { name: e.target.value })}
+                      className="w-64 font-medium"
+                    />
+                    <Button variant="ghost" size="icon" onClick={() => handleDeleteMenu(menu)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Créneaux</Label>
+                    {draft.schedules.length === 0 && (
+                      <p className="text-sm text-muted-foreground">Aucun créneau : ce menu n'est jamais affiché.</p>
+                    )}
+                    {draft.schedules.map((s, index) => (
+                      <div key={index} className="flex flex-wrap items-center gap-2">
+                        <Select
+                          value={String(s.weekday)}
+                          onValueChange={value => updateDraftSchedule(menu.id, index, { weekday: Number(value) })}
+                        >
+                          <SelectTrigger className="w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {WEEKDAYS.map(day => (
+                              <SelectItem key={day.value} value={String(day.value)}>{day.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="time"
+                          value={s.start_time}
+                          onChange={e => updateDraftSchedule(menu.id, index, { start_time: e.target.value })}
+                          className="w-32"
+                        />
+                        <span className="text-sm">à</span>
+                        <Input
+                          type="time"
+                          value={s.end_time}
+                          onChange={e => updateDraftSchedule(menu.id, index, { end_time: e.target.value })}
+                          className="w-32"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => updateDraft(menu.id, { schedules: draft.schedules.filter((_, i) => i !== index) })}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => updateDraft(menu.id, {
+                          schedules: [...draft.schedules, { weekday: 1, start_time: "11:30", end_time: "14:30" }]
+                        })}
+                      >
+                        <Plus className="mr-2 h-4 w-4" />
+                        Ajouter un créneau
+                      </Button>
+                      {draft.schedules.length > 0 && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => {
+                            // Copies the first window to every day of the week
+                            const first = draft.schedules[0];
+                            updateDraft(menu.id, {
+                              schedules: WEEKDAYS.map(day => ({ ...first, weekday: day.value }))
+                            });
+                          }}
+                        >
+                          Tous les jours
+                        </Button>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Un créneau qui finit avant son début se termine le lendemain, par exemple 22:00 à 02:00.
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Catégories du menu</Label>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                      {categories.map(category => (
+                        <label key={category.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={draft.categoryIds.includes(category.id)}
+                            onCheckedChange={checked => toggleDraftCategory(menu.id, category.id, checked === true)}
+                          />
+                          {category.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  <Button
+                    onClick={() => handleSaveMenu(menu)}
+                    disabled={savingId === menu.id}
+                    size="sm"
+                    className="bg-green-600 hover:bg-green-700"
+                  >
+                    {savingId === menu.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+                    Enregistrer
+                  </Button>
+                </div>
+              );
+            })}
+
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Petit-déjeuner, Midi..."
+                value={newMenuName}
+                onChange={e => setNewMenuName(e.target.value)}
+                onKeyDown={e => e.key === "Enter" && handleAddMenu()}
+                className="w-64"
+              />
+              <Button onClick={handleAddMenu} disabled={savingId === "new" || !newMenuName.trim()} size="sm">
+                <Plus className="mr-2 h-4 w-4" />
+                Ajouter un menu
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Jours fériés et horaires exceptionnels</Label>
+              {schedule.overrides.map(override => (
+                <div key={override.id} className="flex items-center gap-2 text-sm">
+                  <span className="w-28">{override.override_date}</span>
+                  <span className="w-40 truncate">{override.label || "-"}</span>
+                  <span className="text-muted-foreground">
+                    {override.schedule_weekday === null
+                      ? "Aucun menu programmé"
+                      : `Horaires du ${weekdayLabel(override.schedule_weekday).toLowerCase()}`}
+                  </span>
+                  <Button variant="ghost" size="icon" onClick={() => handleDeleteOverride(override.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  type="date"
+                  value={newOverrideDate}
+                  onChange={e => setNewOverrideDate(e.target.value)}
+                  className="w-40"
+                />
+                <Input
+                  placeholder="Noël, 14 juillet..."
+                  value={newOverrideLabel}
+                  onChange={e => setNewOverrideLabel(e.target.value)}
+                  className="w-40"
+                />
+                <Select value={newOverrideWeekday} onValueChange={setNewOverrideWeekday}>
+                  <SelectTrigger className="w-52">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map(day => (
+                      <SelectItem key={day.value} value={String(day.value)}>Horaires du {day.label.toLowerCase()}</SelectItem>
+                    ))}
+                    <SelectItem value={NONE}>Aucun menu programmé</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleAddOverride} disabled={savingId === "override" || !newOverrideDate} size="sm" variant="outline">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Ajouter
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="flex items-center">
+                <Eye className="mr-2 h-4 w-4" />
+                Aperçu de la borne
+              </Label>
+              <div className="flex flex-wrap items-center gap-2">
+                <Input type="date" value={previewDate} onChange={e => setPreviewDate(e.target.value)} className="w-40" />
+                <Input type="time" value={previewTime} onChange={e => setPreviewTime(e.target.value)} className="w-32" />
+              </div>
+              {renderPreview()}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MenuSchedulesSettings;
@@ -1,27 +1,43 @@
 import { useState, useEffect } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Plus, Edit, Trash2, Loader2, Utensils } from "lucide-react";
+import { Plus, Edit, Trash2, Loader2, Utensils, FileUp, ArrowLeftRight, RotateCcw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Separator } from "@/components/ui/separator";
 import { 
   Restaurant, 
   MenuCategory, 
-  MenuItem
+  MenuItem,
+  ComboWithSlots
 } from "@/types/database-types";
 import { 
-  getCategoriesByRestaurantId, 
-  getMenuItemsByCategory,
-  createCategory,
-  updateCategory,
-  deleteCategory,
-  createMenuItem,
-  updateMenuItem,
-  deleteMenuItem
+  getCombosForRestaurant,
+  createCombo,
+  updateCombo,
+  deleteCombo,
+  setComboSlots,
+  ComboSlotInput
 } from "@/services/kiosk-service";
 import { clearCache, clearMenuCache } from "@/services/cache-service";
 import CategoryForm from "@/components/forms/CategoryForm";
 import MenuItemForm from "@/components/forms/MenuItemForm";
+import ComboForm, { ComboFormValues } from "@/components/forms/ComboForm";
+import NutritionImportDialog from "@/components/restaurant/NutritionImportDialog";
+import MenuTransferDialog from "@/components/restaurant/MenuTransferDialog";
+import MenuDraftBar from "@/components/restaurant/MenuDraftBar";
+import {
+  getDraftCategories,
+  getDraftMenuItems,
+  createDraftCategory,
+  updateDraftCategory,
+  deleteDraftCategory,
+  createDraftMenuItem,
+  updateDraftMenuItem,
+  deleteDraftMenuItem,
+  getDraftMasterLinks,
+  resetDraftOverrides
+} from "@/services/menu-draft-service";
+import { MasterLink } from "@/utils/menu-bundle";
 import { supabase } from "@/integrations/supabase/client";
 import { useIsMobile } from "@/hooks/use-mobile";
 
@@ -125,6 +141,20 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
   const [isDeletingItem, setIsDeletingItem] = useState(false);
   const [selectedItem, setSelectedItem] = useState<MenuItem | null>(null);
 
+  const [combos, setCombos] = useState<ComboWithSlots[]>([]);
+  const [showComboDialog, setShowComboDialog] = useState(false);
+  const [showDeleteComboDialog, setShowDeleteComboDialog] = useState(false);
+  const [isSavingCombo, setIsSavingCombo] = useState(false);
+  const [isDeletingCombo, setIsDeletingCombo] = useState(false);
+  const [selectedCombo, setSelectedCombo] = useState<ComboWithSlots | null>(null);
+
+  const [showNutritionImportDialog, setShowNutritionImportDialog] = useState(false);
+  const [showMenuTransferDialog, setShowMenuTransferDialog] = useState(false);
+  // Bumped after each draft edit so the draft bar recounts the unpublished changes
+  const [draftRevision, setDraftRevision] = useState(0);
+  // Rows following the group master menu, on group locations
+  const [masterLinks, setMasterLinks] = useState<Record<string, MasterLink>>({});
+
   const { toast } = useToast();
 
   const CURRENCY_SYMBOLS: Record<string, string> = {
@@ -151,7 +181,7 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
       
       try {
         setLoading(true);
-        const data = await getCategoriesByRestaurantId(restaurant.id);
+        const data = await getDraftCategories(restaurant.id);
         // Sort categories by display_order
         const sortedCategories = [...data].sort((a, b) => 
           (a.display_order || 0) - (b.display_order || 0)
@@ -181,7 +211,7 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
       
       try {
         setLoading(true);
-        const items = await getMenuItemsByCategory(selectedCategory.id);
+        const items = await getDraftMenuItems(restaurant.id, selectedCategory.id);
         // Sort menu items by display_order
         const sortedItems = [...items].sort((a, b) => 
           (a.display_order || 0) - (b.display_order || 0)
@@ -195,7 +225,81 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
     };
 
     fetchMenuItems();
-  }, [selectedCategory]);
+  }, [restaurant.id, selectedCategory]);
+
+  const reloadMenuItems = async () => {
+    setDraftRevision(revision => revision + 1);
+    if (!selectedCategory) return;
+    const items = await getDraftMenuItems(restaurant.id, selectedCategory.id);
+    setMenuItems([...items].sort((a, b) => (a.display_order || 0) - (b.display_order || 0)));
+  };
+
+  // After an import, a publication or a discarded draft, which may add or remove categories
+  const reloadMenu = async () => {
+    const data = await getDraftCategories(restaurant.id);
+    const sortedCategories = [...data].sort((a, b) => (a.display_order || 0) - (b.display_order || 0));
+    setCategories(sortedCategories);
+    setDraftRevision(revision => revision + 1);
+
+    const current = sortedCategories.find(category => category.id === selectedCategory?.id);
+    if (current) {
+      const items = await getDraftMenuItems(restaurant.id, current.id);
+      setMenuItems([...items].sort((a, b) => (a.display_order || 0) - (b.display_order || 0)));
+    } else {
+      setMenuItems([]);
+      setSelectedCategory(sortedCategories[0] || null);
+    }
+  };
+
+  useEffect(() => {
+    const fetchMasterLinks = async () => {
+      try {
+        setMasterLinks(await getDraftMasterLinks(restaurant.id));
+      } catch (error) {
+        console.error("Error fetching master menu links:", error);
+      }
+    };
+
+    fetchMasterLinks();
+  }, [restaurant.id, draftRevision]);
+
+  const handleResetOverrides = async (item: MenuItem) => {
+    try {
+      await resetDraftOverrides(restaurant.id, item.id);
+      await reloadMenu();
+      toast({
+        title: "Success",
+        description: `${item.name} has the group menu values again.`,
+      });
+    } catch (error) {
+      console.error("Error resetting overrides:", error);
+      toast({
+        title: "Error",
+        description: "Failed to reset the item",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const loadCombos = async () => {
+    try {
+      setCombos(await getCombosForRestaurant(restaurant.id));
+    } catch (error) {
+      console.error("Error fetching combos:", error);
+    }
+  };
+
+  useEffect(() => {
+    const fetchCombos = async () => {
+      try {
+        setCombos(await getCombosForRestaurant(restaurant.id));
+      } catch (error) {
+        console.error("Error fetching combos:", error);
+      }
+    };
+
+    fetchCombos();
+  }, [restaurant.id]);
 
   const handleAddCategory = async (values: any) => {
     try {
@@ -205,7 +309,7 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
         throw new Error("Restaurant ID is missing");
       }
       
-      const newCategory = await createCategory({
+      const newCategory = await createDraftCategory(restaurant.id, {
         name: values.name,
         name_fr: values.name_fr || null,
         name_en: values.name_en || null,
@@ -244,8 +348,7 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
         setSelectedCategory(newCategory);
       }
       
-      // Clear the menu cache after adding a category
-      clearMenuCache(restaurant.id);
+      setDraftRevision(revision => revision + 1);
       
       toast({
         title: "Success",
@@ -269,7 +372,7 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
     try {
       setIsUpdatingCategory(true);
       
-      const updatedCategory = await updateCategory(categoryId, {
+      const updatedCategory = await updateDraftCategory(restaurant.id, categoryId, {
         name: values.name,
         name_fr: values.name_fr || null,
         name_en: values.name_en || null,
@@ -305,8 +408,7 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
       
       setCategories(updatedCategories);
       
-      // Clear the menu cache after updating a category
-      clearMenuCache(restaurant.id);
+      setDraftRevision(revision => revision + 1);
       
       toast({
         title: "Success",
@@ -332,14 +434,13 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
     try {
       setIsDeletingCategory(true);
       
-      await deleteCategory(categoryToDelete.id);
+      await deleteDraftCategory(restaurant.id, categoryToDelete.id);
       
       setCategories(categories.filter(cat => cat.id !== categoryToDelete.id));
       setMenuItems([]);
       setSelectedCategory(null);
       
-      // Clear the menu cache after deleting a category
-      clearMenuCache(restaurant.id);
+      setDraftRevision(revision => revision + 1);
       
       toast({
         title: "Success",
@@ -365,7 +466,7 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
     try {
       setIsUpdatingItem(true);
       
-      const updatedMenuItem = await updateMenuItem(selectedItem.id, {
+      const updatedMenuItem = await updateDraftMenuItem(restaurant.id, selectedItem.id, {
         name: values.name,
         name_fr: values.name_fr || null,
         name_en: values.name_en || null,
@@ -395,9 +496,18 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
         image: values.image || null,
         topping_categories: values.topping_categories || [],
         tax_percentage: values.tax_percentage ? Number(values.tax_percentage) : null,
+        takeaway_tax_percentage: values.takeaway_tax_percentage ? Number(values.takeaway_tax_percentage) : null,
         display_order: values.display_order ? parseInt(values.display_order, 10) : 0,
         available_from: values.available_from || null,
-        available_until: values.available_until || null
+        available_until: values.available_until || null,
+        allergens: values.allergens || [],
+        dietary_tags: values.dietary_tags || [],
+        spicy_level: values.spicy_level ? parseInt(values.spicy_level, 10) : 0,
+        calories: values.calories ? Number(values.calories) : null,
+        protein: values.protein ? Number(values.protein) : null,
+        carbohydrates: values.carbohydrates ? Number(values.carbohydrates) : null,
+        fat: values.fat ? Number(values.fat) : null,
+        portion_size: values.portion_size || null
       });
       
       const updatedItems = menuItems.map(item => 
@@ -406,8 +516,7 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
       
       setMenuItems(updatedItems);
       
-      // Clear the menu cache after updating a menu item
-      clearMenuCache(restaurant.id);
+      setDraftRevision(revision => revision + 1);
       
       toast({
         title: "Success",
@@ -433,7 +542,7 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
     try {
       setIsCreatingItem(true);
       
-      const newMenuItem = await createMenuItem({
+      const newMenuItem = await createDraftMenuItem(restaurant.id, {
         name: values.name,
         name_fr: values.name_fr || null,
         name_en: values.name_en || null,
@@ -466,8 +575,17 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
         in_stock: true,
         display_order: values.display_order ? parseInt(values.display_order, 10) : 0,
         tax_percentage: values.tax_percentage ? Number(values.tax_percentage) : 10,
+        takeaway_tax_percentage: values.takeaway_tax_percentage ? Number(values.takeaway_tax_percentage) : null,
         available_from: values.available_from || null,
-        available_until: values.available_until || null
+        available_until: values.available_until || null,
+        allergens: values.allergens || [],
+        dietary_tags: values.dietary_tags || [],
+        spicy_level: values.spicy_level ? parseInt(values.spicy_level, 10) : 0,
+        calories: values.calories ? Number(values.calories) : null,
+        protein: values.protein ? Number(values.protein) : null,
+        carbohydrates: values.carbohydrates ? Number(values.carbohydrates) : null,
+        fat: values.fat ? Number(values.fat) : null,
+        portion_size: values.portion_size || null
       });
       
       const updatedItems = [...menuItems, newMenuItem].sort((a, b) => 
@@ -475,8 +593,7 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
       );
       setMenuItems(updatedItems);
       
-      // Clear the menu cache after adding a menu item
-      clearMenuCache(restaurant.id);
+      setDraftRevision(revision => revision + 1);
       
       toast({
         title: "Success",
@@ -502,12 +619,11 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
     try {
       setIsDeletingItem(true);
       
-      await deleteMenuItem(selectedItem.id);
+      await deleteDraftMenuItem(restaurant.id, selectedItem.id);
       
       setMenuItems(menuItems.filter(item => item.id !== selectedItem.id));
       
-      // Clear the menu cache after deleting a menu item
-      clearMenuCache(restaurant.id);
+      setDraftRevision(revision => revision + 1);
       
       toast({
         title: "Success",
@@ -527,6 +643,81 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
     }
   };
 
+  const handleSaveCombo = async (values: ComboFormValues, slots: ComboSlotInput[]) => {
+    if (!selectedCategory) return;
+
+    try {
+      setIsSavingCombo(true);
+
+      const comboData = {
+        name: values.name,
+        description: values.description || null,
+        image: values.image || null,
+        price: Number(values.price),
+        tax_percentage: values.tax_percentage ? Number(values.tax_percentage) : 10,
+        takeaway_tax_percentage: values.takeaway_tax_percentage ? Number(values.takeaway_tax_percentage) : null,
+        display_order: values.display_order ? parseInt(values.display_order, 10) : 0,
+        in_stock: values.in_stock
+      };
+
+      const combo = selectedCombo
+        ? await updateCombo(selectedCombo.id, comboData)
+        : await createCombo({ ...comboData, restaurant_id: restaurant.id, category_id: selectedCategory.id });
+      await setComboSlots(combo.id, slots);
+      await loadCombos();
+
+      // Clear the menu cache so kiosks pick up the combo
+      clearMenuCache(restaurant.id);
+
+      toast({
+        title: "Success",
+        description: `${values.name} has been saved.`,
+      });
+
+      setShowComboDialog(false);
+    } catch (error) {
+      console.error("Error saving combo:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save the combo",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSavingCombo(false);
+    }
+  };
+
+  const handleDeleteCombo = async () => {
+    if (!selectedCombo) return;
+
+    try {
+      setIsDeletingCombo(true);
+
+      await deleteCombo(selectedCombo.id);
+      setCombos(combos.filter(combo => combo.id !== selectedCombo.id));
+
+      clearMenuCache(restaurant.id);
+
+      toast({
+        title: "Success",
+        description: "The combo has been deleted.",
+      });
+
+      setShowDeleteComboDialog(false);
+    } catch (error) {
+      console.error("Error deleting combo:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the combo",
+        variant: "destructive"
+      });
+    } finally {
+      setIsDeletingCombo(false);
+    }
+  };
+
+  const categoryCombos = combos.filter(combo => combo.category_id === selectedCategory?.id);
+
   return (
     <div className="space-y-4 sm:space-y-6">
       <div>
@@ -536,10 +727,27 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
         </p>
       </div>
 
-      <Button onClick={() => setShowCreateCategoryDialog(true)} className="bg-kiosk-primary w-full sm:w-auto">
-        <Plus className="mr-2 h-4 w-4" />
-        Add Category
-      </Button>
+      <MenuDraftBar
+        restaurant={restaurant}
+        currencySymbol={getCurrencySymbol(restaurant.currency)}
+        revision={draftRevision}
+        onChanged={reloadMenu}
+      />
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Button onClick={() => setShowCreateCategoryDialog(true)} className="bg-kiosk-primary w-full sm:w-auto">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Category
+        </Button>
+        <Button variant="outline" onClick={() => setShowNutritionImportDialog(true)} className="w-full sm:w-auto">
+          <FileUp className="mr-2 h-4 w-4" />
+          Import Nutrition (CSV)
+        </Button>
+        <Button variant="outline" onClick={() => setShowMenuTransferDialog(true)} className="w-full sm:w-auto">
+          <ArrowLeftRight className="mr-2 h-4 w-4" />
+          Import / Export Menu
+        </Button>
+      </div>
 
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
         {categories.map((category) => (
@@ -608,10 +816,25 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
                         )}
                       </p>
                       <span className="text-xs text-muted-foreground">Order: {item.display_order || 0}</span>
+                      {masterLinks[item.id] && (
+                        <span className="text-xs text-muted-foreground">
+                          {Object.keys(masterLinks[item.id].overrides).length > 0 ? "Group menu, changed here" : "Group menu"}
+                        </span>
+                      )}
                     </div>
                   </div>
                 </div>
                 <div className="flex space-x-2 self-end sm:self-center mt-2 sm:mt-0">
+                  {masterLinks[item.id] && Object.keys(masterLinks[item.id].overrides).length > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Use the group menu values"
+                      onClick={() => handleResetOverrides(item)}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  )}
                   <Button
                     variant="ghost"
                     size="icon"
@@ -650,6 +873,85 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
               </div>
             )}
           </div>
+
+          <Separator className="my-4 sm:my-6" />
+
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 sm:gap-0 mb-4">
+            <div>
+              <h2 className="text-xl sm:text-2xl font-bold">Combos - {selectedCategory.name}</h2>
+              <p className="text-sm text-muted-foreground">
+                Bundles of items sold at one price, listed in the selected category.
+              </p>
+            </div>
+            <Button 
+              onClick={() => {
+                setSelectedCombo(null);
+                setShowComboDialog(true);
+              }} 
+              className="bg-kiosk-primary w-full sm:w-auto"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Combo
+            </Button>
+          </div>
+
+          <div className="mt-4 space-y-3 sm:space-y-4">
+            {categoryCombos.map((combo) => (
+              <div
+                key={combo.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between p-3 sm:p-4 border rounded-lg gap-3"
+              >
+                <div className="flex items-center space-x-3 sm:space-x-4">
+                  {combo.image && (
+                    <img 
+                      src={combo.image} 
+                      alt={combo.name} 
+                      className="h-14 w-14 sm:h-16 sm:w-16 object-cover rounded-md"
+                    />
+                  )}
+                  <div>
+                    <h3 className="font-medium">{combo.name}</h3>
+                    <p className="text-xs sm:text-sm text-muted-foreground line-clamp-2">
+                      {combo.slots.map(slot => slot.name).join(" + ")}
+                    </p>
+                    <div className="flex items-center gap-3 mt-1">
+                      <p className="text-sm font-medium">
+                        {getCurrencySymbol(restaurant.currency)}{Number(combo.price).toFixed(2)}
+                      </p>
+                      {!combo.in_stock && <span className="text-xs text-destructive">Out of stock</span>}
+                      <span className="text-xs text-muted-foreground">Order: {combo.display_order || 0}</span>
+                    </div>
+                  </div>
+                </div>
+                <div className="flex space-x-2 self-end sm:self-center mt-2 sm:mt-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      setSelectedCombo(combo);
+                      setShowComboDialog(true);
+                    }}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => {
+                      setSelectedCombo(combo);
+                      setShowDeleteComboDialog(true);
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            {categoryCombos.length === 0 && (
+              <p className="text-sm text-muted-foreground">No combos in this category</p>
+            )}
+          </div>
         </div>
       )}
 
@@ -780,9 +1082,18 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
                 image: selectedItem.image || "",
                 topping_categories: selectedItem.topping_categories || [],
                 tax_percentage: selectedItem.tax_percentage ? selectedItem.tax_percentage.toString() : "10",
+                takeaway_tax_percentage: selectedItem.takeaway_tax_percentage?.toString() ?? "",
                 display_order: selectedItem.display_order?.toString() || "0",
                 available_from: selectedItem.available_from || "",
-                available_until: selectedItem.available_until || ""
+                available_until: selectedItem.available_until || "",
+                allergens: selectedItem.allergens || [],
+                dietary_tags: selectedItem.dietary_tags || [],
+                spicy_level: String(selectedItem.spicy_level ?? 0),
+                calories: selectedItem.calories?.toString() ?? "",
+                protein: selectedItem.protein?.toString() ?? "",
+                carbohydrates: selectedItem.carbohydrates?.toString() ?? "",
+                fat: selectedItem.fat?.toString() ?? "",
+                portion_size: selectedItem.portion_size || ""
               }}
               isLoading={isUpdatingItem}
               restaurantId={restaurant.id}
@@ -791,6 +1102,38 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={showComboDialog} onOpenChange={setShowComboDialog}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{selectedCombo ? "Edit Combo" : "Create Combo"}</DialogTitle>
+          </DialogHeader>
+          <ComboForm
+            key={selectedCombo?.id || "new"}
+            onSubmit={handleSaveCombo}
+            combo={selectedCombo}
+            categories={categories}
+            isLoading={isSavingCombo}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showDeleteComboDialog} onOpenChange={setShowDeleteComboDialog}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Delete Combo</DialogTitle>
+          </DialogHeader>
+          <p>Are you sure you want to delete combo "{selectedCombo?.name}"?</p>
+          <div className="flex justify-end space-x-2 mt-4">
+            <Button variant="secondary" onClick={() => setShowDeleteComboDialog(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteCombo} disabled={isDeletingCombo}>
+              {isDeletingCombo ? "Deleting..." : "Delete"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={showDeleteItemDialog} onOpenChange={setShowDeleteItemDialog}>
         <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
@@ -807,6 +1150,20 @@ const MenuTab = ({ restaurant }: MenuTabProps) => {
           </div>
         </DialogContent>
       </Dialog>
+
+      <NutritionImportDialog
+        open={showNutritionImportDialog}
+        onOpenChange={setShowNutritionImportDialog}
+        restaurantId={restaurant.id}
+        onImported={reloadMenuItems}
+      />
+
+      <MenuTransferDialog
+        open={showMenuTransferDialog}
+        onOpenChange={setShowMenuTransferDialog}
+        restaurant={restaurant}
+        onImported={reloadMenu}
+      />
     </div>
   );
 };
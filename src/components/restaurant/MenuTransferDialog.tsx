@@ -0,0 +1,310 @@
+import { useState, useEffect, useMemo } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, Loader2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Restaurant } from "@/types/database-types";
+import { getDraftSnapshot, importIntoDraft, updateDraftRows } from "@/services/menu-draft-service";
+import { downloadCsv, parseCsvRecords, toCsv } from "@/utils/csv";
+import {
+  ConflictMode,
+  MenuBundle,
+  MenuImportAction,
+  MenuImportKind,
+  MenuSnapshot,
+  PriceImportRow,
+  PRICE_CSV_HEADER,
+  buildMenuBundle,
+  buildPriceCsvRows,
+  parseMenuBundle,
+  planMenuImport,
+  planPriceImport
+} from "@/utils/menu-bundle";
+
+const KIND_LABELS: Record<MenuImportKind, string> = {
+  category: "Category",
+  item: "Item",
+  topping_category: "Topping category",
+  topping: "Topping"
+};
+
+const ACTION_LABELS: Record<MenuImportAction, string> = {
+  create: "New",
+  update: "Update",
+  unchanged: "Unchanged",
+  skip: "Kept as is"
+};
+
+const formatPrice = (value: number | null) => value === null ? '—' : String(value);
+
+const fileSlug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'menu';
+
+interface MenuTransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  restaurant: Restaurant;
+  onImported: () => void;
+}
+
+// Export of the whole menu as a JSON bundle or a flat price sheet, and their import with a dry run
+const MenuTransferDialog = ({ open, onOpenChange, restaurant, onImported }: MenuTransferDialogProps) => {
+  const [snapshot, setSnapshot] = useState<MenuSnapshot | null>(null);
+  const [bundle, setBundle] = useState<MenuBundle | null>(null);
+  const [priceRows, setPriceRows] = useState<PriceImportRow[]>([]);
+  const [mode, setMode] = useState<ConflictMode>('update');
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        setBundle(null);
+        setPriceRows([]);
+        setFileError(null);
+        setSnapshot(await getDraftSnapshot(restaurant.id));
+      } catch (error) {
+        console.error("Error loading menu for transfer:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load the menu",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [open, restaurant.id, toast]);
+
+  const plan = useMemo(
+    () => bundle && snapshot ? planMenuImport(bundle, snapshot, mode) : null,
+    [bundle, snapshot, mode]
+  );
+
+  const pendingEntries = plan ? plan.entries.filter(entry => entry.action !== 'unchanged') : [];
+  const writeCount = plan ? plan.entries.filter(entry => entry.action === 'create' || entry.action === 'update').length : 0;
+  const validPriceRows = priceRows.filter(row => !row.error && row.changes.length > 0);
+
+  const handleExportJson = () => {
+    if (!snapshot) return;
+    const json = JSON.stringify(buildMenuBundle(restaurant.name, snapshot), null, 2);
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileSlug(restaurant.name)}-menu.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportCsv = () => {
+    if (!snapshot) return;
+    downloadCsv(`${fileSlug(restaurant.name)}-prices.csv`, toCsv(buildPriceCsvRows(snapshot)));
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setBundle(null);
+    setPriceRows([]);
+    setFileError(null);
+    if (!file || !snapshot) return;
+
+    const text = await file.text();
+    if (file.name.toLowerCase().endsWith('.csv')) {
+      setPriceRows(planPriceImport(parseCsvRecords(text), snapshot));
+      return;
+    }
+    try {
+      setBundle(parseMenuBundle(text));
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : "The file could not be read");
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      setImporting(true);
+      if (plan) {
+        await importIntoDraft(restaurant.id, plan);
+      } else {
+        await updateDraftRows(restaurant.id, validPriceRows.map(row => ({
+          kind: row.type,
+          id: row.targetId!,
+          values: Object.fromEntries(row.changes.map(change => [change.field, change.to]))
+        })));
+      }
+
+      toast({
+        title: "Menu imported",
+        description: `${plan ? writeCount : validPriceRows.length} row(s) changed in the draft`,
+      });
+      onImported();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error importing menu:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import the menu",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import / Export Menu</DialogTitle>
+          <DialogDescription>
+            The JSON file holds categories, items, toppings, their links, translations and image references.
+            The CSV file lists prices for bulk edits in a spreadsheet. Both export the draft menu and import into it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !snapshot ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label>Export</Label>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button variant="outline" onClick={handleExportJson}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Menu (JSON)
+                </Button>
+                <Button variant="outline" onClick={handleExportCsv}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Prices (CSV)
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="menu-transfer-file">Import</Label>
+              <Input
+                id="menu-transfer-file"
+                type="file"
+                accept=".json,application/json,.csv,text/csv"
+                onChange={e => handleFile(e.target.files?.[0])}
+              />
+              <p className="text-xs text-muted-foreground">
+                Price sheet columns: {PRICE_CSV_HEADER.join(', ')}. Rows are matched by id, or by category and name
+                when the id is empty. An empty promotion or tax cell clears it.
+              </p>
+              {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+            </div>
+
+            {bundle && plan && (
+              <div className="space-y-4">
+                <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+                  <div className="space-y-1">
+                    <Label>Existing items with the same id or name</Label>
+                    <Select value={mode} onValueChange={value => setMode(value as ConflictMode)}>
+                      <SelectTrigger className="w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="update">Update them</SelectItem>
+                        <SelectItem value="skip">Keep them as they are</SelectItem>
+                        <SelectItem value="copy">Add everything as new</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex flex-wrap gap-2 text-sm">
+                    {(['create', 'update', 'skip', 'unchanged'] as MenuImportAction[]).map(action => {
+                      const count = plan.entries.filter(entry => entry.action === action).length;
+                      return count > 0 && <Badge key={action} variant="secondary">{ACTION_LABELS[action]}: {count}</Badge>;
+                    })}
+                  </div>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Exported from {bundle.restaurant_name} on {new Date(bundle.exported_at).toLocaleString()}.
+                  Nothing is removed from the current menu.
+                </p>
+
+                {pendingEntries.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Action</TableHead>
+                        <TableHead>Changes</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {pendingEntries.map(entry => (
+                        <TableRow key={`${entry.kind}-${entry.sourceId}`}>
+                          <TableCell>{KIND_LABELS[entry.kind]}</TableCell>
+                          <TableCell>{entry.name}</TableCell>
+                          <TableCell>{ACTION_LABELS[entry.action]}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground">{entry.changes.join(', ') || '—'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            )}
+
+            {priceRows.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Line</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Changes</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {priceRows.map(row => (
+                    <TableRow key={row.line}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>{row.type}</TableCell>
+                      <TableCell>{row.name}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {row.changes.map(change => `${change.field}: ${formatPrice(change.from)} → ${formatPrice(change.to)}`).join(', ') || '—'}
+                      </TableCell>
+                      <TableCell className={row.error ? 'text-destructive' : 'text-green-600'}>
+                        {row.error || (row.changes.length > 0 ? 'OK' : 'Unchanged')}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            className="bg-kiosk-primary"
+            onClick={handleImport}
+            disabled={importing || (plan ? writeCount === 0 : validPriceRows.length === 0)}
+          >
+            {importing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            Import {plan ? writeCount : validPriceRows.length} row(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MenuTransferDialog;
@@ -0,0 +1,218 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, Loader2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { MenuItem, Topping } from "@/types/database-types";
+import { getDraftSnapshot, updateDraftRows } from "@/services/menu-draft-service";
+import { downloadCsv, parseCsvRecords, toCsv } from "@/utils/csv";
+import { NUTRITION_FIELDS } from "@/utils/nutrition";
+
+const HEADER = ['type', 'id', 'name', ...NUTRITION_FIELDS, 'portion_size'];
+
+type NutritionUpdates = Partial<Pick<MenuItem, 'calories' | 'protein' | 'carbohydrates' | 'fat' | 'portion_size'>>;
+
+type ImportRow = {
+  line: number;
+  type: 'item' | 'topping';
+  name: string;
+  targetId: string | null;
+  updates: NutritionUpdates;
+  error: string | null;
+};
+
+interface NutritionImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  restaurantId: string;
+  onImported: () => void;
+}
+
+// Numbers accept a decimal comma; undefined keeps the current value, NaN is invalid
+const parseNutritionValue = (value: string): number | undefined => {
+  if (value === '') return undefined;
+  const number = Number(value.replace(',', '.'));
+  return number >= 0 ? number : NaN;
+};
+
+const matchRow = (
+  record: Record<string, string>,
+  line: number,
+  menuItems: MenuItem[],
+  toppings: Topping[]
+): ImportRow => {
+  const type = record.type?.toLowerCase() === 'topping' ? 'topping' : 'item';
+  const candidates: { id: string; name: string }[] = type === 'topping' ? toppings : menuItems;
+  const name = record.name || '';
+  const target = record.id
+    ? candidates.find(candidate => candidate.id === record.id)
+    : candidates.find(candidate => candidate.name.trim().toLowerCase() === name.toLowerCase());
+
+  const updates: NutritionUpdates = {};
+  let error: string | null = target ? null : `No matching ${type === 'topping' ? 'topping' : 'menu item'}`;
+  NUTRITION_FIELDS.forEach(field => {
+    const value = parseNutritionValue(record[field] ?? '');
+    if (Number.isNaN(value)) error = error || `Invalid ${field}`;
+    else if (value !== undefined) updates[field] = value;
+  });
+  if (record.portion_size) updates.portion_size = record.portion_size;
+
+  return { line, type, name: name || record.id || '', targetId: target?.id ?? null, updates, error };
+};
+
+const NutritionImportDialog = ({ open, onOpenChange, restaurantId, onImported }: NutritionImportDialogProps) => {
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [toppings, setToppings] = useState<Topping[]>([]);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        setRows([]);
+        const snapshot = await getDraftSnapshot(restaurantId);
+        setMenuItems(snapshot.items);
+        setToppings(snapshot.toppings);
+      } catch (error) {
+        console.error("Error loading menu for nutrition import:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load the menu",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [open, restaurantId, toast]);
+
+  const handleDownloadTemplate = () => {
+    const nutritionCells = (source: MenuItem | Topping) => [
+      ...NUTRITION_FIELDS.map(field => source[field] ?? ''),
+      source.portion_size ?? ''
+    ];
+    downloadCsv('nutrition.csv', toCsv([
+      HEADER,
+      ...menuItems.map(item => ['item', item.id, item.name, ...nutritionCells(item)]),
+      ...toppings.map(topping => ['topping', topping.id, topping.name, ...nutritionCells(topping)])
+    ]));
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const records = parseCsvRecords(await file.text());
+    // Line numbers as shown in a spreadsheet, after the header
+    setRows(records.map((record, index) => matchRow(record, index + 2, menuItems, toppings)));
+  };
+
+  const validRows = rows.filter(row => !row.error && Object.keys(row.updates).length > 0);
+
+  const handleImport = async () => {
+    try {
+      setImporting(true);
+      await updateDraftRows(restaurantId, validRows.map(row => ({ kind: row.type, id: row.targetId!, values: row.updates })));
+
+      toast({
+        title: "Nutrition imported",
+        description: `${validRows.length} row(s) updated in the draft`,
+      });
+      onImported();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error importing nutrition values:", error);
+      toast({
+        title: "Error",
+        description: "Failed to import nutrition values",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Nutrition (CSV)</DialogTitle>
+          <DialogDescription>
+            Columns: {HEADER.join(', ')}. Rows are matched by id, or by name when the id is empty.
+            Empty cells keep the current value.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button variant="outline" onClick={handleDownloadTemplate}>
+                <Download className="mr-2 h-4 w-4" />
+                Download current values
+              </Button>
+              <Input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={e => handleFile(e.target.files?.[0])}
+              />
+            </div>
+
+            {rows.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Line</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Values</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.line}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>{row.type}</TableCell>
+                      <TableCell>{row.name}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {Object.entries(row.updates).map(([field, value]) => `${field}: ${value}`).join(', ') || '—'}
+                      </TableCell>
+                      <TableCell className={row.error ? 'text-destructive' : 'text-green-600'}>
+                        {row.error || (Object.keys(row.updates).length > 0 ? 'OK' : 'Nothing to update')}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            className="bg-kiosk-primary"
+            onClick={handleImport}
+            disabled={importing || validRows.length === 0}
+          >
+            {importing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            Import {validRows.length} row(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NutritionImportDialog;
@@ -0,0 +1,339 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Plus, Trash2, Check } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { OpeningHours, Restaurant, RestaurantOpeningSchedule } from "@/types/database-types";
+import {
+  getOpeningSchedule,
+  setOpeningHours,
+  createRestaurantClosure,
+  deleteRestaurantClosure,
+  updateRestaurant
+} from "@/services/kiosk-service";
+import { getLocalDateTime } from "@/utils/menu-schedule";
+import { isRestaurantOpen } from "@/utils/opening-hours";
+
+// Monday first, as on French calendars; values follow Date.getDay()
+const WEEKDAYS = [
+  { value: 1, label: "Lundi" },
+  { value: 2, label: "Mardi" },
+  { value: 3, label: "Mercredi" },
+  { value: 4, label: "Jeudi" },
+  { value: 5, label: "Vendredi" },
+  { value: 6, label: "Samedi" },
+  { value: 0, label: "Dimanche" }
+];
+
+type HoursDraft = Pick<OpeningHours, "weekday" | "open_time" | "close_time">;
+
+const toDraft = (hours: OpeningHours[]): HoursDraft[] =>
+  hours.map(h => ({
+    weekday: h.weekday,
+    open_time: h.open_time.slice(0, 5),
+    close_time: h.close_time.slice(0, 5)
+  }));
+
+interface OpeningHoursSettingsProps {
+  restaurant: Restaurant;
+  onRestaurantUpdated?: (restaurant: Restaurant) => void;
+}
+
+const OpeningHoursSettings = ({ restaurant, onRestaurantUpdated }: OpeningHoursSettingsProps) => {
+  const [schedule, setSchedule] = useState<RestaurantOpeningSchedule | null>(null);
+  const [hours, setHours] = useState<HoursDraft[]>([]);
+  const [lastOrderMinutes, setLastOrderMinutes] = useState(restaurant.last_order_minutes ?? 0);
+  const [newClosureStart, setNewClosureStart] = useState("");
+  const [newClosureEnd, setNewClosureEnd] = useState("");
+  const [newClosureLabel, setNewClosureLabel] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadSchedule = async () => {
+    const data = await getOpeningSchedule(restaurant.id);
+    setSchedule(data);
+    setHours(toDraft(data.hours));
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        const data = await getOpeningSchedule(restaurant.id);
+        setSchedule(data);
+        setHours(toDraft(data.hours));
+      } catch (error) {
+        console.error("Error loading opening hours:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [restaurant.id]);
+
+  useEffect(() => {
+    setLastOrderMinutes(restaurant.last_order_minutes ?? 0);
+  }, [restaurant]);
+
+  const reportError = (description: string) => {
+    toast({
+      title: "Erreur",
+      description,
+      variant: "destructive"
+    });
+  };
+
+  const updateHours = (index: number, updates: Partial<HoursDraft>) => {
+    setHours(prev => prev.map((h, i) => (i === index ? { ...h, ...updates } : h)));
+  };
+
+  const handleSaveHours = async () => {
+    setSavingId("hours");
+    try {
+      await setOpeningHours(restaurant.id, hours);
+      toast({
+        title: "Horaires enregistrés",
+        description: "Les bornes se fermeront en dehors de ces horaires.",
+      });
+      await loadSchedule();
+    } catch (error) {
+      reportError("Impossible d'enregistrer les horaires.");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleSaveLastOrder = async () => {
+    setSavingId("lastOrder");
+    try {
+      await updateRestaurant(restaurant.id, { last_order_minutes: lastOrderMinutes });
+      toast({
+        title: "Dernière commande enregistrée",
+        description: "Le délai avant fermeture a été mis à jour.",
+      });
+
+      if (onRestaurantUpdated) {
+        onRestaurantUpdated({ ...restaurant, last_order_minutes: lastOrderMinutes });
+      }
+      await loadSchedule();
+    } catch (error) {
+      console.error("Error updating last order cutoff:", error);
+      reportError("Impossible d'enregistrer le délai de dernière commande.");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleAddClosure = async () => {
+    if (!newClosureStart) return;
+
+    const endsOn = newClosureEnd || newClosureStart;
+    if (endsOn < newClosureStart) {
+      reportError("La fin de la fermeture doit suivre son début.");
+      return;
+    }
+
+    setSavingId("closure");
+    try {
+      await createRestaurantClosure({
+        restaurant_id: restaurant.id,
+        starts_on: newClosureStart,
+        ends_on: endsOn,
+        label: newClosureLabel.trim() || null
+      });
+      setNewClosureStart("");
+      setNewClosureEnd("");
+      setNewClosureLabel("");
+      await loadSchedule();
+    } catch (error) {
+      reportError("Impossible d'ajouter la fermeture.");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDeleteClosure = async (id: string) => {
+    try {
+      await deleteRestaurantClosure(id);
+      await loadSchedule();
+    } catch (error) {
+      reportError("Impossible de supprimer la fermeture.");
+    }
+  };
+
+  const isOpenNow = schedule ? isRestaurantOpen(schedule, getLocalDateTime(schedule.timezone)) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Horaires d'ouverture</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          En dehors de ces horaires, à l'heure du restaurant ({restaurant.timezone}), les bornes affichent un écran de fermeture
+          et les commandes sont refusées. Sans aucun horaire, le restaurant est toujours ouvert.
+        </p>
+
+        {isLoading || !schedule ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <p className="text-sm font-medium">
+              Actuellement : {isOpenNow ? "ouvert" : "fermé"}
+            </p>
+
+            <div className="space-y-2">
+              <Label>Horaires de la semaine</Label>
+              {hours.length === 0 && (
+                <p className="text-sm text-muted-foreground">Aucun horaire : les bornes prennent des commandes à toute heure.</p>
+              )}
+              {hours.map((h, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <Select value={String(h.weekday)} onValueChange={value => updateHours(index, { weekday: Number(value) })}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEKDAYS.map(day => (
+                        <SelectItem key={day.value} value={String(day.value)}>{day.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="time"
+                    value={h.open_time}
+                    onChange={e => updateHours(index, { open_time: e.target.value })}
+                    className="w-32"
+                  />
+                  <span className="text-sm">à</span>
+                  <Input
+                    type="time"
+                    value={h.close_time}
+                    onChange={e => updateHours(index, { close_time: e.target.value })}
+                    className="w-32"
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => setHours(prev => prev.filter((_, i) => i !== index))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setHours(prev => [...prev, { weekday: 1, open_time: "11:00", close_time: "22:00" }])}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Ajouter un horaire
+                </Button>
+                {hours.length > 0 && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      // Copies the first day's hours, split shifts included, to every day of the week
+                      const firstDay = hours.filter(h => h.weekday === hours[0].weekday);
+                      setHours(WEEKDAYS.flatMap(day => firstDay.map(h => ({ ...h, weekday: day.value }))));
+                    }}
+                  >
+                    Tous les jours
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Ajoutez deux horaires le même jour pour une coupure, par exemple 11:30 à 14:30 puis 18:30 à 22:30.
+                Un horaire qui finit avant son début se termine le lendemain.
+              </p>
+              <Button
+                onClick={handleSaveHours}
+                disabled={savingId === "hours"}
+                size="sm"
+                className="bg-green-600 hover:bg-green-700"
+              >
+                {savingId === "hours" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+                Enregistrer
+              </Button>
+            </div>
+
+            <div>
+              <Label htmlFor="lastOrderMinutes">Dernière commande avant la fermeture (minutes)</Label>
+              <div className="flex items-center gap-2 mt-2">
+                <Input
+                  id="lastOrderMinutes"
+                  type="number"
+                  min={0}
+                  max={240}
+                  value={lastOrderMinutes}
+                  onChange={e => setLastOrderMinutes(Math.min(240, Math.max(0, Number(e.target.value) || 0)))}
+                  className="w-32"
+                />
+                <Button
+                  onClick={handleSaveLastOrder}
+                  disabled={savingId === "lastOrder"}
+                  size="sm"
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  {savingId === "lastOrder" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+                  Enregistrer
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Fermetures exceptionnelles</Label>
+              {schedule.closures.map(closure => (
+                <div key={closure.id} className="flex items-center gap-2 text-sm">
+                  <span className="w-56">
+                    {closure.starts_on === closure.ends_on
+                      ? closure.starts_on
+                      : `${closure.starts_on} au ${closure.ends_on}`}
+                  </span>
+                  <span className="w-40 truncate">{closure.label || "-"}</span>
+                  <Button variant="ghost" size="icon" onClick={() => handleDeleteClosure(closure.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  type="date"
+                  value={newClosureStart}
+                  onChange={e => setNewClosureStart(e.target.value)}
+                  className="w-40"
+                />
+                <span className="text-sm">au</span>
+                <Input
+                  type="date"
+                  value={newClosureEnd}
+                  min={newClosureStart}
+                  onChange={e => setNewClosureEnd(e.target.value)}
+                  className="w-40"
+                />
+                <Input
+                  placeholder="Congés, travaux..."
+                  value={newClosureLabel}
+                  onChange={e => setNewClosureLabel(e.target.value)}
+                  className="w-40"
+                />
+                <Button onClick={handleAddClosure} disabled={savingId === "closure" || !newClosureStart} size="sm" variant="outline">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Ajouter
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">Laissez la date de fin vide pour une fermeture d'un seul jour.</p>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OpeningHoursSettings;
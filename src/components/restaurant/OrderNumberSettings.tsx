@@ -0,0 +1,231 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Check, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { OrderNumberReset, Restaurant } from "@/types/database-types";
+import { updateRestaurant } from "@/services/kiosk-service";
+import { getTimeZones, isValidTimeZone } from "@/utils/menu-schedule";
+
+interface OrderNumberSettingsProps {
+  restaurant: Restaurant;
+  onRestaurantUpdated?: (restaurant: Restaurant) => void;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const TIMEZONES = getTimeZones();
+
+const formatPreview = (prefix: string, padding: number, value: number) => {
+  const digits = String(value);
+  return prefix + (digits.length < padding ? digits.padStart(padding, "0") : digits);
+};
+
+const OrderNumberSettings = ({ restaurant, onRestaurantUpdated }: OrderNumberSettingsProps) => {
+  const [reset, setReset] = useState<OrderNumberReset>((restaurant.order_number_reset as OrderNumberReset) || "daily");
+  const [resetTimes, setResetTimes] = useState<string[]>(restaurant.order_number_reset_times || ["00:00"]);
+  const [padding, setPadding] = useState(restaurant.order_number_padding || 3);
+  const [prefixDineIn, setPrefixDineIn] = useState(restaurant.order_number_prefix_dine_in || "");
+  const [prefixTakeaway, setPrefixTakeaway] = useState(restaurant.order_number_prefix_takeaway || "");
+  const [timezone, setTimezone] = useState(restaurant.timezone || "Europe/Paris");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setReset((restaurant.order_number_reset as OrderNumberReset) || "daily");
+    setResetTimes(restaurant.order_number_reset_times || ["00:00"]);
+    setPadding(restaurant.order_number_padding || 3);
+    setPrefixDineIn(restaurant.order_number_prefix_dine_in || "");
+    setPrefixTakeaway(restaurant.order_number_prefix_takeaway || "");
+    setTimezone(restaurant.timezone || "Europe/Paris");
+  }, [restaurant]);
+
+  const updateResetTime = (index: number, value: string) => {
+    setResetTimes(prev => prev.map((time, i) => (i === index ? value : time)));
+  };
+
+  const handleSave = async () => {
+    const times = reset === "daily" ? resetTimes.slice(0, 1) : resetTimes;
+
+    if (reset !== "never" && (times.length === 0 || times.some(time => !TIME_PATTERN.test(time)))) {
+      toast({
+        title: "Heure invalide",
+        description: "Les heures de remise à zéro doivent être au format HH:MM.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Orders, opening hours and stock resets are computed in this zone: an unknown name would break them
+    if (!isValidTimeZone(timezone)) {
+      toast({
+        title: "Fuseau horaire invalide",
+        description: `« ${timezone} » n'est pas un fuseau horaire connu.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const updates = {
+        order_number_reset: reset,
+        order_number_reset_times: times.length > 0 ? [...times].sort() : ["00:00"],
+        order_number_padding: padding,
+        order_number_prefix_dine_in: prefixDineIn.trim() || null,
+        order_number_prefix_takeaway: prefixTakeaway.trim() || null,
+        timezone
+      };
+
+      await updateRestaurant(restaurant.id, updates);
+
+      toast({
+        title: "Numérotation enregistrée",
+        description: "Les nouveaux paramètres s'appliqueront à la prochaine commande.",
+      });
+
+      if (onRestaurantUpdated) {
+        onRestaurantUpdated({ ...restaurant, ...updates });
+      }
+    } catch (error) {
+      console.error("Error updating order numbering:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible d'enregistrer la numérotation des commandes.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Numérotation des commandes</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="orderNumberReset">Remise à zéro du compteur</Label>
+          <select
+            id="orderNumberReset"
+            value={reset}
+            onChange={e => setReset(e.target.value as OrderNumberReset)}
+            className="w-full px-3 py-2 border rounded-md bg-white mt-2"
+          >
+            <option value="daily">Chaque jour</option>
+            <option value="shift">À chaque service</option>
+            <option value="never">Jamais</option>
+          </select>
+        </div>
+
+        {reset !== "never" && (
+          <div className="space-y-2">
+            <Label>{reset === "daily" ? "Heure de début de journée" : "Heures de début de service"}</Label>
+            {(reset === "daily" ? resetTimes.slice(0, 1) : resetTimes).map((time, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  value={time}
+                  onChange={e => updateResetTime(index, e.target.value)}
+                  className="w-40"
+                />
+                {reset === "shift" && resetTimes.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setResetTimes(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {reset === "shift" && (
+              <Button variant="outline" size="sm" onClick={() => setResetTimes(prev => [...prev, "18:00"])}>
+                <Plus className="mr-2 h-4 w-4" />
+                Ajouter un service
+              </Button>
+            )}
+          </div>
+        )}
+
+        <div>
+          <Label htmlFor="restaurantTimezone">Fuseau horaire</Label>
+          <select
+            id="restaurantTimezone"
+            value={timezone}
+            onChange={e => setTimezone(e.target.value)}
+            className="w-full px-3 py-2 border rounded-md bg-white mt-2"
+          >
+            {(TIMEZONES.includes(timezone) ? TIMEZONES : [timezone, ...TIMEZONES]).map(zone => (
+              <option key={zone} value={zone}>{zone}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="prefixDineIn">Préfixe sur place</Label>
+            <Input
+              id="prefixDineIn"
+              value={prefixDineIn}
+              onChange={e => setPrefixDineIn(e.target.value)}
+              placeholder="S-"
+              maxLength={5}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <Label htmlFor="prefixTakeaway">Préfixe à emporter</Label>
+            <Input
+              id="prefixTakeaway"
+              value={prefixTakeaway}
+              onChange={e => setPrefixTakeaway(e.target.value)}
+              placeholder="T-"
+              maxLength={5}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <Label htmlFor="orderNumberPadding">Nombre de chiffres</Label>
+            <Input
+              id="orderNumberPadding"
+              type="number"
+              min={1}
+              max={6}
+              value={padding}
+              onChange={e => setPadding(Math.min(6, Math.max(1, Number(e.target.value) || 1)))}
+              className="mt-2"
+            />
+          </div>
+        </div>
+
+        <div className="text-xs text-muted-foreground">
+          Exemple : {formatPreview(prefixTakeaway.trim(), padding, 42)}. Une borne peut utiliser son propre préfixe en ajoutant <code>?prefix=B-</code> à son adresse. Chaque préfixe a sa propre numérotation.
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isSaving} className="bg-kiosk-primary">
+            {isSaving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Sauvegarde...
+              </>
+            ) : (
+              <>
+                <Check className="mr-2 h-4 w-4" />
+                Enregistrer la numérotation
+              </>
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrderNumberSettings;
@@ -6,7 +6,8 @@ import { Separator } from "@/components/ui/separator";
 import { ArrowLeft, Check } from "lucide-react";
 import { CartItem } from "@/types/database-types";
 import OrderReceipt from "@/components/kiosk/OrderReceipt";
-import { printReceipt } from "@/utils/print-utils";
+import { printReceipt, encodePrintContent } from "@/utils/print-utils";
+import { enqueuePrintJobs, dispatchPrintJobs, getPrintSettings } from "@/services/kiosk-service";
 import { supabase } from "@/integrations/supabase/client";
 import { calculateCartTotals } from "@/utils/price-utils";
 import { useIsMobile } from "@/hooks/use-mobile";
@@ -131,18 +132,10 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({
     if (restaurant?.id) {
       try {
         console.log("Device info - Width:", window.innerWidth, "isMobile:", isMobile, "userAgent:", navigator.userAgent);
-        const { data: printConfig, error } = await supabase
-          .from('restaurant_print_config')
-          .select('api_key, configured_printers, browser_printing_enabled')
-          .eq('restaurant_id', restaurant.id)
-          .single();
-        if (error) {
-          console.error("Error fetching print configuration:", error);
-          return;
-        }
+        const printConfig = await getPrintSettings(restaurant.id);
         const shouldUseBrowserPrinting = 
           !isMobile && 
-          (printConfig === null || printConfig.browser_printing_enabled !== false);
+          printConfig.browser_printing_enabled !== false;
         if (shouldUseBrowserPrinting) {
           console.log("Using browser printing for receipt");
           toast({
@@ -166,18 +159,14 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({
           console.log("Browser printing disabled for this device or restaurant");
           if (isMobile) {
             console.log("Browser printing disabled because this is a mobile or tablet device");
-          } else if (printConfig?.browser_printing_enabled === false) {
+          } else if (printConfig.browser_printing_enabled === false) {
             console.log("Browser printing disabled in restaurant settings");
           }
         }
-        if (printConfig?.api_key && printConfig?.configured_printers) {
-          const printerArray = Array.isArray(printConfig.configured_printers) 
-            ? printConfig.configured_printers 
-            : [];
-          const printerIds = printerArray.map(id => String(id));
+        if (printConfig.printnode_configured) {
+          const printerIds = printConfig.configured_printers;
           if (printerIds.length > 0) {
             await sendReceiptToPrintNode(
-              printConfig.api_key,
               printerIds,
               {
                 restaurant,
@@ -206,7 +195,6 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({
   };
   
   const sendReceiptToPrintNode = async (
-    apiKey: string,
     printerIds: string[],
     orderData: {
       restaurant: typeof restaurant;
@@ -224,40 +212,17 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({
     try {
       const receiptContent = generatePrintNodeReceipt(orderData);
       
-      // Fix: Properly encode special characters for UTF-8
-      const textEncoder = new TextEncoder();
-      const encodedBytes = textEncoder.encode(receiptContent);
-      const encodedContent = btoa(
-        Array.from(encodedBytes)
-          .map(byte => String.fromCharCode(byte))
-          .join('')
-      );
+      const content = encodePrintContent(receiptContent);
       
-      console.log("Sending receipt to PrintNode printers:", printerIds);
-      for (const printerId of printerIds) {
-        console.log(`Sending to printer ID: ${printerId}`);
-        const response = await fetch('https://api.printnode.com/printjobs', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Basic ${btoa(apiKey + ':')}`
-          },
-          body: JSON.stringify({
-            printer: parseInt(printerId, 10) || printerId,
-            title: `Order #${orderData.orderNumber}`,
-            contentType: "raw_base64",
-            content: encodedContent,
-            source: "Restaurant Kiosk"
-          })
-        });
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error(`PrintNode API error: ${response.status}`, errorText);
-          throw new Error(`Error sending print job: ${response.status} - ${errorText}`);
-        } else {
-          console.log(`PrintNode receipt sent successfully to printer ${printerId}`);
-        }
-      }
+      console.log("Queuing receipt for PrintNode printers:", printerIds);
+      await enqueuePrintJobs(printerIds.map(printerId => ({
+        restaurant_id: restaurant.id,
+        job_type: 'receipt',
+        printer_id: printerId,
+        title: `Order #${orderData.orderNumber}`,
+        content_base64: content
+      })));
+      await dispatchPrintJobs(restaurant.id);
     } catch (error) {
       console.error("Error sending receipt to PrintNode:", error);
     }
@@ -2,12 +2,13 @@
 import React, { useState, useEffect } from "react";
 import { Restaurant, OrderStatus } from "@/types/database-types";
 import { supabase } from "@/integrations/supabase/client";
-import { Clock, ChefHat, CheckCircle, XCircle, Trash2, Calendar, Filter } from "lucide-react";
+import { Clock, ChefHat, CheckCircle, XCircle, Trash2, Calendar, Filter, BellRing, Printer, CreditCard } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { updateOrderStatus } from "@/services/kiosk-service";
+import ReprintOrderDialog from "@/components/restaurant/ReprintOrderDialog";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -35,11 +36,13 @@ type OrderItem = {
   options?: string[];
   specialInstructions?: string;
   toppings?: Array<{name: string, price: number}>;
+  components?: string[]; // items of a combo line
 };
 
 type Order = {
   id: string;
-  orderNumber: number;
+  orderNumber: string;
+  provisionalNumber?: string; // ticket number printed while the kiosk was offline
   restaurantId: string;
   status: OrderStatus;
   items: OrderItem[];
@@ -49,15 +52,19 @@ type Order = {
 };
 
 const statusColors = {
+  awaiting_payment: "bg-gray-100 text-gray-800",
   pending: "bg-yellow-100 text-yellow-800",
   preparing: "bg-blue-100 text-blue-800",
+  ready: "bg-purple-100 text-purple-800",
   completed: "bg-green-100 text-green-800",
   cancelled: "bg-red-100 text-red-800"
 };
 
 const statusIcons = {
+  awaiting_payment: <CreditCard className="h-4 w-4" />,
   pending: <Clock className="h-4 w-4" />,
   preparing: <ChefHat className="h-4 w-4" />,
+  ready: <BellRing className="h-4 w-4" />,
   completed: <CheckCircle className="h-4 w-4" />,
   cancelled: <XCircle className="h-4 w-4" />
 };
@@ -75,6 +82,7 @@ const OrdersTab = ({ restaurant }: OrdersTabProps) => {
   const [totalOrders, setTotalOrders] = useState(0);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [orderToDelete, setOrderToDelete] = useState<string | null>(null);
+  const [orderToReprint, setOrderToReprint] = useState<string | null>(null);
   const ordersPerPage = 10;
   const { toast } = useToast();
 
@@ -116,11 +124,13 @@ const OrdersTab = ({ restaurant }: OrdersTabProps) => {
                 quantity,
                 price,
                 special_instructions,
+                parent_order_item_id,
                 menu_items (
                   id,
                   name,
                   description
-                )
+                ),
+                combos ( name )
               `)
               .eq("order_id", order.id);
 
@@ -165,7 +175,7 @@ const OrdersTab = ({ restaurant }: OrdersTabProps) => {
               }
               
               return {
-                name: item.menu_items?.name || "Unknown Item",
+                name: item.menu_items?.name || item.combos?.name || "Unknown Item",
                 quantity: item.quantity,
                 price: item.price,
                 specialInstructions: item.special_instructions || undefined,
@@ -173,13 +183,24 @@ const OrdersTab = ({ restaurant }: OrdersTabProps) => {
               };
             }));
 
+            // Combo components are listed under their combo line
+            const items = processedItems
+              .map((processed, i) => {
+                const components = orderItems
+                  .filter(component => component.parent_order_item_id === orderItems[i].id)
+                  .map(component => component.menu_items?.name || "Unknown Item");
+                return components.length > 0 ? { ...processed, components } : processed;
+              })
+              .filter((_, i) => !orderItems[i].parent_order_item_id);
+
             const startOrderNumber = ((currentPage - 1) * ordersPerPage);
             return {
               id: order.id,
-              orderNumber: totalOrders - (startOrderNumber + index),
+              orderNumber: order.order_number || String(totalOrders - (startOrderNumber + index)),
+              provisionalNumber: order.provisional_number || undefined,
               restaurantId: order.restaurant_id,
               status: order.status as OrderStatus,
-              items: processedItems,
+              items,
               total: order.total,
               date: new Date(order.created_at),
               customerName: order.customer_name || undefined
@@ -394,6 +415,12 @@ const OrdersTab = ({ restaurant }: OrdersTabProps) => {
                   <span>All Statuses</span>
                 </div>
               </SelectItem>
+              <SelectItem value="awaiting_payment">
+                <div className="flex items-center space-x-2">
+                  <CreditCard className="h-4 w-4" />
+                  <span>Awaiting Payment</span>
+                </div>
+              </SelectItem>
               <SelectItem value="pending">
                 <div className="flex items-center space-x-2">
                   <Clock className="h-4 w-4" />
@@ -406,6 +433,12 @@ const OrdersTab = ({ restaurant }: OrdersTabProps) => {
                   <span>Preparing</span>
                 </div>
               </SelectItem>
+              <SelectItem value="ready">
+                <div className="flex items-center space-x-2">
+                  <BellRing className="h-4 w-4" />
+                  <span>Ready</span>
+                </div>
+              </SelectItem>
               <SelectItem value="completed">
                 <div className="flex items-center space-x-2">
                   <CheckCircle className="h-4 w-4" />
@@ -437,6 +470,9 @@ const OrdersTab = ({ restaurant }: OrdersTabProps) => {
                     <div className="flex items-center space-x-4">
                       <div>
                         <p className="font-bold">Order #{order.orderNumber}</p>
+                        {order.provisionalNumber && (
+                          <p className="text-xs text-amber-700">Placed offline, ticket #{order.provisionalNumber}</p>
+                        )}
                         <p className="text-xs text-gray-500">{order.id}</p>
                         <p className="text-sm text-muted-foreground">
                           {order.customerName || "Guest Customer"}
@@ -453,7 +489,7 @@ const OrdersTab = ({ restaurant }: OrdersTabProps) => {
                         variant="outline"
                       >
                         {statusIcons[order.status]}
-                        <span className="capitalize ml-1">{order.status}</span>
+                        <span className="capitalize ml-1">{order.status.replace("_", " ")}</span>
                       </Badge>
                       <p className="text-sm font-medium">{formatTime(order.date)}</p>
                       <p className="text-sm font-bold">{order.total.toFixed(2)} €</p>
@@ -471,6 +507,14 @@ const OrdersTab = ({ restaurant }: OrdersTabProps) => {
                             </div>
                             <span>{(item.price * item.quantity).toFixed(2)} €</span>
                           </div>
+
+                          {item.components && (
+                            <ul className="mt-1 ml-5 pl-2 text-xs text-gray-600 space-y-1">
+                              {item.components.map((component, idx) => (
+                                <li key={idx}>- {component}</li>
+                              ))}
+                            </ul>
+                          )}
                           
                           {item.toppings && item.toppings.length > 0 && (
                             <div className="mt-1 ml-5 text-xs text-gray-600">
@@ -517,7 +561,7 @@ const OrdersTab = ({ restaurant }: OrdersTabProps) => {
                           </Button>
                         </>
                       )}
-                      {order.status === "preparing" && (
+                      {(order.status === "preparing" || order.status === "ready") && (
                         <Button 
                           variant="outline" 
                           size="sm" 
@@ -528,6 +572,14 @@ const OrdersTab = ({ restaurant }: OrdersTabProps) => {
                           Mark Completed
                         </Button>
                       )}
+                      <Button 
+                        variant="outline" 
+                        size="sm" 
+                        onClick={() => setOrderToReprint(order.id)}
+                      >
+                        <Printer className="mr-2 h-4 w-4" />
+                        Reprint
+                      </Button>
                       <Button 
                         variant="outline" 
                         size="sm" 
@@ -606,6 +658,12 @@ const OrdersTab = ({ restaurant }: OrdersTabProps) => {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+      
+      <ReprintOrderDialog
+        orderId={orderToReprint}
+        restaurantId={restaurant.id}
+        onClose={() => setOrderToReprint(null)}
+      />
     </div>
   );
 };
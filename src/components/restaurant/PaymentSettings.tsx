@@ -0,0 +1,151 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Check } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Restaurant } from "@/types/database-types";
+import { updateRestaurant } from "@/services/kiosk-service";
+import { getPaymentTerminal, getPaymentTerminals } from "@/services/payment-terminal";
+
+interface PaymentSettingsProps {
+  restaurant: Restaurant;
+  onRestaurantUpdated?: (restaurant: Restaurant) => void;
+}
+
+const PaymentSettings = ({ restaurant, onRestaurantUpdated }: PaymentSettingsProps) => {
+  const [cardEnabled, setCardEnabled] = useState(!!restaurant.card_payment_enabled);
+  const [cashEnabled, setCashEnabled] = useState(!!restaurant.cash_payment_enabled);
+  const [terminal, setTerminal] = useState(restaurant.payment_terminal || "");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const terminals = getPaymentTerminals();
+
+  useEffect(() => {
+    setCardEnabled(!!restaurant.card_payment_enabled);
+    setCashEnabled(!!restaurant.cash_payment_enabled);
+    setTerminal(restaurant.payment_terminal || "");
+  }, [restaurant]);
+
+  const handleSave = async () => {
+    // Without a terminal the kiosk could not charge the card orders it takes
+    if (cardEnabled && !getPaymentTerminal(terminal)) {
+      toast({
+        title: "Erreur",
+        description: "Choisissez un terminal de paiement pour activer le paiement par carte.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    const updates = {
+      card_payment_enabled: cardEnabled,
+      cash_payment_enabled: cashEnabled,
+      payment_terminal: terminal || null
+    };
+
+    try {
+      await updateRestaurant(restaurant.id, updates);
+
+      toast({
+        title: "Paiement enregistré",
+        description: "Les bornes utiliseront ces moyens de paiement à la prochaine commande.",
+      });
+
+      if (onRestaurantUpdated) {
+        onRestaurantUpdated({ ...restaurant, ...updates });
+      }
+    } catch (error) {
+      console.error("Error updating payment settings:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible d'enregistrer les paramètres de paiement.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Paiement sur la borne</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="cardPayment">Paiement par carte</Label>
+            <p className="text-sm text-muted-foreground">
+              La commande part en cuisine une fois le paiement accepté par le terminal.
+            </p>
+          </div>
+          <Switch
+            id="cardPayment"
+            checked={cardEnabled}
+            onCheckedChange={setCardEnabled}
+            disabled={!cardEnabled && terminals.length === 0}
+          />
+        </div>
+
+        {terminals.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Aucun terminal de paiement n'est installé : le paiement par carte n'est pas proposé sur la borne.
+          </p>
+        )}
+
+        {cardEnabled && terminals.length > 0 && (
+          <div className="space-y-2">
+            <Label>Terminal de paiement</Label>
+            <Select value={terminal} onValueChange={setTerminal}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Choisir un terminal" />
+              </SelectTrigger>
+              <SelectContent>
+                {terminals.map(adapter => (
+                  <SelectItem key={adapter.id} value={adapter.id}>{adapter.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {terminal === "simulator" && (
+              <p className="text-sm text-muted-foreground">
+                Le simulateur n'encaisse rien : réservé aux bornes de test. Il accepte tous les paiements, sauf les
+                montants finissant par ,13 (refusés) et ,66 (erreur).
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="cashPayment">Paiement au comptoir</Label>
+            <p className="text-sm text-muted-foreground">
+              La commande part en cuisine tout de suite, le client règle en la récupérant.
+            </p>
+          </div>
+          <Switch id="cashPayment" checked={cashEnabled} onCheckedChange={setCashEnabled} />
+        </div>
+
+        <Button onClick={handleSave} disabled={isSaving} size="sm" className="bg-green-600 hover:bg-green-700">
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Sauvegarde...
+            </>
+          ) : (
+            <>
+              <Check className="mr-2 h-4 w-4" />
+              Enregistrer
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PaymentSettings;
@@ -0,0 +1,173 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Loader2, RefreshCw, Printer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PrintJob, PrintJobStatus } from "@/types/database-types";
+import { getPrintJobs, reprintJob, dispatchPrintJobs } from "@/services/kiosk-service";
+
+const STATUS_LABELS: Record<PrintJobStatus, string> = {
+  pending: "En attente",
+  printing: "En cours",
+  printed: "Imprimé",
+  failed: "Échec"
+};
+
+const STATUS_CLASSES: Record<PrintJobStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  printing: "bg-blue-100 text-blue-800",
+  printed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800"
+};
+
+const TYPE_LABELS: Record<PrintJob["job_type"], string> = {
+  receipt: "Reçu",
+  kitchen: "Cuisine",
+  test: "Test"
+};
+
+interface PrintJobLogProps {
+  restaurantId: string;
+}
+
+const PrintJobLog = ({ restaurantId }: PrintJobLogProps) => {
+  const [jobs, setJobs] = useState<PrintJob[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDispatching, setIsDispatching] = useState(false);
+  const [reprinting, setReprinting] = useState<Record<string, boolean>>({});
+  const { toast } = useToast();
+
+  const loadJobs = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setJobs(await getPrintJobs(restaurantId));
+    } catch (error) {
+      console.error("Error loading print jobs:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [restaurantId]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const handleReprint = async (job: PrintJob) => {
+    setReprinting(prev => ({ ...prev, [job.id]: true }));
+    try {
+      await reprintJob(job);
+      toast({
+        title: "Réimpression lancée",
+        description: `${job.title} a été renvoyé à l'imprimante.`
+      });
+    } catch (error) {
+      toast({
+        title: "Erreur",
+        description: "Impossible de relancer l'impression.",
+        variant: "destructive"
+      });
+    } finally {
+      setReprinting(prev => ({ ...prev, [job.id]: false }));
+      loadJobs();
+    }
+  };
+
+  // Sends pending jobs now instead of waiting for the next scheduled worker run
+  const handleDispatch = async () => {
+    setIsDispatching(true);
+    try {
+      await dispatchPrintJobs(restaurantId);
+    } catch (error) {
+      toast({
+        title: "Erreur",
+        description: "Le service d'impression est injoignable.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsDispatching(false);
+      loadJobs();
+    }
+  };
+
+  const hasPending = jobs.some(job => job.status === "pending");
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Historique d'impression</CardTitle>
+        <div className="flex gap-2">
+          {hasPending && (
+            <Button variant="outline" size="sm" onClick={handleDispatch} disabled={isDispatching}>
+              {isDispatching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Printer className="mr-2 h-4 w-4" />}
+              Envoyer maintenant
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={loadJobs} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {jobs.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            {isLoading ? "Chargement..." : "Aucune impression pour le moment."}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Document</TableHead>
+                <TableHead>Imprimante</TableHead>
+                <TableHead>Statut</TableHead>
+                <TableHead>Essais</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map(job => (
+                <TableRow key={job.id}>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {new Date(job.created_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm font-medium">{job.title}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {TYPE_LABELS[job.job_type]}{job.reprint_of ? " · réimpression" : ""}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">{job.printer_name || job.printer_id}</TableCell>
+                  <TableCell>
+                    <Badge className={STATUS_CLASSES[job.status]} variant="outline">
+                      {STATUS_LABELS[job.status]}
+                    </Badge>
+                    {job.last_error && job.status !== "printed" && (
+                      <div className="mt-1 max-w-xs truncate text-xs text-red-600" title={job.last_error}>
+                        {job.last_error}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{job.attempts}/{job.max_attempts}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleReprint(job)}
+                      disabled={reprinting[job.id]}
+                    >
+                      {reprinting[job.id] ? <Loader2 className="h-4 w-4 animate-spin" /> : "Réimprimer"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PrintJobLog;
@@ -9,6 +9,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { supabase } from "@/integrations/supabase/client";
+import { encodePrintContent } from "@/utils/print-utils";
+import { getPrintSettings, getPrintNodePrinters, enqueuePrintJobs, dispatchPrintJobs } from "@/services/kiosk-service";
 
 interface Printer {
   id: string;
@@ -49,26 +51,13 @@ const PrintNodeIntegration = ({ restaurantId }: PrintNodeIntegrationProps) => {
   useEffect(() => {
     const fetchApiConfig = async () => {
       try {
-        const { data, error } = await supabase
-          .from('restaurant_print_config')
-          .select('*')
-          .eq('restaurant_id', restaurantId)
-          .single();
+        // The saved key is never sent back to the browser, only whether there is one
+        const settings = await getPrintSettings(restaurantId);
         
-        if (error) {
-          if (error.code !== 'PGRST116') { // Not found error
-            console.error("Error fetching print config");
-          }
-          return;
-        }
-        
-        if (data) {
-          if (data.api_key) {
-            setApiKey(data.api_key);
-            setMaskedKey(maskApiKey(data.api_key));
-            setIsConfigured(true);
-            fetchPrinters(data.api_key);
-          }
+        if (settings.printnode_configured) {
+          setMaskedKey("•".repeat(12));
+          setIsConfigured(true);
+          fetchPrinters();
         }
       } catch (error) {
         console.error("Error fetching print configuration");
@@ -91,7 +80,7 @@ const PrintNodeIntegration = ({ restaurantId }: PrintNodeIntegrationProps) => {
     try {
       setIsFetching(true);
       
-      const printerData = await fetchPrintersFromAPI(apiKey);
+      const printerData = await fetchPrintersFromAPI(apiKey).catch(() => []);
       
       if (printerData.length === 0) {
         toast({
@@ -122,6 +111,7 @@ const PrintNodeIntegration = ({ restaurantId }: PrintNodeIntegrationProps) => {
       setIsConfigured(true);
       setPrinters(printerData);
       setMaskedKey(maskApiKey(apiKey));
+      setApiKey("");
       
       toast({
         title: "API Key Saved",
@@ -139,11 +129,11 @@ const PrintNodeIntegration = ({ restaurantId }: PrintNodeIntegrationProps) => {
     }
   };
 
-  const fetchPrinters = async (key = apiKey) => {
+  const fetchPrinters = async () => {
     try {
       setIsFetching(true);
       
-      const printerData = await fetchPrintersFromAPI(key);
+      const printerData = await fetchPrintersFromAPI();
       
       const { data: configData, error: configError } = await supabase
         .from('restaurant_print_config')
@@ -180,65 +170,10 @@ const PrintNodeIntegration = ({ restaurantId }: PrintNodeIntegrationProps) => {
     }
   };
 
-  const fetchPrintersFromAPI = async (key: string): Promise<Printer[]> => {
-    if (!key || key.length < 10) {
-      return [];
-    }
-    
-    try {
-      // Make secure API call to PrintNode
-      const response = await fetch('https://api.printnode.com/printers', {
-        headers: {
-          'Authorization': `Basic ${btoa(key + ':')}`
-        }
-      });
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      return data.map((printer: any) => ({
-        id: printer.id.toString(),
-        name: printer.name,
-        description: printer.description || (printer.computer ? printer.computer.name : undefined),
-        state: printer.state === "online" ? "online" : "offline",
-        selected: false
-      }));
-    } catch (error) {
-      console.error("Error calling API");
-      
-      // Fallback to mock data during development or when API fails
-      if (process.env.NODE_ENV === 'development') {
-        console.log("Using mock printer data in development");
-        return [
-          {
-            id: "printer1",
-            name: "Printer 1",
-            description: "Front Counter",
-            state: "online",
-            selected: false
-          },
-          {
-            id: "printer2",
-            name: "Printer 2",
-            description: "Kitchen",
-            state: "online",
-            selected: false
-          },
-          {
-            id: "printer3",
-            name: "Printer 3",
-            description: "Bar",
-            state: "offline",
-            selected: false
-          }
-        ];
-      }
-      
-      return [];
-    }
+  // Listed server-side, with the saved key or a new one being checked
+  const fetchPrintersFromAPI = async (key?: string): Promise<Printer[]> => {
+    const printNodePrinters = await getPrintNodePrinters(restaurantId, key);
+    return printNodePrinters.map(printer => ({ ...printer, selected: false }));
   };
 
   const togglePrinterSelection = async (printerId: string) => {
@@ -315,29 +250,16 @@ is working correctly!
 
 `;
 
-      // Properly encode for PrintNode - fix for non-Latin1 characters
-      const encodedContent = btoa(unescape(encodeURIComponent(testReceipt)));
-      
-      // Make secure API call
-      const response = await fetch('https://api.printnode.com/printjobs', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Basic ${btoa(apiKey + ':')}`
-        },
-        body: JSON.stringify({
-          printer: parseInt(printerId, 10) || printerId,
-          title: "Test Print",
-          contentType: "raw_base64",
-          content: encodedContent,
-          source: "Restaurant Kiosk"
-        })
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Error sending print job: ${response.status}`);
-      }
+      // Sent by the print worker, which holds the API key
+      await enqueuePrintJobs([{
+        restaurant_id: restaurantId,
+        job_type: 'test',
+        printer_id: printerId,
+        printer_name: printer.name,
+        title: "Test Print",
+        content_base64: encodePrintContent(testReceipt)
+      }]);
+      await dispatchPrintJobs(restaurantId);
       
       toast({
         title: "Test Print Sent",
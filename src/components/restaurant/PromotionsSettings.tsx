@@ -0,0 +1,478 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Plus, Trash2, Check, Pencil, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MenuCategory, MenuItem, OrderType, Promotion, PromotionType, Restaurant } from "@/types/database-types";
+import {
+  getPromotionsForRestaurant,
+  createPromotion,
+  updatePromotion,
+  deletePromotion,
+  getCategoriesByRestaurantId,
+  getMenuItemsByCategoryIds
+} from "@/services/kiosk-service";
+import { getLocalDateTime } from "@/utils/menu-schedule";
+import { getPromotionLabel, isPromotionActive } from "@/utils/promotions";
+
+// Monday first, as on French calendars; values follow Date.getDay()
+const WEEKDAYS = [
+  { value: 1, label: "Lun" },
+  { value: 2, label: "Mar" },
+  { value: 3, label: "Mer" },
+  { value: 4, label: "Jeu" },
+  { value: 5, label: "Ven" },
+  { value: 6, label: "Sam" },
+  { value: 0, label: "Dim" }
+];
+
+const PROMOTION_TYPES: { value: PromotionType; label: string }[] = [
+  { value: "percentage", label: "Pourcentage" },
+  { value: "fixed", label: "Montant fixe" },
+  { value: "buy_x_get_y", label: "X achetés, Y offerts" }
+];
+
+// Radix Select does not accept an empty value
+const NONE = "none";
+
+type PromotionDraft = {
+  name: string;
+  promotion_type: PromotionType;
+  value: number;
+  buy_quantity: number;
+  get_quantity: number;
+  scope: string; // NONE, "category:<id>" or "item:<id>"
+  order_type: string; // NONE, "dine-in" or "takeaway"
+  min_subtotal: string;
+  weekdays: number[];
+  start_time: string;
+  end_time: string;
+  starts_on: string;
+  ends_on: string;
+};
+
+const EMPTY_DRAFT: PromotionDraft = {
+  name: "",
+  promotion_type: "percentage",
+  value: 10,
+  buy_quantity: 2,
+  get_quantity: 1,
+  scope: NONE,
+  order_type: NONE,
+  min_subtotal: "",
+  weekdays: [],
+  start_time: "",
+  end_time: "",
+  starts_on: "",
+  ends_on: ""
+};
+
+const toDraft = (promotion: Promotion): PromotionDraft => ({
+  name: promotion.name,
+  promotion_type: promotion.promotion_type,
+  value: Number(promotion.value),
+  buy_quantity: promotion.buy_quantity,
+  get_quantity: promotion.get_quantity,
+  scope: promotion.menu_item_id
+    ? `item:${promotion.menu_item_id}`
+    : promotion.category_id ? `category:${promotion.category_id}` : NONE,
+  order_type: promotion.order_type || NONE,
+  min_subtotal: promotion.min_subtotal !== null ? String(promotion.min_subtotal) : "",
+  weekdays: promotion.weekdays || [],
+  start_time: promotion.start_time?.slice(0, 5) || "",
+  end_time: promotion.end_time?.slice(0, 5) || "",
+  starts_on: promotion.starts_on || "",
+  ends_on: promotion.ends_on || ""
+});
+
+const fromDraft = (draft: PromotionDraft) => {
+  const [scopeType, scopeId] = draft.scope.split(":");
+  return {
+    name: draft.name.trim(),
+    promotion_type: draft.promotion_type,
+    value: draft.value,
+    buy_quantity: draft.buy_quantity,
+    get_quantity: draft.get_quantity,
+    menu_item_id: scopeType === "item" ? scopeId : null,
+    category_id: scopeType === "category" ? scopeId : null,
+    order_type: (draft.order_type === NONE ? null : draft.order_type) as OrderType,
+    min_subtotal: draft.min_subtotal === "" ? null : Number(draft.min_subtotal),
+    weekdays: draft.weekdays.length > 0 ? draft.weekdays : null,
+    start_time: draft.start_time && draft.end_time ? draft.start_time : null,
+    end_time: draft.start_time && draft.end_time ? draft.end_time : null,
+    starts_on: draft.starts_on || null,
+    ends_on: draft.ends_on || null
+  };
+};
+
+interface PromotionsSettingsProps {
+  restaurant: Restaurant;
+}
+
+const PromotionsSettings = ({ restaurant }: PromotionsSettingsProps) => {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [draft, setDraft] = useState<PromotionDraft | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadPromotions = async () => {
+    setPromotions(await getPromotionsForRestaurant(restaurant.id));
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        const [promotionData, categoryData] = await Promise.all([
+          getPromotionsForRestaurant(restaurant.id),
+          getCategoriesByRestaurantId(restaurant.id)
+        ]);
+        setPromotions(promotionData);
+        setCategories(categoryData);
+        setMenuItems(await getMenuItemsByCategoryIds(categoryData.map(c => c.id)));
+      } catch (error) {
+        console.error("Error loading promotions:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [restaurant.id]);
+
+  const reportError = (description: string) => {
+    toast({
+      title: "Erreur",
+      description,
+      variant: "destructive"
+    });
+  };
+
+  const updateDraft = (updates: Partial<PromotionDraft>) => {
+    setDraft(prev => (prev ? { ...prev, ...updates } : prev));
+  };
+
+  const startEditing = (promotion: Promotion | null) => {
+    setEditingId(promotion?.id || null);
+    setDraft(promotion ? toDraft(promotion) : { ...EMPTY_DRAFT });
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    if (!draft.name.trim()) {
+      reportError("Donnez un nom à la promotion, il est affiché au client et imprimé sur le ticket.");
+      return;
+    }
+    if (draft.promotion_type === "percentage" && (draft.value <= 0 || draft.value > 100)) {
+      reportError("Le pourcentage doit être compris entre 1 et 100.");
+      return;
+    }
+    if (draft.starts_on && draft.ends_on && draft.ends_on < draft.starts_on) {
+      reportError("La fin de la promotion doit suivre son début.");
+      return;
+    }
+
+    setSavingId("draft");
+    try {
+      if (editingId) {
+        await updatePromotion(editingId, fromDraft(draft));
+      } else {
+        await createPromotion({
+          ...fromDraft(draft),
+          restaurant_id: restaurant.id,
+          description: null,
+          active: true,
+          display_order: promotions.length
+        });
+      }
+      toast({
+        title: "Promotion enregistrée",
+        description: "Les bornes l'appliquent au panier dès que ses conditions sont remplies.",
+      });
+      stopEditing();
+      await loadPromotions();
+    } catch (error) {
+      reportError("Impossible d'enregistrer la promotion.");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleToggleActive = async (promotion: Promotion, active: boolean) => {
+    setSavingId(promotion.id);
+    try {
+      await updatePromotion(promotion.id, { active });
+      setPromotions(prev => prev.map(p => (p.id === promotion.id ? { ...p, active } : p)));
+    } catch (error) {
+      reportError("Impossible de modifier la promotion.");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deletePromotion(id);
+      if (editingId === id) stopEditing();
+      await loadPromotions();
+    } catch (error) {
+      reportError("Impossible de supprimer la promotion.");
+    }
+  };
+
+  const scopeLabel = (promotion: Promotion) => {
+    if (promotion.menu_item_id) return menuItems.find(i => i.id === promotion.menu_item_id)?.name || "Article";
+    if (promotion.category_id) return categories.find(c => c.id === promotion.category_id)?.name || "Catégorie";
+    return "Tout le panier";
+  };
+
+  const now = getLocalDateTime(restaurant.timezone);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Promotions</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Les promotions sont calculées sur le panier des bornes puis de nouveau à la validation de la commande,
+          à l'heure du restaurant ({restaurant.timezone}). Elles se cumulent dans l'ordre de la liste et sont imprimées sur le ticket.
+        </p>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {promotions.length === 0 && (
+                <p className="text-sm text-muted-foreground">Aucune promotion.</p>
+              )}
+              {promotions.map(promotion => (
+                <div key={promotion.id} className="flex flex-wrap items-center gap-2 text-sm">
+                  <Switch
+                    checked={promotion.active}
+                    disabled={savingId === promotion.id}
+                    onCheckedChange={checked => handleToggleActive(promotion, checked)}
+                  />
+                  <span className="w-48 truncate font-medium">{promotion.name}</span>
+                  <span className="w-32">{getPromotionLabel(promotion, restaurant.currency)}</span>
+                  <span className="w-40 truncate text-muted-foreground">{scopeLabel(promotion)}</span>
+                  <span className="w-24 text-muted-foreground">
+                    {isPromotionActive(promotion, promotion.order_type || undefined, now) ? "en cours" : ""}
+                  </span>
+                  <Button variant="ghost" size="icon" onClick={() => startEditing(promotion)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(promotion.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {!draft && (
+                <Button size="sm" variant="outline" onClick={() => startEditing(null)}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Ajouter une promotion
+                </Button>
+              )}
+            </div>
+
+            {draft && (
+              <div className="space-y-4 border rounded-md p-4">
+                <div className="flex flex-wrap items-end gap-2">
+                  <div className="space-y-1">
+                    <Label>Nom</Label>
+                    <Input
+                      value={draft.name}
+                      placeholder="Happy hour, -10 % à emporter..."
+                      onChange={e => updateDraft({ name: e.target.value })}
+                      className="w-56"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Type</Label>
+                    <Select
+                      value={draft.promotion_type}
+                      onValueChange={value => updateDraft({
+                        promotion_type: value as PromotionType,
+                        value: value === "buy_x_get_y" ? 100 : draft.value
+                      })}
+                    >
+                      <SelectTrigger className="w-52">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PROMOTION_TYPES.map(type => (
+                          <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {draft.promotion_type === "buy_x_get_y" && (
+                    <>
+                      <div className="space-y-1">
+                        <Label>Achetés</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={draft.buy_quantity}
+                          onChange={e => updateDraft({ buy_quantity: Math.max(1, Number(e.target.value) || 1) })}
+                          className="w-20"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Offerts</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={draft.get_quantity}
+                          onChange={e => updateDraft({ get_quantity: Math.max(1, Number(e.target.value) || 1) })}
+                          className="w-20"
+                        />
+                      </div>
+                    </>
+                  )}
+                  <div className="space-y-1">
+                    <Label>
+                      {draft.promotion_type === "fixed"
+                        ? `Remise (${restaurant.currency || "EUR"})`
+                        : draft.promotion_type === "buy_x_get_y" ? "Remise sur les offerts (%)" : "Remise (%)"}
+                    </Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={draft.value}
+                      onChange={e => updateDraft({ value: Math.max(0, Number(e.target.value) || 0) })}
+                      className="w-28"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-end gap-2">
+                  <div className="space-y-1">
+                    <Label>S'applique à</Label>
+                    <Select value={draft.scope} onValueChange={value => updateDraft({ scope: value })}>
+                      <SelectTrigger className="w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Tout le panier</SelectItem>
+                        {categories.map(category => (
+                          <SelectItem key={category.id} value={`category:${category.id}`}>Catégorie : {category.name}</SelectItem>
+                        ))}
+                        {menuItems.map(item => (
+                          <SelectItem key={item.id} value={`item:${item.id}`}>Article : {item.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Type de commande</Label>
+                    <Select value={draft.order_type} onValueChange={value => updateDraft({ order_type: value })}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Toutes</SelectItem>
+                        <SelectItem value="dine-in">Sur place</SelectItem>
+                        <SelectItem value="takeaway">À emporter</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Panier minimum</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={draft.min_subtotal}
+                      placeholder="Aucun"
+                      onChange={e => updateDraft({ min_subtotal: e.target.value })}
+                      className="w-28"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  <Label>Jours</Label>
+                  <div className="flex flex-wrap gap-3">
+                    {WEEKDAYS.map(day => (
+                      <label key={day.value} className="flex items-center gap-1 text-sm">
+                        <Checkbox
+                          checked={draft.weekdays.includes(day.value)}
+                          onCheckedChange={checked => updateDraft({
+                            weekdays: checked
+                              ? [...draft.weekdays, day.value]
+                              : draft.weekdays.filter(d => d !== day.value)
+                          })}
+                        />
+                        {day.label}
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Aucun jour coché : tous les jours.</p>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <Label className="w-24">Horaire</Label>
+                  <Input type="time" value={draft.start_time} onChange={e => updateDraft({ start_time: e.target.value })} className="w-32" />
+                  <span className="text-sm">à</span>
+                  <Input type="time" value={draft.end_time} onChange={e => updateDraft({ end_time: e.target.value })} className="w-32" />
+                  <span className="text-xs text-muted-foreground">Vide : toute la journée. Un horaire qui finit avant son début se termine le lendemain.</span>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <Label className="w-24">Période</Label>
+                  <Input type="date" value={draft.starts_on} onChange={e => updateDraft({ starts_on: e.target.value })} className="w-40" />
+                  <span className="text-sm">au</span>
+                  <Input
+                    type="date"
+                    value={draft.ends_on}
+                    min={draft.starts_on}
+                    onChange={e => updateDraft({ ends_on: e.target.value })}
+                    className="w-40"
+                  />
+                </div>
+
+                <div className="flex gap-2">
+                  <Button
+                    onClick={handleSave}
+                    disabled={savingId === "draft"}
+                    size="sm"
+                    className="bg-green-600 hover:bg-green-700"
+                  >
+                    {savingId === "draft" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+                    Enregistrer
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={stopEditing}>
+                    <X className="mr-2 h-4 w-4" />
+                    Annuler
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PromotionsSettings;
@@ -35,7 +35,7 @@ const QZTrayIntegration = ({ restaurantId }: QZTrayIntegrationProps) => {
       try {
         const { data, error } = await supabase
           .from('restaurant_print_config')
-          .select('*')
+          .select('configured_printers')
           .eq('restaurant_id', restaurantId)
           .single();
         
@@ -0,0 +1,239 @@
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Loader2, Check } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CartItem, MenuItemWithOptions, PaperWidth, ReceiptTemplate, Restaurant } from "@/types/database-types";
+import { getReceiptTemplate, saveReceiptTemplate } from "@/services/kiosk-service";
+import { DEFAULT_RECEIPT_TEMPLATE, MAX_QR_CONTENT_LENGTH, renderReceipt } from "@/utils/receipt-renderer";
+import { createReceiptTranslator } from "@/utils/receipt-templates";
+import { calculateCartTotals } from "@/utils/price-utils";
+import { SupportedLanguage } from "@/utils/language-utils";
+
+// Two rates so the per-rate VAT breakdown shows up in the preview
+const sampleItem = (id: string, name: string, price: number, taxPercentage: number, quantity: number): CartItem => ({
+  id,
+  menuItem: { id, name, price, tax_percentage: taxPercentage } as MenuItemWithOptions,
+  quantity,
+  selectedOptions: [],
+  selectedToppings: [],
+  itemPrice: price
+});
+
+const SAMPLE_CART: CartItem[] = [
+  sampleItem("sample-1", "Burger Classique", 9.5, 10, 2),
+  sampleItem("sample-2", "Frites", 3.5, 10, 1),
+  sampleItem("sample-3", "Soda 33cl", 2.5, 20, 2)
+];
+
+interface ReceiptTemplateEditorProps {
+  restaurant: Restaurant;
+}
+
+const ReceiptTemplateEditor = ({ restaurant }: ReceiptTemplateEditorProps) => {
+  const [template, setTemplate] = useState<ReceiptTemplate>({ ...DEFAULT_RECEIPT_TEMPLATE, restaurant_id: restaurant.id });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        const saved = await getReceiptTemplate(restaurant.id);
+        setTemplate(saved || { ...DEFAULT_RECEIPT_TEMPLATE, restaurant_id: restaurant.id });
+      } catch (error) {
+        console.error("Error loading receipt template:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [restaurant.id]);
+
+  const update = (changes: Partial<ReceiptTemplate>) => setTemplate(prev => ({ ...prev, ...changes }));
+
+  const previewHTML = useMemo(() => {
+    const language = (restaurant.ui_language as SupportedLanguage) || "fr";
+    return renderReceipt(template, {
+      restaurant,
+      cart: SAMPLE_CART,
+      orderType: "takeaway",
+      tableNumber: null,
+      orderNumber: "A-042",
+      totals: calculateCartTotals(SAMPLE_CART, { orderType: "takeaway", pricesIncludeTax: restaurant.prices_include_tax }),
+      t: createReceiptTranslator(language),
+      uiLanguage: language
+    }).html;
+  }, [template, restaurant]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      setTemplate(await saveReceiptTemplate(template));
+      toast({
+        title: "Modèle enregistré",
+        description: "Les prochains tickets utiliseront cette mise en page.",
+      });
+    } catch (error) {
+      toast({
+        title: "Erreur",
+        description: "Impossible d'enregistrer le modèle de ticket.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Modèle de ticket</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Largeur du papier</Label>
+                <ToggleGroup
+                  type="single"
+                  value={String(template.paper_width)}
+                  onValueChange={value => value && update({ paper_width: Number(value) as PaperWidth })}
+                  className="justify-start"
+                >
+                  <ToggleGroupItem value="58">58 mm</ToggleGroupItem>
+                  <ToggleGroupItem value="80">80 mm</ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="receipt-header">En-tête</Label>
+                <Textarea
+                  id="receipt-header"
+                  rows={2}
+                  placeholder="Ouvert 7j/7 - 01 23 45 67 89"
+                  value={template.header_text || ""}
+                  onChange={e => update({ header_text: e.target.value || null })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="receipt-vat-number">Numéro de TVA</Label>
+                <Input
+                  id="receipt-vat-number"
+                  placeholder="FR12345678901"
+                  value={template.vat_number || ""}
+                  onChange={e => update({ vat_number: e.target.value || null })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="receipt-footer">Pied de page</Label>
+                <Textarea
+                  id="receipt-footer"
+                  rows={2}
+                  placeholder="Merci de votre visite !"
+                  value={template.footer_text || ""}
+                  onChange={e => update({ footer_text: e.target.value || null })}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="receipt-tax-breakdown">Détail de la TVA par taux</Label>
+                </div>
+                <Switch
+                  id="receipt-tax-breakdown"
+                  checked={template.show_tax_breakdown}
+                  onCheckedChange={checked => update({ show_tax_breakdown: checked })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="receipt-logo">Logo</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Sur les imprimantes thermiques, le logo doit être enregistré dans la mémoire de l'imprimante.
+                    </p>
+                  </div>
+                  <Switch
+                    id="receipt-logo"
+                    checked={template.show_logo}
+                    onCheckedChange={checked => update({ show_logo: checked })}
+                  />
+                </div>
+                {template.show_logo && (
+                  <Input
+                    placeholder={restaurant.logo_url || "https://..."}
+                    value={template.logo_url || ""}
+                    onChange={e => update({ logo_url: e.target.value || null })}
+                  />
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="receipt-qr">QR code</Label>
+                    <p className="text-sm text-muted-foreground">
+                      {"{order_number}"} est remplacé par le numéro de commande.
+                    </p>
+                  </div>
+                  <Switch
+                    id="receipt-qr"
+                    checked={template.show_qr_code}
+                    onCheckedChange={checked => update({ show_qr_code: checked })}
+                  />
+                </div>
+                {template.show_qr_code && (
+                  <Input
+                    placeholder="https://example.com/avis?commande={order_number}"
+                    maxLength={MAX_QR_CONTENT_LENGTH}
+                    value={template.qr_code_content || ""}
+                    onChange={e => update({ qr_code_content: e.target.value || null })}
+                  />
+                )}
+              </div>
+
+              <Button onClick={handleSave} disabled={isSaving} className="bg-green-600 hover:bg-green-700">
+                {isSaving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Check className="mr-2 h-4 w-4" />
+                )}
+                Enregistrer le modèle
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Aperçu</Label>
+              <div className="flex justify-center rounded-md border bg-gray-100 p-4">
+                <iframe
+                  title="Aperçu du ticket"
+                  srcDoc={previewHTML}
+                  className="h-[600px] bg-white shadow"
+                  style={{ width: template.paper_width === 58 ? 240 : 320 }}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReceiptTemplateEditor;
@@ -0,0 +1,154 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Ingredient } from "@/types/database-types";
+import { getIngredientsForRestaurant, getRecipe, setRecipe, RecipeTarget } from "@/services/kiosk-service";
+import { clearMenuCache } from "@/services/cache-service";
+
+type RecipeLine = { ingredientId: string; quantity: string };
+
+interface RecipeDialogProps {
+  restaurantId: string;
+  target: RecipeTarget | null; // null keeps the dialog closed
+  name: string;
+  onClose: () => void;
+}
+
+// Ingredients used by one unit of a menu item or topping
+const RecipeDialog = ({ restaurantId, target, name, onClose }: RecipeDialogProps) => {
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [lines, setLines] = useState<RecipeLine[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!target) return;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const [ingredientData, recipe] = await Promise.all([
+          getIngredientsForRestaurant(restaurantId),
+          getRecipe(target)
+        ]);
+        setIngredients(ingredientData);
+        setLines(recipe.map(line => ({ ingredientId: line.ingredient_id, quantity: String(line.quantity) })));
+      } catch (error) {
+        console.error("Error loading recipe:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load the recipe",
+          variant: "destructive"
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [restaurantId, target, toast]);
+
+  const updateLine = (index: number, changes: Partial<RecipeLine>) =>
+    setLines(prev => prev.map((line, i) => i === index ? { ...line, ...changes } : line));
+
+  const validLines = lines.filter(line => line.ingredientId && Number(line.quantity) > 0);
+
+  const handleSave = async () => {
+    if (!target) return;
+    try {
+      setSaving(true);
+      await setRecipe(target, validLines.map(line => ({ ingredient_id: line.ingredientId, quantity: Number(line.quantity) })));
+      clearMenuCache(restaurantId);
+      toast({
+        title: "Success",
+        description: `Recipe of ${name} saved`
+      });
+      onClose();
+    } catch (error) {
+      console.error("Error saving recipe:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save the recipe",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Recipe of {name}</DialogTitle>
+          <DialogDescription>
+            What one unit uses. It is hidden on the kiosk when any of these runs short.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : ingredients.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add ingredients in the Ingredients tab first.</p>
+        ) : (
+          <div className="space-y-2">
+            {lines.map((line, index) => {
+              const unit = ingredients.find(i => i.id === line.ingredientId)?.unit;
+              return (
+                <div key={index} className="flex items-center gap-2">
+                  <Select value={line.ingredientId} onValueChange={ingredientId => updateLine(index, { ingredientId })}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Ingredient" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ingredients
+                        .filter(i => i.id === line.ingredientId || !lines.some(l => l.ingredientId === i.id))
+                        .map(i => <SelectItem key={i.id} value={i.id}>{i.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="any"
+                    className="w-24"
+                    value={line.quantity}
+                    onChange={e => updateLine(index, { quantity: e.target.value })}
+                  />
+                  <span className="w-10 text-sm text-muted-foreground">{unit}</span>
+                  <Button variant="ghost" size="icon" onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setLines(prev => [...prev, { ingredientId: "", quantity: "1" }])}
+              disabled={lines.length >= ingredients.length}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add ingredient
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || loading}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecipeDialog;
@@ -0,0 +1,198 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Printer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getOrderForReprint, getReceiptTemplate, getPrintSettings, getPrintNodePrinters, enqueuePrintJobs, dispatchPrintJobs, ReprintableOrder } from "@/services/kiosk-service";
+import { encodePrintContent, printHTML } from "@/utils/print-utils";
+import { createReceiptTranslator, generateKitchenTicket, generateKitchenTicketHTML } from "@/utils/receipt-templates";
+import { expandComboComponents } from "@/utils/combo-utils";
+import { DEFAULT_RECEIPT_TEMPLATE, renderReceipt } from "@/utils/receipt-renderer";
+import { getOrderTotals } from "@/utils/price-utils";
+import { SupportedLanguage } from "@/utils/language-utils";
+
+const BROWSER = "browser";
+
+type ReprintCopy = "customer" | "kitchen";
+
+interface ReprintOrderDialogProps {
+  orderId: string | null;
+  restaurantId: string;
+  onClose: () => void;
+}
+
+const ReprintOrderDialog = ({ orderId, restaurantId, onClose }: ReprintOrderDialogProps) => {
+  const [reprint, setReprint] = useState<ReprintableOrder | null>(null);
+  const [printers, setPrinters] = useState<{ id: string; name: string }[]>([]);
+  const [copy, setCopy] = useState<ReprintCopy>("customer");
+  const [target, setTarget] = useState(BROWSER);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState(false);
+  const [printing, setPrinting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!orderId) return;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        setLoadError(false);
+        setReprint(null);
+        const [orderData, printConfig] = await Promise.all([
+          getOrderForReprint(orderId),
+          getPrintSettings(restaurantId)
+        ]);
+        setReprint(orderData);
+
+        // Offer the configured PrintNode printers, by name when PrintNode answers
+        const known = printConfig.printnode_configured
+          ? await getPrintNodePrinters(restaurantId).catch(() => [])
+          : [];
+        setPrinters(printConfig.configured_printers.map(id => ({ id, name: known.find(p => p.id === id)?.name || id })));
+      } catch (error) {
+        console.error("Error loading order for reprint:", error);
+        setLoadError(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [orderId, restaurantId]);
+
+  const handlePrint = async () => {
+    if (!reprint) return;
+
+    const { order, restaurant, cart } = reprint;
+    const language = (restaurant?.ui_language as SupportedLanguage) || "fr";
+    const t = createReceiptTranslator(language);
+    const orderNumber = order.order_number || order.id.slice(0, 8);
+    const orderType = order.order_type || null;
+    const tableNumber = order.table_number || null;
+    const orderDate = new Date(order.created_at);
+    const kitchenTitle = language === "fr" ? "Cuisine" : "Kitchen";
+
+    try {
+      setPrinting(true);
+
+      const receipt = copy === "customer"
+        ? renderReceipt((await getReceiptTemplate(order.restaurant_id)) || DEFAULT_RECEIPT_TEMPLATE, {
+          restaurant,
+          cart,
+          orderType,
+          tableNumber,
+          orderNumber,
+          totals: getOrderTotals(order, cart, { pricesIncludeTax: restaurant?.prices_include_tax }),
+          orderDate,
+          t,
+          uiLanguage: language
+        })
+        : null;
+
+      if (target === BROWSER) {
+        printHTML(receipt
+          ? receipt.html
+          : generateKitchenTicketHTML(expandComboComponents(cart), kitchenTitle, orderType, tableNumber, orderNumber, t, language, orderDate));
+      } else {
+        const content = receipt
+          ? receipt.escpos
+          : generateKitchenTicket(expandComboComponents(cart), kitchenTitle, orderType, tableNumber, orderNumber, t, language, orderDate);
+
+        await enqueuePrintJobs([{
+          restaurant_id: order.restaurant_id,
+          order_id: order.id,
+          job_type: copy === "customer" ? "receipt" : "kitchen",
+          printer_id: target,
+          printer_name: printers.find(p => p.id === target)?.name || null,
+          title: `Order #${orderNumber} (reprint)`,
+          content_base64: encodePrintContent(content)
+        }]);
+        await dispatchPrintJobs(order.restaurant_id);
+      }
+
+      toast({
+        title: "Reprint Sent",
+        description: `Order #${orderNumber} ${copy === "customer" ? "receipt" : "kitchen copy"} sent to ${target === BROWSER ? "the browser" : "the printer"}`
+      });
+      onClose();
+    } catch (error) {
+      console.error("Error reprinting order:", error);
+      toast({
+        title: "Error",
+        description: "Failed to reprint the order",
+        variant: "destructive"
+      });
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!orderId} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            Reprint Order{reprint ? ` #${reprint.order.order_number || reprint.order.id.slice(0, 8)}` : ""}
+          </DialogTitle>
+        </DialogHeader>
+
+        {loadError ? (
+          <p className="py-6 text-center text-sm text-red-600">Failed to load the order</p>
+        ) : loading || !reprint ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Placed {new Date(reprint.order.created_at).toLocaleString()} · {reprint.cart.length} item(s)
+            </p>
+
+            <div className="space-y-2">
+              <Label>Copy</Label>
+              <RadioGroup value={copy} onValueChange={value => setCopy(value as ReprintCopy)}>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="customer" id="reprint-customer" />
+                  <Label htmlFor="reprint-customer" className="font-normal">Customer receipt</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="kitchen" id="reprint-kitchen" />
+                  <Label htmlFor="reprint-kitchen" className="font-normal">Kitchen copy (no prices)</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Printer</Label>
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BROWSER}>Browser print</SelectItem>
+                  {printers.map(printer => (
+                    <SelectItem key={printer.id} value={printer.id}>{printer.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handlePrint} disabled={!reprint || printing}>
+            {printing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Printer className="mr-2 h-4 w-4" />}
+            Reprint
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReprintOrderDialog;
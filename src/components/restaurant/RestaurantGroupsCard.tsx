@@ -0,0 +1,316 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Plus, RefreshCcw, Trash2, Network } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Restaurant, RestaurantGroup } from "@/types/database-types";
+import {
+  createRestaurantGroup,
+  deleteRestaurantGroup,
+  getRestaurantGroups,
+  setRestaurantGroup
+} from "@/services/kiosk-service";
+import {
+  GroupMenuStatus,
+  detachFromMasterMenu,
+  getGroupMenuStatus,
+  syncGroupMenus,
+  syncLocationMenu
+} from "@/services/menu-draft-service";
+
+interface RestaurantGroupsCardProps {
+  restaurants: Restaurant[];
+  onChanged: () => void; // restaurants joined or left a group
+}
+
+// Groups of the owner's restaurants sharing the master restaurant's menu
+const RestaurantGroupsCard = ({ restaurants, onChanged }: RestaurantGroupsCardProps) => {
+  const [groups, setGroups] = useState<RestaurantGroup[]>([]);
+  const [status, setStatus] = useState<Record<string, GroupMenuStatus>>({});
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null); // id of the group or restaurant being updated
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [newGroupName, setNewGroupName] = useState("");
+  const [newGroupMaster, setNewGroupMaster] = useState("");
+  const [groupToDelete, setGroupToDelete] = useState<RestaurantGroup | null>(null);
+  const [revision, setRevision] = useState(0);
+  const { toast } = useToast();
+
+  const ungrouped = restaurants.filter(restaurant => !restaurant.group_id);
+  const groupedIds = restaurants.filter(restaurant => restaurant.group_id).map(restaurant => restaurant.id).join(',');
+
+  useEffect(() => {
+    const fetchGroups = async () => {
+      try {
+        setLoading(true);
+        setGroups(await getRestaurantGroups());
+        setStatus(groupedIds ? await getGroupMenuStatus(groupedIds.split(',')) : {});
+      } catch (error) {
+        console.error("Error fetching restaurant groups:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchGroups();
+  }, [groupedIds, revision]);
+
+  // Runs a group change, then reloads the groups and, when memberships changed, the restaurants
+  const runAction = async (key: string, action: () => Promise<string>, failure: string, membershipChanged = false) => {
+    try {
+      setBusy(key);
+      const message = await action();
+      toast({
+        title: "Success",
+        description: message,
+      });
+      if (membershipChanged) onChanged();
+      setRevision(value => value + 1);
+    } catch (error) {
+      console.error(`Error: ${failure}`, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : failure,
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const syncMessage = ({ synced, failed }: { synced: number; failed: string[] }) =>
+    failed.length > 0
+      ? `${synced} location(s) updated; not updated: ${failed.join(', ')}`
+      : `${synced} location(s) updated`;
+
+  const handleCreateGroup = () =>
+    runAction('new', async () => {
+      await createRestaurantGroup(newGroupName.trim(), newGroupMaster);
+      setShowCreateDialog(false);
+      setNewGroupName("");
+      setNewGroupMaster("");
+      return `${newGroupName.trim()} has been created.`;
+    }, "Failed to create the group", true);
+
+  // A joining restaurant takes the master menu at once; rows named like master rows follow them
+  const handleAddRestaurant = (group: RestaurantGroup, restaurantId: string) =>
+    runAction(restaurantId, async () => {
+      await setRestaurantGroup(restaurantId, group.id);
+      if (group.master_restaurant_id) {
+        await syncLocationMenu(group.master_restaurant_id, restaurantId);
+      }
+      return `The restaurant has joined ${group.name}.`;
+    }, "Failed to add the restaurant", true);
+
+  const handleRemoveRestaurant = (group: RestaurantGroup, restaurant: Restaurant) =>
+    runAction(restaurant.id, async () => {
+      await setRestaurantGroup(restaurant.id, null);
+      await detachFromMasterMenu(restaurant.id);
+      return `${restaurant.name} has left ${group.name} and keeps its current menu.`;
+    }, "Failed to remove the restaurant", true);
+
+  const handleDeleteGroup = () => {
+    if (!groupToDelete) return;
+    const members = restaurants.filter(restaurant => restaurant.group_id === groupToDelete.id);
+    return runAction(groupToDelete.id, async () => {
+      for (const member of members) {
+        await detachFromMasterMenu(member.id);
+      }
+      await deleteRestaurantGroup(groupToDelete.id);
+      setGroupToDelete(null);
+      return `${groupToDelete.name} has been deleted.`;
+    }, "Failed to delete the group", true);
+  };
+
+  const menuState = (group: RestaurantGroup, restaurant: Restaurant) => {
+    if (restaurant.id === group.master_restaurant_id) return <Badge>Master menu</Badge>;
+    const masterVersionId = group.master_restaurant_id ? status[group.master_restaurant_id]?.versionId : undefined;
+    const locationStatus = status[restaurant.id];
+    if (!locationStatus?.masterVersionId) return <Badge variant="outline">Not synced</Badge>;
+    return locationStatus.masterVersionId === masterVersionId
+      ? <Badge variant="secondary">Up to date</Badge>
+      : <Badge variant="destructive">Behind master</Badge>;
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Network className="h-5 w-5" />
+          Groups
+        </CardTitle>
+        <Button variant="outline" onClick={() => setShowCreateDialog(true)} disabled={ungrouped.length === 0}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Group
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Group restaurants of the same brand to share the menu of a master restaurant. Each location keeps its own
+            prices, availability hours, translations and stock.
+          </p>
+        ) : groups.map(group => {
+          const members = restaurants.filter(restaurant => restaurant.group_id === group.id);
+          return (
+            <div key={group.id} className="space-y-3">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <div>
+                  <h3 className="font-semibold">{group.name}</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {group.master_restaurant_id
+                      ? `Master menu: ${members.find(member => member.id === group.master_restaurant_id)?.name ?? '—'}. Publishing it updates the other locations.`
+                      : "No master restaurant: the locations keep their menus."}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {ungrouped.length > 0 && (
+                    <Select value="" onValueChange={restaurantId => handleAddRestaurant(group, restaurantId)}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue placeholder="Add a restaurant" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ungrouped.map(restaurant => (
+                          <SelectItem key={restaurant.id} value={restaurant.id}>{restaurant.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Button
+                    variant="outline"
+                    disabled={!group.master_restaurant_id || busy !== null}
+                    onClick={() => runAction(group.id, async () =>
+                      syncMessage(await syncGroupMenus(group.id, group.master_restaurant_id!)), "Failed to update the locations")}
+                  >
+                    {busy === group.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCcw className="mr-2 h-4 w-4" />}
+                    Sync All
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setGroupToDelete(group)} disabled={busy !== null}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Menu</TableHead>
+                    <TableHead>Overridden items</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {members.map(restaurant => (
+                    <TableRow key={restaurant.id}>
+                      <TableCell className="font-medium">{restaurant.name}</TableCell>
+                      <TableCell>{menuState(group, restaurant)}</TableCell>
+                      <TableCell>{restaurant.id === group.master_restaurant_id ? '—' : status[restaurant.id]?.overrides ?? 0}</TableCell>
+                      <TableCell className="text-right space-x-2">
+                        {restaurant.id !== group.master_restaurant_id && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={!group.master_restaurant_id || busy !== null}
+                              onClick={() => runAction(restaurant.id, async () => {
+                                await syncLocationMenu(group.master_restaurant_id!, restaurant.id);
+                                return `The menu of ${restaurant.name} has been updated.`;
+                              }, "Failed to update the menu")}
+                            >
+                              {busy === restaurant.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                              Sync
+                            </Button>
+                            <Button variant="ghost" size="sm" disabled={busy !== null} onClick={() => handleRemoveRestaurant(group, restaurant)}>
+                              Remove
+                            </Button>
+                          </>
+                        )}
+                        <Button asChild size="sm">
+                          <Link to={`/owner/restaurant/${restaurant.id}`}>Manage</Link>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Group</DialogTitle>
+            <DialogDescription>
+              The master restaurant's menu becomes the menu of the group. Its published changes are passed on to the
+              restaurants you add.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="group-name">Name</Label>
+              <Input id="group-name" value={newGroupName} onChange={e => setNewGroupName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Master restaurant</Label>
+              <Select value={newGroupMaster} onValueChange={setNewGroupMaster}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a restaurant" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ungrouped.map(restaurant => (
+                    <SelectItem key={restaurant.id} value={restaurant.id}>{restaurant.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreateDialog(false)}>Cancel</Button>
+            <Button
+              className="bg-kiosk-primary"
+              disabled={!newGroupName.trim() || !newGroupMaster || busy !== null}
+              onClick={handleCreateGroup}
+            >
+              {busy === 'new' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!groupToDelete} onOpenChange={open => !open && setGroupToDelete(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete Group</DialogTitle>
+            <DialogDescription>
+              The restaurants of {groupToDelete?.name} keep their current menus and no longer follow a master menu.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setGroupToDelete(null)}>Cancel</Button>
+            <Button variant="destructive" disabled={busy !== null} onClick={handleDeleteGroup}>
+              {busy === groupToDelete?.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default RestaurantGroupsCard;
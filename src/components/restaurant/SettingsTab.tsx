@@ -14,6 +14,17 @@ import { Badge } from "@/components/ui/badge";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { printReceipt } from "@/utils/print-utils";
 import PrintNodeIntegration from "@/components/restaurant/PrintNodeIntegration";
+import OrderNumberSettings from "@/components/restaurant/OrderNumberSettings";
+import StatusBoardSettings from "@/components/restaurant/StatusBoardSettings";
+import PaymentSettings from "@/components/restaurant/PaymentSettings";
+import TablesSettings from "@/components/restaurant/TablesSettings";
+import MenuSchedulesSettings from "@/components/restaurant/MenuSchedulesSettings";
+import OpeningHoursSettings from "@/components/restaurant/OpeningHoursSettings";
+import PromotionsSettings from "@/components/restaurant/PromotionsSettings";
+import UpsellSettings from "@/components/restaurant/UpsellSettings";
+import KitchenStationsSettings from "@/components/restaurant/KitchenStationsSettings";
+import PrintJobLog from "@/components/restaurant/PrintJobLog";
+import ReceiptTemplateEditor from "@/components/restaurant/ReceiptTemplateEditor";
 import { supabase } from "@/integrations/supabase/client";
 import { calculatePriceWithoutTax, calculateTaxAmount } from "@/utils/price-utils";
 import { updateRestaurant, deleteRestaurant } from "@/services/kiosk-service";
@@ -101,6 +112,8 @@ const SettingsTab = ({ restaurant, onRestaurantUpdated }: SettingsTabProps) => {
   const [isSavingLanguage, setIsSavingLanguage] = useState(false);
   const [currency, setCurrency] = useState(restaurant.currency || "EUR");
   const [isSavingCurrency, setIsSavingCurrency] = useState(false);
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(restaurant.prices_include_tax !== false);
+  const [isSavingTaxMode, setIsSavingTaxMode] = useState(false);
   const [isDuplicating, setIsDuplicating] = useState(false);
   const [isOffline, setIsOffline] = useState(false);
   const { toast } = useToast();
@@ -121,6 +134,7 @@ const SettingsTab = ({ restaurant, onRestaurantUpdated }: SettingsTabProps) => {
     setSlug(restaurant.slug || "");
     setUiLanguage(restaurant.ui_language || "fr");
     setCurrency(restaurant.currency || "EUR");
+    setPricesIncludeTax(restaurant.prices_include_tax !== false);
     
     // Check network status
     setIsOffline(!navigator.onLine);
@@ -263,6 +277,41 @@ const SettingsTab = ({ restaurant, onRestaurantUpdated }: SettingsTabProps) => {
     }
   };
 
+  const handlePricesIncludeTaxChange = async (checked: boolean) => {
+    setIsSavingTaxMode(true);
+    setPricesIncludeTax(checked);
+
+    try {
+      const { error } = await supabase
+        .from("restaurants")
+        .update({ prices_include_tax: checked })
+        .eq("id", restaurant.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "TVA enregistrée",
+        description: checked
+          ? "Les prix de la carte incluent la TVA."
+          : "La TVA sera ajoutée aux prix de la carte.",
+      });
+
+      if (onRestaurantUpdated) {
+        onRestaurantUpdated({ ...restaurant, prices_include_tax: checked });
+      }
+    } catch (error) {
+      console.error("Error updating tax mode:", error);
+      setPricesIncludeTax(!checked);
+      toast({
+        title: "Erreur",
+        description: "Impossible de changer le mode de TVA.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSavingTaxMode(false);
+    }
+  };
+
   const handleDeleteRestaurant = async () => {
     setIsDeleting(true);
     
@@ -651,7 +700,38 @@ const SettingsTab = ({ restaurant, onRestaurantUpdated }: SettingsTabProps) => {
                 </div>
               </div>
             </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="prices-include-tax">Prix TTC</Label>
+                <div className="text-xs text-muted-foreground">
+                  Les prix de la carte incluent la TVA. Désactivez pour ajouter la TVA aux prix affichés (prix HT).
+                </div>
+              </div>
+              <Switch
+                id="prices-include-tax"
+                checked={pricesIncludeTax}
+                onCheckedChange={handlePricesIncludeTaxChange}
+                disabled={isSavingTaxMode}
+              />
+            </div>
           </div>
+
+          <OrderNumberSettings restaurant={restaurant} onRestaurantUpdated={onRestaurantUpdated} />
+
+          <StatusBoardSettings restaurant={restaurant} onRestaurantUpdated={onRestaurantUpdated} />
+
+          <PaymentSettings restaurant={restaurant} onRestaurantUpdated={onRestaurantUpdated} />
+
+          <TablesSettings restaurant={restaurant} />
+
+          <MenuSchedulesSettings restaurant={restaurant} />
+
+          <OpeningHoursSettings restaurant={restaurant} onRestaurantUpdated={onRestaurantUpdated} />
+
+          <PromotionsSettings restaurant={restaurant} />
+
+          <UpsellSettings restaurant={restaurant} />
           
           <div className="flex flex-col space-y-4">
             <div className="flex justify-end">
@@ -781,6 +861,12 @@ const SettingsTab = ({ restaurant, onRestaurantUpdated }: SettingsTabProps) => {
           
           <PrintNodeIntegration restaurantId={restaurant.id} />
           
+          <ReceiptTemplateEditor restaurant={restaurant} />
+          
+          <KitchenStationsSettings restaurantId={restaurant.id} />
+          
+          <PrintJobLog restaurantId={restaurant.id} />
+          
           <div id="receipt-content" className="receipt" style={{ display: "none" }}>
             <div className="header">
               <div className="logo">{restaurant.name}</div>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Restaurant } from "@/types/database-types";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -36,6 +36,7 @@ import {
 import { cn } from "@/lib/utils";
 import { DateRange } from "react-day-picker";
 import { useTranslation, SupportedLanguage, DEFAULT_LANGUAGE } from "@/utils/language-utils";
+import UpsellStatsCard from "@/components/restaurant/UpsellStatsCard";
 
 interface StatisticsTabProps {
   restaurant: Restaurant;
@@ -81,6 +82,14 @@ const StatisticsTab = ({ restaurant }: StatisticsTabProps) => {
   const { toast } = useToast();
   const { t } = useTranslation(language);
 
+  // Same period as the chart
+  const upsellPeriod = useMemo(() => {
+    if (customPeriodActive && dateRange?.from) {
+      return { from: startOfDay(dateRange.from), to: endOfDay(dateRange.to || dateRange.from) };
+    }
+    return { from: startOfDay(subDays(new Date(), 6)), to: endOfDay(new Date()) };
+  }, [customPeriodActive, dateRange]);
+
   useEffect(() => {
     if (restaurant) {
       // Update language when restaurant settings change
@@ -597,6 +606,13 @@ const StatisticsTab = ({ restaurant }: StatisticsTabProps) => {
                 <p className="text-muted-foreground">{t("statistics.noData") || "No data available for the selected time period."}</p>
               </div>
             )}
+
+            <UpsellStatsCard
+              restaurantId={restaurant.id}
+              from={upsellPeriod.from}
+              to={upsellPeriod.to}
+              t={t}
+            />
           </>
         )}
       </div>
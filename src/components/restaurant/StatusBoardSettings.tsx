@@ -0,0 +1,109 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Check, ExternalLink } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Restaurant } from "@/types/database-types";
+import { updateRestaurant } from "@/services/kiosk-service";
+
+interface StatusBoardSettingsProps {
+  restaurant: Restaurant;
+  onRestaurantUpdated?: (restaurant: Restaurant) => void;
+}
+
+const StatusBoardSettings = ({ restaurant, onRestaurantUpdated }: StatusBoardSettingsProps) => {
+  const [timeoutSeconds, setTimeoutSeconds] = useState(restaurant.status_board_timeout_seconds ?? 60);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const boardUrl = `${window.location.origin}/r/${restaurant.slug}/status`;
+  const kitchenUrl = `${window.location.origin}/kds/${restaurant.slug}`;
+
+  useEffect(() => {
+    setTimeoutSeconds(restaurant.status_board_timeout_seconds ?? 60);
+  }, [restaurant]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      await updateRestaurant(restaurant.id, { status_board_timeout_seconds: timeoutSeconds });
+
+      toast({
+        title: "Écran de suivi enregistré",
+        description: "Le délai d'affichage des commandes servies a été mis à jour.",
+      });
+
+      if (onRestaurantUpdated) {
+        onRestaurantUpdated({ ...restaurant, status_board_timeout_seconds: timeoutSeconds });
+      }
+    } catch (error) {
+      console.error("Error updating status board settings:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible d'enregistrer les paramètres de l'écran de suivi.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Écrans cuisine et suivi des commandes</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1 text-sm">
+          <div>
+            Écran cuisine :{" "}
+            <a href={kitchenUrl} target="_blank" rel="noreferrer" className="inline-flex items-center text-blue-600 hover:underline">
+              {kitchenUrl}
+              <ExternalLink className="ml-1 h-3 w-3" />
+            </a>
+          </div>
+          <div>
+            Écran de suivi client :{" "}
+            <a href={boardUrl} target="_blank" rel="noreferrer" className="inline-flex items-center text-blue-600 hover:underline">
+              {boardUrl}
+              <ExternalLink className="ml-1 h-3 w-3" />
+            </a>
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="statusBoardTimeout">Durée d'affichage des commandes servies (secondes)</Label>
+          <div className="flex items-center gap-2 mt-2">
+            <Input
+              id="statusBoardTimeout"
+              type="number"
+              min={0}
+              max={3600}
+              value={timeoutSeconds}
+              onChange={e => setTimeoutSeconds(Math.min(3600, Math.max(0, Number(e.target.value) || 0)))}
+              className="w-32"
+            />
+            <Button onClick={handleSave} disabled={isSaving} size="sm" className="bg-green-600 hover:bg-green-700">
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sauvegarde...
+                </>
+              ) : (
+                <>
+                  <Check className="mr-2 h-4 w-4" />
+                  Enregistrer
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StatusBoardSettings;
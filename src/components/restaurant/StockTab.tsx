@@ -1,19 +1,79 @@
 
 import { useState, useEffect } from "react";
 import { Switch } from "@/components/ui/switch";
-import { Package, PackageOpen, ChevronRight } from "lucide-react";
-import { Card, CardContent } from "@/components/ui/card";
+import { Package, PackageOpen, ChevronRight, RotateCcw, Loader2, BookOpen } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
-import { getCategoriesByRestaurantId, getMenuItemsByCategory, getToppingCategoriesByRestaurantId, getToppingsByCategory, updateMenuItem, updateTopping } from "@/services/kiosk-service";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { getCategoriesByRestaurantId, getMenuItemsByCategory, getToppingCategoriesByRestaurantId, getToppingsByCategory, updateMenuItem, updateTopping, updateRestaurant, resetStockToPar, RecipeTarget } from "@/services/kiosk-service";
+import { clearMenuCache } from "@/services/cache-service";
 import { Restaurant, MenuCategory, MenuItem, ToppingCategory, Topping } from "@/types/database-types";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { DEFAULT_LOW_STOCK_THRESHOLD } from "@/utils/stock";
+import IngredientStockPanel from "@/components/restaurant/IngredientStockPanel";
+import RecipeDialog from "@/components/restaurant/RecipeDialog";
 
 interface StockTabProps {
   restaurant: Restaurant;
 }
 
+type StockLevels = Pick<MenuItem, 'stock_quantity' | 'par_level' | 'low_stock_threshold'>;
+
+// Counted stock of an item or topping; an empty stock leaves it untracked
+const StockLevelEditor = ({ id, levels, onSave }: {
+  id: string;
+  levels: StockLevels;
+  onSave: (levels: StockLevels) => Promise<void>;
+}) => {
+  const [stock, setStock] = useState(levels.stock_quantity?.toString() ?? "");
+  const [par, setPar] = useState(levels.par_level?.toString() ?? "");
+  const [threshold, setThreshold] = useState(String(levels.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD));
+  const [saving, setSaving] = useState(false);
+
+  const dirty = stock !== (levels.stock_quantity?.toString() ?? "")
+    || par !== (levels.par_level?.toString() ?? "")
+    || threshold !== String(levels.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave({
+        stock_quantity: stock === "" ? null : Math.max(0, parseInt(stock, 10) || 0),
+        par_level: par === "" ? null : Math.max(0, parseInt(par, 10) || 0),
+        low_stock_threshold: Math.max(0, parseInt(threshold, 10) || 0)
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-2">
+      <div className="space-y-1">
+        <Label htmlFor={`stock-${id}`} className="text-xs">Stock</Label>
+        <Input id={`stock-${id}`} type="number" min="0" placeholder="Not tracked" className="w-28 h-8" value={stock} onChange={e => setStock(e.target.value)} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`par-${id}`} className="text-xs">Par level</Label>
+        <Input id={`par-${id}`} type="number" min="0" className="w-20 h-8" value={par} onChange={e => setPar(e.target.value)} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`threshold-${id}`} className="text-xs">Low at</Label>
+        <Input id={`threshold-${id}`} type="number" min="0" className="w-16 h-8" value={threshold} onChange={e => setThreshold(e.target.value)} />
+      </div>
+      {dirty && (
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+        </Button>
+      )}
+    </div>
+  );
+};
+
 const StockTab = ({
   restaurant
 }: StockTabProps) => {
@@ -24,6 +84,11 @@ const StockTab = ({
   const [loading, setLoading] = useState(true);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [selectedToppingCategory, setSelectedToppingCategory] = useState<string | null>(null);
+  const [stockResetTime, setStockResetTime] = useState(restaurant.stock_reset_time?.slice(0, 5) ?? "");
+  const [savingResetTime, setSavingResetTime] = useState(false);
+  const [resetting, setResetting] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [recipeTarget, setRecipeTarget] = useState<{ target: RecipeTarget; name: string } | null>(null);
   const isMobile = useIsMobile();
   
   const { toast } = useToast();
@@ -105,7 +170,7 @@ const StockTab = ({
     if (selectedCategory) {
       fetchMenuItems();
     }
-  }, [selectedCategory, toast]);
+  }, [selectedCategory, refreshKey, toast]);
 
   useEffect(() => {
     const fetchToppings = async () => {
@@ -137,7 +202,7 @@ const StockTab = ({
     if (selectedToppingCategory) {
       fetchToppings();
     }
-  }, [selectedToppingCategory, toast]);
+  }, [selectedToppingCategory, refreshKey, toast]);
 
   const handleMenuItemStockToggle = async (item: MenuItem) => {
     try {
@@ -195,153 +260,310 @@ const StockTab = ({
     }
   };
 
+  // Tracked stock decides in_stock, as orders and the daily reset do: none left sells it out,
+  // and restocking brings back what the count sold out but not what was switched off by hand
+  const withStockStatus = (levels: StockLevels, inStock: boolean, previousQuantity: number | null) => ({
+    ...levels,
+    in_stock: levels.stock_quantity === null
+      ? inStock
+      : levels.stock_quantity > 0 && (inStock || previousQuantity === 0)
+  });
+
+  const handleMenuItemStockLevels = async (item: MenuItem, levels: StockLevels) => {
+    try {
+      const updatedItem = await updateMenuItem(item.id, withStockStatus(levels, item.in_stock, item.stock_quantity ?? null));
+
+      setMenuItems(prev => ({
+        ...prev,
+        [item.category_id]: prev[item.category_id].map(menuItem =>
+          menuItem.id === item.id ? updatedItem : menuItem
+        )
+      }));
+      clearMenuCache(restaurant.id);
+    } catch (error) {
+      console.error("Error updating stock levels:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update stock levels",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleToppingStockLevels = async (topping: Topping, levels: StockLevels) => {
+    try {
+      const updatedTopping = await updateTopping(topping.id, withStockStatus(levels, topping.in_stock, topping.stock_quantity ?? null));
+
+      setToppings(prev => ({
+        ...prev,
+        [topping.category_id]: prev[topping.category_id].map(t =>
+          t.id === topping.id ? updatedTopping : t
+        )
+      }));
+      clearMenuCache(restaurant.id);
+    } catch (error) {
+      console.error("Error updating topping stock levels:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update topping stock levels",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleSaveResetTime = async () => {
+    try {
+      setSavingResetTime(true);
+      await updateRestaurant(restaurant.id, { stock_reset_time: stockResetTime || null });
+      toast({
+        title: "Success",
+        description: stockResetTime ? `Stock will be reset to par levels daily at ${stockResetTime}` : "Daily stock reset disabled"
+      });
+    } catch (error) {
+      console.error("Error saving stock reset time:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save the daily reset time",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingResetTime(false);
+    }
+  };
+
+  const handleResetNow = async () => {
+    try {
+      setResetting(true);
+      await resetStockToPar(restaurant.id);
+      clearMenuCache(restaurant.id);
+      setRefreshKey(key => key + 1);
+      toast({
+        title: "Success",
+        description: "Stock reset to par levels"
+      });
+    } catch (error) {
+      console.error("Error resetting stock:", error);
+      toast({
+        title: "Error",
+        description: "Failed to reset stock",
+        variant: "destructive"
+      });
+    } finally {
+      setResetting(false);
+    }
+  };
+
   if (loading && !selectedCategory && !selectedToppingCategory) {
     return <div>Loading stock management...</div>;
   }
 
   return (
-    <Tabs defaultValue="menu-items">
-      <TabsList className="mb-4">
-        <TabsTrigger value="menu-items">Menu Items</TabsTrigger>
-        <TabsTrigger value="toppings">Toppings</TabsTrigger>
-      </TabsList>
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Daily stock reset</CardTitle>
+          <CardDescription>
+            Tracked items and toppings go back to their par level every day at this time, in the restaurant's timezone.
+            Orders take from the stock and sell items out at zero; cancelled orders give it back. Items switched
+            off by hand stay off.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="stock-reset-time">Reset time</Label>
+            <Input id="stock-reset-time" type="time" className="w-32" value={stockResetTime} onChange={e => setStockResetTime(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={handleSaveResetTime} disabled={savingResetTime}>
+            {savingResetTime ? "Saving..." : "Save"}
+          </Button>
+          <Button variant="outline" onClick={handleResetNow} disabled={resetting}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            {resetting ? "Resetting..." : "Reset to par now"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Tabs defaultValue="menu-items">
+        <TabsList className="mb-4">
+          <TabsTrigger value="menu-items">Menu Items</TabsTrigger>
+          <TabsTrigger value="toppings">Toppings</TabsTrigger>
+          <TabsTrigger value="ingredients">Ingredients</TabsTrigger>
+        </TabsList>
 
-      <TabsContent value="menu-items">
-        <div className="space-y-6">
-          {/* Menu Categories Horizontal Scroll */}
-          <div className="overflow-x-auto pb-4">
-            <div className="flex space-x-2">
-              {categories.map(category => (
-                <Button 
-                  key={category.id}
-                  onClick={() => setSelectedCategory(category.id)}
-                  variant={selectedCategory === category.id ? "default" : "outline"}
-                  className="whitespace-nowrap"
-                >
-                  {category.name}
-                  {selectedCategory === category.id && (
-                    <ChevronRight className="ml-1 h-4 w-4" />
-                  )}
-                </Button>
-              ))}
+        <TabsContent value="menu-items">
+          <div className="space-y-6">
+            {/* Menu Categories Horizontal Scroll */}
+            <div className="overflow-x-auto pb-4">
+              <div className="flex space-x-2">
+                {categories.map(category => (
+                  <Button 
+                    key={category.id}
+                    onClick={() => setSelectedCategory(category.id)}
+                    variant={selectedCategory === category.id ? "default" : "outline"}
+                    className="whitespace-nowrap"
+                  >
+                    {category.name}
+                    {selectedCategory === category.id && (
+                      <ChevronRight className="ml-1 h-4 w-4" />
+                    )}
+                  </Button>
+                ))}
+              </div>
             </div>
-          </div>
 
-          {/* Selected Category Items */}
-          {selectedCategory && menuItems[selectedCategory] && (
-            <Card>
-              <CardContent className="pt-6">
-                <h3 className="text-lg font-semibold mb-4">
-                  {categories.find(c => c.id === selectedCategory)?.name}
-                </h3>
-                <div className="space-y-4">
-                  {menuItems[selectedCategory]?.length > 0 ? (
-                    menuItems[selectedCategory]?.map(item => (
-                      <div key={item.id} className="flex items-center justify-between p-4 border rounded-lg">
-                        <div className="flex items-center space-x-4">
-                          {item.image && (
-                            <img 
-                              src={item.image} 
-                              alt={item.name} 
-                              className="h-12 w-12 object-cover rounded-md"
-                            />
-                          )}
-                          <div>
-                            <p className="font-medium">{item.name}</p>
-                            <span className="text-xs text-muted-foreground">Order: {item.display_order || 0}</span>
+            {/* Selected Category Items */}
+            {selectedCategory && menuItems[selectedCategory] && (
+              <Card>
+                <CardContent className="pt-6">
+                  <h3 className="text-lg font-semibold mb-4">
+                    {categories.find(c => c.id === selectedCategory)?.name}
+                  </h3>
+                  <div className="space-y-4">
+                    {menuItems[selectedCategory]?.length > 0 ? (
+                      menuItems[selectedCategory]?.map(item => (
+                        <div key={item.id} className="flex flex-wrap items-center justify-between gap-4 p-4 border rounded-lg">
+                          <div className="flex items-center space-x-4">
+                            {item.image && (
+                              <img 
+                                src={item.image} 
+                                alt={item.name} 
+                                className="h-12 w-12 object-cover rounded-md"
+                              />
+                            )}
+                            <div>
+                              <p className="font-medium">{item.name}</p>
+                              <span className="text-xs text-muted-foreground">Order: {item.display_order || 0}</span>
+                              {item.ingredients_available === false && <Badge variant="destructive" className="ml-2">Missing ingredients</Badge>}
+                            </div>
                           </div>
-                        </div>
-                        <div className="flex items-center space-x-2">
-                          {item.in_stock ? (
-                            <Package className="h-4 w-4 text-green-500" />
-                          ) : (
-                            <PackageOpen className="h-4 w-4 text-red-500" />
-                          )}
-                          <Switch 
-                            checked={item.in_stock} 
-                            onCheckedChange={() => handleMenuItemStockToggle(item)} 
+                          <StockLevelEditor
+                            key={item.updated_at}
+                            id={item.id}
+                            levels={item}
+                            onSave={levels => handleMenuItemStockLevels(item, levels)}
                           />
+                          <Button variant="outline" size="sm" onClick={() => setRecipeTarget({ target: { menuItemId: item.id }, name: item.name })}>
+                            <BookOpen className="mr-2 h-4 w-4" />
+                            Recipe
+                          </Button>
+                          <div className="flex items-center space-x-2">
+                            {item.in_stock ? (
+                              <Package className="h-4 w-4 text-green-500" />
+                            ) : (
+                              <PackageOpen className="h-4 w-4 text-red-500" />
+                            )}
+                            <Switch 
+                              checked={item.in_stock} 
+                              onCheckedChange={() => handleMenuItemStockToggle(item)} 
+                            />
+                          </div>
                         </div>
+                      ))
+                    ) : (
+                      <div className="text-center py-6 text-muted-foreground">
+                        No items found in this category
                       </div>
-                    ))
-                  ) : (
-                    <div className="text-center py-6 text-muted-foreground">
-                      No items found in this category
-                    </div>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
-          )}
-        </div>
-      </TabsContent>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </TabsContent>
 
-      <TabsContent value="toppings">
-        <div className="space-y-6">
-          {/* Topping Categories Horizontal Scroll */}
-          <div className="overflow-x-auto pb-4">
-            <div className="flex space-x-2">
-              {toppingCategories.map(category => (
-                <Button 
-                  key={category.id}
-                  onClick={() => setSelectedToppingCategory(category.id)}
-                  variant={selectedToppingCategory === category.id ? "default" : "outline"}
-                  className="whitespace-nowrap"
-                >
-                  {category.name}
-                  {selectedToppingCategory === category.id && (
-                    <ChevronRight className="ml-1 h-4 w-4" />
-                  )}
-                </Button>
-              ))}
+        <TabsContent value="toppings">
+          <div className="space-y-6">
+            {/* Topping Categories Horizontal Scroll */}
+            <div className="overflow-x-auto pb-4">
+              <div className="flex space-x-2">
+                {toppingCategories.map(category => (
+                  <Button 
+                    key={category.id}
+                    onClick={() => setSelectedToppingCategory(category.id)}
+                    variant={selectedToppingCategory === category.id ? "default" : "outline"}
+                    className="whitespace-nowrap"
+                  >
+                    {category.name}
+                    {selectedToppingCategory === category.id && (
+                      <ChevronRight className="ml-1 h-4 w-4" />
+                    )}
+                  </Button>
+                ))}
+              </div>
             </div>
-          </div>
 
-          {/* Selected Topping Category Items */}
-          {selectedToppingCategory && toppings[selectedToppingCategory] && (
-            <Card>
-              <CardContent className="pt-6">
-                <h3 className="text-lg font-semibold mb-4">
-                  {toppingCategories.find(c => c.id === selectedToppingCategory)?.name}
-                </h3>
-                <div className="space-y-4">
-                  {toppings[selectedToppingCategory]?.length > 0 ? (
-                    toppings[selectedToppingCategory]?.map(topping => (
-                      <div key={topping.id} className="flex items-center justify-between p-4 border rounded-lg">
-                        <div>
-                          <p className="font-medium">{topping.name}</p>
-                          <div className="flex flex-col xs:flex-row xs:items-center xs:gap-3">
-                            <p className="text-sm text-gray-600">
-                              €{topping.price.toFixed(2)}
-                            </p>
-                            <span className="text-xs text-muted-foreground">Order: {topping.display_order || 0}</span>
+            {/* Selected Topping Category Items */}
+            {selectedToppingCategory && toppings[selectedToppingCategory] && (
+              <Card>
+                <CardContent className="pt-6">
+                  <h3 className="text-lg font-semibold mb-4">
+                    {toppingCategories.find(c => c.id === selectedToppingCategory)?.name}
+                  </h3>
+                  <div className="space-y-4">
+                    {toppings[selectedToppingCategory]?.length > 0 ? (
+                      toppings[selectedToppingCategory]?.map(topping => (
+                        <div key={topping.id} className="flex flex-wrap items-center justify-between gap-4 p-4 border rounded-lg">
+                          <div>
+                            <p className="font-medium">{topping.name}</p>
+                            <div className="flex flex-col xs:flex-row xs:items-center xs:gap-3">
+                              <p className="text-sm text-gray-600">
+                                €{topping.price.toFixed(2)}
+                              </p>
+                              <span className="text-xs text-muted-foreground">Order: {topping.display_order || 0}</span>
+                              {topping.ingredients_available === false && <Badge variant="destructive">Missing ingredients</Badge>}
+                            </div>
                           </div>
-                        </div>
-                        <div className="flex items-center space-x-2">
-                          {topping.in_stock ? (
-                            <Package className="h-4 w-4 text-green-500" />
-                          ) : (
-                            <PackageOpen className="h-4 w-4 text-red-500" />
-                          )}
-                          <Switch 
-                            checked={topping.in_stock} 
-                            onCheckedChange={() => handleToppingStockToggle(topping)} 
+                          <StockLevelEditor
+                            key={topping.updated_at}
+                            id={topping.id}
+                            levels={topping}
+                            onSave={levels => handleToppingStockLevels(topping, levels)}
                           />
+                          <Button variant="outline" size="sm" onClick={() => setRecipeTarget({ target: { toppingId: topping.id }, name: topping.name })}>
+                            <BookOpen className="mr-2 h-4 w-4" />
+                            Recipe
+                          </Button>
+                          <div className="flex items-center space-x-2">
+                            {topping.in_stock ? (
+                              <Package className="h-4 w-4 text-green-500" />
+                            ) : (
+                              <PackageOpen className="h-4 w-4 text-red-500" />
+                            )}
+                            <Switch 
+                              checked={topping.in_stock} 
+                              onCheckedChange={() => handleToppingStockToggle(topping)} 
+                            />
+                          </div>
                         </div>
+                      ))
+                    ) : (
+                      <div className="text-center py-6 text-muted-foreground">
+                        No toppings found in this category
                       </div>
-                    ))
-                  ) : (
-                    <div className="text-center py-6 text-muted-foreground">
-                      No toppings found in this category
-                    </div>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
-          )}
-        </div>
-      </TabsContent>
-    </Tabs>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="ingredients">
+          <IngredientStockPanel restaurantId={restaurant.id} />
+        </TabsContent>
+      </Tabs>
+
+      <RecipeDialog
+        restaurantId={restaurant.id}
+        target={recipeTarget?.target ?? null}
+        name={recipeTarget?.name ?? ""}
+        onClose={() => {
+          setRecipeTarget(null);
+          // Availability follows the new recipe
+          setRefreshKey(key => key + 1);
+        }}
+      />
+    </div>
   );
 };
 
@@ -0,0 +1,177 @@
+import { useState, useEffect } from "react";
+import QRCode from "qrcode";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Loader2, Printer, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Restaurant, RestaurantTable } from "@/types/database-types";
+import { getTableQrTokens, regenerateTableQrToken } from "@/services/kiosk-service";
+import { printHTML } from "@/utils/print-utils";
+
+interface TableQrCodesProps {
+  restaurant: Pick<Restaurant, "id" | "name" | "slug">;
+  tables: RestaurantTable[];
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const getTableOrderUrl = (slug: string, token: string) => `${window.location.origin}/r/${slug}/t/${token}`;
+
+const TableQrCodes = ({ restaurant, tables }: TableQrCodesProps) => {
+  const [tokens, setTokens] = useState<Record<string, string>>({});
+  const [qrImages, setQrImages] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const activeTables = tables.filter(table => table.is_active);
+  const tableUrl = (token: string) => getTableOrderUrl(restaurant.slug, token);
+
+  // Tokens are created by the database with each table, so reload them whenever the list changes
+  useEffect(() => {
+    const loadTokens = async () => {
+      try {
+        setTokens(await getTableQrTokens(restaurant.id));
+      } catch (error) {
+        console.error("Error loading table QR codes:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTokens();
+  }, [restaurant.id, tables]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const renderQrCodes = async () => {
+      const entries = await Promise.all(
+        Object.entries(tokens).map(async ([tableId, token]) =>
+          [tableId, await QRCode.toDataURL(getTableOrderUrl(restaurant.slug, token), { errorCorrectionLevel: "M", margin: 1, width: 240 })] as const
+        )
+      );
+      if (!cancelled) {
+        setQrImages(Object.fromEntries(entries));
+      }
+    };
+
+    renderQrCodes().catch(error => console.error("Error rendering table QR codes:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [tokens, restaurant.slug]);
+
+  const handleRegenerate = async (table: RestaurantTable) => {
+    if (!window.confirm(`Le QR code déjà imprimé pour la table ${table.table_number} ne fonctionnera plus. Continuer ?`)) {
+      return;
+    }
+
+    setRegeneratingId(table.id);
+    try {
+      const token = await regenerateTableQrToken(table);
+      setTokens(prev => ({ ...prev, [table.id]: token }));
+      toast({
+        title: "QR code régénéré",
+        description: `Pensez à réimprimer le QR code de la table ${table.table_number}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erreur",
+        description: "Impossible de régénérer le QR code.",
+        variant: "destructive"
+      });
+    } finally {
+      setRegeneratingId(null);
+    }
+  };
+
+  // One cut-out card per active table, laid out on A4 sheets
+  const handlePrint = () => {
+    const cards = activeTables
+      .filter(table => qrImages[table.id])
+      .map(table => `
+        <div class="card">
+          <div class="restaurant">${escapeHtml(restaurant.name)}</div>
+          <img src="${qrImages[table.id]}" alt="" />
+          <div class="table">Table ${escapeHtml(table.table_number)}</div>
+          <div class="hint">Scannez pour commander</div>
+        </div>`)
+      .join("");
+
+    printHTML(`<!DOCTYPE html>
+      <html>
+        <head>
+          <title>QR codes - ${escapeHtml(restaurant.name)}</title>
+          <style>
+            @page { size: A4; margin: 10mm; }
+            body { margin: 0; font-family: Arial, sans-serif; }
+            .grid { display: grid; grid-template-columns: repeat(3, 1fr); gap: 6mm; }
+            .card { border: 1px dashed #999; padding: 5mm; text-align: center; page-break-inside: avoid; }
+            .card img { width: 45mm; height: 45mm; }
+            .restaurant { font-size: 11pt; margin-bottom: 2mm; }
+            .table { font-size: 18pt; font-weight: bold; margin-top: 2mm; }
+            .hint { font-size: 9pt; color: #555; }
+          </style>
+        </head>
+        <body><div class="grid">${cards}</div></body>
+      </html>`);
+  };
+
+  if (activeTables.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <Label>QR codes de commande à table</Label>
+          <p className="text-sm text-muted-foreground">
+            Les clients scannent le QR code de leur table et commandent depuis leur téléphone.
+          </p>
+        </div>
+        <Button onClick={handlePrint} disabled={isLoading} size="sm" variant="outline">
+          <Printer className="mr-2 h-4 w-4" />
+          Imprimer les QR codes
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
+          {activeTables.map(table => (
+            <div key={table.id} className="flex flex-col items-center rounded-md border p-2">
+              {qrImages[table.id] ? (
+                <a href={tableUrl(tokens[table.id])} target="_blank" rel="noopener noreferrer">
+                  <img src={qrImages[table.id]} alt={`QR code table ${table.table_number}`} className="h-24 w-24" />
+                </a>
+              ) : (
+                <div className="flex h-24 w-24 items-center justify-center">
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                </div>
+              )}
+              <span className="mt-1 text-sm font-medium">{table.table_number}</span>
+              <Button
+                onClick={() => handleRegenerate(table)}
+                disabled={regeneratingId === table.id}
+                size="sm"
+                variant="ghost"
+                className="h-7 text-xs"
+              >
+                <RefreshCw className={`mr-1 h-3 w-3 ${regeneratingId === table.id ? "animate-spin" : ""}`} />
+                Régénérer
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TableQrCodes;
@@ -0,0 +1,276 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Plus, ListPlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Restaurant, RestaurantTable } from "@/types/database-types";
+import {
+  getRestaurantTables,
+  createRestaurantTables,
+  updateRestaurantTable,
+  isTableSelectionRequired,
+  setTableSelectionRequired
+} from "@/services/kiosk-service";
+import TableQrCodes from "@/components/restaurant/TableQrCodes";
+
+// Keeps a bulk generation from flooding the kiosk with buttons by mistake
+const MAX_GENERATED_TABLES = 200;
+
+interface TablesSettingsProps {
+  restaurant: Restaurant;
+}
+
+const TablesSettings = ({ restaurant }: TablesSettingsProps) => {
+  const restaurantId = restaurant.id;
+  const [tables, setTables] = useState<RestaurantTable[]>([]);
+  const [required, setRequired] = useState(false);
+  const [newTableNumber, setNewTableNumber] = useState("");
+  const [prefix, setPrefix] = useState("");
+  const [rangeStart, setRangeStart] = useState(1);
+  const [rangeEnd, setRangeEnd] = useState(10);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadTables = async () => {
+    setTables(await getRestaurantTables(restaurantId));
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        const [tableData, requiredData] = await Promise.all([
+          getRestaurantTables(restaurantId),
+          isTableSelectionRequired(restaurantId)
+        ]);
+        setTables(tableData);
+        setRequired(requiredData);
+      } catch (error) {
+        console.error("Error loading restaurant tables:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [restaurantId]);
+
+  const reportError = (description: string) => {
+    toast({
+      title: "Erreur",
+      description,
+      variant: "destructive"
+    });
+  };
+
+  const isTaken = (tableNumber: string, exceptId?: string) =>
+    tables.some(table => table.id !== exceptId && table.table_number.toLowerCase() === tableNumber.toLowerCase());
+
+  const handleAddTable = async () => {
+    const tableNumber = newTableNumber.trim();
+    if (!tableNumber) return;
+
+    if (isTaken(tableNumber)) {
+      reportError(`La table ${tableNumber} existe déjà.`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await createRestaurantTables([{
+        restaurant_id: restaurantId,
+        table_number: tableNumber,
+        is_active: true,
+        display_order: tables.length
+      }]);
+      setNewTableNumber("");
+      await loadTables();
+    } catch (error) {
+      reportError("Impossible de créer la table.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Creates prefix + number for each number of the range, skipping tables that already exist
+  const handleGenerateTables = async () => {
+    const from = Math.min(rangeStart, rangeEnd);
+    const to = Math.max(rangeStart, rangeEnd);
+
+    if (to - from + 1 > MAX_GENERATED_TABLES) {
+      reportError(`Impossible de générer plus de ${MAX_GENERATED_TABLES} tables à la fois.`);
+      return;
+    }
+
+    const newTables = Array.from({ length: to - from + 1 }, (_, i) => `${prefix.trim()}${from + i}`)
+      .filter(tableNumber => !isTaken(tableNumber))
+      .map((tableNumber, i) => ({
+        restaurant_id: restaurantId,
+        table_number: tableNumber,
+        is_active: true,
+        display_order: tables.length + i
+      }));
+
+    if (newTables.length === 0) {
+      toast({
+        title: "Aucune table créée",
+        description: "Toutes les tables de cette plage existent déjà.",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await createRestaurantTables(newTables);
+      toast({
+        title: "Tables créées",
+        description: `${newTables.length} table(s) ajoutée(s).`,
+      });
+      await loadTables();
+    } catch (error) {
+      reportError("Impossible de générer les tables.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRenameTable = async (table: RestaurantTable, tableNumber: string) => {
+    const trimmed = tableNumber.trim();
+    if (!trimmed || trimmed === table.table_number) return;
+
+    if (isTaken(trimmed, table.id)) {
+      reportError(`La table ${trimmed} existe déjà.`);
+      await loadTables();
+      return;
+    }
+
+    try {
+      await updateRestaurantTable(table.id, { table_number: trimmed });
+      await loadTables();
+    } catch (error) {
+      reportError("Impossible de renommer la table.");
+    }
+  };
+
+  const handleToggleActive = async (table: RestaurantTable, isActive: boolean) => {
+    try {
+      await updateRestaurantTable(table.id, { is_active: isActive });
+      setTables(prev => prev.map(t => (t.id === table.id ? { ...t, is_active: isActive } : t)));
+    } catch (error) {
+      reportError("Impossible de modifier la table.");
+    }
+  };
+
+  const handleRequiredChange = async (checked: boolean) => {
+    try {
+      await setTableSelectionRequired(restaurantId, checked);
+      setRequired(checked);
+    } catch (error) {
+      reportError("Impossible d'enregistrer le paramètre.");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Tables</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Sur place, les clients choisissent leur table parmi les tables actives. Sans aucune table, le numéro reste libre.
+        </p>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="require-table">Numéro de table obligatoire</Label>
+                <p className="text-sm text-muted-foreground">
+                  Les commandes sur place sont refusées sans numéro de table.
+                </p>
+              </div>
+              <Switch id="require-table" checked={required} onCheckedChange={handleRequiredChange} />
+            </div>
+
+            <div className="space-y-3">
+              {tables.map(table => (
+                <div key={`${table.id}-${table.table_number}`} className="flex items-center gap-2">
+                  <Input
+                    defaultValue={table.table_number}
+                    onBlur={e => handleRenameTable(table, e.target.value)}
+                    className={`w-48 ${table.is_active ? "" : "text-muted-foreground"}`}
+                  />
+                  <Switch
+                    checked={table.is_active}
+                    onCheckedChange={checked => handleToggleActive(table, checked)}
+                  />
+                  <span className="text-sm text-muted-foreground">
+                    {table.is_active ? "Active" : "Désactivée"}
+                  </span>
+                </div>
+              ))}
+
+              <div className="flex items-center gap-2">
+                <Input
+                  placeholder="12, Terrasse 3..."
+                  value={newTableNumber}
+                  onChange={e => setNewTableNumber(e.target.value)}
+                  onKeyDown={e => e.key === "Enter" && handleAddTable()}
+                  className="w-48"
+                />
+                <Button onClick={handleAddTable} disabled={isSaving || !newTableNumber.trim()} size="sm">
+                  {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                  Ajouter une table
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Générer une série de tables</Label>
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  placeholder="Préfixe (optionnel)"
+                  value={prefix}
+                  onChange={e => setPrefix(e.target.value)}
+                  className="w-40"
+                />
+                <span className="text-sm">de</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={rangeStart}
+                  onChange={e => setRangeStart(Math.max(0, Number(e.target.value) || 0))}
+                  className="w-24"
+                />
+                <span className="text-sm">à</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={rangeEnd}
+                  onChange={e => setRangeEnd(Math.max(0, Number(e.target.value) || 0))}
+                  className="w-24"
+                />
+                <Button onClick={handleGenerateTables} disabled={isSaving} size="sm" variant="outline">
+                  <ListPlus className="mr-2 h-4 w-4" />
+                  Générer
+                </Button>
+              </div>
+            </div>
+
+            <TableQrCodes restaurant={restaurant} tables={tables} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TablesSettings;
@@ -5,13 +5,22 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { toast } from "@/hooks/use-toast";
 import { Plus, Pencil, Trash, WifiOff, RefreshCcw } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
 import ToppingForm, { ToppingFormValues } from "@/components/forms/ToppingForm";
 import ToppingCategoryForm from "@/components/forms/ToppingCategoryForm";
 import { Topping, ToppingCategory } from "@/types/database-types";
 import { getCacheItem, setCacheItem } from "@/services/cache-service";
 import { handleCacheError } from "@/utils/cache-config";
 import { isOnline, retryNetworkRequest } from "@/utils/service-worker";
+import {
+  getDraftToppingCategories,
+  getDraftToppings,
+  createDraftToppingCategory,
+  updateDraftToppingCategory,
+  deleteDraftToppingCategory,
+  createDraftTopping,
+  updateDraftTopping,
+  deleteDraftTopping
+} from "@/services/menu-draft-service";
 
 interface ToppingCategoryWithToppings extends ToppingCategory {
   toppings?: Topping[];
@@ -109,7 +118,7 @@ const ToppingsTab = ({
     if (isOffline) {
       setCategoryError("You are offline. Using cached data if available.");
       // Try to use cached data even when offline
-      const cachedCategories = getCacheItem<ToppingCategory[]>('topping_categories', restaurant.id, true);
+      const cachedCategories = getCacheItem<ToppingCategory[]>('draft_topping_categories', restaurant.id, true);
       if (cachedCategories) {
         console.log("Using cached topping categories while offline");
         setCategories(cachedCategories);
@@ -128,26 +137,17 @@ const ToppingsTab = ({
       console.log("Fetching topping categories for restaurant:", restaurant.id);
 
       // Try to get from cache first without clearing (more efficient)
-      const cachedCategories = getCacheItem<ToppingCategory[]>('topping_categories', restaurant.id, true);
+      const cachedCategories = getCacheItem<ToppingCategory[]>('draft_topping_categories', restaurant.id, true);
       
       // If we're refreshing data or there's no cache, fetch from database
       if (isRefreshingData || !cachedCategories) {
         console.log("Fetching fresh topping categories data");
         
-        // Fix: Properly await the supabase query and handle its result
-        const result = await retryNetworkRequest(async () => {
-          const response = await supabase.from('topping_categories')
-                           .select('*')
-                           .eq('restaurant_id', restaurant.id)
-                           .order('created_at', { ascending: true });
-          return response;
-        }, 2);
-        
-        if (result.error) throw result.error;
+        const result = await retryNetworkRequest(() => getDraftToppingCategories(restaurant.id), 2);
 
-        console.log("Fetched topping categories:", result.data);
-        setCacheItem('topping_categories', result.data, restaurant.id, true);
-        setCategories(result.data || []);
+        console.log("Fetched topping categories:", result);
+        setCacheItem('draft_topping_categories', result, restaurant.id, true);
+        setCategories(result);
       } else {
         console.log("Using cached topping categories");
         setCategories(cachedCategories);
@@ -165,7 +165,7 @@ const ToppingsTab = ({
       });
       
       // Try to use cached data as fallback after error
-      const cachedCategories = getCacheItem<ToppingCategory[]>('topping_categories', restaurant.id, true);
+      const cachedCategories = getCacheItem<ToppingCategory[]>('draft_topping_categories', restaurant.id, true);
       if (cachedCategories) {
         setCategories(cachedCategories);
       }
@@ -182,7 +182,7 @@ const ToppingsTab = ({
     if (isOffline) {
       setToppingError("You are offline. Using cached data if available.");
       // Try to use cached data even when offline
-      const cacheKey = `toppings_${selectedCategory.id}`;
+      const cacheKey = `draft_toppings_${selectedCategory.id}`;
       const cachedToppings = getCacheItem<Topping[]>(cacheKey, restaurant.id, true);
       if (cachedToppings) {
         console.log("Using cached toppings while offline for category:", selectedCategory.id);
@@ -204,26 +204,17 @@ const ToppingsTab = ({
       setLoadingToppings(true);
       setToppingError(null);
       
-      const cacheKey = `toppings_${selectedCategory.id}`;
+      const cacheKey = `draft_toppings_${selectedCategory.id}`;
       const cachedToppings = getCacheItem<Topping[]>(cacheKey, restaurant.id, true);
       
       // If we're refreshing data or there's no cache, fetch from database
       if (isRefreshingData || !cachedToppings) {
         console.log("Fetching fresh toppings for category:", selectedCategory.id);
         
-        // Fix: Properly await the supabase query and handle its result
-        const result = await retryNetworkRequest(async () => {
-          const response = await supabase.from('toppings')
-                           .select('*')
-                           .eq('category_id', selectedCategory.id)
-                           .order('display_order', { ascending: true });
-          return response;
-        }, 2);
-        
-        if (result.error) throw result.error;
+        const result = await retryNetworkRequest(() => getDraftToppings(restaurant.id, selectedCategory.id), 2);
         
-        if (result.data) {
-          const updatedToppings = result.data.map(topping => ({
+        if (result) {
+          const updatedToppings = result.map(topping => ({
             ...topping,
             tax_percentage: typeof topping.tax_percentage === 'string' ? parseFloat(topping.tax_percentage) : topping.tax_percentage
           }));
@@ -263,7 +254,7 @@ const ToppingsTab = ({
       });
       
       // Try to use cached data as fallback after error
-      const cacheKey = `toppings_${selectedCategory.id}`;
+      const cacheKey = `draft_toppings_${selectedCategory.id}`;
       const cachedToppings = getCacheItem<Topping[]>(cacheKey, restaurant.id, true);
       if (cachedToppings) {
         setToppings(cachedToppings);
@@ -316,10 +307,7 @@ const ToppingsTab = ({
       }
       
       setIsDeletingCategory(true);
-      const {
-        error
-      } = await supabase.from('topping_categories').delete().eq('id', selectedCategoryToDelete.id);
-      if (error) throw error;
+      await deleteDraftToppingCategory(restaurant.id, selectedCategoryToDelete.id);
       
       toast({
         title: "Success",
@@ -363,10 +351,7 @@ const ToppingsTab = ({
       }
       
       setIsCreatingTopping(true);
-      const {
-        data: newTopping,
-        error
-      } = await supabase.from('toppings').insert([{
+      await createDraftTopping(restaurant.id, {
         name: formData.name,
         name_fr: formData.name_fr,
         name_en: formData.name_en,
@@ -381,10 +366,18 @@ const ToppingsTab = ({
         name_zh: formData.name_zh,
         price: parseFloat(formData.price),
         tax_percentage: parseFloat(formData.tax_percentage || "10"),
+        takeaway_tax_percentage: formData.takeaway_tax_percentage ? parseFloat(formData.takeaway_tax_percentage) : null,
         display_order: parseInt(formData.display_order || "0"),
+        allergens: formData.allergens,
+        dietary_tags: formData.dietary_tags,
+        spicy_level: parseInt(formData.spicy_level || "0"),
+        calories: formData.calories ? parseFloat(formData.calories) : null,
+        protein: formData.protein ? parseFloat(formData.protein) : null,
+        carbohydrates: formData.carbohydrates ? parseFloat(formData.carbohydrates) : null,
+        fat: formData.fat ? parseFloat(formData.fat) : null,
+        portion_size: formData.portion_size || null,
         category_id: selectedCategory?.id
-      }]).select().single();
-      if (error) throw error;
+      });
       
       // Set isRefreshingData to true to ensure we get fresh data
       setIsRefreshingData(true);
@@ -423,9 +416,7 @@ const ToppingsTab = ({
       }
       
       setIsUpdatingTopping(true);
-      const {
-        error
-      } = await supabase.from('toppings').update({
+      await updateDraftTopping(restaurant.id, toppingId, {
         name: formData.name,
         name_fr: formData.name_fr,
         name_en: formData.name_en,
@@ -440,9 +431,17 @@ const ToppingsTab = ({
         name_zh: formData.name_zh,
         price: parseFloat(formData.price),
         tax_percentage: parseFloat(formData.tax_percentage || "10"),
-        display_order: parseInt(formData.display_order || "0")
-      }).eq('id', toppingId);
-      if (error) throw error;
+        takeaway_tax_percentage: formData.takeaway_tax_percentage ? parseFloat(formData.takeaway_tax_percentage) : null,
+        display_order: parseInt(formData.display_order || "0"),
+        allergens: formData.allergens,
+        dietary_tags: formData.dietary_tags,
+        spicy_level: parseInt(formData.spicy_level || "0"),
+        calories: formData.calories ? parseFloat(formData.calories) : null,
+        protein: formData.protein ? parseFloat(formData.protein) : null,
+        carbohydrates: formData.carbohydrates ? parseFloat(formData.carbohydrates) : null,
+        fat: formData.fat ? parseFloat(formData.fat) : null,
+        portion_size: formData.portion_size || null
+      });
       
       // Set isRefreshingData to true to ensure we get fresh data
       setIsRefreshingData(true);
@@ -482,10 +481,7 @@ const ToppingsTab = ({
       }
       
       setIsDeletingTopping(true);
-      const {
-        error
-      } = await supabase.from('toppings').delete().eq('id', selectedTopping.id);
-      if (error) throw error;
+      await deleteDraftTopping(restaurant.id, selectedTopping.id);
       
       // Set isRefreshingData to true to ensure we get fresh data
       setIsRefreshingData(true);
@@ -533,10 +529,7 @@ const ToppingsTab = ({
         allow_multiple_same_topping
       } = values;
       console.log("Creating category with values:", values);
-      const {
-        data,
-        error
-      } = await supabase.from('topping_categories').insert([{
+      await createDraftToppingCategory(restaurant.id, {
         name,
         name_fr: values.name_fr,
         name_en: values.name_en,
@@ -566,8 +559,7 @@ const ToppingsTab = ({
         max_selections,
         show_if_selection_id: conditionToppingIds && conditionToppingIds.length > 0 ? conditionToppingIds : null,
         allow_multiple_same_topping
-      }]).select().single();
-      if (error) throw error;
+      });
       
       toast({
         title: "Success",
@@ -615,9 +607,7 @@ const ToppingsTab = ({
       } = values;
       console.log("Updating category with values:", values);
       console.log("allow_multiple_same_topping value:", allow_multiple_same_topping);
-      const {
-        error
-      } = await supabase.from('topping_categories').update({
+      await updateDraftToppingCategory(restaurant.id, selectedCategory.id, {
         name,
         name_fr: values.name_fr,
         name_en: values.name_en,
@@ -646,8 +636,7 @@ const ToppingsTab = ({
         max_selections,
         show_if_selection_id: conditionToppingIds.length > 0 ? conditionToppingIds : null,
         allow_multiple_same_topping
-      }).eq('id', selectedCategory.id);
-      if (error) throw error;
+      });
       
       toast({
         title: "Success",
@@ -677,7 +666,7 @@ const ToppingsTab = ({
       <div className="flex justify-between items-center">
         <div>
           <h2 className="text-2xl font-bold">Toppings Categories</h2>
-          <p className="text-muted-foreground">Manage toppings categories available in your restaurant.</p>
+          <p className="text-muted-foreground">Manage toppings categories available in your restaurant. Changes go to the draft menu, published from the Menu tab.</p>
         </div>
         
         {/* Add refresh button */}
@@ -1004,7 +993,7 @@ const ToppingsTab = ({
       </Dialog>
 
       <Dialog open={showCreateToppingDialog} onOpenChange={setShowCreateToppingDialog}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Create Topping</DialogTitle>
           </DialogHeader>
@@ -1013,7 +1002,7 @@ const ToppingsTab = ({
       </Dialog>
 
       <Dialog open={showUpdateToppingDialog} onOpenChange={setShowUpdateToppingDialog}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Topping</DialogTitle>
           </DialogHeader>
@@ -1032,7 +1021,16 @@ const ToppingsTab = ({
           name_zh: selectedTopping.name_zh,
           price: selectedTopping.price?.toString() || "0",
           tax_percentage: selectedTopping.tax_percentage?.toString() || "10",
-          display_order: selectedTopping.display_order?.toString() || "0"
+          takeaway_tax_percentage: selectedTopping.takeaway_tax_percentage?.toString() ?? "",
+          display_order: selectedTopping.display_order?.toString() || "0",
+          allergens: selectedTopping.allergens || [],
+          dietary_tags: selectedTopping.dietary_tags || [],
+          spicy_level: String(selectedTopping.spicy_level ?? 0),
+          calories: selectedTopping.calories?.toString() ?? "",
+          protein: selectedTopping.protein?.toString() ?? "",
+          carbohydrates: selectedTopping.carbohydrates?.toString() ?? "",
+          fat: selectedTopping.fat?.toString() ?? "",
+          portion_size: selectedTopping.portion_size || ""
         }} isLoading={isUpdatingTopping} currency={restaurant.currency} />}
         </DialogContent>
       </Dialog>
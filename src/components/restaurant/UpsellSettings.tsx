@@ -0,0 +1,226 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MenuCategory, MenuItem, Restaurant, UpsellRule } from "@/types/database-types";
+import {
+  getUpsellRules,
+  createUpsellRule,
+  updateUpsellRule,
+  deleteUpsellRule,
+  getCategoriesByRestaurantId,
+  getMenuItemsByCategoryIds
+} from "@/services/kiosk-service";
+
+// Radix Select does not accept an empty value
+const NONE = "none";
+
+// "category:<id>" or "item:<id>"
+const parseTarget = (value: string) => {
+  const [type, id] = value.split(":");
+  return {
+    menuItemId: type === "item" ? id : null,
+    categoryId: type === "category" ? id : null
+  };
+};
+
+interface UpsellSettingsProps {
+  restaurant: Restaurant;
+}
+
+const UpsellSettings = ({ restaurant }: UpsellSettingsProps) => {
+  const [rules, setRules] = useState<UpsellRule[]>([]);
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [newTrigger, setNewTrigger] = useState(NONE);
+  const [newSuggestion, setNewSuggestion] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadRules = async () => {
+    setRules(await getUpsellRules(restaurant.id));
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        const [ruleData, categoryData] = await Promise.all([
+          getUpsellRules(restaurant.id),
+          getCategoriesByRestaurantId(restaurant.id)
+        ]);
+        setRules(ruleData);
+        setCategories(categoryData);
+        setMenuItems(await getMenuItemsByCategoryIds(categoryData.map(c => c.id)));
+      } catch (error) {
+        console.error("Error loading upsell rules:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [restaurant.id]);
+
+  const reportError = (description: string) => {
+    toast({
+      title: "Erreur",
+      description,
+      variant: "destructive"
+    });
+  };
+
+  const targetName = (menuItemId: string | null, categoryId: string | null) => {
+    if (menuItemId) return menuItems.find(i => i.id === menuItemId)?.name || "Article supprimé";
+    if (categoryId) return categories.find(c => c.id === categoryId)?.name || "Catégorie supprimée";
+    return "";
+  };
+
+  const describeRule = (rule: UpsellRule) => {
+    const trigger = rule.trigger_menu_item_id || rule.trigger_category_id
+      ? `Avec ${targetName(rule.trigger_menu_item_id, rule.trigger_category_id)}`
+      : "Tout panier";
+    const suggestion = rule.suggested_menu_item_id
+      ? targetName(rule.suggested_menu_item_id, null)
+      : `${targetName(null, rule.suggested_category_id)} (si aucun dans le panier)`;
+    return `${trigger} : proposer ${suggestion}`;
+  };
+
+  const handleAddRule = async () => {
+    if (!newSuggestion) return;
+
+    const trigger = parseTarget(newTrigger);
+    const suggestion = parseTarget(newSuggestion);
+    setSavingId("new");
+    try {
+      await createUpsellRule({
+        restaurant_id: restaurant.id,
+        trigger_menu_item_id: trigger.menuItemId,
+        trigger_category_id: trigger.categoryId,
+        suggested_menu_item_id: suggestion.menuItemId,
+        suggested_category_id: suggestion.categoryId,
+        active: true,
+        display_order: rules.length
+      });
+      setNewTrigger(NONE);
+      setNewSuggestion("");
+      await loadRules();
+    } catch (error) {
+      reportError("Impossible d'ajouter la suggestion.");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleToggleActive = async (rule: UpsellRule, active: boolean) => {
+    setSavingId(rule.id);
+    try {
+      await updateUpsellRule(rule.id, { active });
+      setRules(prev => prev.map(r => (r.id === rule.id ? { ...r, active } : r)));
+    } catch (error) {
+      reportError("Impossible de modifier la suggestion.");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    try {
+      await deleteUpsellRule(id);
+      await loadRules();
+    } catch (error) {
+      reportError("Impossible de supprimer la suggestion.");
+    }
+  };
+
+  const targetOptions = (
+    <>
+      {categories.map(category => (
+        <SelectItem key={category.id} value={`category:${category.id}`}>Catégorie : {category.name}</SelectItem>
+      ))}
+      {menuItems.map(item => (
+        <SelectItem key={item.id} value={`item:${item.id}`}>Article : {item.name}</SelectItem>
+      ))}
+    </>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Suggestions avant la commande</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Avant le récapitulatif, les bornes proposent d'abord les suggestions ci-dessous, puis les articles
+          le plus souvent commandés avec ceux du panier au cours des 90 derniers jours. Les taux d'acceptation
+          sont visibles dans les statistiques.
+        </p>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {rules.length === 0 && (
+                <p className="text-sm text-muted-foreground">Aucune règle : seules les suggestions fondées sur l'historique sont proposées.</p>
+              )}
+              {rules.map(rule => (
+                <div key={rule.id} className="flex items-center gap-2 text-sm">
+                  <Switch
+                    checked={rule.active}
+                    disabled={savingId === rule.id}
+                    onCheckedChange={checked => handleToggleActive(rule, checked)}
+                  />
+                  <span className="flex-1">{describeRule(rule)}</span>
+                  <Button variant="ghost" size="icon" onClick={() => handleDeleteRule(rule.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-1">
+                <Label>Quand le panier contient</Label>
+                <Select value={newTrigger} onValueChange={setNewTrigger}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>N'importe quoi</SelectItem>
+                    {targetOptions}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Proposer</Label>
+                <Select value={newSuggestion} onValueChange={setNewSuggestion}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue placeholder="Choisir..." />
+                  </SelectTrigger>
+                  <SelectContent>{targetOptions}</SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handleAddRule} disabled={savingId === "new" || !newSuggestion} size="sm" variant="outline">
+                <Plus className="mr-2 h-4 w-4" />
+                Ajouter
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Une catégorie proposée n'est suggérée que si le panier n'en contient aucun article, par exemple les boissons.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UpsellSettings;
@@ -0,0 +1,108 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import { UpsellItemStats } from "@/types/database-types";
+import {
+  getUpsellStats,
+  getCategoriesByRestaurantId,
+  getMenuItemsByCategoryIds
+} from "@/services/kiosk-service";
+
+interface UpsellStatsCardProps {
+  restaurantId: string;
+  from: Date;
+  to: Date;
+  t: (key: string) => string;
+}
+
+const formatRate = (accepted: number, shown: number) =>
+  shown > 0 ? `${Math.round((accepted / shown) * 100)}%` : "-";
+
+// Acceptance of the suggestions shown before checkout, per suggested item
+const UpsellStatsCard = ({ restaurantId, from, to, t }: UpsellStatsCardProps) => {
+  const [stats, setStats] = useState<UpsellItemStats[]>([]);
+  const [itemNames, setItemNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        const [statsData, categories] = await Promise.all([
+          getUpsellStats(restaurantId, from, to),
+          getCategoriesByRestaurantId(restaurantId)
+        ]);
+        const menuItems = await getMenuItemsByCategoryIds(categories.map(c => c.id));
+        setStats(statsData);
+        setItemNames(Object.fromEntries(menuItems.map(item => [item.id, item.name])));
+      } catch (error) {
+        console.error("Error fetching upsell statistics:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [restaurantId, from, to]);
+
+  const totals = stats.reduce(
+    (sum, row) => ({ shown: sum.shown + row.shown, accepted: sum.accepted + row.accepted }),
+    { shown: 0, accepted: 0 }
+  );
+  const rows = [...stats].sort((a, b) => b.accepted - a.accepted || b.shown - a.shown);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>{t("statistics.upsellTitle")}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">{t("statistics.upsellNoData")}</p>
+        ) : (
+          <>
+            <div className="mb-4 text-sm">
+              {t("statistics.upsellAcceptanceRate")}:{" "}
+              <span className="font-bold">{formatRate(totals.accepted, totals.shown)}</span>{" "}
+              ({totals.accepted} / {totals.shown})
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("statistics.upsellItem")}</TableHead>
+                  <TableHead>{t("statistics.upsellSource")}</TableHead>
+                  <TableHead className="text-right">{t("statistics.upsellShown")}</TableHead>
+                  <TableHead className="text-right">{t("statistics.upsellAccepted")}</TableHead>
+                  <TableHead className="text-right">{t("statistics.upsellAcceptanceRate")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={`${row.menu_item_id}-${row.source}`}>
+                    <TableCell>{itemNames[row.menu_item_id] || "-"}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {row.source === 'rule' ? t("statistics.upsellRule") : t("statistics.upsellCoPurchase")}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{row.shown}</TableCell>
+                    <TableCell className="text-right">{row.accepted}</TableCell>
+                    <TableCell className="text-right">{formatRate(row.accepted, row.shown)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UpsellStatsCard;
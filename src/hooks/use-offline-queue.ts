@@ -0,0 +1,16 @@
+import { useState, useEffect } from 'react';
+import { offlineRequestQueue, QueuedRequest } from '@/utils/service-worker';
+
+// Live view of the requests stored in the offline queue on this device
+export function useOfflineQueue() {
+  const [requests, setRequests] = useState<QueuedRequest[]>([]);
+
+  useEffect(() => offlineRequestQueue.subscribe(setRequests), []);
+
+  return {
+    requests,
+    pendingCount: requests.filter(request => request.status === 'pending').length,
+    failedCount: requests.filter(request => request.status === 'failed').length,
+    retryFailed: () => offlineRequestQueue.retryFailed()
+  };
+}
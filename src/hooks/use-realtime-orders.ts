@@ -0,0 +1,98 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { getKitchenOrders, getKitchenOrderById, KitchenOrder } from '@/services/kiosk-service';
+import { Order, OrderStatus } from '@/types/database-types';
+
+interface RealtimeOrdersOptions {
+  onNewOrder?: (order: KitchenOrder) => void;
+}
+
+// Orders of a restaurant in the given statuses, kept up to date through Supabase realtime
+export function useRealtimeOrders(
+  restaurantId: string | undefined,
+  statuses: OrderStatus[],
+  options: RealtimeOrdersOptions = {}
+) {
+  const [orders, setOrders] = useState<KitchenOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const onNewOrderRef = useRef(options.onNewOrder);
+  const statusKey = statuses.join(',');
+
+  onNewOrderRef.current = options.onNewOrder;
+
+  useEffect(() => {
+    if (!restaurantId) return;
+
+    const watched = statusKey.split(',') as OrderStatus[];
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const data = await getKitchenOrders(restaurantId, watched);
+        if (!cancelled) {
+          setOrders(data);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err as Error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    const upsert = (order: KitchenOrder) => {
+      setOrders(prev => {
+        const others = prev.filter(o => o.id !== order.id);
+        return [...others, order].sort((a, b) => a.created_at.localeCompare(b.created_at));
+      });
+    };
+
+    load();
+
+    const channel = supabase
+      .channel(`orders-${restaurantId}-${statusKey}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'orders',
+        filter: `restaurant_id=eq.${restaurantId}`
+      }, async payload => {
+        if (payload.eventType === 'DELETE') {
+          const removed = payload.old as Partial<Order>;
+          setOrders(prev => prev.filter(o => o.id !== removed.id));
+          return;
+        }
+
+        const row = payload.new as Order;
+        if (!watched.includes(row.status as OrderStatus)) {
+          setOrders(prev => prev.filter(o => o.id !== row.id));
+          return;
+        }
+
+        // The payload has no items: place_order commits them together with the order
+        const order = await getKitchenOrderById(row.id);
+        if (!order || cancelled) return;
+
+        upsert(order);
+        // A card order reaches the kitchen when its payment releases it
+        const released = payload.eventType === 'UPDATE' && (payload.old as Partial<Order>).status === 'awaiting_payment';
+        if (payload.eventType === 'INSERT' || released) {
+          onNewOrderRef.current?.(order);
+        }
+      })
+      .subscribe(status => {
+        console.log('[RealtimeOrders] Subscription status:', status);
+        // Catch up on anything missed while the channel was down
+        if (status === 'SUBSCRIBED') load();
+      });
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [restaurantId, statusKey]);
+
+  return { orders, setOrders, loading, error };
+}
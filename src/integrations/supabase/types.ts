@@ -56,6 +56,281 @@ export type Database = {
         }
         Relationships: []
       }
+      combo_slot_items: {
+        Row: {
+          menu_item_id: string
+          slot_id: string
+          upcharge: number
+        }
+        Insert: {
+          menu_item_id: string
+          slot_id: string
+          upcharge?: number
+        }
+        Update: {
+          menu_item_id?: string
+          slot_id?: string
+          upcharge?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "combo_slot_items_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "combo_slot_items_slot_id_fkey"
+            columns: ["slot_id"]
+            isOneToOne: false
+            referencedRelation: "combo_slots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      combo_slots: {
+        Row: {
+          category_id: string | null
+          combo_id: string
+          created_at: string
+          display_order: number
+          id: string
+          name: string
+        }
+        Insert: {
+          category_id?: string | null
+          combo_id: string
+          created_at?: string
+          display_order?: number
+          id?: string
+          name: string
+        }
+        Update: {
+          category_id?: string | null
+          combo_id?: string
+          created_at?: string
+          display_order?: number
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "combo_slots_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "menu_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "combo_slots_combo_id_fkey"
+            columns: ["combo_id"]
+            isOneToOne: false
+            referencedRelation: "combos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      combos: {
+        Row: {
+          category_id: string
+          created_at: string
+          description: string | null
+          display_order: number
+          id: string
+          image: string | null
+          in_stock: boolean
+          name: string
+          price: number
+          restaurant_id: string
+          takeaway_tax_percentage: number | null
+          tax_percentage: number | null
+          updated_at: string
+        }
+        Insert: {
+          category_id: string
+          created_at?: string
+          description?: string | null
+          display_order?: number
+          id?: string
+          image?: string | null
+          in_stock?: boolean
+          name: string
+          price: number
+          restaurant_id: string
+          takeaway_tax_percentage?: number | null
+          tax_percentage?: number | null
+          updated_at?: string
+        }
+        Update: {
+          category_id?: string
+          created_at?: string
+          description?: string | null
+          display_order?: number
+          id?: string
+          image?: string | null
+          in_stock?: boolean
+          name?: string
+          price?: number
+          restaurant_id?: string
+          takeaway_tax_percentage?: number | null
+          tax_percentage?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "combos_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "menu_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "combos_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ingredient_adjustments: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          delta: number
+          id: string
+          ingredient_id: string
+          note: string | null
+          order_id: string | null
+          reason: string
+          stock_after: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          delta: number
+          id?: string
+          ingredient_id: string
+          note?: string | null
+          order_id?: string | null
+          reason: string
+          stock_after: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          delta?: number
+          id?: string
+          ingredient_id?: string
+          note?: string | null
+          order_id?: string | null
+          reason?: string
+          stock_after?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingredient_adjustments_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ingredient_adjustments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ingredients: {
+        Row: {
+          created_at: string
+          id: string
+          low_stock_threshold: number | null
+          name: string
+          restaurant_id: string
+          stock_quantity: number
+          unit: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          low_stock_threshold?: number | null
+          name: string
+          restaurant_id: string
+          stock_quantity?: number
+          unit?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          low_stock_threshold?: number | null
+          name?: string
+          restaurant_id?: string
+          stock_quantity?: number
+          unit?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingredients_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kitchen_stations: {
+        Row: {
+          created_at: string
+          display_order: number
+          id: string
+          name: string
+          printer_id: string | null
+          restaurant_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          display_order?: number
+          id?: string
+          name: string
+          printer_id?: string | null
+          restaurant_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          display_order?: number
+          id?: string
+          name?: string
+          printer_id?: string | null
+          restaurant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kitchen_stations_printer_id_fkey"
+            columns: ["printer_id"]
+            isOneToOne: false
+            referencedRelation: "restaurant_printers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kitchen_stations_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       language_settings: {
         Row: {
           created_at: string
@@ -142,6 +417,7 @@ export type Database = {
           name_tr: string | null
           name_zh: string | null
           restaurant_id: string
+          station_id: string | null
           updated_at: string
         }
         Insert: {
@@ -175,6 +451,7 @@ export type Database = {
           name_tr?: string | null
           name_zh?: string | null
           restaurant_id: string
+          station_id?: string | null
           updated_at?: string
         }
         Update: {
@@ -208,6 +485,7 @@ export type Database = {
           name_tr?: string | null
           name_zh?: string | null
           restaurant_id?: string
+          station_id?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -220,6 +498,71 @@ export type Database = {
           },
         ]
       }
+      menu_category_menus: {
+        Row: {
+          category_id: string
+          menu_id: string
+        }
+        Insert: {
+          category_id: string
+          menu_id: string
+        }
+        Update: {
+          category_id?: string
+          menu_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_category_menus_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "menu_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_category_menus_menu_id_fkey"
+            columns: ["menu_id"]
+            isOneToOne: false
+            referencedRelation: "menus"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_holiday_overrides: {
+        Row: {
+          created_at: string
+          id: string
+          label: string | null
+          override_date: string
+          restaurant_id: string
+          schedule_weekday: number | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          label?: string | null
+          override_date: string
+          restaurant_id: string
+          schedule_weekday?: number | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          label?: string | null
+          override_date?: string
+          restaurant_id?: string
+          schedule_weekday?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_holiday_overrides_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       menu_item_options: {
         Row: {
           created_at: string
@@ -302,8 +645,11 @@ export type Database = {
       }
       menu_items: {
         Row: {
+          allergens: string[]
           available_from: string | null
           available_until: string | null
+          calories: number | null
+          carbohydrates: number | null
           category_id: string
           created_at: string
           description: string | null
@@ -318,11 +664,15 @@ export type Database = {
           description_ru: string | null
           description_tr: string | null
           description_zh: string | null
+          dietary_tags: string[]
           display_order: number | null
+          fat: number | null
           id: string
           image: string | null
           in_stock: boolean
+          ingredients_available: boolean
           is_featured: boolean
+          low_stock_threshold: number
           name: string
           name_ar: string | null
           name_de: string | null
@@ -335,14 +685,23 @@ export type Database = {
           name_ru: string | null
           name_tr: string | null
           name_zh: string | null
+          par_level: number | null
+          portion_size: string | null
           price: number
           promotion_price: number | null
+          protein: number | null
+          spicy_level: number
+          stock_quantity: number | null
+          takeaway_tax_percentage: number | null
           tax_percentage: number | null
           updated_at: string
         }
         Insert: {
+          allergens?: string[]
           available_from?: string | null
           available_until?: string | null
+          calories?: number | null
+          carbohydrates?: number | null
           category_id: string
           created_at?: string
           description?: string | null
@@ -357,11 +716,15 @@ export type Database = {
           description_ru?: string | null
           description_tr?: string | null
           description_zh?: string | null
+          dietary_tags?: string[]
           display_order?: number | null
+          fat?: number | null
           id?: string
           image?: string | null
           in_stock?: boolean
+          ingredients_available?: boolean
           is_featured?: boolean
+          low_stock_threshold?: number
           name: string
           name_ar?: string | null
           name_de?: string | null
@@ -374,14 +737,23 @@ export type Database = {
           name_ru?: string | null
           name_tr?: string | null
           name_zh?: string | null
+          par_level?: number | null
+          portion_size?: string | null
           price: number
           promotion_price?: number | null
+          protein?: number | null
+          spicy_level?: number
+          stock_quantity?: number | null
+          takeaway_tax_percentage?: number | null
           tax_percentage?: number | null
           updated_at?: string
         }
         Update: {
+          allergens?: string[]
           available_from?: string | null
           available_until?: string | null
+          calories?: number | null
+          carbohydrates?: number | null
           category_id?: string
           created_at?: string
           description?: string | null
@@ -396,11 +768,15 @@ export type Database = {
           description_ru?: string | null
           description_tr?: string | null
           description_zh?: string | null
+          dietary_tags?: string[]
           display_order?: number | null
+          fat?: number | null
           id?: string
           image?: string | null
           in_stock?: boolean
+          ingredients_available?: boolean
           is_featured?: boolean
+          low_stock_threshold?: number
           name?: string
           name_ar?: string | null
           name_de?: string | null
@@ -413,8 +789,14 @@ export type Database = {
           name_ru?: string | null
           name_tr?: string | null
           name_zh?: string | null
+          par_level?: number | null
+          portion_size?: string | null
           price?: number
           promotion_price?: number | null
+          protein?: number | null
+          spicy_level?: number
+          stock_quantity?: number | null
+          takeaway_tax_percentage?: number | null
           tax_percentage?: number | null
           updated_at?: string
         }
@@ -428,34 +810,151 @@ export type Database = {
           },
         ]
       }
-      option_choices: {
+      menu_schedules: {
         Row: {
           created_at: string
+          end_time: string
           id: string
-          name: string
-          option_id: string
-          price: number | null
-          updated_at: string
+          menu_id: string
+          start_time: string
+          weekday: number
         }
         Insert: {
           created_at?: string
+          end_time: string
           id?: string
-          name: string
-          option_id: string
-          price?: number | null
-          updated_at?: string
+          menu_id: string
+          start_time: string
+          weekday: number
         }
         Update: {
           created_at?: string
+          end_time?: string
           id?: string
-          name?: string
-          option_id?: string
-          price?: number | null
-          updated_at?: string
+          menu_id?: string
+          start_time?: string
+          weekday?: number
         }
         Relationships: [
           {
-            foreignKeyName: "option_choices_option_id_fkey"
+            foreignKeyName: "menu_schedules_menu_id_fkey"
+            columns: ["menu_id"]
+            isOneToOne: false
+            referencedRelation: "menus"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_versions: {
+        Row: {
+          content: Json
+          created_at: string
+          created_by: string | null
+          id: string
+          note: string | null
+          publish_at: string | null
+          published_at: string | null
+          restaurant_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          content: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          publish_at?: string | null
+          published_at?: string | null
+          restaurant_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          content?: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          publish_at?: string | null
+          published_at?: string | null
+          restaurant_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_versions_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menus: {
+        Row: {
+          created_at: string
+          display_order: number
+          id: string
+          name: string
+          restaurant_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          display_order?: number
+          id?: string
+          name: string
+          restaurant_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          display_order?: number
+          id?: string
+          name?: string
+          restaurant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menus_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      option_choices: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          option_id: string
+          price: number | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          option_id: string
+          price?: number | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          option_id?: string
+          price?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "option_choices_option_id_fkey"
             columns: ["option_id"]
             isOneToOne: false
             referencedRelation: "menu_item_options"
@@ -553,36 +1052,49 @@ export type Database = {
       }
       order_items: {
         Row: {
+          combo_id: string | null
           created_at: string
           id: string
-          menu_item_id: string
+          menu_item_id: string | null
           order_id: string
+          parent_order_item_id: string | null
           price: number
           quantity: number
           special_instructions: string | null
           updated_at: string
         }
         Insert: {
+          combo_id?: string | null
           created_at?: string
           id?: string
-          menu_item_id: string
+          menu_item_id?: string | null
           order_id: string
+          parent_order_item_id?: string | null
           price: number
           quantity: number
           special_instructions?: string | null
           updated_at?: string
         }
         Update: {
+          combo_id?: string | null
           created_at?: string
           id?: string
-          menu_item_id?: string
+          menu_item_id?: string | null
           order_id?: string
+          parent_order_item_id?: string | null
           price?: number
           quantity?: number
           special_instructions?: string | null
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "order_items_combo_id_fkey"
+            columns: ["combo_id"]
+            isOneToOne: false
+            referencedRelation: "combos"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "order_items_menu_item_id_fkey"
             columns: ["menu_item_id"]
@@ -597,39 +1109,112 @@ export type Database = {
             referencedRelation: "orders"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "order_items_parent_order_item_id_fkey"
+            columns: ["parent_order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_board: {
+        Row: {
+          order_id: string
+          order_number: string | null
+          restaurant_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          order_id: string
+          order_number?: string | null
+          restaurant_id: string
+          status: string
+          updated_at?: string
+        }
+        Update: {
+          order_id?: string
+          order_number?: string | null
+          restaurant_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_board_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_status_board_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
         ]
       }
       orders: {
         Row: {
+          applied_promotions: Json | null
           created_at: string
           customer_name: string | null
+          discount_amount: number
           id: string
+          idempotency_key: string | null
+          order_number: string | null
           order_type: string | null
+          provisional_number: string | null
           restaurant_id: string
           status: string
+          subtotal: number | null
+          table_id: string | null
           table_number: string | null
+          tax_amount: number | null
+          tax_breakdown: Json
           total: number
           updated_at: string
         }
         Insert: {
+          applied_promotions?: Json | null
           created_at?: string
           customer_name?: string | null
+          discount_amount?: number
           id?: string
+          idempotency_key?: string | null
+          order_number?: string | null
           order_type?: string | null
+          provisional_number?: string | null
           restaurant_id: string
           status: string
+          subtotal?: number | null
+          table_id?: string | null
           table_number?: string | null
+          tax_amount?: number | null
+          tax_breakdown?: Json
           total: number
           updated_at?: string
         }
         Update: {
+          applied_promotions?: Json | null
           created_at?: string
           customer_name?: string | null
+          discount_amount?: number
           id?: string
+          idempotency_key?: string | null
+          order_number?: string | null
           order_type?: string | null
+          provisional_number?: string | null
           restaurant_id?: string
           status?: string
+          subtotal?: number | null
+          table_id?: string | null
           table_number?: string | null
+          tax_amount?: number | null
+          tax_breakdown?: Json
           total?: number
           updated_at?: string
         }
@@ -641,6 +1226,13 @@ export type Database = {
             referencedRelation: "restaurants"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "orders_table_id_fkey"
+            columns: ["table_id"]
+            isOneToOne: false
+            referencedRelation: "restaurant_tables"
+            referencedColumns: ["id"]
+          },
         ]
       }
       payments: {
@@ -651,7 +1243,9 @@ export type Database = {
           order_id: string | null
           payment_method: string | null
           pos_response: string | null
+          provider: string | null
           status: string
+          transaction_reference: string | null
           updated_at: string
         }
         Insert: {
@@ -661,84 +1255,442 @@ export type Database = {
           order_id?: string | null
           payment_method?: string | null
           pos_response?: string | null
+          provider?: string | null
+          status?: string
+          transaction_reference?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          order_id?: string | null
+          payment_method?: string | null
+          pos_response?: string | null
+          provider?: string | null
           status?: string
+          transaction_reference?: string | null
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      print_jobs: {
+        Row: {
+          attempts: number
+          content_base64: string
+          created_at: string
+          id: string
+          job_type: string
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string
+          order_id: string | null
+          printed_at: string | null
+          printer_id: string
+          printer_name: string | null
+          printnode_job_id: number | null
+          reprint_of: string | null
+          restaurant_id: string
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          content_base64: string
+          created_at?: string
+          id?: string
+          job_type?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          order_id?: string | null
+          printed_at?: string | null
+          printer_id: string
+          printer_name?: string | null
+          printnode_job_id?: number | null
+          reprint_of?: string | null
+          restaurant_id: string
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          content_base64?: string
+          created_at?: string
+          id?: string
+          job_type?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          order_id?: string | null
+          printed_at?: string | null
+          printer_id?: string
+          printer_name?: string | null
+          printnode_job_id?: number | null
+          reprint_of?: string | null
+          restaurant_id?: string
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "print_jobs_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "print_jobs_reprint_of_fkey"
+            columns: ["reprint_of"]
+            isOneToOne: false
+            referencedRelation: "print_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "print_jobs_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      printer_settings: {
+        Row: {
+          created_at: string | null
+          id: string
+          printnode_api_key: string
+          restaurant_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          printnode_api_key: string
+          restaurant_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          printnode_api_key?: string
+          restaurant_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "printer_settings_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: true
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          is_admin: boolean
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id: string
+          is_admin?: boolean
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          is_admin?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      promotions: {
+        Row: {
+          active: boolean
+          buy_quantity: number
+          category_id: string | null
+          created_at: string
+          description: string | null
+          display_order: number
+          end_time: string | null
+          ends_on: string | null
+          get_quantity: number
+          id: string
+          menu_item_id: string | null
+          min_subtotal: number | null
+          name: string
+          order_type: string | null
+          promotion_type: string
+          restaurant_id: string
+          start_time: string | null
+          starts_on: string | null
+          updated_at: string
+          value: number
+          weekdays: number[] | null
+        }
+        Insert: {
+          active?: boolean
+          buy_quantity?: number
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          display_order?: number
+          end_time?: string | null
+          ends_on?: string | null
+          get_quantity?: number
+          id?: string
+          menu_item_id?: string | null
+          min_subtotal?: number | null
+          name: string
+          order_type?: string | null
+          promotion_type: string
+          restaurant_id: string
+          start_time?: string | null
+          starts_on?: string | null
+          updated_at?: string
+          value: number
+          weekdays?: number[] | null
+        }
+        Update: {
+          active?: boolean
+          buy_quantity?: number
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          display_order?: number
+          end_time?: string | null
+          ends_on?: string | null
+          get_quantity?: number
+          id?: string
+          menu_item_id?: string | null
+          min_subtotal?: number | null
+          name?: string
+          order_type?: string | null
+          promotion_type?: string
+          restaurant_id?: string
+          start_time?: string | null
+          starts_on?: string | null
+          updated_at?: string
+          value?: number
+          weekdays?: number[] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "menu_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotions_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotions_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      receipt_templates: {
+        Row: {
+          created_at: string
+          footer_text: string | null
+          header_text: string | null
+          id: string
+          logo_url: string | null
+          paper_width: number
+          qr_code_content: string | null
+          restaurant_id: string
+          show_logo: boolean
+          show_qr_code: boolean
+          show_tax_breakdown: boolean
+          updated_at: string
+          vat_number: string | null
+        }
+        Insert: {
+          created_at?: string
+          footer_text?: string | null
+          header_text?: string | null
+          id?: string
+          logo_url?: string | null
+          paper_width?: number
+          qr_code_content?: string | null
+          restaurant_id: string
+          show_logo?: boolean
+          show_qr_code?: boolean
+          show_tax_breakdown?: boolean
+          updated_at?: string
+          vat_number?: string | null
+        }
+        Update: {
+          created_at?: string
+          footer_text?: string | null
+          header_text?: string | null
+          id?: string
+          logo_url?: string | null
+          paper_width?: number
+          qr_code_content?: string | null
+          restaurant_id?: string
+          show_logo?: boolean
+          show_qr_code?: boolean
+          show_tax_breakdown?: boolean
+          updated_at?: string
+          vat_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipt_templates_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: true
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recipe_ingredients: {
+        Row: {
+          created_at: string
+          id: string
+          ingredient_id: string
+          menu_item_id: string | null
+          quantity: number
+          topping_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          ingredient_id: string
+          menu_item_id?: string | null
+          quantity: number
+          topping_id?: string | null
+        }
         Update: {
-          amount?: number
           created_at?: string
           id?: string
-          order_id?: string | null
-          payment_method?: string | null
-          pos_response?: string | null
-          status?: string
-          updated_at?: string
+          ingredient_id?: string
+          menu_item_id?: string | null
+          quantity?: number
+          topping_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "payments_order_id_fkey"
-            columns: ["order_id"]
+            foreignKeyName: "recipe_ingredients_ingredient_id_fkey"
+            columns: ["ingredient_id"]
             isOneToOne: false
-            referencedRelation: "orders"
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recipe_ingredients_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recipe_ingredients_topping_id_fkey"
+            columns: ["topping_id"]
+            isOneToOne: false
+            referencedRelation: "toppings"
             referencedColumns: ["id"]
           },
         ]
       }
-      printer_settings: {
+      restaurant_closures: {
         Row: {
-          created_at: string | null
+          created_at: string
+          ends_on: string
           id: string
-          printnode_api_key: string
-          restaurant_id: string | null
-          updated_at: string | null
+          label: string | null
+          restaurant_id: string
+          starts_on: string
         }
         Insert: {
-          created_at?: string | null
+          created_at?: string
+          ends_on: string
           id?: string
-          printnode_api_key: string
-          restaurant_id?: string | null
-          updated_at?: string | null
+          label?: string | null
+          restaurant_id: string
+          starts_on: string
         }
         Update: {
-          created_at?: string | null
+          created_at?: string
+          ends_on?: string
           id?: string
-          printnode_api_key?: string
-          restaurant_id?: string | null
-          updated_at?: string | null
+          label?: string | null
+          restaurant_id?: string
+          starts_on?: string
         }
         Relationships: [
           {
-            foreignKeyName: "printer_settings_restaurant_id_fkey"
+            foreignKeyName: "restaurant_closures_restaurant_id_fkey"
             columns: ["restaurant_id"]
-            isOneToOne: true
+            isOneToOne: false
             referencedRelation: "restaurants"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      restaurant_groups: {
         Row: {
           created_at: string
-          email: string
           id: string
-          is_admin: boolean
+          master_restaurant_id: string | null
+          name: string
+          owner_id: string
           updated_at: string
         }
         Insert: {
           created_at?: string
-          email: string
-          id: string
-          is_admin?: boolean
+          id?: string
+          master_restaurant_id?: string | null
+          name: string
+          owner_id?: string
           updated_at?: string
         }
         Update: {
           created_at?: string
-          email?: string
           id?: string
-          is_admin?: boolean
+          master_restaurant_id?: string | null
+          name?: string
+          owner_id?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "restaurant_groups_master_restaurant_id_fkey"
+            columns: ["master_restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       restaurant_languages: {
         Row: {
@@ -782,6 +1734,41 @@ export type Database = {
           },
         ]
       }
+      restaurant_opening_hours: {
+        Row: {
+          close_time: string
+          created_at: string
+          id: string
+          open_time: string
+          restaurant_id: string
+          weekday: number
+        }
+        Insert: {
+          close_time: string
+          created_at?: string
+          id?: string
+          open_time: string
+          restaurant_id: string
+          weekday: number
+        }
+        Update: {
+          close_time?: string
+          created_at?: string
+          id?: string
+          open_time?: string
+          restaurant_id?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "restaurant_opening_hours_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       restaurant_owners: {
         Row: {
           created_at: string
@@ -821,6 +1808,38 @@ export type Database = {
           },
         ]
       }
+      restaurant_order_counters: {
+        Row: {
+          last_value: number
+          period_start: string
+          prefix: string
+          restaurant_id: string
+          updated_at: string
+        }
+        Insert: {
+          last_value?: number
+          period_start: string
+          prefix?: string
+          restaurant_id: string
+          updated_at?: string
+        }
+        Update: {
+          last_value?: number
+          period_start?: string
+          prefix?: string
+          restaurant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "restaurant_order_counters_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       restaurant_print_config: {
         Row: {
           api_key: string | null
@@ -912,27 +1931,66 @@ export type Database = {
           },
         ]
       }
+      restaurant_table_tokens: {
+        Row: {
+          created_at: string
+          restaurant_id: string
+          table_id: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          restaurant_id: string
+          table_id: string
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          restaurant_id?: string
+          table_id?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "restaurant_table_tokens_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "restaurant_table_tokens_table_id_fkey"
+            columns: ["table_id"]
+            isOneToOne: true
+            referencedRelation: "restaurant_tables"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       restaurant_tables: {
         Row: {
           created_at: string | null
+          display_order: number
           id: string
-          is_active: boolean | null
+          is_active: boolean
           restaurant_id: string
           table_number: string
           updated_at: string | null
         }
         Insert: {
           created_at?: string | null
+          display_order?: number
           id?: string
-          is_active?: boolean | null
+          is_active?: boolean
           restaurant_id: string
           table_number: string
           updated_at?: string | null
         }
         Update: {
           created_at?: string | null
+          display_order?: number
           id?: string
-          is_active?: boolean | null
+          is_active?: boolean
           restaurant_id?: string
           table_number?: string
           updated_at?: string | null
@@ -953,12 +2011,25 @@ export type Database = {
           cash_payment_enabled: boolean | null
           created_at: string
           currency: string
+          group_id: string | null
           id: string
           image_url: string | null
+          last_order_minutes: number
           location: string | null
           logo_url: string | null
           name: string
+          order_number_padding: number
+          order_number_prefix_dine_in: string | null
+          order_number_prefix_takeaway: string | null
+          order_number_reset: string
+          order_number_reset_times: string[]
+          payment_terminal: string | null
+          prices_include_tax: boolean
           slug: string
+          status_board_timeout_seconds: number
+          stock_reset_at: string | null
+          stock_reset_time: string | null
+          timezone: string
           ui_language: string
           updated_at: string
         }
@@ -967,12 +2038,25 @@ export type Database = {
           cash_payment_enabled?: boolean | null
           created_at?: string
           currency?: string
+          group_id?: string | null
           id?: string
           image_url?: string | null
+          last_order_minutes?: number
           location?: string | null
           logo_url?: string | null
           name: string
+          order_number_padding?: number
+          order_number_prefix_dine_in?: string | null
+          order_number_prefix_takeaway?: string | null
+          order_number_reset?: string
+          order_number_reset_times?: string[]
+          payment_terminal?: string | null
+          prices_include_tax?: boolean
           slug: string
+          status_board_timeout_seconds?: number
+          stock_reset_at?: string | null
+          stock_reset_time?: string | null
+          timezone?: string
           ui_language?: string
           updated_at?: string
         }
@@ -981,12 +2065,25 @@ export type Database = {
           cash_payment_enabled?: boolean | null
           created_at?: string
           currency?: string
+          group_id?: string | null
           id?: string
           image_url?: string | null
+          last_order_minutes?: number
           location?: string | null
           logo_url?: string | null
           name?: string
+          order_number_padding?: number
+          order_number_prefix_dine_in?: string | null
+          order_number_prefix_takeaway?: string | null
+          order_number_reset?: string
+          order_number_reset_times?: string[]
+          payment_terminal?: string | null
+          prices_include_tax?: boolean
           slug?: string
+          status_board_timeout_seconds?: number
+          stock_reset_at?: string | null
+          stock_reset_time?: string | null
+          timezone?: string
           ui_language?: string
           updated_at?: string
         }
@@ -1167,11 +2264,18 @@ export type Database = {
       }
       toppings: {
         Row: {
+          allergens: string[]
+          calories: number | null
+          carbohydrates: number | null
           category_id: string
           created_at: string
+          dietary_tags: string[]
           display_order: number | null
+          fat: number | null
           id: string
           in_stock: boolean
+          ingredients_available: boolean
+          low_stock_threshold: number
           name: string
           name_ar: string | null
           name_de: string | null
@@ -1184,16 +2288,29 @@ export type Database = {
           name_ru: string | null
           name_tr: string | null
           name_zh: string | null
+          par_level: number | null
+          portion_size: string | null
           price: number
+          protein: number | null
+          spicy_level: number
+          stock_quantity: number | null
+          takeaway_tax_percentage: number | null
           tax_percentage: number | null
           updated_at: string
         }
         Insert: {
+          allergens?: string[]
+          calories?: number | null
+          carbohydrates?: number | null
           category_id: string
           created_at?: string
+          dietary_tags?: string[]
           display_order?: number | null
+          fat?: number | null
           id?: string
           in_stock?: boolean
+          ingredients_available?: boolean
+          low_stock_threshold?: number
           name: string
           name_ar?: string | null
           name_de?: string | null
@@ -1206,16 +2323,29 @@ export type Database = {
           name_ru?: string | null
           name_tr?: string | null
           name_zh?: string | null
+          par_level?: number | null
+          portion_size?: string | null
           price?: number
+          protein?: number | null
+          spicy_level?: number
+          stock_quantity?: number | null
+          takeaway_tax_percentage?: number | null
           tax_percentage?: number | null
           updated_at?: string
         }
         Update: {
+          allergens?: string[]
+          calories?: number | null
+          carbohydrates?: number | null
           category_id?: string
           created_at?: string
+          dietary_tags?: string[]
           display_order?: number | null
+          fat?: number | null
           id?: string
           in_stock?: boolean
+          ingredients_available?: boolean
+          low_stock_threshold?: number
           name?: string
           name_ar?: string | null
           name_de?: string | null
@@ -1228,7 +2358,13 @@ export type Database = {
           name_ru?: string | null
           name_tr?: string | null
           name_zh?: string | null
+          par_level?: number | null
+          portion_size?: string | null
           price?: number
+          protein?: number | null
+          spicy_level?: number
+          stock_quantity?: number | null
+          takeaway_tax_percentage?: number | null
           tax_percentage?: number | null
           updated_at?: string
         }
@@ -1242,15 +2378,175 @@ export type Database = {
           },
         ]
       }
+      upsell_events: {
+        Row: {
+          created_at: string
+          event: string
+          id: string
+          menu_item_id: string
+          restaurant_id: string
+          rule_id: string | null
+          source: string
+        }
+        Insert: {
+          created_at?: string
+          event: string
+          id?: string
+          menu_item_id: string
+          restaurant_id: string
+          rule_id?: string | null
+          source: string
+        }
+        Update: {
+          created_at?: string
+          event?: string
+          id?: string
+          menu_item_id?: string
+          restaurant_id?: string
+          rule_id?: string | null
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "upsell_events_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "upsell_events_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "upsell_events_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "upsell_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      upsell_rules: {
+        Row: {
+          active: boolean
+          created_at: string
+          display_order: number
+          id: string
+          restaurant_id: string
+          suggested_category_id: string | null
+          suggested_menu_item_id: string | null
+          trigger_category_id: string | null
+          trigger_menu_item_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          display_order?: number
+          id?: string
+          restaurant_id: string
+          suggested_category_id?: string | null
+          suggested_menu_item_id?: string | null
+          trigger_category_id?: string | null
+          trigger_menu_item_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          display_order?: number
+          id?: string
+          restaurant_id?: string
+          suggested_category_id?: string | null
+          suggested_menu_item_id?: string | null
+          trigger_category_id?: string | null
+          trigger_menu_item_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "upsell_rules_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "upsell_rules_suggested_category_id_fkey"
+            columns: ["suggested_category_id"]
+            isOneToOne: false
+            referencedRelation: "menu_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "upsell_rules_suggested_menu_item_id_fkey"
+            columns: ["suggested_menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "upsell_rules_trigger_category_id_fkey"
+            columns: ["trigger_category_id"]
+            isOneToOne: false
+            referencedRelation: "menu_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "upsell_rules_trigger_menu_item_id_fkey"
+            columns: ["trigger_menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      adjust_ingredient_stock: {
+        Args: { p_ingredient_id: string; p_quantity: number; p_reason: string; p_note?: string }
+        Returns: Database["public"]["Tables"]["ingredients"]["Row"]
+      }
+      cancel_unpaid_order: {
+        Args: { p_idempotency_key: string; p_order_id: string }
+        Returns: undefined
+      }
       duplicate_restaurant: {
         Args: { source_restaurant_id: string }
         Returns: string
       }
+      evaluate_promotions: {
+        Args: { p_restaurant_id: string; p_lines: Json; p_order_type?: string; p_at?: string }
+        Returns: Json
+      }
+      fail_card_payment: {
+        Args: {
+          p_payment_id: string
+          p_pos_response?: string
+          p_status: string
+        }
+        Returns: Json
+      }
+      finish_card_payment: {
+        Args: {
+          p_payment_id: string
+          p_pos_response?: string
+          p_status: string
+          p_transaction_reference?: string
+        }
+        Returns: Json
+      }
+      get_co_purchase_pairs: {
+        Args: { p_restaurant_id: string; p_days?: number; p_per_item?: number }
+        Returns: { menu_item_id: string; paired_menu_item_id: string; order_count: number }[]
+      }
       get_current_user_admin_status: { Args: never; Returns: boolean }
       get_daily_order_count: { Args: never; Returns: number }
       get_monthly_order_count: { Args: never; Returns: number }
@@ -1261,6 +2557,7 @@ export type Database = {
           cash_payment_enabled: boolean | null
           created_at: string
           currency: string
+          group_id: string | null
           id: string
           image_url: string | null
           location: string | null
@@ -1279,11 +2576,23 @@ export type Database = {
       }
       get_popular_items: { Args: { limit_count: number }; Returns: Json }
       get_popular_restaurants: { Args: { limit_count: number }; Returns: Json }
+      get_print_settings: {
+        Args: { p_restaurant_id: string }
+        Returns: Json
+      }
+      get_upsell_stats: {
+        Args: { p_restaurant_id: string; p_from: string; p_to: string }
+        Returns: { menu_item_id: string; source: string; shown: number; accepted: number }[]
+      }
       get_user_restaurant_ids: { Args: never; Returns: string[] }
       is_menu_item_available_now: {
         Args: { item_id: string }
         Returns: boolean
       }
+      is_restaurant_open: {
+        Args: { p_restaurant_id: string; p_at?: string }
+        Returns: boolean
+      }
       is_restaurant_owner: {
         Args: { restaurant_uuid: string }
         Returns: boolean
@@ -1296,6 +2605,10 @@ export type Database = {
         Args: { order_item_option_id: string }
         Returns: boolean
       }
+      is_table_selection_required: {
+        Args: { p_restaurant_id: string }
+        Returns: boolean
+      }
       log_security_event: {
         Args: {
           _description?: string
@@ -1309,6 +2622,63 @@ export type Database = {
         }
         Returns: string
       }
+      next_order_number: {
+        Args: { p_prefix?: string; p_restaurant_id: string }
+        Returns: string
+      }
+      order_number_period_start: {
+        Args: {
+          p_at?: string
+          p_reset: string
+          p_reset_times: string[]
+          p_timezone: string
+        }
+        Returns: string
+      }
+      pay_order_at_counter: {
+        Args: { p_idempotency_key: string; p_order_id: string }
+        Returns: Json
+      }
+      place_order: {
+        Args: {
+          p_customer_name?: string
+          p_idempotency_key?: string
+          p_items: Json
+          p_number_prefix?: string
+          p_order_type?: string
+          p_payment_method?: string
+          p_placed_at?: string
+          p_provisional_number?: string
+          p_restaurant_id: string
+          p_table_number?: string
+          p_table_token?: string
+        }
+        Returns: Json
+      }
+      publish_due_menu_versions: {
+        Args: never
+        Returns: number
+      }
+      publish_menu_version: {
+        Args: { p_version_id: string }
+        Returns: Database["public"]["Tables"]["menu_versions"]["Row"]
+      }
+      reset_due_stock: {
+        Args: never
+        Returns: number
+      }
+      reset_stock_to_par: {
+        Args: { p_restaurant_id: string }
+        Returns: undefined
+      }
+      resolve_table_token: {
+        Args: { p_restaurant_id: string; p_token: string }
+        Returns: Json
+      }
+      start_card_payment: {
+        Args: { p_order_id: string; p_provider: string }
+        Returns: Json
+      }
       translate_topping_names: { Args: never; Returns: undefined }
     }
     Enums: {
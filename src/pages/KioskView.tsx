@@ -1,12 +1,13 @@
 import { useEffect, useState, useRef } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { ArrowLeft, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { getRestaurantBySlug, getMenuForRestaurant, getMenuItemWithOptions, createOrder, createOrderItems, createOrderItemOptions, createOrderItemToppings } from "@/services/kiosk-service";
-import { Restaurant, MenuCategory, MenuItem, CartItem, MenuItemWithOptions, OrderType, Topping } from "@/types/database-types";
+import { getRestaurantBySlug, getMenuForRestaurant, getMenuItemWithOptions, placeOrder, queueOfflineOrder, PlaceOrderParams, getRestaurantTables, isTableSelectionRequired, getOpeningSchedule, getPromotionsForRestaurant, getUpsellRules, getCoPurchasePairs, recordUpsellEvents } from "@/services/kiosk-service";
+import { Restaurant, MenuCategory, MenuItem, CartItem, CartComboComponent, ComboWithSlots, MenuItemWithOptions, Order, OrderType, PaymentMethod, Promotion, RestaurantOpeningSchedule, RestaurantTable, Topping, UpsellRule, CoPurchasePair, UpsellSuggestion } from "@/types/database-types";
 import { supabase } from "@/integrations/supabase/client";
 import WelcomePage from "@/components/kiosk/WelcomePage";
+import ClosedScreen from "@/components/kiosk/ClosedScreen";
 import OrderTypeSelection from "@/components/kiosk/OrderTypeSelection";
 import Cart from "@/components/kiosk/Cart";
 import CartButton from "@/components/kiosk/CartButton";
@@ -14,21 +15,35 @@ import KioskHeader from "@/components/kiosk/KioskHeader";
 import MenuCategoryList from "@/components/kiosk/MenuCategoryList";
 import MenuItemGrid from "@/components/kiosk/MenuItemGrid";
 import ItemCustomizationDialog from "@/components/kiosk/ItemCustomizationDialog";
+import ComboDialog from "@/components/kiosk/ComboDialog";
 import { PerformanceMonitor } from "@/components/kiosk/PerformanceMonitor";
 import NetworkErrorBoundary from "@/components/error/NetworkErrorBoundary";
 import { setCacheItem, getCacheItem, clearMenuCache, forceFlushMenuCache, isCacheNeedsRefresh } from "@/services/cache-service";
+import { isCardPaymentAvailable } from "@/services/payment-terminal";
 import { useInactivityTimer } from "@/hooks/useInactivityTimer";
 import InactivityDialog from "@/components/kiosk/InactivityDialog";
 import OrderConfirmationDialog from "@/components/kiosk/OrderConfirmationDialog";
-import { preloadAllRestaurantData, PreloaderState } from "@/utils/data-preloader";
+import PaymentDialog from "@/components/kiosk/PaymentDialog";
+import TableSelection from "@/components/kiosk/TableSelection";
+import { preloadAllRestaurantData, PreloaderState, getScheduledMenuFromCache } from "@/utils/data-preloader";
 import PreloadingScreen from "@/components/kiosk/PreloadingScreen";
 import { useConnectionStatus, useNetworkAwareFetch } from "@/hooks/use-network-aware-fetch";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
 import { getTranslation, SupportedLanguage, getTranslatedField } from "@/utils/language-utils";
 import { LanguageProvider, useLanguage } from "@/contexts/LanguageContext";
-import { testNetworkConnectivity } from "@/utils/service-worker";
+import { testNetworkConnectivity, generateIdempotencyKey, isNetworkError } from "@/utils/service-worker";
+import { OrderSubmissionError } from "@/utils/error-handler";
+import { calculateCartTotals } from "@/utils/price-utils";
+import { toComboMenuItem } from "@/utils/combo-utils";
+import { getLocalDateTime } from "@/utils/menu-schedule";
+import { isRestaurantOpen, getNextOpening } from "@/utils/opening-hours";
+import { getUpsellSuggestions } from "@/utils/upsell";
+import { DietaryFilter, EMPTY_DIETARY_FILTER, isDietaryFilterActive, matchesDietaryFilter } from "@/utils/dietary";
+import { isAvailableToOrder } from "@/utils/stock";
 
 type CategoryWithItems = MenuCategory & {
   items: MenuItem[];
+  combos?: ComboWithSlots[];
 };
 type SelectedToppingCategory = {
   categoryId: string;
@@ -43,6 +58,9 @@ const KioskViewInner = () => {
     restaurantSlug: string;
   }>();
   const navigate = useNavigate();
+  // Each kiosk can be given its own order number prefix, e.g. /r/my-restaurant?prefix=B-
+  const [searchParams] = useSearchParams();
+  const kioskNumberPrefix = searchParams.get("prefix");
   const [showWelcome, setShowWelcome] = useState(true);
   const [showOrderTypeSelection, setShowOrderTypeSelection] = useState(false);
   const [orderType, setOrderType] = useState<OrderType>(null);
@@ -52,6 +70,7 @@ const KioskViewInner = () => {
   const [cart, setCart] = useState<CartItem[]>([]);
   const [activeCategory, setActiveCategory] = useState<string | null>(null);
   const [selectedItem, setSelectedItem] = useState<MenuItemWithOptions | null>(null);
+  const [selectedCombo, setSelectedCombo] = useState<ComboWithSlots | null>(null);
   const [selectedOptions, setSelectedOptions] = useState<{
     optionId: string;
     choiceIds: string[];
@@ -69,6 +88,21 @@ const KioskViewInner = () => {
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [showConfirmationDialog, setShowConfirmationDialog] = useState(false);
   const [confirmedOrderNumber, setConfirmedOrderNumber] = useState<string>("0");
+  const [confirmedOrderId, setConfirmedOrderId] = useState<string | null>(null);
+  const [orderPendingSync, setOrderPendingSync] = useState(false);
+  const [confirmedOrderPaid, setConfirmedOrderPaid] = useState(false);
+  const [showPaymentDialog, setShowPaymentDialog] = useState(false);
+  const [tables, setTables] = useState<RestaurantTable[]>([]);
+  const [tableRequired, setTableRequired] = useState(false);
+  const [showTableSelection, setShowTableSelection] = useState(false);
+  const [openingSchedule, setOpeningSchedule] = useState<RestaurantOpeningSchedule | null>(null);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [upsellRules, setUpsellRules] = useState<UpsellRule[]>([]);
+  const [coPurchasePairs, setCoPurchasePairs] = useState<CoPurchasePair[]>([]);
+  // The suggestion being customized, recorded as accepted once it reaches the cart
+  const [pendingUpsell, setPendingUpsell] = useState<UpsellSuggestion | null>(null);
+  const [dietaryFilter, setDietaryFilter] = useState<DietaryFilter>(EMPTY_DIETARY_FILTER);
+  const [clock, setClock] = useState(() => new Date());
   const cartRef = useRef<HTMLDivElement | null>(null);
   const {
     toast
@@ -88,6 +122,7 @@ const KioskViewInner = () => {
 
   // Get connection status for offline awareness
   const connectionStatus = useConnectionStatus();
+  const { pendingCount, failedCount, retryFailed } = useOfflineQueue();
 
   const CURRENCY_SYMBOLS: Record<string, string> = {
     EUR: "€",
@@ -135,6 +170,102 @@ const KioskViewInner = () => {
     return () => clearInterval(interval);
   }, [connectionStatus, toast]);
 
+  // Table registry for dine-in; the cached copy keeps table selection working offline
+  useEffect(() => {
+    if (!restaurant?.id) return;
+
+    const loadTables = async () => {
+      try {
+        const [allTables, required] = await Promise.all([
+          getRestaurantTables(restaurant.id),
+          isTableSelectionRequired(restaurant.id)
+        ]);
+        // A signed-in owner also gets the deactivated tables back
+        const activeTables = allTables.filter(table => table.is_active);
+        setTables(activeTables);
+        setTableRequired(required);
+        setCacheItem('tables', { tables: activeTables, required }, restaurant.id);
+      } catch (error) {
+        console.error("Error loading restaurant tables:", error);
+        const cached = getCacheItem<{ tables: RestaurantTable[]; required: boolean }>('tables', restaurant.id);
+        if (cached) {
+          setTables(cached.tables);
+          setTableRequired(cached.required);
+        }
+      }
+    };
+
+    loadTables();
+  }, [restaurant?.id]);
+
+  // Opening hours; the cached copy keeps the closed screen working offline
+  useEffect(() => {
+    if (!restaurant?.id) return;
+
+    const loadOpeningSchedule = async () => {
+      try {
+        const schedule = await getOpeningSchedule(restaurant.id);
+        setOpeningSchedule(schedule);
+        setCacheItem('opening_schedule', schedule, restaurant.id);
+      } catch (error) {
+        console.error("Error loading opening hours:", error);
+        setOpeningSchedule(getCacheItem<RestaurantOpeningSchedule>('opening_schedule', restaurant.id));
+      }
+    };
+
+    loadOpeningSchedule();
+  }, [restaurant?.id]);
+
+  // Promotions shown in the cart; place_order applies them again when the order is placed
+  useEffect(() => {
+    if (!restaurant?.id) return;
+
+    const loadPromotions = async () => {
+      try {
+        const data = await getPromotionsForRestaurant(restaurant.id);
+        setPromotions(data);
+        setCacheItem('promotions', data, restaurant.id);
+      } catch (error) {
+        console.error("Error loading promotions:", error);
+        setPromotions(getCacheItem<Promotion[]>('promotions', restaurant.id) || []);
+      }
+    };
+
+    loadPromotions();
+  }, [restaurant?.id]);
+
+  // Upsell rules and co-purchase counts; suggestions are computed from the cart on the device
+  useEffect(() => {
+    if (!restaurant?.id) return;
+
+    const loadUpsell = async () => {
+      try {
+        const [rules, pairs] = await Promise.all([
+          getUpsellRules(restaurant.id),
+          getCoPurchasePairs(restaurant.id)
+        ]);
+        setUpsellRules(rules);
+        setCoPurchasePairs(pairs);
+        setCacheItem('upsell', { rules, pairs }, restaurant.id);
+      } catch (error) {
+        console.error("Error loading upsell suggestions:", error);
+        const cached = getCacheItem<{ rules: UpsellRule[]; pairs: CoPurchasePair[] }>('upsell', restaurant.id);
+        if (cached) {
+          setUpsellRules(cached.rules);
+          setCoPurchasePairs(cached.pairs);
+        }
+      }
+    };
+
+    loadUpsell();
+  }, [restaurant?.id]);
+
+  // Opens and closes the kiosk on time
+  useEffect(() => {
+    const interval = setInterval(() => setClock(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
   // Show offline status when connection changes
   useEffect(() => {
     if (connectionStatus === 'offline' && restaurant) {
@@ -165,13 +296,19 @@ const KioskViewInner = () => {
     setCart([]);
     setIsCartOpen(false);
     setSelectedItem(null);
+    setSelectedCombo(null);
     setSelectedOptions([]);
     setSelectedToppings([]);
     setQuantity(1);
     setSpecialInstructions("");
     setOrderType(null);
     setTableNumber(null);
+    setDietaryFilter(EMPTY_DIETARY_FILTER);
     setOrderPlaced(false); 
+    setOrderPendingSync(false);
+    setConfirmedOrderPaid(false);
+    setShowPaymentDialog(false);
+    setShowTableSelection(false);
     setPlacingOrder(false);
     // Keep user language preference - don't remove it anymore
     if (categories.length > 0) {
@@ -215,11 +352,10 @@ const KioskViewInner = () => {
         if (restaurant) {
         setRestaurant(restaurant);
         
-        // Get cached categories
-        const menuCacheKey = `categories_${restaurant.id}`;
-        const cachedCategories = getCacheItem<CategoryWithItems[]>(menuCacheKey, restaurant.id);
+        // Get cached categories, as the menu schedules show them right now
+        const cachedCategories = getScheduledMenuFromCache(restaurant.id);
         
-        if (cachedCategories && cachedCategories.length > 0) {
+        if (cachedCategories) {
           setCategories(cachedCategories);
           if (cachedCategories.length > 0) {
             setActiveCategory(cachedCategories[0].id);
@@ -260,10 +396,9 @@ const KioskViewInner = () => {
         setRestaurant(cachedRestaurant);
         
         // Get cached categories for this restaurant
-        const menuCacheKey = `categories_${cachedRestaurant.id}`;
-        const cachedCategories = getCacheItem<CategoryWithItems[]>(menuCacheKey, cachedRestaurant.id);
+        const cachedCategories = getScheduledMenuFromCache(cachedRestaurant.id);
         
-        if (cachedCategories && cachedCategories.length > 0) {
+        if (cachedCategories) {
           setCategories(cachedCategories);
           if (cachedCategories.length > 0) {
             setActiveCategory(cachedCategories[0].id);
@@ -309,11 +444,11 @@ const KioskViewInner = () => {
         console.log(`[KioskView] Found cached restaurant, loading immediately`);
         setRestaurant(cachedRestaurant);
         
-        // Get cached categories
+        // Get cached categories, as the menu schedules show them right now
         const menuCacheKey = `categories_${cachedRestaurant.id}`;
-        const cachedCategories = getCacheItem<CategoryWithItems[]>(menuCacheKey, cachedRestaurant.id);
+        const cachedCategories = getScheduledMenuFromCache(cachedRestaurant.id);
         
-        if (cachedCategories && cachedCategories.length > 0) {
+        if (cachedCategories) {
           setCategories(cachedCategories);
           if (cachedCategories.length > 0) {
             setActiveCategory(cachedCategories[0].id);
@@ -351,7 +486,14 @@ const KioskViewInner = () => {
   // Modified handleStartOrder to avoid unnecessary data refresh
   const handleStartOrder = () => {
     fullReset();
-    
+
+    // Menus change during the day (breakfast, lunch...): each customer gets the ones open right now
+    const scheduledCategories = restaurant ? getScheduledMenuFromCache(restaurant.id) : null;
+    if (scheduledCategories) {
+      setCategories(scheduledCategories);
+      setActiveCategory(scheduledCategories[0]?.id ?? null);
+    }
+
     // Only refresh data if not already preloaded, we have stale data that's older than 5 minutes, and we're online
     if (!dataPreloaded && restaurant && connectionStatus === 'online') {
       const menuCacheKey = `categories_${restaurant.id}`;
@@ -442,7 +584,7 @@ const KioskViewInner = () => {
         const {
           data: toppings,
           error: toppingsError
-        } = await supabase.from('toppings').select('*, name_fr, name_en, name_tr').eq('category_id', category.id).eq('in_stock', true).order('display_order', {
+        } = await supabase.from('toppings').select('*, name_fr, name_en, name_tr').eq('category_id', category.id).eq('in_stock', true).eq('ingredients_available', true).order('display_order', {
           ascending: true
         }); // Order toppings by display_order
 
@@ -489,8 +631,18 @@ const KioskViewInner = () => {
             name_en: topping.name_en,
             name_tr: topping.name_tr,
             price: topping.price,
-            tax_percentage: topping.tax_percentage || 0,
-            display_order: topping.display_order
+            tax_percentage: topping.tax_percentage ?? null,
+            takeaway_tax_percentage: topping.takeaway_tax_percentage ?? null,
+            display_order: topping.display_order,
+            allergens: topping.allergens,
+            dietary_tags: topping.dietary_tags,
+            spicy_level: topping.spicy_level,
+            calories: topping.calories,
+            protein: topping.protein,
+            carbohydrates: topping.carbohydrates,
+            fat: topping.fat,
+            stock_quantity: topping.stock_quantity,
+            low_stock_threshold: topping.low_stock_threshold
           })),
           show_if_selection_id: category.show_if_selection_id,
           show_if_selection_type: category.show_if_selection_type,
@@ -511,6 +663,13 @@ const KioskViewInner = () => {
     }
   };
   const handleSelectItem = async (item: MenuItem) => {
+    // Combos are listed as items of their category and built slot by slot
+    const combo = categories.flatMap(c => c.combos || []).find(c => c.id === item.id);
+    if (combo) {
+      setSelectedCombo(combo);
+      return;
+    }
+
     try {
       setLoading(true);
       const itemWithOptions = await getMenuItemWithOptions(item.id);
@@ -742,6 +901,27 @@ const KioskViewInner = () => {
       });
     }).filter(Boolean).join(", ");
   };
+  const upsellSuggestions = getUpsellSuggestions(
+    cart,
+    upsellRules,
+    coPurchasePairs,
+    categories.flatMap(category => category.items)
+  );
+  // Statistics only: a failure must not get in the customer's way
+  const trackUpsell = (suggestions: UpsellSuggestion[], event: 'shown' | 'accepted') => {
+    if (!restaurant?.id) return;
+    recordUpsellEvents(suggestions.map(suggestion => ({
+      restaurant_id: restaurant.id,
+      menu_item_id: suggestion.menuItem.id,
+      rule_id: suggestion.ruleId,
+      source: suggestion.source,
+      event
+    }))).catch(() => undefined);
+  };
+  const handleUpsellSelected = (suggestion: UpsellSuggestion) => {
+    setPendingUpsell(suggestion);
+    handleSelectItem(suggestion.menuItem);
+  };
   const handleAddToCart = (cartItem: {
     menuItem: MenuItemWithOptions;
     quantity: number;
@@ -749,6 +929,7 @@ const KioskViewInner = () => {
     selectedToppings: any[];
     specialInstructions: string;
     itemPrice: number;
+    comboComponents?: CartComboComponent[];
   }) => {
     const newItem: CartItem = {
       id: Date.now().toString(),
@@ -757,10 +938,16 @@ const KioskViewInner = () => {
       selectedOptions: cartItem.selectedOptions,
       selectedToppings: cartItem.selectedToppings,
       specialInstructions: cartItem.specialInstructions.trim() || undefined,
-      itemPrice: cartItem.itemPrice
+      itemPrice: cartItem.itemPrice,
+      comboComponents: cartItem.comboComponents
     };
     setCart(prev => [newItem, ...prev]);
     setSelectedItem(null);
+    setSelectedCombo(null);
+    if (pendingUpsell && pendingUpsell.menuItem.id === cartItem.menuItem.id) {
+      trackUpsell([pendingUpsell], 'accepted');
+      setPendingUpsell(null);
+    }
     toast({
       title: t("addedToCart"),
       description: `${cartItem.quantity}x ${cartItem.menuItem.name} ${t("added")}`
@@ -785,99 +972,167 @@ const KioskViewInner = () => {
       return newCart;
     });
   };
+  const getCartTotals = () => calculateCartTotals(cart, {
+    orderType,
+    pricesIncludeTax: restaurant?.prices_include_tax,
+    promotions,
+    timezone: restaurant?.timezone
+  });
   const calculateCartTotal = (): number => {
-    return cart.reduce((total, item) => {
-      return total + item.itemPrice * item.quantity;
-    }, 0);
+    return getCartTotals().total;
   };
   const calculateSubtotal = () => {
-    return calculateCartTotal();
+    return getCartTotals().subtotal;
   };
   const calculateTax = () => {
-    return calculateCartTotal() * 0.1; // 10% tax
+    return getCartTotals().tax;
   };
-  const handlePlaceOrder = async () => {
-    if (!restaurant || cart.length === 0) return;
-    
-    // Check if we're offline
-    if (connectionStatus === 'offline') {
-      toast({
-        title: "Mode hors ligne",
-        description: "Impossible de passer commande hors ligne. Reconnectez-vous pour continuer.",
-        variant: "destructive"
-      });
-      return;
-    }
+  // Keeps the order on the device and hands the customer a provisional ticket number
+  // Offline there is no terminal to talk to, so a card order is paid at the counter instead
+  const queueOrderOffline = async (orderParams: PlaceOrderParams) => {
+    const { provisionalNumber } = await queueOfflineOrder({
+      ...orderParams,
+      payment_method: orderParams.payment_method === 'card' ? 'cash' : orderParams.payment_method
+    }, (restaurant?.ui_language as SupportedLanguage) || 'fr');
+    setOrderPlaced(true);
+    setOrderPendingSync(true);
+    setConfirmedOrderNumber(provisionalNumber);
+    setConfirmedOrderId(null);
+    setConfirmedOrderPaid(false);
+    setShowPaymentDialog(false);
+    setShowConfirmationDialog(true);
+    setIsCartOpen(false);
+    toast({
+      title: t("orderQueuedOffline"),
+      description: t("orderQueuedOfflineMessage")
+    });
+  };
+  const showOrderConfirmation = (order: Order, paid: boolean) => {
+    setOrderPlaced(true);
+    setOrderPendingSync(false);
+    setConfirmedOrderNumber(order.order_number || order.id.slice(0, 8));
+    setConfirmedOrderId(order.id);
+    setConfirmedOrderPaid(paid);
+    setShowPaymentDialog(false);
+    setShowConfirmationDialog(true);
+    setIsCartOpen(false);
+  };
+  // Card orders come back 'awaiting_payment' and are confirmed by the payment dialog once paid.
+  // Resolves to null when the order was not placed or was queued offline.
+  const submitOrder = async (paymentMethod: PaymentMethod | null): Promise<Order | null> => {
+    if (!restaurant || cart.length === 0) return null;
+
+    // One key per checkout: a request that reached the server before the connection
+    // dropped is not created twice when the queued copy is replayed
+    const orderParams: PlaceOrderParams = {
+      restaurant_id: restaurant.id,
+      cart,
+      order_type: orderType,
+      table_number: tableNumber,
+      customer_name: null,
+      number_prefix: kioskNumberPrefix,
+      idempotency_key: generateIdempotencyKey(),
+      payment_method: paymentMethod
+    };
     
     try {
       setPlacingOrder(true);
-      const order = await createOrder({
-        restaurant_id: restaurant.id,
-        status: 'pending',
-        total: calculateCartTotal(),
-        customer_name: null
-      });
-      const orderItems = await createOrderItems(cart.map(item => ({
-        order_id: order.id,
-        menu_item_id: item.menuItem.id,
-        quantity: item.quantity,
-        price: item.itemPrice,
-        special_instructions: item.specialInstructions || null
-      })));
-      const orderItemOptionsToCreate = [];
-      const orderItemToppingsToCreate = [];
-      for (let i = 0; i < cart.length; i++) {
-        const cartItem = cart[i];
-        const orderItem = orderItems[i];
-        for (const selectedOption of cartItem.selectedOptions) {
-          for (const choiceId of selectedOption.choiceIds) {
-            orderItemOptionsToCreate.push({
-              order_item_id: orderItem.id,
-              option_id: selectedOption.optionId,
-              choice_id: choiceId
-            });
-          }
-        }
-        for (const selectedCategory of cartItem.selectedToppings) {
-          for (const toppingId of selectedCategory.toppingIds) {
-            orderItemToppingsToCreate.push({
-              order_item_id: orderItem.id,
-              topping_id: toppingId
-            });
-          }
-        }
-      }
-      if (orderItemOptionsToCreate.length > 0) {
-        await createOrderItemOptions(orderItemOptionsToCreate);
+
+      if (connectionStatus === 'offline') {
+        await queueOrderOffline(orderParams);
+        return null;
       }
-      if (orderItemToppingsToCreate.length > 0) {
-        await createOrderItemToppings(orderItemToppingsToCreate);
+
+      const order = await placeOrder(orderParams);
+      if (order.status !== 'awaiting_payment') {
+        // The dialog handles the redirection back to the welcome page
+        showOrderConfirmation(order, false);
       }
-      setOrderPlaced(true);
-      
-      // Get the order number - this will be a simple counter format (#390)
-      const { count } = await supabase
-        .from('orders')
-        .select('*', { count: 'exact', head: true })
-        .eq('restaurant_id', restaurant.id);
-      
-      setConfirmedOrderNumber(String(count || 1));
-      
-      // Show the confirmation dialog instead of immediately resetting
-      setShowConfirmationDialog(true);
-      setIsCartOpen(false);
-      
-      // No need to reset immediately as the dialog will handle redirection
-      
+      return order;
     } catch (error) {
       console.error("Erreur lors de la commande:", error);
+
+      if (isNetworkError(error)) {
+        try {
+          await queueOrderOffline(orderParams);
+          return null;
+        } catch (queueError) {
+          console.error("Impossible d'enregistrer la commande hors ligne:", queueError);
+        }
+      }
+
+      setPlacingOrder(false);
+
+      if (error instanceof OrderSubmissionError && error.code === 'PRICE_MISMATCH') {
+        // Nothing was written: refresh the cart with the server prices and let the customer confirm again
+        setCart(prev => prev.map(item => {
+          const mismatch = error.priceMismatches.find(m => m.cartItemId === item.id);
+          return mismatch ? { ...item, itemPrice: mismatch.actualPrice } : item;
+        }));
+        setIsCartOpen(true);
+        toast({
+          title: t("priceChanged"),
+          description: t("priceChangedMessage"),
+          variant: "destructive"
+        });
+        return null;
+      }
+
+      if (error instanceof OrderSubmissionError && (error.code === 'TABLE_REQUIRED' || error.code === 'TABLE_UNAVAILABLE')) {
+        // The table registry changed since the customer picked a table: ask again, then confirm again
+        setTableNumber(null);
+        setShowTableSelection(true);
+        toast({
+          title: t("tableUnavailable"),
+          description: t("tableUnavailableMessage"),
+          variant: "destructive"
+        });
+        return null;
+      }
+
+      if (error instanceof OrderSubmissionError && error.code === 'RESTAURANT_CLOSED') {
+        // Closed since the customer started: back to the welcome page, which now shows the closed screen
+        toast({
+          title: t("closed.title"),
+          description: t("closed.message"),
+          variant: "destructive"
+        });
+        setClock(new Date());
+        resetToWelcome();
+        return null;
+      }
+
+      if (error instanceof OrderSubmissionError && (error.code === 'ITEM_UNAVAILABLE' || error.code === 'OPTION_UNAVAILABLE' || error.code === 'TOPPING_UNAVAILABLE' || error.code === 'COMBO_UNAVAILABLE')) {
+        const unavailableItem = cart.find(item => item.id === error.cartItemId);
+        toast({
+          title: t("itemUnavailable"),
+          description: t("itemUnavailableMessage").replace("{item}", unavailableItem ? getTranslatedField(unavailableItem.menuItem, 'name', uiLanguage) : ""),
+          variant: "destructive"
+        });
+        return null;
+      }
+
       toast({
         title: "Erreur",
         description: "Un problème est survenu lors de la commande. Veuillez réessayer.",
         variant: "destructive"
       });
-      setPlacingOrder(false);
+      return null;
+    }
+  };
+  const handlePlaceOrder = () => {
+    if (!restaurant || cart.length === 0) return;
+
+    // With card payment on, the customer picks how to pay; otherwise they pay at the counter
+    if (isCardPaymentAvailable(restaurant)) {
+      setShowPaymentDialog(true);
+      return;
     }
+    submitOrder(restaurant.cash_payment_enabled ? 'cash' : null);
+  };
+  const handlePaymentDialogClose = () => {
+    setShowPaymentDialog(false);
+    setPlacingOrder(false);
   };
   const toggleCart = () => {
     setIsCartOpen(!isCartOpen);
@@ -1111,6 +1366,17 @@ const KioskViewInner = () => {
     </NetworkErrorBoundary>;
   }
 
+  const localNow = openingSchedule ? getLocalDateTime(openingSchedule.timezone, clock) : null;
+  if (showWelcome && openingSchedule && !isRestaurantOpen(openingSchedule, localNow)) {
+    return <NetworkErrorBoundary onRetry={() => preloadAllData(true)}>
+      <ClosedScreen
+        restaurant={restaurant}
+        nextOpening={getNextOpening(openingSchedule, localNow)}
+        today={localNow.date}
+      />
+    </NetworkErrorBoundary>;
+  }
+
   if (showWelcome) {
     return <NetworkErrorBoundary onRetry={() => preloadAllData(true)}>
       <WelcomePage 
@@ -1133,7 +1399,7 @@ const KioskViewInner = () => {
         <OrderTypeSelection isOpen={showOrderTypeSelection} onClose={() => {
           setShowOrderTypeSelection(false);
           setShowWelcome(true);
-        }} onSelectOrderType={handleOrderTypeSelected} />
+        }} onSelectOrderType={handleOrderTypeSelected} tables={tables} tableRequired={tableRequired} />
         
         <InactivityDialog isOpen={showDialog} onContinue={handleContinue} onCancel={handleCancel} t={t} />
       </div>
@@ -1148,27 +1414,29 @@ const KioskViewInner = () => {
     <div className="h-screen flex flex-col overflow-hidden kiosk-view">
       {/* Fixed height header - 12vh */}
       <div className="h-[12vh] min-h-[120px] flex-shrink-0">
-        <KioskHeader restaurant={restaurant} orderType={orderType} tableNumber={tableNumber} t={t} onRefresh={handleRefreshMenu} onBack={handleBackToOrderTypeSelection} />
+        <KioskHeader restaurant={restaurant} orderType={orderType} tableNumber={tableNumber} t={t} onRefresh={handleRefreshMenu} onBack={handleBackToOrderTypeSelection} pendingSyncCount={pendingCount} failedSyncCount={failedCount} onRetrySync={retryFailed} />
       </div>
 
       {/* Content area with fixed sidebar and scrollable menu grid */}
       <div className="flex flex-1 overflow-hidden">
         {/* Fixed width sidebar - 16vw */}
         <div className="w-64 min-w-[220px] max-w-[280px] bg-white border-r border-gray-200 overflow-y-auto flex-shrink-0">
-          <MenuCategoryList categories={categories} activeCategory={activeCategory} setActiveCategory={setActiveCategory} />
+          <MenuCategoryList categories={isDietaryFilterActive(dietaryFilter) ? categories.filter(c => c.items.some(item => isAvailableToOrder(item) && matchesDietaryFilter(item, dietaryFilter))) : categories} activeCategory={activeCategory} setActiveCategory={setActiveCategory} />
         </div>
 
         {/* Scrollable menu grid area */}
         <div className="flex-1 overflow-y-auto">
           <div className="p-4">
             <MenuItemGrid 
-              items={categories.flatMap(c => c.items)} 
+              items={categories.flatMap(c => [...c.items, ...(c.combos || []).filter(combo => combo.in_stock).map(toComboMenuItem)])} 
               handleSelectItem={handleSelectItem} 
               currencySymbol={getCurrencySymbol(restaurant.currency || "EUR")} 
               t={t} 
               restaurantId={restaurant?.id} 
               refreshTrigger={refreshTrigger}
               categories={categories}
+              dietaryFilter={dietaryFilter}
+              onDietaryFilterChange={setDietaryFilter}
             />
           </div>
         </div>
@@ -1179,33 +1447,72 @@ const KioskViewInner = () => {
       <div ref={cartRef} className="fixed bottom-0 left-0 right-0 z-50 bg-white border-t border-gray-200 shadow-lg" style={{
         maxHeight: "60vh"
       }}>
-        <Cart cart={cart} isOpen={isCartOpen} onToggleOpen={toggleCart} onUpdateQuantity={handleUpdateCartItemQuantity} onRemoveItem={handleRemoveCartItem} onClearCart={() => setCart([])} onPlaceOrder={handlePlaceOrder} placingOrder={placingOrder} orderPlaced={orderPlaced} calculateSubtotal={calculateSubtotal} calculateTax={calculateTax} getFormattedOptions={getFormattedOptions} getFormattedToppings={getFormattedToppings} restaurant={restaurant} orderType={orderType} tableNumber={tableNumber} t={t} />
+        <Cart cart={cart} isOpen={isCartOpen} onToggleOpen={toggleCart} onUpdateQuantity={handleUpdateCartItemQuantity} onRemoveItem={handleRemoveCartItem} onClearCart={() => setCart([])} onPlaceOrder={handlePlaceOrder} placingOrder={placingOrder} orderPlaced={orderPlaced} calculateSubtotal={calculateSubtotal} calculateTax={calculateTax} getFormattedOptions={getFormattedOptions} getFormattedToppings={getFormattedToppings} restaurant={restaurant} orderType={orderType} tableNumber={tableNumber} promotions={promotions} upsellSuggestions={upsellSuggestions} onUpsellShown={suggestions => trackUpsell(suggestions, 'shown')} onUpsellSelected={handleUpsellSelected} t={t} />
       </div>
 
       {selectedItem && <ItemCustomizationDialog 
         itemId={selectedItem.id} 
         restaurantId={restaurant.id}
         isOpen={!!selectedItem} 
-        onClose={() => setSelectedItem(null)} 
+        onClose={() => {
+          setSelectedItem(null);
+          setPendingUpsell(null);
+        }} 
         onAddToCart={handleAddToCart} 
         t={t} 
         currencySymbol={getCurrencySymbol(restaurant?.currency || "EUR")}
         itemDetails={selectedItem} 
       />}
 
+      <ComboDialog
+        combo={selectedCombo}
+        restaurantId={restaurant.id}
+        isOpen={!!selectedCombo}
+        onClose={() => setSelectedCombo(null)}
+        onAddToCart={handleAddToCart}
+        t={t}
+        currencySymbol={getCurrencySymbol(restaurant?.currency || "EUR")}
+      />
+
       <InactivityDialog isOpen={showDialog} onContinue={handleContinue} onCancel={handleCancel} t={t} />
       
       {/* Order Confirmation Dialog */}
+      <TableSelection
+        isOpen={showTableSelection}
+        onClose={() => setShowTableSelection(false)}
+        onSelect={table => {
+          setTableNumber(table);
+          setShowTableSelection(false);
+        }}
+        tables={tables}
+        required={tableRequired}
+      />
+
+      <PaymentDialog
+        isOpen={showPaymentDialog}
+        onClose={handlePaymentDialogClose}
+        restaurant={restaurant}
+        amount={calculateCartTotal()}
+        currencySymbol={getCurrencySymbol(restaurant.currency || "EUR")}
+        isOffline={connectionStatus === 'offline'}
+        onPlaceOrder={submitOrder}
+        onOrderReleased={showOrderConfirmation}
+      />
+
       <OrderConfirmationDialog 
         isOpen={showConfirmationDialog}
         onClose={handleConfirmationClose}
         cart={cart}
         orderNumber={confirmedOrderNumber}
+        orderId={confirmedOrderId}
         restaurant={restaurant}
         orderType={orderType}
         tableNumber={tableNumber}
         getFormattedOptions={getFormattedOptions}
         getFormattedToppings={getFormattedToppings}
+        pendingSync={orderPendingSync}
+        paid={confirmedOrderPaid}
+        promotions={promotions}
       />
 
     </div>
@@ -0,0 +1,199 @@
+import { useEffect, useRef, useState, useCallback } from "react";
+import { useParams } from "react-router-dom";
+import { Loader2, Undo2, Volume2, VolumeX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { getRestaurantBySlug, updateOrderStatus, KitchenOrder } from "@/services/kiosk-service";
+import { useRealtimeOrders } from "@/hooks/use-realtime-orders";
+import { OrderStatus, Restaurant } from "@/types/database-types";
+import KitchenTicket from "@/components/kitchen/KitchenTicket";
+
+const KITCHEN_STATUSES: OrderStatus[] = ["pending", "preparing", "ready"];
+
+// Where a ticket goes when the cook taps it
+const NEXT_STATUS: Partial<Record<OrderStatus, OrderStatus>> = {
+  pending: "preparing",
+  preparing: "ready",
+  ready: "completed"
+};
+
+// Two short tones generated on the fly, so the screen works without audio assets
+const playChime = (audioContext: AudioContext) => {
+  [880, 1320].forEach((frequency, index) => {
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    const start = audioContext.currentTime + index * 0.25;
+
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.3, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.4);
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.4);
+  });
+};
+
+const KitchenDisplay = () => {
+  const { restaurantSlug } = useParams<{ restaurantSlug: string }>();
+  const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
+  const [loadingRestaurant, setLoadingRestaurant] = useState(true);
+  const [now, setNow] = useState(Date.now());
+  const [soundEnabled, setSoundEnabled] = useState(false);
+  const [lastBumped, setLastBumped] = useState<{ order: KitchenOrder; previousStatus: OrderStatus } | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const { toast } = useToast();
+
+  const handleNewOrder = useCallback(() => {
+    if (soundEnabled && audioContextRef.current) {
+      playChime(audioContextRef.current);
+    }
+  }, [soundEnabled]);
+
+  const { orders, setOrders, loading } = useRealtimeOrders(restaurant?.id, KITCHEN_STATUSES, {
+    onNewOrder: handleNewOrder
+  });
+
+  useEffect(() => {
+    const loadRestaurant = async () => {
+      if (!restaurantSlug) return;
+      try {
+        setRestaurant(await getRestaurantBySlug(restaurantSlug));
+      } catch (error) {
+        console.error("Error loading restaurant for kitchen display:", error);
+      } finally {
+        setLoadingRestaurant(false);
+      }
+    };
+    loadRestaurant();
+  }, [restaurantSlug]);
+
+  // Refresh ticket ages
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Browsers only allow audio after a user gesture
+  const toggleSound = () => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new AudioContext();
+    }
+    if (!soundEnabled) {
+      audioContextRef.current.resume();
+      playChime(audioContextRef.current);
+    }
+    setSoundEnabled(!soundEnabled);
+  };
+
+  const changeStatus = async (order: KitchenOrder, status: OrderStatus) => {
+    // Optimistic: the realtime update will confirm it
+    setOrders(prev =>
+      KITCHEN_STATUSES.includes(status)
+        ? prev.map(o => (o.id === order.id ? { ...o, status } : o))
+        : prev.filter(o => o.id !== order.id)
+    );
+
+    try {
+      await updateOrderStatus(order.id, status);
+    } catch (error) {
+      setOrders(prev => [...prev.filter(o => o.id !== order.id), order].sort((a, b) => a.created_at.localeCompare(b.created_at)));
+      toast({
+        title: "Error",
+        description: "Failed to update order status",
+        variant: "destructive"
+      });
+      throw error;
+    }
+  };
+
+  const handleBump = async (order: KitchenOrder) => {
+    const next = NEXT_STATUS[order.status];
+    if (!next) return;
+
+    try {
+      await changeStatus(order, next);
+      setLastBumped({ order, previousStatus: order.status });
+    } catch {
+      // Already reported
+    }
+  };
+
+  const handleRecall = async () => {
+    if (!lastBumped) return;
+
+    try {
+      await changeStatus({ ...lastBumped.order, status: lastBumped.previousStatus }, lastBumped.previousStatus);
+      setLastBumped(null);
+    } catch {
+      // Already reported
+    }
+  };
+
+  if (loadingRestaurant) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-gray-900">
+        <Loader2 className="h-12 w-12 animate-spin text-white" />
+      </div>
+    );
+  }
+
+  if (!restaurant) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-gray-900 text-2xl text-white">
+        Restaurant not found
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-screen flex-col bg-gray-900">
+      <div className="flex items-center justify-between px-6 py-3 text-white">
+        <div>
+          <h1 className="text-3xl font-bold">{restaurant.name}</h1>
+          <p className="text-sm text-gray-300">
+            {orders.filter(o => o.status === "pending").length} new · {orders.filter(o => o.status === "preparing").length} preparing · {orders.filter(o => o.status === "ready").length} ready
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Button
+            variant="secondary"
+            className="h-14 px-6 text-lg"
+            onClick={handleRecall}
+            disabled={!lastBumped}
+          >
+            <Undo2 className="mr-2 h-6 w-6" />
+            Recall{lastBumped ? ` #${lastBumped.order.order_number || lastBumped.order.id.slice(0, 6)}` : ""}
+          </Button>
+          <Button
+            variant="secondary"
+            className="h-14 px-6 text-lg"
+            onClick={toggleSound}
+            aria-label={soundEnabled ? "Mute" : "Enable sound"}
+          >
+            {soundEnabled ? <Volume2 className="h-6 w-6" /> : <VolumeX className="h-6 w-6" />}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        {loading && orders.length === 0 ? (
+          <div className="flex h-full items-center justify-center">
+            <Loader2 className="h-10 w-10 animate-spin text-white" />
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="flex h-full items-center justify-center text-2xl text-gray-400">
+            No open orders
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-4">
+            {orders.map(order => (
+              <KitchenTicket key={order.id} order={order} now={now} onBump={handleBump} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default KitchenDisplay;
@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { getRestaurantBySlug, getOrderStatusBoard } from "@/services/kiosk-service";
+import { OrderStatus, OrderStatusBoardEntry, Restaurant } from "@/types/database-types";
+import { getTranslation, SupportedLanguage } from "@/utils/language-utils";
+
+const DEFAULT_TIMEOUT_SECONDS = 60;
+
+const OrderStatusBoard = () => {
+  const { restaurantSlug } = useParams<{ restaurantSlug: string }>();
+  const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
+  const [entries, setEntries] = useState<OrderStatusBoardEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(Date.now());
+
+  const language = (restaurant?.ui_language || "fr") as SupportedLanguage;
+  const t = (key: string) => getTranslation(key, language);
+  const timeoutMs = (restaurant?.status_board_timeout_seconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+
+  useEffect(() => {
+    const loadRestaurant = async () => {
+      if (!restaurantSlug) return;
+      try {
+        setRestaurant(await getRestaurantBySlug(restaurantSlug));
+      } catch (error) {
+        console.error("Error loading restaurant for status board:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadRestaurant();
+  }, [restaurantSlug]);
+
+  useEffect(() => {
+    if (!restaurant) return;
+
+    const load = async () => {
+      try {
+        setEntries(await getOrderStatusBoard(restaurant.id));
+      } catch (error) {
+        console.error("Error loading status board:", error);
+      }
+    };
+
+    load();
+
+    const channel = supabase
+      .channel(`order-status-board-${restaurant.id}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'order_status_board',
+        filter: `restaurant_id=eq.${restaurant.id}`
+      }, payload => {
+        if (payload.eventType === 'DELETE') {
+          const removed = payload.old as Partial<OrderStatusBoardEntry>;
+          setEntries(prev => prev.filter(e => e.order_id !== removed.order_id));
+          return;
+        }
+
+        const entry = payload.new as OrderStatusBoardEntry;
+        setEntries(prev => [...prev.filter(e => e.order_id !== entry.order_id), entry]);
+      })
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED') load();
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [restaurant]);
+
+  // Drop collected orders once their timeout has passed
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const entriesFor = (statuses: OrderStatus[]) =>
+    entries
+      .filter(e => statuses.includes(e.status))
+      .filter(e => e.status !== "completed" || now - new Date(e.updated_at).getTime() < timeoutMs)
+      .sort((a, b) => a.updated_at.localeCompare(b.updated_at));
+
+  if (loading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-gray-900">
+        <Loader2 className="h-12 w-12 animate-spin text-white" />
+      </div>
+    );
+  }
+
+  if (!restaurant) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-gray-900 text-2xl text-white">
+        404
+      </div>
+    );
+  }
+
+  const preparing = entriesFor(["pending", "preparing"]);
+  const ready = entriesFor(["ready", "completed"]);
+
+  return (
+    <div className="flex h-screen flex-col bg-gray-900 text-white">
+      <div className="flex items-center gap-4 px-8 py-4">
+        {restaurant.logo_url && (
+          <img src={restaurant.logo_url} alt={restaurant.name} className="h-16 w-16 rounded-full bg-white object-cover p-1" />
+        )}
+        <div>
+          <h1 className="font-bebas text-4xl tracking-wider">{restaurant.name}</h1>
+          <p className="text-lg text-gray-300">{t("statusBoard.title")}</p>
+        </div>
+      </div>
+
+      <div className="grid flex-1 grid-cols-2 gap-6 overflow-hidden p-8 pt-0">
+        <div className="flex flex-col rounded-xl bg-gray-800 p-6">
+          <h2 className="mb-6 font-bebas text-5xl tracking-wide text-amber-400">{t("statusBoard.preparing")}</h2>
+          <div className="flex flex-wrap content-start gap-4 overflow-hidden">
+            {preparing.map(entry => (
+              <div key={entry.order_id} className="rounded-lg bg-gray-700 px-6 py-3 text-5xl font-bold">
+                {entry.order_number || entry.order_id.slice(0, 6)}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col rounded-xl bg-green-900 p-6">
+          <h2 className="mb-2 font-bebas text-5xl tracking-wide text-green-300">{t("statusBoard.ready")}</h2>
+          <p className="mb-6 text-lg text-green-100">{t("statusBoard.readyHint")}</p>
+          <div className="flex flex-wrap content-start gap-4 overflow-hidden">
+            {ready.map(entry => (
+              <div key={entry.order_id} className="rounded-lg bg-green-600 px-6 py-3 text-6xl font-bold animate-pulse">
+                {entry.order_number || entry.order_id.slice(0, 6)}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderStatusBoard;
@@ -13,6 +13,8 @@ import {
   Search,
   Calendar,
   Trash2,
+  Printer,
+  CreditCard,
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -20,6 +22,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { updateOrderStatus } from "@/services/kiosk-service";
+import ReprintOrderDialog from "@/components/restaurant/ReprintOrderDialog";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -39,7 +42,7 @@ import {
   PaginationPrevious,
 } from "@/components/ui/pagination";
 
-type OrderStatus = "pending" | "preparing" | "completed" | "cancelled";
+type OrderStatus = "awaiting_payment" | "pending" | "preparing" | "completed" | "cancelled";
 
 type OrderItem = {
   name: string;
@@ -52,7 +55,7 @@ type OrderItem = {
 
 type Order = {
   id: string;
-  orderNumber: number;
+  orderNumber: string;
   restaurantId: string;
   restaurantName: string;
   status: OrderStatus;
@@ -63,6 +66,7 @@ type Order = {
 };
 
 const statusColors = {
+  awaiting_payment: "bg-gray-100 text-gray-800",
   pending: "bg-yellow-100 text-yellow-800",
   preparing: "bg-blue-100 text-blue-800",
   completed: "bg-green-100 text-green-800",
@@ -70,6 +74,7 @@ const statusColors = {
 };
 
 const statusIcons = {
+  awaiting_payment: <CreditCard className="h-4 w-4" />,
   pending: <Clock className="h-4 w-4" />,
   preparing: <ChefHat className="h-4 w-4" />,
   completed: <CheckCircle className="h-4 w-4" />,
@@ -88,6 +93,7 @@ const Orders = () => {
   const [totalOrders, setTotalOrders] = useState(0);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [orderToDelete, setOrderToDelete] = useState<string | null>(null);
+  const [orderToReprint, setOrderToReprint] = useState<Order | null>(null);
   const ordersPerPage = 10;
   const { toast } = useToast();
 
@@ -204,7 +210,7 @@ const Orders = () => {
             const startOrderNumber = ((currentPage - 1) * ordersPerPage);
             return {
               id: order.id,
-              orderNumber: totalOrders - (startOrderNumber + index),
+              orderNumber: order.order_number || String(totalOrders - (startOrderNumber + index)),
               restaurantId: order.restaurant_id,
               restaurantName: order.restaurants?.name || "Unknown Restaurant",
               status: order.status as OrderStatus,
@@ -241,6 +247,7 @@ const Orders = () => {
     if (searchTerm) {
       filteredOrders = filteredOrders.filter(order =>
         order.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        order.orderNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
         order.customerName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
         order.restaurantName.toLowerCase().includes(searchTerm.toLowerCase())
       );
@@ -403,7 +410,7 @@ const Orders = () => {
               variant="outline"
             >
               {statusIcons[order.status]}
-              <span className="capitalize ml-1">{order.status}</span>
+              <span className="capitalize ml-1">{order.status.replace("_", " ")}</span>
             </Badge>
             <p className="text-sm font-medium">{formatTime(order.date)}</p>
             <p className="text-sm font-bold">{order.total.toFixed(2)} €</p>
@@ -478,6 +485,14 @@ const Orders = () => {
                 Mark Completed
               </Button>
             )}
+            <Button 
+              variant="outline" 
+              size="sm" 
+              onClick={() => setOrderToReprint(order)}
+            >
+              <Printer className="mr-2 h-4 w-4" />
+              Reprint
+            </Button>
             <Button 
               variant="outline" 
               size="sm" 
@@ -676,6 +691,12 @@ const Orders = () => {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <ReprintOrderDialog
+        orderId={orderToReprint?.id ?? null}
+        restaurantId={orderToReprint?.restaurantId ?? ""}
+        onClose={() => setOrderToReprint(null)}
+      />
     </AdminLayout>
   );
 };
@@ -11,10 +11,12 @@ import { Restaurant } from "@/types/database-types";
 import { useToast } from "@/hooks/use-toast";
 import { useTranslation, SupportedLanguage, DEFAULT_LANGUAGE } from "@/utils/language-utils";
 import { forceFlushMenuCache } from "@/services/cache-service";
+import RestaurantGroupsCard from "@/components/restaurant/RestaurantGroupsCard";
 
 const OwnerDashboard = () => {
   const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
   const [loading, setLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0); // bumped when restaurants join or leave a group
   const { user, signOut } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
@@ -29,7 +31,8 @@ const OwnerDashboard = () => {
           return;
         }
         
-        setLoading(true);
+        // Reloads after group changes keep the page in place
+        if (refreshKey === 0) setLoading(true);
         
         // Always fetch fresh data for admin/owner interfaces
         const { data, error } = await supabase
@@ -70,7 +73,7 @@ const OwnerDashboard = () => {
     };
 
     fetchOwnerRestaurants();
-  }, [user, toast]);
+  }, [user, toast, refreshKey]);
 
   const handleSignOut = async () => {
     try {
@@ -152,6 +155,13 @@ const OwnerDashboard = () => {
           </CardContent>
         </Card>
       )}
+
+      {restaurants.length > 1 && (
+        <RestaurantGroupsCard
+          restaurants={restaurants}
+          onChanged={() => setRefreshKey(key => key + 1)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,528 @@
+import { useEffect, useState } from "react";
+import { useParams, useNavigate, Link } from "react-router-dom";
+import { CheckCircle2, Loader2, QrCode } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getRestaurantBySlug, getMenuForRestaurant, getPromotionsForRestaurant, getUpsellRules, getCoPurchasePairs, recordUpsellEvents, placeOrder, resolveTableToken } from "@/services/kiosk-service";
+import { Restaurant, MenuCategory, MenuItem, CartItem, CartComboComponent, ComboWithSlots, MenuItemWithOptions, Promotion, RestaurantTable, UpsellRule, CoPurchasePair, UpsellSuggestion } from "@/types/database-types";
+import Cart from "@/components/kiosk/Cart";
+import CartButton from "@/components/kiosk/CartButton";
+import MenuItemGrid from "@/components/kiosk/MenuItemGrid";
+import ItemCustomizationDialog from "@/components/kiosk/ItemCustomizationDialog";
+import ComboDialog from "@/components/kiosk/ComboDialog";
+import OrderConfirmationDialog from "@/components/kiosk/OrderConfirmationDialog";
+import { getTranslation, SupportedLanguage, getTranslatedField } from "@/utils/language-utils";
+import { LanguageProvider, useLanguage } from "@/contexts/LanguageContext";
+import { generateIdempotencyKey } from "@/utils/service-worker";
+import { OrderSubmissionError } from "@/utils/error-handler";
+import { calculateCartTotals } from "@/utils/price-utils";
+import { toComboMenuItem } from "@/utils/combo-utils";
+import { getUpsellSuggestions } from "@/utils/upsell";
+import { DietaryFilter, EMPTY_DIETARY_FILTER } from "@/utils/dietary";
+
+type CategoryWithItems = MenuCategory & {
+  items: MenuItem[];
+  combos?: ComboWithSlots[];
+};
+
+type ScannedTable = Pick<RestaurantTable, "id" | "table_number">;
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  EUR: "€",
+  USD: "$",
+  GBP: "£",
+  TRY: "₺",
+  JPY: "¥",
+  CAD: "$",
+  AUD: "$",
+  CHF: "Fr.",
+  CNY: "¥",
+  RUB: "₽"
+};
+const getCurrencySymbol = (currency: string) => {
+  const code = currency?.toUpperCase() || "EUR";
+  return CURRENCY_SYMBOLS[code] || code;
+};
+
+interface TableOrderViewInnerProps {
+  restaurant: Restaurant;
+  table: ScannedTable;
+  tableToken: string;
+  onTableInvalid: () => void;
+}
+
+// Ordering from the customer's own phone after scanning the QR code on their table.
+// Unlike the kiosk there is no welcome screen, no order type step and no inactivity reset:
+// the order is always dine-in and bound to the scanned table.
+const TableOrderViewInner = ({ restaurant, table, tableToken, onTableInvalid }: TableOrderViewInnerProps) => {
+  const { toast } = useToast();
+  const { language: uiLanguage } = useLanguage();
+  const [categories, setCategories] = useState<CategoryWithItems[]>([]);
+  const [activeCategory, setActiveCategory] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [cart, setCart] = useState<CartItem[]>([]);
+  const [isCartOpen, setIsCartOpen] = useState(false);
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+  const [selectedCombo, setSelectedCombo] = useState<ComboWithSlots | null>(null);
+  const [placingOrder, setPlacingOrder] = useState(false);
+  const [orderPlaced, setOrderPlaced] = useState(false);
+  const [showConfirmationDialog, setShowConfirmationDialog] = useState(false);
+  const [confirmedOrderNumber, setConfirmedOrderNumber] = useState<string>("0");
+  const [confirmedOrderId, setConfirmedOrderId] = useState<string | null>(null);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [upsellRules, setUpsellRules] = useState<UpsellRule[]>([]);
+  const [coPurchasePairs, setCoPurchasePairs] = useState<CoPurchasePair[]>([]);
+  const [pendingUpsell, setPendingUpsell] = useState<UpsellSuggestion | null>(null);
+  const [dietaryFilter, setDietaryFilter] = useState<DietaryFilter>(EMPTY_DIETARY_FILTER);
+  // Stays on screen once the confirmation closes, the phone is not reset like a kiosk
+  const [lastOrderNumber, setLastOrderNumber] = useState<string | null>(null);
+
+  const t = (key: string): string => {
+    return getTranslation(key, uiLanguage as SupportedLanguage);
+  };
+  const currencySymbol = getCurrencySymbol(restaurant.currency || "EUR");
+
+  useEffect(() => {
+    const loadMenu = async () => {
+      try {
+        setLoading(true);
+        const menu = await getMenuForRestaurant(restaurant.id);
+        const sortedMenu = [...menu].sort((a, b) => (a.display_order ?? 1000) - (b.display_order ?? 1000));
+        setCategories(sortedMenu);
+        if (sortedMenu.length > 0) {
+          setActiveCategory(sortedMenu[0].id);
+        }
+      } catch (error) {
+        console.error("Error loading table order menu:", error);
+        toast({
+          title: "Erreur",
+          description: "Impossible de charger le menu. Veuillez réessayer.",
+          variant: "destructive"
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMenu();
+  }, [restaurant.id, toast]);
+
+  // The cart shows the discounts place_order will apply
+  useEffect(() => {
+    const loadPromotions = async () => {
+      try {
+        setPromotions(await getPromotionsForRestaurant(restaurant.id));
+      } catch (error) {
+        console.error("Error loading promotions:", error);
+      }
+    };
+
+    loadPromotions();
+  }, [restaurant.id]);
+
+  useEffect(() => {
+    const loadUpsell = async () => {
+      try {
+        const [rules, pairs] = await Promise.all([
+          getUpsellRules(restaurant.id),
+          getCoPurchasePairs(restaurant.id)
+        ]);
+        setUpsellRules(rules);
+        setCoPurchasePairs(pairs);
+      } catch (error) {
+        console.error("Error loading upsell suggestions:", error);
+      }
+    };
+
+    loadUpsell();
+  }, [restaurant.id]);
+
+  const handleCategoryClick = (categoryId: string) => {
+    setActiveCategory(categoryId);
+    document.getElementById(`category-${categoryId}`)?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
+
+  const getFormattedOptions = (item: CartItem): string => {
+    if (!item.menuItem.options) return "";
+    return item.selectedOptions.flatMap(selectedOption => {
+      const option = item.menuItem.options?.find(o => o.id === selectedOption.optionId);
+      if (!option) return [];
+      return selectedOption.choiceIds.map(choiceId => {
+        const choice = option.choices.find(c => c.id === choiceId);
+        return choice ? getTranslatedField(choice, 'name', uiLanguage) : "";
+      });
+    }).filter(Boolean).join(", ");
+  };
+  const getFormattedToppings = (item: CartItem): string => {
+    if (!item.menuItem.toppingCategories) return "";
+    return item.selectedToppings.flatMap(selectedCategory => {
+      const category = item.menuItem.toppingCategories?.find(c => c.id === selectedCategory.categoryId);
+      if (!category) return [];
+      return selectedCategory.toppingIds.map(toppingId => {
+        const topping = category.toppings.find(t => t.id === toppingId);
+        return topping ? getTranslatedField(topping, 'name', uiLanguage) : "";
+      });
+    }).filter(Boolean).join(", ");
+  };
+  const upsellSuggestions = getUpsellSuggestions(
+    cart,
+    upsellRules,
+    coPurchasePairs,
+    categories.flatMap(category => category.items)
+  );
+  const trackUpsell = (suggestions: UpsellSuggestion[], event: 'shown' | 'accepted') => {
+    recordUpsellEvents(suggestions.map(suggestion => ({
+      restaurant_id: restaurant.id,
+      menu_item_id: suggestion.menuItem.id,
+      rule_id: suggestion.ruleId,
+      source: suggestion.source,
+      event
+    }))).catch(() => undefined);
+  };
+  const handleAddToCart = (cartItem: {
+    menuItem: MenuItemWithOptions;
+    quantity: number;
+    selectedOptions: CartItem['selectedOptions'];
+    selectedToppings: CartItem['selectedToppings'];
+    specialInstructions: string;
+    itemPrice: number;
+    comboComponents?: CartComboComponent[];
+  }) => {
+    const newItem: CartItem = {
+      id: Date.now().toString(),
+      menuItem: cartItem.menuItem,
+      quantity: cartItem.quantity,
+      selectedOptions: cartItem.selectedOptions,
+      selectedToppings: cartItem.selectedToppings,
+      specialInstructions: cartItem.specialInstructions.trim() || undefined,
+      itemPrice: cartItem.itemPrice,
+      comboComponents: cartItem.comboComponents
+    };
+    setCart(prev => [newItem, ...prev]);
+    setSelectedItemId(null);
+    setSelectedCombo(null);
+    if (pendingUpsell && pendingUpsell.menuItem.id === cartItem.menuItem.id) {
+      trackUpsell([pendingUpsell], 'accepted');
+      setPendingUpsell(null);
+    }
+    toast({
+      title: t("addedToCart"),
+      description: `${cartItem.quantity}x ${cartItem.menuItem.name} ${t("added")}`
+    });
+  };
+  const handleUpdateCartItemQuantity = (itemId: string, newQuantity: number) => {
+    if (newQuantity <= 0) {
+      handleRemoveCartItem(itemId);
+      return;
+    }
+    setCart(prev => prev.map(item => item.id === itemId ? {
+      ...item,
+      quantity: newQuantity
+    } : item));
+  };
+  const handleRemoveCartItem = (itemId: string) => {
+    setCart(prev => {
+      const newCart = prev.filter(item => item.id !== itemId);
+      if (newCart.length === 0) {
+        setIsCartOpen(false);
+      }
+      return newCart;
+    });
+  };
+  const getCartTotals = () => calculateCartTotals(cart, {
+    orderType: "dine-in",
+    pricesIncludeTax: restaurant.prices_include_tax,
+    promotions,
+    timezone: restaurant.timezone
+  });
+
+  // Phones never take card payments: the order is paid at the counter, or as the restaurant usually does
+  const handlePlaceOrder = async () => {
+    if (cart.length === 0) return;
+
+    try {
+      setPlacingOrder(true);
+      const order = await placeOrder({
+        restaurant_id: restaurant.id,
+        cart,
+        order_type: "dine-in",
+        table_number: table.table_number,
+        table_token: tableToken,
+        customer_name: null,
+        idempotency_key: generateIdempotencyKey(),
+        payment_method: restaurant.cash_payment_enabled ? "cash" : null
+      });
+
+      setOrderPlaced(true);
+      setConfirmedOrderNumber(order.order_number || order.id.slice(0, 8));
+      setConfirmedOrderId(order.id);
+      setShowConfirmationDialog(true);
+      setIsCartOpen(false);
+    } catch (error) {
+      console.error("Erreur lors de la commande à table:", error);
+
+      if (error instanceof OrderSubmissionError && (error.code === 'TABLE_REQUIRED' || error.code === 'TABLE_UNAVAILABLE')) {
+        // The table was deactivated or its QR code regenerated since the page was opened
+        onTableInvalid();
+        return;
+      }
+
+      if (error instanceof OrderSubmissionError && error.code === 'RESTAURANT_CLOSED') {
+        toast({
+          title: t("closed.title"),
+          description: t("closed.message"),
+          variant: "destructive"
+        });
+        return;
+      }
+
+      if (error instanceof OrderSubmissionError && error.code === 'PRICE_MISMATCH') {
+        setCart(prev => prev.map(item => {
+          const mismatch = error.priceMismatches.find(m => m.cartItemId === item.id);
+          return mismatch ? { ...item, itemPrice: mismatch.actualPrice } : item;
+        }));
+        setIsCartOpen(true);
+        toast({
+          title: t("priceChanged"),
+          description: t("priceChangedMessage"),
+          variant: "destructive"
+        });
+        return;
+      }
+
+      if (error instanceof OrderSubmissionError && (error.code === 'ITEM_UNAVAILABLE' || error.code === 'OPTION_UNAVAILABLE' || error.code === 'TOPPING_UNAVAILABLE' || error.code === 'COMBO_UNAVAILABLE')) {
+        const unavailableItem = cart.find(item => item.id === error.cartItemId);
+        toast({
+          title: t("itemUnavailable"),
+          description: t("itemUnavailableMessage").replace("{item}", unavailableItem ? getTranslatedField(unavailableItem.menuItem, 'name', uiLanguage) : ""),
+          variant: "destructive"
+        });
+        return;
+      }
+
+      toast({
+        title: "Erreur",
+        description: "Un problème est survenu lors de la commande. Veuillez réessayer.",
+        variant: "destructive"
+      });
+    } finally {
+      setPlacingOrder(false);
+    }
+  };
+
+  const handleConfirmationClose = () => {
+    setShowConfirmationDialog(false);
+    setLastOrderNumber(confirmedOrderNumber);
+    setCart([]);
+    setOrderPlaced(false);
+  };
+
+  const cartItemCount = cart.reduce((total, item) => total + item.quantity, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-24">
+      <header className="sticky top-0 z-40 bg-white border-b border-gray-200 shadow-sm">
+        <div className="flex items-center gap-3 px-4 py-3">
+          {restaurant.logo_url && (
+            <img src={restaurant.logo_url} alt={restaurant.name} className="h-10 w-10 rounded-full object-cover" />
+          )}
+          <div className="min-w-0">
+            <h1 className="truncate text-lg font-bold">{restaurant.name}</h1>
+            <p className="text-sm text-gray-500">{t("tableOrder.title").replace("{table}", table.table_number)}</p>
+          </div>
+        </div>
+
+        {categories.length > 1 && (
+          <nav className="flex gap-2 overflow-x-auto px-4 pb-3">
+            {categories.map(category => (
+              <button
+                key={category.id}
+                onClick={() => handleCategoryClick(category.id)}
+                className={`whitespace-nowrap rounded-full px-4 py-1.5 text-sm font-medium transition-colors ${
+                  activeCategory === category.id ? 'bg-kiosk-primary text-white' : 'bg-gray-100 text-gray-800'
+                }`}
+              >
+                {getTranslatedField(category, 'name', uiLanguage)}
+              </button>
+            ))}
+          </nav>
+        )}
+      </header>
+
+      {lastOrderNumber && (
+        <div className="mx-4 mt-4 flex items-start gap-3 rounded-lg border border-green-200 bg-green-50 p-4 text-green-900">
+          <CheckCircle2 className="mt-0.5 h-5 w-5 flex-shrink-0" />
+          <div>
+            <p className="font-medium">{t("tableOrder.orderSent").replace("{number}", lastOrderNumber)}</p>
+            <Link to={`/r/${restaurant.slug}/status`} className="text-sm underline">
+              {t("tableOrder.trackOrder")}
+            </Link>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-10 w-10 animate-spin text-purple-700" />
+        </div>
+      ) : (
+        <div className="py-4">
+          <MenuItemGrid
+            items={categories.flatMap(c => [...c.items, ...(c.combos || []).filter(combo => combo.in_stock).map(toComboMenuItem)])}
+            handleSelectItem={(item: MenuItem) => {
+              const combo = categories.flatMap(c => c.combos || []).find(c => c.id === item.id);
+              if (combo) {
+                setSelectedCombo(combo);
+              } else {
+                setSelectedItemId(item.id);
+              }
+            }}
+            currencySymbol={currencySymbol}
+            t={t}
+            restaurantId={restaurant.id}
+            categories={categories}
+            dietaryFilter={dietaryFilter}
+            onDietaryFilterChange={setDietaryFilter}
+          />
+        </div>
+      )}
+
+      {!isCartOpen && cart.length > 0 && (
+        <CartButton itemCount={cartItemCount} total={getCartTotals().total} onClick={() => setIsCartOpen(true)} currency={restaurant.currency} />
+      )}
+
+      <div className="fixed bottom-0 left-0 right-0 z-50 bg-white border-t border-gray-200 shadow-lg" style={{
+        maxHeight: "80vh"
+      }}>
+        <Cart
+          cart={cart}
+          isOpen={isCartOpen}
+          onToggleOpen={() => setIsCartOpen(!isCartOpen)}
+          onUpdateQuantity={handleUpdateCartItemQuantity}
+          onRemoveItem={handleRemoveCartItem}
+          onClearCart={() => setCart([])}
+          onPlaceOrder={handlePlaceOrder}
+          placingOrder={placingOrder}
+          orderPlaced={orderPlaced}
+          calculateSubtotal={() => getCartTotals().subtotal}
+          calculateTax={() => getCartTotals().tax}
+          getFormattedOptions={getFormattedOptions}
+          getFormattedToppings={getFormattedToppings}
+          restaurant={restaurant}
+          orderType="dine-in"
+          tableNumber={table.table_number}
+          promotions={promotions}
+          upsellSuggestions={upsellSuggestions}
+          onUpsellShown={suggestions => trackUpsell(suggestions, 'shown')}
+          onUpsellSelected={suggestion => {
+            setPendingUpsell(suggestion);
+            setSelectedItemId(suggestion.menuItem.id);
+          }}
+          t={t}
+        />
+      </div>
+
+      {selectedItemId && <ItemCustomizationDialog
+        itemId={selectedItemId}
+        restaurantId={restaurant.id}
+        isOpen={!!selectedItemId}
+        onClose={() => {
+          setSelectedItemId(null);
+          setPendingUpsell(null);
+        }}
+        onAddToCart={handleAddToCart}
+        t={t}
+        currencySymbol={currencySymbol}
+      />}
+
+      <ComboDialog
+        combo={selectedCombo}
+        restaurantId={restaurant.id}
+        isOpen={!!selectedCombo}
+        onClose={() => setSelectedCombo(null)}
+        onAddToCart={handleAddToCart}
+        t={t}
+        currencySymbol={currencySymbol}
+      />
+
+      <OrderConfirmationDialog
+        isOpen={showConfirmationDialog}
+        onClose={handleConfirmationClose}
+        cart={cart}
+        orderNumber={confirmedOrderNumber}
+        orderId={confirmedOrderId}
+        restaurant={restaurant}
+        orderType="dine-in"
+        tableNumber={table.table_number}
+        getFormattedOptions={getFormattedOptions}
+        getFormattedToppings={getFormattedToppings}
+        promotions={promotions}
+      />
+    </div>
+  );
+};
+
+const TableOrderView = () => {
+  const { restaurantSlug, tableToken } = useParams<{ restaurantSlug: string; tableToken: string }>();
+  const navigate = useNavigate();
+  const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
+  const [table, setTable] = useState<ScannedTable | null>(null);
+  const [invalidTable, setInvalidTable] = useState(false);
+
+  useEffect(() => {
+    const loadTable = async () => {
+      if (!restaurantSlug || !tableToken) {
+        navigate('/');
+        return;
+      }
+
+      try {
+        const restaurantData = await getRestaurantBySlug(restaurantSlug);
+        if (!restaurantData) {
+          navigate('/');
+          return;
+        }
+        setRestaurant(restaurantData);
+
+        const tableData = await resolveTableToken(restaurantData.id, tableToken);
+        setTable(tableData);
+        setInvalidTable(!tableData);
+      } catch (error) {
+        console.error('Error loading table order page:', error);
+        setInvalidTable(true);
+      }
+    };
+
+    loadTable();
+  }, [restaurantSlug, tableToken, navigate]);
+
+  if (!invalidTable && (!restaurant || !table)) {
+    return <div className="flex items-center justify-center h-screen">
+      <Loader2 className="h-12 w-12 animate-spin text-purple-700" />
+    </div>;
+  }
+
+  const restaurantLanguage: SupportedLanguage = restaurant?.ui_language === "en" ? "en" : restaurant?.ui_language === "tr" ? "tr" : "fr";
+
+  return (
+    <LanguageProvider initialLanguage={restaurantLanguage}>
+      {invalidTable || !table ? (
+        <div className="flex min-h-screen items-center justify-center p-6">
+          <div className="max-w-sm text-center">
+            <QrCode className="mx-auto mb-4 h-12 w-12 text-gray-400" />
+            <h1 className="mb-2 text-xl font-bold">{getTranslation("tableOrder.invalidLink", restaurantLanguage)}</h1>
+            <p className="text-gray-500">{getTranslation("tableOrder.invalidLinkMessage", restaurantLanguage)}</p>
+          </div>
+        </div>
+      ) : (
+        <TableOrderViewInner
+          restaurant={restaurant}
+          table={table}
+          tableToken={tableToken}
+          onTableInvalid={() => setInvalidTable(true)}
+        />
+      )}
+    </LanguageProvider>
+  );
+};
+
+export default TableOrderView;
@@ -2,6 +2,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { MenuItemWithOptions } from "@/types/database-types";
 import { setCacheItem, getCacheItem } from "./cache-service";
 import { perfMonitor } from "@/utils/performance-monitor";
+import { isAvailableToOrder } from "@/utils/stock";
 
 export interface BatchMenuItemResult {
   success: boolean;
@@ -86,8 +87,19 @@ export const batchGetMenuItemsWithOptions = async (itemIds: string[]): Promise<B
               name,
               price,
               tax_percentage,
+              takeaway_tax_percentage,
               display_order,
               in_stock,
+              ingredients_available,
+              allergens,
+              dietary_tags,
+              spicy_level,
+              calories,
+              protein,
+              carbohydrates,
+              fat,
+              stock_quantity,
+              low_stock_threshold,
               name_fr,
               name_en,
               name_tr,
@@ -233,7 +245,7 @@ export const batchGetMenuItemsWithOptions = async (itemIds: string[]): Promise<B
               // Process toppings
               if (category.toppings) {
                 category.toppings.forEach((topping: any) => {
-                  if (!topping.in_stock) return; // Skip out of stock toppings
+                  if (!isAvailableToOrder(topping)) return; // Skip out of stock toppings
 
                   const existingToppings = toppingsMap.get(category.id)!;
                   if (!existingToppings.find(t => t.id === topping.id)) {
@@ -241,8 +253,18 @@ export const batchGetMenuItemsWithOptions = async (itemIds: string[]): Promise<B
                       id: topping.id,
                       name: topping.name,
                       price: topping.price || 0,
-                      tax_percentage: topping.tax_percentage || 10,
+                      tax_percentage: topping.tax_percentage ?? null,
+                      takeaway_tax_percentage: topping.takeaway_tax_percentage ?? null,
                       display_order: topping.display_order || 1000,
+                      allergens: topping.allergens,
+                      dietary_tags: topping.dietary_tags,
+                      spicy_level: topping.spicy_level,
+                      calories: topping.calories,
+                      protein: topping.protein,
+                      carbohydrates: topping.carbohydrates,
+                      fat: topping.fat,
+                      stock_quantity: topping.stock_quantity,
+                      low_stock_threshold: topping.low_stock_threshold,
                       // Multilingual fields
                       name_fr: topping.name_fr,
                       name_en: topping.name_en,
@@ -289,9 +311,21 @@ export const batchGetMenuItemsWithOptions = async (itemIds: string[]): Promise<B
           in_stock: firstRecord.in_stock,
           promotion_price: firstRecord.promotion_price,
           tax_percentage: firstRecord.tax_percentage,
+          takeaway_tax_percentage: firstRecord.takeaway_tax_percentage,
           display_order: firstRecord.display_order,
           available_from: firstRecord.available_from,
           available_until: firstRecord.available_until,
+          allergens: firstRecord.allergens,
+          dietary_tags: firstRecord.dietary_tags,
+          spicy_level: firstRecord.spicy_level,
+          calories: firstRecord.calories,
+          protein: firstRecord.protein,
+          carbohydrates: firstRecord.carbohydrates,
+          fat: firstRecord.fat,
+          portion_size: firstRecord.portion_size,
+          stock_quantity: firstRecord.stock_quantity,
+          low_stock_threshold: firstRecord.low_stock_threshold,
+          par_level: firstRecord.par_level,
           created_at: firstRecord.created_at,
           updated_at: firstRecord.updated_at,
           // Multilingual fields
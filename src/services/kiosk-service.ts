@@ -3,17 +3,61 @@ import {
   Restaurant, 
   MenuCategory, 
   MenuItem, 
+  MenuItemToppingCategory,
   MenuItemOption, 
   OptionChoice, 
   Order, 
-  OrderItem, 
-  OrderItemOption,
   OrderStatus,
   OrderType,
+  OrderStatusBoardEntry,
+  KitchenStation,
+  RestaurantTable,
+  PrintJob,
+  PrintSettings,
+  ReceiptTemplate,
+  PaperWidth,
   ToppingCategory,
   Topping,
-  MenuItemWithOptions
+  MenuItemWithOptions,
+  CartItem,
+  TaxRateSummary,
+  Payment,
+  PaymentMethod,
+  PaymentStatus,
+  Menu,
+  MenuSchedule,
+  MenuHolidayOverride,
+  RestaurantMenuSchedule,
+  OpeningHours,
+  RestaurantClosure,
+  RestaurantOpeningSchedule,
+  Combo,
+  ComboWithSlots,
+  Promotion,
+  PromotionType,
+  AppliedPromotion,
+  UpsellRule,
+  UpsellSource,
+  UpsellEventType,
+  UpsellItemStats,
+  CoPurchasePair,
+  Ingredient,
+  IngredientUnit,
+  IngredientAdjustment,
+  IngredientAdjustmentReason,
+  RecipeIngredient,
+  RestaurantGroup
 } from "@/types/database-types";
+import { OrderSubmissionError, OrderSubmissionErrorCode, safeJsonParse } from "@/utils/error-handler";
+import { filterCategoriesBySchedule, getLocalDateTime } from "@/utils/menu-schedule";
+import { toComboMenuItem } from "@/utils/combo-utils";
+import { isAvailableToOrder } from "@/utils/stock";
+import { MenuSnapshot } from "@/utils/menu-bundle";
+import { offlineRequestQueue, generateIdempotencyKey } from "@/utils/service-worker";
+import { PrintNodePrinter, encodePrintContent } from "@/utils/print-utils";
+import { createReceiptTranslator, generateKitchenTicket } from "@/utils/receipt-templates";
+import { expandComboComponents } from "@/utils/combo-utils";
+import { SupportedLanguage } from "@/utils/language-utils";
 
 // Restaurant services
 export const getRestaurants = async (): Promise<Restaurant[]> => {
@@ -93,6 +137,95 @@ export const getRestaurantBySlug = async (slug: string): Promise<Restaurant | nu
   return data;
 };
 
+// Opening hours services
+// Weekly hours, closures still to come and the last order cutoff, read in the restaurant's timezone
+export const getOpeningSchedule = async (restaurantId: string): Promise<RestaurantOpeningSchedule> => {
+  const [restaurantResult, hoursResult, closuresResult] = await Promise.all([
+    supabase.from("restaurants").select("timezone, last_order_minutes").eq("id", restaurantId).single(),
+    supabase
+      .from("restaurant_opening_hours")
+      .select("*")
+      .eq("restaurant_id", restaurantId)
+      .order("weekday", { ascending: true })
+      .order("open_time", { ascending: true }),
+    supabase
+      .from("restaurant_closures")
+      .select("*")
+      .eq("restaurant_id", restaurantId)
+      .gte("ends_on", new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10))
+      .order("starts_on", { ascending: true })
+  ]);
+
+  const error = restaurantResult.error || hoursResult.error || closuresResult.error;
+  if (error) {
+    console.error("Error fetching opening hours:", error);
+    throw error;
+  }
+
+  return {
+    timezone: restaurantResult.data.timezone,
+    last_order_minutes: restaurantResult.data.last_order_minutes,
+    hours: hoursResult.data,
+    closures: closuresResult.data
+  };
+};
+
+// Replaces the whole week; no hours at all means open at all times
+export const setOpeningHours = async (
+  restaurantId: string,
+  hours: Pick<OpeningHours, 'weekday' | 'open_time' | 'close_time'>[]
+): Promise<void> => {
+  const { error: deleteError } = await supabase
+    .from("restaurant_opening_hours")
+    .delete()
+    .eq("restaurant_id", restaurantId);
+
+  if (deleteError) {
+    console.error("Error clearing opening hours:", deleteError);
+    throw deleteError;
+  }
+
+  if (hours.length === 0) return;
+
+  const { error } = await supabase
+    .from("restaurant_opening_hours")
+    .insert(hours.map(h => ({ ...h, restaurant_id: restaurantId })));
+
+  if (error) {
+    console.error("Error saving opening hours:", error);
+    throw error;
+  }
+};
+
+export const createRestaurantClosure = async (
+  closure: Pick<RestaurantClosure, 'restaurant_id' | 'starts_on' | 'ends_on' | 'label'>
+): Promise<RestaurantClosure> => {
+  const { data, error } = await supabase
+    .from("restaurant_closures")
+    .insert(closure)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating closure:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const deleteRestaurantClosure = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("restaurant_closures")
+    .delete()
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error deleting closure:", error);
+    throw error;
+  }
+};
+
 // Menu Category services
 export const getCategoriesByRestaurantId = async (restaurantId: string): Promise<MenuCategory[]> => {
   console.log("Fetching categories for restaurant:", restaurantId);
@@ -156,6 +289,160 @@ export const deleteCategory = async (id: string): Promise<void> => {
   }
 };
 
+// Menu schedule services
+// Menus with their weekly windows and categories, the holiday overrides and the timezone they are read in
+export const getMenuSchedule = async (restaurantId: string): Promise<RestaurantMenuSchedule> => {
+  const [restaurantResult, menusResult, overridesResult] = await Promise.all([
+    supabase.from("restaurants").select("timezone").eq("id", restaurantId).single(),
+    supabase
+      .from("menus")
+      .select("*, menu_schedules(*), menu_category_menus(category_id)")
+      .eq("restaurant_id", restaurantId)
+      .order("display_order", { ascending: true }),
+    supabase.from("menu_holiday_overrides").select("*").eq("restaurant_id", restaurantId).order("override_date", { ascending: true })
+  ]);
+
+  const error = restaurantResult.error || menusResult.error || overridesResult.error;
+  if (error) {
+    console.error("Error fetching menu schedule:", error);
+    throw error;
+  }
+
+  return {
+    timezone: restaurantResult.data.timezone,
+    menus: menusResult.data.map(({ menu_schedules, menu_category_menus, ...menu }) => ({
+      ...menu,
+      schedules: menu_schedules,
+      category_ids: menu_category_menus.map(link => link.category_id)
+    })),
+    overrides: overridesResult.data
+  };
+};
+
+export const createMenu = async (menu: Pick<Menu, 'restaurant_id' | 'name' | 'display_order'>): Promise<Menu> => {
+  const { data, error } = await supabase
+    .from("menus")
+    .insert(menu)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating menu:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const updateMenu = async (id: string, updates: Partial<Pick<Menu, 'name' | 'display_order'>>): Promise<Menu> => {
+  const { data, error } = await supabase
+    .from("menus")
+    .update(updates)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error updating menu:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+// Its categories are shown at all times again, unless another menu still lists them
+export const deleteMenu = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("menus")
+    .delete()
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error deleting menu:", error);
+    throw error;
+  }
+};
+
+// Replaces all the weekly windows of a menu
+export const setMenuSchedules = async (
+  menuId: string,
+  schedules: Pick<MenuSchedule, 'weekday' | 'start_time' | 'end_time'>[]
+): Promise<void> => {
+  const { error: deleteError } = await supabase
+    .from("menu_schedules")
+    .delete()
+    .eq("menu_id", menuId);
+
+  if (deleteError) {
+    console.error("Error clearing menu schedules:", deleteError);
+    throw deleteError;
+  }
+
+  if (schedules.length === 0) return;
+
+  const { error } = await supabase
+    .from("menu_schedules")
+    .insert(schedules.map(schedule => ({ ...schedule, menu_id: menuId })));
+
+  if (error) {
+    console.error("Error saving menu schedules:", error);
+    throw error;
+  }
+};
+
+// Replaces the categories shown by a menu
+export const setMenuCategories = async (menuId: string, categoryIds: string[]): Promise<void> => {
+  const { error: deleteError } = await supabase
+    .from("menu_category_menus")
+    .delete()
+    .eq("menu_id", menuId);
+
+  if (deleteError) {
+    console.error("Error clearing menu categories:", deleteError);
+    throw deleteError;
+  }
+
+  if (categoryIds.length === 0) return;
+
+  const { error } = await supabase
+    .from("menu_category_menus")
+    .insert(categoryIds.map(categoryId => ({ menu_id: menuId, category_id: categoryId })));
+
+  if (error) {
+    console.error("Error saving menu categories:", error);
+    throw error;
+  }
+};
+
+export const createMenuHolidayOverride = async (
+  override: Pick<MenuHolidayOverride, 'restaurant_id' | 'override_date' | 'label' | 'schedule_weekday'>
+): Promise<MenuHolidayOverride> => {
+  const { data, error } = await supabase
+    .from("menu_holiday_overrides")
+    .insert(override)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating holiday override:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const deleteMenuHolidayOverride = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("menu_holiday_overrides")
+    .delete()
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error deleting holiday override:", error);
+    throw error;
+  }
+};
+
 // Menu Item services
 export const getMenuItemsByCategory = async (categoryId: string): Promise<MenuItem[]> => {
   const { data: menuItems, error } = await supabase
@@ -191,6 +478,24 @@ export const getMenuItemsByCategory = async (categoryId: string): Promise<MenuIt
   return menuItemsWithToppingCategories;
 };
 
+// Plain rows, without topping categories; enough to pick items, e.g. for combo slots
+export const getMenuItemsByCategoryIds = async (categoryIds: string[]): Promise<MenuItem[]> => {
+  if (categoryIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("menu_items")
+    .select("*")
+    .in("category_id", categoryIds)
+    .order("display_order", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching menu items:", error);
+    throw error;
+  }
+
+  return data;
+};
+
 export const getMenuItemById = async (id: string): Promise<MenuItem | null> => {
   const { data, error } = await supabase
     .from("menu_items")
@@ -276,10 +581,12 @@ export const updateMenuItem = async (id: string, updates: Partial<Omit<MenuItem,
   const taxValue = (typeof tax_percentage === 'string' || typeof tax_percentage === 'number')
     ? (Number(tax_percentage) || 10)
     : 10;
+  // Partial updates (stock levels, nutrition, prices) keep the current rate
+  const taxUpdate = 'tax_percentage' in updates ? { tax_percentage: taxValue } : {};
 
   const { data, error } = await supabase
     .from("menu_items")
-    .update({ ...menuItemData, tax_percentage: taxValue })
+    .update({ ...menuItemData, ...taxUpdate })
     .eq("id", id)
     .select()
     .single();
@@ -343,165 +650,1448 @@ export const getMenuItemOptions = async (menuItemId: string): Promise<MenuItemOp
     .eq("menu_item_id", menuItemId);
 
   if (error) {
-    console.error("Error fetching menu item options:", error);
+    console.error("Error fetching menu item options:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+// Option Choices services
+export const getOptionChoices = async (optionId: string): Promise<OptionChoice[]> => {
+  const { data, error } = await supabase
+    .from("option_choices")
+    .select("*")
+    .eq("option_id", optionId);
+
+  if (error) {
+    console.error("Error fetching option choices:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+// Combo services
+export type ComboSlotInput = {
+  name: string;
+  category_id: string | null;
+  display_order: number;
+  items: { menu_item_id: string; upcharge: number }[];
+};
+
+// Combos with their slots; each slot lists the in stock items it offers, an explicit upcharge winning over the category's free pick
+export const getCombosForRestaurant = async (restaurantId: string): Promise<ComboWithSlots[]> => {
+  const { data, error } = await supabase
+    .from("combos")
+    .select("*, combo_slots ( *, combo_slot_items ( * ) )")
+    .eq("restaurant_id", restaurantId)
+    .order("display_order", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching combos:", error);
+    throw error;
+  }
+
+  const slots = data.flatMap(combo => combo.combo_slots);
+  const categoryIds = [...new Set(slots.map(slot => slot.category_id).filter(Boolean))];
+  const itemIds = [...new Set(slots.flatMap(slot => slot.combo_slot_items.map(i => i.menu_item_id)))];
+
+  const [categoryItemsResult, listedItemsResult] = await Promise.all([
+    categoryIds.length > 0
+      ? supabase.from("menu_items").select("*").in("category_id", categoryIds)
+      : Promise.resolve({ data: [], error: null }),
+    itemIds.length > 0
+      ? supabase.from("menu_items").select("*").in("id", itemIds)
+      : Promise.resolve({ data: [], error: null })
+  ]);
+
+  const itemsError = categoryItemsResult.error || listedItemsResult.error;
+  if (itemsError) {
+    console.error("Error fetching combo slot items:", itemsError);
+    throw itemsError;
+  }
+
+  const menuItems = new Map<string, MenuItem>(
+    [...categoryItemsResult.data, ...listedItemsResult.data].map(item => [item.id, item])
+  );
+
+  return data.map(({ combo_slots, ...combo }) => ({
+    ...combo,
+    slots: [...combo_slots]
+      .sort((a, b) => a.display_order - b.display_order)
+      .map(({ combo_slot_items, ...slot }) => {
+        const upcharges = new Map(combo_slot_items.map(i => [i.menu_item_id, Number(i.upcharge)]));
+        const choices = [...menuItems.values()]
+          .filter(item => isAvailableToOrder(item) && (upcharges.has(item.id) || (slot.category_id && item.category_id === slot.category_id)))
+          .sort((a, b) => (a.display_order ?? 0) - (b.display_order ?? 0))
+          .map(item => ({ menuItem: item, upcharge: upcharges.get(item.id) ?? 0 }));
+
+        return { ...slot, items: combo_slot_items, choices };
+      })
+  }));
+};
+
+export const createCombo = async (combo: Omit<Combo, 'id' | 'created_at' | 'updated_at'>): Promise<Combo> => {
+  const { data, error } = await supabase
+    .from("combos")
+    .insert(combo)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating combo:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const updateCombo = async (id: string, updates: Partial<Omit<Combo, 'id' | 'created_at' | 'updated_at'>>): Promise<Combo> => {
+  const { data, error } = await supabase
+    .from("combos")
+    .update(updates)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error updating combo:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const deleteCombo = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("combos")
+    .delete()
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error deleting combo:", error);
+    throw error;
+  }
+};
+
+// Replaces all the slots of a combo, in the given order
+export const setComboSlots = async (comboId: string, slots: ComboSlotInput[]): Promise<void> => {
+  const { error: deleteError } = await supabase
+    .from("combo_slots")
+    .delete()
+    .eq("combo_id", comboId);
+
+  if (deleteError) {
+    console.error("Error deleting combo slots:", deleteError);
+    throw deleteError;
+  }
+
+  for (const { items, ...slot } of slots) {
+    const { data, error } = await supabase
+      .from("combo_slots")
+      .insert({ ...slot, combo_id: comboId })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating combo slot:", error);
+      throw error;
+    }
+
+    if (items.length > 0) {
+      const { error: itemsError } = await supabase
+        .from("combo_slot_items")
+        .insert(items.map(item => ({ ...item, slot_id: data.id })));
+
+      if (itemsError) {
+        console.error("Error creating combo slot items:", itemsError);
+        throw itemsError;
+      }
+    }
+  }
+};
+
+// Promotion services
+const toPromotion = (promotion: Promotion): Promotion => ({
+  ...promotion,
+  promotion_type: promotion.promotion_type as PromotionType,
+  order_type: promotion.order_type as OrderType
+});
+
+export const getPromotionsForRestaurant = async (restaurantId: string): Promise<Promotion[]> => {
+  const { data, error } = await supabase
+    .from("promotions")
+    .select("*")
+    .eq("restaurant_id", restaurantId)
+    .order("display_order")
+    .order("id");
+
+  if (error) {
+    console.error("Error fetching promotions:", error);
+    throw error;
+  }
+
+  return (data as unknown as Promotion[]).map(toPromotion);
+};
+
+export const createPromotion = async (promotion: Omit<Promotion, 'id' | 'created_at' | 'updated_at'>): Promise<Promotion> => {
+  const { data, error } = await supabase
+    .from("promotions")
+    .insert(promotion)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating promotion:", error);
+    throw error;
+  }
+
+  return toPromotion(data as unknown as Promotion);
+};
+
+export const updatePromotion = async (id: string, updates: Partial<Omit<Promotion, 'id' | 'created_at' | 'updated_at'>>): Promise<Promotion> => {
+  const { data, error } = await supabase
+    .from("promotions")
+    .update(updates)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error updating promotion:", error);
+    throw error;
+  }
+
+  return toPromotion(data as unknown as Promotion);
+};
+
+export const deletePromotion = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("promotions")
+    .delete()
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error deleting promotion:", error);
+    throw error;
+  }
+};
+
+// Upsell services
+export const getUpsellRules = async (restaurantId: string): Promise<UpsellRule[]> => {
+  const { data, error } = await supabase
+    .from("upsell_rules")
+    .select("*")
+    .eq("restaurant_id", restaurantId)
+    .order("display_order");
+
+  if (error) {
+    console.error("Error fetching upsell rules:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const createUpsellRule = async (rule: Omit<UpsellRule, 'id' | 'created_at' | 'updated_at'>): Promise<UpsellRule> => {
+  const { data, error } = await supabase
+    .from("upsell_rules")
+    .insert(rule)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating upsell rule:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const updateUpsellRule = async (id: string, updates: Partial<Omit<UpsellRule, 'id' | 'created_at' | 'updated_at'>>): Promise<UpsellRule> => {
+  const { data, error } = await supabase
+    .from("upsell_rules")
+    .update(updates)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error updating upsell rule:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const deleteUpsellRule = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("upsell_rules")
+    .delete()
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error deleting upsell rule:", error);
+    throw error;
+  }
+};
+
+export const getCoPurchasePairs = async (restaurantId: string): Promise<CoPurchasePair[]> => {
+  const { data, error } = await supabase.rpc('get_co_purchase_pairs', { p_restaurant_id: restaurantId });
+
+  if (error) {
+    console.error("Error fetching co-purchase pairs:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+export type NewUpsellEvent = {
+  restaurant_id: string;
+  menu_item_id: string;
+  rule_id: string | null;
+  source: UpsellSource;
+  event: UpsellEventType;
+};
+
+export const recordUpsellEvents = async (events: NewUpsellEvent[]): Promise<void> => {
+  if (events.length === 0) return;
+
+  const { error } = await supabase
+    .from("upsell_events")
+    .insert(events);
+
+  if (error) {
+    console.error("Error recording upsell events:", error);
+    throw error;
+  }
+};
+
+export const getUpsellStats = async (restaurantId: string, from: Date, to: Date): Promise<UpsellItemStats[]> => {
+  const { data, error } = await supabase.rpc('get_upsell_stats', {
+    p_restaurant_id: restaurantId,
+    p_from: from.toISOString(),
+    p_to: to.toISOString()
+  });
+
+  if (error) {
+    console.error("Error fetching upsell statistics:", error);
+    throw error;
+  }
+
+  return data.map(row => ({
+    ...row,
+    source: row.source as UpsellSource,
+    shown: Number(row.shown),
+    accepted: Number(row.accepted)
+  }));
+};
+
+// Order services
+export interface PlaceOrderParams {
+  restaurant_id: string;
+  cart: CartItem[];
+  order_type?: OrderType;
+  table_number?: string | null;
+  customer_name?: string | null;
+  number_prefix?: string | null; // per-kiosk prefix, overrides the order type prefix
+  idempotency_key?: string; // lets a retried request return the order it already created
+  payment_method?: PaymentMethod | null; // 'card' holds the order back until the terminal approves
+  table_token?: string | null; // token from a table QR code, binds the order to that table
+}
+
+type PlaceOrderChoicesPayload = {
+  options: { option_id: string; choice_id: string }[];
+  toppings: { topping_id: string; quantity: number }[];
+};
+
+// Shape of one element of the place_order RPC's p_items payload; a combo sends its components instead of a menu item
+type PlaceOrderItemPayload = Partial<PlaceOrderChoicesPayload> & {
+  cart_item_id: string;
+  menu_item_id?: string;
+  combo_id?: string;
+  quantity: number;
+  unit_price: number | null; // null skips the price check
+  special_instructions: string | null;
+  components?: (PlaceOrderChoicesPayload & {
+    slot_id: string;
+    menu_item_id: string;
+    special_instructions: string | null;
+  })[];
+};
+
+const buildChoicesPayload = (
+  selectedOptions: CartItem['selectedOptions'],
+  selectedToppings: CartItem['selectedToppings']
+): PlaceOrderChoicesPayload => ({
+  options: selectedOptions.flatMap(option =>
+    option.choiceIds.map(choiceId => ({
+      option_id: option.optionId,
+      choice_id: choiceId
+    }))
+  ),
+  toppings: selectedToppings.flatMap(category =>
+    category.toppingIds.map(toppingId => ({
+      topping_id: toppingId,
+      quantity: category.toppingQuantities?.[toppingId] || 1
+    }))
+  )
+});
+
+const buildPlaceOrderItems = (cart: CartItem[]): PlaceOrderItemPayload[] => {
+  return cart.map(item => {
+    const line = {
+      cart_item_id: item.id,
+      quantity: item.quantity,
+      unit_price: item.itemPrice,
+      special_instructions: item.specialInstructions || null
+    };
+
+    if (item.comboComponents) {
+      return {
+        ...line,
+        combo_id: item.menuItem.id,
+        components: item.comboComponents.map(component => ({
+          slot_id: component.slotId,
+          menu_item_id: component.menuItem.id,
+          special_instructions: component.specialInstructions || null,
+          ...buildChoicesPayload(component.selectedOptions, component.selectedToppings)
+        }))
+      };
+    }
+
+    return {
+      ...line,
+      menu_item_id: item.menuItem.id,
+      ...buildChoicesPayload(item.selectedOptions, item.selectedToppings)
+    };
+  });
+};
+
+const ORDER_SUBMISSION_ERROR_CODES: OrderSubmissionErrorCode[] = [
+  'PRICE_MISMATCH',
+  'ITEM_UNAVAILABLE',
+  'OPTION_UNAVAILABLE',
+  'TOPPING_UNAVAILABLE',
+  'EMPTY_ORDER',
+  'RESTAURANT_NOT_FOUND',
+  'TABLE_REQUIRED',
+  'TABLE_UNAVAILABLE',
+  'RESTAURANT_CLOSED',
+  'COMBO_UNAVAILABLE'
+];
+
+// place_order raises its error code as the message and a JSON payload as the detail
+const toOrderSubmissionError = (error: { message: string; details?: string | null }): OrderSubmissionError => {
+  const code = ORDER_SUBMISSION_ERROR_CODES.find(c => c === error.message);
+  if (!code) {
+    return new OrderSubmissionError(error.message || "Order could not be placed");
+  }
+
+  const details = safeJsonParse<{
+    cart_item_id?: string;
+    items?: { cart_item_id: string; menu_item_id: string | null; combo_id?: string | null; expected_price: number; actual_price: number }[];
+  }>(error.details || "{}", {});
+
+  return new OrderSubmissionError(code, code, {
+    cartItemId: details.cart_item_id,
+    priceMismatches: (details.items || []).map(item => ({
+      cartItemId: item.cart_item_id,
+      menuItemId: item.menu_item_id || item.combo_id,
+      expectedPrice: Number(item.expected_price),
+      actualPrice: Number(item.actual_price)
+    }))
+  });
+};
+
+const buildPlaceOrderArgs = (params: PlaceOrderParams) => ({
+  p_restaurant_id: params.restaurant_id,
+  p_items: buildPlaceOrderItems(params.cart),
+  p_order_type: params.order_type || undefined,
+  p_table_number: params.table_number || undefined,
+  p_customer_name: params.customer_name || undefined,
+  p_number_prefix: params.number_prefix || undefined,
+  p_idempotency_key: params.idempotency_key || undefined,
+  p_payment_method: params.payment_method || undefined,
+  p_table_token: params.table_token || undefined
+});
+
+type QueuedOrderPayload = ReturnType<typeof buildPlaceOrderArgs> & {
+  p_provisional_number: string;
+  p_placed_at: string;
+  // Not sent to place_order: the station tickets are printed once the order exists
+  kitchen_tickets?: { cart: CartItem[]; language: SupportedLanguage };
+};
+
+// Places the whole cart in one transaction; prices are recomputed server-side
+export const placeOrder = async (params: PlaceOrderParams): Promise<Order> => {
+  const { data, error } = await supabase.rpc('place_order', buildPlaceOrderArgs(params));
+
+  if (error) {
+    console.error("Error placing order:", error);
+    throw toOrderSubmissionError(error);
+  }
+
+  const order = data as unknown as Order;
+  return {
+    ...order,
+    status: order.status as OrderStatus,
+    order_type: order.order_type as OrderType
+  };
+};
+
+// Payment services
+const toPayment = (payment: Payment): Payment => ({
+  ...payment,
+  payment_method: payment.payment_method as PaymentMethod | null,
+  status: payment.status as PaymentStatus
+});
+
+const toOrder = (order: Order): Order => ({
+  ...order,
+  status: order.status as OrderStatus,
+  order_type: order.order_type as OrderType,
+  tax_breakdown: order.tax_breakdown as TaxRateSummary[],
+  applied_promotions: order.applied_promotions as AppliedPromotion[] | null
+});
+
+// Opens a pending card payment for an order placed with payment_method 'card'
+export const startCardPayment = async (orderId: string, provider: string): Promise<Payment> => {
+  const { data, error } = await supabase.rpc('start_card_payment', {
+    p_order_id: orderId,
+    p_provider: provider
+  });
+
+  if (error) {
+    console.error("Error starting card payment:", error);
+    throw error;
+  }
+
+  return toPayment(data as unknown as Payment);
+};
+
+// Records a terminal attempt that did not go through; the order keeps awaiting payment
+export const failCardPayment = async (
+  paymentId: string,
+  status: Extract<PaymentStatus, 'failed' | 'cancelled'>,
+  posResponse?: string | null
+): Promise<Order> => {
+  const { data, error } = await supabase.rpc('fail_card_payment', {
+    p_payment_id: paymentId,
+    p_status: status,
+    p_pos_response: posResponse || undefined
+  });
+
+  if (error) {
+    console.error("Error recording card payment:", error);
+    throw error;
+  }
+
+  return toOrder(data as unknown as Order);
+};
+
+// Has the card-payment edge function check an approved transaction with the terminal
+// provider; the order is released to the kitchen only once the provider confirms it
+export const confirmCardPayment = async (paymentId: string, transactionReference: string): Promise<Order> => {
+  const { data, error } = await supabase.functions.invoke("card-payment", {
+    body: { payment_id: paymentId, transaction_reference: transactionReference }
+  });
+
+  if (error) {
+    console.error("Error confirming card payment:", error);
+    throw error;
+  }
+
+  return toOrder(data.order as Order);
+};
+
+// Releases an order still awaiting a card payment, to be paid in cash at the counter.
+// The idempotency key the kiosk placed the order with proves it is that kiosk's order.
+export const payOrderAtCounter = async (order: Pick<Order, 'id' | 'idempotency_key'>): Promise<Order> => {
+  const { data, error } = await supabase.rpc('pay_order_at_counter', {
+    p_order_id: order.id,
+    p_idempotency_key: order.idempotency_key ?? ''
+  });
+
+  if (error) {
+    console.error("Error switching order to counter payment:", error);
+    throw error;
+  }
+
+  return toOrder(data as unknown as Order);
+};
+
+export const cancelUnpaidOrder = async (order: Pick<Order, 'id' | 'idempotency_key'>): Promise<void> => {
+  const { error } = await supabase.rpc('cancel_unpaid_order', {
+    p_order_id: order.id,
+    p_idempotency_key: order.idempotency_key ?? ''
+  });
+
+  if (error) {
+    console.error("Error cancelling unpaid order:", error);
+    throw error;
+  }
+};
+
+// Offline order queue
+export const OFFLINE_ORDER_REQUEST = 'place_order';
+
+export interface QueuedOrder {
+  idempotencyKey: string;
+  provisionalNumber: string;
+}
+
+// Short number printed on the customer's ticket until the real one is assigned
+const nextProvisionalNumber = (restaurantId: string): string => {
+  const storageKey = `offline-order-counter-${restaurantId}`;
+  const next = (parseInt(localStorage.getItem(storageKey) || "0", 10) || 0) + 1;
+  localStorage.setItem(storageKey, String(next));
+  return `P-${String(next).padStart(3, "0")}`;
+};
+
+// Stores the order on the device; the offline queue sends it once the kiosk is back online.
+// The customer already holds a ticket by then, so the replay is not price-checked. place_order
+// keeps p_placed_at for opening hours and promotions only if the replay comes within 12 hours.
+export const queueOfflineOrder = async (params: PlaceOrderParams, ticketLanguage: SupportedLanguage = 'fr'): Promise<QueuedOrder> => {
+  const idempotencyKey = params.idempotency_key || generateIdempotencyKey();
+  const provisionalNumber = nextProvisionalNumber(params.restaurant_id);
+  const args = buildPlaceOrderArgs({ ...params, idempotency_key: idempotencyKey });
+
+  await offlineRequestQueue.add<QueuedOrderPayload>(OFFLINE_ORDER_REQUEST, {
+    ...args,
+    p_items: args.p_items.map(item => ({ ...item, unit_price: null })),
+    p_provisional_number: provisionalNumber,
+    p_placed_at: new Date().toISOString(),
+    kitchen_tickets: { cart: params.cart, language: ticketLanguage }
+  }, idempotencyKey);
+
+  return { idempotencyKey, provisionalNumber };
+};
+
+offlineRequestQueue.registerHandler<QueuedOrderPayload>(OFFLINE_ORDER_REQUEST, async ({ kitchen_tickets, ...payload }) => {
+  const { data, error } = await supabase.rpc('place_order', payload);
+
+  if (error) {
+    console.error("Error replaying queued order:", error);
+    throw toOrderSubmissionError(error);
+  }
+
+  // Offline the kiosk only printed the customer's ticket; the stations get theirs now
+  if (kitchen_tickets) {
+    await queueReplayedOrderTickets(toOrder(data as unknown as Order), kitchen_tickets.cart, kitchen_tickets.language)
+      .catch(printError => console.error("Error queuing station tickets for replayed order:", printError));
+  }
+});
+
+const queueReplayedOrderTickets = async (order: Order, cart: CartItem[], language: SupportedLanguage): Promise<void> => {
+  const printSettings = await getPrintSettings(order.restaurant_id);
+  if (!printSettings.printnode_configured) return;
+
+  const orderNumber = order.provisional_number
+    ? `${order.order_number || order.id.slice(0, 8)} (${order.provisional_number})`
+    : order.order_number || order.id.slice(0, 8);
+
+  const jobs = await buildStationPrintJobs({
+    restaurantId: order.restaurant_id,
+    orderId: order.id,
+    orderNumber,
+    cart,
+    orderType: order.order_type || null,
+    tableNumber: order.table_number || null,
+    language
+  });
+  if (jobs.length === 0) return;
+
+  // Sent by the scheduled print-worker run
+  await enqueuePrintJobs(jobs);
+};
+
+export const getOrderById = async (id: string): Promise<Order | null> => {
+  const { data, error } = await supabase
+    .from("orders")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null;
+    }
+    console.error("Error fetching order by id:", error);
+    throw error;
+  }
+
+  return data ? {
+    ...data,
+    status: data.status as OrderStatus,
+    order_type: data.order_type as OrderType,
+    tax_breakdown: data.tax_breakdown as TaxRateSummary[],
+    applied_promotions: data.applied_promotions as AppliedPromotion[] | null
+  } : null;
+};
+
+export const getOrdersByRestaurantId = async (restaurantId: string): Promise<Order[]> => {
+  const { data, error } = await supabase
+    .from("orders")
+    .select("*")
+    .eq("restaurant_id", restaurantId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching orders by restaurant id:", error);
+    throw error;
+  }
+
+  return data.map(order => ({
+    ...order,
+    status: order.status as OrderStatus,
+    order_type: order.order_type as OrderType,
+    tax_breakdown: order.tax_breakdown as TaxRateSummary[],
+    applied_promotions: order.applied_promotions as AppliedPromotion[] | null
+  }));
+};
+
+export const updateOrderStatus = async (id: string, status: OrderStatus): Promise<Order> => {
+  const { data, error } = await supabase
+    .from("orders")
+    .update({ status })
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error updating order status:", error);
+    throw error;
+  }
+
+  return {
+    ...data,
+    status: data.status as OrderStatus,
+    order_type: data.order_type as OrderType,
+    tax_breakdown: data.tax_breakdown as TaxRateSummary[],
+    applied_promotions: data.applied_promotions as AppliedPromotion[] | null
+  };
+};
+
+// Kitchen display services
+export type KitchenOrderItem = {
+  id: string;
+  name: string;
+  quantity: number;
+  special_instructions: string | null;
+  options: { name: string; choice: string }[];
+  toppings: { category: string; names: string[] }[]; // grouped by topping category
+};
+
+export type KitchenOrder = Order & {
+  items: KitchenOrderItem[];
+};
+
+// Everything a ticket needs in a single round trip
+const KITCHEN_ORDER_SELECT = `
+  *,
+  order_items (
+    id,
+    quantity,
+    special_instructions,
+    combo_id,
+    menu_items ( name ),
+    order_item_options (
+      menu_item_options ( name ),
+      option_choices ( name )
+    ),
+    order_item_toppings (
+      toppings (
+        name,
+        topping_categories ( name )
+      )
+    )
+  )
+`;
+
+type KitchenOrderRow = {
+  order_items: {
+    id: string;
+    quantity: number;
+    special_instructions: string | null;
+    combo_id: string | null;
+    menu_items: { name: string } | null;
+    order_item_options: { menu_item_options: { name: string } | null; option_choices: { name: string } | null }[];
+    order_item_toppings: { toppings: { name: string; topping_categories: { name: string } | null } | null }[];
+  }[];
+};
+
+const toKitchenOrder = (row: Record<string, unknown>): KitchenOrder => {
+  const { order_items, ...order } = row as unknown as Order & KitchenOrderRow;
+
+  return {
+    ...order,
+    status: order.status as OrderStatus,
+    order_type: order.order_type as OrderType,
+    // The kitchen prepares a combo's components, listed as items of their own
+    items: (order_items || []).filter(item => !item.combo_id).map(item => {
+      const groups = new Map<string, string[]>();
+      item.order_item_toppings.forEach(({ toppings }) => {
+        if (!toppings) return;
+        const category = toppings.topping_categories?.name || "";
+        groups.set(category, [...(groups.get(category) || []), toppings.name]);
+      });
+
+      return {
+        id: item.id,
+        name: item.menu_items?.name || "Unknown Item",
+        quantity: item.quantity,
+        special_instructions: item.special_instructions,
+        options: item.order_item_options
+          .filter(option => option.option_choices)
+          .map(option => ({
+            name: option.menu_item_options?.name || "",
+            choice: option.option_choices!.name
+          })),
+        toppings: Array.from(groups, ([category, names]) => ({ category, names }))
+      };
+    })
+  };
+};
+
+export const getKitchenOrders = async (restaurantId: string, statuses: OrderStatus[]): Promise<KitchenOrder[]> => {
+  const { data, error } = await supabase
+    .from("orders")
+    .select(KITCHEN_ORDER_SELECT)
+    .eq("restaurant_id", restaurantId)
+    .in("status", statuses)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching kitchen orders:", error);
+    throw error;
+  }
+
+  return (data || []).map(row => toKitchenOrder(row as Record<string, unknown>));
+};
+
+export const getKitchenOrderById = async (id: string): Promise<KitchenOrder | null> => {
+  const { data, error } = await supabase
+    .from("orders")
+    .select(KITCHEN_ORDER_SELECT)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching kitchen order:", error);
+    throw error;
+  }
+
+  return data ? toKitchenOrder(data as Record<string, unknown>) : null;
+};
+
+// Receipt template services
+// Null when the restaurant still prints the default layout
+export const getReceiptTemplate = async (restaurantId: string): Promise<ReceiptTemplate | null> => {
+  const { data, error } = await supabase
+    .from("receipt_templates")
+    .select("*")
+    .eq("restaurant_id", restaurantId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching receipt template:", error);
+    throw error;
+  }
+
+  return data ? { ...data, paper_width: data.paper_width as PaperWidth } : null;
+};
+
+export const saveReceiptTemplate = async (template: ReceiptTemplate): Promise<ReceiptTemplate> => {
+  const { id, ...values } = template;
+  const { data, error } = await supabase
+    .from("receipt_templates")
+    .upsert(values, { onConflict: "restaurant_id" })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error saving receipt template:", error);
+    throw error;
+  }
+
+  return { ...data, paper_width: data.paper_width as PaperWidth };
+};
+
+// Order reprint services
+const REPRINT_ORDER_SELECT = `
+  *,
+  restaurants ( name, location, currency, ui_language, logo_url, prices_include_tax ),
+  order_items (
+    id,
+    quantity,
+    price,
+    special_instructions,
+    combo_id,
+    parent_order_item_id,
+    menu_items ( * ),
+    combos ( * ),
+    order_item_options (
+      menu_item_options ( id, name, required, multiple ),
+      option_choices ( id, name, price )
+    ),
+    order_item_toppings (
+      toppings (
+        id,
+        name,
+        price,
+        tax_percentage,
+        takeaway_tax_percentage,
+        topping_categories ( id, name, allow_multiple_same_topping )
+      )
+    )
+  )
+`;
+
+type ReprintOrderRow = Order & {
+  restaurants: ReprintableOrder['restaurant'];
+  order_items: {
+    id: string;
+    quantity: number;
+    price: number;
+    special_instructions: string | null;
+    combo_id: string | null;
+    parent_order_item_id: string | null;
+    menu_items: MenuItem | null;
+    combos: Combo | null;
+    order_item_options: {
+      menu_item_options: { id: string; name: string; required: boolean | null; multiple: boolean | null } | null;
+      option_choices: { id: string; name: string; price: number | null } | null;
+    }[];
+    order_item_toppings: {
+      toppings: {
+        id: string;
+        name: string;
+        price: number;
+        tax_percentage: number | null;
+        takeaway_tax_percentage: number | null;
+        topping_categories: { id: string; name: string; allow_multiple_same_topping: boolean } | null;
+      } | null;
+    }[];
+  }[];
+};
+
+export type ReprintableOrder = {
+  order: Order;
+  restaurant: {
+    name: string;
+    location: string | null;
+    currency: string | null;
+    ui_language: string | null;
+    logo_url: string | null;
+    prices_include_tax: boolean;
+  } | null;
+  cart: CartItem[];
+};
+
+// Rebuilds the cart of a stored order so the receipt templates can print it again.
+// Menu items keep their current names; prices come from the order itself.
+const toReprintCartItem = (item: ReprintOrderRow['order_items'][number]): CartItem => {
+  const options: MenuItemWithOptions['options'] = [];
+  item.order_item_options.forEach(({ menu_item_options: option, option_choices: choice }) => {
+    if (!option || !choice) return;
+    let optionDef = options.find(o => o.id === option.id);
+    if (!optionDef) {
+      optionDef = { ...option, choices: [] };
+      options.push(optionDef);
+    }
+    optionDef.choices.push(choice);
+  });
+
+  // One order_item_toppings row per unit, so repeated rows are a quantity
+  const toppingCategories: MenuItemWithOptions['toppingCategories'] = [];
+  const selectedToppings: CartItem['selectedToppings'] = [];
+  item.order_item_toppings.forEach(({ toppings: topping }) => {
+    const category = topping?.topping_categories;
+    if (!topping || !category) return;
+
+    let categoryDef = toppingCategories.find(c => c.id === category.id);
+    let selected = selectedToppings.find(c => c.categoryId === category.id);
+    if (!categoryDef) {
+      categoryDef = { ...category, min_selections: 0, max_selections: 0, required: false, toppings: [] };
+      toppingCategories.push(categoryDef);
+      selected = { categoryId: category.id, toppingIds: [], toppingQuantities: {} };
+      selectedToppings.push(selected);
+    }
+
+    if (!selected.toppingIds.includes(topping.id)) {
+      categoryDef.toppings.push(topping);
+      selected.toppingIds.push(topping.id);
+    }
+    selected.toppingQuantities[topping.id] = (selected.toppingQuantities[topping.id] || 0) + 1;
+  });
+
+  return {
+    id: item.id,
+    menuItem: {
+      ...(item.menu_items || (item.combos && toComboMenuItem(item.combos)) || { name: "Unknown Item" } as MenuItem),
+      options,
+      toppingCategories
+    },
+    quantity: item.quantity,
+    selectedOptions: options.map(option => ({ optionId: option.id, choiceIds: option.choices.map(c => c.id) })),
+    selectedToppings,
+    specialInstructions: item.special_instructions || undefined,
+    itemPrice: Number(item.price)
+  };
+};
+
+export const getOrderForReprint = async (orderId: string): Promise<ReprintableOrder> => {
+  const { data, error } = await supabase
+    .from("orders")
+    .select(REPRINT_ORDER_SELECT)
+    .eq("id", orderId)
+    .single();
+
+  if (error) {
+    console.error("Error fetching order for reprint:", error);
+    throw error;
+  }
+
+  const { restaurants, order_items, ...order } = data as unknown as ReprintOrderRow;
+
+  // Component lines are printed under their combo line
+  const cart = order_items
+    .filter(item => !item.parent_order_item_id)
+    .map(item => {
+      const cartItem = toReprintCartItem(item);
+      if (!item.combo_id) return cartItem;
+
+      return {
+        ...cartItem,
+        comboComponents: order_items
+          .filter(component => component.parent_order_item_id === item.id)
+          .map(component => {
+            const { menuItem, selectedOptions, selectedToppings, specialInstructions } = toReprintCartItem(component);
+            return { slotId: "", slotName: "", menuItem, selectedOptions, selectedToppings, specialInstructions, upcharge: 0 };
+          })
+      };
+    });
+
+  return {
+    order: order as Order,
+    restaurant: restaurants,
+    cart
+  };
+};
+
+// Order status board services
+export const getOrderStatusBoard = async (restaurantId: string): Promise<OrderStatusBoardEntry[]> => {
+  const { data, error } = await supabase
+    .from("order_status_board")
+    .select("*")
+    .eq("restaurant_id", restaurantId)
+    .in("status", ["pending", "preparing", "ready", "completed"])
+    .order("updated_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching order status board:", error);
+    throw error;
+  }
+
+  return (data || []).map(entry => ({
+    ...entry,
+    status: entry.status as OrderStatus
+  }));
+};
+
+// Restaurant table services
+// Anonymous kiosks only see the active tables
+export const getRestaurantTables = async (restaurantId: string): Promise<RestaurantTable[]> => {
+  const { data, error } = await supabase
+    .from("restaurant_tables")
+    .select("*")
+    .eq("restaurant_id", restaurantId)
+    .order("display_order", { ascending: true })
+    .order("table_number", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching restaurant tables:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const createRestaurantTables = async (tables: Omit<RestaurantTable, 'id' | 'created_at' | 'updated_at'>[]): Promise<RestaurantTable[]> => {
+  const { data, error } = await supabase
+    .from("restaurant_tables")
+    .insert(tables)
+    .select();
+
+  if (error) {
+    console.error("Error creating restaurant tables:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const updateRestaurantTable = async (id: string, updates: Partial<Omit<RestaurantTable, 'id' | 'restaurant_id' | 'created_at' | 'updated_at'>>): Promise<RestaurantTable> => {
+  const { data, error } = await supabase
+    .from("restaurant_tables")
+    .update(updates)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error updating restaurant table:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+// Tokens printed in the table QR codes, by table id; only the restaurant's owners can read them
+export const getTableQrTokens = async (restaurantId: string): Promise<Record<string, string>> => {
+  const { data, error } = await supabase
+    .from("restaurant_table_tokens")
+    .select("table_id, token")
+    .eq("restaurant_id", restaurantId);
+
+  if (error) {
+    console.error("Error fetching table QR tokens:", error);
+    throw error;
+  }
+
+  return Object.fromEntries(data.map(row => [row.table_id, row.token]));
+};
+
+// Replaces the table's token with a new random one; QR codes printed before stop working
+export const regenerateTableQrToken = async (table: RestaurantTable): Promise<string> => {
+  const { error: deleteError } = await supabase
+    .from("restaurant_table_tokens")
+    .delete()
+    .eq("table_id", table.id);
+
+  if (deleteError) {
+    console.error("Error revoking table QR token:", deleteError);
+    throw deleteError;
+  }
+
+  const { data, error } = await supabase
+    .from("restaurant_table_tokens")
+    .insert({ table_id: table.id, restaurant_id: table.restaurant_id })
+    .select("token")
+    .single();
+
+  if (error) {
+    console.error("Error creating table QR token:", error);
+    throw error;
+  }
+
+  return data.token;
+};
+
+// The table behind a QR code token, null when the token is unknown or the table is inactive
+export const resolveTableToken = async (restaurantId: string, token: string): Promise<Pick<RestaurantTable, 'id' | 'table_number'> | null> => {
+  const { data, error } = await supabase.rpc('resolve_table_token', {
+    p_restaurant_id: restaurantId,
+    p_token: token
+  });
+
+  if (error) {
+    console.error("Error resolving table token:", error);
+    throw error;
+  }
+
+  return data as unknown as Pick<RestaurantTable, 'id' | 'table_number'> | null;
+};
+
+// Whether dine-in customers must give a table number (restaurant_print_config.require_table_selection)
+export const isTableSelectionRequired = async (restaurantId: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('is_table_selection_required', { p_restaurant_id: restaurantId });
+
+  if (error) {
+    console.error("Error fetching table selection setting:", error);
+    throw error;
+  }
+
+  return !!data;
+};
+
+export const setTableSelectionRequired = async (restaurantId: string, required: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from("restaurant_print_config")
+    .upsert({ restaurant_id: restaurantId, require_table_selection: required }, { onConflict: "restaurant_id" });
+
+  if (error) {
+    console.error("Error saving table selection setting:", error);
+    throw error;
+  }
+};
+
+// Kitchen station services
+export type KitchenStationWithPrinter = KitchenStation & {
+  printer: { id: string; name: string; printnode_printer_id: string | null } | null;
+};
+
+export const getKitchenStations = async (restaurantId: string): Promise<KitchenStationWithPrinter[]> => {
+  const { data, error } = await supabase
+    .from("kitchen_stations")
+    .select("*, printer:restaurant_printers ( id, name, printnode_printer_id )")
+    .eq("restaurant_id", restaurantId)
+    .order("display_order", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching kitchen stations:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const createKitchenStation = async (station: Omit<KitchenStation, 'id' | 'created_at' | 'updated_at'>): Promise<KitchenStation> => {
+  const { data, error } = await supabase
+    .from("kitchen_stations")
+    .insert(station)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating kitchen station:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const updateKitchenStation = async (id: string, updates: Partial<Omit<KitchenStation, 'id' | 'created_at' | 'updated_at'>>): Promise<KitchenStation> => {
+  const { data, error } = await supabase
+    .from("kitchen_stations")
+    .update(updates)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error updating kitchen station:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const deleteKitchenStation = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("kitchen_stations")
+    .delete()
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error deleting kitchen station:", error);
     throw error;
   }
-
-  return data;
 };
 
-// Option Choices services
-export const getOptionChoices = async (optionId: string): Promise<OptionChoice[]> => {
-  const { data, error } = await supabase
-    .from("option_choices")
-    .select("*")
-    .eq("option_id", optionId);
+export const setCategoryStation = async (categoryId: string, stationId: string | null): Promise<void> => {
+  const { error } = await supabase
+    .from("menu_categories")
+    .update({ station_id: stationId })
+    .eq("id", categoryId);
 
   if (error) {
-    console.error("Error fetching option choices:", error);
+    console.error("Error assigning category to station:", error);
     throw error;
   }
-
-  return data;
 };
 
-// Order services
-interface CreateOrderParams {
-  restaurant_id: string;
-  customer_name: string | null;
-  status: string;
-  total: number;
-  order_type?: string;
-  table_number?: string;
-}
+// Returns the restaurant_printers row for a PrintNode printer, registering it if needed
+export const ensureRestaurantPrinter = async (restaurantId: string, printnodePrinterId: string, name: string): Promise<string> => {
+  const { data: existing, error: fetchError } = await supabase
+    .from("restaurant_printers")
+    .select("id")
+    .eq("restaurant_id", restaurantId)
+    .eq("printnode_printer_id", printnodePrinterId)
+    .maybeSingle();
 
-export const createOrder = async (params: CreateOrderParams): Promise<any> => {
-  try {
-    const { data, error } = await supabase
-      .from('orders')
-      .insert({
-        restaurant_id: params.restaurant_id,
-        customer_name: params.customer_name,
-        status: params.status,
-        total: params.total,
-        order_type: params.order_type,
-        table_number: params.table_number
-      })
-      .select()
-      .single();
+  if (fetchError) {
+    console.error("Error fetching restaurant printer:", fetchError);
+    throw fetchError;
+  }
 
-    if (error) throw error;
-    return data;
-  } catch (error) {
-    console.error('Error creating order:', error);
-    throw error;
+  if (existing) {
+    return existing.id;
   }
-};
 
-export const getOrderById = async (id: string): Promise<Order | null> => {
   const { data, error } = await supabase
-    .from("orders")
-    .select("*")
-    .eq("id", id)
+    .from("restaurant_printers")
+    .insert({ restaurant_id: restaurantId, printnode_printer_id: printnodePrinterId, name, is_active: true })
+    .select("id")
     .single();
 
   if (error) {
-    if (error.code === 'PGRST116') {
-      return null;
-    }
-    console.error("Error fetching order by id:", error);
+    console.error("Error registering restaurant printer:", error);
     throw error;
   }
 
-  return data ? {
-    ...data,
-    status: data.status as OrderStatus,
-    order_type: data.order_type as OrderType
-  } : null;
+  return data.id;
 };
 
-export const getOrdersByRestaurantId = async (restaurantId: string): Promise<Order[]> => {
-  const { data, error } = await supabase
-    .from("orders")
-    .select("*")
-    .eq("restaurant_id", restaurantId)
-    .order("created_at", { ascending: false });
+// Category -> PrintNode printer map used to split an order into station tickets
+export const getStationPrintRouting = async (restaurantId: string) => {
+  const [stations, { data: categories, error }] = await Promise.all([
+    getKitchenStations(restaurantId),
+    supabase.from("menu_categories").select("id, station_id").eq("restaurant_id", restaurantId)
+  ]);
 
   if (error) {
-    console.error("Error fetching orders by restaurant id:", error);
+    console.error("Error fetching category stations:", error);
     throw error;
   }
 
-  return data.map(order => ({
-    ...order,
-    status: order.status as OrderStatus,
-    order_type: order.order_type as OrderType
-  }));
+  const categoryStations: Record<string, string> = {};
+  (categories || []).forEach(category => {
+    if (category.station_id) categoryStations[category.id] = category.station_id;
+  });
+
+  return { stations, categoryStations };
 };
 
-export const updateOrderStatus = async (id: string, status: OrderStatus): Promise<Order> => {
+// One kitchen ticket per station printer, with only the items of the categories routed to it
+export const buildStationPrintJobs = async (params: {
+  restaurantId: string;
+  orderId: string | null;
+  orderNumber: string;
+  cart: CartItem[];
+  orderType: OrderType | null;
+  tableNumber: string | null;
+  language: SupportedLanguage;
+}): Promise<NewPrintJob[]> => {
+  const { stations, categoryStations } = await getStationPrintRouting(params.restaurantId);
+  const items = expandComboComponents(params.cart);
+  const t = createReceiptTranslator(params.language);
+  const jobs: NewPrintJob[] = [];
+
+  for (const station of stations) {
+    const printerId = station.printer?.printnode_printer_id;
+    if (!printerId) continue;
+
+    const stationItems = items.filter(item => categoryStations[item.menuItem.category_id] === station.id);
+    if (stationItems.length === 0) continue;
+
+    jobs.push({
+      restaurant_id: params.restaurantId,
+      order_id: params.orderId,
+      job_type: 'kitchen',
+      printer_id: printerId,
+      printer_name: station.printer.name,
+      title: `Order #${params.orderNumber} - ${station.name}`,
+      content_base64: encodePrintContent(generateKitchenTicket(
+        stationItems,
+        station.name,
+        params.orderType,
+        params.tableNumber,
+        params.orderNumber,
+        t,
+        params.language
+      ))
+    });
+  }
+
+  return jobs;
+};
+
+// Print job services
+export type NewPrintJob = Pick<PrintJob, 'restaurant_id' | 'job_type' | 'printer_id' | 'title' | 'content_base64'> &
+  Partial<Pick<PrintJob, 'order_id' | 'printer_name' | 'reprint_of'>>;
+
+export const enqueuePrintJobs = async (jobs: NewPrintJob[]): Promise<PrintJob[]> => {
+  if (jobs.length === 0) return [];
+
   const { data, error } = await supabase
-    .from("orders")
-    .update({ status })
-    .eq("id", id)
-    .select()
-    .single();
+    .from("print_jobs")
+    .insert(jobs)
+    .select();
 
   if (error) {
-    console.error("Error updating order status:", error);
+    console.error("Error queuing print jobs:", error);
     throw error;
   }
 
-  return {
-    ...data,
-    status: data.status as OrderStatus,
-    order_type: data.order_type as OrderType
-  };
+  return data as PrintJob[];
 };
 
-// Order Item services
-export const createOrderItems = async (items: Omit<OrderItem, 'id' | 'created_at' | 'updated_at'>[]): Promise<OrderItem[]> => {
-  const { data, error } = await supabase
-    .from("order_items")
-    .insert(items)
-    .select();
+// Asks the print-worker edge function to send the restaurant's due jobs now
+// rather than on its next scheduled run; only the restaurant's owners and admins may
+export const dispatchPrintJobs = async (restaurantId: string): Promise<void> => {
+  const { error } = await supabase.functions.invoke("print-worker", {
+    body: { restaurant_id: restaurantId }
+  });
 
   if (error) {
-    console.error("Error creating order items:", error);
+    console.error("Error dispatching print jobs:", error);
     throw error;
   }
+};
 
-  return data;
+export const getPrintSettings = async (restaurantId: string): Promise<PrintSettings> => {
+  const { data, error } = await supabase.rpc('get_print_settings', { p_restaurant_id: restaurantId });
+
+  if (error) {
+    console.error("Error fetching print settings:", error);
+    throw error;
+  }
+
+  const settings = data as unknown as PrintSettings;
+  return {
+    ...settings,
+    configured_printers: (Array.isArray(settings.configured_printers) ? settings.configured_printers : []).map(id => String(id))
+  };
 };
 
-// Order Item Options services
-export const createOrderItemOptions = async (options: Omit<OrderItemOption, 'id' | 'created_at' | 'updated_at'>[]): Promise<OrderItemOption[]> => {
-  const { data, error } = await supabase
-    .from("order_item_options")
-    .insert(options)
-    .select();
+// Printers reachable with the restaurant's PrintNode key, or with a new key before it is saved
+export const getPrintNodePrinters = async (restaurantId: string, apiKey?: string): Promise<PrintNodePrinter[]> => {
+  const { data, error } = await supabase.functions.invoke("printnode-printers", {
+    body: { restaurant_id: restaurantId, api_key: apiKey }
+  });
 
   if (error) {
-    console.error("Error creating order item options:", error);
+    console.error("Error fetching PrintNode printers:", error);
     throw error;
   }
 
-  return data;
+  return data.printers as PrintNodePrinter[];
 };
 
-// Order Item Toppings services
-export const createOrderItemToppings = async (toppings: Array<{order_item_id: string, topping_id: string}>): Promise<any> => {
+export const getPrintJobs = async (restaurantId: string, limit: number = 50): Promise<PrintJob[]> => {
   const { data, error } = await supabase
-    .from("order_item_toppings")
-    .insert(toppings)
-    .select();
+    .from("print_jobs")
+    .select("*")
+    .eq("restaurant_id", restaurantId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
 
   if (error) {
-    console.error("Error creating order item toppings:", error);
+    console.error("Error fetching print jobs:", error);
     throw error;
   }
 
-  return data;
+  return data as PrintJob[];
+};
+
+export const reprintJob = async (job: PrintJob): Promise<PrintJob> => {
+  const [copy] = await enqueuePrintJobs([{
+    restaurant_id: job.restaurant_id,
+    order_id: job.order_id,
+    job_type: job.job_type,
+    printer_id: job.printer_id,
+    printer_name: job.printer_name,
+    title: job.title,
+    content_base64: job.content_base64,
+    reprint_of: job.reprint_of || job.id
+  }]);
+
+  await dispatchPrintJobs(job.restaurant_id);
+  return copy;
 };
 
 // Helper function to get a complete menu item with its options and choices
@@ -583,7 +2173,17 @@ export const getMenuItemsWithOptionsBatch = async (itemIds: string[]): Promise<{
               name,
               price,
               tax_percentage,
+              takeaway_tax_percentage,
               display_order,
+              allergens,
+              dietary_tags,
+              spicy_level,
+              calories,
+              protein,
+              carbohydrates,
+              fat,
+              stock_quantity,
+              low_stock_threshold,
               name_fr,
               name_en,
               name_tr,
@@ -664,8 +2264,18 @@ export const getMenuItemsWithOptionsBatch = async (itemIds: string[]): Promise<{
           id: topping.id,
           name: topping.name,
           price: topping.price || 0,
-          tax_percentage: topping.tax_percentage || 10,
+          tax_percentage: topping.tax_percentage ?? null,
+          takeaway_tax_percentage: topping.takeaway_tax_percentage ?? null,
           display_order: topping.display_order,
+          allergens: topping.allergens,
+          dietary_tags: topping.dietary_tags,
+          spicy_level: topping.spicy_level,
+          calories: topping.calories,
+          protein: topping.protein,
+          carbohydrates: topping.carbohydrates,
+          fat: topping.fat,
+          stock_quantity: topping.stock_quantity,
+          low_stock_threshold: topping.low_stock_threshold,
           name_fr: topping.name_fr,
           name_en: topping.name_en,
           name_tr: topping.name_tr,
@@ -711,15 +2321,20 @@ export const getMenuItemsWithOptionsBatch = async (itemIds: string[]): Promise<{
 };
 
 // Helper function to get all menu items for a restaurant with their categories
-export const getMenuForRestaurant = async (restaurantId: string) => {
-  const categories = await getCategoriesByRestaurantId(restaurantId);
+// Every category with its items, whatever the menu schedules say
+export const getFullMenuForRestaurant = async (restaurantId: string) => {
+  const [categories, combos] = await Promise.all([
+    getCategoriesByRestaurantId(restaurantId),
+    getCombosForRestaurant(restaurantId)
+  ]);
   
   const categoriesWithItems = await Promise.all(
     categories.map(async (category) => {
       const items = await getMenuItemsByCategory(category.id);
       return {
         ...category,
-        items
+        items,
+        combos: combos.filter(combo => combo.category_id === category.id)
       };
     })
   );
@@ -727,6 +2342,16 @@ export const getMenuForRestaurant = async (restaurantId: string) => {
   return categoriesWithItems;
 };
 
+// The categories the kiosk shows at a given time, following the restaurant's menu schedules
+export const getMenuForRestaurant = async (restaurantId: string, at: Date = new Date()) => {
+  const [menu, schedule] = await Promise.all([
+    getFullMenuForRestaurant(restaurantId),
+    getMenuSchedule(restaurantId)
+  ]);
+
+  return filterCategoriesBySchedule(menu, schedule, getLocalDateTime(schedule.timezone, at));
+};
+
 // Helper function to get order items for a specific order
 export const getOrderItemsByOrderId = async (orderId: string) => {
   const { data, error } = await supabase
@@ -893,6 +2518,175 @@ export const getToppingsForRestaurant = async (restaurantId: string) => {
   return categoriesWithToppings;
 };
 
+// Stock services
+// Puts tracked menu items and toppings back to their par level; the daily reset does the same
+export const resetStockToPar = async (restaurantId: string): Promise<void> => {
+  const { error } = await supabase.rpc('reset_stock_to_par', { p_restaurant_id: restaurantId });
+
+  if (error) {
+    console.error("Error resetting stock to par levels:", error);
+    throw error;
+  }
+};
+
+const toIngredient = (ingredient: Omit<Ingredient, 'unit'> & { unit: string }): Ingredient => ({
+  ...ingredient,
+  unit: ingredient.unit as IngredientUnit
+});
+
+export const getIngredientsForRestaurant = async (restaurantId: string): Promise<Ingredient[]> => {
+  const { data, error } = await supabase
+    .from("ingredients")
+    .select("*")
+    .eq("restaurant_id", restaurantId)
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching ingredients:", error);
+    throw error;
+  }
+
+  return data.map(toIngredient);
+};
+
+export const createIngredient = async (
+  ingredient: Pick<Ingredient, 'restaurant_id' | 'name' | 'unit' | 'low_stock_threshold'>
+): Promise<Ingredient> => {
+  const { data, error } = await supabase
+    .from("ingredients")
+    .insert(ingredient)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating ingredient:", error);
+    throw error;
+  }
+
+  return toIngredient(data);
+};
+
+// The stock itself only changes through adjustIngredientStock, so every change is logged
+export const updateIngredient = async (
+  id: string,
+  updates: Partial<Pick<Ingredient, 'name' | 'unit' | 'low_stock_threshold'>>
+): Promise<Ingredient> => {
+  const { data, error } = await supabase
+    .from("ingredients")
+    .update(updates)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error updating ingredient:", error);
+    throw error;
+  }
+
+  return toIngredient(data);
+};
+
+export const deleteIngredient = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("ingredients")
+    .delete()
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error deleting ingredient:", error);
+    throw error;
+  }
+};
+
+// For a count, quantity is what was counted; otherwise it is added (negative for waste)
+export const adjustIngredientStock = async (
+  ingredientId: string,
+  quantity: number,
+  reason: Exclude<IngredientAdjustmentReason, 'order' | 'cancellation'>,
+  note?: string
+): Promise<Ingredient> => {
+  const { data, error } = await supabase.rpc('adjust_ingredient_stock', {
+    p_ingredient_id: ingredientId,
+    p_quantity: quantity,
+    p_reason: reason,
+    p_note: note || null
+  });
+
+  if (error) {
+    console.error("Error adjusting ingredient stock:", error);
+    throw error;
+  }
+
+  return toIngredient(data);
+};
+
+export const getIngredientAdjustments = async (ingredientId: string, limit: number = 20): Promise<IngredientAdjustment[]> => {
+  const { data, error } = await supabase
+    .from("ingredient_adjustments")
+    .select("*")
+    .eq("ingredient_id", ingredientId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("Error fetching ingredient adjustments:", error);
+    throw error;
+  }
+
+  return data.map(adjustment => ({ ...adjustment, reason: adjustment.reason as IngredientAdjustmentReason }));
+};
+
+// The recipe of a menu item or of a topping
+export type RecipeTarget = { menuItemId: string } | { toppingId: string };
+
+const recipeColumn = (target: RecipeTarget) =>
+  'menuItemId' in target
+    ? { column: "menu_item_id" as const, id: target.menuItemId }
+    : { column: "topping_id" as const, id: target.toppingId };
+
+export const getRecipe = async (target: RecipeTarget): Promise<RecipeIngredient[]> => {
+  const { column, id } = recipeColumn(target);
+  const { data, error } = await supabase
+    .from("recipe_ingredients")
+    .select("*")
+    .eq(column, id);
+
+  if (error) {
+    console.error("Error fetching recipe:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+// Replaces the whole recipe
+export const setRecipe = async (
+  target: RecipeTarget,
+  lines: Pick<RecipeIngredient, 'ingredient_id' | 'quantity'>[]
+): Promise<void> => {
+  const { column, id } = recipeColumn(target);
+  const { error: deleteError } = await supabase
+    .from("recipe_ingredients")
+    .delete()
+    .eq(column, id);
+
+  if (deleteError) {
+    console.error("Error deleting recipe:", deleteError);
+    throw deleteError;
+  }
+
+  if (lines.length === 0) return;
+
+  const { error } = await supabase
+    .from("recipe_ingredients")
+    .insert(lines.map(line => ({ ...line, [column]: id })));
+
+  if (error) {
+    console.error("Error saving recipe:", error);
+    throw error;
+  }
+};
+
 export const duplicateRestaurant = async (restaurantId: string): Promise<Restaurant> => {
   console.log("Duplicating restaurant:", restaurantId);
   
@@ -921,3 +2715,134 @@ export const duplicateRestaurant = async (restaurantId: string): Promise<Restaur
 
   return newRestaurant;
 };
+
+// Menu bundle services
+export const getMenuSnapshot = async (restaurantId: string): Promise<MenuSnapshot> => {
+  const [categories, toppingCategories] = await Promise.all([
+    getCategoriesByRestaurantId(restaurantId),
+    getToppingCategoriesByRestaurantId(restaurantId)
+  ]);
+  const items = await getMenuItemsByCategoryIds(categories.map(category => category.id));
+
+  let toppings: Topping[] = [];
+  if (toppingCategories.length > 0) {
+    const { data, error } = await supabase
+      .from("toppings")
+      .select("*")
+      .in("category_id", toppingCategories.map(category => category.id))
+      .order("display_order", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching toppings:", error);
+      throw error;
+    }
+    toppings = data;
+  }
+
+  let links: MenuItemToppingCategory[] = [];
+  if (items.length > 0) {
+    const { data, error } = await supabase
+      .from("menu_item_topping_categories")
+      .select("*")
+      .in("menu_item_id", items.map(item => item.id));
+
+    if (error) {
+      console.error("Error fetching menu item topping category relations:", error);
+      throw error;
+    }
+    links = data;
+  }
+
+  return { categories, items, toppingCategories, toppings, links };
+};
+
+// Restaurant group services
+export const getRestaurantGroups = async (): Promise<RestaurantGroup[]> => {
+  const { data, error } = await supabase
+    .from("restaurant_groups")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching restaurant groups:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+// The master restaurant joins the group before it is set as its master
+export const createRestaurantGroup = async (name: string, masterRestaurantId: string): Promise<RestaurantGroup> => {
+  const { data, error } = await supabase
+    .from("restaurant_groups")
+    .insert({ name })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating restaurant group:", error);
+    throw error;
+  }
+
+  await setRestaurantGroup(masterRestaurantId, data.id);
+  return updateRestaurantGroup(data.id, { master_restaurant_id: masterRestaurantId });
+};
+
+export const updateRestaurantGroup = async (
+  groupId: string,
+  updates: Partial<Pick<RestaurantGroup, 'name' | 'master_restaurant_id'>>
+): Promise<RestaurantGroup> => {
+  const { data, error } = await supabase
+    .from("restaurant_groups")
+    .update(updates)
+    .eq("id", groupId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error updating restaurant group:", error);
+    throw error;
+  }
+
+  return data;
+};
+
+// Its restaurants stay, without a group
+export const deleteRestaurantGroup = async (groupId: string): Promise<void> => {
+  const { error } = await supabase
+    .from("restaurant_groups")
+    .delete()
+    .eq("id", groupId);
+
+  if (error) {
+    console.error("Error deleting restaurant group:", error);
+    throw error;
+  }
+};
+
+export const setRestaurantGroup = async (restaurantId: string, groupId: string | null): Promise<void> => {
+  const { error } = await supabase
+    .from("restaurants")
+    .update({ group_id: groupId })
+    .eq("id", restaurantId);
+
+  if (error) {
+    console.error("Error updating restaurant group:", error);
+    throw error;
+  }
+};
+
+export const getGroupRestaurants = async (groupId: string): Promise<Pick<Restaurant, 'id' | 'name'>[]> => {
+  const { data, error } = await supabase
+    .from("restaurants")
+    .select("id, name")
+    .eq("group_id", groupId)
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching group restaurants:", error);
+    throw error;
+  }
+
+  return data;
+};
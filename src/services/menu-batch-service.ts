@@ -118,9 +118,19 @@ export const batchGetMenuItemsWithOptions = async (itemIds: string[]): Promise<B
               id: topping.id,
               name: topping.name,
               price: Number(topping.price),
-              tax_percentage: Number(topping.tax_percentage),
+              tax_percentage: topping.tax_percentage ?? null,
+              takeaway_tax_percentage: topping.takeaway_tax_percentage ?? null,
               display_order: topping.display_order || 0,
               in_stock: topping.in_stock,
+              allergens: topping.allergens,
+              dietary_tags: topping.dietary_tags,
+              spicy_level: topping.spicy_level,
+              calories: topping.calories,
+              protein: topping.protein,
+              carbohydrates: topping.carbohydrates,
+              fat: topping.fat,
+              stock_quantity: topping.stock_quantity,
+              low_stock_threshold: topping.low_stock_threshold,
               // Include multilingual fields
               name_en: topping.name_en,
               name_fr: topping.name_fr,
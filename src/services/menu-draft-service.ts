@@ -0,0 +1,527 @@
+import { supabase } from "@/integrations/supabase/client";
+import { MenuCategory, MenuItem, MenuVersion, Topping, ToppingCategory } from "@/types/database-types";
+import { getGroupRestaurants, getMenuSnapshot } from "@/services/kiosk-service";
+import { MenuDraftConflictError } from "@/utils/error-handler";
+import {
+  MenuBundle,
+  MenuImportKind,
+  MenuImportPlan,
+  MenuSnapshot,
+  BundleCategory,
+  BundleItem,
+  BundleTopping,
+  BundleToppingCategory,
+  LIVE_FIELDS,
+  MasterLink,
+  applyMenuImportPlan,
+  buildMenuBundle,
+  bundleToSnapshot,
+  keepMasterRows,
+  mergeMasterMenu,
+  planMenuImport,
+  resetMasterOverrides,
+  toBundleRow
+} from "@/utils/menu-bundle";
+
+// The menu tabs edit the restaurant's draft, a menu version holding the whole menu as a bundle.
+// Kiosks keep reading the menu tables until the draft is published.
+
+// A loaded draft is reused for this long before reading it again
+const DRAFT_MAX_AGE_MS = 30 * 1000;
+
+const drafts = new Map<string, { draft: MenuVersion; loadedAt: number }>();
+
+const toMenuVersion = (row: Omit<MenuVersion, 'status' | 'content'> & { status: string; content: unknown }): MenuVersion => ({
+  ...row,
+  status: row.status as MenuVersion['status'],
+  content: row.content as MenuBundle
+});
+
+const fetchDraft = async (restaurantId: string): Promise<MenuVersion | null> => {
+  const { data, error } = await supabase
+    .from("menu_versions")
+    .select("*")
+    .eq("restaurant_id", restaurantId)
+    .in("status", ["draft", "scheduled"])
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching menu draft:", error);
+    throw error;
+  }
+
+  return data ? toMenuVersion(data) : null;
+};
+
+const fetchPublished = async (restaurantId: string): Promise<MenuVersion | null> => {
+  const { data, error } = await supabase
+    .from("menu_versions")
+    .select("*")
+    .eq("restaurant_id", restaurantId)
+    .eq("status", "published")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching published menu version:", error);
+    throw error;
+  }
+
+  return data ? toMenuVersion(data) : null;
+};
+
+const getLiveBundle = async (restaurantId: string): Promise<MenuBundle> => {
+  const [{ data: restaurant }, snapshot] = await Promise.all([
+    supabase.from("restaurants").select("name").eq("id", restaurantId).maybeSingle(),
+    getMenuSnapshot(restaurantId)
+  ]);
+  return buildMenuBundle(restaurant?.name ?? "", snapshot);
+};
+
+// The first published version of a restaurant is recorded from the live menu, so there is
+// something to roll back to
+const ensurePublished = async (restaurantId: string, liveContent?: MenuBundle): Promise<MenuVersion> => {
+  const published = await fetchPublished(restaurantId);
+  if (published) return published;
+
+  const content = liveContent ?? (await getLiveBundle(restaurantId));
+  const { data, error } = await supabase
+    .from("menu_versions")
+    .insert({ restaurant_id: restaurantId, status: "published", published_at: new Date().toISOString(), content })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      const recorded = await fetchPublished(restaurantId);
+      if (recorded) return recorded;
+    }
+    console.error("Error recording published menu version:", error);
+    throw error;
+  }
+
+  return toMenuVersion(data);
+};
+
+// Starts a draft from the live menu. Group locations keep following their master menu.
+const createDraft = async (restaurantId: string): Promise<MenuVersion> => {
+  const content = await getLiveBundle(restaurantId);
+  const published = await ensurePublished(restaurantId, content);
+  if (published.content.master) content.master = published.content.master;
+
+  const { data, error } = await supabase
+    .from("menu_versions")
+    .insert({ restaurant_id: restaurantId, status: "draft", content })
+    .select()
+    .single();
+
+  if (error) {
+    // Another tab or owner started the draft first
+    if (error.code === "23505") {
+      const draft = await fetchDraft(restaurantId);
+      if (draft) return draft;
+    }
+    console.error("Error creating menu draft:", error);
+    throw error;
+  }
+
+  return toMenuVersion(data);
+};
+
+export const getMenuDraft = async (restaurantId: string, fresh = false): Promise<MenuVersion> => {
+  const cached = drafts.get(restaurantId);
+  if (!fresh && cached && Date.now() - cached.loadedAt < DRAFT_MAX_AGE_MS) {
+    return cached.draft;
+  }
+
+  const draft = (await fetchDraft(restaurantId)) ?? (await createDraft(restaurantId));
+  drafts.set(restaurantId, { draft, loadedAt: Date.now() });
+  return draft;
+};
+
+// Applies a change to a copy of the draft and saves it, unless the draft changed in between.
+// On group locations, master menu rows only take overrides.
+const changeDraft = async <T>(restaurantId: string, change: (content: MenuBundle) => T): Promise<T> => {
+  const draft = await getMenuDraft(restaurantId);
+  const content: MenuBundle = structuredClone(draft.content);
+  const result = change(content);
+  keepMasterRows(draft.content, content);
+
+  const { data, error } = await supabase
+    .from("menu_versions")
+    .update({ content })
+    .eq("id", draft.id)
+    .eq("updated_at", draft.updated_at)
+    .in("status", ["draft", "scheduled"])
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error saving menu draft:", error);
+    throw error;
+  }
+  if (!data) {
+    drafts.delete(restaurantId);
+    throw new MenuDraftConflictError();
+  }
+
+  drafts.set(restaurantId, { draft: toMenuVersion(data), loadedAt: Date.now() });
+  return result;
+};
+
+export const getDraftSnapshot = async (restaurantId: string): Promise<MenuSnapshot> => {
+  const draft = await getMenuDraft(restaurantId);
+  return bundleToSnapshot(draft.content, restaurantId, draft.updated_at);
+};
+
+// Draft reads, shaped like the kiosk-service ones
+export const getDraftCategories = async (restaurantId: string): Promise<MenuCategory[]> =>
+  (await getDraftSnapshot(restaurantId)).categories;
+
+export const getDraftMenuItems = async (restaurantId: string, categoryId: string): Promise<MenuItem[]> =>
+  (await getDraftSnapshot(restaurantId)).items.filter(item => item.category_id === categoryId);
+
+export const getDraftToppingCategories = async (restaurantId: string): Promise<ToppingCategory[]> =>
+  (await getDraftSnapshot(restaurantId)).toppingCategories;
+
+export const getDraftToppings = async (restaurantId: string, categoryId?: string): Promise<Topping[]> =>
+  (await getDraftSnapshot(restaurantId)).toppings
+    .filter(topping => !categoryId || topping.category_id === categoryId)
+    .sort((a, b) => (a.display_order || 0) - (b.display_order || 0));
+
+type BundleRowOf = {
+  category: BundleCategory;
+  item: BundleItem;
+  topping_category: BundleToppingCategory;
+  topping: BundleTopping;
+};
+
+const listOf = <K extends MenuImportKind>(content: MenuBundle, kind: K): BundleRowOf[K][] => ({
+  category: content.categories,
+  item: content.items,
+  topping_category: content.topping_categories,
+  topping: content.toppings
+})[kind] as BundleRowOf[K][];
+
+const setItemToppingCategories = (content: MenuBundle, itemId: string, toppingCategoryIds: string[]) => {
+  content.item_topping_categories = [
+    ...content.item_topping_categories.filter(link => link.menu_item_id !== itemId),
+    ...toppingCategoryIds.map((topping_category_id, display_order) =>
+      ({ menu_item_id: itemId, topping_category_id, display_order }))
+  ];
+};
+
+// Menu items take the same tax default as createMenuItem/updateMenuItem
+const withItemTax = <T extends { tax_percentage?: unknown }>(values: T): T =>
+  values.tax_percentage === undefined ? values : { ...values, tax_percentage: Number(values.tax_percentage) || 10 };
+
+const createRow = async <K extends MenuImportKind>(restaurantId: string, kind: K, values: object): Promise<BundleRowOf[K]> =>
+  changeDraft(restaurantId, content => {
+    const row = toBundleRow(kind, { ...values, id: crypto.randomUUID() }) as BundleRowOf[K];
+    listOf(content, kind).push(row);
+    if (kind === 'item') {
+      setItemToppingCategories(content, row.id, (values as { topping_categories?: string[] }).topping_categories || []);
+    }
+    return row;
+  });
+
+const updateRow = async <K extends MenuImportKind>(restaurantId: string, kind: K, id: string, updates: object): Promise<BundleRowOf[K]> =>
+  changeDraft(restaurantId, content => {
+    const list = listOf(content, kind);
+    const index = list.findIndex(row => row.id === id);
+    if (index < 0) throw new MenuDraftConflictError();
+    list[index] = { ...list[index], ...toBundleRow(kind, { ...updates, id }) } as BundleRowOf[K];
+    const toppingCategories = (updates as { topping_categories?: string[] }).topping_categories;
+    if (kind === 'item' && toppingCategories !== undefined) {
+      setItemToppingCategories(content, id, toppingCategories);
+    }
+    return list[index];
+  });
+
+export const createDraftCategory = async (restaurantId: string, category: Partial<MenuCategory>): Promise<MenuCategory> =>
+  ({ ...(await createRow(restaurantId, 'category', category)), restaurant_id: restaurantId } as MenuCategory);
+
+export const updateDraftCategory = async (restaurantId: string, id: string, updates: Partial<MenuCategory>): Promise<MenuCategory> =>
+  ({ ...(await updateRow(restaurantId, 'category', id, updates)), restaurant_id: restaurantId } as MenuCategory);
+
+// Takes the category's items along, as the foreign keys do on the menu tables
+export const deleteDraftCategory = async (restaurantId: string, id: string): Promise<void> =>
+  changeDraft(restaurantId, content => {
+    const itemIds = new Set(content.items.filter(item => item.category_id === id).map(item => item.id));
+    content.categories = content.categories.filter(category => category.id !== id);
+    content.items = content.items.filter(item => !itemIds.has(item.id));
+    content.item_topping_categories = content.item_topping_categories.filter(link => !itemIds.has(link.menu_item_id));
+  });
+
+export const createDraftMenuItem = async (restaurantId: string, item: Partial<MenuItem>): Promise<MenuItem> => {
+  const row = await createRow(restaurantId, 'item', withItemTax({ in_stock: true, ...item }));
+  return { ...row, topping_categories: item.topping_categories || [] } as MenuItem;
+};
+
+export const updateDraftMenuItem = async (restaurantId: string, id: string, updates: Partial<MenuItem>): Promise<MenuItem> => {
+  const row = await updateRow(restaurantId, 'item', id, withItemTax(updates));
+  return { ...row, topping_categories: updates.topping_categories || [] } as MenuItem;
+};
+
+export const deleteDraftMenuItem = async (restaurantId: string, id: string): Promise<void> =>
+  changeDraft(restaurantId, content => {
+    content.items = content.items.filter(item => item.id !== id);
+    content.item_topping_categories = content.item_topping_categories.filter(link => link.menu_item_id !== id);
+  });
+
+export const createDraftToppingCategory = async (restaurantId: string, category: Partial<ToppingCategory>): Promise<ToppingCategory> =>
+  ({ ...(await createRow(restaurantId, 'topping_category', category)), restaurant_id: restaurantId } as ToppingCategory);
+
+export const updateDraftToppingCategory = async (restaurantId: string, id: string, updates: Partial<ToppingCategory>): Promise<ToppingCategory> =>
+  ({ ...(await updateRow(restaurantId, 'topping_category', id, updates)), restaurant_id: restaurantId } as ToppingCategory);
+
+export const deleteDraftToppingCategory = async (restaurantId: string, id: string): Promise<void> =>
+  changeDraft(restaurantId, content => {
+    content.topping_categories = content.topping_categories.filter(category => category.id !== id);
+    content.toppings = content.toppings.filter(topping => topping.category_id !== id);
+    content.item_topping_categories = content.item_topping_categories.filter(link => link.topping_category_id !== id);
+  });
+
+export const createDraftTopping = async (restaurantId: string, topping: Partial<Topping>): Promise<Topping> =>
+  await createRow(restaurantId, 'topping', { in_stock: true, ...topping }) as Topping;
+
+export const updateDraftTopping = async (restaurantId: string, id: string, updates: Partial<Topping>): Promise<Topping> =>
+  await updateRow(restaurantId, 'topping', id, updates) as Topping;
+
+export const deleteDraftTopping = async (restaurantId: string, id: string): Promise<void> =>
+  changeDraft(restaurantId, content => {
+    content.toppings = content.toppings.filter(topping => topping.id !== id);
+  });
+
+// Many rows of one kind at once, e.g. from a spreadsheet, saved as one change
+export const updateDraftRows = async (
+  restaurantId: string,
+  updates: { kind: 'item' | 'topping'; id: string; values: Partial<MenuItem> | Partial<Topping> }[]
+): Promise<void> =>
+  changeDraft(restaurantId, content => {
+    updates.forEach(({ kind, id, values }) => {
+      const list: { id: string }[] = listOf(content, kind);
+      const index = list.findIndex(row => row.id === id);
+      if (index >= 0) list[index] = { ...list[index], ...toBundleRow(kind, { ...values, id }) };
+    });
+  });
+
+// Puts the master menu values back on a group location row
+export const resetDraftOverrides = async (restaurantId: string, id: string): Promise<void> =>
+  changeDraft(restaurantId, content => resetMasterOverrides(content, id));
+
+// Rows of the draft following the group master menu, by row id
+export const getDraftMasterLinks = async (restaurantId: string): Promise<Record<string, MasterLink>> =>
+  (await getMenuDraft(restaurantId)).content.master?.rows ?? {};
+
+export const importIntoDraft = async (restaurantId: string, plan: MenuImportPlan): Promise<void> =>
+  changeDraft(restaurantId, content => applyMenuImportPlan(content, plan, () => crypto.randomUUID()));
+
+// What publishing the draft would change on the live menu
+export type DraftChange = { kind: MenuImportKind; name: string; action: 'create' | 'update' | 'delete'; changes: string[] };
+
+export const getDraftChanges = async (restaurantId: string): Promise<DraftChange[]> => {
+  const [draft, live] = await Promise.all([getMenuDraft(restaurantId, true), getMenuSnapshot(restaurantId)]);
+  const plan = planMenuImport(draft.content, live, 'update');
+
+  const changes: DraftChange[] = plan.entries
+    .map(entry => ({ ...entry, changes: entry.changes.filter(field => !LIVE_FIELDS.includes(field)) }))
+    .filter(entry => entry.action === 'create' || entry.changes.length > 0)
+    .map(({ kind, name, action, changes }) => ({ kind, name, action: action === 'create' ? 'create' : 'update', changes }));
+
+  // The plan matches live rows by id first; whatever the draft no longer has is deleted
+  const matched = new Set(plan.entries.map(entry => entry.targetId));
+  const deleted = (kind: MenuImportKind, rows: { id: string; name: string }[]) =>
+    rows.filter(row => !matched.has(row.id)).map(row => ({ kind, name: row.name, action: 'delete' as const, changes: [] }));
+
+  return [
+    ...changes,
+    ...deleted('topping_category', live.toppingCategories),
+    ...deleted('topping', live.toppings),
+    ...deleted('category', live.categories),
+    ...deleted('item', live.items)
+  ];
+};
+
+// Menu version services
+export const getMenuVersions = async (restaurantId: string): Promise<Omit<MenuVersion, 'content'>[]> => {
+  const { data, error } = await supabase
+    .from("menu_versions")
+    .select("id, restaurant_id, status, publish_at, published_at, note, created_by, created_at, updated_at")
+    .eq("restaurant_id", restaurantId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching menu versions:", error);
+    throw error;
+  }
+
+  return data.map(row => ({ ...row, status: row.status as MenuVersion['status'] }));
+};
+
+// Publishes the draft now, or rolls back to an archived version
+export const publishMenuVersion = async (restaurantId: string, versionId: string): Promise<MenuVersion> => {
+  const { data, error } = await supabase
+    .rpc('publish_menu_version', { p_version_id: versionId });
+
+  if (error) {
+    console.error("Error publishing menu version:", error);
+    throw error;
+  }
+
+  drafts.delete(restaurantId);
+  return toMenuVersion(data);
+};
+
+// null takes a scheduled draft back to a plain draft
+export const scheduleMenuDraft = async (restaurantId: string, publishAt: Date | null): Promise<MenuVersion> => {
+  const draft = await getMenuDraft(restaurantId, true);
+  const { data, error } = await supabase
+    .from("menu_versions")
+    .update(publishAt
+      ? { status: "scheduled", publish_at: publishAt.toISOString(), note: null }
+      : { status: "draft", publish_at: null })
+    .eq("id", draft.id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error scheduling menu draft:", error);
+    throw error;
+  }
+
+  const updated = toMenuVersion(data);
+  drafts.set(restaurantId, { draft: updated, loadedAt: Date.now() });
+  return updated;
+};
+
+// The next edit starts a new draft from the live menu
+export const discardMenuDraft = async (restaurantId: string): Promise<void> => {
+  const { error } = await supabase
+    .from("menu_versions")
+    .delete()
+    .eq("restaurant_id", restaurantId)
+    .in("status", ["draft", "scheduled"]);
+
+  if (error) {
+    console.error("Error discarding menu draft:", error);
+    throw error;
+  }
+
+  drafts.delete(restaurantId);
+};
+
+// Group master menu services
+
+// Rebuilds a group location's menu on the master restaurant's published menu and publishes it.
+// A pending draft is rebuilt the same way, keeping its own edits.
+export const syncLocationMenu = async (masterRestaurantId: string, restaurantId: string): Promise<void> => {
+  const [master, published] = await Promise.all([ensurePublished(masterRestaurantId), ensurePublished(restaurantId)]);
+
+  // The draft gets the ids the published menu gave to new master rows
+  const newIds = new Map<string, string>();
+  const newId = (masterId: string) => {
+    if (!newIds.has(masterId)) newIds.set(masterId, crypto.randomUUID());
+    return newIds.get(masterId)!;
+  };
+
+  // Recorded as archived, the status a version can take beside the draft, until published
+  const { data, error } = await supabase
+    .from("menu_versions")
+    .insert({
+      restaurant_id: restaurantId,
+      status: "archived",
+      content: mergeMasterMenu(master.content, master.id, published.content, newId),
+      note: "Updated from the group master menu"
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error recording group menu version:", error);
+    throw error;
+  }
+
+  await publishMenuVersion(restaurantId, data.id);
+
+  const draft = await fetchDraft(restaurantId);
+  if (draft) {
+    const { error: draftError } = await supabase
+      .from("menu_versions")
+      .update({ content: mergeMasterMenu(master.content, master.id, draft.content, newId) })
+      .eq("id", draft.id)
+      .eq("updated_at", draft.updated_at);
+
+    if (draftError) {
+      console.error("Error updating menu draft from the master menu:", draftError);
+      throw draftError;
+    }
+  }
+  drafts.delete(restaurantId);
+};
+
+// Brings the other restaurants of the group up to the master's published menu, one at a time.
+// Returns the names of those that could not be updated.
+export const syncGroupMenus = async (groupId: string, masterRestaurantId: string): Promise<{ synced: number; failed: string[] }> => {
+  const locations = (await getGroupRestaurants(groupId)).filter(location => location.id !== masterRestaurantId);
+  const failed: string[] = [];
+
+  for (const location of locations) {
+    try {
+      await syncLocationMenu(masterRestaurantId, location.id);
+    } catch (error) {
+      console.error(`Error updating the menu of ${location.name}:`, error);
+      failed.push(location.name);
+    }
+  }
+
+  return { synced: locations.length - failed.length, failed };
+};
+
+export type GroupMenuStatus = {
+  versionId: string; // published menu version
+  masterVersionId: string | null; // master version it was built from, null when never synced
+  overrides: number; // master rows with overrides
+};
+
+// Published menu of each group restaurant that has one
+export const getGroupMenuStatus = async (restaurantIds: string[]): Promise<Record<string, GroupMenuStatus>> => {
+  const { data, error } = await supabase
+    .from("menu_versions")
+    .select("id, restaurant_id, content")
+    .in("restaurant_id", restaurantIds)
+    .eq("status", "published");
+
+  if (error) {
+    console.error("Error fetching group menu status:", error);
+    throw error;
+  }
+
+  return Object.fromEntries(data.map(row => {
+    const master = (row.content as MenuBundle).master;
+    const links = Object.values(master?.rows ?? {});
+    return [row.restaurant_id, {
+      versionId: row.id,
+      masterVersionId: master?.master_version_id ?? null,
+      overrides: links.filter(link => Object.keys(link.overrides).length > 0).length
+    }];
+  }));
+};
+
+// After leaving a group, the menu no longer follows the master: its rows become its own
+export const detachFromMasterMenu = async (restaurantId: string): Promise<void> => {
+  const versions = [await fetchDraft(restaurantId), await fetchPublished(restaurantId)].filter(Boolean) as MenuVersion[];
+
+  for (const version of versions.filter(version => version.content.master)) {
+    const { master, ...content } = version.content;
+    const { error } = await supabase
+      .from("menu_versions")
+      .update({ content })
+      .eq("id", version.id);
+
+    if (error) {
+      console.error("Error detaching menu from the master menu:", error);
+      throw error;
+    }
+  }
+  drafts.delete(restaurantId);
+};
@@ -0,0 +1,137 @@
+import { Order, Restaurant } from "@/types/database-types";
+import { startCardPayment, failCardPayment, confirmCardPayment } from "@/services/kiosk-service";
+
+export interface TerminalChargeRequest {
+  amount: number;
+  currency: string;
+  reference: string; // order number, shown on the terminal and the bank statement
+}
+
+export type TerminalChargeStatus = 'approved' | 'declined' | 'cancelled' | 'error';
+
+export interface TerminalChargeResult {
+  status: TerminalChargeStatus;
+  transactionReference?: string;
+  message?: string; // shown to the customer when the charge did not go through
+  raw?: unknown; // terminal response, stored in payments.pos_response
+}
+
+// A card terminal the kiosk can charge. charge() resolves once the customer is done
+// with the terminal; aborting the signal must cancel the transaction on the device.
+export interface PaymentTerminalAdapter {
+  id: string;
+  name: string;
+  charge: (request: TerminalChargeRequest, signal?: AbortSignal) => Promise<TerminalChargeResult>;
+}
+
+const SIMULATOR_DELAY_MS = 2500;
+
+// Stands in for a real terminal: approves after a short delay, except amounts ending
+// in .13 which are declined and .66 which fail, so both paths can be tried on a kiosk.
+// It never charges anyone, so it is only offered to builds with VITE_PAYMENT_SIMULATOR=true
+const simulatorTerminal: PaymentTerminalAdapter = {
+  id: 'simulator',
+  name: 'Simulateur',
+  charge: (request, signal) => new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve({ status: 'cancelled' });
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      const cents = Math.round(request.amount * 100) % 100;
+
+      if (cents === 13) {
+        resolve({ status: 'declined', message: 'Card declined', raw: { code: '05', reference: request.reference } });
+      } else if (cents === 66) {
+        resolve({ status: 'error', message: 'Terminal not responding', raw: { code: 'TIMEOUT', reference: request.reference } });
+      } else {
+        const transactionReference = `SIM-${Date.now().toString(36).toUpperCase()}`;
+        resolve({ status: 'approved', transactionReference, raw: { code: '00', transactionReference, reference: request.reference } });
+      }
+    }, SIMULATOR_DELAY_MS);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve({ status: 'cancelled' });
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  })
+};
+
+const terminals = new Map<string, PaymentTerminalAdapter>();
+
+if (import.meta.env.VITE_PAYMENT_SIMULATOR === 'true') {
+  terminals.set(simulatorTerminal.id, simulatorTerminal);
+}
+
+// Terminal integrations register themselves here; restaurants.payment_terminal picks one
+export const registerPaymentTerminal = (adapter: PaymentTerminalAdapter): void => {
+  terminals.set(adapter.id, adapter);
+};
+
+export const getPaymentTerminals = (): PaymentTerminalAdapter[] => Array.from(terminals.values());
+
+// Null when no terminal is set or its integration is not part of this build
+export const getPaymentTerminal = (id?: string | null): PaymentTerminalAdapter | null => {
+  return (id && terminals.get(id)) || null;
+};
+
+// Card payment is only offered when the restaurant's terminal can actually be reached
+export const isCardPaymentAvailable = (
+  restaurant: Pick<Restaurant, "card_payment_enabled" | "payment_terminal">
+): boolean => !!restaurant.card_payment_enabled && !!getPaymentTerminal(restaurant.payment_terminal);
+
+export interface CardPaymentOutcome {
+  result: TerminalChargeResult;
+  order: Order; // 'pending' once approved, still 'awaiting_payment' otherwise
+}
+
+const TERMINAL_TO_PAYMENT_STATUS = {
+  declined: 'failed',
+  error: 'failed',
+  cancelled: 'cancelled'
+} as const;
+
+// Charges an order awaiting payment on the terminal and records the attempt in payments.
+// An approval only counts once the server has confirmed it with the terminal provider.
+export const chargeOrderOnTerminal = async (
+  order: Order,
+  adapter: PaymentTerminalAdapter,
+  currency: string,
+  signal?: AbortSignal
+): Promise<CardPaymentOutcome> => {
+  const payment = await startCardPayment(order.id, adapter.id);
+
+  let result: TerminalChargeResult;
+  try {
+    result = await adapter.charge({
+      amount: Number(payment.amount),
+      currency,
+      reference: order.order_number || order.id.slice(0, 8)
+    }, signal);
+  } catch (error) {
+    console.error("Error charging payment terminal:", error);
+    result = { status: 'error', message: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (result.status === 'approved' && !result.transactionReference) {
+    result = { status: 'error', message: 'The terminal did not return a transaction reference', raw: result.raw };
+  }
+
+  if (result.status === 'approved') {
+    const confirmedOrder = await confirmCardPayment(payment.id, result.transactionReference!);
+    return confirmedOrder.status === 'awaiting_payment'
+      ? { result: { status: 'declined', message: 'Payment could not be verified' }, order: confirmedOrder }
+      : { result, order: confirmedOrder };
+  }
+
+  const updatedOrder = await failCardPayment(
+    payment.id,
+    TERMINAL_TO_PAYMENT_STATUS[result.status],
+    result.raw !== undefined ? JSON.stringify(result.raw) : result.message
+  );
+
+  return { result, order: updatedOrder };
+};
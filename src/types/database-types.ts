@@ -1,6 +1,8 @@
 
 // Types representing our Supabase database entities
 
+import type { MenuBundle } from "@/utils/menu-bundle";
+
 export type Restaurant = {
   id: string;
   name: string;
@@ -12,8 +14,25 @@ export type Restaurant = {
   updated_at: string;
   ui_language?: string;
   currency?: string; // NEW: ISO 4217 code, e.g. "EUR", "USD", ...
+  timezone?: string; // IANA zone, e.g. "Europe/Paris"
+  order_number_reset?: string; // OrderNumberReset
+  order_number_reset_times?: string[]; // "HH:MM", local time
+  order_number_padding?: number;
+  order_number_prefix_dine_in?: string | null;
+  order_number_prefix_takeaway?: string | null;
+  status_board_timeout_seconds?: number; // how long collected orders stay on the status board
+  prices_include_tax?: boolean; // false adds tax on top of menu prices
+  card_payment_enabled?: boolean | null;
+  cash_payment_enabled?: boolean | null; // pay at the counter
+  payment_terminal?: string | null; // id of the registered payment terminal adapter, none until one is chosen
+  last_order_minutes?: number; // orders stop this many minutes before closing
+  stock_reset_time?: string | null; // "HH:MM:SS", daily reset to par levels; null: none
+  stock_reset_at?: string | null; // last reset to par levels
+  group_id?: string | null; // restaurant group whose master menu it follows
 };
 
+export type OrderNumberReset = 'daily' | 'shift' | 'never';
+
 export type MenuCategory = {
   id: string;
   name: string;
@@ -24,6 +43,7 @@ export type MenuCategory = {
   created_at: string;
   updated_at: string;
   display_order?: number | null;
+  station_id?: string | null; // kitchen station printing this category's items
   name_fr?: string | null;
   name_en?: string | null;
   name_tr?: string | null;
@@ -60,10 +80,23 @@ export type MenuItem = {
   updated_at: string;
   topping_categories?: string[];
   tax_percentage?: number | null;
+  takeaway_tax_percentage?: number | null; // overrides tax_percentage for takeaway orders
   in_stock: boolean;
   display_order?: number | null;
   available_from?: string | null;
   available_until?: string | null;
+  allergens?: string[]; // EU allergen codes, see ALLERGENS in utils/dietary
+  dietary_tags?: string[]; // vegan, vegetarian, halal
+  spicy_level?: number; // 0 (not spicy) to 3
+  calories?: number | null; // kcal per portion, null when unknown
+  protein?: number | null; // grams
+  carbohydrates?: number | null; // grams
+  fat?: number | null; // grams
+  portion_size?: string | null; // as printed, e.g. "350 g" or "33 cl"
+  stock_quantity?: number | null; // units left; null: not tracked, in_stock alone decides
+  low_stock_threshold?: number; // the kiosk shows "only N left" at this count and below
+  par_level?: number | null; // stock_quantity after the daily reset
+  ingredients_available?: boolean; // false while an ingredient of its recipe runs short
   name_fr?: string | null;
   name_en?: string | null;
   name_tr?: string | null;
@@ -159,11 +192,24 @@ export type Topping = {
   name: string;
   price: number;
   category_id: string;
-  tax_percentage: number | null;
+  tax_percentage: number | null; // null: taxed at the menu item's rate
+  takeaway_tax_percentage?: number | null; // overrides tax_percentage for takeaway orders
   created_at: string;
   updated_at: string;
   in_stock: boolean;
   display_order?: number | null;
+  allergens?: string[]; // added to the item's when selected
+  dietary_tags?: string[]; // the item keeps a tag only if its selected toppings carry it too
+  spicy_level?: number;
+  calories?: number | null; // added per unit selected
+  protein?: number | null;
+  carbohydrates?: number | null;
+  fat?: number | null;
+  portion_size?: string | null;
+  stock_quantity?: number | null;
+  low_stock_threshold?: number;
+  par_level?: number | null;
+  ingredients_available?: boolean;
   name_fr?: string | null;
   name_en?: string | null;
   name_tr?: string | null;
@@ -177,7 +223,188 @@ export type Topping = {
   name_zh?: string | null;
 };
 
-export type OrderStatus = 'pending' | 'preparing' | 'ready' | 'completed' | 'cancelled';
+export type Combo = {
+  id: string;
+  restaurant_id: string;
+  category_id: string; // kiosk category listing the combo
+  name: string;
+  description: string | null;
+  image: string | null;
+  price: number; // bundle price, before upcharges
+  tax_percentage: number | null; // rate of the bundle price, components keep their own for upcharges
+  takeaway_tax_percentage: number | null;
+  in_stock: boolean;
+  display_order: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ComboSlot = {
+  id: string;
+  combo_id: string;
+  name: string; // burger, side, drink...
+  category_id: string | null; // null: only the items listed in combo_slot_items
+  display_order: number;
+  created_at: string;
+};
+
+export type ComboSlotItem = {
+  slot_id: string;
+  menu_item_id: string;
+  upcharge: number;
+};
+
+// An item the customer can pick for a slot, and what it adds to the bundle price
+export type ComboSlotChoice = {
+  menuItem: MenuItem;
+  upcharge: number;
+};
+
+export type ComboSlotWithItems = ComboSlot & {
+  items: ComboSlotItem[];
+  choices: ComboSlotChoice[]; // in stock items of the slot's category and list
+};
+
+export type ComboWithSlots = Combo & {
+  slots: ComboSlotWithItems[];
+};
+
+export type PromotionType = 'percentage' | 'fixed' | 'buy_x_get_y';
+
+export type Promotion = {
+  id: string;
+  restaurant_id: string;
+  name: string; // shown in the cart and printed on receipts
+  description: string | null;
+  promotion_type: PromotionType;
+  value: number; // percent off, amount off, or percent off the free units of buy_x_get_y
+  buy_quantity: number;
+  get_quantity: number;
+  menu_item_id: string | null; // with category_id null: the whole basket
+  category_id: string | null;
+  order_type: OrderType; // null: any order type
+  min_subtotal: number | null; // basket total before discounts
+  weekdays: number[] | null; // 0 = Sunday; null or empty: every day
+  start_time: string | null; // happy hour, on the restaurant's clock
+  end_time: string | null;
+  starts_on: string | null;
+  ends_on: string | null;
+  active: boolean;
+  display_order: number;
+  created_at: string;
+  updated_at: string;
+};
+
+// A promotion as applied to an order, what receipts print
+export type AppliedPromotion = {
+  promotion_id: string;
+  name: string;
+  amount: number;
+};
+
+// Suggests an item, or the items of a category the cart has none of, when the trigger is in the cart
+export type UpsellRule = {
+  id: string;
+  restaurant_id: string;
+  trigger_menu_item_id: string | null; // with trigger_category_id null: any cart
+  trigger_category_id: string | null;
+  suggested_menu_item_id: string | null;
+  suggested_category_id: string | null;
+  active: boolean;
+  display_order: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export type UpsellSource = 'rule' | 'co_purchase';
+export type UpsellEventType = 'shown' | 'accepted';
+
+// Items ordered together, counted over recent orders
+export type CoPurchasePair = {
+  menu_item_id: string;
+  paired_menu_item_id: string;
+  order_count: number;
+};
+
+export type UpsellSuggestion = {
+  menuItem: MenuItem;
+  source: UpsellSource;
+  ruleId: string | null;
+};
+
+export type UpsellItemStats = {
+  menu_item_id: string;
+  source: UpsellSource;
+  shown: number;
+  accepted: number;
+};
+
+export type IngredientUnit = 'piece' | 'g' | 'kg' | 'ml' | 'l';
+
+export type Ingredient = {
+  id: string;
+  restaurant_id: string;
+  name: string;
+  unit: IngredientUnit;
+  stock_quantity: number;
+  low_stock_threshold: number | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// What one unit of a menu item or topping uses; exactly one of the two ids is set
+export type RecipeIngredient = {
+  id: string;
+  ingredient_id: string;
+  menu_item_id: string | null;
+  topping_id: string | null;
+  quantity: number; // in the ingredient's unit
+  created_at: string;
+};
+
+// count replaces the stock; order and cancellation are written by the database
+export type IngredientAdjustmentReason = 'count' | 'delivery' | 'waste' | 'correction' | 'order' | 'cancellation';
+
+export type IngredientAdjustment = {
+  id: string;
+  ingredient_id: string;
+  delta: number;
+  stock_after: number;
+  reason: IngredientAdjustmentReason;
+  note: string | null;
+  order_id: string | null;
+  created_by: string | null;
+  created_at: string;
+};
+
+// draft: being edited, scheduled: draft with a publish_at, archived: published before, kept for rollback
+export type MenuVersionStatus = 'draft' | 'scheduled' | 'published' | 'archived';
+
+export type MenuVersion = {
+  id: string;
+  restaurant_id: string;
+  status: MenuVersionStatus;
+  content: MenuBundle;
+  publish_at: string | null;
+  published_at: string | null;
+  note: string | null; // set when a scheduled publication failed, or by the group master menu
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Sites of a brand sharing the menu of the master restaurant
+export type RestaurantGroup = {
+  id: string;
+  name: string;
+  owner_id: string;
+  master_restaurant_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// awaiting_payment: placed for card payment, hidden from the kitchen until paid
+export type OrderStatus = 'awaiting_payment' | 'pending' | 'preparing' | 'ready' | 'completed' | 'cancelled';
 
 // Add the missing OrderType type
 export type OrderType = 'dine-in' | 'takeaway' | null;
@@ -187,17 +414,192 @@ export interface Order {
   restaurant_id: string;
   customer_id?: string;
   customer_name?: string;
-  status: 'pending' | 'preparing' | 'ready' | 'completed' | 'cancelled';
+  status: OrderStatus;
   created_at: string;
   total: number;
   order_type?: OrderType;
   table_number?: string;
+  table_id?: string | null; // restaurant_tables row the order was placed for
+  order_number?: string | null;
+  provisional_number?: string | null; // set when the order was queued offline
+  idempotency_key?: string | null; // sent by the kiosk with place_order, only it knows it
+  subtotal?: number | null; // total before tax
+  tax_amount?: number | null;
+  tax_breakdown?: TaxRateSummary[];
+  discount_amount?: number | null; // taken off before tax, already deducted from total
+  applied_promotions?: AppliedPromotion[] | null;
 }
 
+// Tax owed at one rate; net + tax is what the customer paid at that rate
+export type TaxRateSummary = {
+  rate: number;
+  net: number;
+  tax: number;
+};
+
+export type PaymentMethod = 'card' | 'cash';
+export type PaymentStatus = 'pending' | 'succeeded' | 'failed' | 'cancelled';
+
+export type Payment = {
+  id: string;
+  order_id: string | null;
+  amount: number;
+  payment_method: PaymentMethod | null;
+  status: PaymentStatus;
+  provider: string | null; // payment terminal adapter id, 'counter' for cash
+  transaction_reference: string | null;
+  pos_response: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type RestaurantTable = {
+  id: string;
+  restaurant_id: string;
+  table_number: string; // what the customer picks or types, also printed on tickets
+  is_active: boolean;
+  display_order: number;
+  created_at: string | null;
+  updated_at: string | null;
+};
+
+export type Menu = {
+  id: string;
+  restaurant_id: string;
+  name: string; // breakfast, lunch, late night...
+  display_order: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export type MenuSchedule = {
+  id: string;
+  menu_id: string;
+  weekday: number; // 0 = Sunday, the day the window starts on
+  start_time: string; // "HH:MM:SS" in the restaurant's timezone
+  end_time: string; // at or before start_time: runs past midnight
+  created_at: string;
+};
+
+export type MenuHolidayOverride = {
+  id: string;
+  restaurant_id: string;
+  override_date: string; // "YYYY-MM-DD"
+  label: string | null;
+  schedule_weekday: number | null; // weekday whose windows apply that day, null: no scheduled menu
+  created_at: string;
+};
+
+export type MenuWithSchedules = Menu & {
+  schedules: MenuSchedule[];
+  category_ids: string[];
+};
+
+// Everything the kiosk needs to decide which categories to show at a given time
+export type RestaurantMenuSchedule = {
+  timezone: string;
+  menus: MenuWithSchedules[];
+  overrides: MenuHolidayOverride[];
+};
+
+export type OpeningHours = {
+  id: string;
+  restaurant_id: string;
+  weekday: number; // 0 = Sunday, the day the restaurant opens
+  open_time: string; // "HH:MM:SS" in the restaurant's timezone
+  close_time: string; // at or before open_time: closes after midnight
+  created_at: string;
+};
+
+export type RestaurantClosure = {
+  id: string;
+  restaurant_id: string;
+  starts_on: string; // "YYYY-MM-DD", both ends included
+  ends_on: string;
+  label: string | null;
+  created_at: string;
+};
+
+// What the kiosk needs to know whether it takes orders, and until when
+export type RestaurantOpeningSchedule = {
+  timezone: string;
+  last_order_minutes: number;
+  hours: OpeningHours[];
+  closures: RestaurantClosure[];
+};
+
+export type KitchenStation = {
+  id: string;
+  restaurant_id: string;
+  name: string;
+  printer_id: string | null; // restaurant_printers.id
+  display_order: number;
+  created_at: string;
+  updated_at: string;
+};
+
+// restaurant_print_config as kiosks see it: the PrintNode API key itself stays server-side
+export type PrintSettings = {
+  printnode_configured: boolean;
+  configured_printers: string[]; // PrintNode printer ids that get the customer receipt
+  browser_printing_enabled: boolean | null;
+};
+
+export type PrintJobStatus = 'pending' | 'printing' | 'printed' | 'failed';
+export type PrintJobType = 'receipt' | 'kitchen' | 'test';
+
+export type PrintJob = {
+  id: string;
+  restaurant_id: string;
+  order_id: string | null;
+  job_type: PrintJobType;
+  printer_id: string; // PrintNode printer id
+  printer_name: string | null;
+  title: string;
+  content_base64: string; // raw ESC/POS payload
+  status: PrintJobStatus;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  printnode_job_id: number | null;
+  printed_at: string | null;
+  reprint_of: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type PaperWidth = 58 | 80;
+
+export type ReceiptTemplate = {
+  id?: string;
+  restaurant_id: string;
+  header_text: string | null;
+  footer_text: string | null;
+  show_logo: boolean;
+  logo_url: string | null; // falls back to the restaurant logo
+  vat_number: string | null;
+  show_tax_breakdown: boolean;
+  show_qr_code: boolean;
+  qr_code_content: string | null; // may contain {order_number}
+  paper_width: PaperWidth;
+};
+
+// Public mirror of an order's number and status, see order_status_board
+export type OrderStatusBoardEntry = {
+  order_id: string;
+  restaurant_id: string;
+  order_number: string | null;
+  status: OrderStatus;
+  updated_at: string;
+};
+
 export type OrderItem = {
   id: string;
   order_id: string;
-  menu_item_id: string;
+  menu_item_id: string | null; // null on a combo line
+  combo_id?: string | null;
+  parent_order_item_id?: string | null; // combo line of a combo component, priced at 0
   quantity: number;
   price: number;
   special_instructions: string | null;
@@ -237,8 +639,19 @@ export interface MenuItemWithOptions extends MenuItem {
       id: string;
       name: string;
       price: number;
-      tax_percentage: number;
+      tax_percentage: number | null;
+      takeaway_tax_percentage?: number | null;
       display_order?: number | null; // Added display_order property
+      allergens?: string[];
+      dietary_tags?: string[];
+      spicy_level?: number;
+      calories?: number | null;
+      protein?: number | null;
+      carbohydrates?: number | null;
+      fat?: number | null;
+      stock_quantity?: number | null;
+      low_stock_threshold?: number;
+      ingredients_available?: boolean;
     }[];
     show_if_selection_id?: string[] | null;
     show_if_selection_type?: string[] | null;
@@ -262,4 +675,16 @@ export interface CartItem {
   }[];
   specialInstructions?: string;
   itemPrice: number;
+  comboComponents?: CartComboComponent[]; // set on combo lines, whose menuItem describes the combo
+}
+
+// The item picked for one slot of a combo in the cart
+export interface CartComboComponent {
+  slotId: string;
+  slotName: string;
+  menuItem: MenuItemWithOptions;
+  selectedOptions: CartItem['selectedOptions'];
+  selectedToppings: CartItem['selectedToppings'];
+  specialInstructions?: string;
+  upcharge: number;
 }
@@ -0,0 +1,32 @@
+import { CartItem, Combo, MenuItem } from "@/types/database-types";
+
+// A combo listed in the menu grid and carried in the cart like a menu item; the id is the combo's
+export const toComboMenuItem = (combo: Combo): MenuItem => ({
+  id: combo.id,
+  name: combo.name,
+  description: combo.description,
+  price: Number(combo.price),
+  promotion_price: null,
+  image: combo.image,
+  category_id: combo.category_id,
+  created_at: combo.created_at,
+  updated_at: combo.updated_at,
+  tax_percentage: combo.tax_percentage,
+  takeaway_tax_percentage: combo.takeaway_tax_percentage,
+  in_stock: combo.in_stock,
+  display_order: combo.display_order
+});
+
+// The kitchen prepares a combo's components, each printed at the station of its own category
+export const expandComboComponents = (cart: CartItem[]): CartItem[] =>
+  cart.flatMap(item => item.comboComponents
+    ? item.comboComponents.map((component, index) => ({
+        id: `${item.id}-${index}`,
+        menuItem: component.menuItem,
+        quantity: item.quantity,
+        selectedOptions: component.selectedOptions,
+        selectedToppings: component.selectedToppings,
+        specialInstructions: component.specialInstructions,
+        itemPrice: 0
+      }))
+    : [item]);
@@ -1,7 +1,8 @@
 
 import { 
   getRestaurantBySlug, 
-  getMenuForRestaurant,
+  getFullMenuForRestaurant,
+  getMenuSchedule,
   getMenuItemWithOptions,
   getToppingsForRestaurant
 } from "@/services/kiosk-service";
@@ -14,9 +15,10 @@ import {
   isCachingEnabled
 } from "@/services/cache-service";
 import { cacheImage, precacheImages } from "@/utils/image-cache";
-import { MenuCategory, MenuItem, Restaurant } from "@/types/database-types";
+import { MenuCategory, MenuItem, Restaurant, RestaurantMenuSchedule } from "@/types/database-types";
 import { isOnline, retryNetworkRequest } from "@/utils/service-worker";
 import { handleCacheError } from "@/utils/cache-config";
+import { filterCategoriesBySchedule, getLocalDateTime } from "@/utils/menu-schedule";
 
 // Types for preloader state
 export interface PreloaderState {
@@ -193,11 +195,14 @@ export const preloadAllRestaurantData = async (
     if (options.forceRefresh || !menuCategories || menuCategories.length === 0) {
       try {
         console.log("[Preloader] Fetching fresh menu categories");
-        menuCategories = await retryNetworkRequest(
-          () => getMenuForRestaurant(restaurant.id),
-          3,
-          500
-        );
+        // The whole menu is cached with its schedule so the kiosk can switch menus
+        // (breakfast to lunch...) without going back to the network
+        const [fullMenu, menuSchedule] = await Promise.all([
+          retryNetworkRequest(() => getFullMenuForRestaurant(restaurant.id), 3, 500),
+          retryNetworkRequest(() => getMenuSchedule(restaurant.id), 3, 500)
+        ]);
+        menuCategories = fullMenu;
+        setCacheItem(`menu_schedule_${restaurant.id}`, menuSchedule, restaurant.id, isAdmin);
         fetchedFreshMenu = true;
         
         // Sort by display order
@@ -233,6 +238,16 @@ export const preloadAllRestaurantData = async (
       }
     }
 
+    // A menu cached before schedules existed still needs its schedule
+    if (!getCacheItem<RestaurantMenuSchedule>(`menu_schedule_${restaurant.id}`, restaurant.id, isAdmin)) {
+      try {
+        const menuSchedule = await retryNetworkRequest(() => getMenuSchedule(restaurant.id), 3, 500);
+        setCacheItem(`menu_schedule_${restaurant.id}`, menuSchedule, restaurant.id, isAdmin);
+      } catch (error) {
+        console.warn("[Preloader] Failed to fetch menu schedule, showing every category");
+      }
+    }
+
     updateProgress({ progress: 30, stage: 'menuItems' });
 
     // Step 3: Preload all menu item details (options, choices)
@@ -366,6 +381,21 @@ export const preloadAllRestaurantData = async (
   }
 };
 
+// Cached menu as the kiosk should show it at a given time; null when nothing is cached.
+// Without a cached schedule every category is shown.
+export const getScheduledMenuFromCache = (
+  restaurantId: string,
+  at: Date = new Date()
+): (MenuCategory & { items: MenuItem[] })[] | null => {
+  const menuCategories = getCacheItem<(MenuCategory & { items: MenuItem[] })[]>(`categories_${restaurantId}`, restaurantId);
+  if (!menuCategories || menuCategories.length === 0) return null;
+
+  const menuSchedule = getCacheItem<RestaurantMenuSchedule>(`menu_schedule_${restaurantId}`, restaurantId);
+  if (!menuSchedule) return menuCategories;
+
+  return filterCategoriesBySchedule(menuCategories, menuSchedule, getLocalDateTime(menuSchedule.timezone, at));
+};
+
 // Helper function to clear all cached data for a restaurant
 export const clearRestaurantCache = (restaurantId: string): void => {
   try {
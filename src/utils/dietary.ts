@@ -0,0 +1,81 @@
+import { MenuItem, Topping } from "@/types/database-types";
+
+// The 14 allergens of EU regulation 1169/2011, in the order they are listed
+export const ALLERGENS = [
+  'gluten',
+  'crustaceans',
+  'eggs',
+  'fish',
+  'peanuts',
+  'soybeans',
+  'milk',
+  'nuts',
+  'celery',
+  'mustard',
+  'sesame',
+  'sulphites',
+  'lupin',
+  'molluscs'
+] as const;
+
+export const DIETARY_TAGS = ['vegan', 'vegetarian', 'halal'] as const;
+
+export const MAX_SPICY_LEVEL = 3;
+
+export type DietaryInfo = {
+  allergens: string[];
+  dietaryTags: string[];
+  spicyLevel: number;
+};
+
+// What the customer asked to see; items lacking the data (e.g. combos) are hidden while it is set
+export type DietaryFilter = {
+  excludedAllergens: string[];
+  dietaryTags: string[];
+  notSpicy: boolean;
+};
+
+export const EMPTY_DIETARY_FILTER: DietaryFilter = {
+  excludedAllergens: [],
+  dietaryTags: [],
+  notSpicy: false
+};
+
+type DietarySource = Pick<MenuItem, 'allergens' | 'dietary_tags' | 'spicy_level'>;
+
+// A vegan dish is vegetarian too
+const withImpliedTags = (tags: string[] = []): string[] =>
+  tags.includes('vegan') && !tags.includes('vegetarian') ? [...tags, 'vegetarian'] : tags;
+
+// The item as ordered: allergens of the item and every selected topping, the diet tags
+// they all carry, and the hottest spicy level
+export const getDietaryInfo = (
+  item: DietarySource,
+  toppings: Pick<Topping, 'allergens' | 'dietary_tags' | 'spicy_level'>[] = []
+): DietaryInfo => {
+  const sources = [item, ...toppings];
+  const allergens = new Set(sources.flatMap(source => source.allergens || []));
+  const dietaryTags = toppings.reduce(
+    (tags, topping) => tags.filter(tag => withImpliedTags(topping.dietary_tags).includes(tag)),
+    withImpliedTags(item.dietary_tags)
+  );
+
+  return {
+    allergens: ALLERGENS.filter(allergen => allergens.has(allergen)),
+    dietaryTags: DIETARY_TAGS.filter(tag => dietaryTags.includes(tag)),
+    spicyLevel: Math.max(...sources.map(source => source.spicy_level || 0))
+  };
+};
+
+export const isDietaryFilterActive = (filter: DietaryFilter): boolean =>
+  filter.excludedAllergens.length > 0 || filter.dietaryTags.length > 0 || filter.notSpicy;
+
+export const matchesDietaryFilter = (item: DietarySource, filter: DietaryFilter): boolean => {
+  if (!isDietaryFilterActive(filter)) return true;
+  if (!item.allergens || !item.dietary_tags) return false;
+
+  const info = getDietaryInfo(item);
+  if (filter.excludedAllergens.some(allergen => info.allergens.includes(allergen))) return false;
+  if (filter.dietaryTags.some(tag => !info.dietaryTags.includes(tag))) return false;
+  return !filter.notSpicy || info.spicyLevel === 0;
+};
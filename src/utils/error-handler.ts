@@ -33,6 +33,49 @@ export class ValidationError extends Error {
   }
 }
 
+export type OrderSubmissionErrorCode =
+  | 'PRICE_MISMATCH'
+  | 'ITEM_UNAVAILABLE'
+  | 'OPTION_UNAVAILABLE'
+  | 'TOPPING_UNAVAILABLE'
+  | 'EMPTY_ORDER'
+  | 'RESTAURANT_NOT_FOUND'
+  | 'TABLE_REQUIRED'
+  | 'TABLE_UNAVAILABLE'
+  | 'RESTAURANT_CLOSED'
+  | 'COMBO_UNAVAILABLE'
+  | 'ORDER_FAILED';
+
+export interface PriceMismatch {
+  cartItemId: string;
+  menuItemId: string;
+  expectedPrice: number;
+  actualPrice: number;
+}
+
+// Raised by the place_order RPC; nothing has been written when this is thrown
+export class OrderSubmissionError extends Error {
+  code: OrderSubmissionErrorCode;
+  cartItemId?: string;
+  priceMismatches: PriceMismatch[];
+
+  constructor(message: string, code: OrderSubmissionErrorCode = 'ORDER_FAILED', options: { cartItemId?: string; priceMismatches?: PriceMismatch[] } = {}) {
+    super(message);
+    this.name = 'OrderSubmissionError';
+    this.code = code;
+    this.cartItemId = options.cartItemId;
+    this.priceMismatches = options.priceMismatches || [];
+  }
+}
+
+// The menu draft was saved, published or discarded by someone else since it was loaded
+export class MenuDraftConflictError extends Error {
+  constructor() {
+    super('The draft menu was changed or published elsewhere. Reload to see the latest version.');
+    this.name = 'MenuDraftConflictError';
+  }
+}
+
 // Security event logging
 export const logSecurityEvent = (event: string, details: Record<string, any> = {}) => {
   const logEntry = {
@@ -80,6 +123,15 @@ export const handleError = (error: unknown, context: string = 'Unknown'): ErrorD
     };
   }
   
+  if (error instanceof OrderSubmissionError) {
+    return {
+      code: error.code,
+      message: error.message,
+      timestamp,
+      context: { cartItemId: error.cartItemId, priceMismatches: error.priceMismatches, originalContext: context }
+    };
+  }
+
   if (error instanceof Error) {
     console.error(`[Error] ${context}:`, error);
     
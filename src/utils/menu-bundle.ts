@@ -0,0 +1,559 @@
+import { MenuCategory, MenuItem, MenuItemToppingCategory, Topping, ToppingCategory } from "@/types/database-types";
+
+// Portable menu bundle. Ids are those of the exporting restaurant: they only tie the rows
+// together, an import matches them against the target menu and remaps what it creates.
+export const MENU_BUNDLE_FORMAT = 'kiosk-menu-bundle';
+export const MENU_BUNDLE_VERSION = 1;
+
+// Stock counts, stations and recipes belong to a location and are not exported
+export type BundleCategory = Omit<MenuCategory, 'restaurant_id' | 'station_id' | 'created_at' | 'updated_at'>;
+export type BundleItem = Omit<MenuItem, 'topping_categories' | 'stock_quantity' | 'ingredients_available' | 'created_at' | 'updated_at'>;
+export type BundleToppingCategory = Omit<ToppingCategory, 'restaurant_id' | 'created_at' | 'updated_at'>;
+export type BundleTopping = Omit<Topping, 'stock_quantity' | 'ingredients_available' | 'created_at' | 'updated_at'>;
+export type BundleLink = Pick<MenuItemToppingCategory, 'menu_item_id' | 'topping_category_id' | 'display_order'>;
+
+export type MenuBundle = {
+  format: typeof MENU_BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  restaurant_name: string;
+  categories: BundleCategory[];
+  items: BundleItem[];
+  topping_categories: BundleToppingCategory[];
+  toppings: BundleTopping[];
+  item_topping_categories: BundleLink[];
+  master?: MenuMasterSection; // menus of restaurant group locations only
+};
+
+// Prices, hours and translations
+export type OverrideValue = string | number | null;
+
+// A location row following a row of its group's master menu
+export type MasterLink = {
+  kind: MenuImportKind;
+  master_id: string;
+  master: Record<string, OverrideValue>; // master values of the fields the location overrides
+  overrides: Record<string, OverrideValue>;
+};
+
+export type MenuMasterSection = {
+  master_version_id: string; // published master version the menu was last built from
+  rows: Record<string, MasterLink>; // by location row id
+};
+
+// The menu of one restaurant as stored
+export type MenuSnapshot = {
+  categories: MenuCategory[];
+  items: MenuItem[];
+  toppingCategories: ToppingCategory[];
+  toppings: Topping[];
+  links: MenuItemToppingCategory[];
+};
+
+// update: matched rows take the bundle values; skip: matched rows are left alone;
+// copy: nothing is matched, every row is created again
+export type ConflictMode = 'update' | 'skip' | 'copy';
+
+export type MenuImportKind = 'category' | 'item' | 'topping_category' | 'topping';
+export type MenuImportAction = 'create' | 'update' | 'unchanged' | 'skip';
+
+export type MenuImportEntry = {
+  kind: MenuImportKind;
+  sourceId: string;
+  targetId: string | null; // existing row it matched, null when created
+  name: string;
+  action: MenuImportAction;
+  changes: string[]; // columns differing from the existing row
+  values: Record<string, unknown>; // columns to write; category_id and show_if_selection_id still hold bundle ids
+  toppingCategoryIds?: string[]; // items only: linked topping categories, as bundle ids
+};
+
+export type MenuImportPlan = {
+  entries: MenuImportEntry[]; // in write order: topping categories, toppings, categories, items
+};
+
+const TRANSLATION_KEY = /^(name|description)_[a-z]{2}$/;
+
+const FIELDS: Record<MenuImportKind, string[]> = {
+  category: ['name', 'description', 'icon', 'image_url', 'display_order'],
+  item: [
+    'category_id', 'name', 'description', 'price', 'promotion_price', 'image', 'tax_percentage', 'takeaway_tax_percentage',
+    'in_stock', 'display_order', 'available_from', 'available_until', 'allergens', 'dietary_tags', 'spicy_level',
+    'calories', 'protein', 'carbohydrates', 'fat', 'portion_size', 'low_stock_threshold', 'par_level'
+  ],
+  topping_category: [
+    'name', 'description', 'icon', 'min_selections', 'max_selections', 'display_order', 'allow_multiple_same_topping',
+    'show_if_selection_type', 'show_if_selection_id'
+  ],
+  topping: [
+    'category_id', 'name', 'price', 'tax_percentage', 'takeaway_tax_percentage', 'in_stock', 'display_order',
+    'allergens', 'dietary_tags', 'spicy_level', 'calories', 'protein', 'carbohydrates', 'fat', 'portion_size',
+    'low_stock_threshold', 'par_level'
+  ]
+};
+
+// Changed on the live menu by the stock tab; publishing leaves them as they are
+export const LIVE_FIELDS = ['in_stock', 'low_stock_threshold', 'par_level'];
+
+// Known columns and translations only, so a hand-edited bundle cannot write anything else
+const pickFields = (kind: MenuImportKind, row: object): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(row).filter(([key, value]) =>
+    value !== undefined && (FIELDS[kind].includes(key) || TRANSLATION_KEY.test(key))));
+
+const byDisplayOrder = <T extends { display_order?: number | null }>(a: T, b: T) =>
+  (a.display_order || 0) - (b.display_order || 0);
+
+// The bundle columns of a stored row or of form values
+export const toBundleRow = (kind: MenuImportKind, row: { id: string }): Record<string, unknown> & { id: string } =>
+  ({ id: row.id, ...pickFields(kind, row) });
+
+export const buildMenuBundle = (restaurantName: string, snapshot: MenuSnapshot): MenuBundle => ({
+  format: MENU_BUNDLE_FORMAT,
+  version: MENU_BUNDLE_VERSION,
+  exported_at: new Date().toISOString(),
+  restaurant_name: restaurantName,
+  categories: snapshot.categories.map(row => toBundleRow('category', row) as BundleCategory),
+  items: snapshot.items.map(row => toBundleRow('item', row) as BundleItem),
+  topping_categories: snapshot.toppingCategories.map(row => toBundleRow('topping_category', row) as BundleToppingCategory),
+  toppings: snapshot.toppings.map(row => toBundleRow('topping', row) as BundleTopping),
+  item_topping_categories: snapshot.links.map(({ menu_item_id, topping_category_id, display_order }) =>
+    ({ menu_item_id, topping_category_id, display_order }))
+});
+
+// Rows shaped like the stored ones, for screens reading a bundle instead of the menu tables
+export const bundleToSnapshot = (bundle: MenuBundle, restaurantId: string, timestamp: string): MenuSnapshot => {
+  const stamps = { created_at: timestamp, updated_at: timestamp };
+  const links = bundle.item_topping_categories.map(link => ({
+    id: `${link.menu_item_id}:${link.topping_category_id}`,
+    ...link,
+    ...stamps
+  }));
+
+  return {
+    categories: bundle.categories.map(row => ({
+      description: null, icon: null, image_url: null, ...row, restaurant_id: restaurantId, ...stamps
+    })),
+    items: bundle.items.map(row => ({
+      description: null, promotion_price: null, image: null, in_stock: true, ...row, ...stamps,
+      topping_categories: links
+        .filter(link => link.menu_item_id === row.id)
+        .sort(byDisplayOrder)
+        .map(link => link.topping_category_id)
+    })),
+    toppingCategories: bundle.topping_categories.map(row => ({
+      description: null, icon: null, min_selections: null, max_selections: null, ...row, restaurant_id: restaurantId, ...stamps
+    })),
+    toppings: bundle.toppings.map(row => ({ tax_percentage: null, in_stock: true, ...row, ...stamps })),
+    links
+  };
+};
+
+const hasIdAndName = (row: unknown): boolean =>
+  typeof row === 'object' && row !== null &&
+  typeof (row as { id?: unknown }).id === 'string' && typeof (row as { name?: unknown }).name === 'string';
+
+// Throws with a message fit for the admin when the text is not a usable bundle
+export const parseMenuBundle = (text: string): MenuBundle => {
+  let bundle: MenuBundle;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  if (bundle?.format !== MENU_BUNDLE_FORMAT) {
+    throw new Error("The file is not a menu export");
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > MENU_BUNDLE_VERSION) {
+    throw new Error("The menu export was made by a newer version");
+  }
+
+  const lists = [bundle.categories, bundle.items, bundle.topping_categories, bundle.toppings];
+  if (!lists.every(list => Array.isArray(list) && list.every(hasIdAndName)) || !Array.isArray(bundle.item_topping_categories)) {
+    throw new Error("The menu export is incomplete");
+  }
+
+  const categoryIds = new Set(bundle.categories.map(row => row.id));
+  const toppingCategoryIds = new Set(bundle.topping_categories.map(row => row.id));
+  const orphan = bundle.items.find(row => !categoryIds.has(row.category_id))
+    || bundle.toppings.find(row => !toppingCategoryIds.has(row.category_id));
+  if (orphan) {
+    throw new Error(`"${orphan.name}" belongs to a category missing from the export`);
+  }
+
+  return bundle;
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+type Row = { id: string; name: string; category_id?: string };
+
+// Matches bundle rows of one kind against the existing ones: by id first, as when re-importing
+// into the exporting restaurant, then by name within the matched parent
+const planRows = (
+  kind: MenuImportKind,
+  sourceRows: Row[],
+  existingRows: Row[],
+  mode: ConflictMode,
+  idMap: Map<string, string>
+): MenuImportEntry[] => {
+  const claimed = new Set<string>();
+  const hasParent = kind === 'item' || kind === 'topping';
+
+  return sourceRows.map(source => {
+    const values = pickFields(kind, source);
+    const parentId = hasParent ? idMap.get(source.category_id!) : undefined;
+    const unclaimed = existingRows.filter(row => !claimed.has(row.id));
+    const match = mode === 'copy' ? undefined
+      : unclaimed.find(row => row.id === source.id)
+        || unclaimed.find(row => (!hasParent || (parentId && row.category_id === parentId))
+          && normalizeName(row.name) === normalizeName(source.name));
+
+    if (!match) {
+      return { kind, sourceId: source.id, targetId: null, name: source.name, action: 'create', changes: [], values };
+    }
+
+    claimed.add(match.id);
+    idMap.set(source.id, match.id);
+    const changes = Object.keys(values).filter(key => {
+      if (key === 'category_id') return parentId !== match.category_id;
+      if (key === 'show_if_selection_id') return false; // compared once the toppings are matched
+      return !sameValue(values[key], (match as Record<string, unknown>)[key]);
+    });
+
+    return {
+      kind,
+      sourceId: source.id,
+      targetId: match.id,
+      name: source.name,
+      action: mode === 'skip' ? 'skip' : changes.length > 0 ? 'update' : 'unchanged',
+      changes,
+      values
+    };
+  });
+};
+
+// Bundle ids mapped to existing ones; an id still to be created never matches an existing one
+const remapIds = (ids: string[], idMap: Map<string, string>) => ids.map(id => idMap.get(id) ?? `new:${id}`);
+
+// The dry run: what an import of the bundle would do to the given menu
+export const planMenuImport = (bundle: MenuBundle, snapshot: MenuSnapshot, mode: ConflictMode): MenuImportPlan => {
+  const idMap = new Map<string, string>();
+
+  const toppingCategories = planRows('topping_category', bundle.topping_categories, snapshot.toppingCategories, mode, idMap);
+  const toppings = planRows('topping', bundle.toppings, snapshot.toppings, mode, idMap);
+  const categories = planRows('category', bundle.categories, snapshot.categories, mode, idMap);
+  const items = planRows('item', bundle.items, snapshot.items, mode, idMap);
+
+  const markChanged = (entry: MenuImportEntry, field: string) => {
+    entry.changes.push(field);
+    if (entry.action === 'unchanged') entry.action = 'update';
+  };
+
+  toppingCategories.forEach(entry => {
+    const existing = snapshot.toppingCategories.find(row => row.id === entry.targetId);
+    const sourceIds = (entry.values.show_if_selection_id as string[] | null) || [];
+    if (existing && !sameValue(remapIds(sourceIds, idMap), existing.show_if_selection_id || [])) {
+      markChanged(entry, 'show_if_selection_id');
+    }
+  });
+
+  items.forEach(entry => {
+    entry.toppingCategoryIds = bundle.item_topping_categories
+      .filter(link => link.menu_item_id === entry.sourceId)
+      .sort(byDisplayOrder)
+      .map(link => link.topping_category_id);
+
+    const existingIds = snapshot.links
+      .filter(link => link.menu_item_id === entry.targetId)
+      .sort(byDisplayOrder)
+      .map(link => link.topping_category_id);
+    if (entry.targetId && !sameValue(remapIds(entry.toppingCategoryIds, idMap), existingIds)) {
+      markChanged(entry, 'topping_categories');
+    }
+  });
+
+  return { entries: [...toppingCategories, ...toppings, ...categories, ...items] };
+};
+
+const BUNDLE_LISTS: Record<MenuImportKind, 'categories' | 'items' | 'topping_categories' | 'toppings'> = {
+  category: 'categories',
+  item: 'items',
+  topping_category: 'topping_categories',
+  topping: 'toppings'
+};
+
+// Writes a planned import into a bundle, e.g. a draft menu. Created rows get ids from newId
+// up front, so references between them resolve in one pass.
+export const applyMenuImportPlan = (bundle: MenuBundle, plan: MenuImportPlan, newId: () => string) => {
+  const idMap = new Map<string, string>();
+  plan.entries.forEach(entry => idMap.set(entry.sourceId, entry.targetId ?? newId()));
+  const remap = (ids: string[] | null | undefined) => (ids || []).map(id => idMap.get(id)).filter(Boolean) as string[];
+
+  plan.entries
+    .filter(entry => entry.action === 'create' || entry.action === 'update')
+    .forEach(entry => {
+      const id = idMap.get(entry.sourceId)!;
+      const values: Record<string, unknown> = { ...entry.values, id };
+      if (typeof values.category_id === 'string') values.category_id = idMap.get(values.category_id);
+      if (Array.isArray(values.show_if_selection_id)) {
+        const ids = remap(values.show_if_selection_id);
+        values.show_if_selection_id = ids.length > 0 ? ids : null;
+      }
+
+      const list = bundle[BUNDLE_LISTS[entry.kind]] as Record<string, unknown>[];
+      const index = list.findIndex(row => row.id === id);
+      if (index >= 0) list[index] = { ...list[index], ...values };
+      else list.push(values);
+
+      if (entry.kind === 'item') {
+        bundle.item_topping_categories = [
+          ...bundle.item_topping_categories.filter(link => link.menu_item_id !== id),
+          ...remap(entry.toppingCategoryIds).map((topping_category_id, display_order) =>
+            ({ menu_item_id: id, topping_category_id, display_order }))
+        ];
+      }
+    });
+};
+
+// What a group location may change on master menu rows, besides translations and LIVE_FIELDS
+const OVERRIDE_FIELDS: Record<MenuImportKind, string[]> = {
+  category: [],
+  item: ['price', 'promotion_price', 'available_from', 'available_until'],
+  topping_category: [],
+  topping: ['price']
+};
+
+const isOverrideField = (kind: MenuImportKind, key: string) => OVERRIDE_FIELDS[kind].includes(key) || TRANSLATION_KEY.test(key);
+
+const pickKeys = (row: Record<string, unknown>, keys: string[]) =>
+  Object.fromEntries(keys.filter(key => key in row).map(key => [key, row[key]]));
+
+// Parents first, so that rows can be placed under the location's copy of their parent
+const MERGE_ORDER: MenuImportKind[] = ['topping_category', 'topping', 'category', 'item'];
+
+// Rebuilds a location menu on its group's master menu. Rows following the master take its
+// values except the overrides and LIVE_FIELDS; those the master no longer has are dropped. A
+// location row named like a master row (within the same parent) starts following it, its
+// differing prices, hours and translations kept as overrides. The location's own rows stay.
+// newId gives the location id of a master row the location does not have yet.
+export const mergeMasterMenu = (
+  master: MenuBundle,
+  masterVersionId: string,
+  location: MenuBundle,
+  newId: (masterId: string) => string
+): MenuBundle => {
+  const links = location.master?.rows ?? {};
+  const section: MenuMasterSection = { master_version_id: masterVersionId, rows: {} };
+  const merged: MenuBundle = {
+    ...location,
+    categories: [],
+    items: [],
+    topping_categories: [],
+    toppings: [],
+    item_topping_categories: [],
+    master: section
+  };
+  const idMap = new Map<string, string>(); // master id -> location id
+  const localItemIds = new Set<string>();
+
+  MERGE_ORDER.forEach(kind => {
+    const hasParent = kind === 'item' || kind === 'topping';
+    const parents = new Set((kind === 'item' ? merged.categories : merged.topping_categories).map(row => row.id));
+    const rows = location[BUNDLE_LISTS[kind]] as (Row & Record<string, unknown>)[];
+    const target = merged[BUNDLE_LISTS[kind]] as Record<string, unknown>[];
+    const claimed = new Set<string>();
+
+    (master[BUNDLE_LISTS[kind]] as Row[]).forEach(masterRow => {
+      const values = pickFields(kind, masterRow);
+      if (hasParent) values.category_id = idMap.get(masterRow.category_id!);
+
+      const existing = rows.find(row => links[row.id]?.master_id === masterRow.id)
+        || rows.find(row => !links[row.id] && !claimed.has(row.id)
+          && (!hasParent || row.category_id === values.category_id) && normalizeName(row.name) === normalizeName(masterRow.name));
+      const id = existing?.id ?? newId(masterRow.id);
+      claimed.add(id);
+      idMap.set(masterRow.id, id);
+
+      let overrides: Record<string, OverrideValue> = {};
+      if (existing && links[existing.id]) {
+        overrides = links[existing.id].overrides;
+      } else if (existing) {
+        // Values the location never set, e.g. a missing translation, are taken from the master
+        overrides = Object.fromEntries(Object.keys({ ...values, ...existing })
+          .filter(key => isOverrideField(kind, key) && existing[key] != null && !sameValue(values[key], existing[key]))
+          .map(key => [key, (existing[key] ?? null) as OverrideValue]));
+      }
+
+      const overridden = Object.keys({ ...values, ...overrides }).filter(key => isOverrideField(kind, key));
+      section.rows[id] = {
+        kind,
+        master_id: masterRow.id,
+        master: Object.fromEntries(overridden.map(key => [key, (values[key] ?? null) as OverrideValue])),
+        overrides
+      };
+      target.push({ ...values, ...(existing ? pickKeys(existing, LIVE_FIELDS) : {}), ...overrides, id });
+    });
+
+    rows
+      .filter(row => !links[row.id] && !claimed.has(row.id) && (!hasParent || parents.has(row.category_id!)))
+      .forEach(row => {
+        if (kind === 'item') localItemIds.add(row.id);
+        target.push(row);
+      });
+  });
+
+  // Display conditions of master topping categories point at the location's toppings
+  merged.topping_categories.forEach(row => {
+    if (!section.rows[row.id] || !Array.isArray(row.show_if_selection_id)) return;
+    const ids = row.show_if_selection_id.map(id => idMap.get(id)).filter(Boolean) as string[];
+    row.show_if_selection_id = ids.length > 0 ? ids : null;
+  });
+
+  const toppingCategoryIds = new Set(merged.topping_categories.map(row => row.id));
+  merged.item_topping_categories = [
+    ...master.item_topping_categories
+      .map(link => ({
+        menu_item_id: idMap.get(link.menu_item_id)!,
+        topping_category_id: idMap.get(link.topping_category_id)!,
+        display_order: link.display_order
+      }))
+      .filter(link => link.menu_item_id && link.topping_category_id),
+    ...location.item_topping_categories
+      .filter(link => localItemIds.has(link.menu_item_id) && toppingCategoryIds.has(link.topping_category_id))
+  ];
+
+  return merged;
+};
+
+// Keeps the master menu rows of a location menu as the master has them after an edit: changed
+// prices, hours and translations become overrides, other changes are undone. Removing such a
+// row throws, as the next master update would bring it back.
+export const keepMasterRows = (before: MenuBundle, after: MenuBundle) => {
+  if (!after.master) return;
+
+  Object.entries(after.master.rows).forEach(([id, link]) => {
+    const list = after[BUNDLE_LISTS[link.kind]] as Record<string, unknown>[];
+    const index = list.findIndex(row => row.id === id);
+    const previous = (before[BUNDLE_LISTS[link.kind]] as Record<string, unknown>[]).find(row => row.id === id);
+    if (index < 0 && !previous) {
+      // Removed from the menu tables by other means before the draft was started
+      delete after.master!.rows[id];
+      return;
+    }
+    if (index < 0) {
+      throw new Error(`"${previous?.name ?? id}" comes from the group master menu and cannot be removed at this location`);
+    }
+    if (!previous) return;
+
+    const row = { ...list[index] };
+    Object.keys({ ...previous, ...row }).forEach(key => {
+      if (key === 'id' || LIVE_FIELDS.includes(key)) return;
+      if (!isOverrideField(link.kind, key)) {
+        if (key in previous) row[key] = previous[key];
+        else delete row[key];
+      } else if (!sameValue(row[key], previous[key])) {
+        if (!(key in link.master)) link.master[key] = (previous[key] ?? null) as OverrideValue;
+        if (sameValue(row[key], link.master[key])) delete link.overrides[key];
+        else link.overrides[key] = (row[key] ?? null) as OverrideValue;
+      }
+    });
+    list[index] = row;
+  });
+
+  // Master items keep the master's topping categories
+  const rows = after.master.rows;
+  const isMasterItem = (id: string) => rows[id]?.kind === 'item';
+  after.item_topping_categories = [
+    ...after.item_topping_categories.filter(link => !isMasterItem(link.menu_item_id)),
+    ...before.item_topping_categories.filter(link => isMasterItem(link.menu_item_id))
+  ];
+};
+
+// Puts the master values back on a location row
+export const resetMasterOverrides = (bundle: MenuBundle, id: string) => {
+  const link = bundle.master?.rows[id];
+  if (!link) return;
+
+  const list = bundle[BUNDLE_LISTS[link.kind]] as Record<string, unknown>[];
+  const index = list.findIndex(row => row.id === id);
+  if (index >= 0) list[index] = { ...list[index], ...link.master };
+  link.overrides = {};
+};
+
+// Flat price sheet for bulk edits in a spreadsheet
+export const PRICE_CSV_HEADER = ['type', 'id', 'category', 'name', 'price', 'promotion_price', 'tax_percentage', 'takeaway_tax_percentage'];
+
+type PriceField = 'price' | 'promotion_price' | 'tax_percentage' | 'takeaway_tax_percentage';
+
+const PRICE_FIELDS: PriceField[] = ['price', 'promotion_price', 'tax_percentage', 'takeaway_tax_percentage'];
+
+export type PriceChange = { field: PriceField; from: number | null; to: number | null };
+
+export type PriceImportRow = {
+  line: number;
+  type: 'item' | 'topping';
+  name: string;
+  targetId: string | null;
+  changes: PriceChange[];
+  error: string | null;
+};
+
+export const buildPriceCsvRows = (snapshot: MenuSnapshot): unknown[][] => {
+  const categoryName = (rows: { id: string; name: string }[], id: string) => rows.find(row => row.id === id)?.name ?? '';
+  return [
+    PRICE_CSV_HEADER,
+    ...snapshot.items.map(item => [
+      'item', item.id, categoryName(snapshot.categories, item.category_id), item.name,
+      item.price, item.promotion_price, item.tax_percentage, item.takeaway_tax_percentage
+    ]),
+    ...snapshot.toppings.map(topping => [
+      'topping', topping.id, categoryName(snapshot.toppingCategories, topping.category_id), topping.name,
+      topping.price, '', topping.tax_percentage, topping.takeaway_tax_percentage
+    ])
+  ];
+};
+
+// Accepts a decimal comma and a trailing currency sign; null for an empty cell, NaN when invalid
+const parsePrice = (value: string): number | null => {
+  const cleaned = value.replace(/[\s€$£%]/g, '').replace(',', '.');
+  if (cleaned === '') return null;
+  const number = Number(cleaned);
+  return number >= 0 ? number : NaN;
+};
+
+// Rows of an edited price sheet, matched by id or by category and name. Missing columns keep
+// the current values, an empty cell clears a promotion or tax rate.
+export const planPriceImport = (records: Record<string, string>[], snapshot: MenuSnapshot): PriceImportRow[] =>
+  records.map((record, index) => {
+    const type = record.type?.toLowerCase() === 'topping' ? 'topping' : 'item';
+    const rows: (MenuItem | Topping)[] = type === 'topping' ? snapshot.toppings : snapshot.items;
+    const categories: { id: string; name: string }[] = type === 'topping' ? snapshot.toppingCategories : snapshot.categories;
+    const name = record.name || '';
+    const target = record.id
+      ? rows.find(row => row.id === record.id)
+      : rows.find(row => normalizeName(row.name) === normalizeName(name)
+        && (!record.category || normalizeName(categories.find(c => c.id === row.category_id)?.name ?? '') === normalizeName(record.category)));
+
+    // Line numbers as shown in a spreadsheet, after the header
+    const row: PriceImportRow = { line: index + 2, type, name: name || record.id || '', targetId: target?.id ?? null, changes: [], error: null };
+    if (!target) {
+      row.error = `No matching ${type === 'topping' ? 'topping' : 'menu item'}`;
+      return row;
+    }
+
+    PRICE_FIELDS.forEach(field => {
+      if (!(field in record) || (type === 'topping' && field === 'promotion_price')) return;
+      const to = parsePrice(record[field]);
+      if (Number.isNaN(to) || (field === 'price' && to === null)) {
+        row.error = row.error || `Invalid ${field}`;
+        return;
+      }
+      const from = (target as Partial<Record<PriceField, number | null>>)[field] ?? null;
+      if (!sameValue(from, to)) row.changes.push({ field, from, to });
+    });
+
+    return row;
+  });
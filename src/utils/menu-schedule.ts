@@ -0,0 +1,141 @@
+import { MenuCategory, MenuHolidayOverride, MenuSchedule, RestaurantMenuSchedule } from "@/types/database-types";
+
+// A wall-clock moment in the restaurant's timezone
+export interface LocalDateTime {
+  date: string; // "YYYY-MM-DD"
+  weekday: number; // 0 = Sunday
+  minutes: number; // minutes since midnight
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const parseTimeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// Used when the browser cannot list its zones (Intl.supportedValuesOf)
+const FALLBACK_TIMEZONES = [
+  'UTC', 'Europe/Paris', 'Europe/Brussels', 'Europe/Zurich', 'Europe/Luxembourg', 'Europe/London',
+  'Europe/Madrid', 'Europe/Berlin', 'Europe/Rome', 'Europe/Istanbul', 'America/Montreal',
+  'America/New_York', 'America/Los_Angeles', 'Africa/Casablanca', 'Indian/Reunion', 'America/Martinique'
+];
+
+export const isValidTimeZone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// IANA zone names the browser knows, for timezone pickers
+export const getTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf?.('timeZone') ?? FALLBACK_TIMEZONES;
+  return zones.includes('UTC') ? zones : ['UTC', ...zones];
+};
+
+// Falls back to the device clock when the restaurant's timezone is not a valid IANA name
+export const getLocalDateTime = (timezone: string, at: Date = new Date()): LocalDateTime => {
+  try {
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone || 'UTC',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23'
+      }).formatToParts(at).map(part => [part.type, part.value])
+    );
+
+    return {
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+      weekday: WEEKDAYS.indexOf(parts.weekday),
+      minutes: Number(parts.hour) * 60 + Number(parts.minute)
+    };
+  } catch (error) {
+    console.warn(`Invalid restaurant timezone "${timezone}", using the device clock`);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return {
+      date: `${at.getFullYear()}-${pad(at.getMonth() + 1)}-${pad(at.getDate())}`,
+      weekday: at.getDay(),
+      minutes: at.getHours() * 60 + at.getMinutes()
+    };
+  }
+};
+
+export const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+export const weekdayOf = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+// "date at time" on the restaurant's clock, e.g. for previewing the kiosk at another moment
+export const toLocalDateTime = (date: string, time: string): LocalDateTime => ({
+  date,
+  weekday: weekdayOf(date),
+  minutes: parseTimeToMinutes(time)
+});
+
+// Weekday whose windows apply on a date, null when a holiday turns scheduled menus off
+const getScheduleWeekday = (date: string, overrides: MenuHolidayOverride[]): number | null => {
+  const override = overrides.find(o => o.override_date === date);
+  return override ? override.schedule_weekday : weekdayOf(date);
+};
+
+// A window that runs past midnight is still open early the next day
+const isScheduleOpen = (
+  schedule: MenuSchedule,
+  today: number | null,
+  yesterday: number | null,
+  minutes: number
+): boolean => {
+  const start = parseTimeToMinutes(schedule.start_time);
+  const end = parseTimeToMinutes(schedule.end_time);
+
+  if (start < end) {
+    return schedule.weekday === today && minutes >= start && minutes < end;
+  }
+
+  return (schedule.weekday === today && minutes >= start) ||
+    (schedule.weekday === yesterday && minutes < end);
+};
+
+export const getActiveMenuIds = (schedule: RestaurantMenuSchedule, local: LocalDateTime): string[] => {
+  const today = getScheduleWeekday(local.date, schedule.overrides);
+  const yesterday = getScheduleWeekday(addDays(local.date, -1), schedule.overrides);
+
+  return schedule.menus
+    .filter(menu => menu.schedules.some(s => isScheduleOpen(s, today, yesterday, local.minutes)))
+    .map(menu => menu.id);
+};
+
+// Keeps the categories that belong to no menu, or to a menu open at that time
+export const filterCategoriesBySchedule = <T extends Pick<MenuCategory, 'id'>>(
+  categories: T[],
+  schedule: RestaurantMenuSchedule,
+  local: LocalDateTime
+): T[] => {
+  const activeMenuIds = new Set(getActiveMenuIds(schedule, local));
+  const menusByCategory = new Map<string, string[]>();
+
+  schedule.menus.forEach(menu => {
+    menu.category_ids.forEach(categoryId => {
+      menusByCategory.set(categoryId, [...(menusByCategory.get(categoryId) || []), menu.id]);
+    });
+  });
+
+  return categories.filter(category => {
+    const menuIds = menusByCategory.get(category.id);
+    return !menuIds || menuIds.some(menuId => activeMenuIds.has(menuId));
+  });
+};
@@ -0,0 +1,68 @@
+import { CartItem, MenuItem, MenuItemWithOptions } from "@/types/database-types";
+import { expandComboComponents } from "@/utils/combo-utils";
+
+export type NutritionTotals = {
+  calories: number;
+  protein: number;
+  carbohydrates: number;
+  fat: number;
+  complete: boolean; // false when some item has no nutrition values
+};
+
+// Numeric nutrition columns of menu items and toppings
+export const NUTRITION_FIELDS = ['calories', 'protein', 'carbohydrates', 'fat'] as const;
+
+type NutritionSource = Pick<MenuItem, 'calories' | 'protein' | 'carbohydrates' | 'fat'>;
+
+const EMPTY_TOTALS: NutritionTotals = { calories: 0, protein: 0, carbohydrates: 0, fat: 0, complete: true };
+
+const addNutrition = (totals: NutritionTotals, source: NutritionSource, units: number): NutritionTotals => ({
+  calories: totals.calories + Number(source.calories || 0) * units,
+  protein: totals.protein + Number(source.protein || 0) * units,
+  carbohydrates: totals.carbohydrates + Number(source.carbohydrates || 0) * units,
+  fat: totals.fat + Number(source.fat || 0) * units,
+  complete: totals.complete
+});
+
+// The selected toppings of a line with their quantities; a topping without a quantity counts once
+export const getSelectedToppingUnits = (
+  menuItem: MenuItemWithOptions,
+  selectedToppings: CartItem['selectedToppings']
+) => selectedToppings.flatMap(selection => {
+  const category = menuItem.toppingCategories?.find(c => c.id === selection.categoryId);
+  return (category?.toppings || [])
+    .filter(topping => selection.toppingIds.includes(topping.id))
+    .map(topping => ({ topping, quantity: selection.toppingQuantities?.[topping.id] ?? 1 }));
+});
+
+// One unit of the item with its toppings, or null when the item has no calorie value.
+// Toppings without values count as nothing, e.g. "no onions".
+export const getItemNutrition = (
+  menuItem: MenuItemWithOptions,
+  selectedToppings: CartItem['selectedToppings']
+): NutritionTotals | null => {
+  if (menuItem.calories === null || menuItem.calories === undefined) return null;
+
+  return getSelectedToppingUnits(menuItem, selectedToppings).reduce(
+    (totals, { topping, quantity }) => addNutrition(totals, topping, quantity),
+    addNutrition(EMPTY_TOTALS, menuItem, 1)
+  );
+};
+
+// The whole cart, combos counted by their components; null when no item has values
+export const getCartNutrition = (cart: CartItem[]): NutritionTotals | null => {
+  const lines = expandComboComponents(cart).map(line => ({
+    nutrition: getItemNutrition(line.menuItem, line.selectedToppings),
+    quantity: line.quantity
+  }));
+  if (!lines.some(line => line.nutrition)) return null;
+
+  return lines.reduce(
+    (totals, { nutrition, quantity }) => nutrition
+      ? addNutrition(totals, nutrition, quantity)
+      : { ...totals, complete: false },
+    EMPTY_TOTALS
+  );
+};
+
+export const formatCalories = (calories: number): string => `${Math.round(calories)} kcal`;
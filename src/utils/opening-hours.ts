@@ -0,0 +1,63 @@
+import { OpeningHours, RestaurantClosure, RestaurantOpeningSchedule } from "@/types/database-types";
+import { LocalDateTime, addDays, parseTimeToMinutes, weekdayOf } from "@/utils/menu-schedule";
+
+// When the restaurant takes orders again, on its own clock
+export interface NextOpening {
+  date: string; // "YYYY-MM-DD"
+  weekday: number; // 0 = Sunday
+  time: string | null; // "HH:MM", null when it reopens at midnight after a closure
+}
+
+// How far ahead the kiosk looks for the next opening; a longer closure shows no date
+const NEXT_OPENING_LOOKAHEAD_DAYS = 31;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const isClosedOn = (date: string, closures: RestaurantClosure[]): boolean =>
+  closures.some(closure => date >= closure.starts_on && date <= closure.ends_on);
+
+const getOpeningHoursOn = (date: string, schedule: RestaurantOpeningSchedule): OpeningHours[] =>
+  isClosedOn(date, schedule.closures) ? [] : schedule.hours.filter(h => h.weekday === weekdayOf(date));
+
+// Same rules as is_restaurant_open in the database, which has the final say at order time
+export const isRestaurantOpen = (schedule: RestaurantOpeningSchedule, local: LocalDateTime): boolean => {
+  if (schedule.hours.length === 0) {
+    return !isClosedOn(local.date, schedule.closures);
+  }
+
+  // Minutes since the midnight the window opened after; yesterday's windows may run past midnight
+  const isWithin = (date: string, minutes: number) =>
+    getOpeningHoursOn(date, schedule).some(h => {
+      const open = parseTimeToMinutes(h.open_time);
+      let close = parseTimeToMinutes(h.close_time);
+      if (close <= open) close += MINUTES_PER_DAY;
+      return minutes >= open && minutes < close - (schedule.last_order_minutes || 0);
+    });
+
+  return isWithin(local.date, local.minutes) || isWithin(addDays(local.date, -1), local.minutes + MINUTES_PER_DAY);
+};
+
+// Only meaningful while the restaurant is closed
+export const getNextOpening = (schedule: RestaurantOpeningSchedule, local: LocalDateTime): NextOpening | null => {
+  for (let offset = 0; offset <= NEXT_OPENING_LOOKAHEAD_DAYS; offset++) {
+    const date = addDays(local.date, offset);
+
+    if (schedule.hours.length === 0) {
+      if (offset > 0 && !isClosedOn(date, schedule.closures)) {
+        return { date, weekday: weekdayOf(date), time: null };
+      }
+      continue;
+    }
+
+    const opening = getOpeningHoursOn(date, schedule)
+      .map(h => h.open_time.slice(0, 5))
+      .sort()
+      .find(time => offset > 0 || parseTimeToMinutes(time) > local.minutes);
+
+    if (opening) {
+      return { date, weekday: weekdayOf(date), time: opening };
+    }
+  }
+
+  return null;
+};
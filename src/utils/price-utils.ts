@@ -1,5 +1,16 @@
 
-import { CartItem } from "@/types/database-types";
+import {
+  AppliedPromotion,
+  CartComboComponent,
+  CartItem,
+  MenuItemWithOptions,
+  Order,
+  OrderType,
+  Promotion,
+  TaxRateSummary
+} from "@/types/database-types";
+import { getLocalDateTime, LocalDateTime } from "@/utils/menu-schedule";
+import { isPromotionActive, sortPromotions } from "@/utils/promotions";
 
 export const calculatePriceWithoutTax = (totalPrice: number, percentage: number = 10): number => {
   if (percentage === null || percentage === undefined) percentage = 10;
@@ -39,73 +50,293 @@ export const isItemAvailable = (item: any): boolean => {
   }
 };
 
-// Updated utility function to calculate cart totals with proper topping VAT and quantity
-export const calculateCartTotals = (cart: CartItem[]) => {
-  let total = 0;
-  let totalTax = 0;
-
-  cart.forEach(item => {
-    const vatPercentage = item.menuItem.tax_percentage ?? 10;
-    
-    // Use pre-calculated itemPrice if available (from customization dialog)
-    if (item.itemPrice !== undefined && item.itemPrice !== null) {
-      // For items with pre-calculated price, multiply by quantity
-      const itemTotal = item.quantity * item.itemPrice;
-      const itemTax = calculateTaxAmount(itemTotal, vatPercentage);
-      
-      total += itemTotal;
-      totalTax += itemTax;
-    } else {
-      // Fallback to calculation for items without pre-calculated price
-      const baseItemTotal = item.quantity * (item.menuItem.price || 0);
-      let itemToppingsTotal = 0;
-      let itemToppingsTax = 0;
-      
-      // Calculate toppings price and tax separately
-      if (item.selectedToppings && item.menuItem.toppingCategories) {
-        item.selectedToppings.forEach(toppingCategory => {
-          const category = item.menuItem.toppingCategories?.find(cat => cat.id === toppingCategory.categoryId);
-          if (category) {
-            toppingCategory.toppingIds.forEach(toppingId => {
-              const topping = category.toppings.find(t => t.id === toppingId);
-              if (topping) {
-                // Get the topping quantity from toppingQuantities or default to 1
-                const toppingQuantity = 
-                  toppingCategory.toppingQuantities && 
-                  toppingCategory.toppingQuantities[toppingId] 
-                    ? toppingCategory.toppingQuantities[toppingId] 
-                    : 1;
-                
-                // Calculate the total price for this topping considering BOTH item quantity and topping quantity
-                const toppingPrice = topping.price 
-                  ? parseFloat(topping.price.toString()) * item.quantity * toppingQuantity 
-                  : 0;
-                
-                itemToppingsTotal += toppingPrice;
-                
-                // Use topping specific tax rate if available
-                const toppingVatPercentage = topping.tax_percentage ?? vatPercentage; 
-                itemToppingsTax += calculateTaxAmount(toppingPrice, toppingVatPercentage);
-              }
-            });
-          }
+export type TaxOptions = {
+  orderType?: OrderType;
+  pricesIncludeTax?: boolean; // defaults to true, tax is then included in menu prices
+  promotions?: Promotion[]; // evaluated against the cart, as place_order does
+  timezone?: string; // restaurant's, for the promotions' days and hours
+};
+
+export type CartTotals = {
+  total: number;
+  subtotal: number;
+  tax: number;
+  rates: TaxRateSummary[];
+  discount: number; // already deducted from subtotal and tax
+  promotions: AppliedPromotion[];
+};
+
+export const roundCurrency = (amount: number): number => Math.round((amount + Number.EPSILON) * 100) / 100;
+
+// Rate of a menu item or topping, its takeaway rate applying to takeaway orders
+export const getTaxRate = (
+  source: { tax_percentage?: number | null; takeaway_tax_percentage?: number | null },
+  orderType?: OrderType,
+  fallback: number = 10
+): number => {
+  if (orderType === 'takeaway' && source.takeaway_tax_percentage !== null && source.takeaway_tax_percentage !== undefined) {
+    return Number(source.takeaway_tax_percentage);
+  }
+  return source.tax_percentage !== null && source.tax_percentage !== undefined ? Number(source.tax_percentage) : fallback;
+};
+
+// What the chosen option choices add to one unit of an item
+const getChoicesPrice = (menuItem: MenuItemWithOptions, selectedOptions: CartItem['selectedOptions']): number =>
+  (selectedOptions || []).reduce((sum, option) => {
+    const optionDef = menuItem.options?.find(o => o.id === option.optionId);
+    return sum + option.choiceIds.reduce((choiceSum, choiceId) =>
+      choiceSum + Number(optionDef?.choices.find(c => c.id === choiceId)?.price || 0), 0);
+  }, 0);
+
+// What a combo component adds to the bundle price: its upcharge, option choices and toppings
+export const getComboComponentPrice = (component: CartComboComponent): number => {
+  let price = Number(component.upcharge || 0) + getChoicesPrice(component.menuItem, component.selectedOptions);
+  component.selectedToppings?.forEach(selection => {
+    const category = component.menuItem.toppingCategories?.find(cat => cat.id === selection.categoryId);
+    selection.toppingIds.forEach(toppingId => {
+      const topping = category?.toppings.find(t => t.id === toppingId);
+      price += Number(topping?.price || 0) * (selection.toppingQuantities?.[toppingId] || 1);
+    });
+  });
+  return price;
+};
+
+// Unit price of a combo line, as place_order computes it
+export const getComboUnitPrice = (comboPrice: number, components: CartComboComponent[]): number =>
+  roundCurrency(components.reduce((sum, component) => sum + getComboComponentPrice(component), Number(comboPrice)));
+
+// Amount paid at each rate for a cart line: toppings at their own rate (the item's
+// when they have none), the base price and option choices at the item's rate. A
+// combo's bundle price is taxed at the combo's rate, each component's extras at the
+// component's.
+const getLineAmountsByRate = (item: CartItem, orderType?: OrderType): Map<number, number> => {
+  const amounts = new Map<number, number>();
+  const add = (rate: number, amount: number) => amounts.set(rate, (amounts.get(rate) || 0) + amount);
+
+  // Adds the toppings of quantity units at their rates and returns their total
+  const addToppings = (
+    menuItem: MenuItemWithOptions,
+    selectedToppings: CartItem['selectedToppings'],
+    quantity: number,
+    itemRate: number
+  ): number => {
+    let toppingsTotal = 0;
+    selectedToppings?.forEach(selection => {
+      const category = menuItem.toppingCategories?.find(cat => cat.id === selection.categoryId);
+      selection.toppingIds.forEach(toppingId => {
+        const topping = category?.toppings.find(t => t.id === toppingId);
+        if (!topping) return;
+
+        const toppingQuantity = selection.toppingQuantities?.[toppingId] || 1;
+        const amount = Number(topping.price || 0) * toppingQuantity * quantity;
+        toppingsTotal += amount;
+        add(getTaxRate(topping, orderType, itemRate), amount);
+      });
+    });
+    return toppingsTotal;
+  };
+
+  const itemRate = getTaxRate(item.menuItem, orderType);
+
+  if (item.comboComponents) {
+    let componentsTotal = 0;
+    item.comboComponents.forEach(component => {
+      const componentRate = getTaxRate(component.menuItem, orderType);
+      const extras = item.quantity * (Number(component.upcharge || 0) + getChoicesPrice(component.menuItem, component.selectedOptions));
+      add(componentRate, extras);
+      componentsTotal += extras + addToppings(component.menuItem, component.selectedToppings, item.quantity, componentRate);
+    });
+
+    // itemPrice already contains every component's extras
+    add(itemRate, item.quantity * item.itemPrice - componentsTotal);
+    return amounts;
+  }
+
+  const toppingsTotal = addToppings(item.menuItem, item.selectedToppings, item.quantity, itemRate);
+
+  // itemPrice (set by the customization dialog) already contains the toppings
+  const lineTotal = item.itemPrice !== undefined && item.itemPrice !== null
+    ? item.quantity * item.itemPrice
+    : item.quantity * (item.menuItem.price || 0) + toppingsTotal;
+  add(itemRate, lineTotal - toppingsTotal);
+
+  return amounts;
+};
+
+// A cart line as evaluate_promotions sees it; a combo line has no menu item
+type PromotionLine = {
+  menuItemId: string | null;
+  categoryId: string;
+  quantity: number;
+  amounts: Map<number, number>;
+  total: number;
+};
+
+type PromotionDiscount = AppliedPromotion & {
+  amounts: Map<number, number>; // part of the discount taken off each rate
+};
+
+// Promotions applying to the cart, in the order they stack. Each discount is split across
+// tax rates in proportion to what it applies to, rounded per rate, the highest rate taking
+// the rounding difference. No rate goes below what earlier promotions left of it; what a
+// used-up rate cannot take goes to the others. Must match evaluate_promotions.
+const getPromotionDiscounts = (
+  lines: PromotionLine[],
+  promotions: Promotion[],
+  orderType: OrderType | undefined,
+  local: LocalDateTime
+): PromotionDiscount[] => {
+  const basket = lines.reduce((sum, line) => sum + line.total, 0);
+  let remaining = basket;
+  const discounts: PromotionDiscount[] = [];
+
+  // What is left at each rate once the promotions applied so far are taken off
+  const rateLeft = new Map<number, number>();
+  lines.forEach(line => line.amounts.forEach((amount, rate) => rateLeft.set(rate, (rateLeft.get(rate) || 0) + amount)));
+  const leftAt = (rate: number) => roundCurrency(rateLeft.get(rate) || 0);
+
+  for (const promotion of sortPromotions(promotions)) {
+    if (remaining <= 0) break;
+    if (!isPromotionActive(promotion, orderType, local)) continue;
+    if (promotion.min_subtotal !== null && promotion.min_subtotal !== undefined && basket < Number(promotion.min_subtotal)) continue;
+
+    const eligible = lines.filter(line =>
+      (!promotion.menu_item_id || line.menuItemId === promotion.menu_item_id) &&
+      (!promotion.category_id || line.categoryId === promotion.category_id));
+    if (eligible.length === 0) continue;
+
+    // What the discount applies to in each eligible line
+    let weights = eligible.map(line => line.total);
+    if (promotion.promotion_type === 'buy_x_get_y') {
+      const units = eligible.reduce((sum, line) => sum + line.quantity, 0);
+      let free = Math.floor(units / (promotion.buy_quantity + promotion.get_quantity)) * promotion.get_quantity;
+
+      // The cheapest units go free
+      weights = eligible.map(() => 0);
+      eligible
+        .map((line, index) => ({ index, unitPrice: line.total / line.quantity }))
+        .sort((a, b) => a.unitPrice - b.unitPrice || a.index - b.index)
+        .forEach(({ index, unitPrice }) => {
+          const count = Math.min(free, eligible[index].quantity);
+          weights[index] = count * unitPrice;
+          free -= count;
         });
-      }
-      
-      // Calculate base item tax
-      const baseItemTax = calculateTaxAmount(baseItemTotal, vatPercentage);
-      
-      // Add to totals
-      total += baseItemTotal + itemToppingsTotal;
-      totalTax += baseItemTax + itemToppingsTax;
     }
+
+    const base = weights.reduce((sum, weight) => sum + weight, 0);
+    const value = Number(promotion.value);
+    const offered = roundCurrency(Math.min(
+      promotion.promotion_type === 'fixed' ? Math.min(value, base) : roundCurrency(base * value / 100),
+      remaining
+    ));
+    if (offered <= 0) continue;
+
+    // Share of each rate in what the discount applies to
+    const rateBases = new Map<number, number>();
+    eligible.forEach((line, index) => {
+      if (!weights[index] || line.total <= 0) return;
+      line.amounts.forEach((lineAmount, rate) =>
+        rateBases.set(rate, (rateBases.get(rate) || 0) + lineAmount * weights[index] / line.total));
+    });
+    const bases = Array.from(rateBases).filter(([, rateBase]) => rateBase > 0).sort((a, b) => a[0] - b[0]);
+    const rateTotal = bases.reduce((sum, [, rateBase]) => sum + rateBase, 0);
+    if (rateTotal <= 0) continue;
+
+    // Earlier promotions may have used up a rate, and no rate goes below zero
+    const amount = Math.min(offered, roundCurrency(bases.reduce((sum, [rate]) => sum + (rateLeft.get(rate) || 0), 0)));
+    if (amount <= 0) continue;
+
+    const amounts = new Map<number, number>();
+    let allocated = 0;
+    bases.forEach(([rate, rateBase], index) => {
+      const share = Math.min(
+        index === bases.length - 1
+          ? roundCurrency(amount - allocated)
+          : roundCurrency(amount * rateBase / rateTotal),
+        leftAt(rate)
+      );
+      allocated = roundCurrency(allocated + share);
+      amounts.set(rate, share);
+    });
+
+    // What a used-up rate could not take goes to the others, highest rate first
+    [...bases].reverse().forEach(([rate]) => {
+      const extra = Math.min(roundCurrency(amount - allocated), roundCurrency(leftAt(rate) - (amounts.get(rate) || 0)));
+      if (extra <= 0) return;
+      allocated = roundCurrency(allocated + extra);
+      amounts.set(rate, roundCurrency((amounts.get(rate) || 0) + extra));
+    });
+    amounts.forEach((share, rate) => rateLeft.set(rate, (rateLeft.get(rate) || 0) - share));
+
+    discounts.push({ promotion_id: promotion.id, name: promotion.name, amount, amounts });
+    remaining -= amount;
+  }
+
+  return discounts;
+};
+
+// Cart totals with one tax line per rate. Tax is rounded once per rate, the same way
+// place_order computes the totals stored on the order.
+export const calculateCartTotals = (cart: CartItem[], options: TaxOptions = {}): CartTotals => {
+  const pricesIncludeTax = options.pricesIncludeTax ?? true;
+
+  const lines: PromotionLine[] = cart.map(item => {
+    const amounts = getLineAmountsByRate(item, options.orderType);
+    return {
+      menuItemId: item.comboComponents ? null : item.menuItem.id,
+      categoryId: item.menuItem.category_id,
+      quantity: item.quantity,
+      amounts,
+      total: Array.from(amounts.values()).reduce((sum, amount) => sum + amount, 0)
+    };
   });
 
-  const subtotal = total - totalTax;
+  const amountsByRate = new Map<number, number>();
+  const add = (rate: number, amount: number) => amountsByRate.set(rate, (amountsByRate.get(rate) || 0) + amount);
+  lines.forEach(line => line.amounts.forEach((amount, rate) => add(rate, amount)));
+
+  // Promotions come off each rate's amount, so tax is computed on the discounted prices
+  const discounts = options.promotions?.length
+    ? getPromotionDiscounts(lines, options.promotions, options.orderType, getLocalDateTime(options.timezone))
+    : [];
+  discounts.forEach(discount => discount.amounts.forEach((amount, rate) => add(rate, -amount)));
+
+  const rates = Array.from(amountsByRate)
+    .map(([rate, amount]) => ({ rate, amount: roundCurrency(amount) }))
+    .filter(({ amount }) => amount !== 0)
+    .sort((a, b) => a.rate - b.rate)
+    .map(({ rate, amount }): TaxRateSummary => {
+      if (pricesIncludeTax) {
+        const tax = roundCurrency(amount * rate / (100 + rate));
+        return { rate, net: roundCurrency(amount - tax), tax };
+      }
+      return { rate, net: amount, tax: roundCurrency(amount * rate / 100) };
+    });
+
+  const subtotal = roundCurrency(rates.reduce((sum, rate) => sum + rate.net, 0));
+  const tax = roundCurrency(rates.reduce((sum, rate) => sum + rate.tax, 0));
 
   return {
-    total,
+    total: roundCurrency(subtotal + tax),
     subtotal,
-    tax: totalTax
+    tax,
+    rates,
+    discount: roundCurrency(discounts.reduce((sum, discount) => sum + discount.amount, 0)),
+    promotions: discounts.map(({ promotion_id, name, amount }) => ({ promotion_id, name, amount }))
   };
 };
+
+// Totals stored on the order by place_order, or recomputed for older orders
+export const getOrderTotals = (order: Order, cart: CartItem[], options: TaxOptions = {}): CartTotals => {
+  if (order.tax_breakdown?.length && order.subtotal !== null && order.subtotal !== undefined) {
+    return {
+      total: Number(order.total),
+      subtotal: Number(order.subtotal),
+      tax: Number(order.tax_amount || 0),
+      rates: order.tax_breakdown.map(rate => ({ rate: Number(rate.rate), net: Number(rate.net), tax: Number(rate.tax) })),
+      discount: Number(order.discount_amount || 0),
+      promotions: (order.applied_promotions || []).map(promotion => ({ ...promotion, amount: Number(promotion.amount) }))
+    };
+  }
+  return calculateCartTotals(cart, { orderType: order.order_type, ...options });
+};
@@ -48,6 +48,20 @@ export const addLineFeed = (count: number = 1): string => {
   return ESCPOS.LINE_FEED.repeat(count);
 };
 
+// A printer as listed by the printnode-printers edge function
+export interface PrintNodePrinter {
+  id: string;
+  name: string;
+  description?: string;
+  state: "online" | "offline";
+}
+
+// Base64 of the UTF-8 bytes, the raw_base64 format PrintNode expects
+export const encodePrintContent = (content: string): string => {
+  const encodedBytes = new TextEncoder().encode(content);
+  return btoa(Array.from(encodedBytes).map(byte => String.fromCharCode(byte)).join(''));
+};
+
 // Track the last print time to prevent double-printing
 let lastPrintTime = 0;
 const PRINT_DEBOUNCE_MS = 1000; // 1 second debounce
@@ -220,3 +234,29 @@ export const printReceipt = (elementId: string) => {
     throw error; // Re-throw for handling at call site
   }
 };
+
+// Prints a complete HTML document (e.g. from generateReceiptHTML) through a hidden iframe
+export const printHTML = (html: string) => {
+  const iframe = document.createElement('iframe');
+  iframe.style.display = 'none';
+  document.body.appendChild(iframe);
+
+  const iframeDoc = iframe.contentDocument;
+  const iframeWindow = iframe.contentWindow;
+  if (!iframeDoc || !iframeWindow) {
+    document.body.removeChild(iframe);
+    throw new Error("Could not access iframe document");
+  }
+
+  iframeDoc.write(html);
+  iframeDoc.close();
+
+  setTimeout(() => {
+    try {
+      iframeWindow.focus();
+      iframeWindow.print();
+    } finally {
+      setTimeout(() => document.body.removeChild(iframe), 1000);
+    }
+  }, 500);
+};
@@ -0,0 +1,41 @@
+import { OrderType, Promotion, PromotionType } from "@/types/database-types";
+import { LocalDateTime, parseTimeToMinutes } from "@/utils/menu-schedule";
+
+// Whether a promotion applies to an order placed at local, its minimum basket aside.
+// Must match the conditions of evaluate_promotions.
+export const isPromotionActive = (promotion: Promotion, orderType: OrderType | undefined, local: LocalDateTime): boolean => {
+  if (!promotion.active) return false;
+  if (promotion.order_type && promotion.order_type !== orderType) return false;
+  if (promotion.starts_on && local.date < promotion.starts_on) return false;
+  if (promotion.ends_on && local.date > promotion.ends_on) return false;
+  if (promotion.weekdays?.length && !promotion.weekdays.includes(local.weekday)) return false;
+
+  // Happy hour; a window ending before it starts runs past midnight
+  if (promotion.start_time && promotion.end_time) {
+    const start = parseTimeToMinutes(promotion.start_time);
+    const end = parseTimeToMinutes(promotion.end_time);
+    if (start < end) return local.minutes >= start && local.minutes < end;
+    if (start > end) return local.minutes >= start || local.minutes < end;
+  }
+  return true;
+};
+
+// Display order, then id, as evaluate_promotions applies them
+export const sortPromotions = (promotions: Promotion[]): Promotion[] =>
+  [...promotions].sort((a, b) => a.display_order - b.display_order || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+// Short label of the deal, e.g. "-10%", "-2.00", "2 + 1"
+export const getPromotionLabel = (
+  promotion: Pick<Promotion, 'promotion_type' | 'value' | 'buy_quantity' | 'get_quantity'>,
+  currencySymbol: string = ''
+): string => {
+  const value = Number(promotion.value);
+  const labels: Record<PromotionType, string> = {
+    percentage: `-${value}%`,
+    fixed: `-${value.toFixed(2)}${currencySymbol ? ` ${currencySymbol}` : ''}`,
+    buy_x_get_y: value >= 100
+      ? `${promotion.buy_quantity} + ${promotion.get_quantity}`
+      : `${promotion.buy_quantity} + ${promotion.get_quantity} (-${value}%)`
+  };
+  return labels[promotion.promotion_type];
+};
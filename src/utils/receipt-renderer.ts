@@ -0,0 +1,324 @@
+// src/utils/receipt-renderer.ts
+// Renders a restaurant's receipt template. The template and order are first turned
+// into a list of layout blocks; the HTML and ESC/POS backends only know how to draw
+// blocks, so both outputs always carry the same content.
+import QRCode from 'qrcode';
+import { CartItem, PaperWidth, ReceiptTemplate } from '@/types/database-types';
+import { SupportedLanguage } from '@/utils/language-utils';
+import { CartTotals } from '@/utils/price-utils';
+import { ESCPOS } from '@/utils/print-utils';
+import { escapeHTML, getGroupedToppings, removeAccents } from '@/utils/receipt-templates';
+import { expandComboComponents } from '@/utils/combo-utils';
+
+export const DEFAULT_RECEIPT_TEMPLATE: Omit<ReceiptTemplate, 'restaurant_id'> = {
+  header_text: null,
+  footer_text: null,
+  show_logo: false,
+  logo_url: null,
+  vat_number: null,
+  show_tax_breakdown: true,
+  show_qr_code: false,
+  qr_code_content: null,
+  paper_width: 80
+};
+
+// Characters per line in the printer's normal font
+const LINE_WIDTH: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48
+};
+
+// Longest QR payload whose ESC/POS length bytes stay 7-bit once UTF-8 encoded
+export const MAX_QR_CONTENT_LENGTH = 120;
+
+// Prints the logo stored in the printer's NV memory (slot 1)
+const ESCPOS_NV_LOGO = '\x1C\x70\x01\x00';
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  EUR: "€",
+  USD: "$",
+  GBP: "£",
+  TRY: "₺",
+  JPY: "¥",
+  CAD: "$",
+  AUD: "$",
+  CHF: "Fr.",
+  CNY: "¥",
+  RUB: "₽"
+};
+
+type TextStyle = {
+  align?: 'left' | 'center';
+  size?: 'normal' | 'large';
+  bold?: boolean;
+};
+
+export type ReceiptBlock =
+  | ({ type: 'text'; text: string } & TextStyle)
+  | ({ type: 'row'; left: string; right: string } & TextStyle)
+  | { type: 'divider' }
+  | { type: 'logo'; url: string }
+  | { type: 'qr'; data: string }
+  | { type: 'spacer' };
+
+export interface ReceiptData {
+  restaurant: { name: string; location?: string | null; currency?: string | null; logo_url?: string | null } | null;
+  cart: CartItem[];
+  orderType: string | null;
+  tableNumber: string | null;
+  orderNumber: string;
+  totals: CartTotals;
+  orderDate?: Date;
+  t: (key: string) => string;
+  uiLanguage?: SupportedLanguage;
+}
+
+const multiline = (text: string | null, style: TextStyle): ReceiptBlock[] =>
+  (text || '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => ({ type: 'text', text: line, ...style }));
+
+export function buildReceiptBlocks(
+  template: Omit<ReceiptTemplate, 'restaurant_id'>,
+  data: ReceiptData,
+  formatAmount: (amount: number) => string
+): ReceiptBlock[] {
+  const { restaurant, cart, orderType, tableNumber, orderNumber, totals, t } = data;
+  const uiLanguage = data.uiLanguage || 'fr';
+  const date = data.orderDate || new Date();
+  const blocks: ReceiptBlock[] = [];
+
+  const logoUrl = template.logo_url || restaurant?.logo_url;
+  if (template.show_logo && logoUrl) {
+    blocks.push({ type: 'logo', url: logoUrl });
+  }
+
+  blocks.push({ type: 'text', text: restaurant?.name || 'Restaurant', align: 'center', size: 'large' });
+  if (restaurant?.location) {
+    blocks.push({ type: 'text', text: restaurant.location, align: 'center' });
+  }
+  blocks.push(...multiline(template.header_text, { align: 'center' }));
+  if (template.vat_number) {
+    blocks.push({ type: 'text', text: `${t('receipt.vatNumber')}: ${template.vat_number}`, align: 'center' });
+  }
+
+  blocks.push({ type: 'text', text: `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`, align: 'center' });
+  blocks.push({ type: 'text', text: `${t('receipt.orderNumber')}: ${orderNumber}`, align: 'center', size: 'large', bold: true });
+  if (orderType === 'dine-in' || orderType === 'takeaway') {
+    blocks.push({ type: 'text', text: t(orderType === 'dine-in' ? 'receipt.dineIn' : 'receipt.takeaway').toUpperCase(), align: 'center' });
+  }
+  if (tableNumber) {
+    blocks.push({ type: 'text', text: `${t('receipt.tableNumber')}: ${tableNumber}`, align: 'center' });
+  }
+  blocks.push({ type: 'divider' });
+
+  // Option choices, toppings and instructions of a line, or of a combo component
+  const pushChoices = (item: CartItem, indent: string) => {
+    item.selectedOptions.forEach(option => {
+      const optionDef = item.menuItem.options?.find(o => o.id === option.optionId);
+      option.choiceIds.forEach(choiceId => {
+        const choice = optionDef?.choices.find(c => c.id === choiceId);
+        if (choice) blocks.push({ type: 'text', text: `${indent}+ ${choice.name}` });
+      });
+    });
+
+    getGroupedToppings(item, uiLanguage).forEach(group => {
+      group.toppings.forEach(topping => {
+        blocks.push({
+          type: 'text',
+          text: typeof topping === 'object'
+            ? `${indent}+ ${topping.quantity > 1 ? `${topping.quantity}x ` : ''}${topping.name}`
+            : `${indent}+ ${topping}`
+        });
+      });
+    });
+
+    if (item.specialInstructions) {
+      blocks.push({ type: 'text', text: `${indent}${t('receipt.specialInstructions')}: ${item.specialInstructions}` });
+    }
+  };
+
+  cart.forEach(item => {
+    blocks.push({
+      type: 'row',
+      left: `${item.quantity}x ${item.menuItem.name}`,
+      right: formatAmount(item.itemPrice * item.quantity),
+      bold: true
+    });
+
+    pushChoices(item, '  ');
+
+    if (item.comboComponents) {
+      expandComboComponents([item]).forEach(component => {
+        blocks.push({ type: 'text', text: `  - ${component.menuItem.name}` });
+        pushChoices(component, '    ');
+      });
+    }
+  });
+
+  blocks.push({ type: 'divider' });
+
+  // Promotions are already deducted from the subtotal and tax below
+  totals.promotions.forEach(promotion => {
+    blocks.push({ type: 'row', left: promotion.name, right: `-${formatAmount(promotion.amount)}` });
+  });
+  blocks.push({ type: 'row', left: `${t('receipt.subtotal')}:`, right: formatAmount(totals.subtotal) });
+  if (template.show_tax_breakdown && totals.rates.length > 0) {
+    totals.rates.forEach(rate => {
+      blocks.push({ type: 'row', left: `${t('receipt.vat')} ${rate.rate}% (${formatAmount(rate.net)})`, right: formatAmount(rate.tax) });
+    });
+  } else {
+    blocks.push({ type: 'row', left: `${t('receipt.vat')}:`, right: formatAmount(totals.tax) });
+  }
+  blocks.push({ type: 'divider' });
+  blocks.push({ type: 'row', left: `${t('receipt.total')}:`, right: formatAmount(totals.total), size: 'large', bold: true });
+
+  const footer = multiline(template.footer_text, { align: 'center' });
+  if (footer.length > 0) {
+    blocks.push({ type: 'spacer' }, ...footer);
+  }
+
+  const qrContent = template.qr_code_content?.replace(/\{order_number\}/g, orderNumber);
+  if (template.show_qr_code && qrContent) {
+    blocks.push({ type: 'spacer' }, { type: 'qr', data: qrContent.slice(0, MAX_QR_CONTENT_LENGTH) });
+  }
+
+  return blocks;
+}
+
+const qrCodeSVG = (data: string): string => {
+  const { modules } = QRCode.create(data, { errorCorrectionLevel: 'M' });
+  const quiet = 2;
+  const size = modules.size + quiet * 2;
+  let path = '';
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) path += `M${col + quiet} ${row + quiet}h1v1h-1z`;
+    }
+  }
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" width="120" height="120" shape-rendering="crispEdges"><path d="${path}" fill="#000"/></svg>`;
+};
+
+export function renderReceiptHTML(blocks: ReceiptBlock[], paperWidth: PaperWidth, title: string = 'Receipt'): string {
+  const body = blocks.map(block => {
+    switch (block.type) {
+      case 'logo':
+        return `<div class="center"><img class="logo" src="${escapeHTML(block.url)}" alt=""></div>`;
+      case 'divider':
+        return '<div class="divider"></div>';
+      case 'spacer':
+        return '<div class="spacer"></div>';
+      case 'qr':
+        return `<div class="center">${qrCodeSVG(block.data)}</div>`;
+      case 'row':
+        return `<div class="row ${block.size === 'large' ? 'large' : ''} ${block.bold ? 'bold' : ''}"><span>${escapeHTML(block.left)}</span><span>${escapeHTML(block.right)}</span></div>`;
+      case 'text':
+        return `<div class="${block.align === 'center' ? 'center' : ''} ${block.size === 'large' ? 'large' : ''} ${block.bold ? 'bold' : ''}">${escapeHTML(block.text)}</div>`;
+    }
+  }).join('\n');
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>${escapeHTML(title)}</title>
+      <style>
+        @page {
+          size: ${paperWidth}mm auto;
+          margin: 0mm;
+        }
+        body {
+          font-family: 'Courier New', Courier, monospace;
+          margin: 0 auto;
+          padding: 10px 5px;
+          width: ${paperWidth - 8}mm;
+          font-size: ${paperWidth === 58 ? 10 : 12}px;
+          white-space: pre-wrap;
+        }
+        .center { text-align: center; }
+        .large { font-size: 1.4em; }
+        .bold { font-weight: bold; }
+        .row { display: flex; justify-content: space-between; gap: 8px; }
+        .divider { border-top: 1px dashed #000; margin: 6px 0; }
+        .spacer { height: 10px; }
+        .logo { max-width: 60%; max-height: 80px; margin-bottom: 6px; }
+      </style>
+    </head>
+    <body>
+      ${body}
+    </body>
+    </html>
+  `;
+}
+
+// Native QR command (model 2, module size 6, correction level M)
+const escPosQRCode = (data: string): string => {
+  const storeLength = new TextEncoder().encode(data).length + 3;
+  return (
+    '\x1D\x28\x6B\x04\x00\x31\x41\x32\x00' +
+    '\x1D\x28\x6B\x03\x00\x31\x43\x06' +
+    '\x1D\x28\x6B\x03\x00\x31\x45\x31' +
+    '\x1D\x28\x6B' + String.fromCharCode(storeLength % 256, Math.floor(storeLength / 256)) + '\x31\x50\x30' + data +
+    '\x1D\x28\x6B\x03\x00\x31\x51\x30'
+  );
+};
+
+const padRow = (left: string, right: string, width: number): string => {
+  const space = width - right.length - 1;
+  const leftText = left.length > space ? left.slice(0, Math.max(0, space)) : left;
+  return leftText + ' '.repeat(Math.max(1, width - leftText.length - right.length)) + right;
+};
+
+export function renderReceiptEscPos(blocks: ReceiptBlock[], paperWidth: PaperWidth): string {
+  const width = LINE_WIDTH[paperWidth];
+  let receipt = '';
+
+  blocks.forEach(block => {
+    switch (block.type) {
+      case 'logo':
+        receipt += ESCPOS.ALIGN_CENTER + ESCPOS_NV_LOGO + ESCPOS.ALIGN_LEFT;
+        break;
+      case 'divider':
+        receipt += '-'.repeat(width) + ESCPOS.LINE_FEED;
+        break;
+      case 'spacer':
+        receipt += ESCPOS.LINE_FEED;
+        break;
+      case 'qr':
+        receipt += ESCPOS.ALIGN_CENTER + escPosQRCode(block.data) + ESCPOS.LINE_FEED + ESCPOS.ALIGN_LEFT;
+        break;
+      case 'row':
+      case 'text': {
+        const large = block.size === 'large';
+        const font = large ? (block.bold ? ESCPOS.FONT_LARGE_BOLD : ESCPOS.FONT_LARGE) : block.bold ? ESCPOS.FONT_BOLD : '';
+        const text = block.type === 'row'
+          ? padRow(removeAccents(block.left), removeAccents(block.right), large ? Math.floor(width / 2) : width)
+          : removeAccents(block.text);
+        receipt += (block.align === 'center' ? ESCPOS.ALIGN_CENTER : '') +
+          font + text + (font ? ESCPOS.FONT_NORMAL : '') + ESCPOS.LINE_FEED +
+          (block.align === 'center' ? ESCPOS.ALIGN_LEFT : '');
+        break;
+      }
+    }
+  });
+
+  return receipt + ESCPOS.LINE_FEED.repeat(4) + ESCPOS.CUT_PAPER;
+}
+
+// HTML for browser printing and ESC/POS for PrintNode, from the same template
+export function renderReceipt(template: Omit<ReceiptTemplate, 'restaurant_id'>, data: ReceiptData): { html: string; escpos: string } {
+  const currencyCode = (data.restaurant?.currency || 'EUR').toUpperCase();
+  const currencySymbol = CURRENCY_SYMBOLS[currencyCode] || currencyCode;
+
+  const htmlBlocks = buildReceiptBlocks(template, data, amount => `${amount.toFixed(2)}${currencySymbol}`);
+  // Thermal printers have no euro glyph in their default code page
+  const escposBlocks = buildReceiptBlocks(template, data, amount => `${amount.toFixed(2)} ${currencyCode}`);
+
+  return {
+    html: renderReceiptHTML(htmlBlocks, template.paper_width, `${data.t('receipt.orderNumber')} ${data.orderNumber}`),
+    escpos: renderReceiptEscPos(escposBlocks, template.paper_width)
+  };
+}
@@ -3,6 +3,7 @@
 import { CartItem } from '@/types/database-types';
 import { SupportedLanguage, getTranslatedField } from '@/utils/language-utils';
 import { ESCPOS, formatText, centerText, addLineFeed, createDivider } from '@/utils/print-utils';
+import { expandComboComponents } from '@/utils/combo-utils';
 
 // Define topping object type with name and quantity
 export interface ToppingWithQuantity {
@@ -56,8 +57,29 @@ export function getGroupedToppings(item: CartItem, uiLanguage: SupportedLanguage
     });
 }
 
+// One line per combo component: its name, then its option choices and toppings
+export function getComboComponentLines(item: CartItem, uiLanguage: SupportedLanguage = 'fr'): string[] {
+  return expandComboComponents(item.comboComponents ? [item] : []).map(component => {
+    const choices = component.selectedOptions.flatMap(option => {
+      const optionDef = component.menuItem.options?.find(o => o.id === option.optionId);
+      return option.choiceIds.map(choiceId => optionDef?.choices.find(c => c.id === choiceId)?.name || '');
+    });
+    const toppings = getGroupedToppings(component, uiLanguage).flatMap(group => group.toppings.map(topping =>
+      typeof topping === 'object' ? `${topping.quantity > 1 ? `${topping.quantity}x ` : ''}${topping.name}` : topping
+    ));
+    const details = [...choices, ...toppings].filter(Boolean).join(', ');
+    const name = getTranslatedField(component.menuItem, 'name', uiLanguage);
+    return details ? `${name} (${details})` : name;
+  });
+}
+
 // Function to replace French characters with ASCII equivalents
-function removeAccents(str: string): string {
+// Menu names, table numbers and the customer's special instructions end up in printed
+// HTML documents; they must not be able to inject markup
+export const escapeHTML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function removeAccents(str: string): string {
   return str
     .replace(/[éèêë]/g, 'e')
     .replace(/[àâä]/g, 'a')
@@ -73,6 +95,26 @@ function removeAccents(str: string): string {
     .replace(/[Ç]/g, 'C');
 }
 
+// Labels for printed receipts and tickets in the restaurant's language
+export function createReceiptTranslator(restaurantLanguage: SupportedLanguage): (key: string) => string {
+  return (key: string) => {
+    const translations: Record<string, string> = {
+      'receipt.orderNumber': restaurantLanguage === 'fr' ? 'Commande No' : restaurantLanguage === 'tr' ? 'Sipariş No' : 'Order No',
+      'receipt.orderType': restaurantLanguage === 'fr' ? 'Type de commande' : restaurantLanguage === 'tr' ? 'Sipariş Tipi' : 'Order Type',
+      'receipt.dineIn': restaurantLanguage === 'fr' ? 'Sur place' : restaurantLanguage === 'tr' ? 'Masa Servisi' : 'Dine In',
+      'receipt.takeaway': restaurantLanguage === 'fr' ? 'À emporter' : restaurantLanguage === 'tr' ? 'Paket Servisi' : 'Takeaway',
+      'receipt.tableNumber': restaurantLanguage === 'fr' ? 'Table No' : restaurantLanguage === 'tr' ? 'Masa No' : 'Table No',
+      'receipt.subtotal': restaurantLanguage === 'fr' ? 'Sous-total' : restaurantLanguage === 'tr' ? 'Ara Toplam' : 'Subtotal',
+      'receipt.vat': restaurantLanguage === 'fr' ? 'TVA' : restaurantLanguage === 'tr' ? 'KDV' : 'VAT',
+      'receipt.total': restaurantLanguage === 'fr' ? 'Total' : restaurantLanguage === 'tr' ? 'Toplam' : 'Total',
+      'receipt.thankYou': restaurantLanguage === 'fr' ? 'Merci pour votre visite!' : restaurantLanguage === 'tr' ? 'Ziyaretiniz için teşekkürler!' : 'Thank you for your visit!',
+      'receipt.specialInstructions': restaurantLanguage === 'fr' ? 'Instructions spéciales' : restaurantLanguage === 'tr' ? 'Özel Talimatlar' : 'Special Instructions',
+      'receipt.vatNumber': restaurantLanguage === 'fr' ? 'N° TVA' : restaurantLanguage === 'tr' ? 'Vergi No' : 'VAT No'
+    };
+    return translations[key] || key;
+  };
+}
+
 // Generate a receipt HTML for browser printing
 export function generateReceiptHTML(
   cart: CartItem[],
@@ -86,9 +128,10 @@ export function generateReceiptHTML(
   tax: number,
   taxRate: number = 10,
   t: (key: string) => string,
-  uiLanguage: SupportedLanguage = 'fr'
+  uiLanguage: SupportedLanguage = 'fr',
+  orderDate: Date = new Date() // reprints pass the original order time
 ): string {
-  const date = new Date();
+  const date = orderDate;
   const formattedDate = `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`;
   
   // Function to format each item in the cart
@@ -106,30 +149,31 @@ export function generateReceiptHTML(
     
     const toppingsHtml = itemToppings.map(group => `
       <div class="topping-group">
-        <div class="topping-category">${group.category}:</div>
+        <div class="topping-category">${escapeHTML(group.category)}:</div>
         ${group.toppings.map(topping => {
           if (typeof topping === 'object') {
             // Handle topping with quantity
-            return `<div class="topping-item">${topping.quantity > 1 ? `${topping.quantity}x ` : ''}${topping.name}</div>`;
+            return `<div class="topping-item">${topping.quantity > 1 ? `${topping.quantity}x ` : ''}${escapeHTML(topping.name)}</div>`;
           }
-          return `<div class="topping-item">${topping}</div>`;
+          return `<div class="topping-item">${escapeHTML(topping)}</div>`;
         }).join('')}
       </div>
     `).join('');
     
     const optionsHtml = selectedOptions.length 
-      ? `<div class="options">${selectedOptions.join(', ')}</div>` 
+      ? `<div class="options">${escapeHTML(selectedOptions.join(', '))}</div>` 
       : '';
     
     return `
       <div class="receipt-item">
         <div class="item-header">
-          <span>${item.quantity}x ${item.menuItem.name}</span>
+          <span>${item.quantity}x ${escapeHTML(item.menuItem.name)}</span>
           <span>${(item.itemPrice * item.quantity).toFixed(2)}${currencySymbol}</span>
         </div>
         ${optionsHtml}
         ${toppingsHtml}
-        ${item.specialInstructions ? `<div class="special-instructions">${t('receipt.specialInstructions')}: ${item.specialInstructions}</div>` : ''}
+        ${item.specialInstructions ? `<div class="special-instructions">${t('receipt.specialInstructions')}: ${escapeHTML(item.specialInstructions)}</div>` : ''}
+        ${getComboComponentLines(item, uiLanguage).map(line => `<div class="options">- ${escapeHTML(line)}</div>`).join('')}
       </div>
     `;
   };
@@ -213,15 +257,15 @@ export function generateReceiptHTML(
     <body>
       <div class="receipt-container">
         <div class="receipt-header">
-          <div class="restaurant-name">${restaurant?.name || 'Restaurant'}</div>
-          ${restaurant?.location ? `<div class="receipt-subtitle">${restaurant.location}</div>` : ''}
+          <div class="restaurant-name">${escapeHTML(restaurant?.name || 'Restaurant')}</div>
+          ${restaurant?.location ? `<div class="receipt-subtitle">${escapeHTML(restaurant.location)}</div>` : ''}
           <div class="receipt-subtitle">${formattedDate}</div>
-          <div class="receipt-subtitle">${t('receipt.orderNumber')}: ${orderNumber}</div>
+          <div class="receipt-subtitle">${t('receipt.orderNumber')}: ${escapeHTML(orderNumber)}</div>
         </div>
         
         <div class="receipt-info">
-          <div>${t('receipt.orderType')}: ${orderType || t('receipt.takeaway')}</div>
-          ${tableNumber ? `<div>${t('receipt.tableNumber')}: ${tableNumber}</div>` : ''}
+          <div>${t('receipt.orderType')}: ${escapeHTML(orderType || t('receipt.takeaway'))}</div>
+          ${tableNumber ? `<div>${t('receipt.tableNumber')}: ${escapeHTML(tableNumber)}</div>` : ''}
         </div>
         
         <div class="receipt-items">
@@ -265,9 +309,10 @@ export function generatePlainTextReceipt(
   tax: number,
   taxRate: number = 10,
   t: (key: string) => string,
-  uiLanguage: SupportedLanguage = 'fr'
+  uiLanguage: SupportedLanguage = 'fr',
+  orderDate: Date = new Date() // reprints pass the original order time
 ): string {
-  const date = new Date();
+  const date = orderDate;
   const formattedDate = `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`;
   
   // Start building the receipt with header elements
@@ -383,6 +428,10 @@ export function generatePlainTextReceipt(
     if (item.specialInstructions) {
       receipt += `  ${removeAccents(t('receipt.specialInstructions'))}: ${removeAccents(item.specialInstructions)}` + ESCPOS.LINE_FEED;
     }
+
+    getComboComponentLines(item, uiLanguage).forEach(line => {
+      receipt += `  - ${removeAccents(line)}` + ESCPOS.LINE_FEED;
+    });
     
     // Add line space between items
     receipt += ESCPOS.LINE_FEED;
@@ -432,6 +481,172 @@ export function generatePlainTextReceipt(
   return receipt;
 }
 
+// Kitchen ticket for a single station: only that station's items, no prices
+export function generateKitchenTicket(
+  cart: CartItem[],
+  stationName: string,
+  orderType: string | null,
+  tableNumber: string | null,
+  orderNumber: string,
+  t: (key: string) => string,
+  uiLanguage: SupportedLanguage = 'fr',
+  orderDate: Date = new Date()
+): string {
+  const date = orderDate;
+
+  let ticket = ESCPOS.ALIGN_CENTER;
+  ticket += ESCPOS.FONT_LARGE + removeAccents(stationName.toUpperCase()) + ESCPOS.FONT_NORMAL + ESCPOS.LINE_FEED;
+  ticket += date.toLocaleTimeString() + ESCPOS.LINE_FEED;
+  ticket += ESCPOS.FONT_LARGE_BOLD + removeAccents(`COMMANDE : ${orderNumber}`) + ESCPOS.FONT_NORMAL + ESCPOS.LINE_FEED;
+
+  if (orderType === 'dine-in') {
+    ticket += removeAccents(t('receipt.dineIn').toUpperCase()) + ESCPOS.LINE_FEED;
+  } else if (orderType === 'takeaway') {
+    ticket += removeAccents(t('receipt.takeaway').toUpperCase()) + ESCPOS.LINE_FEED;
+  }
+
+  if (tableNumber) {
+    ticket += removeAccents(t('receipt.tableNumber') + ': ' + tableNumber) + ESCPOS.LINE_FEED;
+  }
+
+  ticket += ESCPOS.ALIGN_LEFT;
+  ticket += createDivider(48) + ESCPOS.LINE_FEED;
+
+  cart.forEach(item => {
+    ticket += ESCPOS.FONT_0_5X_BIGGER + removeAccents(`${item.quantity}x ${item.menuItem.name}`) + ESCPOS.FONT_NORMAL + ESCPOS.LINE_FEED;
+
+    item.selectedOptions.forEach(option => {
+      const optionDef = item.menuItem.options?.find(o => o.id === option.optionId);
+      option.choiceIds.forEach(choiceId => {
+        const choice = optionDef?.choices.find(c => c.id === choiceId);
+        if (choice) {
+          ticket += `  + ${removeAccents(choice.name)}` + ESCPOS.LINE_FEED;
+        }
+      });
+    });
+
+    getGroupedToppings(item, uiLanguage).forEach(group => {
+      group.toppings.forEach(topping => {
+        ticket += typeof topping === 'object'
+          ? `  + ${topping.quantity > 1 ? `${topping.quantity}x ` : ''}${removeAccents(topping.name)}`
+          : `  + ${removeAccents(topping)}`;
+        ticket += ESCPOS.LINE_FEED;
+      });
+    });
+
+    if (item.specialInstructions) {
+      ticket += ESCPOS.FONT_LARGE_BOLD + `  ${removeAccents(t('receipt.specialInstructions'))}: ${removeAccents(item.specialInstructions)}` + ESCPOS.FONT_NORMAL + ESCPOS.LINE_FEED;
+    }
+
+    ticket += ESCPOS.LINE_FEED;
+  });
+
+  ticket += ESCPOS.LINE_FEED.repeat(4);
+  ticket += ESCPOS.CUT_PAPER;
+
+  return ticket;
+}
+
+// Kitchen ticket HTML for browser printing, same content as generateKitchenTicket
+export function generateKitchenTicketHTML(
+  cart: CartItem[],
+  stationName: string,
+  orderType: string | null,
+  tableNumber: string | null,
+  orderNumber: string,
+  t: (key: string) => string,
+  uiLanguage: SupportedLanguage = 'fr',
+  orderDate: Date = new Date()
+): string {
+  const formatCartItem = (item: CartItem) => {
+    const selectedOptions = item.selectedOptions.flatMap(option => {
+      const optionDef = item.menuItem.options?.find(o => o.id === option.optionId);
+      return option.choiceIds.map(choiceId => optionDef?.choices.find(c => c.id === choiceId)?.name || '');
+    }).filter(Boolean);
+
+    const toppings = getGroupedToppings(item, uiLanguage).flatMap(group =>
+      group.toppings.map(topping =>
+        typeof topping === 'object'
+          ? `${topping.quantity > 1 ? `${topping.quantity}x ` : ''}${topping.name}`
+          : topping
+      )
+    );
+
+    return `
+      <div class="ticket-item">
+        <div class="item-name">${item.quantity}x ${escapeHTML(item.menuItem.name)}</div>
+        ${[...selectedOptions, ...toppings].map(line => `<div class="item-detail">+ ${escapeHTML(line)}</div>`).join('')}
+        ${item.specialInstructions ? `<div class="special-instructions">${t('receipt.specialInstructions')}: ${escapeHTML(item.specialInstructions)}</div>` : ''}
+      </div>
+    `;
+  };
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>${escapeHTML(stationName)}</title>
+      <style>
+        body {
+          font-family: 'Courier New', Courier, monospace;
+          margin: 0;
+          padding: 0;
+          width: 80mm;
+          max-width: 80mm;
+          font-size: 14px;
+        }
+        .ticket-container {
+          padding: 10px 5px;
+        }
+        .ticket-header {
+          text-align: center;
+          margin-bottom: 10px;
+          border-bottom: 1px dashed #000;
+          padding-bottom: 10px;
+        }
+        .station-name {
+          font-size: 20px;
+          font-weight: bold;
+          text-transform: uppercase;
+        }
+        .order-number {
+          font-size: 22px;
+          font-weight: bold;
+          margin: 5px 0;
+        }
+        .ticket-item {
+          margin-bottom: 10px;
+        }
+        .item-name {
+          font-size: 16px;
+          font-weight: bold;
+        }
+        .item-detail {
+          margin-left: 15px;
+        }
+        .special-instructions {
+          margin-left: 15px;
+          font-weight: bold;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="ticket-container">
+        <div class="ticket-header">
+          <div class="station-name">${escapeHTML(stationName)}</div>
+          <div>${orderDate.toLocaleTimeString()}</div>
+          <div class="order-number">${t('receipt.orderNumber')}: ${escapeHTML(orderNumber)}</div>
+          <div>${orderType === 'dine-in' ? t('receipt.dineIn') : t('receipt.takeaway')}</div>
+          ${tableNumber ? `<div>${t('receipt.tableNumber')}: ${escapeHTML(tableNumber)}</div>` : ''}
+        </div>
+        ${cart.map(formatCartItem).join('')}
+      </div>
+    </body>
+    </html>
+  `;
+}
+
 // Add the missing generateStandardReceipt function
 export function generateStandardReceipt(options: {
   restaurant: { name: string; location?: string | null; currency?: string; } | null;
@@ -572,6 +787,10 @@ ${tableNumber ? `${t('receipt.tableNumber')}: ${tableNumber}` : ''}
     if (item.specialInstructions) {
       receipt += `   ${t('receipt.specialInstructions')}: ${item.specialInstructions}\n`;
     }
+
+    getComboComponentLines(item, uiLanguage).forEach(line => {
+      receipt += `   - ${line}\n`;
+    });
     
     receipt += '\n';
   });
@@ -126,83 +126,217 @@ export async function retryNetworkRequest<T>(
   throw lastError || new Error('Network request failed after multiple retries');
 }
 
-// Queue for offline requests
-interface QueuedRequest {
-  id: string;
-  fn: () => Promise<any>;
+// Durable queue for requests made while offline
+// Requests are stored in IndexedDB as plain data (closures do not survive a reload)
+// and replayed by the handler registered for their type once connectivity returns.
+export type QueuedRequestStatus = 'pending' | 'failed';
+
+export interface QueuedRequest<T = unknown> {
+  id: string; // idempotency key, sent with every replay
+  type: string;
+  payload: T;
   timestamp: number;
   retries: number;
+  status: QueuedRequestStatus;
+  lastError?: string;
+}
+
+type QueuedRequestHandler<T = unknown> = (payload: T, id: string) => Promise<void>;
+type QueueListener = (requests: QueuedRequest[]) => void;
+
+const QUEUE_DB_NAME = 'kiosk-offline-queue';
+const QUEUE_STORE_NAME = 'requests';
+const MAX_RETRIES = 5;
+
+function openQueueDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(QUEUE_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(QUEUE_STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runQueueTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openQueueDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(QUEUE_STORE_NAME, mode);
+      const request = operation(transaction.objectStore(QUEUE_STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Network failures keep a request pending; anything else counts as a failed attempt
+export function isNetworkError(error: unknown): boolean {
+  const err = error as { name?: string; code?: string; message?: string } | null;
+  return error instanceof TypeError ||
+    err?.name === 'NetworkError' ||
+    err?.code === 'NETWORK_ERROR' ||
+    /failed to fetch|network ?error|load failed/i.test(err?.message || '') ||
+    !isOnline();
+}
+
+export function generateIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return Date.now().toString(36) + '-' + Math.random().toString(36).substring(2, 12);
 }
 
 class OfflineRequestQueue {
-  private queue: QueuedRequest[] = [];
+  private handlers = new Map<string, QueuedRequestHandler>();
+  private listeners: QueueListener[] = [];
   private isProcessing = false;
-  
-  add(fn: () => Promise<any>): string {
-    const id = Date.now().toString() + Math.random().toString(36).substr(2, 9);
-    const request: QueuedRequest = {
+
+  registerHandler<T>(type: string, handler: QueuedRequestHandler<T>): void {
+    this.handlers.set(type, handler as QueuedRequestHandler);
+
+    // Requests persisted before this handler existed (e.g. after a reload)
+    if (isOnline()) {
+      this.processQueue();
+    }
+  }
+
+  async add<T>(type: string, payload: T, id: string = generateIdempotencyKey()): Promise<string> {
+    const request: QueuedRequest<T> = {
       id,
-      fn,
+      type,
+      payload,
       timestamp: Date.now(),
-      retries: 0
+      retries: 0,
+      status: 'pending'
     };
-    
-    this.queue.push(request);
-    console.log(`[OfflineQueue] Added request ${id} to queue. Queue size: ${this.queue.length}`);
-    
+
+    await runQueueTransaction('readwrite', store => store.put(request));
+    console.log(`[OfflineQueue] Stored request ${id} (${type})`);
+    await this.notify();
+
     // Try to process immediately if online
     if (isOnline()) {
       this.processQueue();
     }
-    
+
     return id;
   }
-  
+
+  async getRequests(): Promise<QueuedRequest[]> {
+    try {
+      const requests = await runQueueTransaction<QueuedRequest[]>('readonly', store => store.getAll());
+      return requests.sort((a, b) => a.timestamp - b.timestamp);
+    } catch (error) {
+      console.error('[OfflineQueue] Unable to read queued requests:', error);
+      return [];
+    }
+  }
+
   async processQueue(): Promise<void> {
-    if (this.isProcessing || !isOnline() || this.queue.length === 0) {
+    if (this.isProcessing || !isOnline()) {
       return;
     }
-    
+
     this.isProcessing = true;
-    console.log(`[OfflineQueue] Processing ${this.queue.length} queued requests`);
-    
-    while (this.queue.length > 0 && isOnline()) {
-      const request = this.queue.shift()!;
-      
-      try {
-        await request.fn();
-        console.log(`[OfflineQueue] Successfully processed request ${request.id}`);
-      } catch (error) {
-        console.error(`[OfflineQueue] Failed to process request ${request.id}:`, error);
-        
-        // Retry up to 3 times
-        if (request.retries < 3) {
-          request.retries++;
-          this.queue.unshift(request); // Put back at front
-          console.log(`[OfflineQueue] Retrying request ${request.id} (attempt ${request.retries})`);
-        } else {
-          console.error(`[OfflineQueue] Giving up on request ${request.id} after 3 retries`);
+
+    try {
+      const pending = (await this.getRequests()).filter(request =>
+        request.status === 'pending' && this.handlers.has(request.type)
+      );
+
+      if (pending.length > 0) {
+        console.log(`[OfflineQueue] Replaying ${pending.length} queued requests`);
+      }
+
+      for (const request of pending) {
+        if (!isOnline()) break;
+
+        try {
+          await this.handlers.get(request.type)!(request.payload, request.id);
+          await runQueueTransaction('readwrite', store => store.delete(request.id));
+          console.log(`[OfflineQueue] Successfully replayed request ${request.id}`);
+        } catch (error) {
+          if (isNetworkError(error)) {
+            // Still unreachable: keep everything for the next online event
+            console.warn(`[OfflineQueue] Network unavailable, will retry request ${request.id} later`);
+            break;
+          }
+
+          const retries = request.retries + 1;
+          const updated: QueuedRequest = {
+            ...request,
+            retries,
+            status: retries >= MAX_RETRIES ? 'failed' : 'pending',
+            lastError: error instanceof Error ? error.message : String(error)
+          };
+          await runQueueTransaction('readwrite', store => store.put(updated));
+
+          if (updated.status === 'failed') {
+            console.error(`[OfflineQueue] Request ${request.id} failed after ${MAX_RETRIES} attempts:`, error);
+          } else {
+            console.warn(`[OfflineQueue] Request ${request.id} failed (attempt ${retries}):`, error);
+          }
         }
       }
+    } catch (error) {
+      // Called without awaiting from event handlers and timers, so nothing may escape
+      console.error('[OfflineQueue] Unable to update the queue:', error);
+    } finally {
+      this.isProcessing = false;
+      await this.notify().catch(error => console.error('[OfflineQueue] Unable to notify listeners:', error));
     }
-    
-    this.isProcessing = false;
   }
-  
-  getQueueSize(): number {
-    return this.queue.length;
+
+  // Puts failed requests back in the queue, e.g. after staff fixed the menu
+  async retryFailed(): Promise<void> {
+    const failed = (await this.getRequests()).filter(request => request.status === 'failed');
+    for (const request of failed) {
+      await runQueueTransaction('readwrite', store => store.put({ ...request, status: 'pending', retries: 0 }));
+    }
+    await this.notify();
+    this.processQueue();
   }
-  
-  clearQueue(): void {
-    this.queue = [];
-    console.log('[OfflineQueue] Queue cleared');
+
+  async remove(id: string): Promise<void> {
+    await runQueueTransaction('readwrite', store => store.delete(id));
+    await this.notify();
+  }
+
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.push(listener);
+    this.getRequests().then(listener);
+
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.length === 0) return;
+    const requests = await this.getRequests();
+    this.listeners.forEach(listener => listener(requests));
   }
 }
 
 export const offlineRequestQueue = new OfflineRequestQueue();
 
-// Start processing queue when coming back online
-window.addEventListener('online', () => {
-  console.log('[ServiceWorker] Back online, processing queued requests');
-  offlineRequestQueue.processQueue();
-});
+// Replay queued requests whenever connectivity comes back (and once at startup)
+if (typeof window !== 'undefined' && typeof indexedDB !== 'undefined') {
+  addOnlineStatusListener(online => {
+    if (online) {
+      console.log('[ServiceWorker] Online, processing queued requests');
+      offlineRequestQueue.processQueue();
+    }
+  });
+
+  // The browser can report "online" while the backend is still unreachable
+  setInterval(() => offlineRequestQueue.processQueue(), 60000);
+}
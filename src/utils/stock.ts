@@ -0,0 +1,24 @@
+import { MenuItem } from "@/types/database-types";
+
+// Same default as the low_stock_threshold column
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+type StockSource = Pick<MenuItem, 'stock_quantity' | 'low_stock_threshold'>;
+
+// Switched on and not short of any ingredient of its recipe
+export const isAvailableToOrder = (source: Pick<MenuItem, 'in_stock' | 'ingredients_available'>): boolean =>
+  source.in_stock !== false && source.ingredients_available !== false;
+
+export const isStockTracked = (source: StockSource): boolean =>
+  source.stock_quantity !== null && source.stock_quantity !== undefined;
+
+// Units left to announce as "only N left", or null when untracked or still plenty
+export const getLowStockCount = (source: StockSource): number | null => {
+  if (!isStockTracked(source)) return null;
+  const left = source.stock_quantity!;
+  return left > 0 && left <= (source.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD) ? left : null;
+};
+
+// Most units one order may take, or undefined when untracked
+export const getMaxOrderable = (source: StockSource): number | undefined =>
+  isStockTracked(source) ? source.stock_quantity! : undefined;
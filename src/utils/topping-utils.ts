@@ -113,59 +113,3 @@ export function canSelectTopping(
 
   return true;
 }
-
-/**
- * Calculates the tax amount for a menu item with selected options and toppings.
- * Now includes support for topping quantities.
- */
-export function calculateItemTax(item: MenuItemWithOptions, selectedOptions: {
-  optionId: string;
-  choiceIds: string[];
-}[], selectedToppings: {
-  categoryId: string;
-  toppingIds: string[];
-  toppingQuantities?: { [toppingId: string]: number };
-}[]): number {
-  // Base item tax
-  const baseItemTaxRate = item.tax_percentage || 10;
-  let totalTax = (item.price * baseItemTaxRate) / 100;
-
-  // Options tax (assuming same tax rate as base item for simplicity)
-  const optionsPrice = selectedOptions.reduce((total, optionSelection) => {
-    const option = item.options?.find(o => o.id === optionSelection.optionId);
-    if (!option) return total;
-
-    const choicesPrice = optionSelection.choiceIds.reduce((choicesTotal, choiceId) => {
-      const choice = option.choices.find(c => c.id === choiceId);
-      return choicesTotal + (choice?.price || 0);
-    }, 0);
-
-    return total + choicesPrice;
-  }, 0);
-
-  totalTax += (optionsPrice * baseItemTaxRate) / 100;
-
-  // Toppings tax (using specific tax rate for each topping)
-  selectedToppings.forEach(toppingSelection => {
-    const category = item.toppingCategories?.find(c => c.id === toppingSelection.categoryId);
-    if (!category) return;
-
-    toppingSelection.toppingIds.forEach(toppingId => {
-      const topping = category.toppings.find(t => t.id === toppingId);
-      if (!topping) return;
-      
-      // Check if we have a quantity for this topping
-      let quantity = 1;
-      if (category.allow_multiple_same_topping && 
-          toppingSelection.toppingQuantities && 
-          toppingSelection.toppingQuantities[toppingId]) {
-        quantity = toppingSelection.toppingQuantities[toppingId];
-      }
-      
-      const toppingTaxRate = topping.tax_percentage || baseItemTaxRate;
-      totalTax += ((topping.price * quantity) * toppingTaxRate) / 100;
-    });
-  });
-
-  return totalTax;
-}
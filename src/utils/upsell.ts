@@ -0,0 +1,54 @@
+import { CartItem, CoPurchasePair, MenuItem, UpsellRule, UpsellSuggestion } from "@/types/database-types";
+import { isAvailableToOrder } from "@/utils/stock";
+
+// Items suggested before checkout: the rules first, in display order, then the items most
+// often ordered with what is in the cart. Nothing already in the cart is suggested.
+export const getUpsellSuggestions = (
+  cart: CartItem[],
+  rules: UpsellRule[],
+  pairs: CoPurchasePair[],
+  menuItems: MenuItem[],
+  limit: number = 6
+): UpsellSuggestion[] => {
+  // A combo's components count as ordered items
+  const cartItems = cart.flatMap(item => item.comboComponents
+    ? item.comboComponents.map(component => component.menuItem)
+    : [item.menuItem]);
+  const cartItemIds = new Set(cartItems.map(item => item.id));
+  const cartCategoryIds = new Set(cartItems.map(item => item.category_id));
+
+  const available = menuItems.filter(isAvailableToOrder);
+  const suggestions: UpsellSuggestion[] = [];
+  const add = (menuItem: MenuItem | undefined, suggestion: Omit<UpsellSuggestion, 'menuItem'>) => {
+    if (!menuItem || cartItemIds.has(menuItem.id) || suggestions.some(s => s.menuItem.id === menuItem.id)) return;
+    suggestions.push({ menuItem, ...suggestion });
+  };
+
+  [...rules]
+    .filter(rule => rule.active)
+    .sort((a, b) => a.display_order - b.display_order)
+    .forEach(rule => {
+      if (rule.trigger_menu_item_id && !cartItemIds.has(rule.trigger_menu_item_id)) return;
+      if (rule.trigger_category_id && !cartCategoryIds.has(rule.trigger_category_id)) return;
+
+      if (rule.suggested_menu_item_id) {
+        add(available.find(item => item.id === rule.suggested_menu_item_id), { source: 'rule', ruleId: rule.id });
+      } else if (rule.suggested_category_id && !cartCategoryIds.has(rule.suggested_category_id)) {
+        available
+          .filter(item => item.category_id === rule.suggested_category_id)
+          .sort((a, b) => (a.display_order ?? 1000) - (b.display_order ?? 1000))
+          .forEach(item => add(item, { source: 'rule', ruleId: rule.id }));
+      }
+    });
+
+  // Items paired with several cart items rank higher
+  const scores = new Map<string, number>();
+  pairs
+    .filter(pair => cartItemIds.has(pair.menu_item_id))
+    .forEach(pair => scores.set(pair.paired_menu_item_id, (scores.get(pair.paired_menu_item_id) || 0) + Number(pair.order_count)));
+  Array.from(scores)
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([menuItemId]) => add(available.find(item => item.id === menuItemId), { source: 'co_purchase', ruleId: null }));
+
+  return suggestions.slice(0, limit);
+};
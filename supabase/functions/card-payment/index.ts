@@ -0,0 +1,104 @@
+// Card payment confirmation
+// The kiosk calls it once its terminal approves a charge, with the pending payment and the
+// terminal's transaction reference. The transaction is checked with the terminal provider
+// before finish_card_payment records the success and releases the order to the kitchen; a
+// transaction the provider does not confirm fails the payment instead.
+//
+// Environment:
+//   SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY  provided by Supabase
+//   PAYMENT_SIMULATOR                        "true" to accept the kiosk simulator's
+//                                            transactions, on test projects only
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface PaymentRow {
+  id: string;
+  order_id: string;
+  amount: number;
+  status: string;
+  payment_method: string | null;
+  provider: string | null;
+}
+
+interface Verification {
+  approved: boolean;
+  response: unknown; // stored in payments.pos_response
+}
+
+// Checks a transaction with the provider that ran it, using credentials that never leave
+// the server. Terminal integrations add their provider here next to their kiosk adapter.
+type TransactionVerifier = (payment: PaymentRow, transactionReference: string) => Promise<Verification>;
+
+const verifiers = new Map<string, TransactionVerifier>();
+
+if (Deno.env.get("PAYMENT_SIMULATOR") === "true") {
+  verifiers.set("simulator", async (_payment, transactionReference) => ({
+    approved: transactionReference.startsWith("SIM-"),
+    response: { provider: "simulator", transactionReference },
+  }));
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    );
+
+    const body = await req.json().catch(() => ({}));
+    const paymentId: string | null = body.payment_id ?? null;
+    const transactionReference: string | null = body.transaction_reference ?? null;
+
+    if (!paymentId || !transactionReference) {
+      return json({ error: "payment_id and transaction_reference are required" }, 400);
+    }
+
+    const { data: payment, error } = await supabase
+      .from("payments")
+      .select("id, order_id, amount, status, payment_method, provider")
+      .eq("id", paymentId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!payment || payment.status !== "pending" || payment.payment_method !== "card") {
+      return json({ error: "PAYMENT_NOT_PENDING" }, 409);
+    }
+
+    const verify = verifiers.get(payment.provider ?? "");
+    if (!verify) {
+      // Left pending: staff reconcile it with the provider's own records
+      return json({ error: `No transaction check for payment provider ${payment.provider}` }, 422);
+    }
+
+    const verification = await verify(payment as PaymentRow, transactionReference);
+
+    const { data: order, error: finishError } = await supabase.rpc("finish_card_payment", {
+      p_payment_id: payment.id,
+      p_status: verification.approved ? "succeeded" : "failed",
+      p_transaction_reference: transactionReference,
+      p_pos_response: JSON.stringify(verification.response),
+    });
+
+    if (finishError) throw finishError;
+
+    return json({ approved: verification.approved, order });
+  } catch (error) {
+    console.error("Card payment confirmation error:", error);
+    return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
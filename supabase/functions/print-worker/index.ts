@@ -0,0 +1,179 @@
+// Print worker
+// Sends due rows of public.print_jobs to PrintNode. Schedule it (e.g. every minute) with the
+// service role key or the cron secret: that run sends every restaurant's jobs, including
+// the ones kiosks queue, and retries failed ones. Signed-in owners and admins may also
+// invoke it for one of their restaurants to send a reprint or a test page right away.
+//
+// Environment:
+//   SUPABASE_URL, SUPABASE_ANON_KEY,
+//   SUPABASE_SERVICE_ROLE_KEY                provided by Supabase
+//   PRINT_WORKER_CRON_SECRET                 optional, accepted in the x-cron-secret header
+//   PRINTNODE_API_URL                        defaults to https://api.printnode.com,
+//                                            point it at mock-printnode.ts to test locally
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PRINTNODE_API_URL = Deno.env.get("PRINTNODE_API_URL") || "https://api.printnode.com";
+const BATCH_SIZE = 20;
+const BASE_RETRY_SECONDS = 15;
+const MAX_RETRY_SECONDS = 600;
+
+interface PrintJobRow {
+  id: string;
+  restaurant_id: string;
+  printer_id: string;
+  title: string;
+  content_base64: string;
+  attempts: number;
+  max_attempts: number;
+}
+
+// The schedule may send any restaurant's jobs; a signed-in user only those of a
+// restaurant they own, or any restaurant's if they are an admin
+const isAllowed = async (req: Request, restaurantId: string | null): Promise<boolean> => {
+  const authorization = req.headers.get("Authorization") ?? "";
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  const cronSecret = Deno.env.get("PRINT_WORKER_CRON_SECRET");
+
+  if (serviceRoleKey && authorization === `Bearer ${serviceRoleKey}`) return true;
+  if (cronSecret && req.headers.get("x-cron-secret") === cronSecret) return true;
+  if (!restaurantId) return false;
+
+  const caller = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+    { global: { headers: { Authorization: authorization } } },
+  );
+  const [{ data: isOwner }, { data: isAdmin }] = await Promise.all([
+    caller.rpc("is_restaurant_owner", { restaurant_uuid: restaurantId }),
+    caller.rpc("get_current_user_admin_status"),
+  ]);
+
+  return Boolean(isOwner || isAdmin);
+};
+
+// 15s, 30s, 60s... capped at 10 minutes
+const retryDelaySeconds = (attempts: number) =>
+  Math.min(MAX_RETRY_SECONDS, BASE_RETRY_SECONDS * 2 ** Math.max(0, attempts - 1));
+
+const sendToPrintNode = async (apiKey: string, job: PrintJobRow): Promise<number> => {
+  const response = await fetch(`${PRINTNODE_API_URL}/printjobs`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Basic ${btoa(apiKey + ":")}`,
+    },
+    body: JSON.stringify({
+      printer: parseInt(job.printer_id, 10) || job.printer_id,
+      title: job.title,
+      contentType: "raw_base64",
+      content: job.content_base64,
+      source: "Restaurant Kiosk",
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`PrintNode ${response.status}: ${await response.text()}`);
+  }
+
+  // PrintNode answers with the id of the created job
+  return Number(await response.json());
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    );
+
+    const body = req.method === "POST" ? await req.json().catch(() => ({})) : {};
+    const restaurantId: string | null = body.restaurant_id ?? null;
+
+    if (!(await isAllowed(req, restaurantId))) {
+      return new Response(JSON.stringify({ error: "Not allowed" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: jobs, error } = await supabase.rpc("claim_print_jobs", {
+      p_restaurant_id: restaurantId,
+      p_limit: BATCH_SIZE,
+    });
+
+    if (error) throw error;
+
+    const apiKeys = new Map<string, string | null>();
+    const result = { claimed: jobs.length, printed: 0, retrying: 0, failed: 0 };
+
+    for (const job of jobs as PrintJobRow[]) {
+      try {
+        if (!apiKeys.has(job.restaurant_id)) {
+          const { data: config } = await supabase
+            .from("restaurant_print_config")
+            .select("api_key")
+            .eq("restaurant_id", job.restaurant_id)
+            .maybeSingle();
+          apiKeys.set(job.restaurant_id, config?.api_key ?? null);
+        }
+
+        const apiKey = apiKeys.get(job.restaurant_id);
+        if (!apiKey) {
+          throw new Error("PrintNode is not configured for this restaurant");
+        }
+
+        const printNodeJobId = await sendToPrintNode(apiKey, job);
+
+        await supabase
+          .from("print_jobs")
+          .update({
+            status: "printed",
+            printnode_job_id: Number.isFinite(printNodeJobId) ? printNodeJobId : null,
+            printed_at: new Date().toISOString(),
+            last_error: null,
+          })
+          .eq("id", job.id);
+        result.printed++;
+      } catch (jobError) {
+        const message = jobError instanceof Error ? jobError.message : String(jobError);
+        const exhausted = job.attempts >= job.max_attempts;
+
+        await supabase
+          .from("print_jobs")
+          .update({
+            status: exhausted ? "failed" : "pending",
+            last_error: message,
+            next_attempt_at: new Date(Date.now() + retryDelaySeconds(job.attempts) * 1000).toISOString(),
+          })
+          .eq("id", job.id);
+
+        console.error(`Print job ${job.id} attempt ${job.attempts} failed:`, message);
+        if (exhausted) {
+          result.failed++;
+        } else {
+          result.retrying++;
+        }
+      }
+    }
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Print worker error:", error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,72 @@
+// Local stand-in for the PrintNode API, for exercising the print worker without
+// real printers:
+//
+//   deno run --allow-net --allow-env supabase/functions/print-worker/mock-printnode.ts
+//   PRINTNODE_API_URL=http://host.docker.internal:8089 supabase functions serve print-worker
+//
+// MOCK_PRINTNODE_FAIL_EVERY=n makes every n-th print job fail with a 503 so the retry
+// path can be observed. Jobs sent to printer "offline" always fail.
+// GET /printjobs lists what was received.
+
+const port = Number(Deno.env.get("MOCK_PRINTNODE_PORT") || 8089);
+const failEvery = Number(Deno.env.get("MOCK_PRINTNODE_FAIL_EVERY") || 0);
+
+interface ReceivedJob {
+  id: number;
+  printer: number | string;
+  title: string;
+  contentType: string;
+  content: string;
+  source: string;
+  receivedAt: string;
+}
+
+const printers = [
+  { id: 1001, name: "Counter", description: "Front counter", state: "online" },
+  { id: 1002, name: "Grill", description: "Kitchen", state: "online" },
+  { id: 1003, name: "Bar", description: "Drinks", state: "online" },
+];
+
+const received: ReceivedJob[] = [];
+let requestCount = 0;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+Deno.serve({ port }, async (req) => {
+  const url = new URL(req.url);
+
+  if (!req.headers.get("Authorization")?.startsWith("Basic ")) {
+    return json({ code: "Unauthorized", message: "API key required" }, 401);
+  }
+
+  if (req.method === "GET" && url.pathname === "/printers") {
+    return json(printers);
+  }
+
+  if (req.method === "GET" && url.pathname === "/printjobs") {
+    return json(received);
+  }
+
+  if (req.method === "POST" && url.pathname === "/printjobs") {
+    requestCount++;
+    const job = await req.json();
+
+    if (!job.printer || !job.contentType || !job.content) {
+      return json({ code: "BadRequest", message: "printer, contentType and content are required" }, 400);
+    }
+
+    if (job.printer === "offline" || (failEvery > 0 && requestCount % failEvery === 0)) {
+      return json({ code: "ServiceUnavailable", message: "Mock failure" }, 503);
+    }
+
+    const id = 500000 + received.length + 1;
+    received.push({ ...job, id, receivedAt: new Date().toISOString() });
+    console.log(`Job ${id} -> printer ${job.printer}: ${job.title}`);
+    return json(id, 201);
+  }
+
+  return json({ code: "NotFound" }, 404);
+});
+
+console.log(`Mock PrintNode listening on http://localhost:${port}`);
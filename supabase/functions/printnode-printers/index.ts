@@ -0,0 +1,101 @@
+// PrintNode printers
+// Lists the printers reachable with a restaurant's PrintNode API key, so the key never has
+// to reach the browser. The owner may send a new key to check it before saving it.
+//
+// Environment:
+//   SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY  provided by Supabase
+//   PRINTNODE_API_URL                        defaults to https://api.printnode.com,
+//                                            point it at mock-printnode.ts to test locally
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PRINTNODE_API_URL = Deno.env.get("PRINTNODE_API_URL") || "https://api.printnode.com";
+
+interface PrintNodePrinterResponse {
+  id: number;
+  name: string;
+  description?: string | null;
+  state?: string;
+  computer?: { name?: string } | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const restaurantId: string | null = body.restaurant_id ?? null;
+
+    if (!restaurantId) {
+      return json({ error: "restaurant_id is required" }, 400);
+    }
+
+    // Only the restaurant's owners and admins may use its key
+    const caller = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } } },
+    );
+    const [{ data: isOwner }, { data: isAdmin }] = await Promise.all([
+      caller.rpc("is_restaurant_owner", { restaurant_uuid: restaurantId }),
+      caller.rpc("get_current_user_admin_status"),
+    ]);
+
+    if (!isOwner && !isAdmin) {
+      return json({ error: "Not allowed" }, 403);
+    }
+
+    let apiKey: string | null = body.api_key ?? null;
+    if (!apiKey) {
+      const supabase = createClient(
+        Deno.env.get("SUPABASE_URL") ?? "",
+        Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      );
+      const { data: config, error } = await supabase
+        .from("restaurant_print_config")
+        .select("api_key")
+        .eq("restaurant_id", restaurantId)
+        .maybeSingle();
+
+      if (error) throw error;
+      apiKey = config?.api_key ?? null;
+    }
+
+    if (!apiKey) {
+      return json({ printers: [] });
+    }
+
+    const response = await fetch(`${PRINTNODE_API_URL}/printers`, {
+      headers: { "Authorization": `Basic ${btoa(apiKey + ":")}` },
+    });
+
+    if (!response.ok) {
+      return json({ error: `PrintNode ${response.status}: ${await response.text()}` }, 502);
+    }
+
+    const printers = (await response.json() as PrintNodePrinterResponse[]).map(printer => ({
+      id: String(printer.id),
+      name: printer.name,
+      description: printer.description || printer.computer?.name || undefined,
+      state: printer.state === "online" ? "online" : "offline",
+    }));
+
+    return json({ printers });
+  } catch (error) {
+    console.error("PrintNode printers error:", error);
+    return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
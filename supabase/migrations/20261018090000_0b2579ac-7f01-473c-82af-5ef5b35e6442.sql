@@ -0,0 +1,154 @@
+-- Atomic order placement for kiosks
+-- Writes the order, its items, options and toppings in a single transaction.
+-- Every price is recomputed from menu_items / option_choices / toppings; when the
+-- price sent by the kiosk no longer matches, the whole order is rolled back and a
+-- structured PRICE_MISMATCH error is raised (JSON payload in the error DETAIL).
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_restaurant_id uuid,
+  p_items jsonb,
+  p_order_type text DEFAULT NULL,
+  p_table_number text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_menu_item menu_items%ROWTYPE;
+  v_item jsonb;
+  v_option jsonb;
+  v_topping jsonb;
+  v_order_item_id uuid;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_choice_price numeric;
+  v_topping_price numeric;
+  v_topping_quantity integer;
+  v_expected_price numeric;
+  v_total numeric := 0;
+  v_mismatches jsonb := '[]'::jsonb;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'EMPTY_ORDER'
+      USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM restaurants WHERE id = p_restaurant_id) THEN
+    RAISE EXCEPTION 'RESTAURANT_NOT_FOUND'
+      USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+  END IF;
+
+  INSERT INTO orders (restaurant_id, customer_name, status, total, order_type, table_number)
+  VALUES (p_restaurant_id, p_customer_name, 'pending', 0, p_order_type, p_table_number)
+  RETURNING * INTO v_order;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    -- The item must belong to this restaurant and still be in stock
+    SELECT mi.* INTO v_menu_item
+    FROM menu_items mi
+    JOIN menu_categories mc ON mc.id = mi.category_id
+    WHERE mi.id = (v_item->>'menu_item_id')::uuid
+      AND mc.restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND OR NOT v_menu_item.in_stock THEN
+      RAISE EXCEPTION 'ITEM_UNAVAILABLE'
+        USING DETAIL = jsonb_build_object(
+          'cart_item_id', v_item->>'cart_item_id',
+          'menu_item_id', v_item->>'menu_item_id'
+        )::text;
+    END IF;
+
+    v_quantity := GREATEST(COALESCE((v_item->>'quantity')::integer, 1), 1);
+    v_unit_price := v_menu_item.price;
+
+    INSERT INTO order_items (order_id, menu_item_id, quantity, price, special_instructions)
+    VALUES (v_order.id, v_menu_item.id, v_quantity, 0, NULLIF(v_item->>'special_instructions', ''))
+    RETURNING id INTO v_order_item_id;
+
+    -- Option choices
+    FOR v_option IN SELECT * FROM jsonb_array_elements(COALESCE(v_item->'options', '[]'::jsonb))
+    LOOP
+      SELECT COALESCE(oc.price, 0) INTO v_choice_price
+      FROM option_choices oc
+      JOIN menu_item_options mio ON mio.id = oc.option_id
+      WHERE oc.id = (v_option->>'choice_id')::uuid
+        AND mio.id = (v_option->>'option_id')::uuid
+        AND mio.menu_item_id = v_menu_item.id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'OPTION_UNAVAILABLE'
+          USING DETAIL = jsonb_build_object(
+            'cart_item_id', v_item->>'cart_item_id',
+            'menu_item_id', v_menu_item.id,
+            'option_id', v_option->>'option_id',
+            'choice_id', v_option->>'choice_id'
+          )::text;
+      END IF;
+
+      v_unit_price := v_unit_price + v_choice_price;
+
+      INSERT INTO order_item_options (order_item_id, option_id, choice_id)
+      VALUES (v_order_item_id, (v_option->>'option_id')::uuid, (v_option->>'choice_id')::uuid);
+    END LOOP;
+
+    -- Toppings, only from categories linked to this menu item
+    FOR v_topping IN SELECT * FROM jsonb_array_elements(COALESCE(v_item->'toppings', '[]'::jsonb))
+    LOOP
+      SELECT COALESCE(t.price, 0) INTO v_topping_price
+      FROM toppings t
+      JOIN menu_item_topping_categories mitc ON mitc.topping_category_id = t.category_id
+      WHERE t.id = (v_topping->>'topping_id')::uuid
+        AND mitc.menu_item_id = v_menu_item.id
+        AND t.in_stock;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'TOPPING_UNAVAILABLE'
+          USING DETAIL = jsonb_build_object(
+            'cart_item_id', v_item->>'cart_item_id',
+            'menu_item_id', v_menu_item.id,
+            'topping_id', v_topping->>'topping_id'
+          )::text;
+      END IF;
+
+      v_topping_quantity := GREATEST(COALESCE((v_topping->>'quantity')::integer, 1), 1);
+      v_unit_price := v_unit_price + v_topping_price * v_topping_quantity;
+
+      INSERT INTO order_item_toppings (order_item_id, topping_id)
+      VALUES (v_order_item_id, (v_topping->>'topping_id')::uuid);
+    END LOOP;
+
+    UPDATE order_items SET price = v_unit_price WHERE id = v_order_item_id;
+
+    -- Compare with the price the customer saw on the kiosk
+    v_expected_price := (v_item->>'unit_price')::numeric;
+    IF v_expected_price IS NOT NULL AND abs(v_expected_price - v_unit_price) > 0.005 THEN
+      v_mismatches := v_mismatches || jsonb_build_array(jsonb_build_object(
+        'cart_item_id', v_item->>'cart_item_id',
+        'menu_item_id', v_menu_item.id,
+        'expected_price', v_expected_price,
+        'actual_price', v_unit_price
+      ));
+    END IF;
+
+    v_total := v_total + v_unit_price * v_quantity;
+  END LOOP;
+
+  -- Raising here rolls back the order and everything inserted above
+  IF jsonb_array_length(v_mismatches) > 0 THEN
+    RAISE EXCEPTION 'PRICE_MISMATCH'
+      USING DETAIL = jsonb_build_object('items', v_mismatches)::text;
+  END IF;
+
+  UPDATE orders SET total = v_total WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN to_jsonb(v_order);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(uuid, jsonb, text, text, text) TO anon, authenticated;
@@ -0,0 +1,307 @@
+-- Per-restaurant sequential order numbers
+-- Each restaurant keeps a single counter that restarts at every period boundary
+-- (once a day, at each shift change, or never). The counter row is locked by the
+-- upsert in next_order_number, so two kiosks can never hand out the same number.
+
+ALTER TABLE public.restaurants
+  ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'Europe/Paris',
+  ADD COLUMN IF NOT EXISTS order_number_reset text NOT NULL DEFAULT 'daily',
+  ADD COLUMN IF NOT EXISTS order_number_reset_times text[] NOT NULL DEFAULT ARRAY['00:00'],
+  ADD COLUMN IF NOT EXISTS order_number_padding integer NOT NULL DEFAULT 3,
+  ADD COLUMN IF NOT EXISTS order_number_prefix_dine_in text,
+  ADD COLUMN IF NOT EXISTS order_number_prefix_takeaway text;
+
+ALTER TABLE public.restaurants
+  ADD CONSTRAINT restaurants_order_number_reset_check
+  CHECK (order_number_reset IN ('daily', 'shift', 'never'));
+
+ALTER TABLE public.restaurants
+  ADD CONSTRAINT restaurants_order_number_padding_check
+  CHECK (order_number_padding BETWEEN 1 AND 6);
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS order_number text;
+
+CREATE TABLE IF NOT EXISTS public.restaurant_order_counters (
+  restaurant_id uuid PRIMARY KEY REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  period_start timestamp NOT NULL,
+  last_value integer NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.restaurant_order_counters ENABLE ROW LEVEL SECURITY;
+
+-- Counters are only written by place_order (SECURITY DEFINER); staff can read them
+CREATE POLICY "Restaurant owners can view their order counters" ON public.restaurant_order_counters
+  FOR SELECT
+  TO authenticated
+  USING (public.is_restaurant_owner(restaurant_id));
+
+CREATE POLICY "Admins can view all order counters" ON public.restaurant_order_counters
+  FOR SELECT
+  TO authenticated
+  USING (public.get_current_user_admin_status());
+
+-- Start of the numbering period containing p_at, in the restaurant's local time.
+-- 'daily' uses the first reset time as the business-day cutoff, 'shift' restarts
+-- at every listed time, 'never' keeps counting forever.
+CREATE OR REPLACE FUNCTION public.order_number_period_start(
+  p_reset text,
+  p_reset_times text[],
+  p_timezone text,
+  p_at timestamptz DEFAULT now()
+)
+RETURNS timestamp
+LANGUAGE plpgsql
+STABLE
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_local timestamp := p_at AT TIME ZONE COALESCE(NULLIF(p_timezone, ''), 'UTC');
+  v_times time[];
+  v_start timestamp;
+BEGIN
+  IF p_reset = 'never' THEN
+    RETURN '-infinity'::timestamp;
+  END IF;
+
+  IF p_reset = 'shift' AND COALESCE(array_length(p_reset_times, 1), 0) > 0 THEN
+    SELECT array_agg(t::time) INTO v_times FROM unnest(p_reset_times) t;
+  ELSE
+    v_times := ARRAY[COALESCE(p_reset_times[1], '00:00')::time];
+  END IF;
+
+  -- Latest boundary at or before now, looking back into yesterday for early hours
+  SELECT max(b) INTO v_start
+  FROM (
+    SELECT v_local::date + t AS b FROM unnest(v_times) t
+    UNION ALL
+    SELECT (v_local::date - 1) + t FROM unnest(v_times) t
+  ) boundaries
+  WHERE b <= v_local;
+
+  RETURN v_start;
+END;
+$$;
+
+-- Allocate the next formatted order number for a restaurant, e.g. "T-042".
+-- Must run inside the order transaction so a rolled back order releases its number.
+CREATE OR REPLACE FUNCTION public.next_order_number(
+  p_restaurant_id uuid,
+  p_prefix text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_restaurant restaurants%ROWTYPE;
+  v_period_start timestamp;
+  v_value integer;
+  v_digits text;
+BEGIN
+  SELECT * INTO v_restaurant FROM restaurants WHERE id = p_restaurant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RESTAURANT_NOT_FOUND'
+      USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+  END IF;
+
+  v_period_start := order_number_period_start(
+    v_restaurant.order_number_reset,
+    v_restaurant.order_number_reset_times,
+    v_restaurant.timezone
+  );
+
+  INSERT INTO restaurant_order_counters (restaurant_id, period_start, last_value)
+  VALUES (p_restaurant_id, v_period_start, 1)
+  ON CONFLICT (restaurant_id) DO UPDATE
+  SET last_value = CASE
+        WHEN restaurant_order_counters.period_start = EXCLUDED.period_start
+          THEN restaurant_order_counters.last_value + 1
+        ELSE 1
+      END,
+      period_start = EXCLUDED.period_start,
+      updated_at = now()
+  RETURNING last_value INTO v_value;
+
+  v_digits := v_value::text;
+  IF length(v_digits) < v_restaurant.order_number_padding THEN
+    v_digits := lpad(v_digits, v_restaurant.order_number_padding, '0');
+  END IF;
+
+  RETURN COALESCE(p_prefix, '') || v_digits;
+END;
+$$;
+
+-- place_order now also assigns the order number. A prefix passed by the kiosk
+-- (one per device) wins over the restaurant's per-order-type prefix.
+DROP FUNCTION IF EXISTS public.place_order(uuid, jsonb, text, text, text);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_restaurant_id uuid,
+  p_items jsonb,
+  p_order_type text DEFAULT NULL,
+  p_table_number text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_number_prefix text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_restaurant restaurants%ROWTYPE;
+  v_menu_item menu_items%ROWTYPE;
+  v_item jsonb;
+  v_option jsonb;
+  v_topping jsonb;
+  v_order_item_id uuid;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_choice_price numeric;
+  v_topping_price numeric;
+  v_topping_quantity integer;
+  v_expected_price numeric;
+  v_total numeric := 0;
+  v_mismatches jsonb := '[]'::jsonb;
+  v_prefix text;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'EMPTY_ORDER'
+      USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+  END IF;
+
+  SELECT * INTO v_restaurant FROM restaurants WHERE id = p_restaurant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RESTAURANT_NOT_FOUND'
+      USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+  END IF;
+
+  v_prefix := COALESCE(
+    NULLIF(p_number_prefix, ''),
+    CASE p_order_type
+      WHEN 'dine-in' THEN v_restaurant.order_number_prefix_dine_in
+      WHEN 'takeaway' THEN v_restaurant.order_number_prefix_takeaway
+    END
+  );
+
+  INSERT INTO orders (restaurant_id, customer_name, status, total, order_type, table_number, order_number)
+  VALUES (
+    p_restaurant_id, p_customer_name, 'pending', 0, p_order_type, p_table_number,
+    next_order_number(p_restaurant_id, v_prefix)
+  )
+  RETURNING * INTO v_order;
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    -- The item must belong to this restaurant and still be in stock
+    SELECT mi.* INTO v_menu_item
+    FROM menu_items mi
+    JOIN menu_categories mc ON mc.id = mi.category_id
+    WHERE mi.id = (v_item->>'menu_item_id')::uuid
+      AND mc.restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND OR NOT v_menu_item.in_stock THEN
+      RAISE EXCEPTION 'ITEM_UNAVAILABLE'
+        USING DETAIL = jsonb_build_object(
+          'cart_item_id', v_item->>'cart_item_id',
+          'menu_item_id', v_item->>'menu_item_id'
+        )::text;
+    END IF;
+
+    v_quantity := GREATEST(COALESCE((v_item->>'quantity')::integer, 1), 1);
+    v_unit_price := v_menu_item.price;
+
+    INSERT INTO order_items (order_id, menu_item_id, quantity, price, special_instructions)
+    VALUES (v_order.id, v_menu_item.id, v_quantity, 0, NULLIF(v_item->>'special_instructions', ''))
+    RETURNING id INTO v_order_item_id;
+
+    -- Option choices
+    FOR v_option IN SELECT * FROM jsonb_array_elements(COALESCE(v_item->'options', '[]'::jsonb))
+    LOOP
+      SELECT COALESCE(oc.price, 0) INTO v_choice_price
+      FROM option_choices oc
+      JOIN menu_item_options mio ON mio.id = oc.option_id
+      WHERE oc.id = (v_option->>'choice_id')::uuid
+        AND mio.id = (v_option->>'option_id')::uuid
+        AND mio.menu_item_id = v_menu_item.id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'OPTION_UNAVAILABLE'
+          USING DETAIL = jsonb_build_object(
+            'cart_item_id', v_item->>'cart_item_id',
+            'menu_item_id', v_menu_item.id,
+            'option_id', v_option->>'option_id',
+            'choice_id', v_option->>'choice_id'
+          )::text;
+      END IF;
+
+      v_unit_price := v_unit_price + v_choice_price;
+
+      INSERT INTO order_item_options (order_item_id, option_id, choice_id)
+      VALUES (v_order_item_id, (v_option->>'option_id')::uuid, (v_option->>'choice_id')::uuid);
+    END LOOP;
+
+    -- Toppings, only from categories linked to this menu item
+    FOR v_topping IN SELECT * FROM jsonb_array_elements(COALESCE(v_item->'toppings', '[]'::jsonb))
+    LOOP
+      SELECT COALESCE(t.price, 0) INTO v_topping_price
+      FROM toppings t
+      JOIN menu_item_topping_categories mitc ON mitc.topping_category_id = t.category_id
+      WHERE t.id = (v_topping->>'topping_id')::uuid
+        AND mitc.menu_item_id = v_menu_item.id
+        AND t.in_stock;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'TOPPING_UNAVAILABLE'
+          USING DETAIL = jsonb_build_object(
+            'cart_item_id', v_item->>'cart_item_id',
+            'menu_item_id', v_menu_item.id,
+            'topping_id', v_topping->>'topping_id'
+          )::text;
+      END IF;
+
+      v_topping_quantity := GREATEST(COALESCE((v_topping->>'quantity')::integer, 1), 1);
+      v_unit_price := v_unit_price + v_topping_price * v_topping_quantity;
+
+      INSERT INTO order_item_toppings (order_item_id, topping_id)
+      VALUES (v_order_item_id, (v_topping->>'topping_id')::uuid);
+    END LOOP;
+
+    UPDATE order_items SET price = v_unit_price WHERE id = v_order_item_id;
+
+    -- Compare with the price the customer saw on the kiosk
+    v_expected_price := (v_item->>'unit_price')::numeric;
+    IF v_expected_price IS NOT NULL AND abs(v_expected_price - v_unit_price) > 0.005 THEN
+      v_mismatches := v_mismatches || jsonb_build_array(jsonb_build_object(
+        'cart_item_id', v_item->>'cart_item_id',
+        'menu_item_id', v_menu_item.id,
+        'expected_price', v_expected_price,
+        'actual_price', v_unit_price
+      ));
+    END IF;
+
+    v_total := v_total + v_unit_price * v_quantity;
+  END LOOP;
+
+  -- Raising here rolls back the order and everything inserted above
+  IF jsonb_array_length(v_mismatches) > 0 THEN
+    RAISE EXCEPTION 'PRICE_MISMATCH'
+      USING DETAIL = jsonb_build_object('items', v_mismatches)::text;
+  END IF;
+
+  UPDATE orders SET total = v_total WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN to_jsonb(v_order);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(uuid, jsonb, text, text, text, text) TO anon, authenticated;
+
+-- Numbers are only handed out through place_order
+REVOKE EXECUTE ON FUNCTION public.next_order_number(uuid, text) FROM PUBLIC, anon, authenticated;
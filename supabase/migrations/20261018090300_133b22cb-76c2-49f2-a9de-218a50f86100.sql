@@ -0,0 +1,19 @@
+-- Realtime order feed for the kitchen display
+-- Full row images let subscribers filtered on restaurant_id receive updates and deletes.
+
+ALTER TABLE public.orders REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'orders'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.orders;
+  END IF;
+END;
+$$;
+
+-- Tickets are listed by restaurant and status, oldest first
+CREATE INDEX IF NOT EXISTS orders_restaurant_status_created_at_idx
+  ON public.orders (restaurant_id, status, created_at);
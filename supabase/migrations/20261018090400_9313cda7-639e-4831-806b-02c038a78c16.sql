@@ -0,0 +1,78 @@
+-- Public order status board
+-- orders is not readable by the public, so a trigger mirrors just what the
+-- customer-facing board needs (number and status, no customer data) into
+-- order_status_board, which anyone can read and which is published for realtime.
+
+ALTER TABLE public.restaurants
+  ADD COLUMN IF NOT EXISTS status_board_timeout_seconds integer NOT NULL DEFAULT 60;
+
+CREATE TABLE IF NOT EXISTS public.order_status_board (
+  order_id uuid PRIMARY KEY REFERENCES public.orders(id) ON DELETE CASCADE,
+  restaurant_id uuid NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  order_number text,
+  status text NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS order_status_board_restaurant_idx
+  ON public.order_status_board (restaurant_id, updated_at);
+
+ALTER TABLE public.order_status_board ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public SELECT for order status board" ON public.order_status_board
+  FOR SELECT
+  USING (true);
+
+CREATE OR REPLACE FUNCTION public.sync_order_status_board()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    DELETE FROM order_status_board WHERE order_id = NEW.id;
+  ELSE
+    INSERT INTO order_status_board (order_id, restaurant_id, order_number, status, updated_at)
+    VALUES (NEW.id, NEW.restaurant_id, NEW.order_number, NEW.status, now())
+    ON CONFLICT (order_id) DO UPDATE
+    SET order_number = EXCLUDED.order_number,
+        status = EXCLUDED.status,
+        updated_at = EXCLUDED.updated_at;
+  END IF;
+
+  -- The board hides collected orders after its timeout; prune the leftovers
+  DELETE FROM order_status_board
+  WHERE restaurant_id = NEW.restaurant_id
+    AND status = 'completed'
+    AND updated_at < now() - interval '1 day';
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_order_status_board ON public.orders;
+CREATE TRIGGER sync_order_status_board
+  AFTER INSERT OR UPDATE OF status, order_number ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_order_status_board();
+
+-- Orders still in progress when the board was introduced
+INSERT INTO public.order_status_board (order_id, restaurant_id, order_number, status, updated_at)
+SELECT id, restaurant_id, order_number, status, updated_at
+FROM public.orders
+WHERE status IN ('pending', 'preparing', 'ready')
+ON CONFLICT (order_id) DO NOTHING;
+
+ALTER TABLE public.order_status_board REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'order_status_board'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.order_status_board;
+  END IF;
+END;
+$$;
@@ -0,0 +1,39 @@
+-- Kitchen stations
+-- A station (grill, drinks, desserts...) prints its own kitchen ticket on one of the
+-- restaurant's printers. Menu categories are routed to at most one station; items of
+-- unrouted categories only appear on the customer receipt.
+
+CREATE TABLE IF NOT EXISTS public.kitchen_stations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  printer_id uuid REFERENCES public.restaurant_printers(id) ON DELETE SET NULL,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS kitchen_stations_restaurant_idx
+  ON public.kitchen_stations (restaurant_id, display_order);
+
+ALTER TABLE public.menu_categories
+  ADD COLUMN IF NOT EXISTS station_id uuid REFERENCES public.kitchen_stations(id) ON DELETE SET NULL;
+
+ALTER TABLE public.kitchen_stations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "kitchen_stations_owners_manage" ON public.kitchen_stations
+  FOR ALL
+  TO authenticated
+  USING (public.is_restaurant_owner(restaurant_id))
+  WITH CHECK (public.is_restaurant_owner(restaurant_id));
+
+CREATE POLICY "kitchen_stations_admin_manage" ON public.kitchen_stations
+  FOR ALL
+  TO authenticated
+  USING (public.get_current_user_admin_status())
+  WITH CHECK (public.get_current_user_admin_status());
+
+CREATE TRIGGER update_kitchen_stations_updated_at
+  BEFORE UPDATE ON public.kitchen_stations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,87 @@
+-- Print job queue
+-- Every receipt and kitchen ticket is stored here and dispatched to PrintNode by the
+-- print-worker edge function, which holds the API key server side and retries failed
+-- jobs with a backoff. The content is the raw ESC/POS payload, base64 encoded.
+
+CREATE TABLE IF NOT EXISTS public.print_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  job_type text NOT NULL DEFAULT 'receipt' CHECK (job_type IN ('receipt', 'kitchen', 'test')),
+  printer_id text NOT NULL, -- PrintNode printer id
+  printer_name text,
+  title text NOT NULL,
+  content_base64 text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'printing', 'printed', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  last_error text,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  printnode_job_id bigint,
+  printed_at timestamptz,
+  reprint_of uuid REFERENCES public.print_jobs(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS print_jobs_restaurant_created_idx
+  ON public.print_jobs (restaurant_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS print_jobs_due_idx
+  ON public.print_jobs (next_attempt_at)
+  WHERE status IN ('pending', 'printing');
+
+CREATE INDEX IF NOT EXISTS print_jobs_order_idx
+  ON public.print_jobs (order_id);
+
+ALTER TABLE public.print_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "print_jobs_owners_manage" ON public.print_jobs
+  FOR ALL
+  TO authenticated
+  USING (public.is_restaurant_owner(restaurant_id))
+  WITH CHECK (public.is_restaurant_owner(restaurant_id));
+
+CREATE POLICY "print_jobs_admin_manage" ON public.print_jobs
+  FOR ALL
+  TO authenticated
+  USING (public.get_current_user_admin_status())
+  WITH CHECK (public.get_current_user_admin_status());
+
+CREATE TRIGGER update_print_jobs_updated_at
+  BEFORE UPDATE ON public.print_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Hands due jobs to one worker run. SKIP LOCKED keeps concurrent runs from sending the
+-- same job twice; jobs stuck in 'printing' (worker died mid-run) are picked up again
+-- after five minutes.
+CREATE OR REPLACE FUNCTION public.claim_print_jobs(p_restaurant_id uuid DEFAULT NULL, p_limit integer DEFAULT 20)
+RETURNS SETOF public.print_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.print_jobs j
+  SET status = 'printing',
+      attempts = j.attempts + 1
+  WHERE j.id IN (
+    SELECT p.id
+    FROM public.print_jobs p
+    WHERE (p_restaurant_id IS NULL OR p.restaurant_id = p_restaurant_id)
+      AND (
+        (p.status = 'pending' AND p.next_attempt_at <= now())
+        OR (p.status = 'printing' AND p.updated_at < now() - interval '5 minutes')
+      )
+    ORDER BY p.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+-- Only the worker (service role) claims jobs
+REVOKE EXECUTE ON FUNCTION public.claim_print_jobs(uuid, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,39 @@
+-- Receipt templates
+-- One layout per restaurant, rendered to both HTML (browser printing) and ESC/POS
+-- (PrintNode) by src/utils/receipt-renderer.ts. Restaurants without a row print the
+-- default layout.
+
+CREATE TABLE IF NOT EXISTS public.receipt_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL UNIQUE REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  header_text text,
+  footer_text text,
+  show_logo boolean NOT NULL DEFAULT false,
+  logo_url text, -- falls back to restaurants.logo_url
+  vat_number text,
+  show_tax_breakdown boolean NOT NULL DEFAULT true,
+  show_qr_code boolean NOT NULL DEFAULT false,
+  qr_code_content text, -- may contain {order_number}
+  paper_width integer NOT NULL DEFAULT 80 CHECK (paper_width IN (58, 80)),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.receipt_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "receipt_templates_owners_manage" ON public.receipt_templates
+  FOR ALL
+  TO authenticated
+  USING (public.is_restaurant_owner(restaurant_id))
+  WITH CHECK (public.is_restaurant_owner(restaurant_id));
+
+CREATE POLICY "receipt_templates_admin_manage" ON public.receipt_templates
+  FOR ALL
+  TO authenticated
+  USING (public.get_current_user_admin_status())
+  WITH CHECK (public.get_current_user_admin_status());
+
+CREATE TRIGGER update_receipt_templates_updated_at
+  BEFORE UPDATE ON public.receipt_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,338 @@
+-- Table registry
+-- Restaurants manage their dine-in tables in restaurant_tables. Kiosks list the active
+-- ones, and place_order only accepts a dine-in table that is in the registry and active.
+-- Restaurants that have not registered any table keep free table number entry.
+-- restaurant_print_config.require_table_selection makes the table mandatory for dine-in.
+
+ALTER TABLE public.restaurant_tables
+  ADD COLUMN IF NOT EXISTS display_order integer NOT NULL DEFAULT 0;
+
+UPDATE public.restaurant_tables SET is_active = true WHERE is_active IS NULL;
+
+ALTER TABLE public.restaurant_tables
+  ALTER COLUMN is_active SET DEFAULT true,
+  ALTER COLUMN is_active SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS restaurant_tables_restaurant_number_key
+  ON public.restaurant_tables (restaurant_id, lower(table_number));
+
+DROP TRIGGER IF EXISTS update_restaurant_tables_updated_at ON public.restaurant_tables;
+CREATE TRIGGER update_restaurant_tables_updated_at
+  BEFORE UPDATE ON public.restaurant_tables
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Kiosks offer the active tables to their customers
+CREATE POLICY "tables_public_select" ON public.restaurant_tables
+  FOR SELECT
+  TO anon, authenticated
+  USING (is_active);
+
+-- The print configuration holds API keys, so kiosks only get this flag
+CREATE OR REPLACE FUNCTION public.is_table_selection_required(p_restaurant_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT COALESCE(
+    (SELECT require_table_selection FROM restaurant_print_config WHERE restaurant_id = p_restaurant_id),
+    false
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_table_selection_required(uuid) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_restaurant_id uuid,
+  p_items jsonb,
+  p_order_type text DEFAULT NULL,
+  p_table_number text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_number_prefix text DEFAULT NULL,
+  p_idempotency_key text DEFAULT NULL,
+  p_provisional_number text DEFAULT NULL,
+  p_placed_at timestamptz DEFAULT NULL,
+  p_payment_method text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_restaurant restaurants%ROWTYPE;
+  v_menu_item menu_items%ROWTYPE;
+  v_item jsonb;
+  v_option jsonb;
+  v_topping jsonb;
+  v_order_item_id uuid;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_choice_price numeric;
+  v_topping_price numeric;
+  v_topping_quantity integer;
+  v_expected_price numeric;
+  v_total numeric := 0;
+  v_mismatches jsonb := '[]'::jsonb;
+  v_prefix text;
+  v_takeaway boolean := p_order_type = 'takeaway';
+  v_item_rate numeric;
+  v_topping_rate numeric;
+  v_topping_takeaway_rate numeric;
+  v_topping_tax_rate numeric;
+  v_rate_amounts jsonb := '{}'::jsonb;
+  v_rate_key text;
+  v_amount numeric;
+  v_tax numeric;
+  v_net numeric;
+  v_subtotal numeric := 0;
+  v_tax_amount numeric := 0;
+  v_breakdown jsonb := '[]'::jsonb;
+  v_table_number text := NULLIF(trim(p_table_number), '');
+BEGIN
+  IF p_payment_method IS NOT NULL AND p_payment_method NOT IN ('card', 'cash') THEN
+    RAISE EXCEPTION 'INVALID_PAYMENT_METHOD'
+      USING DETAIL = jsonb_build_object('payment_method', p_payment_method)::text;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'EMPTY_ORDER'
+      USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+  END IF;
+
+  -- A replayed request returns the order it already created
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_order FROM orders
+    WHERE restaurant_id = p_restaurant_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN to_jsonb(v_order);
+    END IF;
+  END IF;
+
+  SELECT * INTO v_restaurant FROM restaurants WHERE id = p_restaurant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RESTAURANT_NOT_FOUND'
+      USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+  END IF;
+
+  -- Dine-in tables must come from the restaurant's table registry once it has one
+  IF p_order_type = 'dine-in' THEN
+    IF v_table_number IS NULL THEN
+      IF (SELECT require_table_selection FROM restaurant_print_config WHERE restaurant_id = p_restaurant_id) THEN
+        RAISE EXCEPTION 'TABLE_REQUIRED'
+          USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+      END IF;
+    ELSIF EXISTS (SELECT 1 FROM restaurant_tables WHERE restaurant_id = p_restaurant_id) THEN
+      SELECT table_number INTO v_table_number
+      FROM restaurant_tables
+      WHERE restaurant_id = p_restaurant_id
+        AND lower(table_number) = lower(v_table_number)
+        AND is_active;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'TABLE_UNAVAILABLE'
+          USING DETAIL = jsonb_build_object('table_number', p_table_number)::text;
+      END IF;
+    END IF;
+  END IF;
+
+  v_prefix := COALESCE(
+    NULLIF(p_number_prefix, ''),
+    CASE p_order_type
+      WHEN 'dine-in' THEN v_restaurant.order_number_prefix_dine_in
+      WHEN 'takeaway' THEN v_restaurant.order_number_prefix_takeaway
+    END
+  );
+
+  INSERT INTO orders (
+    restaurant_id, customer_name, status, total, order_type, table_number,
+    order_number, idempotency_key, provisional_number, created_at
+  )
+  VALUES (
+    p_restaurant_id, p_customer_name,
+    CASE WHEN p_payment_method = 'card' THEN 'awaiting_payment' ELSE 'pending' END,
+    0, p_order_type, v_table_number,
+    next_order_number(p_restaurant_id, v_prefix), p_idempotency_key, p_provisional_number,
+    COALESCE(p_placed_at, now())
+  )
+  ON CONFLICT (restaurant_id, idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+  RETURNING * INTO v_order;
+
+  -- Lost a race against the same request sent twice
+  IF NOT FOUND THEN
+    SELECT * INTO v_order FROM orders
+    WHERE restaurant_id = p_restaurant_id AND idempotency_key = p_idempotency_key;
+    RETURN to_jsonb(v_order);
+  END IF;
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    -- The item must belong to this restaurant and still be in stock
+    SELECT mi.* INTO v_menu_item
+    FROM menu_items mi
+    JOIN menu_categories mc ON mc.id = mi.category_id
+    WHERE mi.id = (v_item->>'menu_item_id')::uuid
+      AND mc.restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND OR NOT v_menu_item.in_stock THEN
+      RAISE EXCEPTION 'ITEM_UNAVAILABLE'
+        USING DETAIL = jsonb_build_object(
+          'cart_item_id', v_item->>'cart_item_id',
+          'menu_item_id', v_item->>'menu_item_id'
+        )::text;
+    END IF;
+
+    v_quantity := GREATEST(COALESCE((v_item->>'quantity')::integer, 1), 1);
+    v_unit_price := v_menu_item.price;
+    v_item_rate := COALESCE(
+      CASE WHEN v_takeaway THEN v_menu_item.takeaway_tax_percentage END,
+      v_menu_item.tax_percentage,
+      10
+    );
+
+    INSERT INTO order_items (order_id, menu_item_id, quantity, price, special_instructions)
+    VALUES (v_order.id, v_menu_item.id, v_quantity, 0, NULLIF(v_item->>'special_instructions', ''))
+    RETURNING id INTO v_order_item_id;
+
+    -- Option choices
+    FOR v_option IN SELECT * FROM jsonb_array_elements(COALESCE(v_item->'options', '[]'::jsonb))
+    LOOP
+      SELECT COALESCE(oc.price, 0) INTO v_choice_price
+      FROM option_choices oc
+      JOIN menu_item_options mio ON mio.id = oc.option_id
+      WHERE oc.id = (v_option->>'choice_id')::uuid
+        AND mio.id = (v_option->>'option_id')::uuid
+        AND mio.menu_item_id = v_menu_item.id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'OPTION_UNAVAILABLE'
+          USING DETAIL = jsonb_build_object(
+            'cart_item_id', v_item->>'cart_item_id',
+            'menu_item_id', v_menu_item.id,
+            'option_id', v_option->>'option_id',
+            'choice_id', v_option->>'choice_id'
+          )::text;
+      END IF;
+
+      v_unit_price := v_unit_price + v_choice_price;
+
+      INSERT INTO order_item_options (order_item_id, option_id, choice_id)
+      VALUES (v_order_item_id, (v_option->>'option_id')::uuid, (v_option->>'choice_id')::uuid);
+    END LOOP;
+
+    -- The item and its option choices are taxed at the item's rate
+    v_rate_key := trim_scale(v_item_rate)::text;
+    v_rate_amounts := jsonb_set(
+      v_rate_amounts,
+      ARRAY[v_rate_key],
+      to_jsonb(COALESCE((v_rate_amounts->>v_rate_key)::numeric, 0) + v_unit_price * v_quantity)
+    );
+
+    -- Toppings, only from categories linked to this menu item
+    FOR v_topping IN SELECT * FROM jsonb_array_elements(COALESCE(v_item->'toppings', '[]'::jsonb))
+    LOOP
+      SELECT COALESCE(t.price, 0), t.tax_percentage, t.takeaway_tax_percentage
+      INTO v_topping_price, v_topping_rate, v_topping_takeaway_rate
+      FROM toppings t
+      JOIN menu_item_topping_categories mitc ON mitc.topping_category_id = t.category_id
+      WHERE t.id = (v_topping->>'topping_id')::uuid
+        AND mitc.menu_item_id = v_menu_item.id
+        AND t.in_stock;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'TOPPING_UNAVAILABLE'
+          USING DETAIL = jsonb_build_object(
+            'cart_item_id', v_item->>'cart_item_id',
+            'menu_item_id', v_menu_item.id,
+            'topping_id', v_topping->>'topping_id'
+          )::text;
+      END IF;
+
+      v_topping_quantity := GREATEST(COALESCE((v_topping->>'quantity')::integer, 1), 1);
+      v_unit_price := v_unit_price + v_topping_price * v_topping_quantity;
+
+      v_topping_tax_rate := COALESCE(
+        CASE WHEN v_takeaway THEN v_topping_takeaway_rate END,
+        v_topping_rate,
+        v_item_rate
+      );
+      v_rate_key := trim_scale(v_topping_tax_rate)::text;
+      v_rate_amounts := jsonb_set(
+        v_rate_amounts,
+        ARRAY[v_rate_key],
+        to_jsonb(COALESCE((v_rate_amounts->>v_rate_key)::numeric, 0) + v_topping_price * v_topping_quantity * v_quantity)
+      );
+
+      -- One row per unit, so reprints get the topping quantity back
+      INSERT INTO order_item_toppings (order_item_id, topping_id)
+      SELECT v_order_item_id, (v_topping->>'topping_id')::uuid
+      FROM generate_series(1, v_topping_quantity);
+    END LOOP;
+
+    UPDATE order_items SET price = v_unit_price WHERE id = v_order_item_id;
+
+    -- Compare with the price the customer saw on the kiosk
+    v_expected_price := (v_item->>'unit_price')::numeric;
+    IF v_expected_price IS NOT NULL AND abs(v_expected_price - v_unit_price) > 0.005 THEN
+      v_mismatches := v_mismatches || jsonb_build_array(jsonb_build_object(
+        'cart_item_id', v_item->>'cart_item_id',
+        'menu_item_id', v_menu_item.id,
+        'expected_price', v_expected_price,
+        'actual_price', v_unit_price
+      ));
+    END IF;
+  END LOOP;
+
+  -- Raising here rolls back the order and everything inserted above
+  IF jsonb_array_length(v_mismatches) > 0 THEN
+    RAISE EXCEPTION 'PRICE_MISMATCH'
+      USING DETAIL = jsonb_build_object('items', v_mismatches)::text;
+  END IF;
+
+  -- Tax is rounded once per rate; must match calculateCartTotals on the kiosk
+  FOR v_rate_key, v_amount IN
+    SELECT key, round(value::numeric, 2) FROM jsonb_each_text(v_rate_amounts) ORDER BY key::numeric
+  LOOP
+    CONTINUE WHEN v_amount = 0;
+
+    IF v_restaurant.prices_include_tax THEN
+      v_tax := round(v_amount * v_rate_key::numeric / (100 + v_rate_key::numeric), 2);
+      v_net := v_amount - v_tax;
+    ELSE
+      v_tax := round(v_amount * v_rate_key::numeric / 100, 2);
+      v_net := v_amount;
+    END IF;
+
+    v_subtotal := v_subtotal + v_net;
+    v_tax_amount := v_tax_amount + v_tax;
+    v_breakdown := v_breakdown || jsonb_build_array(jsonb_build_object(
+      'rate', v_rate_key::numeric,
+      'net', v_net,
+      'tax', v_tax
+    ));
+  END LOOP;
+
+  v_total := v_subtotal + v_tax_amount;
+
+  UPDATE orders
+  SET total = v_total,
+      subtotal = v_subtotal,
+      tax_amount = v_tax_amount,
+      tax_breakdown = v_breakdown
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  -- Paid at the counter: the cashier collects what is recorded here
+  IF p_payment_method = 'cash' THEN
+    INSERT INTO payments (order_id, amount, payment_method, status, provider)
+    VALUES (v_order.id, v_total, 'cash', 'pending', 'counter');
+  END IF;
+
+  RETURN to_jsonb(v_order);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(uuid, jsonb, text, text, text, text, text, text, timestamptz, text) TO anon, authenticated;
@@ -0,0 +1,130 @@
+-- Menu schedules
+-- A restaurant groups categories into named menus (breakfast, lunch, late night...) that the
+-- kiosk shows during their weekly time windows, in the restaurant's timezone. Categories that
+-- belong to no menu are always shown. A holiday override makes a date follow another
+-- weekday's windows, or turns every scheduled menu off for the day.
+
+CREATE TABLE IF NOT EXISTS public.menus (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS menus_restaurant_idx
+  ON public.menus (restaurant_id, display_order);
+
+-- A window belongs to the weekday it starts on (0 = Sunday); an end time at or before the
+-- start time runs past midnight into the next day
+CREATE TABLE IF NOT EXISTS public.menu_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_id uuid NOT NULL REFERENCES public.menus(id) ON DELETE CASCADE,
+  weekday smallint NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS menu_schedules_menu_idx
+  ON public.menu_schedules (menu_id);
+
+CREATE TABLE IF NOT EXISTS public.menu_category_menus (
+  menu_id uuid NOT NULL REFERENCES public.menus(id) ON DELETE CASCADE,
+  category_id uuid NOT NULL REFERENCES public.menu_categories(id) ON DELETE CASCADE,
+  PRIMARY KEY (menu_id, category_id)
+);
+
+CREATE INDEX IF NOT EXISTS menu_category_menus_category_idx
+  ON public.menu_category_menus (category_id);
+
+-- schedule_weekday NULL: no scheduled menu that day, only the unscheduled categories
+CREATE TABLE IF NOT EXISTS public.menu_holiday_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  override_date date NOT NULL,
+  label text,
+  schedule_weekday smallint CHECK (schedule_weekday BETWEEN 0 AND 6),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (restaurant_id, override_date)
+);
+
+ALTER TABLE public.menus ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.menu_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.menu_category_menus ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.menu_holiday_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Kiosks read the schedules to decide which categories to show
+CREATE POLICY "menus_public_select" ON public.menus
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "menus_owners_manage" ON public.menus
+  FOR ALL
+  TO authenticated
+  USING (public.is_restaurant_owner(restaurant_id))
+  WITH CHECK (public.is_restaurant_owner(restaurant_id));
+
+CREATE POLICY "menus_admin_manage" ON public.menus
+  FOR ALL
+  TO authenticated
+  USING (public.get_current_user_admin_status())
+  WITH CHECK (public.get_current_user_admin_status());
+
+CREATE POLICY "menu_schedules_public_select" ON public.menu_schedules
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "menu_schedules_owners_manage" ON public.menu_schedules
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.menus m WHERE m.id = menu_id AND public.is_restaurant_owner(m.restaurant_id)))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.menus m WHERE m.id = menu_id AND public.is_restaurant_owner(m.restaurant_id)));
+
+CREATE POLICY "menu_schedules_admin_manage" ON public.menu_schedules
+  FOR ALL
+  TO authenticated
+  USING (public.get_current_user_admin_status())
+  WITH CHECK (public.get_current_user_admin_status());
+
+CREATE POLICY "menu_category_menus_public_select" ON public.menu_category_menus
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "menu_category_menus_owners_manage" ON public.menu_category_menus
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.menus m WHERE m.id = menu_id AND public.is_restaurant_owner(m.restaurant_id)))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.menus m WHERE m.id = menu_id AND public.is_restaurant_owner(m.restaurant_id)));
+
+CREATE POLICY "menu_category_menus_admin_manage" ON public.menu_category_menus
+  FOR ALL
+  TO authenticated
+  USING (public.get_current_user_admin_status())
+  WITH CHECK (public.get_current_user_admin_status());
+
+CREATE POLICY "menu_holiday_overrides_public_select" ON public.menu_holiday_overrides
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "menu_holiday_overrides_owners_manage" ON public.menu_holiday_overrides
+  FOR ALL
+  TO authenticated
+  USING (public.is_restaurant_owner(restaurant_id))
+  WITH CHECK (public.is_restaurant_owner(restaurant_id));
+
+CREATE POLICY "menu_holiday_overrides_admin_manage" ON public.menu_holiday_overrides
+  FOR ALL
+  TO authenticated
+  USING (public.get_current_user_admin_status())
+  WITH CHECK (public.get_current_user_admin_status());
+
+CREATE TRIGGER update_menus_updated_at
+  BEFORE UPDATE ON public.menus
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
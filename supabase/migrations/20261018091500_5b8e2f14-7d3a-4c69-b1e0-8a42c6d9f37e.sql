@@ -0,0 +1,685 @@
+-- Promotions
+-- Discount rules evaluated against the basket, on the kiosk and again by place_order:
+--   percentage   value % off the eligible lines
+--   fixed        value off the eligible lines
+--   buy_x_get_y  every buy_quantity + get_quantity eligible units, the get_quantity cheapest
+--                are value % off (100 = free)
+-- A promotion applies to the whole basket, a category or a single menu item, and may be limited
+-- to an order type, a minimum basket, some weekdays, a happy-hour window and a date range.
+-- Promotions stack, in display order, and never take the basket below zero.
+
+CREATE TABLE IF NOT EXISTS public.promotions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  promotion_type text NOT NULL CHECK (promotion_type IN ('percentage', 'fixed', 'buy_x_get_y')),
+  value numeric NOT NULL CHECK (value >= 0),
+  buy_quantity integer NOT NULL DEFAULT 1 CHECK (buy_quantity >= 1),
+  get_quantity integer NOT NULL DEFAULT 1 CHECK (get_quantity >= 1),
+  menu_item_id uuid REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  category_id uuid REFERENCES public.menu_categories(id) ON DELETE CASCADE,
+  order_type text CHECK (order_type IN ('dine-in', 'takeaway')),
+  min_subtotal numeric CHECK (min_subtotal >= 0),
+  weekdays integer[], -- 0 = Sunday; NULL or empty: every day
+  start_time time,
+  end_time time,
+  starts_on date,
+  ends_on date,
+  active boolean NOT NULL DEFAULT true,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (promotion_type <> 'percentage' OR value <= 100),
+  CHECK (ends_on IS NULL OR starts_on IS NULL OR ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS promotions_restaurant_idx
+  ON public.promotions (restaurant_id, display_order);
+
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+
+-- Kiosks show the discounts before the order is placed
+CREATE POLICY "promotions_public_select" ON public.promotions
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "promotions_owners_manage" ON public.promotions
+  FOR ALL
+  TO authenticated
+  USING (public.is_restaurant_owner(restaurant_id))
+  WITH CHECK (public.is_restaurant_owner(restaurant_id));
+
+CREATE POLICY "promotions_admin_manage" ON public.promotions
+  FOR ALL
+  TO authenticated
+  USING (public.get_current_user_admin_status())
+  WITH CHECK (public.get_current_user_admin_status());
+
+CREATE TRIGGER update_promotions_updated_at
+  BEFORE UPDATE ON public.promotions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Order totals are stored after discounts; applied_promotions keeps what receipts print:
+-- [{ promotion_id, name, amount }]
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS discount_amount numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS applied_promotions jsonb;
+
+-- Promotions applying to a basket at p_at, on the restaurant's clock.
+-- p_lines: [{ menu_item_id, category_id, quantity, unit_price, rates: { "<rate>": amount } }],
+-- a combo line having no menu_item_id and its combo's category.
+-- Returns [{ promotion_id, name, amount, rates: { "<rate>": amount } }]: each discount is split
+-- across tax rates in proportion to what it applies to, rounded per rate, the highest rate
+-- taking the rounding difference. Must match evaluatePromotions on the kiosk.
+CREATE OR REPLACE FUNCTION public.evaluate_promotions(
+  p_restaurant_id uuid,
+  p_lines jsonb,
+  p_order_type text DEFAULT NULL,
+  p_at timestamptz DEFAULT now()
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_local timestamp;
+  v_minutes integer;
+  v_start integer;
+  v_end integer;
+  v_promotion promotions%ROWTYPE;
+  v_basket numeric;
+  v_remaining numeric;
+  v_eligible jsonb;
+  v_weights jsonb;
+  v_units integer;
+  v_free integer;
+  v_base numeric;
+  v_discount numeric;
+  v_rate_bases jsonb;
+  v_rate_total numeric;
+  v_rate_count integer;
+  v_rate_key text;
+  v_rate_base numeric;
+  v_index integer;
+  v_share numeric;
+  v_allocated numeric;
+  v_rates jsonb;
+  v_result jsonb := '[]'::jsonb;
+BEGIN
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' THEN
+    RETURN v_result;
+  END IF;
+
+  SELECT p_at AT TIME ZONE COALESCE(NULLIF(timezone, ''), 'UTC') INTO v_local
+  FROM restaurants
+  WHERE id = p_restaurant_id;
+
+  IF NOT FOUND THEN
+    RETURN v_result;
+  END IF;
+
+  v_minutes := extract(hour FROM v_local)::integer * 60 + extract(minute FROM v_local)::integer;
+
+  SELECT COALESCE(sum((l->>'quantity')::numeric * (l->>'unit_price')::numeric), 0) INTO v_basket
+  FROM jsonb_array_elements(p_lines) l;
+  v_remaining := v_basket;
+
+  FOR v_promotion IN
+    SELECT * FROM promotions
+    WHERE restaurant_id = p_restaurant_id
+      AND active
+      AND (order_type IS NULL OR order_type = p_order_type)
+      AND (starts_on IS NULL OR starts_on <= v_local::date)
+      AND (ends_on IS NULL OR ends_on >= v_local::date)
+      AND (weekdays IS NULL OR cardinality(weekdays) = 0 OR extract(dow FROM v_local)::integer = ANY (weekdays))
+      AND (min_subtotal IS NULL OR v_basket >= min_subtotal)
+    ORDER BY display_order, id
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    -- Happy hour; a window ending before it starts runs past midnight
+    IF v_promotion.start_time IS NOT NULL AND v_promotion.end_time IS NOT NULL THEN
+      v_start := extract(hour FROM v_promotion.start_time)::integer * 60 + extract(minute FROM v_promotion.start_time)::integer;
+      v_end := extract(hour FROM v_promotion.end_time)::integer * 60 + extract(minute FROM v_promotion.end_time)::integer;
+
+      CONTINUE WHEN v_start < v_end AND NOT (v_minutes >= v_start AND v_minutes < v_end);
+      CONTINUE WHEN v_start > v_end AND NOT (v_minutes >= v_start OR v_minutes < v_end);
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(l ORDER BY idx), '[]'::jsonb) INTO v_eligible
+    FROM jsonb_array_elements(p_lines) WITH ORDINALITY AS t(l, idx)
+    WHERE (v_promotion.menu_item_id IS NULL OR l->>'menu_item_id' = v_promotion.menu_item_id::text)
+      AND (v_promotion.category_id IS NULL OR l->>'category_id' = v_promotion.category_id::text);
+
+    CONTINUE WHEN jsonb_array_length(v_eligible) = 0;
+
+    -- What the discount applies to in each eligible line, keyed by its position
+    IF v_promotion.promotion_type = 'buy_x_get_y' THEN
+      SELECT COALESCE(sum((l->>'quantity')::integer), 0) INTO v_units
+      FROM jsonb_array_elements(v_eligible) l;
+
+      v_free := (v_units / (v_promotion.buy_quantity + v_promotion.get_quantity)) * v_promotion.get_quantity;
+
+      SELECT COALESCE(jsonb_object_agg(idx, weight), '{}'::jsonb) INTO v_weights
+      FROM (
+        SELECT idx, sum(unit_price) AS weight
+        FROM (
+          SELECT t.idx, (t.l->>'unit_price')::numeric AS unit_price
+          FROM jsonb_array_elements(v_eligible) WITH ORDINALITY AS t(l, idx)
+          CROSS JOIN generate_series(1, (t.l->>'quantity')::integer)
+          ORDER BY 2, 1
+          LIMIT v_free
+        ) cheapest
+        GROUP BY idx
+      ) w;
+    ELSE
+      SELECT jsonb_object_agg(idx, (l->>'quantity')::numeric * (l->>'unit_price')::numeric) INTO v_weights
+      FROM jsonb_array_elements(v_eligible) WITH ORDINALITY AS t(l, idx);
+    END IF;
+
+    SELECT COALESCE(sum(value::numeric), 0) INTO v_base FROM jsonb_each_text(v_weights);
+
+    v_discount := CASE v_promotion.promotion_type
+      WHEN 'fixed' THEN LEAST(v_promotion.value, v_base)
+      ELSE round(v_base * v_promotion.value / 100, 2)
+    END;
+    v_discount := LEAST(v_discount, v_remaining);
+
+    CONTINUE WHEN v_discount <= 0;
+
+    -- Share of each rate in what the discount applies to
+    SELECT COALESCE(jsonb_object_agg(rate, amount), '{}'::jsonb), COALESCE(sum(amount), 0), count(*)
+    INTO v_rate_bases, v_rate_total, v_rate_count
+    FROM (
+      SELECT r.key AS rate,
+        sum(r.value::numeric * (v_weights->>t.idx::text)::numeric
+          / ((t.l->>'quantity')::numeric * (t.l->>'unit_price')::numeric)) AS amount
+      FROM jsonb_array_elements(v_eligible) WITH ORDINALITY AS t(l, idx)
+      CROSS JOIN jsonb_each_text(t.l->'rates') r
+      WHERE v_weights ? t.idx::text
+        AND (t.l->>'quantity')::numeric * (t.l->>'unit_price')::numeric > 0
+      GROUP BY r.key
+    ) b
+    WHERE amount > 0;
+
+    CONTINUE WHEN v_rate_total <= 0;
+
+    v_rates := '{}'::jsonb;
+    v_allocated := 0;
+    v_index := 0;
+
+    FOR v_rate_key, v_rate_base IN
+      SELECT key, value::numeric FROM jsonb_each_text(v_rate_bases) ORDER BY key::numeric
+    LOOP
+      v_index := v_index + 1;
+      v_share := CASE
+        WHEN v_index = v_rate_count THEN v_discount - v_allocated
+        ELSE round(v_discount * v_rate_base / v_rate_total, 2)
+      END;
+      v_allocated := v_allocated + v_share;
+      v_rates := v_rates || jsonb_build_object(v_rate_key, v_share);
+    END LOOP;
+
+    v_result := v_result || jsonb_build_array(jsonb_build_object(
+      'promotion_id', v_promotion.id,
+      'name', v_promotion.name,
+      'amount', v_discount,
+      'rates', v_rates
+    ));
+    v_remaining := v_remaining - v_discount;
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.evaluate_promotions(uuid, jsonb, text, timestamptz) TO anon, authenticated;
+
+-- Same signature; promotions are evaluated on the validated prices and taken off each
+-- rate's amount before tax. The order keeps the discount and the promotions applied.
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_restaurant_id uuid,
+  p_items jsonb,
+  p_order_type text DEFAULT NULL,
+  p_table_number text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_number_prefix text DEFAULT NULL,
+  p_idempotency_key text DEFAULT NULL,
+  p_provisional_number text DEFAULT NULL,
+  p_placed_at timestamptz DEFAULT NULL,
+  p_payment_method text DEFAULT NULL,
+  p_table_token text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_restaurant restaurants%ROWTYPE;
+  v_menu_item menu_items%ROWTYPE;
+  v_item jsonb;
+  v_line jsonb;
+  v_lines jsonb;
+  v_combo combos%ROWTYPE;
+  v_combo_line_id uuid;
+  v_combo_rate numeric;
+  v_line_price numeric;
+  v_option jsonb;
+  v_topping jsonb;
+  v_order_item_id uuid;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_choice_price numeric;
+  v_topping_price numeric;
+  v_topping_quantity integer;
+  v_expected_price numeric;
+  v_total numeric := 0;
+  v_mismatches jsonb := '[]'::jsonb;
+  v_prefix text;
+  v_takeaway boolean := p_order_type = 'takeaway';
+  v_item_rate numeric;
+  v_topping_rate numeric;
+  v_topping_takeaway_rate numeric;
+  v_topping_tax_rate numeric;
+  v_rate_amounts jsonb := '{}'::jsonb;
+  v_rate_key text;
+  v_amount numeric;
+  v_tax numeric;
+  v_net numeric;
+  v_subtotal numeric := 0;
+  v_tax_amount numeric := 0;
+  v_breakdown jsonb := '[]'::jsonb;
+  v_table_number text := NULLIF(trim(p_table_number), '');
+  v_table_id uuid;
+  v_rates_before jsonb;
+  v_basket jsonb := '[]'::jsonb;
+  v_promotions jsonb;
+  v_promotion jsonb;
+  v_discount numeric := 0;
+  v_applied jsonb := '[]'::jsonb;
+  v_placed_at timestamptz := CASE WHEN p_provisional_number IS NOT NULL THEN COALESCE(p_placed_at, now()) ELSE now() END;
+BEGIN
+  IF p_payment_method IS NOT NULL AND p_payment_method NOT IN ('card', 'cash') THEN
+    RAISE EXCEPTION 'INVALID_PAYMENT_METHOD'
+      USING DETAIL = jsonb_build_object('payment_method', p_payment_method)::text;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'EMPTY_ORDER'
+      USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+  END IF;
+
+  -- A replayed request returns the order it already created
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_order FROM orders
+    WHERE restaurant_id = p_restaurant_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN to_jsonb(v_order);
+    END IF;
+  END IF;
+
+  SELECT * INTO v_restaurant FROM restaurants WHERE id = p_restaurant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RESTAURANT_NOT_FOUND'
+      USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+  END IF;
+
+  -- An offline ticket was handed out while the kiosk was open: judge it by when it was placed
+  IF NOT is_restaurant_open(p_restaurant_id, v_placed_at) THEN
+    RAISE EXCEPTION 'RESTAURANT_CLOSED'
+      USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+  END IF;
+
+  -- A table QR code binds the order to its table, whatever table number was sent
+  IF p_table_token IS NOT NULL THEN
+    SELECT rt.id, rt.table_number INTO v_table_id, v_table_number
+    FROM restaurant_table_tokens tt
+    JOIN restaurant_tables rt ON rt.id = tt.table_id
+    WHERE tt.token = p_table_token
+      AND rt.restaurant_id = p_restaurant_id
+      AND rt.is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'TABLE_UNAVAILABLE'
+        USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+    END IF;
+
+  -- Dine-in tables must come from the restaurant's table registry once it has one
+  ELSIF p_order_type = 'dine-in' THEN
+    IF v_table_number IS NULL THEN
+      IF (SELECT require_table_selection FROM restaurant_print_config WHERE restaurant_id = p_restaurant_id) THEN
+        RAISE EXCEPTION 'TABLE_REQUIRED'
+          USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+      END IF;
+    ELSIF EXISTS (SELECT 1 FROM restaurant_tables WHERE restaurant_id = p_restaurant_id) THEN
+      SELECT id, table_number INTO v_table_id, v_table_number
+      FROM restaurant_tables
+      WHERE restaurant_id = p_restaurant_id
+        AND lower(table_number) = lower(v_table_number)
+        AND is_active;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'TABLE_UNAVAILABLE'
+          USING DETAIL = jsonb_build_object('table_number', p_table_number)::text;
+      END IF;
+    END IF;
+  END IF;
+
+  v_prefix := COALESCE(
+    NULLIF(p_number_prefix, ''),
+    CASE p_order_type
+      WHEN 'dine-in' THEN v_restaurant.order_number_prefix_dine_in
+      WHEN 'takeaway' THEN v_restaurant.order_number_prefix_takeaway
+    END
+  );
+
+  INSERT INTO orders (
+    restaurant_id, customer_name, status, total, order_type, table_number, table_id,
+    order_number, idempotency_key, provisional_number, created_at
+  )
+  VALUES (
+    p_restaurant_id, p_customer_name,
+    CASE WHEN p_payment_method = 'card' THEN 'awaiting_payment' ELSE 'pending' END,
+    0, p_order_type, v_table_number, v_table_id,
+    next_order_number(p_restaurant_id, v_prefix), p_idempotency_key, p_provisional_number,
+    COALESCE(p_placed_at, now())
+  )
+  ON CONFLICT (restaurant_id, idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+  RETURNING * INTO v_order;
+
+  -- Lost a race against the same request sent twice
+  IF NOT FOUND THEN
+    SELECT * INTO v_order FROM orders
+    WHERE restaurant_id = p_restaurant_id AND idempotency_key = p_idempotency_key;
+    RETURN to_jsonb(v_order);
+  END IF;
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := GREATEST(COALESCE((v_item->>'quantity')::integer, 1), 1);
+    v_unit_price := 0;
+    v_combo_line_id := NULL;
+    v_rates_before := v_rate_amounts;
+
+    IF v_item->>'combo_id' IS NOT NULL THEN
+      v_lines := CASE WHEN jsonb_typeof(v_item->'components') = 'array' THEN v_item->'components' ELSE '[]'::jsonb END;
+
+      -- The combo must belong to this restaurant, be in stock and come with one item per slot
+      SELECT * INTO v_combo FROM combos
+      WHERE id = (v_item->>'combo_id')::uuid
+        AND restaurant_id = p_restaurant_id;
+
+      IF NOT FOUND OR NOT v_combo.in_stock
+        OR jsonb_array_length(v_lines) <> (SELECT count(*) FROM combo_slots WHERE combo_id = v_combo.id)
+        OR jsonb_array_length(v_lines) <> (SELECT count(DISTINCT c->>'slot_id') FROM jsonb_array_elements(v_lines) c)
+      THEN
+        RAISE EXCEPTION 'COMBO_UNAVAILABLE'
+          USING DETAIL = jsonb_build_object(
+            'cart_item_id', v_item->>'cart_item_id',
+            'combo_id', v_item->>'combo_id'
+          )::text;
+      END IF;
+
+      v_combo_rate := COALESCE(
+        CASE WHEN v_takeaway THEN v_combo.takeaway_tax_percentage END,
+        v_combo.tax_percentage,
+        10
+      );
+
+      INSERT INTO order_items (order_id, menu_item_id, combo_id, quantity, price, special_instructions)
+      VALUES (v_order.id, NULL, v_combo.id, v_quantity, 0, NULLIF(v_item->>'special_instructions', ''))
+      RETURNING id INTO v_combo_line_id;
+
+      -- The bundle price is taxed at the combo's rate
+      v_unit_price := v_combo.price;
+      v_rate_key := trim_scale(v_combo_rate)::text;
+      v_rate_amounts := jsonb_set(
+        v_rate_amounts,
+        ARRAY[v_rate_key],
+        to_jsonb(COALESCE((v_rate_amounts->>v_rate_key)::numeric, 0) + v_combo.price * v_quantity)
+      );
+    ELSE
+      v_lines := jsonb_build_array(v_item);
+    END IF;
+
+    -- A plain item is its own single line; a combo has one line per slot
+    FOR v_line IN SELECT * FROM jsonb_array_elements(v_lines)
+    LOOP
+      -- The item must belong to this restaurant and still be in stock
+      SELECT mi.* INTO v_menu_item
+      FROM menu_items mi
+      JOIN menu_categories mc ON mc.id = mi.category_id
+      WHERE mi.id = (v_line->>'menu_item_id')::uuid
+        AND mc.restaurant_id = p_restaurant_id;
+
+      IF NOT FOUND OR NOT v_menu_item.in_stock THEN
+        RAISE EXCEPTION 'ITEM_UNAVAILABLE'
+          USING DETAIL = jsonb_build_object(
+            'cart_item_id', v_item->>'cart_item_id',
+            'menu_item_id', v_line->>'menu_item_id'
+          )::text;
+      END IF;
+
+      IF v_combo_line_id IS NULL THEN
+        v_line_price := v_menu_item.price;
+      ELSE
+        -- A component must be offered by its slot and only adds its upcharge to the bundle price
+        SELECT COALESCE(csi.upcharge, 0) INTO v_line_price
+        FROM combo_slots cs
+        LEFT JOIN combo_slot_items csi ON csi.slot_id = cs.id AND csi.menu_item_id = v_menu_item.id
+        WHERE cs.id = (v_line->>'slot_id')::uuid
+          AND cs.combo_id = v_combo.id
+          AND (csi.menu_item_id IS NOT NULL OR cs.category_id = v_menu_item.category_id);
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'COMBO_UNAVAILABLE'
+            USING DETAIL = jsonb_build_object(
+              'cart_item_id', v_item->>'cart_item_id',
+              'combo_id', v_combo.id,
+              'slot_id', v_line->>'slot_id',
+              'menu_item_id', v_menu_item.id
+            )::text;
+        END IF;
+      END IF;
+
+      v_item_rate := COALESCE(
+        CASE WHEN v_takeaway THEN v_menu_item.takeaway_tax_percentage END,
+        v_menu_item.tax_percentage,
+        10
+      );
+
+      INSERT INTO order_items (order_id, menu_item_id, parent_order_item_id, quantity, price, special_instructions)
+      VALUES (v_order.id, v_menu_item.id, v_combo_line_id, v_quantity, 0, NULLIF(v_line->>'special_instructions', ''))
+      RETURNING id INTO v_order_item_id;
+
+      -- Option choices
+      FOR v_option IN SELECT * FROM jsonb_array_elements(COALESCE(v_line->'options', '[]'::jsonb))
+      LOOP
+        SELECT COALESCE(oc.price, 0) INTO v_choice_price
+        FROM option_choices oc
+        JOIN menu_item_options mio ON mio.id = oc.option_id
+        WHERE oc.id = (v_option->>'choice_id')::uuid
+          AND mio.id = (v_option->>'option_id')::uuid
+          AND mio.menu_item_id = v_menu_item.id;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'OPTION_UNAVAILABLE'
+            USING DETAIL = jsonb_build_object(
+              'cart_item_id', v_item->>'cart_item_id',
+              'menu_item_id', v_menu_item.id,
+              'option_id', v_option->>'option_id',
+              'choice_id', v_option->>'choice_id'
+            )::text;
+        END IF;
+
+        v_line_price := v_line_price + v_choice_price;
+
+        INSERT INTO order_item_options (order_item_id, option_id, choice_id)
+        VALUES (v_order_item_id, (v_option->>'option_id')::uuid, (v_option->>'choice_id')::uuid);
+      END LOOP;
+
+      -- The item (or its upcharge in a combo) and its option choices are taxed at the item's rate
+      v_rate_key := trim_scale(v_item_rate)::text;
+      v_rate_amounts := jsonb_set(
+        v_rate_amounts,
+        ARRAY[v_rate_key],
+        to_jsonb(COALESCE((v_rate_amounts->>v_rate_key)::numeric, 0) + v_line_price * v_quantity)
+      );
+
+      -- Toppings, only from categories linked to this menu item
+      FOR v_topping IN SELECT * FROM jsonb_array_elements(COALESCE(v_line->'toppings', '[]'::jsonb))
+      LOOP
+        SELECT COALESCE(t.price, 0), t.tax_percentage, t.takeaway_tax_percentage
+        INTO v_topping_price, v_topping_rate, v_topping_takeaway_rate
+        FROM toppings t
+        JOIN menu_item_topping_categories mitc ON mitc.topping_category_id = t.category_id
+        WHERE t.id = (v_topping->>'topping_id')::uuid
+          AND mitc.menu_item_id = v_menu_item.id
+          AND t.in_stock;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'TOPPING_UNAVAILABLE'
+            USING DETAIL = jsonb_build_object(
+              'cart_item_id', v_item->>'cart_item_id',
+              'menu_item_id', v_menu_item.id,
+              'topping_id', v_topping->>'topping_id'
+            )::text;
+        END IF;
+
+        v_topping_quantity := GREATEST(COALESCE((v_topping->>'quantity')::integer, 1), 1);
+        v_line_price := v_line_price + v_topping_price * v_topping_quantity;
+
+        v_topping_tax_rate := COALESCE(
+          CASE WHEN v_takeaway THEN v_topping_takeaway_rate END,
+          v_topping_rate,
+          v_item_rate
+        );
+        v_rate_key := trim_scale(v_topping_tax_rate)::text;
+        v_rate_amounts := jsonb_set(
+          v_rate_amounts,
+          ARRAY[v_rate_key],
+          to_jsonb(COALESCE((v_rate_amounts->>v_rate_key)::numeric, 0) + v_topping_price * v_topping_quantity * v_quantity)
+        );
+
+        -- One row per unit, so reprints get the topping quantity back
+        INSERT INTO order_item_toppings (order_item_id, topping_id)
+        SELECT v_order_item_id, (v_topping->>'topping_id')::uuid
+        FROM generate_series(1, v_topping_quantity);
+      END LOOP;
+
+      -- Component lines stay at 0, their price is part of the combo line's
+      IF v_combo_line_id IS NULL THEN
+        UPDATE order_items SET price = v_line_price WHERE id = v_order_item_id;
+      END IF;
+
+      v_unit_price := v_unit_price + v_line_price;
+    END LOOP;
+
+    IF v_combo_line_id IS NOT NULL THEN
+      UPDATE order_items SET price = v_unit_price WHERE id = v_combo_line_id;
+    END IF;
+
+    -- What the line adds at each rate, for the promotions
+    v_basket := v_basket || jsonb_build_array(jsonb_build_object(
+      'menu_item_id', CASE WHEN v_combo_line_id IS NULL THEN v_menu_item.id END,
+      'category_id', CASE WHEN v_combo_line_id IS NULL THEN v_menu_item.category_id ELSE v_combo.category_id END,
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'rates', (
+        SELECT COALESCE(jsonb_object_agg(key, value::numeric - COALESCE((v_rates_before->>key)::numeric, 0)), '{}'::jsonb)
+        FROM jsonb_each_text(v_rate_amounts)
+        WHERE value::numeric <> COALESCE((v_rates_before->>key)::numeric, 0)
+      )
+    ));
+
+    -- Compare with the price the customer saw on the kiosk
+    v_expected_price := (v_item->>'unit_price')::numeric;
+    IF v_expected_price IS NOT NULL AND abs(v_expected_price - v_unit_price) > 0.005 THEN
+      v_mismatches := v_mismatches || jsonb_build_array(jsonb_build_object(
+        'cart_item_id', v_item->>'cart_item_id',
+        'menu_item_id', v_item->>'menu_item_id',
+        'combo_id', v_item->>'combo_id',
+        'expected_price', v_expected_price,
+        'actual_price', v_unit_price
+      ));
+    END IF;
+  END LOOP;
+
+  -- Raising here rolls back the order and everything inserted above
+  IF jsonb_array_length(v_mismatches) > 0 THEN
+    RAISE EXCEPTION 'PRICE_MISMATCH'
+      USING DETAIL = jsonb_build_object('items', v_mismatches)::text;
+  END IF;
+
+  -- Promotions come off each rate's amount, so tax is computed on the discounted prices
+  v_promotions := evaluate_promotions(p_restaurant_id, v_basket, p_order_type, v_placed_at);
+
+  FOR v_promotion IN SELECT * FROM jsonb_array_elements(v_promotions)
+  LOOP
+    FOR v_rate_key, v_amount IN SELECT key, value::numeric FROM jsonb_each_text(v_promotion->'rates')
+    LOOP
+      v_rate_amounts := jsonb_set(
+        v_rate_amounts,
+        ARRAY[v_rate_key],
+        to_jsonb(COALESCE((v_rate_amounts->>v_rate_key)::numeric, 0) - v_amount)
+      );
+    END LOOP;
+
+    v_discount := v_discount + (v_promotion->>'amount')::numeric;
+    v_applied := v_applied || jsonb_build_array(v_promotion - 'rates');
+  END LOOP;
+
+  -- Tax is rounded once per rate; must match calculateCartTotals on the kiosk
+  FOR v_rate_key, v_amount IN
+    SELECT key, round(value::numeric, 2) FROM jsonb_each_text(v_rate_amounts) ORDER BY key::numeric
+  LOOP
+    CONTINUE WHEN v_amount = 0;
+
+    IF v_restaurant.prices_include_tax THEN
+      v_tax := round(v_amount * v_rate_key::numeric / (100 + v_rate_key::numeric), 2);
+      v_net := v_amount - v_tax;
+    ELSE
+      v_tax := round(v_amount * v_rate_key::numeric / 100, 2);
+      v_net := v_amount;
+    END IF;
+
+    v_subtotal := v_subtotal + v_net;
+    v_tax_amount := v_tax_amount + v_tax;
+    v_breakdown := v_breakdown || jsonb_build_array(jsonb_build_object(
+      'rate', v_rate_key::numeric,
+      'net', v_net,
+      'tax', v_tax
+    ));
+  END LOOP;
+
+  v_total := v_subtotal + v_tax_amount;
+
+  UPDATE orders
+  SET total = v_total,
+      subtotal = v_subtotal,
+      tax_amount = v_tax_amount,
+      tax_breakdown = v_breakdown,
+      discount_amount = v_discount,
+      applied_promotions = CASE WHEN jsonb_array_length(v_applied) > 0 THEN v_applied END
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  -- Paid at the counter: the cashier collects what is recorded here
+  IF p_payment_method = 'cash' THEN
+    INSERT INTO payments (order_id, amount, payment_method, status, provider)
+    VALUES (v_order.id, v_total, 'cash', 'pending', 'counter');
+  END IF;
+
+  RETURN to_jsonb(v_order);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(uuid, jsonb, text, text, text, text, text, text, timestamptz, text, text) TO anon, authenticated;
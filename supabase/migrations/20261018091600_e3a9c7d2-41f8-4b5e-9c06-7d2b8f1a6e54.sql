@@ -0,0 +1,141 @@
+-- Upsell and cross-sell
+-- Before checkout the kiosk suggests items the cart is missing: first from the restaurant's
+-- rules, then from what other customers ordered with the same items. Suggestions shown and
+-- added to the cart are recorded so owners can see which ones work.
+
+-- trigger_* NULL: any cart. A suggested category is skipped once the cart has one of its items,
+-- e.g. "suggest drinks if no drink in cart"; a suggested item pairs with the trigger.
+CREATE TABLE IF NOT EXISTS public.upsell_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  trigger_menu_item_id uuid REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  trigger_category_id uuid REFERENCES public.menu_categories(id) ON DELETE CASCADE,
+  suggested_menu_item_id uuid REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  suggested_category_id uuid REFERENCES public.menu_categories(id) ON DELETE CASCADE,
+  active boolean NOT NULL DEFAULT true,
+  display_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((suggested_menu_item_id IS NULL) <> (suggested_category_id IS NULL)),
+  CHECK (trigger_menu_item_id IS NULL OR trigger_category_id IS NULL)
+);
+
+CREATE INDEX IF NOT EXISTS upsell_rules_restaurant_idx
+  ON public.upsell_rules (restaurant_id, display_order);
+
+-- rule_id NULL with source 'co_purchase'
+CREATE TABLE IF NOT EXISTS public.upsell_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  menu_item_id uuid NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  rule_id uuid REFERENCES public.upsell_rules(id) ON DELETE SET NULL,
+  source text NOT NULL CHECK (source IN ('rule', 'co_purchase')),
+  event text NOT NULL CHECK (event IN ('shown', 'accepted')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS upsell_events_restaurant_idx
+  ON public.upsell_events (restaurant_id, created_at);
+
+ALTER TABLE public.upsell_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.upsell_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "upsell_rules_public_select" ON public.upsell_rules
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "upsell_rules_owners_manage" ON public.upsell_rules
+  FOR ALL
+  TO authenticated
+  USING (public.is_restaurant_owner(restaurant_id))
+  WITH CHECK (public.is_restaurant_owner(restaurant_id));
+
+CREATE POLICY "upsell_rules_admin_manage" ON public.upsell_rules
+  FOR ALL
+  TO authenticated
+  USING (public.get_current_user_admin_status())
+  WITH CHECK (public.get_current_user_admin_status());
+
+-- Kiosks and table phones record events, only owners read them
+CREATE POLICY "upsell_events_kiosk_insert" ON public.upsell_events
+  FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "upsell_events_owners_select" ON public.upsell_events
+  FOR SELECT
+  TO authenticated
+  USING (public.is_restaurant_owner(restaurant_id));
+
+CREATE POLICY "upsell_events_admin_manage" ON public.upsell_events
+  FOR ALL
+  TO authenticated
+  USING (public.get_current_user_admin_status())
+  WITH CHECK (public.get_current_user_admin_status());
+
+CREATE TRIGGER update_upsell_rules_updated_at
+  BEFORE UPDATE ON public.upsell_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- For each item, the items most often ordered with it over the last p_days.
+-- Kiosks cannot read orders, hence SECURITY DEFINER; only item ids and counts come out.
+CREATE OR REPLACE FUNCTION public.get_co_purchase_pairs(
+  p_restaurant_id uuid,
+  p_days integer DEFAULT 90,
+  p_per_item integer DEFAULT 5
+)
+RETURNS TABLE (menu_item_id uuid, paired_menu_item_id uuid, order_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT ranked.menu_item_id, ranked.paired_menu_item_id, ranked.order_count
+  FROM (
+    SELECT
+      a.menu_item_id,
+      b.menu_item_id AS paired_menu_item_id,
+      count(DISTINCT o.id) AS order_count,
+      row_number() OVER (
+        PARTITION BY a.menu_item_id
+        ORDER BY count(DISTINCT o.id) DESC, b.menu_item_id
+      ) AS rank
+    FROM orders o
+    JOIN order_items a ON a.order_id = o.id
+    JOIN order_items b ON b.order_id = o.id AND b.menu_item_id <> a.menu_item_id
+    WHERE o.restaurant_id = p_restaurant_id
+      AND o.status NOT IN ('cancelled', 'awaiting_payment')
+      AND o.created_at >= now() - make_interval(days => p_days)
+    GROUP BY a.menu_item_id, b.menu_item_id
+  ) ranked
+  WHERE ranked.rank <= p_per_item;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_co_purchase_pairs(uuid, integer, integer) TO anon, authenticated;
+
+-- Suggestions shown and accepted per item and source between p_from and p_to
+CREATE OR REPLACE FUNCTION public.get_upsell_stats(
+  p_restaurant_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (menu_item_id uuid, source text, shown bigint, accepted bigint)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  SELECT
+    e.menu_item_id,
+    e.source,
+    count(*) FILTER (WHERE e.event = 'shown') AS shown,
+    count(*) FILTER (WHERE e.event = 'accepted') AS accepted
+  FROM upsell_events e
+  WHERE e.restaurant_id = p_restaurant_id
+    AND e.created_at >= p_from
+    AND e.created_at <= p_to
+  GROUP BY e.menu_item_id, e.source;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_upsell_stats(uuid, timestamptz, timestamptz) TO authenticated;
@@ -0,0 +1,19 @@
+-- Allergens and dietary tags on menu items and toppings.
+-- allergens: the 14 EU allergens, e.g. '{gluten,milk}'
+-- dietary_tags: 'vegan', 'vegetarian', 'halal'; a topping keeps an item's tag only if it carries it too
+-- spicy_level: 0 (not spicy) to 3
+ALTER TABLE public.menu_items
+  ADD COLUMN IF NOT EXISTS allergens text[] NOT NULL DEFAULT '{}'
+    CHECK (allergens <@ ARRAY['gluten', 'crustaceans', 'eggs', 'fish', 'peanuts', 'soybeans', 'milk', 'nuts', 'celery', 'mustard', 'sesame', 'sulphites', 'lupin', 'molluscs']),
+  ADD COLUMN IF NOT EXISTS dietary_tags text[] NOT NULL DEFAULT '{}'
+    CHECK (dietary_tags <@ ARRAY['vegan', 'vegetarian', 'halal']),
+  ADD COLUMN IF NOT EXISTS spicy_level smallint NOT NULL DEFAULT 0
+    CHECK (spicy_level BETWEEN 0 AND 3);
+
+ALTER TABLE public.toppings
+  ADD COLUMN IF NOT EXISTS allergens text[] NOT NULL DEFAULT '{}'
+    CHECK (allergens <@ ARRAY['gluten', 'crustaceans', 'eggs', 'fish', 'peanuts', 'soybeans', 'milk', 'nuts', 'celery', 'mustard', 'sesame', 'sulphites', 'lupin', 'molluscs']),
+  ADD COLUMN IF NOT EXISTS dietary_tags text[] NOT NULL DEFAULT '{}'
+    CHECK (dietary_tags <@ ARRAY['vegan', 'vegetarian', 'halal']),
+  ADD COLUMN IF NOT EXISTS spicy_level smallint NOT NULL DEFAULT 0
+    CHECK (spicy_level BETWEEN 0 AND 3);
@@ -0,0 +1,16 @@
+-- Nutrition facts of menu items and toppings, per portion as served.
+-- NULL means unknown: the kiosk then shows no calorie total for the item.
+-- A topping's values are added once per unit selected.
+ALTER TABLE public.menu_items
+  ADD COLUMN IF NOT EXISTS calories numeric CHECK (calories IS NULL OR calories >= 0),
+  ADD COLUMN IF NOT EXISTS protein numeric CHECK (protein IS NULL OR protein >= 0),
+  ADD COLUMN IF NOT EXISTS carbohydrates numeric CHECK (carbohydrates IS NULL OR carbohydrates >= 0),
+  ADD COLUMN IF NOT EXISTS fat numeric CHECK (fat IS NULL OR fat >= 0),
+  ADD COLUMN IF NOT EXISTS portion_size text;
+
+ALTER TABLE public.toppings
+  ADD COLUMN IF NOT EXISTS calories numeric CHECK (calories IS NULL OR calories >= 0),
+  ADD COLUMN IF NOT EXISTS protein numeric CHECK (protein IS NULL OR protein >= 0),
+  ADD COLUMN IF NOT EXISTS carbohydrates numeric CHECK (carbohydrates IS NULL OR carbohydrates >= 0),
+  ADD COLUMN IF NOT EXISTS fat numeric CHECK (fat IS NULL OR fat >= 0),
+  ADD COLUMN IF NOT EXISTS portion_size text;
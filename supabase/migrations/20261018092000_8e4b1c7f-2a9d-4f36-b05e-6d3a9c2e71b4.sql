@@ -0,0 +1,823 @@
+-- Ingredients and recipes
+-- Menu items and toppings run out through what they are made of: a recipe lists the
+-- ingredient quantities one unit uses, place_order takes them from the ingredient's stock and
+-- ingredients_available, kept up to date by triggers, hides whatever an ingredient runs short
+-- for. Every stock movement is a row in ingredient_adjustments, with its reason.
+
+CREATE TABLE IF NOT EXISTS public.ingredients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  unit text NOT NULL DEFAULT 'piece' CHECK (unit IN ('piece', 'g', 'kg', 'ml', 'l')),
+  stock_quantity numeric NOT NULL DEFAULT 0 CHECK (stock_quantity >= 0),
+  low_stock_threshold numeric CHECK (low_stock_threshold >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ingredients_restaurant_idx ON public.ingredients (restaurant_id, name);
+
+-- One row per ingredient of a menu item or of a topping, for one unit of it
+CREATE TABLE IF NOT EXISTS public.recipe_ingredients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ingredient_id uuid NOT NULL REFERENCES public.ingredients(id) ON DELETE CASCADE,
+  menu_item_id uuid REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  topping_id uuid REFERENCES public.toppings(id) ON DELETE CASCADE,
+  quantity numeric NOT NULL CHECK (quantity > 0), -- in the ingredient's unit
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((menu_item_id IS NULL) <> (topping_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS recipe_ingredients_menu_item_key
+  ON public.recipe_ingredients (menu_item_id, ingredient_id) WHERE menu_item_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS recipe_ingredients_topping_key
+  ON public.recipe_ingredients (topping_id, ingredient_id) WHERE topping_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS recipe_ingredients_ingredient_idx ON public.recipe_ingredients (ingredient_id);
+
+-- Stock movements:
+--   count         a manual count replaced the stock
+--   delivery      goods received
+--   waste         thrown away, spoiled, staff meals
+--   correction    any other manual change
+--   order         taken by an order
+--   cancellation  given back by a cancelled order
+CREATE TABLE IF NOT EXISTS public.ingredient_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ingredient_id uuid NOT NULL REFERENCES public.ingredients(id) ON DELETE CASCADE,
+  delta numeric NOT NULL,
+  stock_after numeric NOT NULL,
+  reason text NOT NULL CHECK (reason IN ('count', 'delivery', 'waste', 'correction', 'order', 'cancellation')),
+  note text,
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ingredient_adjustments_ingredient_idx
+  ON public.ingredient_adjustments (ingredient_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS ingredient_adjustments_order_idx
+  ON public.ingredient_adjustments (order_id) WHERE order_id IS NOT NULL;
+
+ALTER TABLE public.menu_items
+  ADD COLUMN IF NOT EXISTS ingredients_available boolean NOT NULL DEFAULT true;
+
+ALTER TABLE public.toppings
+  ADD COLUMN IF NOT EXISTS ingredients_available boolean NOT NULL DEFAULT true;
+
+ALTER TABLE public.ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recipe_ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ingredient_adjustments ENABLE ROW LEVEL SECURITY;
+
+-- Kiosks only see ingredients_available; place_order reads the rest as definer
+CREATE POLICY "ingredients_owners_manage" ON public.ingredients
+  FOR ALL
+  TO authenticated
+  USING (public.is_restaurant_owner(restaurant_id))
+  WITH CHECK (public.is_restaurant_owner(restaurant_id));
+
+CREATE POLICY "ingredients_admin_manage" ON public.ingredients
+  FOR ALL
+  TO authenticated
+  USING (public.get_current_user_admin_status())
+  WITH CHECK (public.get_current_user_admin_status());
+
+CREATE POLICY "recipe_ingredients_owners_manage" ON public.recipe_ingredients
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.ingredients i WHERE i.id = ingredient_id AND public.is_restaurant_owner(i.restaurant_id)))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.ingredients i WHERE i.id = ingredient_id AND public.is_restaurant_owner(i.restaurant_id)));
+
+CREATE POLICY "recipe_ingredients_admin_manage" ON public.recipe_ingredients
+  FOR ALL
+  TO authenticated
+  USING (public.get_current_user_admin_status())
+  WITH CHECK (public.get_current_user_admin_status());
+
+-- The log is append-only for owners
+CREATE POLICY "ingredient_adjustments_owners_select" ON public.ingredient_adjustments
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.ingredients i WHERE i.id = ingredient_id AND public.is_restaurant_owner(i.restaurant_id)));
+
+CREATE POLICY "ingredient_adjustments_owners_insert" ON public.ingredient_adjustments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM public.ingredients i WHERE i.id = ingredient_id AND public.is_restaurant_owner(i.restaurant_id)));
+
+CREATE POLICY "ingredient_adjustments_admin_manage" ON public.ingredient_adjustments
+  FOR ALL
+  TO authenticated
+  USING (public.get_current_user_admin_status())
+  WITH CHECK (public.get_current_user_admin_status());
+
+CREATE TRIGGER update_ingredients_updated_at
+  BEFORE UPDATE ON public.ingredients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Recomputes ingredients_available; rows are only written when it changes, so kiosks
+-- listening to menu_items are not told about every order
+CREATE OR REPLACE FUNCTION public.refresh_ingredients_available(
+  p_menu_item_ids uuid[],
+  p_topping_ids uuid[]
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  UPDATE menu_items mi
+  SET ingredients_available = v.available
+  FROM (
+    SELECT m.id, NOT EXISTS (
+      SELECT 1 FROM recipe_ingredients ri
+      JOIN ingredients i ON i.id = ri.ingredient_id
+      WHERE ri.menu_item_id = m.id AND i.stock_quantity < ri.quantity
+    ) AS available
+    FROM menu_items m
+    WHERE m.id = ANY (p_menu_item_ids)
+  ) v
+  WHERE mi.id = v.id
+    AND mi.ingredients_available IS DISTINCT FROM v.available;
+
+  UPDATE toppings t
+  SET ingredients_available = v.available
+  FROM (
+    SELECT tp.id, NOT EXISTS (
+      SELECT 1 FROM recipe_ingredients ri
+      JOIN ingredients i ON i.id = ri.ingredient_id
+      WHERE ri.topping_id = tp.id AND i.stock_quantity < ri.quantity
+    ) AS available
+    FROM toppings tp
+    WHERE tp.id = ANY (p_topping_ids)
+  ) v
+  WHERE t.id = v.id
+    AND t.ingredients_available IS DISTINCT FROM v.available;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_ingredients_available(uuid[], uuid[]) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_ingredient_availability()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  PERFORM refresh_ingredients_available(
+    ARRAY(SELECT menu_item_id FROM recipe_ingredients WHERE ingredient_id = NEW.id AND menu_item_id IS NOT NULL),
+    ARRAY(SELECT topping_id FROM recipe_ingredients WHERE ingredient_id = NEW.id AND topping_id IS NOT NULL)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_ingredient_availability
+  AFTER UPDATE OF stock_quantity ON public.ingredients
+  FOR EACH ROW
+  WHEN (NEW.stock_quantity IS DISTINCT FROM OLD.stock_quantity)
+  EXECUTE FUNCTION public.sync_ingredient_availability();
+
+CREATE OR REPLACE FUNCTION public.sync_recipe_availability()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  PERFORM refresh_ingredients_available(
+    array_remove(ARRAY[NEW.menu_item_id, OLD.menu_item_id], NULL),
+    array_remove(ARRAY[NEW.topping_id, OLD.topping_id], NULL)
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_recipe_availability
+  AFTER INSERT OR UPDATE OR DELETE ON public.recipe_ingredients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_recipe_availability();
+
+-- Manual stock change, logged with its reason. For a count, p_quantity is what was counted;
+-- otherwise it is added, negative for waste. Runs with the caller's rights.
+CREATE OR REPLACE FUNCTION public.adjust_ingredient_stock(
+  p_ingredient_id uuid,
+  p_quantity numeric,
+  p_reason text,
+  p_note text DEFAULT NULL
+)
+RETURNS ingredients
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_before numeric;
+  v_ingredient ingredients%ROWTYPE;
+BEGIN
+  IF p_reason NOT IN ('count', 'delivery', 'waste', 'correction') THEN
+    RAISE EXCEPTION 'INVALID_ADJUSTMENT_REASON'
+      USING DETAIL = jsonb_build_object('reason', p_reason)::text;
+  END IF;
+
+  SELECT stock_quantity INTO v_before FROM ingredients WHERE id = p_ingredient_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'INGREDIENT_NOT_FOUND'
+      USING DETAIL = jsonb_build_object('ingredient_id', p_ingredient_id)::text;
+  END IF;
+
+  UPDATE ingredients
+  SET stock_quantity = GREATEST(CASE WHEN p_reason = 'count' THEN p_quantity ELSE stock_quantity + p_quantity END, 0)
+  WHERE id = p_ingredient_id
+  RETURNING * INTO v_ingredient;
+
+  INSERT INTO ingredient_adjustments (ingredient_id, delta, stock_after, reason, note)
+  VALUES (p_ingredient_id, v_ingredient.stock_quantity - v_before, v_ingredient.stock_quantity, p_reason, NULLIF(trim(p_note), ''));
+
+  RETURN v_ingredient;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.adjust_ingredient_stock(uuid, numeric, text, text) TO authenticated;
+
+-- Same signature; the recipe's ingredients are taken with the item and each topping unit,
+-- ITEM_UNAVAILABLE or TOPPING_UNAVAILABLE naming the ingredient that ran short.
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_restaurant_id uuid,
+  p_items jsonb,
+  p_order_type text DEFAULT NULL,
+  p_table_number text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_number_prefix text DEFAULT NULL,
+  p_idempotency_key text DEFAULT NULL,
+  p_provisional_number text DEFAULT NULL,
+  p_placed_at timestamptz DEFAULT NULL,
+  p_payment_method text DEFAULT NULL,
+  p_table_token text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_restaurant restaurants%ROWTYPE;
+  v_menu_item menu_items%ROWTYPE;
+  v_item jsonb;
+  v_line jsonb;
+  v_lines jsonb;
+  v_combo combos%ROWTYPE;
+  v_combo_line_id uuid;
+  v_combo_rate numeric;
+  v_line_price numeric;
+  v_option jsonb;
+  v_topping jsonb;
+  v_order_item_id uuid;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_choice_price numeric;
+  v_topping_price numeric;
+  v_topping_quantity integer;
+  v_topping_stock integer;
+  v_topping_id uuid;
+  v_ingredient_id uuid;
+  v_needed numeric;
+  v_stock_after numeric;
+  v_expected_price numeric;
+  v_total numeric := 0;
+  v_mismatches jsonb := '[]'::jsonb;
+  v_prefix text;
+  v_takeaway boolean := p_order_type = 'takeaway';
+  v_item_rate numeric;
+  v_topping_rate numeric;
+  v_topping_takeaway_rate numeric;
+  v_topping_tax_rate numeric;
+  v_rate_amounts jsonb := '{}'::jsonb;
+  v_rate_key text;
+  v_amount numeric;
+  v_tax numeric;
+  v_net numeric;
+  v_subtotal numeric := 0;
+  v_tax_amount numeric := 0;
+  v_breakdown jsonb := '[]'::jsonb;
+  v_table_number text := NULLIF(trim(p_table_number), '');
+  v_table_id uuid;
+  v_rates_before jsonb;
+  v_basket jsonb := '[]'::jsonb;
+  v_promotions jsonb;
+  v_promotion jsonb;
+  v_discount numeric := 0;
+  v_applied jsonb := '[]'::jsonb;
+  v_placed_at timestamptz := CASE WHEN p_provisional_number IS NOT NULL THEN COALESCE(p_placed_at, now()) ELSE now() END;
+BEGIN
+  IF p_payment_method IS NOT NULL AND p_payment_method NOT IN ('card', 'cash') THEN
+    RAISE EXCEPTION 'INVALID_PAYMENT_METHOD'
+      USING DETAIL = jsonb_build_object('payment_method', p_payment_method)::text;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'EMPTY_ORDER'
+      USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+  END IF;
+
+  -- A replayed request returns the order it already created
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_order FROM orders
+    WHERE restaurant_id = p_restaurant_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      RETURN to_jsonb(v_order);
+    END IF;
+  END IF;
+
+  SELECT * INTO v_restaurant FROM restaurants WHERE id = p_restaurant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RESTAURANT_NOT_FOUND'
+      USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+  END IF;
+
+  -- An offline ticket was handed out while the kiosk was open: judge it by when it was placed
+  IF NOT is_restaurant_open(p_restaurant_id, v_placed_at) THEN
+    RAISE EXCEPTION 'RESTAURANT_CLOSED'
+      USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+  END IF;
+
+  -- A table QR code binds the order to its table, whatever table number was sent
+  IF p_table_token IS NOT NULL THEN
+    SELECT rt.id, rt.table_number INTO v_table_id, v_table_number
+    FROM restaurant_table_tokens tt
+    JOIN restaurant_tables rt ON rt.id = tt.table_id
+    WHERE tt.token = p_table_token
+      AND rt.restaurant_id = p_restaurant_id
+      AND rt.is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'TABLE_UNAVAILABLE'
+        USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+    END IF;
+
+  -- Dine-in tables must come from the restaurant's table registry once it has one
+  ELSIF p_order_type = 'dine-in' THEN
+    IF v_table_number IS NULL THEN
+      IF (SELECT require_table_selection FROM restaurant_print_config WHERE restaurant_id = p_restaurant_id) THEN
+        RAISE EXCEPTION 'TABLE_REQUIRED'
+          USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+      END IF;
+    ELSIF EXISTS (SELECT 1 FROM restaurant_tables WHERE restaurant_id = p_restaurant_id) THEN
+      SELECT id, table_number INTO v_table_id, v_table_number
+      FROM restaurant_tables
+      WHERE restaurant_id = p_restaurant_id
+        AND lower(table_number) = lower(v_table_number)
+        AND is_active;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'TABLE_UNAVAILABLE'
+          USING DETAIL = jsonb_build_object('table_number', p_table_number)::text;
+      END IF;
+    END IF;
+  END IF;
+
+  v_prefix := COALESCE(
+    NULLIF(p_number_prefix, ''),
+    CASE p_order_type
+      WHEN 'dine-in' THEN v_restaurant.order_number_prefix_dine_in
+      WHEN 'takeaway' THEN v_restaurant.order_number_prefix_takeaway
+    END
+  );
+
+  INSERT INTO orders (
+    restaurant_id, customer_name, status, total, order_type, table_number, table_id,
+    order_number, idempotency_key, provisional_number, created_at
+  )
+  VALUES (
+    p_restaurant_id, p_customer_name,
+    CASE WHEN p_payment_method = 'card' THEN 'awaiting_payment' ELSE 'pending' END,
+    0, p_order_type, v_table_number, v_table_id,
+    next_order_number(p_restaurant_id, v_prefix), p_idempotency_key, p_provisional_number,
+    COALESCE(p_placed_at, now())
+  )
+  ON CONFLICT (restaurant_id, idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+  RETURNING * INTO v_order;
+
+  -- Lost a race against the same request sent twice
+  IF NOT FOUND THEN
+    SELECT * INTO v_order FROM orders
+    WHERE restaurant_id = p_restaurant_id AND idempotency_key = p_idempotency_key;
+    RETURN to_jsonb(v_order);
+  END IF;
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := GREATEST(COALESCE((v_item->>'quantity')::integer, 1), 1);
+    v_unit_price := 0;
+    v_combo_line_id := NULL;
+    v_rates_before := v_rate_amounts;
+
+    IF v_item->>'combo_id' IS NOT NULL THEN
+      v_lines := CASE WHEN jsonb_typeof(v_item->'components') = 'array' THEN v_item->'components' ELSE '[]'::jsonb END;
+
+      -- The combo must belong to this restaurant, be in stock and come with one item per slot
+      SELECT * INTO v_combo FROM combos
+      WHERE id = (v_item->>'combo_id')::uuid
+        AND restaurant_id = p_restaurant_id;
+
+      IF NOT FOUND OR NOT v_combo.in_stock
+        OR jsonb_array_length(v_lines) <> (SELECT count(*) FROM combo_slots WHERE combo_id = v_combo.id)
+        OR jsonb_array_length(v_lines) <> (SELECT count(DISTINCT c->>'slot_id') FROM jsonb_array_elements(v_lines) c)
+      THEN
+        RAISE EXCEPTION 'COMBO_UNAVAILABLE'
+          USING DETAIL = jsonb_build_object(
+            'cart_item_id', v_item->>'cart_item_id',
+            'combo_id', v_item->>'combo_id'
+          )::text;
+      END IF;
+
+      v_combo_rate := COALESCE(
+        CASE WHEN v_takeaway THEN v_combo.takeaway_tax_percentage END,
+        v_combo.tax_percentage,
+        10
+      );
+
+      INSERT INTO order_items (order_id, menu_item_id, combo_id, quantity, price, special_instructions)
+      VALUES (v_order.id, NULL, v_combo.id, v_quantity, 0, NULLIF(v_item->>'special_instructions', ''))
+      RETURNING id INTO v_combo_line_id;
+
+      -- The bundle price is taxed at the combo's rate
+      v_unit_price := v_combo.price;
+      v_rate_key := trim_scale(v_combo_rate)::text;
+      v_rate_amounts := jsonb_set(
+        v_rate_amounts,
+        ARRAY[v_rate_key],
+        to_jsonb(COALESCE((v_rate_amounts->>v_rate_key)::numeric, 0) + v_combo.price * v_quantity)
+      );
+    ELSE
+      v_lines := jsonb_build_array(v_item);
+    END IF;
+
+    -- A plain item is its own single line; a combo has one line per slot
+    FOR v_line IN SELECT * FROM jsonb_array_elements(v_lines)
+    LOOP
+      -- The item must belong to this restaurant and still be in stock. The row stays locked
+      -- until the order commits, so two kiosks cannot sell the last unit twice.
+      SELECT mi.* INTO v_menu_item
+      FROM menu_items mi
+      JOIN menu_categories mc ON mc.id = mi.category_id
+      WHERE mi.id = (v_line->>'menu_item_id')::uuid
+        AND mc.restaurant_id = p_restaurant_id
+      FOR UPDATE OF mi;
+
+      IF NOT FOUND OR NOT v_menu_item.in_stock OR v_menu_item.stock_quantity < v_quantity THEN
+        RAISE EXCEPTION 'ITEM_UNAVAILABLE'
+          USING DETAIL = jsonb_build_object(
+            'cart_item_id', v_item->>'cart_item_id',
+            'menu_item_id', v_line->>'menu_item_id',
+            'available', v_menu_item.stock_quantity
+          )::text;
+      END IF;
+
+      -- Tracked items sell out at zero
+      IF v_menu_item.stock_quantity IS NOT NULL THEN
+        UPDATE menu_items
+        SET stock_quantity = stock_quantity - v_quantity,
+            in_stock = stock_quantity - v_quantity > 0
+        WHERE id = v_menu_item.id;
+      END IF;
+
+      -- The recipe's ingredients; the conditional update locks each one and rechecks it
+      FOR v_ingredient_id, v_needed IN
+        SELECT ingredient_id, quantity * v_quantity FROM recipe_ingredients WHERE menu_item_id = v_menu_item.id
+      LOOP
+        UPDATE ingredients SET stock_quantity = stock_quantity - v_needed
+        WHERE id = v_ingredient_id AND stock_quantity >= v_needed
+        RETURNING stock_quantity INTO v_stock_after;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'ITEM_UNAVAILABLE'
+            USING DETAIL = jsonb_build_object(
+              'cart_item_id', v_item->>'cart_item_id',
+              'menu_item_id', v_menu_item.id,
+              'ingredient_id', v_ingredient_id
+            )::text;
+        END IF;
+
+        INSERT INTO ingredient_adjustments (ingredient_id, delta, stock_after, reason, order_id)
+        VALUES (v_ingredient_id, -v_needed, v_stock_after, 'order', v_order.id);
+      END LOOP;
+
+      IF v_combo_line_id IS NULL THEN
+        v_line_price := v_menu_item.price;
+      ELSE
+        -- A component must be offered by its slot and only adds its upcharge to the bundle price
+        SELECT COALESCE(csi.upcharge, 0) INTO v_line_price
+        FROM combo_slots cs
+        LEFT JOIN combo_slot_items csi ON csi.slot_id = cs.id AND csi.menu_item_id = v_menu_item.id
+        WHERE cs.id = (v_line->>'slot_id')::uuid
+          AND cs.combo_id = v_combo.id
+          AND (csi.menu_item_id IS NOT NULL OR cs.category_id = v_menu_item.category_id);
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'COMBO_UNAVAILABLE'
+            USING DETAIL = jsonb_build_object(
+              'cart_item_id', v_item->>'cart_item_id',
+              'combo_id', v_combo.id,
+              'slot_id', v_line->>'slot_id',
+              'menu_item_id', v_menu_item.id
+            )::text;
+        END IF;
+      END IF;
+
+      v_item_rate := COALESCE(
+        CASE WHEN v_takeaway THEN v_menu_item.takeaway_tax_percentage END,
+        v_menu_item.tax_percentage,
+        10
+      );
+
+      INSERT INTO order_items (order_id, menu_item_id, parent_order_item_id, quantity, price, special_instructions)
+      VALUES (v_order.id, v_menu_item.id, v_combo_line_id, v_quantity, 0, NULLIF(v_line->>'special_instructions', ''))
+      RETURNING id INTO v_order_item_id;
+
+      -- Option choices
+      FOR v_option IN SELECT * FROM jsonb_array_elements(COALESCE(v_line->'options', '[]'::jsonb))
+      LOOP
+        SELECT COALESCE(oc.price, 0) INTO v_choice_price
+        FROM option_choices oc
+        JOIN menu_item_options mio ON mio.id = oc.option_id
+        WHERE oc.id = (v_option->>'choice_id')::uuid
+          AND mio.id = (v_option->>'option_id')::uuid
+          AND mio.menu_item_id = v_menu_item.id;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'OPTION_UNAVAILABLE'
+            USING DETAIL = jsonb_build_object(
+              'cart_item_id', v_item->>'cart_item_id',
+              'menu_item_id', v_menu_item.id,
+              'option_id', v_option->>'option_id',
+              'choice_id', v_option->>'choice_id'
+            )::text;
+        END IF;
+
+        v_line_price := v_line_price + v_choice_price;
+
+        INSERT INTO order_item_options (order_item_id, option_id, choice_id)
+        VALUES (v_order_item_id, (v_option->>'option_id')::uuid, (v_option->>'choice_id')::uuid);
+      END LOOP;
+
+      -- The item (or its upcharge in a combo) and its option choices are taxed at the item's rate
+      v_rate_key := trim_scale(v_item_rate)::text;
+      v_rate_amounts := jsonb_set(
+        v_rate_amounts,
+        ARRAY[v_rate_key],
+        to_jsonb(COALESCE((v_rate_amounts->>v_rate_key)::numeric, 0) + v_line_price * v_quantity)
+      );
+
+      -- Toppings, only from categories linked to this menu item
+      FOR v_topping IN SELECT * FROM jsonb_array_elements(COALESCE(v_line->'toppings', '[]'::jsonb))
+      LOOP
+        v_topping_quantity := GREATEST(COALESCE((v_topping->>'quantity')::integer, 1), 1);
+
+        SELECT t.id, COALESCE(t.price, 0), t.tax_percentage, t.takeaway_tax_percentage, t.stock_quantity
+        INTO v_topping_id, v_topping_price, v_topping_rate, v_topping_takeaway_rate, v_topping_stock
+        FROM toppings t
+        JOIN menu_item_topping_categories mitc ON mitc.topping_category_id = t.category_id
+        WHERE t.id = (v_topping->>'topping_id')::uuid
+          AND mitc.menu_item_id = v_menu_item.id
+          AND t.in_stock
+        FOR UPDATE OF t;
+
+        IF NOT FOUND OR v_topping_stock < v_topping_quantity * v_quantity THEN
+          RAISE EXCEPTION 'TOPPING_UNAVAILABLE'
+            USING DETAIL = jsonb_build_object(
+              'cart_item_id', v_item->>'cart_item_id',
+              'menu_item_id', v_menu_item.id,
+              'topping_id', v_topping->>'topping_id',
+              'available', v_topping_stock
+            )::text;
+        END IF;
+
+        IF v_topping_stock IS NOT NULL THEN
+          UPDATE toppings
+          SET stock_quantity = stock_quantity - v_topping_quantity * v_quantity,
+              in_stock = stock_quantity - v_topping_quantity * v_quantity > 0
+          WHERE id = v_topping_id;
+        END IF;
+
+        FOR v_ingredient_id, v_needed IN
+          SELECT ingredient_id, quantity * v_topping_quantity * v_quantity FROM recipe_ingredients WHERE topping_id = v_topping_id
+        LOOP
+          UPDATE ingredients SET stock_quantity = stock_quantity - v_needed
+          WHERE id = v_ingredient_id AND stock_quantity >= v_needed
+          RETURNING stock_quantity INTO v_stock_after;
+
+          IF NOT FOUND THEN
+            RAISE EXCEPTION 'TOPPING_UNAVAILABLE'
+              USING DETAIL = jsonb_build_object(
+                'cart_item_id', v_item->>'cart_item_id',
+                'menu_item_id', v_menu_item.id,
+                'topping_id', v_topping_id,
+                'ingredient_id', v_ingredient_id
+              )::text;
+          END IF;
+
+          INSERT INTO ingredient_adjustments (ingredient_id, delta, stock_after, reason, order_id)
+          VALUES (v_ingredient_id, -v_needed, v_stock_after, 'order', v_order.id);
+        END LOOP;
+        v_line_price := v_line_price + v_topping_price * v_topping_quantity;
+
+        v_topping_tax_rate := COALESCE(
+          CASE WHEN v_takeaway THEN v_topping_takeaway_rate END,
+          v_topping_rate,
+          v_item_rate
+        );
+        v_rate_key := trim_scale(v_topping_tax_rate)::text;
+        v_rate_amounts := jsonb_set(
+          v_rate_amounts,
+          ARRAY[v_rate_key],
+          to_jsonb(COALESCE((v_rate_amounts->>v_rate_key)::numeric, 0) + v_topping_price * v_topping_quantity * v_quantity)
+        );
+
+        -- One row per unit, so reprints get the topping quantity back
+        INSERT INTO order_item_toppings (order_item_id, topping_id)
+        SELECT v_order_item_id, (v_topping->>'topping_id')::uuid
+        FROM generate_series(1, v_topping_quantity);
+      END LOOP;
+
+      -- Component lines stay at 0, their price is part of the combo line's
+      IF v_combo_line_id IS NULL THEN
+        UPDATE order_items SET price = v_line_price WHERE id = v_order_item_id;
+      END IF;
+
+      v_unit_price := v_unit_price + v_line_price;
+    END LOOP;
+
+    IF v_combo_line_id IS NOT NULL THEN
+      UPDATE order_items SET price = v_unit_price WHERE id = v_combo_line_id;
+    END IF;
+
+    -- What the line adds at each rate, for the promotions
+    v_basket := v_basket || jsonb_build_array(jsonb_build_object(
+      'menu_item_id', CASE WHEN v_combo_line_id IS NULL THEN v_menu_item.id END,
+      'category_id', CASE WHEN v_combo_line_id IS NULL THEN v_menu_item.category_id ELSE v_combo.category_id END,
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'rates', (
+        SELECT COALESCE(jsonb_object_agg(key, value::numeric - COALESCE((v_rates_before->>key)::numeric, 0)), '{}'::jsonb)
+        FROM jsonb_each_text(v_rate_amounts)
+        WHERE value::numeric <> COALESCE((v_rates_before->>key)::numeric, 0)
+      )
+    ));
+
+    -- Compare with the price the customer saw on the kiosk
+    v_expected_price := (v_item->>'unit_price')::numeric;
+    IF v_expected_price IS NOT NULL AND abs(v_expected_price - v_unit_price) > 0.005 THEN
+      v_mismatches := v_mismatches || jsonb_build_array(jsonb_build_object(
+        'cart_item_id', v_item->>'cart_item_id',
+        'menu_item_id', v_item->>'menu_item_id',
+        'combo_id', v_item->>'combo_id',
+        'expected_price', v_expected_price,
+        'actual_price', v_unit_price
+      ));
+    END IF;
+  END LOOP;
+
+  -- Raising here rolls back the order and everything inserted above
+  IF jsonb_array_length(v_mismatches) > 0 THEN
+    RAISE EXCEPTION 'PRICE_MISMATCH'
+      USING DETAIL = jsonb_build_object('items', v_mismatches)::text;
+  END IF;
+
+  -- Promotions come off each rate's amount, so tax is computed on the discounted prices
+  v_promotions := evaluate_promotions(p_restaurant_id, v_basket, p_order_type, v_placed_at);
+
+  FOR v_promotion IN SELECT * FROM jsonb_array_elements(v_promotions)
+  LOOP
+    FOR v_rate_key, v_amount IN SELECT key, value::numeric FROM jsonb_each_text(v_promotion->'rates')
+    LOOP
+      v_rate_amounts := jsonb_set(
+        v_rate_amounts,
+        ARRAY[v_rate_key],
+        to_jsonb(COALESCE((v_rate_amounts->>v_rate_key)::numeric, 0) - v_amount)
+      );
+    END LOOP;
+
+    v_discount := v_discount + (v_promotion->>'amount')::numeric;
+    v_applied := v_applied || jsonb_build_array(v_promotion - 'rates');
+  END LOOP;
+
+  -- Tax is rounded once per rate; must match calculateCartTotals on the kiosk
+  FOR v_rate_key, v_amount IN
+    SELECT key, round(value::numeric, 2) FROM jsonb_each_text(v_rate_amounts) ORDER BY key::numeric
+  LOOP
+    CONTINUE WHEN v_amount = 0;
+
+    IF v_restaurant.prices_include_tax THEN
+      v_tax := round(v_amount * v_rate_key::numeric / (100 + v_rate_key::numeric), 2);
+      v_net := v_amount - v_tax;
+    ELSE
+      v_tax := round(v_amount * v_rate_key::numeric / 100, 2);
+      v_net := v_amount;
+    END IF;
+
+    v_subtotal := v_subtotal + v_net;
+    v_tax_amount := v_tax_amount + v_tax;
+    v_breakdown := v_breakdown || jsonb_build_array(jsonb_build_object(
+      'rate', v_rate_key::numeric,
+      'net', v_net,
+      'tax', v_tax
+    ));
+  END LOOP;
+
+  v_total := v_subtotal + v_tax_amount;
+
+  UPDATE orders
+  SET total = v_total,
+      subtotal = v_subtotal,
+      tax_amount = v_tax_amount,
+      tax_breakdown = v_breakdown,
+      discount_amount = v_discount,
+      applied_promotions = CASE WHEN jsonb_array_length(v_applied) > 0 THEN v_applied END
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  -- Paid at the counter: the cashier collects what is recorded here
+  IF p_payment_method = 'cash' THEN
+    INSERT INTO payments (order_id, amount, payment_method, status, provider)
+    VALUES (v_order.id, v_total, 'cash', 'pending', 'counter');
+  END IF;
+
+  RETURN to_jsonb(v_order);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(uuid, jsonb, text, text, text, text, text, text, timestamptz, text, text) TO anon, authenticated;
+
+-- Cancelled orders also give back their ingredients
+CREATE OR REPLACE FUNCTION public.restore_order_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NEW.created_at < COALESCE(
+    (SELECT stock_reset_at FROM restaurants WHERE id = NEW.restaurant_id),
+    '-infinity'::timestamptz
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Combo components are lines of their own, with the combo's quantity
+  UPDATE menu_items mi
+  SET stock_quantity = mi.stock_quantity + used.units,
+      in_stock = mi.in_stock OR mi.stock_quantity = 0
+  FROM (
+    SELECT menu_item_id, sum(quantity) AS units
+    FROM order_items
+    WHERE order_id = NEW.id AND menu_item_id IS NOT NULL
+    GROUP BY menu_item_id
+  ) used
+  WHERE mi.id = used.menu_item_id
+    AND mi.stock_quantity IS NOT NULL;
+
+  -- One order_item_toppings row per topping unit, for each of the line's quantity
+  UPDATE toppings t
+  SET stock_quantity = t.stock_quantity + used.units,
+      in_stock = t.in_stock OR t.stock_quantity = 0
+  FROM (
+    SELECT oit.topping_id, sum(oi.quantity) AS units
+    FROM order_item_toppings oit
+    JOIN order_items oi ON oi.id = oit.order_item_id
+    WHERE oi.order_id = NEW.id
+    GROUP BY oit.topping_id
+  ) used
+  WHERE t.id = used.topping_id
+    AND t.stock_quantity IS NOT NULL;
+
+  -- Ingredients get back what the order took, except those counted since
+  WITH returned AS (
+    SELECT a.ingredient_id, -sum(a.delta) AS units
+    FROM ingredient_adjustments a
+    WHERE a.order_id = NEW.id
+      AND a.reason = 'order'
+      AND NOT EXISTS (
+        SELECT 1 FROM ingredient_adjustments c
+        WHERE c.ingredient_id = a.ingredient_id
+          AND c.reason = 'count'
+          AND c.created_at > NEW.created_at
+      )
+    GROUP BY a.ingredient_id
+  ), restored AS (
+    UPDATE ingredients i
+    SET stock_quantity = i.stock_quantity + returned.units
+    FROM returned
+    WHERE i.id = returned.ingredient_id
+    RETURNING i.id, returned.units, i.stock_quantity
+  )
+  INSERT INTO ingredient_adjustments (ingredient_id, delta, stock_after, reason, order_id)
+  SELECT id, units, stock_quantity, 'cancellation', NEW.id FROM restored;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,310 @@
+-- Draft menus
+-- The menu tables stay what kiosks and place_order read, i.e. the published menu. Owners edit a
+-- draft instead: a menu version holding the whole menu as a menu bundle document (the format of
+-- the menu export). publish_menu_version writes a version to the menu tables in one transaction;
+-- the version published before it is archived and can be published again to roll back.
+-- Stock levels, in_stock and kitchen stations are not part of a version: the stock tab and the
+-- station settings change them on the live menu and publishing leaves them as they are.
+
+CREATE TABLE IF NOT EXISTS public.menu_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'scheduled', 'published', 'archived')),
+  content jsonb NOT NULL, -- menu bundle: categories, items, topping_categories, toppings, item_topping_categories
+  publish_at timestamptz, -- when a scheduled draft goes live
+  published_at timestamptz,
+  note text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (status <> 'scheduled' OR publish_at IS NOT NULL)
+);
+
+-- One draft, scheduled or not, and one published version per restaurant
+CREATE UNIQUE INDEX IF NOT EXISTS menu_versions_draft_key
+  ON public.menu_versions (restaurant_id) WHERE status IN ('draft', 'scheduled');
+CREATE UNIQUE INDEX IF NOT EXISTS menu_versions_published_key
+  ON public.menu_versions (restaurant_id) WHERE status = 'published';
+CREATE INDEX IF NOT EXISTS menu_versions_restaurant_idx
+  ON public.menu_versions (restaurant_id, published_at DESC);
+CREATE INDEX IF NOT EXISTS menu_versions_due_idx
+  ON public.menu_versions (publish_at) WHERE status = 'scheduled';
+
+ALTER TABLE public.menu_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "menu_versions_owners_manage" ON public.menu_versions
+  FOR ALL
+  TO authenticated
+  USING (public.is_restaurant_owner(restaurant_id))
+  WITH CHECK (public.is_restaurant_owner(restaurant_id));
+
+CREATE POLICY "menu_versions_admin_manage" ON public.menu_versions
+  FOR ALL
+  TO authenticated
+  USING (public.get_current_user_admin_status())
+  WITH CHECK (public.get_current_user_admin_status());
+
+CREATE TRIGGER update_menu_versions_updated_at
+  BEFORE UPDATE ON public.menu_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Makes the menu tables match the version: rows are matched by id, rows missing from the version
+-- are deleted. Rows of other restaurants are never touched, whatever ids the document holds.
+-- Runs as the caller, so owners can only publish their own menus.
+CREATE OR REPLACE FUNCTION public.publish_menu_version(p_version_id uuid)
+RETURNS public.menu_versions
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_version menu_versions%ROWTYPE;
+  v_restaurant_id uuid;
+  v_content jsonb;
+  v_category_ids uuid[];
+  v_item_ids uuid[];
+  v_topping_category_ids uuid[];
+  v_topping_ids uuid[];
+BEGIN
+  SELECT * INTO v_version FROM menu_versions WHERE id = p_version_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Menu version % not found', p_version_id;
+  END IF;
+
+  v_restaurant_id := v_version.restaurant_id;
+  v_content := v_version.content;
+
+  -- One publication at a time per restaurant
+  PERFORM 1 FROM restaurants WHERE id = v_restaurant_id FOR UPDATE;
+
+  v_category_ids := ARRAY(SELECT (e->>'id')::uuid FROM jsonb_array_elements(COALESCE(v_content->'categories', '[]')) e);
+  v_item_ids := ARRAY(SELECT (e->>'id')::uuid FROM jsonb_array_elements(COALESCE(v_content->'items', '[]')) e);
+  v_topping_category_ids := ARRAY(SELECT (e->>'id')::uuid FROM jsonb_array_elements(COALESCE(v_content->'topping_categories', '[]')) e);
+  v_topping_ids := ARRAY(SELECT (e->>'id')::uuid FROM jsonb_array_elements(COALESCE(v_content->'toppings', '[]')) e);
+
+  INSERT INTO menu_categories AS c (
+    id, restaurant_id, name, description, icon, image_url, display_order, name_fr,
+    name_en, name_tr, name_de, name_es, name_it, name_nl,
+    name_pt, name_ru, name_ar, name_zh, description_fr, description_en,
+    description_tr, description_de, description_es, description_it, description_nl, description_pt,
+    description_ru, description_ar, description_zh
+  )
+  SELECT
+    r.id, v_restaurant_id, r.name, r.description, r.icon, r.image_url, r.display_order, r.name_fr,
+    r.name_en, r.name_tr, r.name_de, r.name_es, r.name_it, r.name_nl,
+    r.name_pt, r.name_ru, r.name_ar, r.name_zh, r.description_fr, r.description_en,
+    r.description_tr, r.description_de, r.description_es, r.description_it, r.description_nl, r.description_pt,
+    r.description_ru, r.description_ar, r.description_zh
+  FROM jsonb_populate_recordset(NULL::menu_categories, v_content->'categories') r
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name, description = EXCLUDED.description, icon = EXCLUDED.icon,
+    image_url = EXCLUDED.image_url, display_order = EXCLUDED.display_order, name_fr = EXCLUDED.name_fr,
+    name_en = EXCLUDED.name_en, name_tr = EXCLUDED.name_tr, name_de = EXCLUDED.name_de,
+    name_es = EXCLUDED.name_es, name_it = EXCLUDED.name_it, name_nl = EXCLUDED.name_nl,
+    name_pt = EXCLUDED.name_pt, name_ru = EXCLUDED.name_ru, name_ar = EXCLUDED.name_ar,
+    name_zh = EXCLUDED.name_zh, description_fr = EXCLUDED.description_fr, description_en = EXCLUDED.description_en,
+    description_tr = EXCLUDED.description_tr, description_de = EXCLUDED.description_de, description_es = EXCLUDED.description_es,
+    description_it = EXCLUDED.description_it, description_nl = EXCLUDED.description_nl, description_pt = EXCLUDED.description_pt,
+    description_ru = EXCLUDED.description_ru, description_ar = EXCLUDED.description_ar, description_zh = EXCLUDED.description_zh,
+    updated_at = now()
+  WHERE c.restaurant_id = v_restaurant_id;
+
+  INSERT INTO topping_categories AS tc (
+    id, restaurant_id, name, description, icon, min_selections, max_selections, display_order,
+    allow_multiple_same_topping, show_if_selection_type, show_if_selection_id, name_fr, name_en, name_tr,
+    name_de, name_es, name_it, name_nl, name_pt, name_ru,
+    name_ar, name_zh, description_fr, description_en, description_tr, description_de,
+    description_es, description_it, description_nl, description_pt, description_ru, description_ar,
+    description_zh
+  )
+  SELECT
+    r.id, v_restaurant_id, r.name, r.description, r.icon, r.min_selections, r.max_selections, r.display_order,
+    COALESCE(r.allow_multiple_same_topping, false), r.show_if_selection_type, r.show_if_selection_id, r.name_fr, r.name_en, r.name_tr,
+    r.name_de, r.name_es, r.name_it, r.name_nl, r.name_pt, r.name_ru,
+    r.name_ar, r.name_zh, r.description_fr, r.description_en, r.description_tr, r.description_de,
+    r.description_es, r.description_it, r.description_nl, r.description_pt, r.description_ru, r.description_ar,
+    r.description_zh
+  FROM jsonb_populate_recordset(NULL::topping_categories, v_content->'topping_categories') r
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name, description = EXCLUDED.description, icon = EXCLUDED.icon,
+    min_selections = EXCLUDED.min_selections, max_selections = EXCLUDED.max_selections, display_order = EXCLUDED.display_order,
+    allow_multiple_same_topping = EXCLUDED.allow_multiple_same_topping, show_if_selection_type = EXCLUDED.show_if_selection_type, show_if_selection_id = EXCLUDED.show_if_selection_id,
+    name_fr = EXCLUDED.name_fr, name_en = EXCLUDED.name_en, name_tr = EXCLUDED.name_tr,
+    name_de = EXCLUDED.name_de, name_es = EXCLUDED.name_es, name_it = EXCLUDED.name_it,
+    name_nl = EXCLUDED.name_nl, name_pt = EXCLUDED.name_pt, name_ru = EXCLUDED.name_ru,
+    name_ar = EXCLUDED.name_ar, name_zh = EXCLUDED.name_zh, description_fr = EXCLUDED.description_fr,
+    description_en = EXCLUDED.description_en, description_tr = EXCLUDED.description_tr, description_de = EXCLUDED.description_de,
+    description_es = EXCLUDED.description_es, description_it = EXCLUDED.description_it, description_nl = EXCLUDED.description_nl,
+    description_pt = EXCLUDED.description_pt, description_ru = EXCLUDED.description_ru, description_ar = EXCLUDED.description_ar,
+    description_zh = EXCLUDED.description_zh,
+    updated_at = now()
+  WHERE tc.restaurant_id = v_restaurant_id;
+
+  -- in_stock and stock levels only for new rows
+  INSERT INTO menu_items AS m (
+    id, category_id, name, description, price, promotion_price, image,
+    tax_percentage, takeaway_tax_percentage, display_order, available_from, available_until, allergens,
+    dietary_tags, spicy_level, calories, protein, carbohydrates, fat,
+    portion_size, in_stock, low_stock_threshold, par_level, name_fr, name_en,
+    name_tr, name_de, name_es, name_it, name_nl, name_pt,
+    name_ru, name_ar, name_zh, description_fr, description_en, description_tr,
+    description_de, description_es, description_it, description_nl, description_pt, description_ru,
+    description_ar, description_zh
+  )
+  SELECT
+    r.id, r.category_id, r.name, r.description, COALESCE(r.price, 0), r.promotion_price, r.image,
+    r.tax_percentage, r.takeaway_tax_percentage, r.display_order, r.available_from, r.available_until, COALESCE(r.allergens, '{}'),
+    COALESCE(r.dietary_tags, '{}'), COALESCE(r.spicy_level, 0), r.calories, r.protein, r.carbohydrates, r.fat,
+    r.portion_size, COALESCE(r.in_stock, true), COALESCE(r.low_stock_threshold, 5), r.par_level, r.name_fr, r.name_en,
+    r.name_tr, r.name_de, r.name_es, r.name_it, r.name_nl, r.name_pt,
+    r.name_ru, r.name_ar, r.name_zh, r.description_fr, r.description_en, r.description_tr,
+    r.description_de, r.description_es, r.description_it, r.description_nl, r.description_pt, r.description_ru,
+    r.description_ar, r.description_zh
+  FROM jsonb_populate_recordset(NULL::menu_items, v_content->'items') r
+  WHERE r.category_id IN (SELECT id FROM menu_categories WHERE restaurant_id = v_restaurant_id)
+  ON CONFLICT (id) DO UPDATE SET
+    category_id = EXCLUDED.category_id, name = EXCLUDED.name, description = EXCLUDED.description,
+    price = EXCLUDED.price, promotion_price = EXCLUDED.promotion_price, image = EXCLUDED.image,
+    tax_percentage = EXCLUDED.tax_percentage, takeaway_tax_percentage = EXCLUDED.takeaway_tax_percentage, display_order = EXCLUDED.display_order,
+    available_from = EXCLUDED.available_from, available_until = EXCLUDED.available_until, allergens = EXCLUDED.allergens,
+    dietary_tags = EXCLUDED.dietary_tags, spicy_level = EXCLUDED.spicy_level, calories = EXCLUDED.calories,
+    protein = EXCLUDED.protein, carbohydrates = EXCLUDED.carbohydrates, fat = EXCLUDED.fat,
+    portion_size = EXCLUDED.portion_size, name_fr = EXCLUDED.name_fr, name_en = EXCLUDED.name_en,
+    name_tr = EXCLUDED.name_tr, name_de = EXCLUDED.name_de, name_es = EXCLUDED.name_es,
+    name_it = EXCLUDED.name_it, name_nl = EXCLUDED.name_nl, name_pt = EXCLUDED.name_pt,
+    name_ru = EXCLUDED.name_ru, name_ar = EXCLUDED.name_ar, name_zh = EXCLUDED.name_zh,
+    description_fr = EXCLUDED.description_fr, description_en = EXCLUDED.description_en, description_tr = EXCLUDED.description_tr,
+    description_de = EXCLUDED.description_de, description_es = EXCLUDED.description_es, description_it = EXCLUDED.description_it,
+    description_nl = EXCLUDED.description_nl, description_pt = EXCLUDED.description_pt, description_ru = EXCLUDED.description_ru,
+    description_ar = EXCLUDED.description_ar, description_zh = EXCLUDED.description_zh,
+    updated_at = now()
+  WHERE m.category_id IN (SELECT id FROM menu_categories WHERE restaurant_id = v_restaurant_id);
+
+  INSERT INTO toppings AS t (
+    id, category_id, name, price, tax_percentage, takeaway_tax_percentage, display_order,
+    allergens, dietary_tags, spicy_level, calories, protein, carbohydrates,
+    fat, portion_size, in_stock, low_stock_threshold, par_level, name_fr,
+    name_en, name_tr, name_de, name_es, name_it, name_nl,
+    name_pt, name_ru, name_ar, name_zh
+  )
+  SELECT
+    r.id, r.category_id, r.name, COALESCE(r.price, 0), r.tax_percentage, r.takeaway_tax_percentage, r.display_order,
+    COALESCE(r.allergens, '{}'), COALESCE(r.dietary_tags, '{}'), COALESCE(r.spicy_level, 0), r.calories, r.protein, r.carbohydrates,
+    r.fat, r.portion_size, COALESCE(r.in_stock, true), COALESCE(r.low_stock_threshold, 5), r.par_level, r.name_fr,
+    r.name_en, r.name_tr, r.name_de, r.name_es, r.name_it, r.name_nl,
+    r.name_pt, r.name_ru, r.name_ar, r.name_zh
+  FROM jsonb_populate_recordset(NULL::toppings, v_content->'toppings') r
+  WHERE r.category_id IN (SELECT id FROM topping_categories WHERE restaurant_id = v_restaurant_id)
+  ON CONFLICT (id) DO UPDATE SET
+    category_id = EXCLUDED.category_id, name = EXCLUDED.name, price = EXCLUDED.price,
+    tax_percentage = EXCLUDED.tax_percentage, takeaway_tax_percentage = EXCLUDED.takeaway_tax_percentage, display_order = EXCLUDED.display_order,
+    allergens = EXCLUDED.allergens, dietary_tags = EXCLUDED.dietary_tags, spicy_level = EXCLUDED.spicy_level,
+    calories = EXCLUDED.calories, protein = EXCLUDED.protein, carbohydrates = EXCLUDED.carbohydrates,
+    fat = EXCLUDED.fat, portion_size = EXCLUDED.portion_size, name_fr = EXCLUDED.name_fr,
+    name_en = EXCLUDED.name_en, name_tr = EXCLUDED.name_tr, name_de = EXCLUDED.name_de,
+    name_es = EXCLUDED.name_es, name_it = EXCLUDED.name_it, name_nl = EXCLUDED.name_nl,
+    name_pt = EXCLUDED.name_pt, name_ru = EXCLUDED.name_ru, name_ar = EXCLUDED.name_ar,
+    name_zh = EXCLUDED.name_zh,
+    updated_at = now()
+  WHERE t.category_id IN (SELECT id FROM topping_categories WHERE restaurant_id = v_restaurant_id);
+
+  DELETE FROM menu_items m
+  USING menu_categories c
+  WHERE m.category_id = c.id
+    AND c.restaurant_id = v_restaurant_id
+    AND NOT (m.id = ANY(v_item_ids));
+
+  DELETE FROM toppings t
+  USING topping_categories tc
+  WHERE t.category_id = tc.id
+    AND tc.restaurant_id = v_restaurant_id
+    AND NOT (t.id = ANY(v_topping_ids));
+
+  DELETE FROM menu_categories
+  WHERE restaurant_id = v_restaurant_id
+    AND NOT (id = ANY(v_category_ids));
+
+  DELETE FROM topping_categories
+  WHERE restaurant_id = v_restaurant_id
+    AND NOT (id = ANY(v_topping_category_ids));
+
+  DELETE FROM menu_item_topping_categories l
+  USING menu_items m, menu_categories c
+  WHERE l.menu_item_id = m.id
+    AND m.category_id = c.id
+    AND c.restaurant_id = v_restaurant_id;
+
+  INSERT INTO menu_item_topping_categories (menu_item_id, topping_category_id, display_order)
+  SELECT r.menu_item_id, r.topping_category_id, COALESCE(r.display_order, 0)
+  FROM jsonb_populate_recordset(NULL::menu_item_topping_categories, v_content->'item_topping_categories') r
+  JOIN menu_items m ON m.id = r.menu_item_id
+  JOIN menu_categories c ON c.id = m.category_id AND c.restaurant_id = v_restaurant_id
+  JOIN topping_categories tc ON tc.id = r.topping_category_id AND tc.restaurant_id = v_restaurant_id;
+
+  UPDATE menu_versions
+  SET status = 'archived'
+  WHERE restaurant_id = v_restaurant_id
+    AND status = 'published'
+    AND id <> p_version_id;
+
+  UPDATE menu_versions
+  SET status = 'published', published_at = now(), publish_at = NULL
+  WHERE id = p_version_id
+  RETURNING * INTO v_version;
+
+  -- The last 20 archived versions are kept for rollback
+  DELETE FROM menu_versions
+  WHERE restaurant_id = v_restaurant_id
+    AND status = 'archived'
+    AND id NOT IN (
+      SELECT id FROM menu_versions
+      WHERE restaurant_id = v_restaurant_id AND status = 'archived'
+      ORDER BY published_at DESC NULLS LAST
+      LIMIT 20
+    );
+
+  RETURN v_version;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.publish_menu_version(uuid) TO authenticated;
+
+-- Publishes scheduled drafts that are due. A draft that fails to publish goes back to draft with
+-- the error as note, instead of being retried every minute.
+CREATE OR REPLACE FUNCTION public.publish_due_menu_versions()
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_version_id uuid;
+  v_count integer := 0;
+BEGIN
+  FOR v_version_id IN
+    SELECT id FROM menu_versions
+    WHERE status = 'scheduled' AND publish_at <= now()
+    ORDER BY publish_at
+  LOOP
+    BEGIN
+      PERFORM publish_menu_version(v_version_id);
+      v_count := v_count + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE menu_versions
+      SET status = 'draft', publish_at = NULL, note = 'Scheduled publication failed: ' || SQLERRM
+      WHERE id = v_version_id;
+    END;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.publish_due_menu_versions() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('publish-due-menu-versions', '* * * * *', 'SELECT public.publish_due_menu_versions()');
+  END IF;
+END;
+$$;
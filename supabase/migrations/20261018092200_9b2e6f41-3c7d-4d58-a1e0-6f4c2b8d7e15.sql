@@ -0,0 +1,95 @@
+-- Restaurant groups
+-- A group ties the sites of a brand to a master menu: the published menu of its master
+-- restaurant. Publishing the master writes it into the menu of every member as a new menu
+-- version, keeping what each member overrides (prices, availability hours, translations) and
+-- its own stock levels. Which member row follows which master row, and the overrides, are kept
+-- in the "master" section of the member's menu versions.
+
+CREATE TABLE IF NOT EXISTS public.restaurant_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  owner_id uuid NOT NULL DEFAULT auth.uid(),
+  master_restaurant_id uuid REFERENCES public.restaurants(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.restaurants
+  ADD COLUMN IF NOT EXISTS group_id uuid REFERENCES public.restaurant_groups(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS restaurants_group_idx ON public.restaurants (group_id);
+CREATE INDEX IF NOT EXISTS restaurant_groups_owner_idx ON public.restaurant_groups (owner_id);
+
+ALTER TABLE public.restaurant_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "restaurant_groups_owners_manage" ON public.restaurant_groups
+  FOR ALL
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "restaurant_groups_admin_manage" ON public.restaurant_groups
+  FOR ALL
+  TO authenticated
+  USING (public.get_current_user_admin_status())
+  WITH CHECK (public.get_current_user_admin_status());
+
+CREATE TRIGGER update_restaurant_groups_updated_at
+  BEFORE UPDATE ON public.restaurant_groups
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Owners may only put their restaurants in their own groups. Admins and server-side jobs
+-- (no auth.uid()) are not restricted. A master restaurant leaving its group leaves the group
+-- without a master.
+CREATE OR REPLACE FUNCTION public.check_restaurant_group()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.group_id IS DISTINCT FROM NEW.group_id THEN
+    UPDATE restaurant_groups
+    SET master_restaurant_id = NULL
+    WHERE id = OLD.group_id AND master_restaurant_id = NEW.id;
+  END IF;
+
+  IF NEW.group_id IS NULL OR auth.uid() IS NULL OR public.get_current_user_admin_status() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM restaurant_groups WHERE id = NEW.group_id AND owner_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Restaurant group % does not belong to the current user', NEW.group_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_restaurants_group
+  BEFORE INSERT OR UPDATE OF group_id ON public.restaurants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_restaurant_group();
+
+-- The master restaurant is a member of its group
+CREATE OR REPLACE FUNCTION public.check_group_master_restaurant()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NEW.master_restaurant_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM restaurants WHERE id = NEW.master_restaurant_id AND group_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'The master restaurant must belong to the group';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_restaurant_groups_master
+  BEFORE UPDATE OF master_restaurant_id ON public.restaurant_groups
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_group_master_restaurant();
@@ -0,0 +1,12 @@
+-- Card payments need a real terminal
+-- payment_terminal used to default to the simulator, which approves every amount without
+-- charging anyone. Restaurants now have no terminal until one is chosen, and the kiosk only
+-- offers card payment when the chosen terminal is available.
+
+ALTER TABLE public.restaurants
+  ALTER COLUMN payment_terminal DROP NOT NULL,
+  ALTER COLUMN payment_terminal DROP DEFAULT;
+
+UPDATE public.restaurants
+SET payment_terminal = NULL
+WHERE payment_terminal = 'simulator';
@@ -0,0 +1,47 @@
+-- Card payments are confirmed server-side
+-- Kiosks and phones run with the anon key, so whatever they report about a terminal payment
+-- cannot be trusted. They may still record that an attempt failed or was cancelled; only the
+-- card-payment edge function, after checking the transaction with the terminal provider,
+-- records a success and releases the order.
+
+REVOKE EXECUTE ON FUNCTION public.finish_card_payment(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.finish_card_payment(uuid, text, text, text) TO service_role;
+
+-- What the kiosk may record itself: the terminal declined, failed or was cancelled
+CREATE OR REPLACE FUNCTION public.fail_card_payment(
+  p_payment_id uuid,
+  p_status text,
+  p_pos_response text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_payment payments%ROWTYPE;
+  v_order orders%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('failed', 'cancelled') THEN
+    RAISE EXCEPTION 'INVALID_PAYMENT_STATUS'
+      USING DETAIL = jsonb_build_object('status', p_status)::text;
+  END IF;
+
+  UPDATE payments
+  SET status = p_status,
+      pos_response = p_pos_response,
+      updated_at = now()
+  WHERE id = p_payment_id AND status = 'pending'
+  RETURNING * INTO v_payment;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PAYMENT_NOT_PENDING'
+      USING DETAIL = jsonb_build_object('payment_id', p_payment_id)::text;
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_payment.order_id;
+  RETURN to_jsonb(v_order);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.fail_card_payment(uuid, text, text) TO anon, authenticated;
@@ -0,0 +1,28 @@
+-- Restaurant timezones are checked
+-- Order numbering, opening hours, menu schedules, promotions and stock resets all use
+-- AT TIME ZONE restaurants.timezone, which raises on an unknown zone name: a typo would make
+-- every order fail. Only names PostgreSQL knows are accepted.
+
+UPDATE public.restaurants
+SET timezone = 'Europe/Paris'
+WHERE timezone NOT IN (SELECT name FROM pg_timezone_names);
+
+CREATE OR REPLACE FUNCTION public.check_restaurant_timezone()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'INVALID_TIMEZONE'
+      USING DETAIL = jsonb_build_object('timezone', NEW.timezone)::text;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_restaurants_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON public.restaurants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_restaurant_timezone();
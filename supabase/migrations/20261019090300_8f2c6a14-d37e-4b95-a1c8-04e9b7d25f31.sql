@@ -0,0 +1,36 @@
+-- The PrintNode API key stays server-side
+-- Browsers, the public kiosk included, can no longer read restaurant_print_config.api_key:
+-- owners may still set it, and only the print worker and the printnode-printers edge
+-- function (service role) read it. Kiosks get what they need from get_print_settings.
+
+REVOKE SELECT ON public.restaurant_print_config FROM anon, authenticated;
+
+-- Every column but api_key; a new column must be added here to be readable
+GRANT SELECT (
+  id,
+  restaurant_id,
+  configured_printers,
+  browser_printing_enabled,
+  require_table_selection,
+  created_at,
+  updated_at
+) ON public.restaurant_print_config TO authenticated;
+
+-- What a kiosk needs to print: whether PrintNode is set up and which printers get receipts
+CREATE OR REPLACE FUNCTION public.get_print_settings(p_restaurant_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+  SELECT jsonb_build_object(
+    'printnode_configured', COALESCE(pc.api_key, '') <> '',
+    'configured_printers', COALESCE(pc.configured_printers, '[]'::jsonb),
+    'browser_printing_enabled', pc.browser_printing_enabled
+  )
+  FROM (SELECT p_restaurant_id AS restaurant_id) r
+  LEFT JOIN restaurant_print_config pc ON pc.restaurant_id = r.restaurant_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_print_settings(uuid) TO anon, authenticated;
@@ -0,0 +1,32 @@
+-- The stock reset keeps manual sell-outs
+-- reset_stock_to_par put every tracked item and topping with a par level back in stock,
+-- undoing a manager's "sold out" switch every day. Only what the count sold out, i.e. with
+-- no stock left, comes back now; an item switched off while it still had stock stays off.
+
+CREATE OR REPLACE FUNCTION public.reset_stock_to_par(p_restaurant_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  UPDATE menu_items mi
+  SET stock_quantity = mi.par_level,
+      in_stock = mi.par_level > 0 AND (mi.in_stock OR mi.stock_quantity = 0)
+  FROM menu_categories mc
+  WHERE mc.id = mi.category_id
+    AND mc.restaurant_id = p_restaurant_id
+    AND mi.stock_quantity IS NOT NULL
+    AND mi.par_level IS NOT NULL;
+
+  UPDATE toppings t
+  SET stock_quantity = t.par_level,
+      in_stock = t.par_level > 0 AND (t.in_stock OR t.stock_quantity = 0)
+  FROM topping_categories tc
+  WHERE tc.id = t.category_id
+    AND tc.restaurant_id = p_restaurant_id
+    AND t.stock_quantity IS NOT NULL
+    AND t.par_level IS NOT NULL;
+
+  UPDATE restaurants SET stock_reset_at = now() WHERE id = p_restaurant_id;
+END;
+$$;
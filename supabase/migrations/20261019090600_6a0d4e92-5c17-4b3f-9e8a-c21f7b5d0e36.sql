@@ -0,0 +1,64 @@
+-- Order numbers count per prefix
+-- All prefixes drew from one counter per restaurant, so "S-001" was followed by "E-002"
+-- and each prefix showed gaps. The counter is now kept per restaurant and prefix: every
+-- order type or kiosk prefix runs its own sequence, restarting at the same boundaries.
+-- Orders without a prefix share the '' counter, which keeps the current count.
+
+ALTER TABLE public.restaurant_order_counters
+  ADD COLUMN IF NOT EXISTS prefix text NOT NULL DEFAULT '';
+
+ALTER TABLE public.restaurant_order_counters
+  DROP CONSTRAINT IF EXISTS restaurant_order_counters_pkey;
+
+ALTER TABLE public.restaurant_order_counters
+  ADD CONSTRAINT restaurant_order_counters_pkey PRIMARY KEY (restaurant_id, prefix);
+
+CREATE OR REPLACE FUNCTION public.next_order_number(
+  p_restaurant_id uuid,
+  p_prefix text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_restaurant restaurants%ROWTYPE;
+  v_prefix text := COALESCE(p_prefix, '');
+  v_period_start timestamp;
+  v_value integer;
+  v_digits text;
+BEGIN
+  SELECT * INTO v_restaurant FROM restaurants WHERE id = p_restaurant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RESTAURANT_NOT_FOUND'
+      USING DETAIL = jsonb_build_object('restaurant_id', p_restaurant_id)::text;
+  END IF;
+
+  v_period_start := order_number_period_start(
+    v_restaurant.order_number_reset,
+    v_restaurant.order_number_reset_times,
+    v_restaurant.timezone
+  );
+
+  INSERT INTO restaurant_order_counters (restaurant_id, prefix, period_start, last_value)
+  VALUES (p_restaurant_id, v_prefix, v_period_start, 1)
+  ON CONFLICT (restaurant_id, prefix) DO UPDATE
+  SET last_value = CASE
+        WHEN restaurant_order_counters.period_start = EXCLUDED.period_start
+          THEN restaurant_order_counters.last_value + 1
+        ELSE 1
+      END,
+      period_start = EXCLUDED.period_start,
+      updated_at = now()
+  RETURNING last_value INTO v_value;
+
+  v_digits := v_value::text;
+  IF length(v_digits) < v_restaurant.order_number_padding THEN
+    v_digits := lpad(v_digits, v_restaurant.order_number_padding, '0');
+  END IF;
+
+  RETURN v_prefix || v_digits;
+END;
+$$;
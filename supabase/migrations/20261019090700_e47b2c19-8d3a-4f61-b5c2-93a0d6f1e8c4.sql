@@ -0,0 +1,64 @@
+-- Recipes stay within one restaurant
+-- recipe_ingredients_owners_manage only checked the ingredient, so an owner could attach one
+-- of their ingredients to another restaurant's menu item or topping: the availability trigger
+-- then hid that item from the other restaurant's kiosk and its orders used up the ingredient.
+-- The menu item or topping must now belong to the ingredient's restaurant. Recipes already
+-- crossing restaurants are removed, which recomputes the availability of what they hid.
+
+DELETE FROM public.recipe_ingredients ri
+USING public.ingredients i
+WHERE i.id = ri.ingredient_id
+  AND NOT EXISTS (
+    SELECT 1 FROM public.menu_items mi
+    JOIN public.menu_categories mc ON mc.id = mi.category_id
+    WHERE mi.id = ri.menu_item_id AND mc.restaurant_id = i.restaurant_id
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.toppings t
+    JOIN public.topping_categories tc ON tc.id = t.category_id
+    WHERE t.id = ri.topping_id AND tc.restaurant_id = i.restaurant_id
+  );
+
+DROP POLICY IF EXISTS "recipe_ingredients_owners_manage" ON public.recipe_ingredients;
+
+CREATE POLICY "recipe_ingredients_owners_manage" ON public.recipe_ingredients
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.ingredients i
+      WHERE i.id = recipe_ingredients.ingredient_id
+        AND public.is_restaurant_owner(i.restaurant_id)
+        AND (
+          EXISTS (
+            SELECT 1 FROM public.menu_items mi
+            JOIN public.menu_categories mc ON mc.id = mi.category_id
+            WHERE mi.id = recipe_ingredients.menu_item_id AND mc.restaurant_id = i.restaurant_id
+          )
+          OR EXISTS (
+            SELECT 1 FROM public.toppings t
+            JOIN public.topping_categories tc ON tc.id = t.category_id
+            WHERE t.id = recipe_ingredients.topping_id AND tc.restaurant_id = i.restaurant_id
+          )
+        )
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.ingredients i
+      WHERE i.id = recipe_ingredients.ingredient_id
+        AND public.is_restaurant_owner(i.restaurant_id)
+        AND (
+          EXISTS (
+            SELECT 1 FROM public.menu_items mi
+            JOIN public.menu_categories mc ON mc.id = mi.category_id
+            WHERE mi.id = recipe_ingredients.menu_item_id AND mc.restaurant_id = i.restaurant_id
+          )
+          OR EXISTS (
+            SELECT 1 FROM public.toppings t
+            JOIN public.topping_categories tc ON tc.id = t.category_id
+            WHERE t.id = recipe_ingredients.topping_id AND tc.restaurant_id = i.restaurant_id
+          )
+        )
+    )
+  );
@@ -0,0 +1,211 @@
+-- Stacked promotions keep every tax rate at zero or above
+-- evaluate_promotions split each discount across tax rates by what it applied to before any
+-- discount, so a later promotion could take more off a rate than an earlier one had left:
+-- the order showed negative tax on one rate and tax still due on another. The amount left
+-- at each rate is now tracked across promotions; a share never exceeds it and what a rate
+-- cannot take goes to the others, highest rate first. calculateCartTotals does the same.
+
+CREATE OR REPLACE FUNCTION public.evaluate_promotions(
+  p_restaurant_id uuid,
+  p_lines jsonb,
+  p_order_type text DEFAULT NULL,
+  p_at timestamptz DEFAULT now()
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_local timestamp;
+  v_minutes integer;
+  v_start integer;
+  v_end integer;
+  v_promotion promotions%ROWTYPE;
+  v_basket numeric;
+  v_remaining numeric;
+  v_eligible jsonb;
+  v_weights jsonb;
+  v_units integer;
+  v_free integer;
+  v_base numeric;
+  v_discount numeric;
+  v_rate_bases jsonb;
+  v_rate_total numeric;
+  v_rate_count integer;
+  v_rate_key text;
+  v_rate_base numeric;
+  v_index integer;
+  v_share numeric;
+  v_allocated numeric;
+  v_rates jsonb;
+  v_rate_left jsonb;
+  v_room numeric;
+  v_result jsonb := '[]'::jsonb;
+BEGIN
+  IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' THEN
+    RETURN v_result;
+  END IF;
+
+  SELECT p_at AT TIME ZONE COALESCE(NULLIF(timezone, ''), 'UTC') INTO v_local
+  FROM restaurants
+  WHERE id = p_restaurant_id;
+
+  IF NOT FOUND THEN
+    RETURN v_result;
+  END IF;
+
+  v_minutes := extract(hour FROM v_local)::integer * 60 + extract(minute FROM v_local)::integer;
+
+  SELECT COALESCE(sum((l->>'quantity')::numeric * (l->>'unit_price')::numeric), 0) INTO v_basket
+  FROM jsonb_array_elements(p_lines) l;
+  v_remaining := v_basket;
+
+  -- What is left at each rate once the promotions applied so far are taken off
+  SELECT COALESCE(jsonb_object_agg(rate, amount), '{}'::jsonb) INTO v_rate_left
+  FROM (
+    SELECT r.key AS rate, sum(r.value::numeric) AS amount
+    FROM jsonb_array_elements(p_lines) l
+    CROSS JOIN jsonb_each_text(l->'rates') r
+    GROUP BY r.key
+  ) s;
+
+  FOR v_promotion IN
+    SELECT * FROM promotions
+    WHERE restaurant_id = p_restaurant_id
+      AND active
+      AND (order_type IS NULL OR order_type = p_order_type)
+      AND (starts_on IS NULL OR starts_on <= v_local::date)
+      AND (ends_on IS NULL OR ends_on >= v_local::date)
+      AND (weekdays IS NULL OR cardinality(weekdays) = 0 OR extract(dow FROM v_local)::integer = ANY (weekdays))
+      AND (min_subtotal IS NULL OR v_basket >= min_subtotal)
+    ORDER BY display_order, id
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    -- Happy hour; a window ending before it starts runs past midnight
+    IF v_promotion.start_time IS NOT NULL AND v_promotion.end_time IS NOT NULL THEN
+      v_start := extract(hour FROM v_promotion.start_time)::integer * 60 + extract(minute FROM v_promotion.start_time)::integer;
+      v_end := extract(hour FROM v_promotion.end_time)::integer * 60 + extract(minute FROM v_promotion.end_time)::integer;
+
+      CONTINUE WHEN v_start < v_end AND NOT (v_minutes >= v_start AND v_minutes < v_end);
+      CONTINUE WHEN v_start > v_end AND NOT (v_minutes >= v_start OR v_minutes < v_end);
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(l ORDER BY idx), '[]'::jsonb) INTO v_eligible
+    FROM jsonb_array_elements(p_lines) WITH ORDINALITY AS t(l, idx)
+    WHERE (v_promotion.menu_item_id IS NULL OR l->>'menu_item_id' = v_promotion.menu_item_id::text)
+      AND (v_promotion.category_id IS NULL OR l->>'category_id' = v_promotion.category_id::text);
+
+    CONTINUE WHEN jsonb_array_length(v_eligible) = 0;
+
+    -- What the discount applies to in each eligible line, keyed by its position
+    IF v_promotion.promotion_type = 'buy_x_get_y' THEN
+      SELECT COALESCE(sum((l->>'quantity')::integer), 0) INTO v_units
+      FROM jsonb_array_elements(v_eligible) l;
+
+      v_free := (v_units / (v_promotion.buy_quantity + v_promotion.get_quantity)) * v_promotion.get_quantity;
+
+      SELECT COALESCE(jsonb_object_agg(idx, weight), '{}'::jsonb) INTO v_weights
+      FROM (
+        SELECT idx, sum(unit_price) AS weight
+        FROM (
+          SELECT t.idx, (t.l->>'unit_price')::numeric AS unit_price
+          FROM jsonb_array_elements(v_eligible) WITH ORDINALITY AS t(l, idx)
+          CROSS JOIN generate_series(1, (t.l->>'quantity')::integer)
+          ORDER BY 2, 1
+          LIMIT v_free
+        ) cheapest
+        GROUP BY idx
+      ) w;
+    ELSE
+      SELECT jsonb_object_agg(idx, (l->>'quantity')::numeric * (l->>'unit_price')::numeric) INTO v_weights
+      FROM jsonb_array_elements(v_eligible) WITH ORDINALITY AS t(l, idx);
+    END IF;
+
+    SELECT COALESCE(sum(value::numeric), 0) INTO v_base FROM jsonb_each_text(v_weights);
+
+    v_discount := CASE v_promotion.promotion_type
+      WHEN 'fixed' THEN LEAST(v_promotion.value, v_base)
+      ELSE round(v_base * v_promotion.value / 100, 2)
+    END;
+    v_discount := LEAST(v_discount, v_remaining);
+
+    CONTINUE WHEN v_discount <= 0;
+
+    -- Share of each rate in what the discount applies to
+    SELECT COALESCE(jsonb_object_agg(rate, amount), '{}'::jsonb), COALESCE(sum(amount), 0), count(*)
+    INTO v_rate_bases, v_rate_total, v_rate_count
+    FROM (
+      SELECT r.key AS rate,
+        sum(r.value::numeric * (v_weights->>t.idx::text)::numeric
+          / ((t.l->>'quantity')::numeric * (t.l->>'unit_price')::numeric)) AS amount
+      FROM jsonb_array_elements(v_eligible) WITH ORDINALITY AS t(l, idx)
+      CROSS JOIN jsonb_each_text(t.l->'rates') r
+      WHERE v_weights ? t.idx::text
+        AND (t.l->>'quantity')::numeric * (t.l->>'unit_price')::numeric > 0
+      GROUP BY r.key
+    ) b
+    WHERE amount > 0;
+
+    CONTINUE WHEN v_rate_total <= 0;
+
+    -- Earlier promotions may have used up a rate, and no rate goes below zero
+    SELECT COALESCE(sum((v_rate_left->>key)::numeric), 0) INTO v_room
+    FROM jsonb_object_keys(v_rate_bases) key;
+    v_discount := LEAST(v_discount, round(v_room, 2));
+
+    CONTINUE WHEN v_discount <= 0;
+
+    v_rates := '{}'::jsonb;
+    v_allocated := 0;
+    v_index := 0;
+
+    FOR v_rate_key, v_rate_base IN
+      SELECT key, value::numeric FROM jsonb_each_text(v_rate_bases) ORDER BY key::numeric
+    LOOP
+      v_index := v_index + 1;
+      v_share := LEAST(
+        CASE
+          WHEN v_index = v_rate_count THEN v_discount - v_allocated
+          ELSE round(v_discount * v_rate_base / v_rate_total, 2)
+        END,
+        round(COALESCE((v_rate_left->>v_rate_key)::numeric, 0), 2)
+      );
+      v_allocated := v_allocated + v_share;
+      v_rates := v_rates || jsonb_build_object(v_rate_key, v_share);
+    END LOOP;
+
+    -- What a used-up rate could not take goes to the others, highest rate first
+    FOR v_rate_key IN
+      SELECT key FROM jsonb_each_text(v_rate_bases) ORDER BY key::numeric DESC
+    LOOP
+      v_share := LEAST(
+        v_discount - v_allocated,
+        round(COALESCE((v_rate_left->>v_rate_key)::numeric, 0), 2) - (v_rates->>v_rate_key)::numeric
+      );
+      CONTINUE WHEN v_share <= 0;
+
+      v_allocated := v_allocated + v_share;
+      v_rates := v_rates || jsonb_build_object(v_rate_key, (v_rates->>v_rate_key)::numeric + v_share);
+    END LOOP;
+
+    SELECT v_rate_left || COALESCE(jsonb_object_agg(key, (v_rate_left->>key)::numeric - value::numeric), '{}'::jsonb)
+    INTO v_rate_left
+    FROM jsonb_each_text(v_rates);
+
+    v_result := v_result || jsonb_build_array(jsonb_build_object(
+      'promotion_id', v_promotion.id,
+      'name', v_promotion.name,
+      'amount', v_discount,
+      'rates', v_rates
+    ));
+    v_remaining := v_remaining - v_discount;
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.evaluate_promotions(uuid, jsonb, text, timestamptz) TO anon, authenticated;
@@ -0,0 +1,65 @@
+-- Counter payment and cancellation need the order's idempotency key
+-- pay_order_at_counter and cancel_unpaid_order were open to anon for any order id, so
+-- anyone holding an order's id could release it unpaid or cancel it. The kiosk that placed
+-- the order also holds the idempotency key it sent with place_order, which nobody else sees:
+-- both functions now take it and only act on the order it belongs to.
+
+DROP FUNCTION IF EXISTS public.pay_order_at_counter(uuid);
+DROP FUNCTION IF EXISTS public.cancel_unpaid_order(uuid);
+
+-- The customer gave up on the terminal and pays at the counter instead
+CREATE OR REPLACE FUNCTION public.pay_order_at_counter(p_order_id uuid, p_idempotency_key text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  UPDATE orders SET status = 'pending'
+  WHERE id = p_order_id
+    AND idempotency_key = p_idempotency_key
+    AND status = 'awaiting_payment'
+  RETURNING * INTO v_order;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ORDER_NOT_AWAITING_PAYMENT'
+      USING DETAIL = jsonb_build_object('order_id', p_order_id)::text;
+  END IF;
+
+  UPDATE payments SET status = 'cancelled', updated_at = now()
+  WHERE order_id = p_order_id AND status = 'pending';
+
+  INSERT INTO payments (order_id, amount, payment_method, status, provider)
+  VALUES (p_order_id, v_order.total, 'cash', 'pending', 'counter');
+
+  RETURN to_jsonb(v_order);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_unpaid_order(p_order_id uuid, p_idempotency_key text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  UPDATE orders SET status = 'cancelled'
+  WHERE id = p_order_id
+    AND idempotency_key = p_idempotency_key
+    AND status = 'awaiting_payment';
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE payments SET status = 'cancelled', updated_at = now()
+  WHERE order_id = p_order_id AND status = 'pending';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.pay_order_at_counter(uuid, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.cancel_unpaid_order(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.pay_order_at_counter(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_unpaid_order(uuid, text) TO anon, authenticated;